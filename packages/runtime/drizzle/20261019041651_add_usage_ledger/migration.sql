@@ -0,0 +1,15 @@
+CREATE TABLE `usage` (
+	`id` integer PRIMARY KEY AUTOINCREMENT,
+	`session_id` text NOT NULL,
+	`provider` text NOT NULL,
+	`model` text NOT NULL,
+	`origin` text NOT NULL,
+	`prompt_tokens` integer NOT NULL,
+	`completion_tokens` integer NOT NULL,
+	`cached_tokens` integer DEFAULT 0 NOT NULL,
+	`reasoning_tokens` integer DEFAULT 0 NOT NULL,
+	`cost_usd` real,
+	`created_at` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `usage_created_at_idx` ON `usage` (`created_at`);
\ No newline at end of file
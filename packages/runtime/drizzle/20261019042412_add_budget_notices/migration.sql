@@ -0,0 +1,4 @@
+CREATE TABLE `budget_notices` (
+	`budget` text PRIMARY KEY,
+	`notified_until` integer NOT NULL
+);
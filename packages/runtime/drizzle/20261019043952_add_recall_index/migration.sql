@@ -0,0 +1,12 @@
+CREATE TABLE `recall_sources` (
+	`source` text PRIMARY KEY,
+	`stamp` text NOT NULL
+);
+--> statement-breakpoint
+CREATE VIRTUAL TABLE `recall_index` USING fts5(
+	`source` UNINDEXED,
+	`kind` UNINDEXED,
+	`timestamp` UNINDEXED,
+	`body`,
+	tokenize = 'porter unicode61'
+);
@@ -0,0 +1,78 @@
+CREATE TABLE `messages` (
+	`id` integer PRIMARY KEY AUTOINCREMENT,
+	`session_id` text NOT NULL,
+	`position` integer NOT NULL,
+	`message_id` text,
+	`role` text NOT NULL,
+	`author_id` text,
+	`author_name` text,
+	`content` text NOT NULL,
+	`timestamp` integer,
+	CONSTRAINT `fk_messages_session_id_sessions_id_fk` FOREIGN KEY (`session_id`) REFERENCES `sessions`(`id`) ON DELETE CASCADE
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `messages_session_position_idx` ON `messages` (`session_id`,`position`);--> statement-breakpoint
+CREATE INDEX `messages_timestamp_idx` ON `messages` (`timestamp`);--> statement-breakpoint
+CREATE VIRTUAL TABLE `messages_fts` USING fts5(
+	`content`,
+	content = 'messages',
+	content_rowid = 'id',
+	tokenize = 'porter unicode61'
+);
+--> statement-breakpoint
+CREATE TRIGGER `messages_fts_insert` AFTER INSERT ON `messages` BEGIN
+	INSERT INTO `messages_fts` (rowid, content) VALUES (new.id, new.content);
+END;
+--> statement-breakpoint
+CREATE TRIGGER `messages_fts_delete` AFTER DELETE ON `messages` BEGIN
+	INSERT INTO `messages_fts` (`messages_fts`, rowid, content) VALUES ('delete', old.id, old.content);
+END;
+--> statement-breakpoint
+CREATE TRIGGER `messages_fts_update` AFTER UPDATE ON `messages` BEGIN
+	INSERT INTO `messages_fts` (`messages_fts`, rowid, content) VALUES ('delete', old.id, old.content);
+	INSERT INTO `messages_fts` (rowid, content) VALUES (new.id, new.content);
+END;
+--> statement-breakpoint
+-- Backfill from the history blobs. Mirrors messageRows() in src/db/messages.ts:
+-- user text blocks, assistant text blocks and `respond` calls, joined by newlines.
+INSERT INTO `messages` (`session_id`, `position`, `message_id`, `role`, `author_id`, `author_name`, `content`, `timestamp`)
+SELECT `session_id`, `position`, `message_id`, `role`, `author_id`, `author_name`, `content`, `timestamp`
+FROM (
+	SELECT
+		s.`id` AS `session_id`,
+		m.`key` AS `position`,
+		json_extract(m.`value`, '$.id') AS `message_id`,
+		json_extract(m.`value`, '$.role') AS `role`,
+		coalesce(
+			json_extract(m.`value`, '$.content.discord.author.id'),
+			json_extract(m.`value`, '$.content[0].discord.author.id')
+		) AS `author_id`,
+		coalesce(
+			json_extract(m.`value`, '$.content.discord.author.username'),
+			json_extract(m.`value`, '$.content[0].discord.author.username')
+		) AS `author_name`,
+		(
+			SELECT group_concat(`text`, char(10))
+			FROM (
+				SELECT CASE
+					WHEN json_extract(b.`value`, '$.type') = 'text' THEN json_extract(b.`value`, '$.content')
+					WHEN json_extract(b.`value`, '$.type') = 'toolCall'
+						AND json_extract(b.`value`, '$.name') = 'respond'
+						AND json_type(b.`value`, '$.input.content') = 'text'
+						THEN json_extract(b.`value`, '$.input.content')
+				END AS `text`
+				FROM json_each(
+					CASE json_type(m.`value`, '$.content')
+						WHEN 'array' THEN json_extract(m.`value`, '$.content')
+						WHEN 'object' THEN json_array(json(json_extract(m.`value`, '$.content')))
+						ELSE '[]'
+					END
+				) AS b
+			)
+			WHERE `text` IS NOT NULL AND `text` <> ''
+		) AS `content`,
+		json_extract(m.`value`, '$.timestamp') AS `timestamp`
+	FROM `sessions` AS s, json_each(s.`history`) AS m
+	WHERE json_valid(s.`history`) AND json_extract(m.`value`, '$.role') IN ('user', 'assistant')
+)
+WHERE `content` IS NOT NULL;
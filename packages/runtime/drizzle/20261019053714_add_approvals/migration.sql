@@ -0,0 +1,12 @@
+CREATE TABLE `approvals` (
+	`id` text PRIMARY KEY,
+	`session_id` text NOT NULL,
+	`kind` text NOT NULL,
+	`subject` text NOT NULL,
+	`decision` text NOT NULL,
+	`decided_by` text,
+	`requested_at` integer NOT NULL,
+	`decided_at` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `approvals_requested_at_idx` ON `approvals` (`requested_at`);
\ No newline at end of file
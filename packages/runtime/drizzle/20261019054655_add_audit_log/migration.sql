@@ -0,0 +1,22 @@
+CREATE TABLE `audit_log` (
+	`id` integer PRIMARY KEY AUTOINCREMENT,
+	`session_id` text NOT NULL,
+	`origin` text NOT NULL,
+	`tool` text NOT NULL,
+	`input` text NOT NULL,
+	`success` integer NOT NULL,
+	`error` text,
+	`duration_ms` integer NOT NULL,
+	`affected` text,
+	`created_at` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `audit_log_created_at_idx` ON `audit_log` (`created_at`);--> statement-breakpoint
+CREATE INDEX `audit_log_tool_idx` ON `audit_log` (`tool`);--> statement-breakpoint
+CREATE TRIGGER `audit_log_no_update` BEFORE UPDATE ON `audit_log` BEGIN
+	SELECT RAISE(ABORT, 'audit_log is append-only');
+END;
+--> statement-breakpoint
+CREATE TRIGGER `audit_log_no_delete` BEFORE DELETE ON `audit_log` BEGIN
+	SELECT RAISE(ABORT, 'audit_log is append-only');
+END;
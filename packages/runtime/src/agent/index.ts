@@ -1,10 +1,17 @@
 import type { Client as OceanicClient } from "oceanic.js";
+import * as vb from "valibot";
 
+import { SessionNameSchema } from "#channels/api/protocol.js";
 import { loadConditions } from "#config/index.js";
 import type { ConditionsConfig } from "#config/schemas/conditions.js";
+import { claimBudgetNotice } from "#db/budgets.js";
+import type { TurnOrigin } from "#db/usage.js";
+import { BudgetExceededError } from "#engine/errors.js";
 import { runTurn } from "#engine/index.js";
 import { MINIMAL_HANDLER } from "#harness/channel-handler.js";
 import type {
+  ApprovalAnswer,
+  ApprovalRequest,
   ChannelHandler,
   ChannelResolution,
   HistoryDirection,
@@ -12,11 +19,17 @@ import type {
 } from "#harness/channel-handler.js";
 import type { Session } from "#harness/session.js";
 import {
+  ApiSession,
+  channelTypeList,
   DiscordSession,
   discordSessionId,
+  MatrixSession,
   NamedInternalSession,
+  PluginSession,
   TuiSession,
 } from "#harness/session.js";
+import colors from "#output/colors.js";
+import { warning } from "#output/log.js";
 import { Scheduler } from "#scheduler/index.js";
 
 export class Agent {
@@ -96,9 +109,45 @@ export class Agent {
       }
     }
 
+    if (target.startsWith("matrix:")) {
+      const roomId = target.slice("matrix:".length);
+      if (roomId.length > 0) {
+        const session = new MatrixSession({ roomId });
+        this.sessions.set(target, session);
+        return session;
+      }
+    }
+
+    if (target.startsWith("api:")) {
+      const name = target.slice("api:".length);
+      if (vb.is(SessionNameSchema, name)) {
+        const session = new ApiSession({ name });
+        this.sessions.set(target, session);
+        return session;
+      }
+    }
+
+    // Plugin channels own the "<channel>:<conversation>" IDs of the names
+    // they registered.
+    const separator = target.indexOf(":");
+    const pluginChannel = target.slice(0, Math.max(0, separator));
+    if (
+      separator > 0 &&
+      separator < target.length - 1 &&
+      this.channelHandlers.has(pluginChannel) &&
+      !channelTypeList.some((type) => type === pluginChannel)
+    ) {
+      const session = new PluginSession({
+        conversationId: target.slice(separator + 1),
+        pluginChannel,
+      });
+      this.sessions.set(target, session);
+      return session;
+    }
+
     if (target === "owner") {
       if (this.ownerId === undefined || this.discordClient === undefined) {
-        return undefined;
+        return await this.resolveOwnerViaHandlers();
       }
 
       try {
@@ -123,8 +172,24 @@ export class Agent {
     return undefined;
   }
 
+  // Agents without Discord can still reach their owner through any channel
+  // that knows how to resolve "owner" (e.g. a Matrix DM room).
+  private async resolveOwnerViaHandlers(): Promise<Session | undefined> {
+    for (const handler of this.channelHandlers.values()) {
+      if (handler.resolveChannel === undefined) {
+        continue;
+      }
+      const result = await handler.resolveChannel("owner", this.sessions, this.ownerId);
+      if (!("error" in result)) {
+        return result;
+      }
+    }
+    return undefined;
+  }
+
   private getHandler(session: Session): ChannelHandler {
-    return this.channelHandlers.get(session.channel) ?? MINIMAL_HANDLER;
+    const channel = session.channel === "plugin" ? session.pluginChannel : session.channel;
+    return this.channelHandlers.get(channel) ?? MINIMAL_HANDLER;
   }
 
   public async send(
@@ -141,6 +206,26 @@ export class Agent {
     await handler.send(session, content, attachments, flags);
   }
 
+  /**
+   * Asks the owner to approve something an "ask" rule stopped. The session's
+   * own channel asks when it can (a TUI prompt, or a Discord DM); otherwise
+   * any channel that can reach the owner does.
+   */
+  public async requestApproval(
+    request: ApprovalRequest,
+    signal: AbortSignal,
+  ): Promise<ApprovalAnswer> {
+    const own = this.getHandler(request.session);
+    const handler =
+      own.requestApproval === undefined
+        ? [...this.channelHandlers.values()].find((it) => it.requestApproval !== undefined)
+        : own;
+    if (handler?.requestApproval === undefined) {
+      throw new Error("No channel can ask the owner for approval");
+    }
+    return await handler.requestApproval(request, signal);
+  }
+
   // oxlint-disable-next-line require-await
   public async resolveChannel(spec: string, currentSession: Session): Promise<ChannelResolution> {
     if (spec === "current") {
@@ -166,7 +251,7 @@ export class Agent {
     return this.sessions.get(spec) ?? { error: `session not found: ${spec}` };
   }
 
-  public async runTurn(session: Session): Promise<void> {
+  public async runTurn(session: Session, origin: TurnOrigin = "user"): Promise<void> {
     const handler = this.getHandler(session);
 
     const send = async (content: string, attachments?: string[]): Promise<void> => {
@@ -212,19 +297,37 @@ export class Agent {
     const resolveChannel = async (spec: string): Promise<ChannelResolution> =>
       this.resolveChannel(spec, session);
 
-    await runTurn(
-      session,
-      this.slug,
-      {},
-      send,
-      sendTo,
-      react,
-      downloadAttachments,
-      fetchHistory,
-      resolveChannel,
-      handler.capabilities,
-      this.conditions,
-      this.scheduler,
+    const sendPartial =
+      handler.sendPartial === undefined
+        ? undefined
+        : async (content: string): Promise<void> => {
+            // Filters judge whole messages; a prefix can't be vetted, so don't preview.
+            if (session.sendFilter !== undefined) {
+              return;
+            }
+            await handler.sendPartial?.(session, content);
+          };
+
+    await this.guardBudget(
+      runTurn(
+        session,
+        this.slug,
+        {
+          approver: async (request, signal) => await this.requestApproval(request, signal),
+          origin,
+          sendPartial,
+        },
+        {},
+        send,
+        sendTo,
+        react,
+        downloadAttachments,
+        fetchHistory,
+        resolveChannel,
+        handler.capabilities,
+        this.conditions,
+        this.scheduler,
+      ),
     );
   }
 
@@ -236,28 +339,73 @@ export class Agent {
   public async runScheduledTurn(
     session: Session,
     overrides: { model?: string; provider?: string },
+    origin: TurnOrigin,
   ): Promise<void> {
     // oxlint-disable-next-line require-await
     const resolveChannel = async (spec: string): Promise<ChannelResolution> =>
       this.resolveChannel(spec, session);
 
-    await runTurn(
-      session,
-      this.slug,
-      overrides,
-      async (content: string): Promise<void> => {
-        await this.send(session, content);
-      },
-      async (targetSession: Session, content: string): Promise<void> => {
-        await this.send(targetSession, content);
-      },
-      undefined,
-      undefined,
-      undefined,
-      resolveChannel,
-      undefined,
-      this.conditions,
-      this.scheduler,
+    await this.guardBudget(
+      runTurn(
+        session,
+        this.slug,
+        {
+          approver: async (request, signal) => await this.requestApproval(request, signal),
+          origin,
+        },
+        overrides,
+        async (content: string): Promise<void> => {
+          await this.send(session, content);
+        },
+        async (targetSession: Session, content: string): Promise<void> => {
+          await this.send(targetSession, content);
+        },
+        undefined,
+        undefined,
+        undefined,
+        resolveChannel,
+        undefined,
+        this.conditions,
+        this.scheduler,
+      ),
     );
   }
+
+  // Lets the owner know when a turn was refused because a budget is spent.
+  // Reported once per exhausted window; the claim is persisted so restarts
+  // don't repeat it. The turn's own error is always rethrown.
+  private async guardBudget(turn: Promise<void>): Promise<void> {
+    try {
+      await turn;
+    } catch (error) {
+      if (error instanceof BudgetExceededError) {
+        await this.notifyBudgetExceeded(error);
+      }
+      throw error;
+    }
+  }
+
+  private async notifyBudgetExceeded(error: BudgetExceededError): Promise<void> {
+    try {
+      if (!claimBudgetNotice(this.slug, error.budget, error.until)) {
+        return;
+      }
+      const owner = await this.resolveTarget("owner");
+      if (owner === undefined) {
+        warning(
+          "Budget exhausted and no owner to notify",
+          colors.keyword(this.slug),
+          error.message,
+        );
+        return;
+      }
+      const resumes = new Date(error.until * 1000).toISOString();
+      await this.send(
+        owner,
+        `⚠️ ${error.message} for agent ${this.slug}. Generation is blocked until about ${resumes}.`,
+      );
+    } catch (notifyError) {
+      warning("Failed to notify owner of exhausted budget", colors.keyword(this.slug), notifyError);
+    }
+  }
 }
@@ -0,0 +1,197 @@
+import { randomUUID } from "node:crypto";
+import { mkdirSync, mkdtempSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+
+import * as vb from "valibot";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { WebSocket } from "ws";
+
+import { Agent } from "#agent/index.js";
+import { startApiServer } from "#channels/api.js";
+import { initDb } from "#db/index.js";
+import { Harness } from "#harness/index.js";
+import { ApiSession } from "#harness/session.js";
+
+const TOKEN = "test-token-0123456789";
+
+const EventSchema = vb.looseObject({ seq: vb.number(), type: vb.string() });
+const ReplySchema = vb.looseObject({
+  events: vb.exactOptional(vb.array(EventSchema), []),
+  id: vb.string(),
+});
+
+const controllers: AbortController[] = [];
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  for (const controller of controllers.splice(0)) {
+    controller.abort();
+  }
+});
+
+async function setup(): Promise<{ agent: Agent; url: string }> {
+  const home = mkdtempSync(path.join(tmpdir(), "cireilclaw-api-test-"));
+  vi.stubEnv("HOME", home);
+  const slug = `agent-${randomUUID()}`;
+  mkdirSync(path.join(home, ".cireilclaw", "agents", slug), { recursive: true });
+  initDb(slug);
+
+  const agent = new Agent(slug, new Map());
+  const owner = Harness.init(new Map([[slug, agent]]));
+  const controller = new AbortController();
+  controllers.push(controller);
+  const { port } = await startApiServer(
+    owner,
+    slug,
+    {
+      host: "127.0.0.1",
+      maxBodyBytes: 1024,
+      port: 0,
+      tokens: [{ name: "tester", token: TOKEN }],
+    },
+    controller.signal,
+  );
+  return { agent, url: `http://127.0.0.1:${port}` };
+}
+
+async function call(
+  url: string,
+  method: string,
+  body?: unknown,
+  token = TOKEN,
+): Promise<{ body: unknown; status: number }> {
+  const response = await fetch(url, {
+    body: body === undefined ? undefined : JSON.stringify(body),
+    headers: { Authorization: `Bearer ${token}`, "Content-Type": "application/json" },
+    method,
+  });
+  const raw: unknown = await response.json();
+  return { body: raw, status: response.status };
+}
+
+async function statusOf(...args: Parameters<typeof call>): Promise<number> {
+  const { status } = await call(...args);
+  return status;
+}
+
+// Opens a socket and collects every frame until `count` have arrived.
+async function collectFrames(
+  url: string,
+  count: number,
+  onOpen?: (ws: WebSocket) => void,
+  token = TOKEN,
+): Promise<vb.InferOutput<typeof EventSchema>[]> {
+  const ws = new WebSocket(url.replace(/^http/u, "ws"), {
+    headers: { Authorization: `Bearer ${token}` },
+  });
+  const frames: vb.InferOutput<typeof EventSchema>[] = [];
+  return await new Promise((resolve, reject) => {
+    ws.on("error", reject);
+    ws.on("open", () => onOpen?.(ws));
+    ws.on("message", (data) => {
+      const text = Buffer.isBuffer(data) ? data.toString("utf8") : "";
+      frames.push(vb.parse(EventSchema, JSON.parse(text)));
+      if (frames.length === count) {
+        ws.close();
+        resolve(frames);
+      }
+    });
+  });
+}
+
+describe("API channel", () => {
+  it("rejects requests and sockets without a known bearer token", async () => {
+    const { url } = await setup();
+
+    const response = await fetch(`${url}/v1/sessions`);
+    expect(response.status).toBe(401);
+    expect(response.headers.get("www-authenticate")).toBe("Bearer");
+    expect(await statusOf(`${url}/v1/sessions`, "GET", undefined, "wrong-token")).toBe(401);
+
+    await call(`${url}/v1/sessions/main`, "PUT");
+    await expect(
+      collectFrames(`${url}/v1/sessions/main/events`, 1, undefined, "wrong-token"),
+    ).rejects.toThrow("401");
+  });
+
+  it("answers a waiting message with the events of its turn", async () => {
+    const { agent, url } = await setup();
+    const runTurn = vi.spyOn(agent, "runTurn").mockImplementation(async (session) => {
+      await agent.send(session, "hello back");
+      await agent.channelHandlers.get("api")?.react?.(session, "👍");
+    });
+
+    expect(await statusOf(`${url}/v1/sessions/main`, "PUT")).toBe(201);
+    expect(await statusOf(`${url}/v1/sessions/main`, "PUT")).toBe(200);
+
+    const { body, status } = await call(`${url}/v1/sessions/main/messages`, "POST", {
+      content: "hi",
+      wait: true,
+    });
+    expect(status).toBe(200);
+    expect(runTurn).toHaveBeenCalledOnce();
+
+    const { events, id } = vb.parse(ReplySchema, body);
+    expect(events.map((event) => event.type)).toEqual(["message", "reaction", "turn"]);
+    expect(events[0]).toMatchObject({ attachments: [], content: "hello back" });
+    expect(events[1]).toMatchObject({ emoji: "👍", messageId: id });
+    expect(events[2]).toMatchObject({ messageIds: [id], status: "completed" });
+
+    const session = agent.sessions.get("api:main");
+    expect(session).toBeInstanceOf(ApiSession);
+    expect(session?.history.map((entry) => entry.id)).toEqual([id]);
+  });
+
+  it("streams events over a socket and replays what a client missed", async () => {
+    const { agent, url } = await setup();
+    vi.spyOn(agent, "runTurn").mockImplementation(async (session) => {
+      await agent.send(session, "pong");
+    });
+    await call(`${url}/v1/sessions/main`, "PUT");
+    await call(`${url}/v1/sessions/main/messages`, "POST", { content: "first", wait: true });
+
+    // Replays the three events of the first turn, then follows the second
+    // turn, which the socket itself starts.
+    const frames = await collectFrames(`${url}/v1/sessions/main/events?since=0`, 6, (ws) => {
+      ws.send(JSON.stringify({ content: "second", type: "message" }));
+    });
+    expect(frames.map((frame) => frame.type)).toEqual([
+      "accepted",
+      "message",
+      "turn",
+      "accepted",
+      "message",
+      "turn",
+    ]);
+    expect(frames.map((frame) => frame.seq)).toEqual([1, 2, 3, 4, 5, 6]);
+  });
+
+  it("keeps attachments downloadable and refuses oversized or misaddressed messages", async () => {
+    const { agent, url } = await setup();
+    vi.spyOn(agent, "runTurn").mockResolvedValue();
+    await call(`${url}/v1/sessions/main`, "PUT");
+
+    const { body } = await call(`${url}/v1/sessions/main/messages`, "POST", {
+      attachments: [{ data: Buffer.from("notes").toString("base64"), filename: "../notes.txt" }],
+      content: "see attached",
+      wait: true,
+    });
+    const { id } = vb.parse(ReplySchema, body);
+    const session = agent.sessions.get("api:main");
+    if (session === undefined) {
+      throw new Error("session was not created");
+    }
+    const files = await agent.channelHandlers.get("api")?.downloadAttachments?.(session, id);
+    expect(files?.map((file) => [file.filename, file.data.toString()])).toEqual([
+      ["notes.txt", "notes"],
+    ]);
+
+    expect(await statusOf(`${url}/v1/sessions/other/messages`, "POST", { content: "hi" })).toBe(
+      404,
+    );
+    expect(
+      await statusOf(`${url}/v1/sessions/main/messages`, "POST", { content: "x".repeat(2048) }),
+    ).toBe(413);
+  });
+});
@@ -0,0 +1,801 @@
+import { createHash, timingSafeEqual } from "node:crypto";
+import { readFile } from "node:fs/promises";
+import { createServer, STATUS_CODES } from "node:http";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import path from "node:path";
+import type { Duplex } from "node:stream";
+
+import { ulid } from "ulid";
+import * as vb from "valibot";
+import { WebSocketServer } from "ws";
+import type { RawData, WebSocket } from "ws";
+
+import type { Agent } from "#agent/index.js";
+import type { ApiHandlerCtx } from "#channels/api/handler-ctx.js";
+import { ClientFrameSchema, MessageBodySchema, SessionNameSchema } from "#channels/api/protocol.js";
+import type {
+  ApiErrorFrame,
+  ApiEvent,
+  ApiEventBody,
+  InboundAttachment,
+  OutboundAttachment,
+} from "#channels/api/protocol.js";
+import { loadChannel } from "#config/index.js";
+import type { ApiConfig, ApiToken } from "#config/schemas/api.js";
+import { saveSession } from "#db/sessions.js";
+import type { ImageContent, TextContent } from "#engine/content.js";
+import { renderTextContent } from "#engine/content.js";
+import type { ChannelHandler } from "#harness/channel-handler.js";
+import type { Harness } from "#harness/index.js";
+import { enqueue, queueDepth } from "#harness/queue.js";
+import { ApiSession, apiSessionId } from "#harness/session.js";
+import type { Session } from "#harness/session.js";
+import colors from "#output/colors.js";
+import { debug, error as logError, info, warning } from "#output/log.js";
+import { SUPPORTED_IMAGE_TYPES } from "#supports.js";
+import { formatDate } from "#util/date.js";
+import { toWebp } from "#util/image.js";
+import { sandboxToReal } from "#util/paths.js";
+
+const HISTORY_LIMIT = 50;
+// Per-session caps on the runtime-only state kept for replay and lookups.
+const EVENT_BACKLOG = 200;
+const TRANSCRIPT_LIMIT = 500;
+const ATTACHMENT_MESSAGE_LIMIT = 50;
+
+const ROUTE_PATTERN =
+  /^\/v1\/sessions(?:\/(?<name>[^/]+)(?:\/(?<resource>events|messages))?)?\/?$/u;
+
+type Route =
+  | { resource: "sessions" }
+  | { resource: "events" | "messages" | "session"; name: string };
+
+interface DecodedAttachment {
+  data: Buffer;
+  filename: string;
+  mediaType: string | undefined;
+}
+
+class HttpError extends Error {
+  public override name = "HttpError";
+  public readonly status: number;
+
+  public constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+function digest(value: string): Buffer {
+  return createHash("sha256").update(value).digest();
+}
+
+// Compares digests rather than the raw strings so every check takes the same
+// time whatever the length of the presented token.
+function authenticate(tokens: ApiToken[], header: string | undefined): ApiToken | undefined {
+  const match = /^Bearer\s+(?<token>\S+)$/u.exec(header ?? "");
+  const presented = match?.groups?.["token"];
+  if (presented === undefined) {
+    return undefined;
+  }
+  const presentedDigest = digest(presented);
+  return tokens.find((it) => timingSafeEqual(digest(it.token), presentedDigest));
+}
+
+function parseRoute(pathname: string): Route | undefined {
+  const match = ROUTE_PATTERN.exec(pathname);
+  if (match === null) {
+    return undefined;
+  }
+  const name = match.groups?.["name"];
+  if (name === undefined) {
+    return { resource: "sessions" };
+  }
+  if (!vb.is(SessionNameSchema, name)) {
+    throw new HttpError(400, "Session names are 1-64 characters of [A-Za-z0-9._-]");
+  }
+  const resource = match.groups?.["resource"];
+  return {
+    name,
+    resource: resource === "events" || resource === "messages" ? resource : "session",
+  };
+}
+
+function parseSince(value: string | null): number {
+  if (value === null) {
+    return 0;
+  }
+  const since = Number(value);
+  if (!Number.isSafeInteger(since) || since < 0) {
+    throw new HttpError(400, "`since` must be a non-negative integer");
+  }
+  return since;
+}
+
+function getAgent(ctx: ApiHandlerCtx): Agent {
+  const agent = ctx.owner.agents.get(ctx.agentSlug);
+  if (agent === undefined) {
+    throw new Error(`Agent ${ctx.agentSlug} not found`);
+  }
+  return agent;
+}
+
+function attachSession(
+  sessions: Map<string, Session>,
+  name: string,
+): { created: boolean; session: ApiSession } {
+  const sessionId = apiSessionId(name);
+  const existing = sessions.get(sessionId);
+  if (existing !== undefined) {
+    if (!(existing instanceof ApiSession)) {
+      throw new TypeError(`invalid session type: expected api, got ${existing.channel}`);
+    }
+    return { created: false, session: existing };
+  }
+
+  const session = new ApiSession({ name });
+  sessions.set(sessionId, session);
+  return { created: true, session };
+}
+
+function requireSession(ctx: ApiHandlerCtx, name: string): ApiSession {
+  const session = getAgent(ctx).sessions.get(apiSessionId(name));
+  if (!(session instanceof ApiSession)) {
+    throw new HttpError(404, `No session named ${name}; create it with PUT first`);
+  }
+  return session;
+}
+
+function describeSession(session: ApiSession): Record<string, unknown> {
+  return {
+    busy: session.busy,
+    id: session.id(),
+    lastActivity:
+      session.lastActivity > 0 ? new Date(session.lastActivity).toISOString() : undefined,
+    name: session.name,
+    queued: queueDepth(session).message,
+  };
+}
+
+function trimFront(items: unknown[], limit: number): void {
+  if (items.length > limit) {
+    items.splice(0, items.length - limit);
+  }
+}
+
+function emit(ctx: ApiHandlerCtx, session: ApiSession, body: ApiEventBody): void {
+  const event: ApiEvent = {
+    ...body,
+    seq: session.nextEventSeq++,
+    session: session.name,
+    timestamp: new Date().toISOString(),
+  };
+  session.events.push(event);
+  trimFront(session.events, EVENT_BACKLOG);
+
+  for (const listener of ctx.listeners.get(session.id()) ?? []) {
+    listener(event);
+  }
+}
+
+function subscribe(
+  ctx: ApiHandlerCtx,
+  session: ApiSession,
+  listener: (event: ApiEvent) => void,
+): () => void {
+  const sessionId = session.id();
+  let listeners = ctx.listeners.get(sessionId);
+  if (listeners === undefined) {
+    listeners = new Set();
+    ctx.listeners.set(sessionId, listeners);
+  }
+  listeners.add(listener);
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) {
+      ctx.listeners.delete(sessionId);
+    }
+  };
+}
+
+// Appends `<attachment>` tags in the same shape Discord and Matrix use, so
+// the agent knows what it can fetch with download-attachments.
+function appendAttachmentMetadata(
+  content: string,
+  messageId: string,
+  attachments: DecodedAttachment[],
+): string {
+  if (attachments.length === 0) {
+    return content;
+  }
+  const attachmentInfo = attachments
+    .map(
+      (att) =>
+        `<attachment id="${messageId}" filename="${att.filename}" contentType="${att.mediaType ?? "unknown"}" size="${att.data.length}">`,
+    )
+    .join("\n");
+  return `${content}\n${attachmentInfo}`;
+}
+
+async function decodeImages(attachments: DecodedAttachment[]): Promise<ImageContent[]> {
+  const images: ImageContent[] = [];
+  for (const attachment of attachments) {
+    const mediaType = attachment.mediaType?.split(";")[0]?.trim();
+    if (mediaType === undefined || !SUPPORTED_IMAGE_TYPES.has(mediaType)) {
+      continue;
+    }
+    try {
+      // Copy out of Node's pooled Buffer so toWebp gets a standalone ArrayBuffer.
+      const data = await toWebp(new Uint8Array(attachment.data).buffer, mediaType);
+      images.push({ data, mediaType: "image/webp", type: "image" });
+    } catch (error) {
+      warning(
+        "Failed to decode API image attachment:",
+        attachment.filename,
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+  }
+  return images;
+}
+
+async function stageMessage(
+  session: ApiSession,
+  client: ApiToken,
+  messageId: string,
+  message: { attachments: InboundAttachment[]; content: string },
+): Promise<number> {
+  const now = Date.now();
+  const attachments: DecodedAttachment[] = message.attachments.map((it) => ({
+    data: Buffer.from(it.data, "base64"),
+    filename: path.basename(it.filename),
+    mediaType: it.mediaType,
+  }));
+
+  const textContent: TextContent = {
+    content: appendAttachmentMetadata(message.content, messageId, attachments),
+    discord: {
+      author: { displayName: client.name, id: `api:${client.name}`, username: client.name },
+      format: "message",
+      messageId,
+      timestamp: await formatDate(new Date(now), undefined, false),
+    },
+    type: "text",
+  };
+  const imageContents = await decodeImages(attachments);
+
+  if (attachments.length > 0) {
+    session.attachments.set(
+      messageId,
+      attachments.map(({ data, filename }) => ({ data, filename })),
+    );
+    for (const oldest of session.attachments.keys()) {
+      if (session.attachments.size <= ATTACHMENT_MESSAGE_LIMIT) {
+        break;
+      }
+      session.attachments.delete(oldest);
+    }
+  }
+
+  session.transcript.push({
+    authorId: `api:${client.name}`,
+    authorName: client.name,
+    content: message.content,
+    formatted: renderTextContent(textContent),
+    id: messageId,
+    timestamp: new Date(now).toISOString(),
+  });
+  trimFront(session.transcript, TRANSCRIPT_LIMIT);
+
+  session.lastActivity = now;
+  session.lastMessageId = messageId;
+  session.stagedMessageIds.push(messageId);
+
+  const historyLengthBeforeMessage = session.history.length;
+  session.history.push({
+    content: imageContents.length > 0 ? [textContent, ...imageContents] : textContent,
+    id: messageId,
+    persist: true,
+    role: "user",
+    timestamp: now,
+  });
+  return historyLengthBeforeMessage;
+}
+
+async function runApiTurn(
+  ctx: ApiHandlerCtx,
+  session: ApiSession,
+  historyLengthBeforeTurn: number,
+): Promise<void> {
+  const messageIds = session.stagedMessageIds;
+  session.stagedMessageIds = [];
+
+  try {
+    await getAgent(ctx).runTurn(session);
+    emit(ctx, session, { messageIds, status: "completed", type: "turn" });
+  } catch (error) {
+    // Roll back this turn's history so the next message doesn't see a
+    // stranded user message with no response.
+    session.history.length = historyLengthBeforeTurn;
+    session.pendingToolMessages.length = 0;
+    session.pendingVideos.length = 0;
+    warning("Error during agent turn:", error instanceof Error ? error.message : String(error));
+    if (error instanceof Error && error.stack !== undefined) {
+      warning("Stack trace:", error.stack);
+    }
+    emit(ctx, session, {
+      error:
+        "The turn failed before a response could be produced. Details were written to the console logs.",
+      messageIds,
+      status: "failed",
+      type: "turn",
+    });
+  } finally {
+    saveSession(ctx.agentSlug, session);
+  }
+}
+
+/**
+ * Queues a user message and resolves once the turn answering it is over.
+ * Never rejects: a message that could not even be staged is reported to
+ * subscribers as a failed turn of its own. `onStaged` runs right before the
+ * message enters history, i.e. once everything queued ahead of it has run.
+ */
+async function submitMessage(
+  ctx: ApiHandlerCtx,
+  session: ApiSession,
+  client: ApiToken,
+  messageId: string,
+  message: { attachments: InboundAttachment[]; content: string },
+  onStaged?: () => void,
+): Promise<void> {
+  emit(ctx, session, { id: messageId, type: "accepted" });
+
+  try {
+    await enqueue(session, {
+      kind: "message",
+      stage: async (): Promise<number> => {
+        onStaged?.();
+        return await stageMessage(session, client, messageId, message);
+      },
+      turn: async (historyLengthBeforeTurn): Promise<void> => {
+        await runApiTurn(ctx, session, historyLengthBeforeTurn);
+      },
+    });
+  } catch (error: unknown) {
+    emit(ctx, session, {
+      error: error instanceof Error ? error.message : String(error),
+      messageIds: [messageId],
+      status: "failed",
+      type: "turn",
+    });
+  }
+}
+
+function createApiHandler(ctx: ApiHandlerCtx): ChannelHandler {
+  return {
+    capabilities: {
+      supportsAttachments: true,
+      supportsDownloadAttachments: true,
+      supportsReactions: true,
+    },
+    // oxlint-disable-next-line typescript/require-await
+    downloadAttachments: async (session, messageId) => {
+      if (!(session instanceof ApiSession)) {
+        throw new Error("downloadAttachments only works on API sessions");
+      }
+
+      return session.attachments.get(messageId) ?? [];
+    },
+    // oxlint-disable-next-line typescript/require-await
+    fetchHistory: async (session, messageId, direction, limit = HISTORY_LIMIT) => {
+      if (!(session instanceof ApiSession)) {
+        throw new Error("fetchHistory only works on API sessions");
+      }
+
+      const { transcript } = session;
+      const index = transcript.findIndex((it) => it.id === messageId);
+      if (index === -1) {
+        throw new Error(`Unknown message ID: ${messageId}`);
+      }
+
+      switch (direction) {
+        case "after": {
+          return transcript.slice(index + 1, index + 1 + limit);
+        }
+        case "around": {
+          const half = Math.floor(limit / 2);
+          return transcript.slice(Math.max(0, index - half), index + half + 1);
+        }
+        case "before": {
+          return transcript.slice(Math.max(0, index - limit), index);
+        }
+        default: {
+          const exhaustive: never = direction;
+          throw new Error(`Unknown direction: ${String(exhaustive)}`);
+        }
+      }
+    },
+    // oxlint-disable-next-line typescript/require-await
+    react: async (session, emoji, messageId) => {
+      if (!(session instanceof ApiSession)) {
+        throw new Error("Somehow, `session` was not an ApiSession");
+      }
+
+      const targetId = messageId ?? session.lastMessageId;
+      if (targetId === undefined) {
+        return;
+      }
+      emit(ctx, session, { emoji, messageId: targetId, type: "reaction" });
+    },
+    // oxlint-disable-next-line typescript/require-await
+    resolveChannel: async (spec, sessions) => {
+      // There is no owner identity on the API, so owner pings are left to
+      // whichever other channel can resolve them.
+      if (spec === "owner") {
+        return { error: "the API channel has no owner to message" };
+      }
+
+      if (spec.startsWith("api:")) {
+        const name = spec.slice("api:".length);
+        if (!vb.is(SessionNameSchema, name)) {
+          return { error: `invalid API session name: ${spec}` };
+        }
+        return attachSession(sessions, name).session;
+      }
+
+      return sessions.get(spec) ?? { error: `session not found: ${spec}` };
+    },
+    send: async (session, content, attachments) => {
+      if (!(session instanceof ApiSession)) {
+        throw new Error("Somehow, `session` was not an ApiSession");
+      }
+
+      const files: OutboundAttachment[] = await Promise.all(
+        (attachments ?? []).map(async (sandboxPath) => {
+          const realPath = sandboxToReal(sandboxPath, ctx.agentSlug);
+          const data = await readFile(realPath);
+          return { data: data.toString("base64"), filename: path.basename(realPath) };
+        }),
+      );
+
+      const messageId = ulid();
+      const now = new Date();
+      session.transcript.push({
+        authorId: ctx.agentSlug,
+        authorName: ctx.agentSlug,
+        content,
+        formatted: renderTextContent({
+          content,
+          discord: {
+            format: "assistant",
+            messageId,
+            timestamp: await formatDate(now, undefined, false),
+          },
+          type: "text",
+        }),
+        id: messageId,
+        timestamp: now.toISOString(),
+      });
+      trimFront(session.transcript, TRANSCRIPT_LIMIT);
+
+      emit(ctx, session, { attachments: files, content, id: messageId, type: "message" });
+
+      // Store the sent message ID so the engine can assign it to the
+      // assistant history entry after it's pushed.
+      session.lastSentMessageIds = [messageId];
+    },
+    // oxlint-disable-next-line typescript/require-await
+    sendPartial: async (session, content) => {
+      if (!(session instanceof ApiSession)) {
+        throw new Error("Somehow, `session` was not an ApiSession");
+      }
+
+      emit(ctx, session, { content, type: "partial" });
+    },
+  };
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+async function readJson(req: IncomingMessage, limit: number): Promise<unknown> {
+  const declared = Number(req.headers["content-length"] ?? 0);
+  if (declared > limit) {
+    throw new HttpError(413, `Request body exceeds ${limit} bytes`);
+  }
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req as AsyncIterable<Buffer>) {
+    size += chunk.length;
+    if (size > limit) {
+      throw new HttpError(413, `Request body exceeds ${limit} bytes`);
+    }
+    chunks.push(chunk);
+  }
+
+  try {
+    const parsed: unknown = JSON.parse(Buffer.concat(chunks).toString("utf8"));
+    return parsed;
+  } catch {
+    throw new HttpError(400, "Request body is not valid JSON");
+  }
+}
+
+async function postMessage(
+  ctx: ApiHandlerCtx,
+  req: IncomingMessage,
+  res: ServerResponse,
+  client: ApiToken,
+  name: string,
+): Promise<void> {
+  const session = requireSession(ctx, name);
+  const parsed = vb.safeParse(MessageBodySchema, await readJson(req, ctx.config.maxBodyBytes));
+  if (!parsed.success) {
+    throw new HttpError(400, vb.summarize(parsed.issues));
+  }
+  const body = parsed.output;
+  const messageId = ulid();
+
+  if (!body.wait) {
+    // oxlint-disable-next-line typescript/no-floating-promises -- submitMessage reports its own failures as events.
+    submitMessage(ctx, session, client, messageId, body);
+    sendJson(res, 202, { id: messageId });
+    return;
+  }
+
+  // Collect from the moment this message is staged, so events of turns
+  // queued ahead of it don't leak into its response.
+  const events: ApiEvent[] = [];
+  let collecting = false;
+  const unsubscribe = subscribe(ctx, session, (event) => {
+    if (collecting) {
+      events.push(event);
+    }
+  });
+  try {
+    await submitMessage(ctx, session, client, messageId, body, () => {
+      collecting = true;
+    });
+  } finally {
+    unsubscribe();
+  }
+  sendJson(res, 200, { events, id: messageId });
+}
+
+async function handleRequest(
+  ctx: ApiHandlerCtx,
+  req: IncomingMessage,
+  res: ServerResponse,
+): Promise<void> {
+  const client = authenticate(ctx.config.tokens, req.headers.authorization);
+  if (client === undefined) {
+    res.setHeader("WWW-Authenticate", "Bearer");
+    throw new HttpError(401, "Missing or invalid bearer token");
+  }
+
+  const url = new URL(req.url ?? "/", "http://localhost");
+  const route = parseRoute(url.pathname);
+  if (route === undefined) {
+    throw new HttpError(404, "Not found");
+  }
+
+  const method = req.method ?? "GET";
+  if (route.resource === "sessions" && method === "GET") {
+    const sessions = [...getAgent(ctx).sessions.values()].filter(
+      (it): it is ApiSession => it instanceof ApiSession,
+    );
+    sendJson(res, 200, { sessions: sessions.map((it) => describeSession(it)) });
+  } else if (route.resource === "session" && method === "GET") {
+    sendJson(res, 200, describeSession(requireSession(ctx, route.name)));
+  } else if (route.resource === "session" && method === "PUT") {
+    const { created, session } = attachSession(getAgent(ctx).sessions, route.name);
+    if (created) {
+      saveSession(ctx.agentSlug, session);
+    }
+    sendJson(res, created ? 201 : 200, describeSession(session));
+  } else if (route.resource === "messages" && method === "POST") {
+    await postMessage(ctx, req, res, client, route.name);
+  } else if (route.resource === "events" && method === "GET") {
+    // Plain GET is the polling fallback to the WebSocket on the same path.
+    const since = parseSince(url.searchParams.get("since"));
+    const session = requireSession(ctx, route.name);
+    sendJson(res, 200, { events: session.events.filter((it) => it.seq > since) });
+  } else {
+    throw new HttpError(405, `${method} is not supported on ${url.pathname}`);
+  }
+}
+
+function rawText(data: RawData): string {
+  if (Array.isArray(data)) {
+    return Buffer.concat(data).toString("utf8");
+  }
+  return Buffer.isBuffer(data) ? data.toString("utf8") : Buffer.from(data).toString("utf8");
+}
+
+function sendFrame(ws: WebSocket, frame: ApiEvent | ApiErrorFrame): void {
+  if (ws.readyState === ws.OPEN) {
+    ws.send(JSON.stringify(frame));
+  }
+}
+
+function handleFrame(
+  ctx: ApiHandlerCtx,
+  ws: WebSocket,
+  session: ApiSession,
+  client: ApiToken,
+  data: RawData,
+): void {
+  let payload: unknown = undefined;
+  try {
+    payload = JSON.parse(rawText(data));
+  } catch {
+    sendFrame(ws, { error: "Frame is not valid JSON", type: "error" });
+    return;
+  }
+
+  const parsed = vb.safeParse(ClientFrameSchema, payload);
+  if (!parsed.success) {
+    sendFrame(ws, { error: vb.summarize(parsed.issues), type: "error" });
+    return;
+  }
+
+  // oxlint-disable-next-line typescript/no-floating-promises -- submitMessage reports its own failures as events.
+  submitMessage(ctx, session, client, ulid(), parsed.output);
+}
+
+function handleSocket(
+  ctx: ApiHandlerCtx,
+  ws: WebSocket,
+  session: ApiSession,
+  client: ApiToken,
+  since: number,
+): void {
+  for (const event of session.events) {
+    if (event.seq > since) {
+      sendFrame(ws, event);
+    }
+  }
+
+  const unsubscribe = subscribe(ctx, session, (event) => {
+    sendFrame(ws, event);
+  });
+  ws.on("close", unsubscribe);
+  ws.on("error", (error) => {
+    debug("API WebSocket error on", colors.keyword(session.id()), error.message);
+  });
+  ws.on("message", (data) => {
+    handleFrame(ctx, ws, session, client, data);
+  });
+}
+
+function resolveSocketTarget(
+  ctx: ApiHandlerCtx,
+  req: IncomingMessage,
+): { session: ApiSession; since: number } {
+  const url = new URL(req.url ?? "/", "http://localhost");
+  const route = parseRoute(url.pathname);
+  if (route?.resource !== "events") {
+    throw new HttpError(404, "Not found");
+  }
+  return {
+    session: requireSession(ctx, route.name),
+    since: parseSince(url.searchParams.get("since")),
+  };
+}
+
+function rejectUpgrade(socket: Duplex, status: number): void {
+  socket.end(`HTTP/1.1 ${status} ${STATUS_CODES[status] ?? ""}\r\nConnection: close\r\n\r\n`);
+}
+
+function handleUpgrade(
+  ctx: ApiHandlerCtx,
+  sockets: WebSocketServer,
+  req: IncomingMessage,
+  socket: Duplex,
+  head: Buffer,
+): void {
+  const client = authenticate(ctx.config.tokens, req.headers.authorization);
+  if (client === undefined) {
+    rejectUpgrade(socket, 401);
+    return;
+  }
+
+  let target: { session: ApiSession; since: number } | undefined = undefined;
+  try {
+    target = resolveSocketTarget(ctx, req);
+  } catch (error: unknown) {
+    rejectUpgrade(socket, error instanceof HttpError ? error.status : 500);
+    return;
+  }
+
+  const { session, since } = target;
+  sockets.handleUpgrade(req, socket, head, (ws) => {
+    handleSocket(ctx, ws, session, client, since);
+  });
+}
+
+/**
+ * Serves the API for one agent until `signal` aborts. Split from startApi so
+ * tests can pass a config directly and bind an ephemeral port.
+ */
+async function startApiServer(
+  owner: Harness,
+  agentSlug: string,
+  config: ApiConfig,
+  signal: AbortSignal,
+): Promise<AddressInfo> {
+  const agent = owner.agents.get(agentSlug);
+  if (agent === undefined) {
+    throw new Error(`Agent ${agentSlug} not found`);
+  }
+
+  const ctx: ApiHandlerCtx = { agentSlug, config, listeners: new Map(), owner };
+  agent.registerChannel("api", createApiHandler(ctx));
+
+  const sockets = new WebSocketServer({ maxPayload: config.maxBodyBytes, noServer: true });
+  const server = createServer((req, res) => {
+    // oxlint-disable-next-line promise/prefer-await-to-then -- node:http handlers are callback-based
+    handleRequest(ctx, req, res).catch((error: unknown) => {
+      if (!(error instanceof HttpError)) {
+        logError("Unhandled error in API request handler:", error);
+      }
+      if (res.headersSent) {
+        res.end();
+        return;
+      }
+      const status = error instanceof HttpError ? error.status : 500;
+      const message = error instanceof HttpError ? error.message : "Internal server error";
+      sendJson(res, status, { error: message });
+    });
+  });
+  server.on("upgrade", (req, socket, head) => {
+    handleUpgrade(ctx, sockets, req, socket, head);
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(config.port, config.host, () => {
+      server.off("error", reject);
+      resolve();
+    });
+  });
+
+  signal.addEventListener(
+    "abort",
+    () => {
+      for (const ws of sockets.clients) {
+        ws.terminate();
+      }
+      sockets.close();
+      server.close();
+      server.closeAllConnections();
+    },
+    { once: true },
+  );
+
+  const address = server.address();
+  if (address === null || typeof address === "string") {
+    throw new Error("API server did not bind a TCP port");
+  }
+  return address;
+}
+
+async function startApi(owner: Harness, agentSlug: string, signal: AbortSignal): Promise<void> {
+  const config = await loadChannel("api", agentSlug);
+  const { address, port } = await startApiServer(owner, agentSlug, config, signal);
+
+  info(
+    "Channel",
+    colors.keyword(`${agentSlug}:api`),
+    "is now listening on",
+    colors.keyword(`${address}:${port}`),
+  );
+}
+
+export { authenticate, createApiHandler, startApi, startApiServer };
@@ -0,0 +1,12 @@
+import type { ApiEvent } from "#channels/api/protocol.js";
+import type { ApiConfig } from "#config/schemas/api.js";
+import type { Harness } from "#harness/index.js";
+
+export interface ApiHandlerCtx {
+  agentSlug: string;
+  config: ApiConfig;
+  // Subscribers per session ID: open WebSockets and `wait` requests that are
+  // collecting the events of the turn they triggered.
+  listeners: Map<string, Set<(event: ApiEvent) => void>>;
+  owner: Harness;
+}
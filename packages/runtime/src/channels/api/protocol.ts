@@ -0,0 +1,68 @@
+import * as vb from "valibot";
+
+// Session names double as URL path segments and condition suffixes.
+const SessionNameSchema = vb.pipe(
+  vb.string(),
+  vb.regex(/^[\w.-]{1,64}$/u, "Session names are 1-64 characters of [A-Za-z0-9._-]"),
+);
+
+const InboundAttachmentSchema = vb.strictObject({
+  // Base64-encoded file contents.
+  data: vb.pipe(vb.string(), vb.base64("Attachment data must be base64")),
+  filename: vb.pipe(vb.string(), vb.nonEmpty()),
+  mediaType: vb.exactOptional(vb.pipe(vb.string(), vb.nonEmpty())),
+});
+
+const MessageBodySchema = vb.strictObject({
+  attachments: vb.exactOptional(vb.array(InboundAttachmentSchema), []),
+  content: vb.string(),
+  // Hold the HTTP response until the turn that answers this message is over
+  // and return the events it produced.
+  wait: vb.exactOptional(vb.boolean(), false),
+});
+
+// What a WebSocket client may send. Messages sent this way never wait; their
+// results arrive on the same socket.
+const ClientFrameSchema = vb.variant("type", [
+  vb.strictObject({
+    attachments: vb.exactOptional(vb.array(InboundAttachmentSchema), []),
+    content: vb.string(),
+    type: vb.literal("message"),
+  }),
+]);
+
+interface OutboundAttachment {
+  data: string;
+  filename: string;
+}
+
+type ApiEventBody =
+  | { type: "accepted"; id: string }
+  | { type: "message"; id: string; content: string; attachments: OutboundAttachment[] }
+  | { type: "partial"; content: string }
+  | { type: "reaction"; emoji: string; messageId?: string }
+  | { type: "turn"; status: "completed" | "failed"; messageIds: string[]; error?: string };
+
+// Every event carries a per-session sequence number so a reconnecting client
+// can ask for whatever it missed with `?since=<seq>`.
+type ApiEvent = ApiEventBody & { seq: number; session: string; timestamp: string };
+
+// Sent to a single WebSocket when a frame it sent could not be used. Not part
+// of the session's event stream, so it has no sequence number.
+interface ApiErrorFrame {
+  type: "error";
+  error: string;
+}
+
+type InboundAttachment = vb.InferOutput<typeof InboundAttachmentSchema>;
+type MessageBody = vb.InferOutput<typeof MessageBodySchema>;
+
+export { ClientFrameSchema, MessageBodySchema, SessionNameSchema };
+export type {
+  ApiErrorFrame,
+  ApiEvent,
+  ApiEventBody,
+  InboundAttachment,
+  MessageBody,
+  OutboundAttachment,
+};
@@ -25,21 +25,29 @@ import {
   TextableChannelTypes,
 } from "oceanic.js";
 
+import {
+  handleApprovalButton,
+  isApprovalButton,
+  requestDiscordApproval,
+} from "#channels/discord/approval.js";
 import * as clearCommand from "#channels/discord/clear-command.js";
 import * as closeCommand from "#channels/discord/close-command.js";
 import * as deleteCommand from "#channels/discord/delete-command.js";
 import type { HandlerCtx } from "#channels/discord/handler-ctx.js";
 import * as inviteCommand from "#channels/discord/invite-command.js";
 import * as modelCommand from "#channels/discord/model-command.js";
+import * as pluginsCommand from "#channels/discord/plugins-command.js";
 import * as repairCommand from "#channels/discord/repair-command.js";
 import * as rerollCommand from "#channels/discord/reroll-command.js";
 import {
   isDiscordRestConnectionError,
   runDiscordRestWithRetries,
 } from "#channels/discord/rest-retry.js";
+import * as rollbackCommand from "#channels/discord/rollback-command.js";
 import * as stopCommand from "#channels/discord/stop-command.js";
 import * as summarizeCommand from "#channels/discord/summarize-command.js";
 import * as unsummarizeCommand from "#channels/discord/unsummarize-command.js";
+import * as usageCommand from "#channels/discord/usage-command.js";
 import { sendDiscordWarningMessage } from "#channels/discord/warning-message.js";
 import { loadChannel, loadEngine } from "#config/index.js";
 import { saveSession } from "#db/sessions.js";
@@ -54,6 +62,7 @@ import { cascadeRemoveToolResponses, getToolCallIds } from "#engine/history-vali
 import type { Message } from "#engine/message.js";
 import type { ChannelHandler } from "#harness/channel-handler.js";
 import type { Harness } from "#harness/index.js";
+import { enqueue } from "#harness/queue.js";
 import { DiscordSession, discordSessionId } from "#harness/session.js";
 import colors from "#output/colors.js";
 import { debug, error as logError, info, warning } from "#output/log.js";
@@ -84,11 +93,14 @@ const COMMANDS = [
   deleteCommand.definition,
   inviteCommand.definition,
   modelCommand.definition,
+  pluginsCommand.definition,
   repairCommand.definition,
   rerollCommand.definition,
+  rollbackCommand.definition,
   stopCommand.definition,
   summarizeCommand.definition,
   unsummarizeCommand.definition,
+  usageCommand.definition,
 ];
 
 type CommandHandler = (interaction: CommandInteraction, ctx: HandlerCtx) => Promise<void>;
@@ -98,19 +110,33 @@ const HANDLERS = new Map<string, CommandHandler>([
   ["Delete Message", deleteCommand.handle],
   ["invite", inviteCommand.handle],
   ["model", modelCommand.handleCommand],
+  ["plugins", pluginsCommand.handleCommand],
   ["repair", repairCommand.handle],
   ["Reroll Response", rerollCommand.handle],
+  ["rollback", rollbackCommand.handleCommand],
   ["stop", stopCommand.handle],
   ["summarize", summarizeCommand.handleCommand],
   ["unsummarize", unsummarizeCommand.handleCommand],
+  ["usage", usageCommand.handle],
 ]);
 
-const SILENT_COMMANDS = new Set(["model", "invite", "close", "stop", "summarize", "unsummarize"]);
+const SILENT_COMMANDS = new Set([
+  "model",
+  "invite",
+  "plugins",
+  "close",
+  "rollback",
+  "stop",
+  "summarize",
+  "unsummarize",
+  "usage",
+]);
 
 type AutocompleteHandler = (interaction: AutocompleteInteraction, ctx: HandlerCtx) => Promise<void>;
 const AUTOCOMPLETE_HANDLERS = new Map<string, AutocompleteHandler>([
   ["close", closeCommand.handleAutocomplete],
   ["model", modelCommand.handleAutocomplete],
+  ["rollback", rollbackCommand.handleAutocomplete],
 ]);
 
 // Persisted hash of COMMANDS to avoid re-registering on every startup.
@@ -663,6 +689,27 @@ function splitMessage(content: string): string[] {
   return result;
 }
 
+// A streamed preview that no final send claimed (failed turn, or the respond
+// call was retried away) would otherwise linger as a half-written reply.
+async function deleteOrphanedPartial(
+  client: OceanicClient,
+  session: DiscordSession,
+): Promise<void> {
+  const { partialMessageId } = session;
+  if (partialMessageId === undefined) {
+    return;
+  }
+  session.partialMessageId = undefined;
+  try {
+    await client.rest.channels.deleteMessage(session.channelId, partialMessageId);
+  } catch (error) {
+    warning(
+      "Failed to delete partial reply",
+      error instanceof Error ? error.message : String(error),
+    );
+  }
+}
+
 async function handleMessageCreate(
   { access, agentSlug, client, directMessages, owner, ownerId }: HandlerCtx,
   msg: DiscordMessage,
@@ -835,179 +882,167 @@ async function handleMessageCreate(
     }
   }
 
-  // Populate message history for both new and existing sessions. The function
-  // skips messages already in history, so this is safe to call every turn.
-  const botId = client.application.id;
-  await populateHistoryFromDiscord(client, session, botId, msg.id, 50);
-
   if (!(session instanceof DiscordSession)) {
     throw new Error("Somehow, session was not a DiscordSession");
   }
   const ds = session;
-
-  // If a scheduled turn (e.g. heartbeat) is running, wait up to 5 s for it
-  // to finish before proceeding. If it's still busy after that, give up.
-  if (ds.busy) {
-    const WAIT_MS = 5000;
-    const POLL_MS = 500;
-    let waited = 0;
-    // oxlint-disable-next-line typescript/no-unnecessary-condition
-    while (ds.busy && waited < WAIT_MS) {
-      await new Promise<void>((resolve) => {
-        setTimeout(resolve, POLL_MS);
-      });
-      waited += POLL_MS;
-    }
-    // oxlint-disable-next-line typescript/no-unnecessary-condition
-    if (ds.busy) {
-      debug("Ignoring message — session still busy after wait for", colors.keyword(sessionId));
-      return;
-    }
-  }
+  const botId = client.application.id;
 
   session.lastActivity = Date.now();
-  session.lastMessageId = msg.id;
-  session.busy = true;
-  try {
-    // Crawl the full reply tree and add ancestor messages as context.
-    // These messages help the agent understand the conversation flow but
-    // aren't persisted to avoid polluting long-term history.
-    if (directReply !== undefined) {
-      // Crawl ancestors (messages older than the direct reply)
-      const ancestors = await crawlReplyTree(client, directReply);
-
-      for (const ancestor of ancestors) {
-        if (isMessageInHistory(ds.history, ancestor.id)) {
-          continue;
-        }
 
-        if (ds.historyBarrier !== undefined && ancestor.createdAt.getTime() < ds.historyBarrier) {
-          continue;
-        }
+  // Messages that arrive mid-turn wait in the queue and are answered together
+  // in the next turn. Everything that touches history happens in `stage`,
+  // which the queue only runs once the previous turn is over.
+  await enqueue(ds, {
+    kind: "message",
+    stage: async (): Promise<number> => {
+      // Populate message history for both new and existing sessions. The function
+      // skips messages already in history, so this is safe to call every turn.
+      await populateHistoryFromDiscord(client, ds, botId, msg.id, 50);
+
+      ds.lastMessageId = msg.id;
+
+      // Crawl the full reply tree and add ancestor messages as context.
+      // These messages help the agent understand the conversation flow but
+      // aren't persisted to avoid polluting long-term history.
+      if (directReply !== undefined) {
+        // Crawl ancestors (messages older than the direct reply)
+        const ancestors = await crawlReplyTree(client, directReply);
+
+        for (const ancestor of ancestors) {
+          if (isMessageInHistory(ds.history, ancestor.id)) {
+            continue;
+          }
 
-        const isFromBot = ancestor.author.id === botId;
-        const ancestorContent = isFromBot
-          ? await formatAssistantContext(ancestor)
-          : await formatHistoryContext(ancestor);
-        const ancestorImages = await fetchAllImages(ancestor);
-        const insertIndex = historyInsertById(ds.history, {
-          content:
-            ancestorImages.length > 0 ? [ancestorContent, ...ancestorImages] : ancestorContent,
-          id: ancestor.id,
-          persist: false,
-          role: isFromBot ? "assistant" : "user",
-          timestamp: ancestor.createdAt.getTime(),
-        });
-        if (insertIndex < ds.historyCursor) {
-          ds.historyCursor++;
-        }
-      }
+          if (ds.historyBarrier !== undefined && ancestor.createdAt.getTime() < ds.historyBarrier) {
+            continue;
+          }
 
-      if (!isMessageInHistory(ds.history, directReply.id)) {
-        if (
-          ds.historyBarrier !== undefined &&
-          directReply.createdAt.getTime() < ds.historyBarrier
-        ) {
-          // Direct reply is before the barrier — skip it entirely.
-        } else {
-          const isFromBot = directReply.author.id === botId;
-          const replyContent = isFromBot
-            ? await formatAssistantContext(directReply)
-            : await formatHistoryContext(directReply);
-          const replyImages = await fetchAllImages(directReply);
+          const isFromBot = ancestor.author.id === botId;
+          const ancestorContent = isFromBot
+            ? await formatAssistantContext(ancestor)
+            : await formatHistoryContext(ancestor);
+          const ancestorImages = await fetchAllImages(ancestor);
           const insertIndex = historyInsertById(ds.history, {
-            content: replyImages.length > 0 ? [replyContent, ...replyImages] : replyContent,
-            id: directReply.id,
-            persist: true,
+            content:
+              ancestorImages.length > 0 ? [ancestorContent, ...ancestorImages] : ancestorContent,
+            id: ancestor.id,
+            persist: false,
             role: isFromBot ? "assistant" : "user",
-            timestamp: directReply.createdAt.getTime(),
+            timestamp: ancestor.createdAt.getTime(),
           });
           if (insertIndex < ds.historyCursor) {
             ds.historyCursor++;
           }
         }
+
+        if (!isMessageInHistory(ds.history, directReply.id)) {
+          if (
+            ds.historyBarrier !== undefined &&
+            directReply.createdAt.getTime() < ds.historyBarrier
+          ) {
+            // Direct reply is before the barrier — skip it entirely.
+          } else {
+            const isFromBot = directReply.author.id === botId;
+            const replyContent = isFromBot
+              ? await formatAssistantContext(directReply)
+              : await formatHistoryContext(directReply);
+            const replyImages = await fetchAllImages(directReply);
+            const insertIndex = historyInsertById(ds.history, {
+              content: replyImages.length > 0 ? [replyContent, ...replyImages] : replyContent,
+              id: directReply.id,
+              persist: true,
+              role: isFromBot ? "assistant" : "user",
+              timestamp: directReply.createdAt.getTime(),
+            });
+            if (insertIndex < ds.historyCursor) {
+              ds.historyCursor++;
+            }
+          }
+        }
       }
-    }
 
-    const textContent = await formatUserMessage(msg, {
-      directReply,
-      isMentioned: memberIdMentioned || userIdMentioned,
-    });
-    const imageContents = await fetchAllImages(msg);
+      const textContent = await formatUserMessage(msg, {
+        directReply,
+        isMentioned: memberIdMentioned || userIdMentioned,
+      });
+      const imageContents = await fetchAllImages(msg);
 
-    const engineConfig = await loadEngine(agentSlug);
+      const engineConfig = await loadEngine(agentSlug);
 
-    const provider = engineConfig[session.selectedProvider ?? defaults.provider.name];
-    if (provider === undefined) {
-      throw new Error(
-        `Could not load the provider ${session.selectedProvider} from the engine config: check your configuration`,
-      );
-    }
-    const { models } = provider;
-    const modelSupportsVideo =
-      models?.[session.selectedModel ?? defaults.model.name] === undefined
-        ? false
-        : models[session.selectedModel ?? defaults.model.name]?.supportsVideo;
-
-    const supportsVideo = models === undefined ? false : (modelSupportsVideo ?? false);
-    const videoContents = supportsVideo ? await fetchAttachmentVideos(msg) : [];
-    session.pendingVideos.push(...videoContents);
-    const mediaContents = [...imageContents];
-    const historyLengthBeforeTurn = session.history.length;
-    session.history.push({
-      content: mediaContents.length > 0 ? [textContent, ...mediaContents] : textContent,
-      id: msg.id,
-      persist: true,
-      role: "user",
-      timestamp: msg.createdAt.getTime(),
-    });
-
-    // Start typing indicator — Discord shows "Bot is typing…" for ~5 s, so we
-    // refresh it on an interval for the duration of the turn.
-    try {
-      await msgChannel.sendTyping();
-    } catch (error) {
-      warning(
-        "Got error while trying to send typing",
-        error instanceof Error ? error.message : String(error),
-      );
-      warning(error);
-      // Non-fatal — typing indicators are best-effort.
-    }
-    ds.typingInterval = setInterval(() => {
-      // oxlint-disable-next-line promise/prefer-await-to-then
-      msgChannel.sendTyping().catch(() => {
-        // Intentionally ignored
+      const provider = engineConfig[ds.selectedProvider ?? defaults.provider.name];
+      if (provider === undefined) {
+        throw new Error(
+          `Could not load the provider ${ds.selectedProvider} from the engine config: check your configuration`,
+        );
+      }
+      const { models } = provider;
+      const modelSupportsVideo =
+        models?.[ds.selectedModel ?? defaults.model.name] === undefined
+          ? false
+          : models[ds.selectedModel ?? defaults.model.name]?.supportsVideo;
+
+      const supportsVideo = models === undefined ? false : (modelSupportsVideo ?? false);
+      const videoContents = supportsVideo ? await fetchAttachmentVideos(msg) : [];
+      ds.pendingVideos.push(...videoContents);
+      const mediaContents = [...imageContents];
+      const historyLengthBeforeMessage = ds.history.length;
+      ds.history.push({
+        content: mediaContents.length > 0 ? [textContent, ...mediaContents] : textContent,
+        id: msg.id,
+        persist: true,
+        role: "user",
+        timestamp: msg.createdAt.getTime(),
       });
-    }, TYPING_INTERVAL_MS);
+      return historyLengthBeforeMessage;
+    },
+    turn: async (historyLengthBeforeTurn): Promise<void> => {
+      // Start typing indicator — Discord shows "Bot is typing…" for ~5 s, so we
+      // refresh it on an interval for the duration of the turn.
+      try {
+        await msgChannel.sendTyping();
+      } catch (error) {
+        warning(
+          "Got error while trying to send typing",
+          error instanceof Error ? error.message : String(error),
+        );
+        warning(error);
+        // Non-fatal — typing indicators are best-effort.
+      }
+      ds.typingInterval = setInterval(() => {
+        msgChannel.sendTyping().catch(() => {
+          // Intentionally ignored
+        });
+      }, TYPING_INTERVAL_MS);
 
-    try {
-      await agent.runTurn(session);
-    } catch (error) {
-      // Roll back any history entries added during this failed turn so that the
-      // next message doesn't see a stranded user message with no response.
-      // Also clear pending tool/media messages — they reference the rolled-back
-      // turn and must not leak into the next turn.
-      session.history.length = historyLengthBeforeTurn;
-      session.pendingToolMessages.length = 0;
-      session.pendingVideos.length = 0;
-      warning("Error during agent turn:", error instanceof Error ? error.message : String(error));
-      if (error instanceof Error && error.stack !== undefined) {
-        warning("Stack trace:", error.stack);
+      try {
+        await agent.runTurn(ds);
+      } catch (error) {
+        // Roll back any history entries added during this failed turn so that the
+        // next message doesn't see a stranded user message with no response.
+        // Also clear pending tool/media messages — they reference the rolled-back
+        // turn and must not leak into the next turn.
+        ds.history.length = historyLengthBeforeTurn;
+        ds.pendingToolMessages.length = 0;
+        ds.pendingVideos.length = 0;
+        warning("Error during agent turn:", error instanceof Error ? error.message : String(error));
+        if (error instanceof Error && error.stack !== undefined) {
+          warning("Stack trace:", error.stack);
+        }
+        await sendDiscordWarningMessage(
+          client,
+          msg,
+          "Engine error",
+          "The turn failed before a response could be produced. Details were written to the console logs.",
+        );
+      } finally {
+        saveSession(agentSlug, ds);
+        clearInterval(ds.typingInterval);
+        ds.typingInterval = undefined;
+        await deleteOrphanedPartial(client, ds);
       }
-      await sendDiscordWarningMessage(
-        client,
-        msg,
-        "Engine error",
-        "The turn failed before a response could be produced. Details were written to the console logs.",
-      );
-    }
-  } finally {
-    saveSession(agent.slug, session);
-    clearInterval(ds.typingInterval);
-    ds.typingInterval = undefined;
-    session.busy = false;
-  }
+    },
+  });
 }
 
 async function handleMessageReactionAdd(
@@ -1239,6 +1274,11 @@ async function handleInteractionCreate(
     if (handler !== undefined) {
       await handler(interaction, ctx);
     }
+  } else if (
+    interaction.type === InteractionTypes.MESSAGE_COMPONENT &&
+    isApprovalButton(interaction)
+  ) {
+    await handleApprovalButton(interaction, ctx);
   }
 }
 
@@ -1359,6 +1399,9 @@ async function startDiscord(owner: Harness, agentSlug: string): Promise<OceanicC
 
       await client.rest.channels.createReaction(session.channelId, targetId, emoji);
     },
+    // Approval requests go to the owner's DMs whichever session they came from.
+    requestApproval: async (request, signal) =>
+      await requestDiscordApproval(client, ownerId, request, signal),
     resolveChannel: async (spec, sessions, ownerUserId) => {
       if (spec === "owner") {
         if (ownerUserId === undefined) {
@@ -1403,9 +1446,22 @@ async function startDiscord(owner: Harness, agentSlug: string): Promise<OceanicC
             )
           : undefined;
 
+      const { partialMessageId } = ds;
+      ds.partialMessageId = undefined;
+
       const sentIds: string[] = [];
       for (const [idx, chunk] of chunks.entries()) {
         const isLast = idx === chunks.length - 1;
+        // Turn the streamed preview into the first chunk rather than posting
+        // a second copy under it. Attachments can't be added by an edit.
+        if (idx === 0 && partialMessageId !== undefined && !(isLast && files !== undefined)) {
+          const edited = await client.rest.channels.editMessage(ds.channelId, partialMessageId, {
+            content: chunk,
+            flags,
+          });
+          sentIds.push(edited.id);
+          continue;
+        }
         const sent = await client.rest.channels.createMessage(ds.channelId, {
           content: chunk,
           flags,
@@ -1417,6 +1473,23 @@ async function startDiscord(owner: Harness, agentSlug: string): Promise<OceanicC
       // assistant history entry after it's pushed.
       ds.lastSentMessageIds = sentIds;
     },
+    sendPartial: async (session, content) => {
+      if (!(session instanceof DiscordSession)) {
+        throw new Error("Somehow, `session` was not a DiscordSession");
+      }
+
+      const preview = content.length > CHUNK_LIMIT ? `${content.slice(0, CHUNK_LIMIT)}…` : content;
+      if (session.partialMessageId === undefined) {
+        const sent = await client.rest.channels.createMessage(session.channelId, {
+          content: preview,
+        });
+        session.partialMessageId = sent.id;
+      } else {
+        await client.rest.channels.editMessage(session.channelId, session.partialMessageId, {
+          content: preview,
+        });
+      }
+    },
   };
 
   agent.registerChannel("discord", discordHandler);
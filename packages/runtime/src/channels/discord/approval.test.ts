@@ -0,0 +1,50 @@
+import type { Client } from "oceanic.js";
+import { describe, expect, it, vi } from "vitest";
+
+import type { ApprovalRequest } from "#harness/channel-handler.js";
+
+import { requestDiscordApproval } from "./approval.js";
+
+vi.mock("#output/log.js", () => ({
+  warning: vi.fn(),
+}));
+
+// oxlint-disable-next-line typescript/no-unsafe-type-assertion -- only what the prompt uses
+const request = {
+  agentSlug: "agent",
+  id: "request-1",
+  kind: "exec",
+  session: { id: (): string => "session-1" },
+  subject: "rm -rf build",
+} as unknown as ApprovalRequest;
+
+describe("requestDiscordApproval", () => {
+  it("takes the buttons down when time runs out while the prompt is sent", async () => {
+    const controller = new AbortController();
+    const editMessage = vi.fn(async () => {
+      await Promise.resolve();
+    });
+    // oxlint-disable-next-line typescript/no-unsafe-type-assertion -- only what the prompt uses
+    const client = {
+      rest: {
+        channels: {
+          createMessage: vi.fn(async () => {
+            controller.abort();
+            return await Promise.resolve({ id: "message-1" });
+          }),
+          editMessage,
+        },
+        users: { createDM: vi.fn(async () => await Promise.resolve({ id: "dm-1" })) },
+      },
+    } as unknown as Client;
+
+    await expect(
+      requestDiscordApproval(client, "owner", request, controller.signal),
+    ).rejects.toThrow("timed out");
+    expect(editMessage).toHaveBeenCalledWith(
+      "dm-1",
+      "message-1",
+      expect.objectContaining({ components: [] }),
+    );
+  });
+});
@@ -0,0 +1,122 @@
+import { ButtonStyles, ComponentTypes, MessageFlags } from "oceanic.js";
+import type { Client, ComponentInteraction } from "oceanic.js";
+
+import type { HandlerCtx } from "#channels/discord/handler-ctx.js";
+import type { ApprovalAnswer, ApprovalRequest } from "#harness/channel-handler.js";
+import { warning } from "#output/log.js";
+
+const CUSTOM_ID_PREFIX = "approval:";
+
+// Questions still waiting for the owner, by request ID. A button press for
+// anything else (an answered or timed-out request, or one from before a
+// restart) only tidies up the message.
+const pending = new Map<string, (answer: ApprovalAnswer) => void>();
+
+function describeRequest(request: ApprovalRequest): string {
+  let what = `run \`${request.subject.replaceAll("`", "'")}\``;
+  if (request.kind === "write") {
+    what = `write to \`${request.subject}\``;
+  } else if (request.kind === "plugin") {
+    what = `use plugin access \`${request.subject}\``;
+  }
+  return `🔐 **${request.agentSlug}** wants to ${what}\nSession: \`${request.session.id()}\``;
+}
+
+/** DMs the owner Approve/Deny buttons and waits for one to be pressed. */
+async function requestDiscordApproval(
+  client: Client,
+  ownerId: string,
+  request: ApprovalRequest,
+  signal: AbortSignal,
+): Promise<ApprovalAnswer> {
+  signal.throwIfAborted();
+  // A full request ID keeps the custom IDs well inside Discord's 100
+  // characters.
+  const dm = await client.rest.users.createDM(ownerId);
+  const content = describeRequest(request);
+  const message = await client.rest.channels.createMessage(dm.id, {
+    components: [
+      {
+        components: [
+          {
+            customID: `${CUSTOM_ID_PREFIX}${request.id}:approve`,
+            label: "Approve",
+            style: ButtonStyles.SUCCESS,
+            type: ComponentTypes.BUTTON,
+          },
+          {
+            customID: `${CUSTOM_ID_PREFIX}${request.id}:deny`,
+            label: "Deny",
+            style: ButtonStyles.DANGER,
+            type: ComponentTypes.BUTTON,
+          },
+        ],
+        type: ComponentTypes.ACTION_ROW,
+      },
+    ],
+    content,
+  });
+
+  try {
+    return await new Promise<ApprovalAnswer>((resolve, reject) => {
+      // The time may have run out while the message was being sent.
+      if (signal.aborted) {
+        reject(new Error("The approval request timed out"));
+        return;
+      }
+      pending.set(request.id, resolve);
+      signal.addEventListener(
+        "abort",
+        () => {
+          reject(new Error("The approval request timed out"));
+        },
+        { once: true },
+      );
+    });
+  } finally {
+    pending.delete(request.id);
+    if (signal.aborted) {
+      try {
+        await client.rest.channels.editMessage(dm.id, message.id, {
+          components: [],
+          content: `${content}\n\n⏱️ No answer in time, so it was denied.`,
+        });
+      } catch (error) {
+        warning("Failed to withdraw an approval request", String(error));
+      }
+    }
+  }
+}
+
+function isApprovalButton(interaction: ComponentInteraction): boolean {
+  return interaction.data.customID.startsWith(CUSTOM_ID_PREFIX);
+}
+
+async function handleApprovalButton(
+  interaction: ComponentInteraction,
+  ctx: HandlerCtx,
+): Promise<void> {
+  if (interaction.user.id !== ctx.ownerId) {
+    await interaction.createMessage({
+      content: "Only the owner can answer approval requests.",
+      flags: MessageFlags.EPHEMERAL,
+    });
+    return;
+  }
+
+  const [id, choice] = interaction.data.customID.slice(CUSTOM_ID_PREFIX.length).split(":");
+  const resolve = id === undefined ? undefined : pending.get(id);
+  const approved = choice === "approve";
+  let outcome = "This request is no longer waiting for an answer.";
+  if (resolve !== undefined) {
+    resolve({ approved, by: `discord:${interaction.user.id}` });
+    outcome = approved ? "✅ Approved." : "❌ Denied.";
+  }
+
+  await interaction.editParent({
+    components: [],
+    content: `${interaction.message.content}\n\n${outcome}`,
+  });
+}
+
+export { handleApprovalButton, isApprovalButton, requestDiscordApproval };
@@ -218,10 +218,18 @@ async function handleQuery(interaction: CommandInteraction, ctx: HandlerCtx): Pr
   const isOverridden =
     session.selectedProvider !== undefined || session.selectedModel !== undefined;
 
-  const content = isOverridden
+  let content = isOverridden
     ? `This channel is using **${effectiveProvider}** / **${effectiveModel}** (overridden).`
     : `This channel is using **${effectiveProvider}** / **${effectiveModel}** (default).`;
 
+  const { answeredBy } = session;
+  if (
+    answeredBy !== undefined &&
+    (answeredBy.provider !== effectiveProvider || answeredBy.model !== effectiveModel)
+  ) {
+    content += `\nThe last reply came from fallback **${answeredBy.provider}** / **${answeredBy.model}**.`;
+  }
+
   await interaction.createFollowup({
     content,
     flags: MessageFlags.EPHEMERAL,
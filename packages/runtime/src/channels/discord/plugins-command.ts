@@ -0,0 +1,64 @@
+import { ApplicationCommandOptionTypes, ApplicationCommandTypes, MessageFlags } from "oceanic.js";
+import type { CommandInteraction, CreateApplicationCommandOptions } from "oceanic.js";
+
+import type { HandlerCtx } from "#channels/discord/handler-ctx.js";
+import { reloadPlugins } from "#plugin/loader.js";
+import { sanitizeError } from "#util/paths.js";
+
+const definition: CreateApplicationCommandOptions = {
+  description: "Manage the runtime's plugins",
+  name: "plugins",
+  options: [
+    {
+      description: "Respawn every plugin and reread plugins.toml",
+      name: "reload",
+      type: ApplicationCommandOptionTypes.SUB_COMMAND,
+    },
+  ],
+  type: ApplicationCommandTypes.CHAT_INPUT,
+};
+
+async function handleReload(interaction: CommandInteraction): Promise<void> {
+  const { loaded, unloaded } = await reloadPlugins();
+  const lines = [loaded.length > 0 ? `Reloaded: ${loaded.join(", ")}` : "No plugins loaded."];
+  if (unloaded.length > 0) {
+    lines.push(`Unloaded: ${unloaded.join(", ")}`);
+  }
+  await interaction.createFollowup({ content: lines.join("\n"), flags: MessageFlags.EPHEMERAL });
+}
+
+async function handleCommand(interaction: CommandInteraction, ctx: HandlerCtx): Promise<void> {
+  // Plugins are shared by every agent, so trusted users of this one don't get
+  // to restart them.
+  if (interaction.user.id !== ctx.ownerId) {
+    await interaction.createFollowup({
+      content: "Only the owner can manage plugins.",
+      flags: MessageFlags.EPHEMERAL,
+    });
+    return;
+  }
+
+  try {
+    const [subName] = interaction.data.options.getSubCommand(true);
+
+    switch (subName) {
+      case "reload": {
+        await handleReload(interaction);
+        break;
+      }
+      default: {
+        await interaction.createFollowup({
+          content: "Unknown subcommand.",
+          flags: MessageFlags.EPHEMERAL,
+        });
+      }
+    }
+  } catch (error) {
+    await interaction.createFollowup({
+      content: `Plugin reload failed, the previous plugins keep running: ${sanitizeError(error, ctx.agentSlug)}`,
+      flags: MessageFlags.EPHEMERAL,
+    });
+  }
+}
+
+export { definition, handleCommand };
@@ -0,0 +1,188 @@
+import { ApplicationCommandOptionTypes, ApplicationCommandTypes, MessageFlags } from "oceanic.js";
+import type {
+  AutocompleteInteraction,
+  CommandInteraction,
+  CreateApplicationCommandOptions,
+} from "oceanic.js";
+
+import type { HandlerCtx } from "#channels/discord/handler-ctx.js";
+import { loadSnapshots } from "#config/index.js";
+import { saveSession } from "#db/sessions.js";
+import { discordSessionId } from "#harness/session.js";
+import { warning } from "#output/log.js";
+import { sanitizeError } from "#util/paths.js";
+import {
+  diffSnapshot,
+  formatSnapshotChanges,
+  formatSnapshotList,
+  listSnapshots,
+  restoreSnapshot,
+} from "#util/snapshots.js";
+
+// Leaves room for the code fence and a "more" note under Discord's 2000 chars.
+const REPLY_LIMIT = 1800;
+const LISTED_SNAPSHOTS = 15;
+
+const snapshotOption = {
+  autocomplete: true,
+  description: "Snapshot ID, or a prefix only one snapshot has",
+  name: "snapshot",
+  required: true,
+  type: ApplicationCommandOptionTypes.STRING,
+} as const;
+
+const definition: CreateApplicationCommandOptions = {
+  description: "Roll the agent's workspace back to an earlier snapshot",
+  name: "rollback",
+  options: [
+    {
+      description: "List the most recent workspace snapshots",
+      name: "list",
+      type: ApplicationCommandOptionTypes.SUB_COMMAND,
+    },
+    {
+      description: "Show what changed in the workspace since a snapshot",
+      name: "diff",
+      options: [snapshotOption],
+      type: ApplicationCommandOptionTypes.SUB_COMMAND,
+    },
+    {
+      description: "Restore the workspace to a snapshot",
+      name: "restore",
+      options: [
+        snapshotOption,
+        {
+          description: "Only restore this file or directory, e.g. /workspace/src",
+          name: "path",
+          required: false,
+          type: ApplicationCommandOptionTypes.STRING,
+        },
+      ],
+      type: ApplicationCommandOptionTypes.SUB_COMMAND,
+    },
+  ],
+  type: ApplicationCommandTypes.CHAT_INPUT,
+};
+
+// Cuts `text` at a line boundary so it fits in one reply.
+function codeBlock(text: string): string {
+  if (text.length <= REPLY_LIMIT) {
+    return `\`\`\`\n${text}\n\`\`\``;
+  }
+  const cut = text.lastIndexOf("\n", REPLY_LIMIT);
+  const shown = text.slice(0, cut === -1 ? REPLY_LIMIT : cut);
+  const hidden = text.slice(shown.length).split("\n").filter(Boolean).length;
+  return `\`\`\`\n${shown}\n\`\`\`\n…and ${hidden} more lines. Use \`cireilclaw snapshot\` for the full output.`;
+}
+
+async function handleList(interaction: CommandInteraction, ctx: HandlerCtx): Promise<void> {
+  const snapshots = await listSnapshots(ctx.agentSlug);
+  await interaction.createFollowup({
+    content: codeBlock(formatSnapshotList(snapshots.slice(0, LISTED_SNAPSHOTS))),
+    flags: MessageFlags.EPHEMERAL,
+  });
+}
+
+async function handleDiff(interaction: CommandInteraction, ctx: HandlerCtx): Promise<void> {
+  const id = interaction.data.options.getString("snapshot", true);
+  const cfg = await loadSnapshots(ctx.agentSlug);
+  const changes = await diffSnapshot(ctx.agentSlug, cfg, id);
+  await interaction.createFollowup({
+    content: codeBlock(formatSnapshotChanges(changes)),
+    flags: MessageFlags.EPHEMERAL,
+  });
+}
+
+async function handleRestore(interaction: CommandInteraction, ctx: HandlerCtx): Promise<void> {
+  const id = interaction.data.options.getString("snapshot", true);
+  const only = interaction.data.options.getString("path");
+
+  // A turn in progress would keep writing over the restored files.
+  const agent = ctx.owner.agents.get(ctx.agentSlug);
+  if (agent !== undefined && [...agent.sessions.values()].some((session) => session.busy)) {
+    await interaction.createFollowup({
+      content: "The agent is busy. Wait for it to finish, or `/stop` it, before rolling back.",
+      flags: MessageFlags.EPHEMERAL,
+    });
+    return;
+  }
+
+  const cfg = await loadSnapshots(ctx.agentSlug);
+  const result = await restoreSnapshot(ctx.agentSlug, cfg, id, only);
+
+  // Tell the agent on its next turn, so it doesn't trust what it remembers
+  // about the files.
+  const session = agent?.sessions.get(discordSessionId(interaction.channelID, interaction.guildID));
+  if (session !== undefined) {
+    session.pendingToolMessages.push({
+      content: {
+        content: `The user rolled ${only ?? "the workspace"} back to snapshot ${result.id}. ${result.restored.length} paths were restored and ${result.removed.length} removed; re-read files before relying on them.`,
+        type: "text",
+      },
+      role: "user",
+    });
+    saveSession(ctx.agentSlug, session);
+  }
+
+  await interaction.createFollowup({
+    content: `Restored ${only ?? "the workspace"} to \`${result.id}\`: ${result.restored.length} restored, ${result.removed.length} removed. To undo, restore \`${result.safetySnapshot}\`.`,
+    flags: MessageFlags.EPHEMERAL,
+  });
+}
+
+async function handleCommand(interaction: CommandInteraction, ctx: HandlerCtx): Promise<void> {
+  try {
+    const [subName] = interaction.data.options.getSubCommand(true);
+
+    switch (subName) {
+      case "list": {
+        await handleList(interaction, ctx);
+        break;
+      }
+      case "diff": {
+        await handleDiff(interaction, ctx);
+        break;
+      }
+      case "restore": {
+        await handleRestore(interaction, ctx);
+        break;
+      }
+      default: {
+        await interaction.createFollowup({
+          content: "Unknown subcommand.",
+          flags: MessageFlags.EPHEMERAL,
+        });
+      }
+    }
+  } catch (error) {
+    await interaction.createFollowup({
+      content: `Rollback failed: ${sanitizeError(error, ctx.agentSlug)}`,
+      flags: MessageFlags.EPHEMERAL,
+    });
+  }
+}
+
+async function handleAutocomplete(
+  interaction: AutocompleteInteraction,
+  ctx: HandlerCtx,
+): Promise<void> {
+  try {
+    const focused = interaction.data.options.getFocused(true);
+    const typed = typeof focused.value === "string" ? focused.value : "";
+    const snapshots = await listSnapshots(ctx.agentSlug);
+    await interaction.result(
+      snapshots
+        .filter((snapshot) => snapshot.id.startsWith(typed))
+        .slice(0, 25)
+        .map((snapshot) => ({
+          name: `${snapshot.id} — ${snapshot.label}`.slice(0, 100),
+          value: snapshot.id,
+        })),
+    );
+  } catch (error: unknown) {
+    warning(`Autocomplete failed for rollback command: ${sanitizeError(error, ctx.agentSlug)}`);
+    await interaction.result([]);
+  }
+}
+
+export { definition, handleAutocomplete, handleCommand };
@@ -118,7 +118,7 @@ async function handleCommand(interaction: CommandInteraction, ctx: HandlerCtx):
     }
     session.busy = true;
     try {
-      await agent.runTurn(session);
+      await agent.runTurn(session, "summarizer");
     } finally {
       session.busy = false;
     }
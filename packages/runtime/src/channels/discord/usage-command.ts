@@ -0,0 +1,70 @@
+import { ApplicationCommandOptionTypes, ApplicationCommandTypes } from "oceanic.js";
+import type { CommandInteraction, CreateApplicationCommandOptions } from "oceanic.js";
+
+import type { HandlerCtx } from "#channels/discord/handler-ctx.js";
+import type { UsageGrouping } from "#db/usage.js";
+import { summarizeUsage } from "#db/usage.js";
+import { sanitizeError } from "#util/paths.js";
+import { formatUsageReport, parseWindow } from "#util/usage-report.js";
+
+const WINDOWS = [
+  { name: "Last 24 hours", value: "24h" },
+  { name: "Last 7 days", value: "7d" },
+  { name: "Last 30 days", value: "30d" },
+  { name: "All time", value: "all" },
+];
+
+const GROUPINGS: { name: string; value: UsageGrouping }[] = [
+  { name: "Model", value: "model" },
+  { name: "Provider", value: "provider" },
+  { name: "Session", value: "session" },
+  { name: "Origin", value: "origin" },
+];
+
+// Leaves room for the code fence inside Discord's 2000 character limit.
+const MAX_REPORT_LENGTH = 1900;
+
+const definition: CreateApplicationCommandOptions = {
+  description: "Show this agent's token usage and spend",
+  name: "usage",
+  options: [
+    {
+      choices: WINDOWS,
+      description: "Time window (default: last 7 days)",
+      name: "window",
+      required: false,
+      type: ApplicationCommandOptionTypes.STRING,
+    },
+    {
+      choices: GROUPINGS,
+      description: "How to group the report (default: model)",
+      name: "by",
+      required: false,
+      type: ApplicationCommandOptionTypes.STRING,
+    },
+  ],
+  type: ApplicationCommandTypes.CHAT_INPUT,
+};
+
+async function handle(interaction: CommandInteraction, ctx: HandlerCtx): Promise<void> {
+  try {
+    const window = interaction.data.options.getString("window") ?? "7d";
+    const by = interaction.data.options.getString("by") ?? "model";
+    const groupBy = GROUPINGS.find((it) => it.value === by)?.value ?? "model";
+    const label = WINDOWS.find((it) => it.value === window)?.name ?? window;
+
+    const rows = summarizeUsage(ctx.agentSlug, { groupBy, since: parseWindow(window) });
+    let report = formatUsageReport(rows, `${label}, by ${groupBy}`);
+    if (report.length > MAX_REPORT_LENGTH) {
+      report = `${report.slice(0, MAX_REPORT_LENGTH)}\n…`;
+    }
+
+    await interaction.createFollowup({ content: `\`\`\`\n${report}\n\`\`\`` });
+  } catch (error) {
+    await interaction.createFollowup({
+      content: `Usage report failed: ${sanitizeError(error, ctx.agentSlug)}`,
+    });
+  }
+}
+
+export { definition, handle };
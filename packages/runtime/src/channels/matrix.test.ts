@@ -0,0 +1,350 @@
+import { randomUUID } from "node:crypto";
+import { mkdirSync, mkdtempSync } from "node:fs";
+import { createServer } from "node:http";
+import type { IncomingMessage, Server, ServerResponse } from "node:http";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { text } from "node:stream/consumers";
+
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { Agent } from "#agent/index.js";
+import {
+  createMatrixHandler,
+  dispatchSync,
+  historyInsertByTimestamp,
+  isAllowedSender,
+  stripReplyFallback,
+} from "#channels/matrix.js";
+import { MatrixClient } from "#channels/matrix/client.js";
+import type { RoomEvent } from "#channels/matrix/client.js";
+import type { MatrixHandlerCtx } from "#channels/matrix/handler-ctx.js";
+import { initDb } from "#db/index.js";
+import type { Message } from "#engine/message.js";
+import { Harness } from "#harness/index.js";
+import { MatrixSession } from "#harness/session.js";
+
+const BOT = "@bot:example.org";
+const OWNER = "@owner:example.org";
+const ROOM = "!room:example.org";
+
+interface RecordedRequest {
+  authorization: string | undefined;
+  body: unknown;
+  method: string;
+  path: string;
+}
+
+// A stand-in homeserver: answers from a fixed route table and records every
+// request so tests can assert on what the channel sent.
+async function startHomeserver(
+  routes: Record<string, (body: unknown) => unknown>,
+): Promise<{ requests: RecordedRequest[]; server: Server; url: string }> {
+  const requests: RecordedRequest[] = [];
+
+  async function handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const raw = await text(req);
+    const body: unknown = raw.length > 0 ? JSON.parse(raw) : undefined;
+    const pth = decodeURIComponent(new URL(req.url ?? "/", "http://localhost").pathname);
+    requests.push({
+      authorization: req.headers.authorization,
+      body,
+      method: req.method ?? "",
+      path: pth,
+    });
+
+    const route = Object.entries(routes).find(([prefix]) => pth.startsWith(prefix));
+    if (route === undefined) {
+      res.writeHead(404, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ errcode: "M_NOT_FOUND", error: "no route" }));
+      return;
+    }
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(route[1](body)));
+  }
+
+  const server = createServer((req, res) => {
+    // oxlint-disable-next-line promise/prefer-await-to-then -- node:http handlers are callback-based
+    handle(req, res).catch(() => {
+      res.writeHead(500).end();
+    });
+  });
+
+  await new Promise<void>((resolve) => {
+    server.listen(0, "127.0.0.1", resolve);
+  });
+  const address = server.address();
+  if (address === null || typeof address === "string") {
+    throw new Error("stand-in homeserver did not bind a TCP port");
+  }
+  return { requests, server, url: `http://127.0.0.1:${address.port}` };
+}
+
+const servers: Server[] = [];
+
+afterEach(async () => {
+  vi.unstubAllEnvs();
+  for (const server of servers.splice(0)) {
+    await new Promise((resolve) => {
+      server.close(resolve);
+    });
+  }
+});
+
+function message(eventId: string, sender: string, body: string, ts: number): RoomEvent {
+  return {
+    content: { body, msgtype: "m.text" },
+    event_id: eventId,
+    origin_server_ts: ts,
+    sender,
+    type: "m.room.message",
+  };
+}
+
+describe("MatrixClient", () => {
+  it("authenticates with the access token and surfaces Matrix error codes", async () => {
+    const hs = await startHomeserver({
+      "/_matrix/client/v3/account/whoami": () => ({ user_id: BOT }),
+    });
+    servers.push(hs.server);
+
+    const client = new MatrixClient({
+      accessToken: "secret",
+      homeserverUrl: hs.url,
+      timeoutMs: 5000,
+    });
+    await expect(client.whoami()).resolves.toBe(BOT);
+    expect(hs.requests[0]?.authorization).toBe("Bearer secret");
+
+    await expect(client.getEvent(ROOM, "$missing")).rejects.toThrow(/404 M_NOT_FOUND/u);
+  });
+});
+
+function edit(eventId: string, sender: string, targetId: string, body: string): RoomEvent {
+  return {
+    content: {
+      body: `* ${body}`,
+      "m.new_content": { body, msgtype: "m.text" },
+      "m.relates_to": { event_id: targetId, rel_type: "m.replace" },
+      msgtype: "m.text",
+    },
+    event_id: eventId,
+    origin_server_ts: 3000,
+    sender,
+    type: "m.room.message",
+  };
+}
+
+async function syncEvent(ctx: MatrixHandlerCtx, event: RoomEvent): Promise<void> {
+  await Promise.all(
+    dispatchSync(
+      ctx,
+      { next_batch: "s2", rooms: { join: { [ROOM]: { timeline: { events: [event] } } } } },
+      false,
+    ),
+  );
+}
+
+describe("isAllowedSender", () => {
+  const rules = {
+    access: { mode: "denylist" as const, users: ["@blocked:example.org"] },
+    directMessages: { mode: "owner" as const, users: [] },
+    ownerId: OWNER,
+  };
+
+  it("always lets the owner through", () => {
+    expect(
+      isAllowedSender({ ...rules, access: { mode: "allowlist", users: [] } }, OWNER, true),
+    ).toBe(true);
+  });
+
+  it("applies access rules in group rooms", () => {
+    expect(isAllowedSender(rules, "@blocked:example.org", false)).toBe(false);
+    expect(isAllowedSender(rules, "@friend:example.org", false)).toBe(true);
+  });
+
+  it("restricts direct messages to the owner by default", () => {
+    expect(isAllowedSender(rules, "@friend:example.org", true)).toBe(false);
+    expect(
+      isAllowedSender(
+        { ...rules, directMessages: { mode: "public", users: [] } },
+        "@friend:example.org",
+        true,
+      ),
+    ).toBe(true);
+  });
+});
+
+describe("stripReplyFallback", () => {
+  it("removes the quoted parent from a reply body", () => {
+    expect(stripReplyFallback("> <@a:b> original\n> second line\n\nactual reply")).toBe(
+      "actual reply",
+    );
+  });
+
+  it("leaves ordinary messages untouched", () => {
+    expect(stripReplyFallback("hello\n> not a fallback")).toBe("hello\n> not a fallback");
+  });
+});
+
+describe("historyInsertByTimestamp", () => {
+  it("places older context before newer messages", () => {
+    const history: Message[] = [
+      { content: { content: "new", type: "text" }, role: "user", timestamp: 200 },
+    ];
+    const idx = historyInsertByTimestamp(history, {
+      content: { content: "old", type: "text" },
+      role: "user",
+      timestamp: 100,
+    });
+    expect(idx).toBe(0);
+  });
+
+  it("never splits an agentic loop", () => {
+    const history: Message[] = [
+      { content: { content: "q", type: "text" }, role: "user", timestamp: 100 },
+      { content: [], role: "assistant", timestamp: 150 },
+      {
+        content: { id: "t1", name: "exec", output: "", type: "toolResponse" },
+        role: "toolResponse",
+        timestamp: 160,
+      },
+      { content: [], role: "assistant", timestamp: 170 },
+      { content: { content: "later", type: "text" }, role: "user", timestamp: 300 },
+    ];
+    const idx = historyInsertByTimestamp(history, {
+      content: { content: "mid", type: "text" },
+      role: "user",
+      timestamp: 155,
+    });
+    expect(idx).toBe(4);
+  });
+});
+
+describe("dispatchSync", () => {
+  function setup(hsUrl: string): { agent: Agent; ctx: MatrixHandlerCtx } {
+    const home = mkdtempSync(path.join(tmpdir(), "cireilclaw-matrix-test-"));
+    vi.stubEnv("HOME", home);
+    const slug = `agent-${randomUUID()}`;
+    mkdirSync(path.join(home, ".cireilclaw", "agents", slug), { recursive: true });
+    initDb(slug);
+
+    const agent = new Agent(slug, new Map());
+    const owner = Harness.init(new Map([[slug, agent]]));
+    const ctx: MatrixHandlerCtx = {
+      access: { mode: "disabled", users: [] },
+      agentSlug: slug,
+      autoJoin: true,
+      client: new MatrixClient({ accessToken: "secret", homeserverUrl: hsUrl, timeoutMs: 5000 }),
+      directMessages: { mode: "owner", users: [] },
+      directRooms: new Map(),
+      owner,
+      ownerId: OWNER,
+      userId: BOT,
+    };
+    agent.registerChannel("matrix", createMatrixHandler(ctx));
+    return { agent, ctx };
+  }
+
+  it("runs a turn for a DM from the owner and replies in the room", async () => {
+    const hs = await startHomeserver({
+      [`/_matrix/client/v3/rooms/${ROOM}/joined_members`]: () => ({
+        joined: { [BOT]: {}, [OWNER]: {} },
+      }),
+      [`/_matrix/client/v3/rooms/${ROOM}/messages`]: () => ({
+        chunk: [message("$now", OWNER, "hi", 2000), message("$before", OWNER, "earlier", 1000)],
+      }),
+      [`/_matrix/client/v3/rooms/${ROOM}/send/`]: () => ({ event_id: "$reply" }),
+      [`/_matrix/client/v3/rooms/${ROOM}/state/m.room.member/`]: () => ({ displayname: "Owner" }),
+      [`/_matrix/client/v3/rooms/${ROOM}/typing/`]: () => ({}),
+    });
+    servers.push(hs.server);
+
+    const { agent, ctx } = setup(hs.url);
+    const runTurn = vi.spyOn(agent, "runTurn").mockImplementation(async (session) => {
+      await agent.send(session, "hello back");
+    });
+
+    await Promise.all(
+      dispatchSync(
+        ctx,
+        {
+          next_batch: "s2",
+          rooms: {
+            join: { [ROOM]: { timeline: { events: [message("$now", OWNER, "hi", 2000)] } } },
+          },
+        },
+        false,
+      ),
+    );
+
+    expect(runTurn).toHaveBeenCalledOnce();
+    const session = agent.sessions.get(`matrix:${ROOM}`);
+    expect(session).toBeInstanceOf(MatrixSession);
+    if (!(session instanceof MatrixSession)) {
+      return;
+    }
+    expect(session.isDirect).toBe(true);
+    expect(session.history.map((entry) => entry.id)).toEqual(["$before", "$now"]);
+
+    const sent = hs.requests.find(
+      (req) => req.method === "PUT" && req.path.includes("/send/m.room.message/"),
+    );
+    expect(sent?.body).toEqual({ body: "hello back", msgtype: "m.text" });
+    expect(session.lastSentMessageIds).toEqual(["$reply"]);
+  });
+
+  it("ignores unmentioned messages in group rooms and skips the initial backlog", async () => {
+    const hs = await startHomeserver({
+      [`/_matrix/client/v3/rooms/${ROOM}/joined_members`]: () => ({
+        joined: { [BOT]: {}, [OWNER]: {}, "@third:example.org": {} },
+      }),
+    });
+    servers.push(hs.server);
+
+    const { agent, ctx } = setup(hs.url);
+    const runTurn = vi.spyOn(agent, "runTurn").mockResolvedValue();
+    const response = {
+      next_batch: "s1",
+      rooms: {
+        join: { [ROOM]: { timeline: { events: [message("$m", OWNER, "chatter", 1000)] } } },
+      },
+    };
+
+    await Promise.all(dispatchSync(ctx, response, true));
+    await Promise.all(dispatchSync(ctx, response, false));
+
+    expect(runTurn).not.toHaveBeenCalled();
+    expect(agent.sessions.size).toBe(0);
+  });
+
+  it("applies edits only from the original sender and never to the agent's messages", async () => {
+    const hs = await startHomeserver({
+      [`/_matrix/client/v3/rooms/${ROOM}/joined_members`]: () => ({
+        joined: { [BOT]: {}, [OWNER]: {}, "@third:example.org": {} },
+      }),
+      [`/_matrix/client/v3/rooms/${ROOM}/state/m.room.member/`]: () => ({ displayname: "Owner" }),
+    });
+    servers.push(hs.server);
+
+    const { agent, ctx } = setup(hs.url);
+    const session = new MatrixSession({ isDirect: false, roomId: ROOM });
+    session.history.push(
+      { authorId: OWNER, content: { content: "hi", type: "text" }, id: "$mine", role: "user" },
+      { content: { content: "hello", type: "text" }, id: "$bot", role: "assistant" },
+    );
+    agent.sessions.set(`matrix:${ROOM}`, session);
+    const before = session.history.map((entry) => entry.content);
+
+    await syncEvent(ctx, edit("$e1", "@third:example.org", "$mine", "stranger's words"));
+    await syncEvent(ctx, edit("$e2", OWNER, "$bot", "owner's words"));
+    await syncEvent(ctx, edit("$e3", "@third:example.org", "$bot", "stranger's words"));
+
+    expect(session.history.map((entry) => entry.content)).toStrictEqual(before);
+
+    await syncEvent(ctx, edit("$e4", OWNER, "$mine", "fixed typo"));
+
+    expect(JSON.stringify(session.history[0]?.content)).toContain("fixed typo");
+    expect(session.history[1]?.content).toStrictEqual(before[1]);
+  });
+});
@@ -0,0 +1,955 @@
+import { readFileSync, writeFileSync } from "node:fs";
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { setTimeout as sleep } from "node:timers/promises";
+
+import * as vb from "valibot";
+
+import { MatrixClient } from "#channels/matrix/client.js";
+import type { RoomEvent, SyncResponse } from "#channels/matrix/client.js";
+import type { MatrixHandlerCtx } from "#channels/matrix/handler-ctx.js";
+import { loadChannel } from "#config/index.js";
+import { saveSession } from "#db/sessions.js";
+import type { ImageContent, TextContent } from "#engine/content.js";
+import { renderTextContent } from "#engine/content.js";
+import { cascadeRemoveToolResponses, getToolCallIds } from "#engine/history-validate.js";
+import type { Message } from "#engine/message.js";
+import type { ChannelHandler, HistoryMessage } from "#harness/channel-handler.js";
+import type { Harness } from "#harness/index.js";
+import { enqueue } from "#harness/queue.js";
+import { MatrixSession, matrixSessionId } from "#harness/session.js";
+import colors from "#output/colors.js";
+import { debug, error as logError, info, warning } from "#output/log.js";
+import { IMAGE_EXT_TO_MEDIA_TYPE, SUPPORTED_IMAGE_TYPES } from "#supports.js";
+import { formatDate } from "#util/date.js";
+import { toWebp } from "#util/image.js";
+import { agentRoot, sandboxToReal } from "#util/paths.js";
+
+const MESSAGE_EVENT = "m.room.message";
+const HISTORY_LIMIT = 50;
+// Typing notifications expire after the 30 s timeout we send; refresh well before that.
+const TYPING_INTERVAL_MS = 20_000;
+const SYNC_RETRY_MS = 5000;
+
+const MEDIA_MSGTYPES = new Set(["m.image", "m.file", "m.video", "m.audio"]);
+
+const MessageContentSchema = vb.looseObject({
+  body: vb.string(),
+  filename: vb.exactOptional(vb.string()),
+  info: vb.exactOptional(
+    vb.looseObject({
+      mimetype: vb.exactOptional(vb.string()),
+      size: vb.exactOptional(vb.number()),
+    }),
+  ),
+  "m.mentions": vb.exactOptional(
+    vb.looseObject({ user_ids: vb.exactOptional(vb.array(vb.string())) }),
+  ),
+  "m.new_content": vb.exactOptional(vb.record(vb.string(), vb.unknown())),
+  "m.relates_to": vb.exactOptional(
+    vb.looseObject({
+      event_id: vb.exactOptional(vb.string()),
+      "m.in_reply_to": vb.exactOptional(vb.looseObject({ event_id: vb.string() })),
+      rel_type: vb.exactOptional(vb.string()),
+    }),
+  ),
+  msgtype: vb.string(),
+  url: vb.exactOptional(vb.string()),
+});
+
+type MessageContent = vb.InferOutput<typeof MessageContentSchema>;
+
+function parseMessageContent(content: unknown): MessageContent | undefined {
+  const parsed = vb.safeParse(MessageContentSchema, content);
+  return parsed.success ? parsed.output : undefined;
+}
+
+function syncTokenFile(agentSlug: string): string {
+  return path.join(agentRoot(agentSlug), "matrix-sync.token");
+}
+
+function readSyncToken(agentSlug: string): string | undefined {
+  try {
+    const token = readFileSync(syncTokenFile(agentSlug), "utf8").trim();
+    return token.length > 0 ? token : undefined;
+  } catch {
+    // File missing or unreadable — start from a fresh initial sync
+    return undefined;
+  }
+}
+
+function writeSyncToken(agentSlug: string, token: string): void {
+  writeFileSync(syncTokenFile(agentSlug), token, "utf8");
+}
+
+// Same owner/allowlist/denylist model as the Discord channel: the owner
+// always passes, `access` gates everyone else, and two-member rooms are
+// additionally subject to `directMessages`.
+function isAllowedSender(
+  rules: Pick<MatrixHandlerCtx, "access" | "directMessages" | "ownerId">,
+  userId: string,
+  isDirect: boolean,
+): boolean {
+  if (userId === rules.ownerId) {
+    return true;
+  }
+
+  const { mode, users } = rules.access;
+  if (mode === "allowlist" && !users.includes(userId)) {
+    return false;
+  }
+  if (mode === "denylist" && users.includes(userId)) {
+    return false;
+  }
+
+  if (isDirect) {
+    const { mode: dmMode, users: dmUsers } = rules.directMessages;
+    if (dmMode === "owner") {
+      return false;
+    }
+    if (dmMode === "allowlist" && !dmUsers.includes(userId)) {
+      return false;
+    }
+    if (dmMode === "denylist" && dmUsers.includes(userId)) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+async function isDirectRoom(ctx: MatrixHandlerCtx, roomId: string): Promise<boolean> {
+  const cached = ctx.directRooms.get(roomId);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  let direct = false;
+  try {
+    const members = await ctx.client.getJoinedMembers(roomId);
+    direct = members.length === 2;
+  } catch (error: unknown) {
+    warning(
+      "Failed to fetch Matrix room members for",
+      colors.keyword(roomId),
+      error instanceof Error ? error.message : String(error),
+    );
+  }
+  ctx.directRooms.set(roomId, direct);
+  return direct;
+}
+
+// Replies carry a quoted copy of the parent ("> <@user:server> text") ahead
+// of the actual body; the parent is already in context, so drop the quote.
+function stripReplyFallback(body: string): string {
+  if (!body.startsWith(">")) {
+    return body;
+  }
+  const lines = body.split("\n");
+  let idx = 0;
+  while (idx < lines.length && (lines[idx]?.startsWith(">") ?? false)) {
+    idx++;
+  }
+  if (lines[idx] === "") {
+    idx++;
+  }
+  return lines.slice(idx).join("\n");
+}
+
+function localpart(userId: string): string {
+  return userId.slice(1).split(":")[0] ?? userId;
+}
+
+// For media events `body` is the filename unless a separate `filename` is
+// present, in which case `body` is the caption.
+function messageText(event: RoomEvent, content: MessageContent): string {
+  const isReply = content["m.relates_to"]?.["m.in_reply_to"] !== undefined;
+  if (content.url === undefined || !MEDIA_MSGTYPES.has(content.msgtype)) {
+    return isReply ? stripReplyFallback(content.body) : content.body;
+  }
+
+  const caption = content.filename === undefined ? "" : content.body;
+  const filename = content.filename ?? content.body;
+  const attachment = `<attachment id="${event.event_id}" filename="${filename}" contentType="${content.info?.mimetype ?? "unknown"}" size="${content.info?.size ?? 0}">`;
+  return caption.length > 0 ? `${caption}\n${attachment}` : `\n${attachment}`;
+}
+
+async function formatUserMessage(
+  ctx: MatrixHandlerCtx,
+  roomId: string,
+  event: RoomEvent,
+  content: MessageContent,
+  opts?: { inReplyTo?: string; mentionsYou?: boolean },
+): Promise<TextContent> {
+  const displayName = (await ctx.client.getDisplayName(roomId, event.sender)) ?? event.sender;
+  const timestamp = await formatDate(new Date(event.origin_server_ts), undefined, false);
+
+  return {
+    content: messageText(event, content),
+    discord: {
+      author: { displayName, id: event.sender, username: localpart(event.sender) },
+      format: "message",
+      inReplyTo: opts?.inReplyTo,
+      mentionsYou: opts?.mentionsYou,
+      messageId: event.event_id,
+      timestamp,
+    },
+    type: "text",
+  };
+}
+
+async function formatAssistantContext(
+  event: RoomEvent,
+  content: MessageContent,
+): Promise<TextContent> {
+  const timestamp = await formatDate(new Date(event.origin_server_ts), undefined, false);
+
+  return {
+    content: messageText(event, content),
+    discord: { format: "assistant", messageId: event.event_id, timestamp },
+    type: "text",
+  };
+}
+
+async function formatEvent(
+  ctx: MatrixHandlerCtx,
+  roomId: string,
+  event: RoomEvent,
+  content: MessageContent,
+): Promise<TextContent> {
+  return event.sender === ctx.userId
+    ? await formatAssistantContext(event, content)
+    : await formatUserMessage(ctx, roomId, event, content);
+}
+
+async function fetchEventImages(
+  ctx: MatrixHandlerCtx,
+  content: MessageContent,
+): Promise<ImageContent[]> {
+  const mediaType = content.info?.mimetype?.split(";")[0]?.trim();
+  if (
+    content.msgtype !== "m.image" ||
+    content.url === undefined ||
+    mediaType === undefined ||
+    !SUPPORTED_IMAGE_TYPES.has(mediaType)
+  ) {
+    return [];
+  }
+
+  try {
+    const { data: raw } = await ctx.client.download(content.url);
+    // Copy out of Node's pooled Buffer so toWebp gets a standalone ArrayBuffer.
+    const data = await toWebp(new Uint8Array(raw).buffer, mediaType);
+    return [{ data, mediaType: "image/webp", type: "image" }];
+  } catch (error) {
+    warning(
+      "Failed to fetch Matrix image:",
+      content.url,
+      error instanceof Error ? error.message : String(error),
+    );
+    return [];
+  }
+}
+
+function isMessageInHistory(history: Message[], eventId: string): boolean {
+  return history.some((entry) => entry.id === eventId);
+}
+
+/**
+ * Matrix event IDs are opaque, so unlike Discord snowflakes they can't be
+ * binary-searched. Backfilled context is placed by `origin_server_ts`
+ * instead, only ever in front of a user message or the first assistant
+ * message of an agentic loop — never between a tool call and its response.
+ */
+function historyInsertByTimestamp(history: Message[], entry: Message): number {
+  const ts = entry.timestamp;
+  if (ts !== undefined) {
+    for (const [idx, msg] of history.entries()) {
+      const prev = history[idx - 1];
+      const insideLoop =
+        msg.role === "toolResponse" ||
+        (msg.role === "assistant" && (prev?.role === "assistant" || prev?.role === "toolResponse"));
+      if (msg.timestamp !== undefined && msg.timestamp > ts && !insideLoop) {
+        history.splice(idx, 0, entry);
+        return idx;
+      }
+    }
+  }
+
+  history.push(entry);
+  return history.length - 1;
+}
+
+function insertContext(session: MatrixSession, entry: Message): void {
+  const insertIndex = historyInsertByTimestamp(session.history, entry);
+  if (insertIndex < session.historyCursor) {
+    session.historyCursor++;
+  }
+}
+
+async function populateHistoryFromMatrix(
+  ctx: MatrixHandlerCtx,
+  session: MatrixSession,
+  currentEventId: string,
+  limit = HISTORY_LIMIT,
+): Promise<void> {
+  let events: RoomEvent[] = [];
+  try {
+    const recent = await ctx.client.getRecentMessages(session.roomId, limit);
+    events = recent.toReversed();
+  } catch (error: unknown) {
+    warning(
+      "Failed to fetch Matrix message history for room",
+      session.roomId,
+      "— surrounding context will be unavailable for this turn:",
+      error instanceof Error ? error.message : String(error),
+    );
+    return;
+  }
+
+  for (const event of events) {
+    if (event.type !== MESSAGE_EVENT || event.event_id === currentEventId) {
+      continue;
+    }
+    if (isMessageInHistory(session.history, event.event_id)) {
+      continue;
+    }
+    if (session.historyBarrier !== undefined && event.origin_server_ts < session.historyBarrier) {
+      continue;
+    }
+
+    const content = parseMessageContent(event.content);
+    // Notices are bot chatter (including our own error notices), and edits
+    // are already reflected in the event they replace.
+    if (
+      content === undefined ||
+      content.msgtype === "m.notice" ||
+      content["m.relates_to"]?.rel_type === "m.replace"
+    ) {
+      continue;
+    }
+
+    const text = await formatEvent(ctx, session.roomId, event, content);
+    const images = await fetchEventImages(ctx, content);
+    insertContext(session, {
+      content: images.length > 0 ? [text, ...images] : text,
+      id: event.event_id,
+      persist: false, // Historical context, don't persist to DB
+      ...(event.sender === ctx.userId
+        ? { role: "assistant" }
+        : { authorId: event.sender, role: "user" }),
+      timestamp: event.origin_server_ts,
+    });
+  }
+}
+
+function startTyping(ctx: MatrixHandlerCtx, session: MatrixSession): void {
+  function ping(): void {
+    // oxlint-disable-next-line promise/prefer-await-to-then -- typing indicators are best-effort
+    ctx.client.setTyping(session.roomId, ctx.userId, true).catch(() => undefined);
+  }
+  ping();
+  session.typingInterval = setInterval(ping, TYPING_INTERVAL_MS);
+}
+
+function stopTyping(ctx: MatrixHandlerCtx, session: MatrixSession): void {
+  clearInterval(session.typingInterval);
+  session.typingInterval = undefined;
+  // oxlint-disable-next-line promise/prefer-await-to-then -- typing indicators are best-effort
+  ctx.client.setTyping(session.roomId, ctx.userId, false).catch(() => undefined);
+}
+
+async function sendWarningNotice(
+  ctx: MatrixHandlerCtx,
+  roomId: string,
+  replyTo: string,
+  heading: string,
+  detail: string,
+): Promise<void> {
+  try {
+    await ctx.client.sendEvent(roomId, MESSAGE_EVENT, {
+      body: `⚠️ ${heading}: ${detail}`,
+      "m.relates_to": { "m.in_reply_to": { event_id: replyTo } },
+      msgtype: "m.notice",
+    });
+  } catch (error: unknown) {
+    warning(
+      "Failed to send Matrix warning notice",
+      error instanceof Error ? error.message : String(error),
+    );
+  }
+}
+
+function findSession(ctx: MatrixHandlerCtx, roomId: string): MatrixSession | undefined {
+  const session = ctx.owner.agents.get(ctx.agentSlug)?.sessions.get(matrixSessionId(roomId));
+  return session instanceof MatrixSession ? session : undefined;
+}
+
+async function handleEdit(
+  ctx: MatrixHandlerCtx,
+  roomId: string,
+  targetId: string,
+  event: RoomEvent,
+): Promise<void> {
+  const session = findSession(ctx, roomId);
+  if (session === undefined) {
+    return;
+  }
+
+  const entry = session.history.find(
+    (msg) => msg.id === targetId || (msg.messageIds?.includes(targetId) ?? false),
+  );
+  // Homeservers accept an edit from any room member, so only the original
+  // sender's edits count, and the agent's own messages are never rewritten.
+  // Entries saved before the sender was recorded can't be edited either.
+  if (entry?.role !== "user" || entry.authorId !== event.sender) {
+    return;
+  }
+
+  const newContent = parseMessageContent(parseMessageContent(event.content)?.["m.new_content"]);
+  if (newContent === undefined) {
+    return;
+  }
+
+  // Re-key the edit onto the original event so the history entry keeps its ID.
+  const original: RoomEvent = { ...event, event_id: targetId };
+  const text = await formatUserMessage(ctx, roomId, original, newContent);
+
+  if (Array.isArray(entry.content)) {
+    // Edits only replace the text; keep any images the original carried.
+    const media = entry.content.filter((block): block is ImageContent => block.type === "image");
+    entry.content = media.length > 0 ? [text, ...media] : text;
+  } else {
+    entry.content = text;
+  }
+
+  saveSession(ctx.agentSlug, session);
+}
+
+function handleRedaction(ctx: MatrixHandlerCtx, roomId: string, redactedId: string): void {
+  const session = findSession(ctx, roomId);
+  if (session === undefined) {
+    return;
+  }
+
+  const entryIndex = session.history.findIndex(
+    (msg) => msg.id === redactedId || (msg.messageIds?.includes(redactedId) ?? false),
+  );
+  const deleted = session.history[entryIndex];
+  if (deleted === undefined) {
+    return;
+  }
+
+  const toolCallIds = getToolCallIds(deleted);
+  session.history.splice(entryIndex, 1);
+  const cascaded = cascadeRemoveToolResponses(session.history, toolCallIds, entryIndex);
+  if (session.historyCursor > entryIndex) {
+    session.historyCursor = Math.max(entryIndex, session.historyCursor - (1 + cascaded));
+  }
+
+  if (session.lastEventId === redactedId) {
+    session.lastEventId = session.history.findLast((msg) => msg.id !== undefined)?.id;
+  }
+
+  saveSession(ctx.agentSlug, session);
+}
+
+async function handleRoomMessage(
+  ctx: MatrixHandlerCtx,
+  roomId: string,
+  event: RoomEvent,
+): Promise<void> {
+  if (event.sender === ctx.userId) {
+    return;
+  }
+
+  const content = parseMessageContent(event.content);
+  if (content === undefined || content.msgtype === "m.notice") {
+    return;
+  }
+
+  const isDirect = await isDirectRoom(ctx, roomId);
+  if (!isAllowedSender(ctx, event.sender, isDirect)) {
+    debug("Ignoring Matrix message from", colors.keyword(event.sender), ": not permitted");
+    return;
+  }
+
+  const relatesTo = content["m.relates_to"];
+  if (relatesTo?.rel_type === "m.replace" && relatesTo.event_id !== undefined) {
+    await handleEdit(ctx, roomId, relatesTo.event_id, event);
+    return;
+  }
+
+  if (content.body.trim().length === 0 && content.url === undefined) {
+    return;
+  }
+
+  const mentionsYou =
+    (content["m.mentions"]?.user_ids?.includes(ctx.userId) ?? false) ||
+    content.body.includes(ctx.userId);
+
+  let directReply: RoomEvent | undefined = undefined;
+  const replyId = relatesTo?.["m.in_reply_to"]?.event_id;
+  if (replyId !== undefined) {
+    try {
+      directReply = await ctx.client.getEvent(roomId, replyId);
+    } catch (error: unknown) {
+      warning("Failed to fetch Matrix reply target", replyId, error);
+    }
+  }
+  const repliedToBot = directReply?.sender === ctx.userId;
+
+  // DMs bypass the mention/reply requirement, same as Discord.
+  if (!(isDirect || mentionsYou || repliedToBot)) {
+    return;
+  }
+
+  const agent = ctx.owner.agents.get(ctx.agentSlug);
+  if (agent === undefined) {
+    logError(
+      "There was no agent to be found with slug",
+      colors.keyword(ctx.agentSlug),
+      "are you certain you have everything set up correctly?",
+    );
+    return;
+  }
+
+  const sessionId = matrixSessionId(roomId);
+  let session = agent.sessions.get(sessionId);
+  if (session !== undefined && !(session instanceof MatrixSession)) {
+    throw new TypeError(`invalid session type: expected matrix, got ${session.channel}`);
+  }
+
+  if (session === undefined) {
+    session = new MatrixSession({ isDirect, roomId });
+    agent.sessions.set(sessionId, session);
+  } else {
+    session.isDirect = isDirect;
+  }
+  const ms = session;
+
+  ms.lastActivity = Date.now();
+
+  // Everything that touches history happens in `stage`, which the queue only
+  // runs once the previous turn is over.
+  await enqueue(ms, {
+    kind: "message",
+    stage: async (): Promise<number> => {
+      await populateHistoryFromMatrix(ctx, ms, event.event_id);
+      ms.lastEventId = event.event_id;
+
+      let inReplyTo: string | undefined = undefined;
+      if (directReply !== undefined) {
+        inReplyTo = repliedToBot
+          ? "YOU"
+          : ((await ctx.client.getDisplayName(roomId, directReply.sender)) ?? directReply.sender);
+
+        const replyContent = parseMessageContent(directReply.content);
+        const beforeBarrier =
+          ms.historyBarrier !== undefined && directReply.origin_server_ts < ms.historyBarrier;
+        if (
+          replyContent !== undefined &&
+          !beforeBarrier &&
+          !isMessageInHistory(ms.history, directReply.event_id)
+        ) {
+          const replyText = await formatEvent(ctx, roomId, directReply, replyContent);
+          const replyImages = await fetchEventImages(ctx, replyContent);
+          insertContext(ms, {
+            content: replyImages.length > 0 ? [replyText, ...replyImages] : replyText,
+            id: directReply.event_id,
+            persist: true,
+            ...(repliedToBot
+              ? { role: "assistant" }
+              : { authorId: directReply.sender, role: "user" }),
+            timestamp: directReply.origin_server_ts,
+          });
+        }
+      }
+
+      const textContent = await formatUserMessage(ctx, roomId, event, content, {
+        inReplyTo,
+        mentionsYou,
+      });
+      const imageContents = await fetchEventImages(ctx, content);
+
+      const historyLengthBeforeMessage = ms.history.length;
+      ms.history.push({
+        authorId: event.sender,
+        content: imageContents.length > 0 ? [textContent, ...imageContents] : textContent,
+        id: event.event_id,
+        persist: true,
+        role: "user",
+        timestamp: event.origin_server_ts,
+      });
+      return historyLengthBeforeMessage;
+    },
+    turn: async (historyLengthBeforeTurn): Promise<void> => {
+      startTyping(ctx, ms);
+
+      try {
+        await agent.runTurn(ms);
+      } catch (error) {
+        // Roll back this turn's history so the next message doesn't see a
+        // stranded user message with no response.
+        ms.history.length = historyLengthBeforeTurn;
+        ms.pendingToolMessages.length = 0;
+        ms.pendingVideos.length = 0;
+        warning("Error during agent turn:", error instanceof Error ? error.message : String(error));
+        if (error instanceof Error && error.stack !== undefined) {
+          warning("Stack trace:", error.stack);
+        }
+        await sendWarningNotice(
+          ctx,
+          roomId,
+          event.event_id,
+          "Engine error",
+          "The turn failed before a response could be produced. Details were written to the console logs.",
+        );
+      } finally {
+        saveSession(ctx.agentSlug, ms);
+        stopTyping(ctx, ms);
+      }
+    },
+  });
+}
+
+async function handleInvite(
+  ctx: MatrixHandlerCtx,
+  roomId: string,
+  events: { content: Record<string, unknown>; sender: string; state_key?: string; type: string }[],
+): Promise<void> {
+  if (!ctx.autoJoin) {
+    return;
+  }
+
+  const invite = events.find(
+    (event) => event.type === "m.room.member" && event.state_key === ctx.userId,
+  );
+  if (invite === undefined) {
+    return;
+  }
+
+  const isDirect = invite.content["is_direct"] === true;
+  if (!isAllowedSender(ctx, invite.sender, isDirect)) {
+    debug("Ignoring Matrix invite from", colors.keyword(invite.sender), "to", roomId);
+    return;
+  }
+
+  await ctx.client.joinRoom(roomId);
+  ctx.directRooms.delete(roomId);
+  info("Joined Matrix room", colors.keyword(roomId), "invited by", colors.keyword(invite.sender));
+}
+
+function redactedEventId(event: RoomEvent): string | undefined {
+  // Room version 11 moved `redacts` into content; older rooms keep it top-level.
+  const fromContent = event.content["redacts"];
+  if (typeof fromContent === "string") {
+    return fromContent;
+  }
+  const topLevel: unknown = event["redacts"];
+  return typeof topLevel === "string" ? topLevel : undefined;
+}
+
+async function guard(label: string, task: () => Promise<void> | void): Promise<void> {
+  try {
+    await task();
+  } catch (error: unknown) {
+    logError(`Unhandled error in Matrix ${label} handler:`, error);
+  }
+}
+
+/**
+ * Fan a sync response out to the per-event handlers. Returns the handler
+ * promises so callers can decide whether to wait on them — the sync loop
+ * doesn't, so a long turn in one room never stalls delivery to the others.
+ * The initial sync only accepts invites; replaying the backlog would answer
+ * messages the agent already saw before a restart.
+ */
+function dispatchSync(
+  ctx: MatrixHandlerCtx,
+  response: SyncResponse,
+  initial: boolean,
+): Promise<void>[] {
+  const tasks: Promise<void>[] = [];
+
+  for (const [roomId, room] of Object.entries(response.rooms?.invite ?? {})) {
+    tasks.push(
+      guard("invite", async () => {
+        await handleInvite(ctx, roomId, room.invite_state?.events ?? []);
+      }),
+    );
+  }
+
+  if (initial) {
+    return tasks;
+  }
+
+  for (const [roomId, room] of Object.entries(response.rooms?.join ?? {})) {
+    for (const event of room.timeline?.events ?? []) {
+      if (event.type === "m.room.member") {
+        ctx.directRooms.delete(roomId);
+      } else if (event.type === MESSAGE_EVENT) {
+        tasks.push(
+          guard("message", async () => {
+            await handleRoomMessage(ctx, roomId, event);
+          }),
+        );
+      } else if (event.type === "m.room.redaction") {
+        const redacted = redactedEventId(event);
+        if (redacted !== undefined) {
+          tasks.push(
+            guard("redaction", () => {
+              handleRedaction(ctx, roomId, redacted);
+            }),
+          );
+        }
+      }
+    }
+  }
+
+  return tasks;
+}
+
+async function runSyncLoop(
+  ctx: MatrixHandlerCtx,
+  syncTimeout: number,
+  signal: AbortSignal,
+): Promise<void> {
+  let since = readSyncToken(ctx.agentSlug);
+
+  while (!signal.aborted) {
+    try {
+      const response = await ctx.client.sync(since, since === undefined ? 0 : syncTimeout);
+      // oxlint-disable-next-line typescript/no-floating-promises -- each handler is guarded; see dispatchSync
+      dispatchSync(ctx, response, since === undefined);
+      since = response.next_batch;
+      writeSyncToken(ctx.agentSlug, since);
+    } catch (error: unknown) {
+      // oxlint-disable-next-line typescript/no-unnecessary-condition -- aborted while the request was in flight
+      if (signal.aborted) {
+        return;
+      }
+      warning(
+        `Matrix sync failed for ${colors.keyword(ctx.agentSlug)}, retrying in ${SYNC_RETRY_MS}ms:`,
+        error instanceof Error ? error.message : String(error),
+      );
+      await sleep(SYNC_RETRY_MS, undefined, { signal }).catch(() => undefined);
+    }
+  }
+}
+
+function toHistoryMessage(
+  ctx: MatrixHandlerCtx,
+  roomId: string,
+): (event: RoomEvent) => Promise<HistoryMessage | undefined> {
+  return async (event) => {
+    const content = event.type === MESSAGE_EVENT ? parseMessageContent(event.content) : undefined;
+    if (content === undefined) {
+      return undefined;
+    }
+    const formatted = await formatUserMessage(ctx, roomId, event, content);
+    return {
+      authorId: event.sender,
+      authorName: localpart(event.sender),
+      content: content.body,
+      formatted: renderTextContent(formatted),
+      id: event.event_id,
+      timestamp: new Date(event.origin_server_ts).toISOString(),
+    };
+  };
+}
+
+function createMatrixHandler(ctx: MatrixHandlerCtx): ChannelHandler {
+  const { client } = ctx;
+
+  return {
+    capabilities: {
+      supportsAttachments: true,
+      supportsDownloadAttachments: true,
+      supportsReactions: true,
+    },
+    downloadAttachments: async (session, messageId) => {
+      if (!(session instanceof MatrixSession)) {
+        throw new Error("downloadAttachments only works on Matrix sessions");
+      }
+
+      const event = await client.getEvent(session.roomId, messageId);
+      const content = parseMessageContent(event.content);
+      if (content?.url === undefined) {
+        return [];
+      }
+      const { data } = await client.download(content.url);
+      return [{ data, filename: path.basename(content.filename ?? content.body) }];
+    },
+    fetchHistory: async (session, messageId, direction, limit = 50) => {
+      if (!(session instanceof MatrixSession)) {
+        throw new Error("fetchHistory only works on Matrix sessions");
+      }
+
+      const { before, after } = await client.getContext(session.roomId, messageId, limit);
+      let events: RoomEvent[] = [];
+      switch (direction) {
+        case "after": {
+          events = after;
+          break;
+        }
+        case "around": {
+          const target = await client.getEvent(session.roomId, messageId);
+          events = [...before.toReversed(), target, ...after];
+          break;
+        }
+        case "before": {
+          events = before.toReversed();
+          break;
+        }
+        default: {
+          const exhaustive: never = direction;
+          throw new Error(`Unknown direction: ${String(exhaustive)}`);
+        }
+      }
+
+      const toHistory = toHistoryMessage(ctx, session.roomId);
+      const results = await Promise.all(events.map(async (event) => await toHistory(event)));
+      return results.filter((it): it is HistoryMessage => it !== undefined);
+    },
+    react: async (session, emoji, messageId) => {
+      if (!(session instanceof MatrixSession)) {
+        throw new Error("Somehow, `session` was not a MatrixSession");
+      }
+
+      const targetId = messageId ?? session.lastEventId;
+      if (targetId === undefined) {
+        return;
+      }
+
+      await client.sendEvent(session.roomId, "m.reaction", {
+        "m.relates_to": { event_id: targetId, key: emoji, rel_type: "m.annotation" },
+      });
+    },
+    resolveChannel: async (spec, sessions) => {
+      if (spec !== "owner") {
+        return sessions.get(spec) ?? { error: `session not found: ${spec}` };
+      }
+
+      for (const session of sessions.values()) {
+        if (!(session instanceof MatrixSession) || !session.isDirect) {
+          continue;
+        }
+        try {
+          const members = await client.getJoinedMembers(session.roomId);
+          if (members.includes(ctx.ownerId)) {
+            return session;
+          }
+        } catch {
+          // Room may have been left since; keep looking.
+        }
+      }
+
+      try {
+        const roomId = await client.createDirectRoom(ctx.ownerId);
+        const session = new MatrixSession({ isDirect: true, roomId });
+        // Unlike Discord's createDM, creating a room isn't idempotent, so the
+        // session has to be remembered or every owner ping opens a new room.
+        sessions.set(session.id(), session);
+        ctx.directRooms.set(roomId, true);
+        return session;
+      } catch {
+        return { error: "failed to create direct room with owner" };
+      }
+    },
+    send: async (session, content, attachments) => {
+      if (!(session instanceof MatrixSession)) {
+        throw new Error("Somehow, `session` was not a MatrixSession");
+      }
+
+      const sentIds = [
+        await client.sendEvent(session.roomId, MESSAGE_EVENT, { body: content, msgtype: "m.text" }),
+      ];
+
+      for (const sandboxPath of attachments ?? []) {
+        const realPath = sandboxToReal(sandboxPath, ctx.agentSlug);
+        const data = await readFile(realPath);
+        const filename = path.basename(realPath);
+        const mimetype =
+          IMAGE_EXT_TO_MEDIA_TYPE[path.extname(filename).toLowerCase()] ??
+          "application/octet-stream";
+        const url = await client.upload(data, filename, mimetype);
+        sentIds.push(
+          await client.sendEvent(session.roomId, MESSAGE_EVENT, {
+            body: filename,
+            filename,
+            info: { mimetype, size: data.length },
+            msgtype: mimetype.startsWith("image/") ? "m.image" : "m.file",
+            url,
+          }),
+        );
+      }
+
+      // Store sent event IDs so the engine can assign them to the
+      // assistant history entry after it's pushed.
+      session.lastSentMessageIds = sentIds;
+    },
+  };
+}
+
+async function startMatrix(
+  owner: Harness,
+  agentSlug: string,
+  signal: AbortSignal,
+): Promise<MatrixClient> {
+  const {
+    access,
+    accessToken,
+    autoJoin,
+    directMessages,
+    homeserverUrl,
+    ownerId,
+    syncTimeout,
+    timeout,
+  } = await loadChannel("matrix", agentSlug);
+
+  const agent = owner.agents.get(agentSlug);
+  if (agent === undefined) {
+    throw new Error(`Agent ${agentSlug} not found`);
+  }
+
+  const client = new MatrixClient({ accessToken, homeserverUrl, timeoutMs: timeout });
+  const userId = await client.whoami();
+
+  const ctx: MatrixHandlerCtx = {
+    access,
+    agentSlug,
+    autoJoin,
+    client,
+    directMessages,
+    directRooms: new Map(),
+    owner,
+    ownerId,
+    userId,
+  };
+
+  agent.registerChannel("matrix", createMatrixHandler(ctx));
+
+  // oxlint-disable-next-line promise/prefer-await-to-then -- The sync loop runs for the process lifetime.
+  runSyncLoop(ctx, syncTimeout, signal).catch((error: unknown) => {
+    logError("Matrix sync loop stopped for", colors.keyword(agentSlug), error);
+  });
+
+  info(
+    "Channel",
+    colors.keyword(`${agentSlug}:matrix`),
+    "is now listening as",
+    colors.keyword(userId),
+  );
+
+  return client;
+}
+
+export {
+  createMatrixHandler,
+  dispatchSync,
+  historyInsertByTimestamp,
+  isAllowedSender,
+  startMatrix,
+  stripReplyFallback,
+};
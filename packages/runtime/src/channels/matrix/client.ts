@@ -0,0 +1,302 @@
+import * as vb from "valibot";
+
+import { fetchWithTimeout } from "#util/network.js";
+
+// The Matrix client-server API only needs a handful of endpoints for a bot,
+// so we speak it directly instead of pulling in a full SDK with its own
+// crypto store and event cache.
+
+const RoomEventSchema = vb.looseObject({
+  content: vb.record(vb.string(), vb.unknown()),
+  event_id: vb.string(),
+  origin_server_ts: vb.number(),
+  sender: vb.string(),
+  state_key: vb.exactOptional(vb.string()),
+  type: vb.string(),
+  unsigned: vb.exactOptional(vb.record(vb.string(), vb.unknown())),
+});
+
+type RoomEvent = vb.InferOutput<typeof RoomEventSchema>;
+
+const StrippedStateEventSchema = vb.looseObject({
+  content: vb.record(vb.string(), vb.unknown()),
+  sender: vb.string(),
+  state_key: vb.exactOptional(vb.string()),
+  type: vb.string(),
+});
+
+const SyncResponseSchema = vb.looseObject({
+  next_batch: vb.string(),
+  rooms: vb.exactOptional(
+    vb.looseObject({
+      invite: vb.exactOptional(
+        vb.record(
+          vb.string(),
+          vb.looseObject({
+            invite_state: vb.exactOptional(
+              vb.looseObject({ events: vb.array(StrippedStateEventSchema) }),
+            ),
+          }),
+        ),
+      ),
+      join: vb.exactOptional(
+        vb.record(
+          vb.string(),
+          vb.looseObject({
+            timeline: vb.exactOptional(vb.looseObject({ events: vb.array(RoomEventSchema) })),
+          }),
+        ),
+      ),
+    }),
+  ),
+});
+
+type SyncResponse = vb.InferOutput<typeof SyncResponseSchema>;
+
+const ContextResponseSchema = vb.looseObject({
+  event: vb.exactOptional(RoomEventSchema),
+  events_after: vb.exactOptional(vb.array(RoomEventSchema), []),
+  events_before: vb.exactOptional(vb.array(RoomEventSchema), []),
+});
+
+const MessagesResponseSchema = vb.looseObject({
+  chunk: vb.array(RoomEventSchema),
+  end: vb.exactOptional(vb.string()),
+});
+
+class MatrixRequestError extends Error {
+  public readonly status: number;
+  public readonly errcode: string | undefined;
+
+  public constructor(endpoint: string, status: number, errcode?: string, detail?: string) {
+    super(`Matrix ${endpoint} failed: HTTP ${status}${errcode === undefined ? "" : ` ${errcode}`}`);
+    this.name = "MatrixRequestError";
+    this.status = status;
+    this.errcode = errcode;
+    if (detail !== undefined && detail.length > 0) {
+      this.message = `${this.message} — ${detail}`;
+    }
+  }
+}
+
+function parseMxc(uri: string): { serverName: string; mediaId: string } {
+  const match = /^mxc:\/\/([^/]+)\/([^/?#]+)$/u.exec(uri);
+  if (match?.[1] === undefined || match[2] === undefined) {
+    throw new Error(`Invalid mxc URI: ${uri}`);
+  }
+  return { mediaId: match[2], serverName: match[1] };
+}
+
+interface RequestOptions {
+  body?: unknown;
+  query?: Record<string, string | undefined>;
+  timeoutMs?: number;
+}
+
+class MatrixClient {
+  public readonly homeserverUrl: string;
+  private readonly accessToken: string;
+  private readonly timeoutMs: number;
+  private txnCounter = 0;
+
+  public constructor(opts: { homeserverUrl: string; accessToken: string; timeoutMs: number }) {
+    this.homeserverUrl = opts.homeserverUrl.replace(/\/+$/u, "");
+    this.accessToken = opts.accessToken;
+    this.timeoutMs = opts.timeoutMs;
+  }
+
+  private url(pth: string, query?: Record<string, string | undefined>): URL {
+    const url = new URL(`${this.homeserverUrl}${pth}`);
+    for (const [key, value] of Object.entries(query ?? {})) {
+      if (value !== undefined) {
+        url.searchParams.set(key, value);
+      }
+    }
+    return url;
+  }
+
+  private async raw(method: string, pth: string, opts: RequestOptions = {}): Promise<Response> {
+    const headers: Record<string, string> = { Authorization: `Bearer ${this.accessToken}` };
+    let body: string | undefined = undefined;
+    if (opts.body !== undefined) {
+      headers["Content-Type"] = "application/json";
+      body = JSON.stringify(opts.body);
+    }
+
+    const response = await fetchWithTimeout(
+      this.url(pth, opts.query),
+      { body, headers, method },
+      opts.timeoutMs ?? this.timeoutMs,
+    );
+
+    if (!response.ok) {
+      let errcode: string | undefined = undefined;
+      let detail: string | undefined = undefined;
+      try {
+        const parsed = vb.safeParse(
+          vb.looseObject({
+            errcode: vb.exactOptional(vb.string()),
+            error: vb.exactOptional(vb.string()),
+          }),
+          await response.json(),
+        );
+        if (parsed.success) {
+          ({ errcode, error: detail } = parsed.output);
+        }
+      } catch {
+        // Non-JSON error body — the status code is all we have.
+      }
+      throw new MatrixRequestError(`${method} ${pth}`, response.status, errcode, detail);
+    }
+
+    return response;
+  }
+
+  private async json(method: string, pth: string, opts: RequestOptions = {}): Promise<unknown> {
+    const response = await this.raw(method, pth, opts);
+    return await response.json();
+  }
+
+  private nextTxnId(): string {
+    this.txnCounter++;
+    return `cc${Date.now()}.${this.txnCounter}`;
+  }
+
+  public async whoami(): Promise<string> {
+    const data = await this.json("GET", "/_matrix/client/v3/account/whoami");
+    return vb.parse(vb.looseObject({ user_id: vb.string() }), data).user_id;
+  }
+
+  public async sync(since: string | undefined, timeoutMs: number): Promise<SyncResponse> {
+    const data = await this.json("GET", "/_matrix/client/v3/sync", {
+      query: { since, timeout: String(timeoutMs) },
+      // Long-poll: give the server its full wait plus the normal request budget.
+      timeoutMs: timeoutMs + this.timeoutMs,
+    });
+    return vb.parse(SyncResponseSchema, data);
+  }
+
+  public async joinRoom(roomId: string): Promise<void> {
+    await this.json("POST", `/_matrix/client/v3/rooms/${encodeURIComponent(roomId)}/join`, {
+      body: {},
+    });
+  }
+
+  public async sendEvent(roomId: string, type: string, content: object): Promise<string> {
+    const data = await this.json(
+      "PUT",
+      `/_matrix/client/v3/rooms/${encodeURIComponent(roomId)}/send/${encodeURIComponent(type)}/${encodeURIComponent(this.nextTxnId())}`,
+      { body: content },
+    );
+    return vb.parse(vb.looseObject({ event_id: vb.string() }), data).event_id;
+  }
+
+  public async getEvent(roomId: string, eventId: string): Promise<RoomEvent> {
+    const data = await this.json(
+      "GET",
+      `/_matrix/client/v3/rooms/${encodeURIComponent(roomId)}/event/${encodeURIComponent(eventId)}`,
+    );
+    return vb.parse(RoomEventSchema, data);
+  }
+
+  public async getContext(
+    roomId: string,
+    eventId: string,
+    limit: number,
+  ): Promise<{ before: RoomEvent[]; after: RoomEvent[] }> {
+    const data = await this.json(
+      "GET",
+      `/_matrix/client/v3/rooms/${encodeURIComponent(roomId)}/context/${encodeURIComponent(eventId)}`,
+      { query: { limit: String(limit) } },
+    );
+    const parsed = vb.parse(ContextResponseSchema, data);
+    return { after: parsed.events_after, before: parsed.events_before };
+  }
+
+  // Returns the newest `limit` events in reverse-chronological order.
+  public async getRecentMessages(roomId: string, limit: number): Promise<RoomEvent[]> {
+    const data = await this.json(
+      "GET",
+      `/_matrix/client/v3/rooms/${encodeURIComponent(roomId)}/messages`,
+      { query: { dir: "b", limit: String(limit) } },
+    );
+    return vb.parse(MessagesResponseSchema, data).chunk;
+  }
+
+  public async getJoinedMembers(roomId: string): Promise<string[]> {
+    const data = await this.json(
+      "GET",
+      `/_matrix/client/v3/rooms/${encodeURIComponent(roomId)}/joined_members`,
+    );
+    return Object.keys(
+      vb.parse(vb.looseObject({ joined: vb.record(vb.string(), vb.unknown()) }), data).joined,
+    );
+  }
+
+  public async getDisplayName(roomId: string, userId: string): Promise<string | undefined> {
+    try {
+      const data = await this.json(
+        "GET",
+        `/_matrix/client/v3/rooms/${encodeURIComponent(roomId)}/state/m.room.member/${encodeURIComponent(userId)}`,
+      );
+      const parsed = vb.safeParse(
+        vb.looseObject({ displayname: vb.exactOptional(vb.nullable(vb.string())) }),
+        data,
+      );
+      return parsed.success ? (parsed.output.displayname ?? undefined) : undefined;
+    } catch {
+      // Member left or the state is hidden from us; the caller falls back to the user ID.
+      return undefined;
+    }
+  }
+
+  public async setTyping(roomId: string, userId: string, typing: boolean): Promise<void> {
+    await this.json(
+      "PUT",
+      `/_matrix/client/v3/rooms/${encodeURIComponent(roomId)}/typing/${encodeURIComponent(userId)}`,
+      { body: typing ? { timeout: 30_000, typing } : { typing } },
+    );
+  }
+
+  public async createDirectRoom(userId: string): Promise<string> {
+    const data = await this.json("POST", "/_matrix/client/v3/createRoom", {
+      body: { invite: [userId], is_direct: true, preset: "trusted_private_chat" },
+    });
+    return vb.parse(vb.looseObject({ room_id: vb.string() }), data).room_id;
+  }
+
+  public async upload(data: Buffer, filename: string, contentType: string): Promise<string> {
+    const response = await fetchWithTimeout(
+      this.url("/_matrix/media/v3/upload", { filename }),
+      {
+        body: data,
+        headers: {
+          Authorization: `Bearer ${this.accessToken}`,
+          "Content-Type": contentType,
+        },
+        method: "POST",
+      },
+      this.timeoutMs,
+    );
+    if (!response.ok) {
+      throw new MatrixRequestError("POST /_matrix/media/v3/upload", response.status);
+    }
+    return vb.parse(vb.looseObject({ content_uri: vb.string() }), await response.json())
+      .content_uri;
+  }
+
+  public async download(mxcUri: string): Promise<{ data: Buffer; contentType?: string }> {
+    const { serverName, mediaId } = parseMxc(mxcUri);
+    const response = await this.raw(
+      "GET",
+      `/_matrix/client/v1/media/download/${encodeURIComponent(serverName)}/${encodeURIComponent(mediaId)}`,
+    );
+    return {
+      contentType: response.headers.get("content-type") ?? undefined,
+      data: Buffer.from(await response.arrayBuffer()),
+    };
+  }
+}
+
+export { MatrixClient, MatrixRequestError, parseMxc };
+export type { RoomEvent, SyncResponse };
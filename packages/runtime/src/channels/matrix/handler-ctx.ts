@@ -0,0 +1,17 @@
+import type { MatrixClient } from "#channels/matrix/client.js";
+import type { MatrixAccessConfig, MatrixDirectMessages } from "#config/schemas/matrix.js";
+import type { Harness } from "#harness/index.js";
+
+export interface MatrixHandlerCtx {
+  access: MatrixAccessConfig;
+  agentSlug: string;
+  autoJoin: boolean;
+  client: MatrixClient;
+  directMessages: MatrixDirectMessages;
+  // Membership rarely changes mid-conversation, so the two-member check is
+  // cached per room instead of hitting /joined_members on every message.
+  directRooms: Map<string, boolean>;
+  owner: Harness;
+  ownerId: string;
+  userId: string;
+}
@@ -0,0 +1,147 @@
+import { randomUUID } from "node:crypto";
+import { mkdirSync, mkdtempSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { Agent } from "#agent/index.js";
+import { createPluginChannelHandler, handleInbound } from "#channels/plugin.js";
+import type { PluginChannelCtx } from "#channels/plugin.js";
+import { initDb } from "#db/index.js";
+import { Harness } from "#harness/index.js";
+import { PluginSession } from "#harness/session.js";
+import type { PluginChannel } from "#plugin/loader.js";
+
+function makeChannel(overrides: Partial<PluginChannel> = {}): PluginChannel {
+  return {
+    connect: vi.fn(async () => {
+      await Promise.resolve();
+    }),
+    fetchHistory: vi.fn(async () => await Promise.resolve([])),
+    name: "slack",
+    pluginId: "slack-bridge",
+    react: vi.fn(async () => {
+      await Promise.resolve();
+    }),
+    send: vi.fn(async () => await Promise.resolve(["sent-1"])),
+    supportsFetchHistory: true,
+    supportsReactions: true,
+    ...overrides,
+  };
+}
+
+function setup(channel: PluginChannel): { agent: Agent; ctx: PluginChannelCtx } {
+  const home = mkdtempSync(path.join(tmpdir(), "cireilclaw-plugin-channel-test-"));
+  vi.stubEnv("HOME", home);
+  const slug = `agent-${randomUUID()}`;
+  mkdirSync(path.join(home, ".cireilclaw", "agents", slug), { recursive: true });
+  initDb(slug);
+
+  const agent = new Agent(slug, new Map());
+  const owner = Harness.init(new Map([[slug, agent]]));
+  const ctx: PluginChannelCtx = { agentSlug: slug, channel, owner };
+  agent.registerChannel(channel.name, createPluginChannelHandler(ctx));
+  return { agent, ctx };
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("plugin channels", () => {
+  it("runs a turn for an inbound message and replies through the plugin", async () => {
+    const send = vi.fn(async () => await Promise.resolve(["sent-1"]));
+    const channel = makeChannel({ send });
+    const { agent, ctx } = setup(channel);
+    const runTurn = vi.spyOn(agent, "runTurn").mockImplementation(async (session) => {
+      await agent.send(session, "hello back");
+    });
+
+    await handleInbound(ctx, {
+      authorId: "U1",
+      authorName: "Owner",
+      content: "hi",
+      conversationId: "C1",
+      id: "m1",
+      isDirect: true,
+      timestamp: 1000,
+    });
+
+    expect(runTurn).toHaveBeenCalledOnce();
+    const session = agent.sessions.get("slack:C1");
+    expect(session).toBeInstanceOf(PluginSession);
+    if (!(session instanceof PluginSession)) {
+      return;
+    }
+    expect(session.isDirect).toBe(true);
+    expect(session.lastMessageId).toBe("m1");
+    expect(session.history.map((entry) => entry.id)).toEqual(["m1"]);
+    expect(send).toHaveBeenCalledWith(
+      { agentSlug: ctx.agentSlug, conversationId: "C1" },
+      "hello back",
+    );
+    expect(session.lastSentMessageIds).toEqual(["sent-1"]);
+  });
+
+  it("ignores malformed messages", async () => {
+    const { agent, ctx } = setup(makeChannel());
+    const runTurn = vi.spyOn(agent, "runTurn").mockResolvedValue();
+
+    await handleInbound(ctx, { content: "hi", conversationId: "C1" });
+
+    expect(runTurn).not.toHaveBeenCalled();
+    expect(agent.sessions.size).toBe(0);
+  });
+
+  it("reacts to the latest inbound message and maps fetched history", async () => {
+    const react = vi.fn(async () => {
+      await Promise.resolve();
+    });
+    const channel = makeChannel({
+      fetchHistory: vi.fn(
+        async () =>
+          await Promise.resolve([
+            { authorId: "U2", authorName: "Friend", content: "earlier", id: "m0", timestamp: 0 },
+          ]),
+      ),
+      react,
+    });
+    const { agent, ctx } = setup(channel);
+    const handler = createPluginChannelHandler(ctx);
+    const session = new PluginSession({ conversationId: "C1", pluginChannel: "slack" });
+    session.lastMessageId = "m1";
+    agent.sessions.set(session.id(), session);
+
+    await handler.react?.(session, "👍");
+    const history = await handler.fetchHistory?.(session, "m1", "before");
+
+    expect(react).toHaveBeenCalledWith(
+      { agentSlug: ctx.agentSlug, conversationId: "C1" },
+      "👍",
+      "m1",
+    );
+    expect(history).toMatchObject([
+      { authorName: "Friend", content: "earlier", id: "m0", timestamp: "1970-01-01T00:00:00.000Z" },
+    ]);
+  });
+
+  it("leaves out what the plugin doesn't support", () => {
+    const handler = createPluginChannelHandler(
+      setup(makeChannel({ supportsFetchHistory: false, supportsReactions: false })).ctx,
+    );
+
+    expect(handler.capabilities.supportsReactions).toBe(false);
+    expect(handler).not.toHaveProperty("react");
+    expect(handler).not.toHaveProperty("fetchHistory");
+  });
+
+  it("resolves send targets to sessions on registered plugin channels", async () => {
+    const { agent } = setup(makeChannel());
+
+    const session = await agent.resolveTarget("slack:C9");
+
+    expect(session).toBeInstanceOf(PluginSession);
+    expect(session?.id()).toBe("slack:C9");
+  });
+});
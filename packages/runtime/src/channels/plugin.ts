@@ -0,0 +1,260 @@
+import type { ChannelTarget } from "@cireilclaw/sdk";
+import * as vb from "valibot";
+
+import { saveSession } from "#db/sessions.js";
+import type { TextContent } from "#engine/content.js";
+import { renderTextContent } from "#engine/content.js";
+import type { ChannelHandler, HistoryMessage } from "#harness/channel-handler.js";
+import type { Harness } from "#harness/index.js";
+import { enqueue } from "#harness/queue.js";
+import type { Session } from "#harness/session.js";
+import { PluginSession, pluginSessionId } from "#harness/session.js";
+import colors from "#output/colors.js";
+import { error as logError, info, warning } from "#output/log.js";
+import type { PluginChannel } from "#plugin/loader.js";
+import { formatDate } from "#util/date.js";
+
+const HISTORY_LIMIT = 50;
+
+// Everything below comes from plugin code, so it's checked before use.
+const InboundMessageSchema = vb.object({
+  authorId: vb.pipe(vb.string(), vb.nonEmpty()),
+  authorName: vb.string(),
+  content: vb.string(),
+  conversationId: vb.pipe(vb.string(), vb.nonEmpty()),
+  id: vb.pipe(vb.string(), vb.nonEmpty()),
+  isDirect: vb.optional(vb.boolean()),
+  timestamp: vb.optional(vb.number()),
+});
+
+type InboundMessage = vb.InferOutput<typeof InboundMessageSchema>;
+
+const SentIdsSchema = vb.optional(vb.array(vb.string()));
+
+const HistorySchema = vb.array(
+  vb.object({
+    authorId: vb.string(),
+    authorName: vb.string(),
+    content: vb.string(),
+    id: vb.string(),
+    timestamp: vb.number(),
+  }),
+);
+
+interface PluginChannelCtx {
+  agentSlug: string;
+  channel: PluginChannel;
+  owner: Harness;
+}
+
+function asPluginSession(ctx: PluginChannelCtx, session: Session): PluginSession {
+  if (!(session instanceof PluginSession) || session.pluginChannel !== ctx.channel.name) {
+    throw new Error(`Somehow, \`session\` was not a ${ctx.channel.name} session`);
+  }
+  return session;
+}
+
+function targetOf(ctx: PluginChannelCtx, session: PluginSession): ChannelTarget {
+  return { agentSlug: ctx.agentSlug, conversationId: session.conversationId };
+}
+
+async function formatUserMessage(message: {
+  authorId: string;
+  authorName: string;
+  content: string;
+  id: string;
+  timestamp: number;
+}): Promise<TextContent> {
+  const timestamp = await formatDate(new Date(message.timestamp), undefined, false);
+
+  return {
+    content: message.content,
+    discord: {
+      author: { displayName: message.authorName, id: message.authorId, username: message.authorId },
+      format: "message",
+      messageId: message.id,
+      timestamp,
+    },
+    type: "text",
+  };
+}
+
+async function handleInbound(ctx: PluginChannelCtx, raw: unknown): Promise<void> {
+  const parsed = vb.safeParse(InboundMessageSchema, raw);
+  if (!parsed.success) {
+    warning(
+      `Plugin ${colors.keyword(ctx.channel.pluginId)} channel ${colors.keyword(ctx.channel.name)} sent a malformed message:`,
+      vb.summarize(parsed.issues),
+    );
+    return;
+  }
+  const message: InboundMessage = parsed.output;
+  if (message.content.trim().length === 0) {
+    return;
+  }
+
+  const agent = ctx.owner.agents.get(ctx.agentSlug);
+  if (agent === undefined) {
+    logError(
+      "There was no agent to be found with slug",
+      colors.keyword(ctx.agentSlug),
+      "are you certain you have everything set up correctly?",
+    );
+    return;
+  }
+
+  const sessionId = pluginSessionId(ctx.channel.name, message.conversationId);
+  let session = agent.sessions.get(sessionId);
+  if (session !== undefined && !(session instanceof PluginSession)) {
+    throw new TypeError(`invalid session type: expected plugin, got ${session.channel}`);
+  }
+
+  const isDirect = message.isDirect ?? false;
+  if (session === undefined) {
+    session = new PluginSession({
+      conversationId: message.conversationId,
+      isDirect,
+      pluginChannel: ctx.channel.name,
+    });
+    agent.sessions.set(sessionId, session);
+  } else {
+    session.isDirect = isDirect;
+  }
+  const ps = session;
+
+  ps.lastActivity = Date.now();
+  const timestamp = message.timestamp ?? Date.now();
+
+  await enqueue(ps, {
+    kind: "message",
+    stage: async (): Promise<number> => {
+      ps.lastMessageId = message.id;
+      const historyLengthBeforeMessage = ps.history.length;
+      ps.history.push({
+        content: await formatUserMessage({ ...message, timestamp }),
+        id: message.id,
+        persist: true,
+        role: "user",
+        timestamp,
+      });
+      return historyLengthBeforeMessage;
+    },
+    turn: async (historyLengthBeforeTurn): Promise<void> => {
+      try {
+        await agent.runTurn(ps);
+      } catch (error) {
+        // Roll back this turn's history so the next message doesn't see a
+        // stranded user message with no response.
+        ps.history.length = historyLengthBeforeTurn;
+        ps.pendingToolMessages.length = 0;
+        ps.pendingVideos.length = 0;
+        warning("Error during agent turn:", error instanceof Error ? error.message : String(error));
+        if (error instanceof Error && error.stack !== undefined) {
+          warning("Stack trace:", error.stack);
+        }
+      } finally {
+        saveSession(ctx.agentSlug, ps);
+      }
+    },
+  });
+}
+
+function createPluginChannelHandler(ctx: PluginChannelCtx): ChannelHandler {
+  const { channel } = ctx;
+
+  const handler: ChannelHandler = {
+    capabilities: {
+      supportsAttachments: false,
+      supportsDownloadAttachments: false,
+      supportsReactions: channel.supportsReactions,
+    },
+    send: async (session, content) => {
+      const ps = asPluginSession(ctx, session);
+      const sentIds = vb.safeParse(SentIdsSchema, await channel.send(targetOf(ctx, ps), content));
+      if (!sentIds.success) {
+        warning(
+          `Plugin ${colors.keyword(channel.pluginId)} channel ${colors.keyword(channel.name)} send returned something other than message IDs; ignoring it`,
+        );
+      }
+
+      // Store sent message IDs so the engine can assign them to the
+      // assistant history entry after it's pushed.
+      if (sentIds.success && sentIds.output !== undefined) {
+        ps.lastSentMessageIds = sentIds.output;
+      }
+    },
+  };
+
+  if (channel.supportsReactions) {
+    handler.react = async (session, emoji, messageId): Promise<void> => {
+      const ps = asPluginSession(ctx, session);
+      const targetId = messageId ?? ps.lastMessageId;
+      if (targetId === undefined) {
+        return;
+      }
+      await channel.react(targetOf(ctx, ps), emoji, targetId);
+    };
+  }
+
+  if (channel.supportsFetchHistory) {
+    handler.fetchHistory = async (
+      session,
+      messageId,
+      direction,
+      limit = HISTORY_LIMIT,
+    ): Promise<HistoryMessage[]> => {
+      const target = targetOf(ctx, asPluginSession(ctx, session));
+      const history = vb.parse(
+        HistorySchema,
+        await channel.fetchHistory(target, messageId, direction, limit),
+      );
+      return await Promise.all(
+        history.map(async (message) => ({
+          authorId: message.authorId,
+          authorName: message.authorName,
+          content: message.content,
+          formatted: renderTextContent(await formatUserMessage(message)),
+          id: message.id,
+          timestamp: new Date(message.timestamp).toISOString(),
+        })),
+      );
+    };
+  }
+
+  return handler;
+}
+
+/**
+ * Registers a plugin channel with the agent and connects it. Messages the
+ * plugin receives run turns the same way the builtin channels' do.
+ */
+async function startPluginChannel(
+  owner: Harness,
+  agentSlug: string,
+  channel: PluginChannel,
+  config: Record<string, unknown>,
+): Promise<void> {
+  const agent = owner.agents.get(agentSlug);
+  if (agent === undefined) {
+    throw new Error(`Agent ${agentSlug} not found`);
+  }
+
+  const ctx: PluginChannelCtx = { agentSlug, channel, owner };
+  agent.registerChannel(channel.name, createPluginChannelHandler(ctx));
+
+  await channel.connect(agentSlug, config, (message) => {
+    handleInbound(ctx, message).catch((error: unknown) => {
+      logError("Plugin channel", colors.keyword(`${agentSlug}:${channel.name}`), error);
+    });
+  });
+
+  info(
+    "Channel",
+    colors.keyword(`${agentSlug}:${channel.name}`),
+    "is now connected through plugin",
+    colors.keyword(channel.pluginId),
+  );
+}
+
+export { createPluginChannelHandler, handleInbound, startPluginChannel };
+export type { PluginChannelCtx };
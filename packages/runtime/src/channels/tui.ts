@@ -9,9 +9,18 @@ export function createHandler(bridge: TuiBridge): ChannelHandler {
       supportsDownloadAttachments: false,
       supportsReactions: false,
     },
+    requestApproval: async (request, signal) => {
+      const approved = await bridge.requestApproval(request, signal);
+      return { approved, by: "tui" };
+    },
     // oxlint-disable-next-line typescript/require-await
     send: async (_session, content, _attachments) => {
+      bridge.setPartial(undefined);
       bridge.push(createTuiMessage("agent", content));
     },
+    // oxlint-disable-next-line typescript/require-await
+    sendPartial: async (_session, content) => {
+      bridge.setPartial(content);
+    },
   };
 }
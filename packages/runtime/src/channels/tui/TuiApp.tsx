@@ -6,13 +6,26 @@ import type { ReactElement } from "react";
 import type { Agent } from "#agent/index.js";
 import { createHandler } from "#channels/tui.js";
 import { TuiBridge } from "#channels/tui/bridge.js";
+import type { TuiApproval } from "#channels/tui/bridge.js";
 import { MessageLine } from "#channels/tui/MessageLine.js";
 import { StatusBar } from "#channels/tui/StatusBar.js";
 import { createTuiMessage } from "#channels/tui/tui-message.js";
 import type { TuiMessage } from "#channels/tui/tui-message.js";
+import { enqueue } from "#harness/queue.js";
 import { NamedInternalSession, TuiSession } from "#harness/session.js";
+import { reloadPlugins } from "#plugin/loader.js";
 import { sanitizeError } from "#util/paths.js";
 
+function approvalPrompt({ kind, subject }: TuiApproval["request"]): string {
+  if (kind === "write") {
+    return `Allow writing to ${subject}? [y/n]`;
+  }
+  if (kind === "plugin") {
+    return `Allow plugin access (${subject})? [y/n]`;
+  }
+  return `Allow running \`${subject}\`? [y/n]`;
+}
+
 interface AppProps {
   bridge: TuiBridge;
   agent: Agent;
@@ -24,6 +37,9 @@ function TuiApp({ bridge, agent, initialSessionId }: AppProps): ReactElement {
   const [messages, setMessages] = useState(bridge.snapshot());
   const [input, setInput] = useState("");
   const [busy, setBusy] = useState(false);
+  const [partial, setPartial] = useState<string | undefined>(undefined);
+  const [approvals, setApprovals] = useState<TuiApproval[]>([]);
+  const [approval] = approvals;
 
   const inputRows = Math.max(1, Math.min(10, input.split("\n").length));
 
@@ -32,6 +48,9 @@ function TuiApp({ bridge, agent, initialSessionId }: AppProps): ReactElement {
     if (key.ctrl && (_input === "c" || _input === "d")) {
       exit();
     }
+    if (approval !== undefined && (_input === "y" || _input === "n")) {
+      approval.answer(_input === "y");
+    }
   });
 
   useEffect(() => {
@@ -39,21 +58,36 @@ function TuiApp({ bridge, agent, initialSessionId }: AppProps): ReactElement {
       setMessages((prev) => [...prev, msg]);
     }
 
+    function onApproval(pending: TuiApproval): void {
+      setApprovals((prev) => [...prev, pending]);
+    }
+
+    function onApprovalSettled(id: string): void {
+      setApprovals((prev) => prev.filter((it) => it.request.id !== id));
+    }
+
     bridge.on("message", onMessage);
-    // oxlint-disable-next-line no-void
-    return (): void => void bridge.off("message", onMessage);
+    bridge.on("partial", setPartial);
+    bridge.on("approval", onApproval);
+    bridge.on("approval-settled", onApprovalSettled);
+    return (): void => {
+      bridge.off("message", onMessage);
+      bridge.off("partial", setPartial);
+      bridge.off("approval", onApproval);
+      bridge.off("approval-settled", onApprovalSettled);
+    };
   }, [bridge]);
 
   const handleSubmit = useCallback(
     async (value: string) => {
       const trimmed = value.trim();
-      if (trimmed.length === 0 || busy) {
+      if (trimmed.length === 0) {
         return;
       }
       setInput("");
 
       if (trimmed.startsWith("/")) {
-        const [cmd] = trimmed.slice(1).split(" ");
+        const [cmd, arg] = trimmed.slice(1).split(" ");
         // oxlint-disable-next-line typescript/switch-exhaustiveness-check
         switch (cmd) {
           case "quit":
@@ -66,7 +100,28 @@ function TuiApp({ bridge, agent, initialSessionId }: AppProps): ReactElement {
             setMessages([]);
             break;
           case "help":
-            bridge.push(createTuiMessage("system", "commands: /quit  /help  /clear"));
+            bridge.push(
+              createTuiMessage("system", "commands: /quit  /help  /clear  /plugins reload"),
+            );
+            break;
+          case "plugins":
+            if (arg !== "reload") {
+              bridge.push(createTuiMessage("system", "usage: /plugins reload"));
+              break;
+            }
+            try {
+              const { loaded, unloaded } = await reloadPlugins();
+              const summary = loaded.length > 0 ? `reloaded ${loaded.join(", ")}` : "no plugins";
+              const removed = unloaded.length > 0 ? `; unloaded ${unloaded.join(", ")}` : "";
+              bridge.push(createTuiMessage("system", `${summary}${removed}`));
+            } catch (error) {
+              bridge.push(
+                createTuiMessage(
+                  "system",
+                  `plugin reload failed: ${sanitizeError(error, agent.slug)}`,
+                ),
+              );
+            }
             break;
           default:
             bridge.push(createTuiMessage("system", `unknown command: /${cmd}`));
@@ -76,7 +131,6 @@ function TuiApp({ bridge, agent, initialSessionId }: AppProps): ReactElement {
       }
 
       bridge.push(createTuiMessage("user", trimmed));
-      setBusy(true);
 
       let session = agent.sessions.get(initialSessionId);
       if (session === undefined) {
@@ -90,31 +144,55 @@ function TuiApp({ bridge, agent, initialSessionId }: AppProps): ReactElement {
         session.bridge = bridge;
       }
 
-      session.history.push({
-        content: { content: trimmed, type: "text" },
-        role: "user",
-        timestamp: Date.now(),
+      // Input typed during a turn is queued and answered in the next one.
+      const target = session;
+      await enqueue(target, {
+        kind: "message",
+        // oxlint-disable-next-line typescript/require-await
+        stage: async (): Promise<number> => {
+          const historyLengthBeforeMessage = target.history.length;
+          target.history.push({
+            content: { content: trimmed, type: "text" },
+            role: "user",
+            timestamp: Date.now(),
+          });
+          return historyLengthBeforeMessage;
+        },
+        turn: async (historyLengthBeforeTurn): Promise<void> => {
+          setBusy(true);
+          try {
+            await agent.runTurn(target);
+          } catch (error: unknown) {
+            target.history.length = historyLengthBeforeTurn;
+            target.pendingToolMessages.length = 0;
+            bridge.push(createTuiMessage("system", `error: ${sanitizeError(error, agent.slug)}`));
+          } finally {
+            setPartial(undefined);
+            setBusy(false);
+          }
+        },
       });
-
-      const historyLengthBeforeTurn = session.history.length - 1;
-      try {
-        await agent.runTurn(session);
-      } catch (error: unknown) {
-        session.history.length = historyLengthBeforeTurn;
-        session.pendingToolMessages.length = 0;
-        bridge.push(createTuiMessage("system", `error: ${sanitizeError(error, agent.slug)}`));
-      } finally {
-        setBusy(false);
-      }
     },
-    [agent, bridge, busy, exit, initialSessionId],
+    [agent, bridge, exit, initialSessionId],
   );
 
   return (
     <Box flexDirection="column">
       <Static items={messages}>{(msg) => <MessageLine key={msg.id} msg={msg} />}</Static>
+      {partial === undefined ? undefined : (
+        <MessageLine
+          msg={{ content: partial, id: "partial", role: "agent", timestamp: new Date() }}
+        />
+      )}
 
       <StatusBar busy={busy} />
+      {approval === undefined ? undefined : (
+        <Box paddingX={1} paddingY={0}>
+          <Text color="yellow" bold>
+            {approvalPrompt(approval.request)}
+          </Text>
+        </Box>
+      )}
       <Box paddingX={1} paddingY={0}>
         <Text color="cyan" bold>
           {"›  "}
@@ -122,6 +200,8 @@ function TuiApp({ bridge, agent, initialSessionId }: AppProps): ReactElement {
         <MultilineInput
           value={input}
           onChange={setInput}
+          // y/n answers the approval request rather than going into the draft.
+          focus={approval === undefined}
           // oxlint-disable-next-line typescript/no-misused-promises
           onSubmit={handleSubmit}
           placeholder="say something... (Enter to send, Shift+Enter for newline)"
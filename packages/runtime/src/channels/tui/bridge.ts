@@ -1,10 +1,40 @@
 import EventEmitter from "node:events";
 
 import type { TuiMessage } from "#channels/tui/tui-message.js";
+import type { ApprovalRequest } from "#harness/channel-handler.js";
+
+// A question shown in place of the input box until the user answers y or n.
+// Several can wait at once; they are asked in order.
+interface TuiApproval {
+  request: ApprovalRequest;
+  answer(approved: boolean): void;
+}
 
 export class TuiBridge extends EventEmitter {
   private readonly messages: TuiMessage[] = [];
 
+  // Streamed reply still being generated; rendered live below the message log.
+  public setPartial(content: string | undefined): void {
+    this.emit("partial", content);
+  }
+
+  /**
+   * Shows `request` to the user and resolves with their answer. Rejects, and
+   * takes the question down, once `signal` aborts.
+   */
+  public async requestApproval(request: ApprovalRequest, signal: AbortSignal): Promise<boolean> {
+    try {
+      return await new Promise<boolean>((resolve, reject) => {
+        this.emit("approval", { answer: resolve, request } satisfies TuiApproval);
+        signal.addEventListener("abort", () => {
+          reject(new Error("The approval request timed out"));
+        });
+      });
+    } finally {
+      this.emit("approval-settled", request.id);
+    }
+  }
+
   public push(msg: TuiMessage): void {
     this.messages.push(msg);
     this.emit("message", msg);
@@ -14,3 +44,5 @@ export class TuiBridge extends EventEmitter {
     return [...this.messages];
   }
 }
+
+export type { TuiApproval };
@@ -0,0 +1,142 @@
+import { select } from "@inquirer/prompts";
+import { buildCommand } from "@stricli/core";
+
+import { loadAgents } from "#config/index.js";
+import { queryAudit } from "#db/audit.js";
+import type { AuditEntry } from "#db/audit.js";
+import { initDb } from "#db/index.js";
+import colors from "#output/colors.js";
+import { warning } from "#output/log.js";
+import { parseWindow } from "#util/usage-report.js";
+
+interface Flags {
+  agent?: string;
+  since: string;
+  session?: string;
+  tool?: string;
+  origin?: "user" | "heartbeat" | "cron" | "summarizer";
+  failed: boolean;
+  format: "text" | "jsonl";
+}
+
+function formatEntry(entry: AuditEntry): string {
+  const when = new Date(entry.createdAt * 1000).toISOString().replace("T", " ").slice(0, 19);
+  const status = entry.success ? "ok" : `failed: ${entry.error ?? "unknown error"}`;
+  const line = `${when}  ${entry.origin.padEnd(9)}  ${entry.sessionId}  ${entry.tool}  ${entry.durationMs}ms  ${status}`;
+  const affected = (entry.affected ?? []).map((target) => {
+    let change = "modified";
+    if (target.before === undefined) {
+      change = target.after === undefined ? "absent" : "created";
+    } else if (target.after === undefined) {
+      change = "removed";
+    } else if (target.before === target.after) {
+      change = "unchanged";
+    }
+    return `\n    ${target.target} (${change})`;
+  });
+  return line + affected.join("");
+}
+
+async function run(flags: Flags): Promise<void> {
+  const slugs = await loadAgents();
+
+  if (slugs.length === 0) {
+    warning("No agents found.");
+    return;
+  }
+
+  let agentSlug: string | undefined = undefined;
+
+  if (flags.agent !== undefined) {
+    if (!slugs.includes(flags.agent)) {
+      warning("Unknown agent", colors.keyword(flags.agent));
+      return;
+    }
+    agentSlug = flags.agent;
+  } else if (slugs.length === 1) {
+    // oxlint-disable-next-line typescript/no-non-null-assertion
+    agentSlug = slugs[0]!;
+  } else {
+    agentSlug = await select({
+      choices: slugs.map((sl) => ({ name: sl, value: sl })),
+      message: "Which agent?",
+    });
+  }
+
+  initDb(agentSlug);
+  const entries = queryAudit(agentSlug, {
+    failedOnly: flags.failed,
+    origin: flags.origin,
+    sessionId: flags.session,
+    since: parseWindow(flags.since),
+    tool: flags.tool,
+  });
+
+  if (flags.format === "jsonl") {
+    for (const entry of entries) {
+      process.stdout.write(`${JSON.stringify(entry)}\n`);
+    }
+    return;
+  }
+
+  if (entries.length === 0) {
+    process.stdout.write("No tool calls recorded.\n");
+    return;
+  }
+  process.stdout.write(`${entries.map((entry) => formatEntry(entry)).join("\n")}\n`);
+}
+
+export const auditCommand = buildCommand({
+  docs: {
+    brief: "Show or export an agent's audit log of tool calls",
+  },
+  func: run,
+  parameters: {
+    flags: {
+      agent: {
+        brief: "Agent slug whose audit log to read",
+        kind: "parsed",
+        optional: true,
+        parse: String,
+      },
+      failed: {
+        brief: "Only show failed tool calls",
+        default: false,
+        kind: "boolean",
+      },
+      format: {
+        brief: "Print a readable list, or one JSON object per line for export",
+        default: "text",
+        kind: "enum",
+        values: ["text", "jsonl"],
+      },
+      origin: {
+        brief: "Only show calls from turns with this origin",
+        kind: "enum",
+        optional: true,
+        values: ["user", "heartbeat", "cron", "summarizer"],
+      },
+      session: {
+        brief: "Only show calls from this session ID",
+        kind: "parsed",
+        optional: true,
+        parse: String,
+      },
+      since: {
+        brief: "Time window, such as 24h or 7d, or 'all'",
+        default: "7d",
+        kind: "parsed",
+        parse: (value: string): string => {
+          parseWindow(value);
+          return value;
+        },
+      },
+      tool: {
+        brief: "Only show calls to this tool",
+        kind: "parsed",
+        optional: true,
+        parse: String,
+      },
+    },
+  },
+});
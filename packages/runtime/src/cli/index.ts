@@ -1,12 +1,15 @@
 import { buildApplication, buildRouteMap } from "@stricli/core";
 
+import { auditCommand } from "#cli/audit-command.js";
 import { clearCommand } from "#cli/clear-command.js";
 import { codexCommand } from "#cli/codex-command.js";
 import { initCommand } from "#cli/init-command.js";
 import { migrateCommand } from "#cli/migrate-command.js";
 import { repairCommand } from "#cli/repair-command.js";
 import { runCommand } from "#cli/run-command.js";
+import { snapshotCommand } from "#cli/snapshot-command.js";
 import { tuiCommand } from "#cli/tui-command.js";
+import { usageCommand } from "#cli/usage-command.js";
 
 const routes = buildRouteMap({
   defaultCommand: "run",
@@ -14,13 +17,16 @@ const routes = buildRouteMap({
     brief: "awawa",
   },
   routes: {
+    audit: auditCommand,
     clear: clearCommand,
     codex: codexCommand,
     init: initCommand,
     migrate: migrateCommand,
     repair: repairCommand,
     run: runCommand,
+    snapshot: snapshotCommand,
     tui: tuiCommand,
+    usage: usageCommand,
   },
 });
 
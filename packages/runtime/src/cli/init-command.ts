@@ -283,6 +283,10 @@ function buildToolsConfig(preset: ToolPreset): Record<string, unknown> {
   for (const tool of Object.keys(getToolRegistry())) {
     if (tool === "exec") {
       obj[tool] = preset === "full" ? { enabled: true, timeout: 60_000 } : false;
+    } else if (tool === "run-code") {
+      obj[tool] = preset === "full" ? { enabled: true } : false;
+    } else if (tool === "exec-job" || tool.startsWith("git-")) {
+      obj[tool] = preset === "full";
     } else if (CORE_TOOLS.has(tool)) {
       obj[tool] = true;
     } else {
@@ -430,6 +434,7 @@ async function run(flags: Flags): Promise<void> {
         value: "anthropic",
       },
       { description: "ChatGPT Codex Subscription", name: "Codex", value: "openai-codex" },
+      { description: "Google Gemini API", name: "Gemini", value: "gemini" },
     ],
     message: "API Kind",
   });
@@ -482,10 +487,11 @@ async function run(flags: Flags): Promise<void> {
     }
   }
 
-  const channel = await select<"none" | "discord">({
+  const channel = await select<"none" | "discord" | "matrix">({
     choices: [
       { description: "Skip channel setup for now", name: "None", value: "none" },
       { description: "Configure a Discord bot for this agent", name: "Discord", value: "discord" },
+      { description: "Configure a Matrix account for this agent", name: "Matrix", value: "matrix" },
     ],
     message: "Channel:",
   });
@@ -504,6 +510,27 @@ async function run(flags: Flags): Promise<void> {
     discordConfig = { ownerId, token };
   }
 
+  let matrixConfig: { accessToken: string; homeserverUrl: string; ownerId: string } | undefined =
+    undefined;
+  if (channel === "matrix") {
+    const homeserverUrl = await input({
+      default: "https://matrix.org",
+      message: "Matrix homeserver URL:",
+      validate: (value) => URL.canParse(value) || "Must be a URL, e.g. https://matrix.org",
+    });
+    const accessToken = await password({
+      mask: true,
+      message: "Matrix access token:",
+      validate: (value) => value.length > 0 || "Access token is required",
+    });
+    const ownerId = await input({
+      message: "Matrix owner ID (your user ID):",
+      validate: (value) =>
+        /^@[^:]+:.+$/u.test(value) || "Must be a full Matrix user ID, e.g. @you:matrix.org",
+    });
+    matrixConfig = { accessToken, homeserverUrl, ownerId };
+  }
+
   const writeSpinner = ora("Writing agent files...").start();
 
   await mkdirPrivate(agentRoot);
@@ -556,6 +583,14 @@ async function run(flags: Flags): Promise<void> {
     );
   }
 
+  if (matrixConfig !== undefined) {
+    await mkdirPrivate(path.join(agentRoot, "config", "channels"));
+    await writePrivateFile(
+      path.join(agentRoot, "config", "channels", "matrix.toml"),
+      stringify(matrixConfig),
+    );
+  }
+
   writeSpinner.succeed(`Agent ${colors.keyword(slug)} created at ${colors.path(agentRoot)}`);
 }
 
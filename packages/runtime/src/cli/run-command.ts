@@ -1,18 +1,32 @@
+import { existsSync } from "node:fs";
 import { watch } from "node:fs/promises";
 import path from "node:path";
 
 import { buildCommand } from "@stricli/core";
 
 import { Agent } from "#agent/index.js";
+import { startApi } from "#channels/api.js";
 import { startDiscord } from "#channels/discord.js";
-import { loadAgents, loadConditions } from "#config/index.js";
+import { startMatrix } from "#channels/matrix.js";
+import { startPluginChannel } from "#channels/plugin.js";
+import {
+  hasChannelConfig,
+  loadAgents,
+  loadConditions,
+  loadPluginChannelConfig,
+} from "#config/index.js";
 import { runMigrations } from "#config/migrations/runner.js";
 import { initDb } from "#db/index.js";
 import { flushAllSessions, loadSessions } from "#db/sessions.js";
 import { Harness } from "#harness/index.js";
 import colors from "#output/colors.js";
 import { config, debug, info, setLogFile, warning } from "#output/log.js";
-import { destroyPlugins, initializePlugins } from "#plugin/loader.js";
+import {
+  destroyPlugins,
+  initializePlugins,
+  pluginChannels,
+  reloadPlugins,
+} from "#plugin/loader.js";
 import { root } from "#util/paths.js";
 import { onShutdown, registerSigint } from "#util/shutdown.js";
 
@@ -99,6 +113,90 @@ async function runWatcher(agentSlug: string, signal: AbortSignal): Promise<void>
   }
 }
 
+// How long plugin files have to stay unchanged before the plugins reload, so
+// that a build writing many files triggers a single reload.
+const PLUGIN_RELOAD_DELAY_MS = 500;
+
+// The plugin a file changed under plugins/ belongs to: its top directory,
+// which is the plugin's name in plugins.toml. Dependencies and dotfiles such
+// as .git don't count; reload by hand after installing.
+function pluginFromPath(filename: string): string | undefined {
+  const parts = filename.split(path.sep);
+  if (parts.length < 2 || parts.some((part) => part === "node_modules" || part.startsWith("."))) {
+    return undefined;
+  }
+  return parts[0];
+}
+
+async function watchDir(
+  dir: string,
+  signal: AbortSignal,
+  onChange: (filename: string) => void,
+): Promise<void> {
+  const watcher = watch(dir, { encoding: "utf8", recursive: true, signal });
+  for await (const event of watcher) {
+    if (event.filename !== null) {
+      onChange(event.filename);
+    }
+  }
+}
+
+// Respawns local plugins whose source changes, and reloads plugins.toml when
+// it changes, without restarting the runtime.
+async function runPluginWatcher(signal: AbortSignal): Promise<void> {
+  const pending = new Set<string>();
+  let timer: NodeJS.Timeout | undefined = undefined;
+
+  function schedule(pluginId: string | undefined): void {
+    if (pluginId !== undefined) {
+      pending.add(pluginId);
+    }
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      const ids = new Set(pending);
+      pending.clear();
+      // Fire and forget: errors are caught inside the async block.
+      // oxlint-disable-next-line typescript/no-floating-promises
+      (async (): Promise<void> => {
+        try {
+          await reloadPlugins(ids);
+        } catch (error: unknown) {
+          warning(
+            "Failed to reload plugins; the previous ones keep running:",
+            error instanceof Error ? error.message : String(error),
+          );
+        }
+      })();
+    }, PLUGIN_RELOAD_DELAY_MS);
+  }
+
+  signal.addEventListener("abort", () => {
+    clearTimeout(timer);
+  });
+
+  const pluginsDir = path.join(root(), "plugins");
+  const configDir = path.join(root(), "config");
+  await Promise.all([
+    existsSync(pluginsDir)
+      ? watchDir(pluginsDir, signal, (filename) => {
+          const pluginId = pluginFromPath(filename);
+          if (pluginId !== undefined) {
+            debug("Plugin source changed", colors.path(filename));
+            schedule(pluginId);
+          }
+        })
+      : undefined,
+    existsSync(configDir)
+      ? watchDir(configDir, signal, (filename) => {
+          if (filename === "plugins.toml") {
+            info("Config change", colors.path(filename));
+            schedule(undefined);
+          }
+        })
+      : undefined,
+  ]);
+}
+
 async function run(flags: Flags): Promise<void> {
   config.level = flags.logLevel;
   setLogFile(path.join(root(), "logs", "cireilclaw.log"));
@@ -123,6 +221,14 @@ async function run(flags: Flags): Promise<void> {
     destroyPlugins().catch(() => undefined);
   });
 
+  // oxlint-disable-next-line promise/prefer-await-to-then -- The watcher runs for the process lifetime.
+  runPluginWatcher(sc.signal).catch((error: unknown) => {
+    if (sc.signal.aborted && isAbortError(error)) {
+      return;
+    }
+    warning("Failed to watch plugin changes", error);
+  });
+
   const slugs = await loadAgents();
   const agents = new Map<string, Agent>();
 
@@ -150,8 +256,42 @@ async function run(flags: Flags): Promise<void> {
     harness.stopSchedulers();
   });
 
+  const channels = pluginChannels();
   for (const slug of agents.keys()) {
-    await startDiscord(harness, slug);
+    const hasDiscord = hasChannelConfig("discord", slug);
+    const hasMatrix = hasChannelConfig("matrix", slug);
+    const hasApi = hasChannelConfig("api", slug);
+    if (hasDiscord) {
+      await startDiscord(harness, slug);
+    }
+    if (hasMatrix) {
+      await startMatrix(harness, slug, sc.signal);
+    }
+    if (hasApi) {
+      await startApi(harness, slug, sc.signal);
+    }
+    let pluginChannelCount = 0;
+    for (const channel of channels) {
+      const channelConfig = await loadPluginChannelConfig(slug, channel.name);
+      if (channelConfig === undefined) {
+        continue;
+      }
+      // A broken plugin channel shouldn't keep the agent's other channels
+      // from starting.
+      try {
+        await startPluginChannel(harness, slug, channel, channelConfig);
+        pluginChannelCount++;
+      } catch (error) {
+        warning(
+          "Failed to start plugin channel",
+          colors.keyword(`${slug}:${channel.name}`),
+          error instanceof Error ? error.message : String(error),
+        );
+      }
+    }
+    if (!hasDiscord && !hasMatrix && !hasApi && pluginChannelCount === 0) {
+      warning("Agent", colors.keyword(slug), "has no chat channels configured");
+    }
   }
   await harness.startSchedulers();
 
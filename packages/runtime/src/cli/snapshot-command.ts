@@ -0,0 +1,179 @@
+import { confirm, select } from "@inquirer/prompts";
+import { buildCommand, buildRouteMap } from "@stricli/core";
+
+import { loadAgents, loadSnapshots } from "#config/index.js";
+import colors from "#output/colors.js";
+import { info, warning } from "#output/log.js";
+import {
+  diffSnapshot,
+  formatSnapshotChanges,
+  formatSnapshotList,
+  listSnapshots,
+  loadSnapshot,
+  restoreSnapshot,
+} from "#util/snapshots.js";
+
+interface AgentFlags {
+  agent?: string;
+}
+
+interface DiffFlags extends AgentFlags {
+  against?: string;
+}
+
+interface RestoreFlags extends AgentFlags {
+  path?: string;
+}
+
+async function pickAgent(flags: AgentFlags): Promise<string | undefined> {
+  const slugs = await loadAgents();
+
+  if (slugs.length === 0) {
+    warning("No agents found.");
+    return undefined;
+  }
+
+  if (flags.agent !== undefined) {
+    if (!slugs.includes(flags.agent)) {
+      warning("Unknown agent", colors.keyword(flags.agent));
+      return undefined;
+    }
+    return flags.agent;
+  } else if (slugs.length === 1) {
+    // oxlint-disable-next-line typescript/no-non-null-assertion
+    return slugs[0]!;
+  }
+  return await select({
+    choices: slugs.map((sl) => ({ name: sl, value: sl })),
+    message: "Which agent?",
+  });
+}
+
+async function runList(flags: AgentFlags): Promise<void> {
+  const agentSlug = await pickAgent(flags);
+  if (agentSlug === undefined) {
+    return;
+  }
+  const snapshots = await listSnapshots(agentSlug);
+  process.stdout.write(`${formatSnapshotList(snapshots)}\n`);
+}
+
+async function runDiff(flags: DiffFlags, id: string): Promise<void> {
+  const agentSlug = await pickAgent(flags);
+  if (agentSlug === undefined) {
+    return;
+  }
+  const cfg = await loadSnapshots(agentSlug);
+  const changes = await diffSnapshot(agentSlug, cfg, id, flags.against);
+  process.stdout.write(`${formatSnapshotChanges(changes)}\n`);
+}
+
+async function runRestore(flags: RestoreFlags, id: string): Promise<void> {
+  const agentSlug = await pickAgent(flags);
+  if (agentSlug === undefined) {
+    return;
+  }
+  const cfg = await loadSnapshots(agentSlug);
+  const target = await loadSnapshot(agentSlug, id);
+  const changes = await diffSnapshot(agentSlug, cfg, target.id);
+  if (changes.length === 0) {
+    info("The workspace already matches", colors.keyword(target.id));
+    return;
+  }
+
+  process.stdout.write(`${formatSnapshotChanges(changes)}\n`);
+  const confirmed = await confirm({
+    default: false,
+    message: `Undo these changes to ${flags.path ?? "the workspace"} by restoring ${target.id} (${target.label})?`,
+  });
+  if (!confirmed) {
+    return;
+  }
+
+  const result = await restoreSnapshot(agentSlug, cfg, target.id, flags.path);
+  info(
+    "Restored",
+    colors.keyword(result.id),
+    `(${result.restored.length} restored, ${result.removed.length} removed). Undo with`,
+    colors.keyword(`cireilclaw snapshot restore ${result.safetySnapshot}`),
+  );
+}
+
+const agentFlag = {
+  brief: "Agent slug whose snapshots to use",
+  kind: "parsed",
+  optional: true,
+  parse: String,
+} as const;
+
+const snapshotPositional = {
+  kind: "tuple",
+  parameters: [
+    {
+      brief: "snapshot ID, or a prefix only one snapshot has",
+      parse: String,
+      placeholder: "snapshot",
+    },
+  ],
+} as const;
+
+const listCommand = buildCommand({
+  docs: {
+    brief: "List an agent's workspace snapshots, newest first",
+  },
+  func: runList,
+  parameters: {
+    flags: {
+      agent: agentFlag,
+    },
+  },
+});
+
+const diffCommand = buildCommand({
+  docs: {
+    brief: "Show what changed in the workspace since a snapshot",
+  },
+  func: runDiff,
+  parameters: {
+    flags: {
+      against: {
+        brief: "Compare with this snapshot instead of the current files",
+        kind: "parsed",
+        optional: true,
+        parse: String,
+      },
+      agent: agentFlag,
+    },
+    positional: snapshotPositional,
+  },
+});
+
+const restoreCommand = buildCommand({
+  docs: {
+    brief: "Restore the workspace to a snapshot",
+  },
+  func: runRestore,
+  parameters: {
+    flags: {
+      agent: agentFlag,
+      path: {
+        brief: "Only restore this sandbox path, such as /workspace/src",
+        kind: "parsed",
+        optional: true,
+        parse: String,
+      },
+    },
+    positional: snapshotPositional,
+  },
+});
+
+export const snapshotCommand = buildRouteMap({
+  docs: {
+    brief: "List, diff and restore workspace snapshots",
+  },
+  routes: {
+    diff: diffCommand,
+    list: listCommand,
+    restore: restoreCommand,
+  },
+});
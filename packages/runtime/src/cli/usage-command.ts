@@ -0,0 +1,81 @@
+import { select } from "@inquirer/prompts";
+import { buildCommand } from "@stricli/core";
+
+import { loadAgents } from "#config/index.js";
+import { initDb } from "#db/index.js";
+import type { UsageGrouping } from "#db/usage.js";
+import { summarizeUsage } from "#db/usage.js";
+import colors from "#output/colors.js";
+import { warning } from "#output/log.js";
+import { formatUsageReport, parseWindow } from "#util/usage-report.js";
+
+interface Flags {
+  agent?: string;
+  by: UsageGrouping;
+  since: string;
+}
+
+async function run(flags: Flags): Promise<void> {
+  const slugs = await loadAgents();
+
+  if (slugs.length === 0) {
+    warning("No agents found.");
+    return;
+  }
+
+  let agentSlug: string | undefined = undefined;
+
+  if (flags.agent !== undefined) {
+    if (!slugs.includes(flags.agent)) {
+      warning("Unknown agent", colors.keyword(flags.agent));
+      return;
+    }
+    agentSlug = flags.agent;
+  } else if (slugs.length === 1) {
+    // oxlint-disable-next-line typescript/no-non-null-assertion
+    agentSlug = slugs[0]!;
+  } else {
+    agentSlug = await select({
+      choices: slugs.map((sl) => ({ name: sl, value: sl })),
+      message: "Which agent?",
+    });
+  }
+
+  const since = parseWindow(flags.since);
+  initDb(agentSlug);
+  const rows = summarizeUsage(agentSlug, { groupBy: flags.by, since });
+  const heading = `Usage for ${agentSlug} by ${flags.by} (${flags.since === "all" ? "all time" : `last ${flags.since}`})`;
+  process.stdout.write(`${formatUsageReport(rows, heading)}\n`);
+}
+
+export const usageCommand = buildCommand({
+  docs: {
+    brief: "Report token usage and spend for an agent",
+  },
+  func: run,
+  parameters: {
+    flags: {
+      agent: {
+        brief: "Agent slug to report on",
+        kind: "parsed",
+        optional: true,
+        parse: String,
+      },
+      by: {
+        brief: "How to group the report",
+        default: "model",
+        kind: "enum",
+        values: ["model", "provider", "session", "origin"],
+      },
+      since: {
+        brief: "Time window, such as 24h or 7d, or 'all'",
+        default: "30d",
+        kind: "parsed",
+        parse: (value: string): string => {
+          parseWindow(value);
+          return value;
+        },
+      },
+    },
+  },
+});
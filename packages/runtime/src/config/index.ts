@@ -12,14 +12,22 @@ import type { CronConfig } from "./cron.js";
 import { CronConfigSchema } from "./cron.js";
 import type { HeartbeatConfig } from "./heartbeat.js";
 import { HeartbeatConfigSchema } from "./heartbeat.js";
+import { ApiConfigSchema } from "./schemas/api.js";
+import type { ApiConfig } from "./schemas/api.js";
+import { BudgetsConfigSchema } from "./schemas/budgets.js";
+import type { BudgetsConfig } from "./schemas/budgets.js";
 import type { ConditionsConfig } from "./schemas/conditions.js";
 import { ConditionsConfigSchema } from "./schemas/conditions.js";
 import { DiscordConfigSchema } from "./schemas/discord.js";
 import type { DiscordConfig } from "./schemas/discord.js";
 import { ProvidersConfigSchema } from "./schemas/engine.js";
 import type { ProvidersConfig } from "./schemas/engine.js";
+import { MatrixConfigSchema } from "./schemas/matrix.js";
+import type { MatrixConfig } from "./schemas/matrix.js";
 import { SandboxConfigSchema, validateMountTargets } from "./schemas/sandbox.js";
 import type { SandboxConfig } from "./schemas/sandbox.js";
+import { SnapshotsConfigSchema } from "./schemas/snapshots.js";
+import type { SnapshotsConfig } from "./schemas/snapshots.js";
 import { SystemConfigSchema } from "./schemas/system.js";
 import { ToolsConfigSchema } from "./schemas/tools.js";
 import type { ToolsConfig } from "./schemas/tools.js";
@@ -80,7 +88,9 @@ async function loadEngine(agentSlug?: string): Promise<ProvidersConfig> {
 }
 
 interface ChannelConfigMap {
+  api: ApiConfig;
   discord: DiscordConfig;
+  matrix: MatrixConfig;
 
   [index: string]: unknown;
 }
@@ -95,10 +105,18 @@ async function loadChannel<Key extends ChannelType>(
 
   // oxlint-disable-next-line typescript/switch-exhaustiveness-check
   switch (channel) {
+    case "api":
+      schema = ApiConfigSchema;
+      break;
+
     case "discord":
       schema = DiscordConfigSchema;
       break;
 
+    case "matrix":
+      schema = MatrixConfigSchema;
+      break;
+
     default:
       throw new Error(`Channel ${channel} is unimplemented.`);
   }
@@ -117,6 +135,29 @@ async function loadChannel<Key extends ChannelType>(
   return vb.parse(schema, obj) as ChannelConfigMap[Key];
 }
 
+// Channels are opt-in per agent: only the ones with a config file get started.
+function hasChannelConfig(channel: ChannelType, agentSlug: string): boolean {
+  return existsSync(
+    path.join(root(), "agents", agentSlug, "config", "channels", `${channel}.toml`),
+  );
+}
+
+// A plugin channel's settings for the agent, or undefined when the agent
+// doesn't use it. Validating them is up to the plugin.
+async function loadPluginChannelConfig(
+  agentSlug: string,
+  channel: string,
+): Promise<Record<string, unknown> | undefined> {
+  const file = path.join(root(), "agents", agentSlug, "config", "channels", `${channel}.toml`);
+
+  if (!existsSync(file)) {
+    return undefined;
+  }
+
+  const data = await readFile(file, { encoding: "utf8" });
+  return parse(data);
+}
+
 async function loadHeartbeat(agentSlug: string): Promise<HeartbeatConfig> {
   const file = path.join(root(), "agents", agentSlug, "config", "heartbeat.toml");
 
@@ -143,6 +184,32 @@ async function loadCron(agentSlug: string): Promise<CronConfig> {
   return vb.parse(CronConfigSchema, obj);
 }
 
+async function loadBudgets(agentSlug: string): Promise<BudgetsConfig> {
+  const file = path.join(root(), "agents", agentSlug, "config", "budgets.toml");
+
+  if (!existsSync(file)) {
+    return vb.parse(BudgetsConfigSchema, {});
+  }
+
+  const data = await readFile(file, { encoding: "utf8" });
+  const obj = parse(data);
+
+  return vb.parse(BudgetsConfigSchema, obj);
+}
+
+async function loadSnapshots(agentSlug: string): Promise<SnapshotsConfig> {
+  const file = path.join(root(), "agents", agentSlug, "config", "snapshots.toml");
+
+  if (!existsSync(file)) {
+    return vb.parse(SnapshotsConfigSchema, {});
+  }
+
+  const data = await readFile(file, { encoding: "utf8" });
+  const obj = parse(data);
+
+  return vb.parse(SnapshotsConfigSchema, obj);
+}
+
 async function loadAgents(): Promise<string[]> {
   const agentsDir = path.join(root(), "agents");
 
@@ -246,15 +313,19 @@ async function loadAgentPluginConfig(
 }
 
 export {
+  hasChannelConfig,
   loadAgents,
+  loadBudgets,
   loadChannel,
   loadConditions,
   loadCron,
   loadEngine,
   loadGlobalPluginConfig,
   loadAgentPluginConfig,
+  loadPluginChannelConfig,
   loadHeartbeat,
   loadSandboxConfig,
+  loadSnapshots,
   loadSystem,
   loadTools,
 };
@@ -0,0 +1,27 @@
+import * as vb from "valibot";
+import { describe, expect, it } from "vitest";
+
+import { ApiConfigSchema } from "./api.js";
+
+const TOKEN = { name: "ci", token: "0123456789abcdef" };
+
+describe("ApiConfigSchema", () => {
+  it("listens on loopback unless told otherwise", () => {
+    const parsed = vb.parse(ApiConfigSchema, { port: 7420, tokens: [TOKEN] });
+    expect(parsed.host).toBe("127.0.0.1");
+    expect(parsed.maxBodyBytes).toBe(25 * 1024 * 1024);
+  });
+
+  it("requires at least one token", () => {
+    expect(() => vb.parse(ApiConfigSchema, { port: 7420, tokens: [] })).toThrow();
+  });
+
+  it("rejects short and duplicated tokens", () => {
+    expect(() =>
+      vb.parse(ApiConfigSchema, { port: 7420, tokens: [{ name: "ci", token: "short" }] }),
+    ).toThrow();
+    expect(() =>
+      vb.parse(ApiConfigSchema, { port: 7420, tokens: [TOKEN, { ...TOKEN, name: "other" }] }),
+    ).toThrow();
+  });
+});
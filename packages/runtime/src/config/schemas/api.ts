@@ -0,0 +1,55 @@
+import * as vb from "valibot";
+
+import { nonEmptyString } from "#config/schemas/shared.js";
+
+const ApiTokenSchema = vb.strictObject({
+  name: vb.pipe(
+    nonEmptyString,
+    vb.description("Label for the client; the agent sees it as the message author"),
+  ),
+  token: vb.pipe(
+    nonEmptyString,
+    vb.minLength(16, "Tokens must be at least 16 characters"),
+    vb.description("Secret the client sends as `Authorization: Bearer <token>`"),
+  ),
+});
+
+const ApiConfigSchema = vb.strictObject({
+  host: vb.pipe(
+    vb.exactOptional(nonEmptyString, "127.0.0.1"),
+    vb.description(
+      "Interface to listen on. Traffic is plain HTTP, so keep this on loopback unless a proxy adds TLS",
+    ),
+  ),
+  maxBodyBytes: vb.optional(
+    vb.pipe(
+      vb.number(),
+      vb.integer(),
+      vb.check((it) => it > 0, "Must be a positive integer greater than zero"),
+      vb.description("Largest request body or WebSocket frame accepted (in bytes)"),
+    ),
+    25 * 1024 * 1024,
+  ),
+  port: vb.pipe(
+    vb.number(),
+    vb.integer(),
+    vb.minValue(0),
+    vb.maxValue(65_535),
+    vb.description("Port to listen on; every agent with an API channel needs its own"),
+  ),
+  tokens: vb.pipe(
+    vb.array(ApiTokenSchema),
+    vb.minLength(1, "At least one token is required"),
+    vb.check(
+      (tokens) => new Set(tokens.map((it) => it.token)).size === tokens.length,
+      "Tokens must be unique",
+    ),
+    vb.description("Bearer tokens allowed to use this agent's API"),
+  ),
+});
+
+type ApiConfig = vb.InferOutput<typeof ApiConfigSchema>;
+type ApiToken = vb.InferOutput<typeof ApiTokenSchema>;
+
+export { ApiConfigSchema };
+export type { ApiConfig, ApiToken };
@@ -0,0 +1,31 @@
+import * as vb from "valibot";
+
+import { nonEmptyString } from "#config/schemas/shared.js";
+
+const positiveInteger = vb.pipe(vb.number(), vb.integer(), vb.minValue(1));
+
+// Rolling-window caps. Tokens count prompt and completion tokens alike.
+const BudgetLimitsSchema = vb.strictObject({
+  requestsPerDay: vb.exactOptional(positiveInteger),
+  requestsPerHour: vb.exactOptional(positiveInteger),
+  tokensPerDay: vb.exactOptional(positiveInteger),
+  tokensPerHour: vb.exactOptional(positiveInteger),
+});
+
+const BudgetsConfigSchema = vb.strictObject({
+  ...BudgetLimitsSchema.entries,
+  generationsPerTurn: vb.pipe(
+    vb.exactOptional(positiveInteger),
+    vb.description("Most provider calls a single turn may make before it is stopped"),
+  ),
+  providers: vb.pipe(
+    vb.exactOptional(vb.record(nonEmptyString, BudgetLimitsSchema), {}),
+    vb.description("Caps on a single provider, keyed by its name in engine.toml"),
+  ),
+});
+
+type BudgetLimits = vb.InferOutput<typeof BudgetLimitsSchema>;
+type BudgetsConfig = vb.InferOutput<typeof BudgetsConfigSchema>;
+
+export { BudgetsConfigSchema };
+export type { BudgetLimits, BudgetsConfig };
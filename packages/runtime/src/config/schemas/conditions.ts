@@ -15,12 +15,17 @@ const ConditionStringSchema = vb.message(
         /^discord:guild:\d+$/u.test(base) ||
         /^discord:channel:\d+$/u.test(base) ||
         /^discord:forum:\d+$/u.test(base) ||
+        base === "matrix:dm" ||
+        /^matrix:room:![^:]+:.+$/u.test(base) ||
+        base === "api" ||
+        /^api:session:[\w.-]{1,64}$/u.test(base) ||
+        /^plugin:[a-z][a-z0-9-]*(?::dm)?$/u.test(base) ||
         base === "tui" ||
         base === "internal"
       );
     }),
   ),
-  "Invalid condition format. Supported: [!]discord:nsfw, [!]discord:dm[:id], [!]discord:guild:id, [!]discord:channel:id, [!]discord:forum:id, [!]tui, [!]internal",
+  "Invalid condition format. Supported: [!]discord:nsfw, [!]discord:dm[:id], [!]discord:guild:id, [!]discord:channel:id, [!]discord:forum:id, [!]matrix:dm, [!]matrix:room:!id:server, [!]api, [!]api:session:name, [!]plugin:channel[:dm], [!]tui, [!]internal",
 );
 
 const WhenSchema = vb.union([
@@ -32,7 +37,8 @@ const LogicModeSchema = vb.exactOptional(vb.picklist(["and", "or"]), "or");
 
 const BlockActionSchema = vb.literal("load");
 
-const PathActionSchema = vb.picklist(["allow", "deny"]);
+// "ask" pauses a write (or an exec) until the owner approves or denies it.
+const PathActionSchema = vb.picklist(["allow", "deny", "ask"]);
 
 const BlockRuleSchema = vb.strictObject({
   action: BlockActionSchema,
@@ -47,7 +53,15 @@ const PathRuleSchema = vb.strictObject({
 });
 
 const ConditionsConfigSchema = vb.strictObject({
+  approvalTimeoutSeconds: vb.pipe(
+    vb.exactOptional(vb.pipe(vb.number(), vb.integer(), vb.minValue(1))),
+    vb.description(
+      'How long an "ask" rule waits for the owner before treating the request as denied. Default: 300',
+    ),
+  ),
   blocks: vb.exactOptional(vb.record(nonEmptyString, BlockRuleSchema), {}),
+  // Keyed by the command name given to `exec`, e.g. "git" or "rm".
+  exec: vb.exactOptional(vb.record(nonEmptyString, PathRuleSchema)),
   memories: vb.exactOptional(vb.record(nonEmptyString, PathRuleSchema), {}),
   workspace: vb.exactOptional(vb.record(nonEmptyString, PathRuleSchema), {}),
 });
@@ -55,6 +69,7 @@ const ConditionsConfigSchema = vb.strictObject({
 type ConditionsConfig = vb.InferOutput<typeof ConditionsConfigSchema>;
 type BlockRule = vb.InferOutput<typeof BlockRuleSchema>;
 type PathRule = vb.InferOutput<typeof PathRuleSchema>;
+type PathAction = vb.InferOutput<typeof PathActionSchema>;
 type Condition = vb.InferOutput<typeof ConditionStringSchema>;
 
 export {
@@ -65,4 +80,4 @@ export {
   WhenSchema,
   LogicModeSchema,
 };
-export type { ConditionsConfig, BlockRule, PathRule, Condition };
+export type { ConditionsConfig, BlockRule, PathRule, PathAction, Condition };
@@ -8,18 +8,45 @@ const DefaultToolFailThreshold = 3;
 const DefaultGenerationRetries = 2;
 const DefaultMaxTurns = 30;
 
+// One step of a fallback chain. Without a model, the provider's defaultModel
+// is used.
+const FallbackSchema = vb.strictObject({
+  model: vb.exactOptional(nonEmptyString),
+  provider: nonEmptyString,
+});
+
+const FallbacksSchema = vb.pipe(
+  vb.exactOptional(vb.array(FallbackSchema)),
+  vb.description(
+    "Providers to try, in order, when a generation fails with a rate limit, server, auth or context-length error",
+  ),
+);
+
 const ModelConfigSchema = vb.record(
   nonEmptyString,
   vb.strictObject({
     contextBudget: vb.optional(vb.pipe(vb.number(), vb.minValue(0.1), vb.maxValue(1))),
     contextHardBudget: vb.optional(vb.pipe(vb.number(), vb.minValue(0.1), vb.maxValue(1))),
     contextWindow: vb.optional(vb.number()),
+    fallbacks: FallbacksSchema,
     maxImagesPerRequest: vb.pipe(
       vb.exactOptional(vb.pipe(vb.number(), vb.integer(), vb.minValue(1))),
       vb.description(
         "Maximum number of images allowed across the entire request. Older images are trimmed first to stay within this limit.",
       ),
     ),
+    price: vb.pipe(
+      vb.exactOptional(
+        vb.strictObject({
+          cachedInput: vb.exactOptional(vb.pipe(vb.number(), vb.minValue(0))),
+          input: vb.pipe(vb.number(), vb.minValue(0)),
+          output: vb.pipe(vb.number(), vb.minValue(0)),
+        }),
+      ),
+      vb.description(
+        "Price in USD per million tokens, used to cost the usage ledger. cachedInput defaults to input.",
+      ),
+    ),
     reasoning: vb.exactOptional(
       vb.union([vb.boolean(), vb.picklist(["xhigh", "high", "medium", "low", "minimal", "none"])]),
       true,
@@ -67,6 +94,7 @@ const ProviderConfigSchema = vb.strictObject({
     vb.pipe(nonEmptyString, vb.minLength(1)),
     vb.description("The default model to use from this provider"),
   ),
+  fallbacks: FallbacksSchema,
   isGlobalDefault: vb.pipe(
     vb.exactOptional(vb.boolean(), false),
     vb.description(
@@ -105,8 +133,31 @@ const ProviderConfigSchema = vb.strictObject({
   ),
 });
 
-const ProvidersConfigSchema = vb.record(nonEmptyString, ProviderConfigSchema);
+const ProvidersConfigSchema = vb.pipe(
+  vb.record(nonEmptyString, ProviderConfigSchema),
+  // A fallback to a provider that doesn't exist would never be taken, so a
+  // typo is rejected here, naming it, rather than found during an outage.
+  vb.rawCheck(({ addIssue, dataset }) => {
+    if (!dataset.typed) {
+      return;
+    }
+    for (const [name, provider] of Object.entries(dataset.value)) {
+      const fallbacks = [
+        ...(provider.fallbacks ?? []),
+        ...Object.values(provider.models ?? {}).flatMap((model) => model.fallbacks ?? []),
+      ];
+      for (const fallback of fallbacks) {
+        if (!Object.hasOwn(dataset.value, fallback.provider)) {
+          addIssue({
+            message: `Provider '${name}' falls back to '${fallback.provider}', which isn't defined in engine.toml`,
+          });
+        }
+      }
+    }
+  }),
+);
 
+type Fallback = vb.InferOutput<typeof FallbackSchema>;
 type ProviderConfig = vb.InferOutput<typeof ProviderConfigSchema>;
 type ProvidersConfig = vb.InferOutput<typeof ProvidersConfigSchema>;
 
@@ -119,4 +170,4 @@ export {
   DefaultGenerationRetries,
   DefaultToolFailThreshold,
 };
-export type { ProvidersConfig, ProviderConfig, ModelConfig };
+export type { Fallback, ProvidersConfig, ProviderConfig, ModelConfig };
@@ -0,0 +1,50 @@
+import * as vb from "valibot";
+import { describe, expect, it } from "vitest";
+
+import { MatrixConfigSchema } from "./matrix.js";
+
+const REQUIRED_CONFIG = {
+  accessToken: "syt_token",
+  homeserverUrl: "https://matrix.example.org",
+  ownerId: "@owner:example.org",
+};
+
+describe("MatrixConfigSchema", () => {
+  it("applies the same access defaults as Discord", () => {
+    const parsed = vb.parse(MatrixConfigSchema, REQUIRED_CONFIG);
+    expect(parsed.access).toEqual({ mode: "disabled", users: [] });
+    expect(parsed.directMessages).toEqual({ mode: "owner", users: [] });
+    expect(parsed.autoJoin).toBe(true);
+    expect(parsed.timeout).toBe(60_000);
+    expect(parsed.syncTimeout).toBe(30_000);
+  });
+
+  it("rejects an owner ID that is not a Matrix user ID", () => {
+    expect(() => vb.parse(MatrixConfigSchema, { ...REQUIRED_CONFIG, ownerId: "1234" })).toThrow();
+  });
+
+  it("rejects a homeserver URL that is not a URL", () => {
+    expect(() =>
+      vb.parse(MatrixConfigSchema, { ...REQUIRED_CONFIG, homeserverUrl: "matrix.example.org" }),
+    ).toThrow();
+  });
+
+  it("parses allowlisted Matrix user IDs", () => {
+    const parsed = vb.parse(MatrixConfigSchema, {
+      ...REQUIRED_CONFIG,
+      access: { mode: "allowlist", users: ["@friend:example.org"] },
+      directMessages: { mode: "allowlist", users: ["@friend:example.org"] },
+    });
+    expect(parsed.access.users).toEqual(["@friend:example.org"]);
+    expect(parsed.directMessages.users).toEqual(["@friend:example.org"]);
+  });
+
+  it("rejects Discord-style IDs in the allowlist", () => {
+    expect(() =>
+      vb.parse(MatrixConfigSchema, {
+        ...REQUIRED_CONFIG,
+        access: { mode: "allowlist", users: ["123456789"] },
+      }),
+    ).toThrow();
+  });
+});
@@ -1,6 +1,90 @@
 import * as vb from "valibot";
 
-// Stub: Matrix channel support is not yet implemented.
-const MatrixSchema = vb.strictObject({});
+import { nonEmptyString } from "#config/schemas/shared.js";
 
-export { MatrixSchema };
+const MatrixUserIdSchema = vb.pipe(
+  nonEmptyString,
+  vb.regex(/^@[^:]+:.+$/u, "Must be a fully-qualified Matrix user ID, e.g. @alice:example.org"),
+);
+
+const DirectMessagesModeSchema = vb.pipe(
+  vb.exactOptional(vb.picklist(["owner", "public", "allowlist", "denylist"]), "owner"),
+  vb.description("Who's allowed to use direct messages with this agent"),
+);
+
+const DirectMessagesSchema = vb.exactOptional(
+  vb.strictObject({
+    mode: DirectMessagesModeSchema,
+    users: vb.exactOptional(vb.array(MatrixUserIdSchema), []),
+  }),
+  {
+    mode: "owner",
+  },
+);
+
+const AccessModeSchema = vb.pipe(
+  vb.exactOptional(vb.picklist(["disabled", "allowlist", "denylist"]), "disabled"),
+  vb.description(
+    "What kind of access restriction to apply; 'disabled' means there's no restriction",
+  ),
+);
+
+const AccessSchema = vb.exactOptional(
+  vb.strictObject({
+    mode: AccessModeSchema,
+    users: vb.pipe(
+      vb.exactOptional(vb.array(MatrixUserIdSchema), []),
+      vb.description("An array of Matrix user IDs"),
+    ),
+  }),
+  {
+    mode: "disabled",
+  },
+);
+
+const MatrixConfigSchema = vb.strictObject({
+  access: vb.pipe(AccessSchema, vb.description("Optional restrictions on access to the agent")),
+  accessToken: vb.pipe(
+    nonEmptyString,
+    vb.description("Access token of the Matrix account the agent logs in as"),
+  ),
+  autoJoin: vb.pipe(
+    vb.exactOptional(vb.boolean(), true),
+    vb.description("Accept room invites from users who pass the access rules"),
+  ),
+  directMessages: vb.pipe(
+    DirectMessagesSchema,
+    vb.description("How to restrict direct message access to the agent"),
+  ),
+  homeserverUrl: vb.pipe(
+    nonEmptyString,
+    vb.url(),
+    vb.description("Base URL of the homeserver's client-server API, e.g. https://matrix.org"),
+  ),
+  ownerId: vb.pipe(MatrixUserIdSchema, vb.description("The Matrix user ID of the agent's owner")),
+  syncTimeout: vb.optional(
+    vb.pipe(
+      vb.number(),
+      vb.integer(),
+      vb.minValue(0),
+      vb.description("How long a /sync long-poll waits for new events (in milliseconds)"),
+    ),
+    30_000,
+  ),
+  timeout: vb.optional(
+    vb.pipe(
+      vb.number(),
+      vb.integer(),
+      vb.check((it) => it > 0, "Must be a positive integer greater than zero"),
+      vb.description("Timeout for Matrix REST requests (in milliseconds)"),
+    ),
+    60_000,
+  ),
+});
+
+type MatrixConfig = vb.InferOutput<typeof MatrixConfigSchema>;
+type MatrixDirectMessages = vb.InferOutput<typeof DirectMessagesSchema>;
+type MatrixAccessConfig = vb.InferOutput<typeof AccessSchema>;
+
+export { MatrixConfigSchema, MatrixUserIdSchema };
+export type { MatrixConfig, MatrixDirectMessages, MatrixAccessConfig };
@@ -1,11 +1,33 @@
 import * as vb from "valibot";
 
+// true grants the capability, "ask" asks the owner once per turn before the
+// plugin uses it. Leaving it out denies it.
+const GrantSchema = vb.exactOptional(vb.union([vb.boolean(), vb.literal("ask")]));
+
+const PluginGrantSchema = vb.strictObject({
+  fsRead: vb.pipe(GrantSchema, vb.description("ctx.fs reads and ctx.paths")),
+  fsWrite: vb.pipe(GrantSchema, vb.description("ctx.fs.writeTextFile")),
+  hostKeys: vb.pipe(GrantSchema, vb.description("Loading keys from host paths")),
+  net: vb.pipe(GrantSchema, vb.description("ctx.net.fetch to the hosts the plugin declares")),
+  send: vb.pipe(GrantSchema, vb.description("ctx.reply, channel lookups and addToolMessage")),
+});
+
 const PluginEntrySchema = vb.pipe(
   vb.strictObject({
     allowOverride: vb.pipe(
       vb.exactOptional(vb.boolean(), false),
       vb.description("Allow this plugin to override builtin tools"),
     ),
+    grants: vb.pipe(
+      vb.exactOptional(vb.record(vb.string(), PluginGrantSchema), {}),
+      vb.description("Capabilities granted to the plugin, by agent slug"),
+    ),
+    isolation: vb.pipe(
+      vb.exactOptional(vb.picklist(["worker", "process"]), "worker"),
+      vb.description(
+        'How the plugin runs: "worker" in a worker thread of the runtime, "process" in its own Node process inside bwrap',
+      ),
+    ),
     name: vb.pipe(
       vb.exactOptional(vb.pipe(vb.string(), vb.nonEmpty())),
       vb.description("Directory name under ~/.cireilclaw/plugins/"),
@@ -34,6 +56,7 @@ const PluginEntrySchema = vb.pipe(
 );
 
 type PluginEntry = vb.InferOutput<typeof PluginEntrySchema>;
+type PluginGrant = vb.InferOutput<typeof PluginGrantSchema>;
 
 const PluginsConfigSchema = vb.strictObject({
   plugins: vb.pipe(
@@ -45,4 +68,4 @@ const PluginsConfigSchema = vb.strictObject({
 type PluginsConfig = vb.InferOutput<typeof PluginsConfigSchema>;
 
 export { PluginsConfigSchema };
-export type { PluginsConfig, PluginEntry };
+export type { PluginsConfig, PluginEntry, PluginGrant };
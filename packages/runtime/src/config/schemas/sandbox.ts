@@ -35,6 +35,63 @@ const IncusConfigSchema = vb.strictObject({
   project: vb.optional(vb.pipe(vb.string(), vb.minLength(1))),
 });
 
+// A hostname or IP address, or `*.` followed by a domain to allow every
+// subdomain of it (but not the domain itself).
+const EGRESS_HOST_PATTERN =
+  /^(?:\*\.)?[a-z0-9](?:[a-z0-9-]*[a-z0-9])?(?:\.[a-z0-9](?:[a-z0-9-]*[a-z0-9])?)*$/iu;
+
+const EgressRuleSchema = vb.strictObject({
+  host: vb.pipe(
+    vb.string(),
+    vb.regex(EGRESS_HOST_PATTERN, "host must be a hostname, optionally starting with *."),
+    vb.toLowerCase(),
+  ),
+  ports: vb.exactOptional(
+    vb.pipe(
+      vb.array(vb.pipe(vb.number(), vb.integer(), vb.minValue(1), vb.maxValue(65_535))),
+      vb.minLength(1),
+    ),
+    [80, 443],
+  ),
+});
+
+const NetworkConfigSchema = vb.strictObject({
+  allow: vb.exactOptional(vb.array(EgressRuleSchema), []),
+  mode: vb.picklist(["none", "host", "allowlist"]),
+});
+
+const ByteCountSchema = vb.pipe(vb.number(), vb.integer(), vb.minValue(1));
+
+const LimitsConfigSchema = vb.strictObject({
+  cpus: vb.exactOptional(
+    vb.pipe(
+      vb.number(),
+      vb.gtValue(0),
+      vb.description("CPU time quota in cores, e.g. 1.5 for one and a half cores"),
+    ),
+  ),
+  diskQuotaBytes: vb.exactOptional(
+    vb.pipe(
+      ByteCountSchema,
+      vb.description("Most the agent's /workspace may hold, in bytes, checked best-effort"),
+    ),
+  ),
+  fileSizeBytes: vb.exactOptional(
+    vb.pipe(ByteCountSchema, vb.description("Largest file a command may write, in bytes")),
+  ),
+  memoryBytes: vb.exactOptional(
+    vb.pipe(ByteCountSchema, vb.description("Memory ceiling for a command, in bytes")),
+  ),
+  pids: vb.exactOptional(
+    vb.pipe(
+      vb.number(),
+      vb.integer(),
+      vb.minValue(1),
+      vb.description("Most processes and threads a command may run at once"),
+    ),
+  ),
+});
+
 type Mount = vb.InferOutput<typeof MountSchema>;
 
 function validateMountTargets(mounts: readonly Mount[], agentSlug: string): void {
@@ -70,17 +127,24 @@ const SandboxConfigSchema = vb.object({
   bwrap: vb.optional(BwrapConfigSchema),
   devices: vb.optional(DevicesConfigSchema),
   incus: vb.optional(IncusConfigSchema),
+  limits: vb.optional(LimitsConfigSchema),
   mounts: vb.array(MountSchema),
+  network: vb.optional(NetworkConfigSchema),
 });
 
 type SandboxConfig = vb.InferOutput<typeof SandboxConfigSchema>;
 type IncusConfig = vb.InferOutput<typeof IncusConfigSchema>;
+type LimitsConfig = vb.InferOutput<typeof LimitsConfigSchema>;
+type NetworkConfig = vb.InferOutput<typeof NetworkConfigSchema>;
+type EgressRule = vb.InferOutput<typeof EgressRuleSchema>;
 
 export {
   BwrapConfigSchema,
   IncusConfigSchema,
+  LimitsConfigSchema,
   MountSchema,
+  NetworkConfigSchema,
   SandboxConfigSchema,
   validateMountTargets,
 };
-export type { IncusConfig, SandboxConfig, Mount };
+export type { EgressRule, IncusConfig, LimitsConfig, NetworkConfig, SandboxConfig, Mount };
@@ -0,0 +1,44 @@
+import * as vb from "valibot";
+
+const positiveInteger = vb.pipe(vb.number(), vb.integer(), vb.minValue(1));
+
+// Sandbox paths under one of the snapshotted roots, e.g. /workspace/node_modules.
+const ExcludePathSchema = vb.pipe(
+  vb.string(),
+  vb.regex(
+    /^\/(?:workspace|memories|tasks)(?:\/[^/]+)+$/u,
+    "Must be a path below /workspace, /memories or /tasks",
+  ),
+);
+
+const SnapshotsConfigSchema = vb.strictObject({
+  enabled: vb.pipe(
+    vb.exactOptional(vb.boolean(), true),
+    vb.description("Whether to snapshot /workspace, /memories and /tasks before every turn"),
+  ),
+  exclude: vb.pipe(
+    vb.exactOptional(vb.array(ExcludePathSchema), ["/workspace/.exec-output"]),
+    vb.description(
+      "Sandbox paths left out of snapshots and left alone by restores. Default: /workspace/.exec-output",
+    ),
+  ),
+  keep: vb.pipe(
+    vb.exactOptional(positiveInteger, 50),
+    vb.description("How many snapshots to keep; older ones are deleted. Default: 50"),
+  ),
+  maxAgeDays: vb.pipe(
+    vb.exactOptional(positiveInteger),
+    vb.description("Delete snapshots older than this many days, even within `keep`"),
+  ),
+  maxFileBytes: vb.pipe(
+    vb.exactOptional(positiveInteger, 64 * 1024 * 1024),
+    vb.description(
+      "Files larger than this are not snapshotted and are left alone by restores. Default: 64 MiB",
+    ),
+  ),
+});
+
+type SnapshotsConfig = vb.InferOutput<typeof SnapshotsConfigSchema>;
+
+export { SnapshotsConfigSchema };
+export type { SnapshotsConfig };
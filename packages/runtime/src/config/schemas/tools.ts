@@ -5,6 +5,7 @@ import { nonEmptyString } from "#config/schemas/shared.js";
 const DefaultExecTimeout = 60_000;
 const DefaultExecInlineThresholdBytes = 16_384;
 const DefaultExecPreviewLines = 20;
+const DefaultExecOutputDir = "/workspace/.exec-output";
 
 const ExecToolConfigSchema = vb.strictObject({
   enabled: vb.pipe(
@@ -33,7 +34,7 @@ const ExecToolConfigSchema = vb.strictObject({
     ),
   ),
   outputDir: vb.pipe(
-    vb.exactOptional(nonEmptyString, "/workspace/.exec-output"),
+    vb.exactOptional(nonEmptyString, DefaultExecOutputDir),
     vb.description(
       "Sandbox-relative directory where captured stdout/stderr files are written. " +
         "Default: /workspace/.exec-output",
@@ -54,16 +55,53 @@ const ExecToolConfigSchema = vb.strictObject({
 });
 type ExecToolConfig = vb.InferOutput<typeof ExecToolConfigSchema>;
 
+const DefaultRunCodeIdleTimeout = 15 * 60_000;
+
+const RunCodeToolConfigSchema = vb.strictObject({
+  enabled: vb.pipe(
+    vb.exactOptional(vb.boolean(), false),
+    vb.description("Whether the run-code tool is enabled"),
+  ),
+  hostEnvPassthrough: vb.pipe(
+    vb.exactOptional(vb.pipe(vb.array(nonEmptyString)), []),
+    vb.description("Which host environment variables to passthrough to the kernels"),
+  ),
+  idleTimeout: vb.pipe(
+    vb.exactOptional(
+      vb.pipe(vb.number(), vb.integer(), vb.minValue(1000)),
+      DefaultRunCodeIdleTimeout,
+    ),
+    vb.description(
+      "How long a kernel may sit unused, in ms, before it is shut down and its state lost. " +
+        "Default: 900000 (15 minutes).",
+    ),
+  ),
+  javascript: vb.pipe(
+    vb.exactOptional(nonEmptyString, "node"),
+    vb.description("Binary that runs JavaScript kernels. Default: node"),
+  ),
+  python: vb.pipe(
+    vb.exactOptional(nonEmptyString, "python3"),
+    vb.description("Binary that runs Python kernels. Default: python3"),
+  ),
+  timeout: vb.pipe(
+    vb.exactOptional(vb.pipe(vb.number(), vb.integer(), vb.minValue(1000)), DefaultExecTimeout),
+    vb.description("How long one cell may run, in ms, before its kernel is killed. Default: 60000"),
+  ),
+});
+type RunCodeToolConfig = vb.InferOutput<typeof RunCodeToolConfigSchema>;
+
 const ToolConfigSchema = vb.pipe(vb.boolean(), vb.description("Whether the tool is enabled"));
 
 const ToolsConfigSchema = vb.objectWithRest(
   {
     exec: vb.union([ExecToolConfigSchema, vb.literal(false)]),
+    "run-code": vb.exactOptional(vb.union([RunCodeToolConfigSchema, vb.literal(false)]), false),
   },
   ToolConfigSchema,
 );
 
 type ToolsConfig = vb.InferOutput<typeof ToolsConfigSchema>;
 
-export { ToolsConfigSchema };
-export type { ToolsConfig, ExecToolConfig };
+export { DefaultExecOutputDir, ToolsConfigSchema };
+export type { ToolsConfig, ExecToolConfig, RunCodeToolConfig };
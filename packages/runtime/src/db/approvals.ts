@@ -0,0 +1,26 @@
+import { getDb } from "./index.js";
+import { approvals } from "./schema.js";
+
+// "plugin" subjects are `<plugin>: <capability>[ <detail>]`.
+type ApprovalKind = "write" | "exec" | "plugin";
+type ApprovalDecision = "approved" | "denied" | "timeout" | "unavailable";
+
+interface ApprovalRecord {
+  id: string;
+  sessionId: string;
+  kind: ApprovalKind;
+  subject: string;
+  decision: ApprovalDecision;
+  decidedBy?: string;
+  // Unix seconds, like the usage ledger.
+  requestedAt: number;
+  decidedAt: number;
+}
+
+function recordApproval(agentSlug: string, record: ApprovalRecord): void {
+  const db = getDb(agentSlug);
+  db.insert(approvals).values(record).run();
+}
+
+export { recordApproval };
+export type { ApprovalDecision, ApprovalKind, ApprovalRecord };
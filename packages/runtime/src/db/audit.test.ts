@@ -0,0 +1,92 @@
+import { randomUUID } from "node:crypto";
+import { mkdirSync, mkdtempSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+
+import { sql } from "drizzle-orm";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { queryAudit, recordAudit } from "#db/audit.js";
+import { getDb, initDb } from "#db/index.js";
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+function initTestDb(): string {
+  const home = mkdtempSync(path.join(tmpdir(), "cireilclaw-audit-test-"));
+  vi.stubEnv("HOME", home);
+
+  const slug = `agent-${randomUUID()}`;
+  mkdirSync(path.join(home, ".cireilclaw", "agents", slug), { recursive: true });
+  initDb(slug);
+  return slug;
+}
+
+// Drizzle wraps the SQLite error; the trigger's message is on the cause.
+function sqliteError(query: () => unknown): string | undefined {
+  try {
+    query();
+  } catch (error) {
+    return error instanceof Error && error.cause instanceof Error
+      ? error.cause.message
+      : String(error);
+  }
+  return undefined;
+}
+
+describe("audit log", () => {
+  it("returns recorded calls oldest first and filters them", () => {
+    const slug = initTestDb();
+    recordAudit(slug, {
+      affected: [{ after: "abc", target: "/workspace/a.txt" }],
+      durationMs: 12.4,
+      input: { content: "hi", path: "/workspace/a.txt" },
+      origin: "user",
+      sessionId: "tui",
+      success: true,
+      tool: "write",
+    });
+    recordAudit(slug, {
+      durationMs: 3,
+      error: "Command 'rm' is not allowed in the current context.",
+      input: { command: "rm" },
+      origin: "cron",
+      sessionId: "internal:job",
+      success: false,
+      tool: "exec",
+    });
+
+    const all = queryAudit(slug);
+    expect(all.map((entry) => entry.tool)).toEqual(["write", "exec"]);
+    expect(all[0]).toMatchObject({
+      affected: [{ after: "abc", target: "/workspace/a.txt" }],
+      durationMs: 12,
+      input: { content: "hi", path: "/workspace/a.txt" },
+      success: true,
+    });
+
+    expect(queryAudit(slug, { failedOnly: true }).map((entry) => entry.tool)).toEqual(["exec"]);
+    expect(queryAudit(slug, { origin: "user" }).map((entry) => entry.tool)).toEqual(["write"]);
+    expect(queryAudit(slug, { sessionId: "internal:job", tool: "write" })).toEqual([]);
+  });
+
+  it("refuses to change or remove entries", () => {
+    const slug = initTestDb();
+    recordAudit(slug, {
+      durationMs: 1,
+      input: {},
+      origin: "user",
+      sessionId: "tui",
+      success: true,
+      tool: "read",
+    });
+    const db = getDb(slug);
+
+    expect(sqliteError(() => db.run(sql`update audit_log set tool = 'write'`))).toBe(
+      "audit_log is append-only",
+    );
+    expect(sqliteError(() => db.run(sql`delete from audit_log`))).toBe("audit_log is append-only");
+    expect(queryAudit(slug)).toHaveLength(1);
+  });
+});
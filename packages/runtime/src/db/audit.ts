@@ -0,0 +1,100 @@
+import { and, asc, eq, gte, lte } from "drizzle-orm";
+import * as vb from "valibot";
+
+import type { TurnOrigin } from "#db/usage.js";
+
+import { getDb } from "./index.js";
+import { auditLog } from "./schema.js";
+
+// A file (or `cron:<id>`) a mutating tool touched, with sha256 hashes of its
+// content before and after the call. A missing hash means it didn't exist.
+const AuditTargetsSchema = vb.array(
+  vb.object({
+    after: vb.exactOptional(vb.string()),
+    before: vb.exactOptional(vb.string()),
+    target: vb.string(),
+  }),
+);
+
+type AuditTarget = vb.InferOutput<typeof AuditTargetsSchema>[number];
+
+interface AuditRecord {
+  sessionId: string;
+  origin: TurnOrigin;
+  tool: string;
+  input: unknown;
+  success: boolean;
+  error?: string;
+  durationMs: number;
+  affected?: AuditTarget[];
+}
+
+interface AuditEntry extends Omit<AuditRecord, "origin"> {
+  id: number;
+  origin: string;
+  // Unix seconds, like the usage ledger.
+  createdAt: number;
+}
+
+interface AuditFilter {
+  since?: number;
+  until?: number;
+  sessionId?: string;
+  origin?: string;
+  tool?: string;
+  failedOnly?: boolean;
+}
+
+function recordAudit(agentSlug: string, record: AuditRecord): void {
+  const db = getDb(agentSlug);
+  db.insert(auditLog)
+    .values({
+      affected: record.affected === undefined ? undefined : JSON.stringify(record.affected),
+      createdAt: Math.floor(Date.now() / 1000),
+      durationMs: Math.round(record.durationMs),
+      error: record.error,
+      input: JSON.stringify(record.input),
+      origin: record.origin,
+      sessionId: record.sessionId,
+      success: record.success,
+      tool: record.tool,
+    })
+    .run();
+}
+
+// Matching entries, oldest first. `since` and `until` are unix seconds.
+function queryAudit(agentSlug: string, filter: AuditFilter = {}): AuditEntry[] {
+  const db = getDb(agentSlug);
+  const rows = db
+    .select()
+    .from(auditLog)
+    .where(
+      and(
+        filter.since === undefined ? undefined : gte(auditLog.createdAt, filter.since),
+        filter.until === undefined ? undefined : lte(auditLog.createdAt, filter.until),
+        filter.sessionId === undefined ? undefined : eq(auditLog.sessionId, filter.sessionId),
+        filter.origin === undefined ? undefined : eq(auditLog.origin, filter.origin),
+        filter.tool === undefined ? undefined : eq(auditLog.tool, filter.tool),
+        filter.failedOnly === true ? eq(auditLog.success, false) : undefined,
+      ),
+    )
+    .orderBy(asc(auditLog.id))
+    .all();
+
+  return rows.map((row) => ({
+    affected:
+      row.affected === null ? undefined : vb.parse(AuditTargetsSchema, JSON.parse(row.affected)),
+    createdAt: row.createdAt,
+    durationMs: row.durationMs,
+    error: row.error ?? undefined,
+    id: row.id,
+    input: JSON.parse(row.input) as unknown,
+    origin: row.origin,
+    sessionId: row.sessionId,
+    success: row.success,
+    tool: row.tool,
+  }));
+}
+
+export { queryAudit, recordAudit };
+export type { AuditEntry, AuditFilter, AuditRecord, AuditTarget };
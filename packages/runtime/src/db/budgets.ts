@@ -0,0 +1,23 @@
+import { eq } from "drizzle-orm";
+
+import { getDb } from "./index.js";
+import { budgetNotices } from "./schema.js";
+
+// Marks `budget` as reported until `until` (unix seconds). Returns false when
+// the owner was already told about it for a window that has not ended yet.
+function claimBudgetNotice(agentSlug: string, budget: string, until: number): boolean {
+  const db = getDb(agentSlug);
+  const now = Math.floor(Date.now() / 1000);
+  const existing = db.select().from(budgetNotices).where(eq(budgetNotices.budget, budget)).get();
+  if (existing !== undefined && existing.notifiedUntil > now) {
+    return false;
+  }
+
+  db.insert(budgetNotices)
+    .values({ budget, notifiedUntil: until })
+    .onConflictDoUpdate({ set: { notifiedUntil: until }, target: budgetNotices.budget })
+    .run();
+  return true;
+}
+
+export { claimBudgetNotice };
@@ -0,0 +1,233 @@
+import { randomUUID } from "node:crypto";
+import { mkdirSync, mkdtempSync, readdirSync, readFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+
+import { asc, sql } from "drizzle-orm";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { getDb, initDb } from "#db/index.js";
+import { isInvalidSearchQuery, listMessages, searchMessages } from "#db/messages.js";
+import { messages } from "#db/schema.js";
+import { flushAllSessions, resetSession, saveSession } from "#db/sessions.js";
+import type { Message } from "#engine/message.js";
+import { NamedInternalSession } from "#harness/session.js";
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+function initTestDb(): string {
+  const home = mkdtempSync(path.join(tmpdir(), "cireilclaw-messages-test-"));
+  vi.stubEnv("HOME", home);
+
+  const slug = `agent-${randomUUID()}`;
+  mkdirSync(path.join(home, ".cireilclaw", "agents", slug), { recursive: true });
+  initDb(slug);
+  return slug;
+}
+
+function userMessage(content: string, username: string, timestamp: number): Message {
+  return {
+    content: {
+      content,
+      discord: {
+        author: { displayName: username, id: `id-${username}`, username },
+        format: "message",
+        timestamp: new Date(timestamp).toISOString(),
+      },
+      type: "text",
+    },
+    id: `m-${timestamp}`,
+    role: "user",
+    timestamp,
+  };
+}
+
+// A `respond` call and its result; history validation drops unanswered calls.
+function reply(content: string, timestamp: number): Message[] {
+  const id = `call-${timestamp}`;
+  return [
+    {
+      content: [
+        { thinking: "hmm", type: "thinking" },
+        { id, input: { content }, name: "respond", type: "toolCall" },
+      ],
+      role: "assistant",
+      timestamp,
+    },
+    {
+      content: { id, name: "respond", output: { success: true }, type: "toolResponse" },
+      role: "toolResponse",
+    },
+  ];
+}
+
+function persist(slug: string, name: string, history: Message[]): NamedInternalSession {
+  const session = new NamedInternalSession(name);
+  session.history.push(...history);
+  saveSession(slug, session);
+  flushAllSessions();
+  return session;
+}
+
+function storedRows(slug: string): unknown[] {
+  return getDb(slug)
+    .select({
+      authorId: messages.authorId,
+      authorName: messages.authorName,
+      content: messages.content,
+      messageId: messages.messageId,
+      position: messages.position,
+      role: messages.role,
+      sessionId: messages.sessionId,
+      timestamp: messages.timestamp,
+    })
+    .from(messages)
+    .orderBy(asc(messages.sessionId), asc(messages.position))
+    .all();
+}
+
+describe("messages table", () => {
+  it("follows the persisted history as it grows, is rewritten and is cleared", () => {
+    const slug = initTestDb();
+    const session = persist(slug, "chat", [
+      userMessage("Where did we park?", "alex", 1000),
+      ...reply("Level 3, spot 42.", 2000),
+    ]);
+
+    expect(storedRows(slug)).toEqual([
+      expect.objectContaining({ authorName: "alex", content: "Where did we park?", position: 0 }),
+      expect.objectContaining({ content: "Level 3, spot 42.", position: 1, role: "assistant" }),
+    ]);
+
+    session.history.push(userMessage("Thanks!", "alex", 3000));
+    session.history.splice(0, 1, userMessage("Where did we park the van?", "alex", 1000));
+    saveSession(slug, session);
+    flushAllSessions();
+
+    expect(storedRows(slug)).toEqual([
+      expect.objectContaining({ content: "Where did we park the van?", position: 0 }),
+      expect.objectContaining({ content: "Level 3, spot 42.", position: 1 }),
+      expect.objectContaining({ content: "Thanks!", position: 3 }),
+    ]);
+    expect(searchMessages(slug, "park", {}, { limit: 10, offset: 0, order: "relevance" })).toEqual(
+      expect.objectContaining({ total: 1 }),
+    );
+
+    resetSession(slug, session.id());
+    expect(storedRows(slug)).toEqual([]);
+    expect(
+      searchMessages(slug, "park", {}, { limit: 10, offset: 0, order: "relevance" }).total,
+    ).toBe(0);
+  });
+
+  it("ranks matches and supports phrases, boolean operators and filters", () => {
+    const slug = initTestDb();
+    persist(slug, "a", [
+      userMessage("The blue car needs new tyres", "alex", 1000),
+      ...reply("I'll book the garage for the blue car.", 2000),
+    ]);
+    persist(slug, "b", [
+      userMessage("Paint the fence blue", "sam", 5000),
+      userMessage("The car is blue", "sam", 6000),
+    ]);
+
+    function search(query: string, filters = {}): string[] {
+      const { hits } = searchMessages(slug, query, filters, {
+        limit: 10,
+        offset: 0,
+        order: "relevance",
+      });
+      return hits.map((hit) => hit.content);
+    }
+
+    expect(search('"blue car"')).toEqual([
+      "The blue car needs new tyres",
+      "I'll book the garage for the blue car.",
+    ]);
+    expect(search("blue NOT car")).toEqual(["Paint the fence blue"]);
+    expect(search("tyre")).toEqual(["The blue car needs new tyres"]);
+    expect(search("blue", { author: "SAM", since: 5500 })).toEqual(["The car is blue"]);
+    expect(search("blue", { origins: ["internal:a"], role: "assistant" })).toEqual([
+      "I'll book the garage for the blue car.",
+    ]);
+
+    const [hit] = searchMessages(
+      slug,
+      "fence",
+      {},
+      {
+        limit: 1,
+        offset: 0,
+        order: "relevance",
+      },
+    ).hits;
+    expect(hit).toMatchObject({
+      author: "sam",
+      sessionId: "internal:b",
+      snippet: "Paint the **fence** blue",
+      timestamp: 5000,
+    });
+  });
+
+  it("reports malformed queries as invalid rather than as internal errors", () => {
+    const slug = initTestDb();
+
+    let caught: unknown = undefined;
+    try {
+      searchMessages(slug, '"unterminated', {}, { limit: 1, offset: 0, order: "relevance" });
+    } catch (error) {
+      caught = error;
+    }
+
+    expect(isInvalidSearchQuery(caught)).toBe(true);
+    expect(isInvalidSearchQuery(new Error("disk I/O error"))).toBe(false);
+  });
+
+  it("lists messages in time order for the non-indexed search modes", () => {
+    const slug = initTestDb();
+    persist(slug, "a", [userMessage("first", "alex", 1000), userMessage("second", "alex", 2000)]);
+
+    const contents = listMessages(slug, {}, { order: "desc" }).map((hit) => hit.content);
+
+    expect(contents).toEqual(["second", "first"]);
+  });
+
+  it("backfills existing sessions the same way flushing does", () => {
+    const slug = initTestDb();
+    persist(slug, "chat", [
+      userMessage("Hello there", "alex", 1000),
+      {
+        content: [
+          { content: "Two parts,", type: "text" },
+          { id: "img", mediaType: "image/webp", type: "image_ref" },
+          { content: "joined.", type: "text" },
+        ],
+        role: "user",
+      },
+      ...reply("General Kenobi", 2000),
+      {
+        content: [{ id: "x", input: {}, name: "no-response", type: "toolCall" }],
+        role: "assistant",
+      },
+      {
+        content: { id: "x", name: "no-response", output: { success: true }, type: "toolResponse" },
+        role: "toolResponse",
+      },
+    ]);
+    const flushed = storedRows(slug);
+    expect(flushed).toHaveLength(3);
+
+    const migrations = new URL("../../drizzle", import.meta.url).pathname;
+    const folder = readdirSync(migrations).find((name) => name.endsWith("_add_messages_fts"));
+    const migration = readFileSync(path.join(migrations, folder ?? "", "migration.sql"), "utf8");
+    const backfill = migration.split("--> statement-breakpoint").at(-1) ?? "";
+
+    const db = getDb(slug);
+    db.delete(messages).run();
+    db.run(sql.raw(backfill));
+
+    expect(storedRows(slug)).toEqual(flushed);
+  });
+});
@@ -0,0 +1,291 @@
+import BetterSqlite3 from "better-sqlite3";
+import { and, asc, desc, eq, gte, like, lte, notLike, or, sql } from "drizzle-orm";
+import type { SQL } from "drizzle-orm";
+import * as vb from "valibot";
+
+import type { Message } from "#engine/message.js";
+
+import { getDb } from "./index.js";
+import type { Database } from "./index.js";
+import { messages, sessions } from "./schema.js";
+
+type MessageRow = Omit<typeof messages.$inferInsert, "id" | "sessionId">;
+
+interface MessageFilters {
+  // Session ID prefixes, e.g. "discord" or "discord:123". Any may match.
+  origins?: string[];
+  sessionId?: string;
+  // Username or user ID, case-insensitive.
+  author?: string;
+  role?: "user" | "assistant";
+  // Unix timestamps (ms), inclusive.
+  since?: number;
+  until?: number;
+}
+
+interface MessageHit {
+  sessionId: string;
+  channel: string;
+  messageId: string | undefined;
+  role: string;
+  author: string | undefined;
+  content: string;
+  timestamp: number | undefined;
+}
+
+interface RankedMessageHit extends MessageHit {
+  // `content` with the matched terms wrapped in **, cut down around them.
+  snippet: string;
+}
+
+// The text a person would have read: user text and what the agent said
+// through `respond`. Tool traffic, thinking and media are left out.
+function messageText(msg: Message): string {
+  if (msg.role !== "user" && msg.role !== "assistant") {
+    return "";
+  }
+  const blocks = Array.isArray(msg.content) ? msg.content : [msg.content];
+  return blocks
+    .map((block) => {
+      if (block.type === "text") {
+        return block.content;
+      }
+      if (block.type === "toolCall" && block.name === "respond") {
+        const input = vb.safeParse(vb.object({ content: vb.string() }), block.input);
+        return input.success ? input.output.content : "";
+      }
+      return "";
+    })
+    .filter((text) => text.length > 0)
+    .join("\n");
+}
+
+// One row per chat message with text. The migration backfills with the same
+// rules in SQL; keep the two in step.
+function messageRows(history: Message[]): MessageRow[] {
+  const rows: MessageRow[] = [];
+  for (const [position, msg] of history.entries()) {
+    const content = messageText(msg);
+    if (content.length === 0) {
+      continue;
+    }
+    const first = Array.isArray(msg.content) ? msg.content.at(0) : msg.content;
+    const author = first?.type === "text" ? first.discord?.author : undefined;
+    rows.push({
+      authorId: author?.id,
+      authorName: author?.username,
+      content,
+      messageId: msg.id,
+      position,
+      role: msg.role,
+      timestamp: msg.timestamp,
+    });
+  }
+  return rows;
+}
+
+type StoredRow = Pick<typeof messages.$inferSelect, keyof MessageRow>;
+
+function sameRow(stored: StoredRow, next: MessageRow): boolean {
+  return (
+    stored.position === next.position &&
+    stored.content === next.content &&
+    stored.role === next.role &&
+    (stored.messageId ?? undefined) === next.messageId &&
+    (stored.authorId ?? undefined) === next.authorId &&
+    (stored.authorName ?? undefined) === next.authorName &&
+    (stored.timestamp ?? undefined) === next.timestamp
+  );
+}
+
+// Brings the session's `messages` rows in line with its persisted history.
+// History mostly grows at the end, so only rows from the first difference
+// onwards are rewritten; the FTS triggers follow along.
+function syncMessages(db: Database, sessionId: string, history: Message[]): void {
+  const next = messageRows(history);
+  db.transaction((tx) => {
+    const stored = tx
+      .select({
+        authorId: messages.authorId,
+        authorName: messages.authorName,
+        content: messages.content,
+        messageId: messages.messageId,
+        position: messages.position,
+        role: messages.role,
+        timestamp: messages.timestamp,
+      })
+      .from(messages)
+      .where(eq(messages.sessionId, sessionId))
+      .orderBy(asc(messages.position))
+      .all();
+
+    let common = 0;
+    for (const [idx, row] of next.entries()) {
+      const existing = stored[idx];
+      if (existing === undefined || !sameRow(existing, row)) {
+        break;
+      }
+      common = idx + 1;
+    }
+
+    const firstStale = stored[common];
+    if (firstStale !== undefined) {
+      tx.delete(messages)
+        .where(and(eq(messages.sessionId, sessionId), gte(messages.position, firstStale.position)))
+        .run();
+    }
+    const fresh = next.slice(common);
+    if (fresh.length > 0) {
+      tx.insert(messages)
+        .values(fresh.map((row) => Object.assign({ sessionId }, row)))
+        .run();
+    }
+  });
+}
+
+function deleteMessages(db: Database, sessionId: string): void {
+  db.delete(messages).where(eq(messages.sessionId, sessionId)).run();
+}
+
+function filterCondition(filters: MessageFilters): SQL | undefined {
+  const conditions: (SQL | undefined)[] = [notLike(messages.sessionId, "cron:%")];
+  if (filters.origins !== undefined && filters.origins.length > 0) {
+    conditions.push(or(...filters.origins.map((origin) => like(messages.sessionId, `${origin}%`))));
+  }
+  if (filters.sessionId !== undefined) {
+    conditions.push(eq(messages.sessionId, filters.sessionId));
+  }
+  if (filters.author !== undefined) {
+    conditions.push(
+      or(
+        eq(messages.authorId, filters.author),
+        eq(sql`lower(${messages.authorName})`, filters.author.toLowerCase()),
+      ),
+    );
+  }
+  if (filters.role !== undefined) {
+    conditions.push(eq(messages.role, filters.role));
+  }
+  if (filters.since !== undefined) {
+    conditions.push(gte(messages.timestamp, filters.since));
+  }
+  if (filters.until !== undefined) {
+    conditions.push(lte(messages.timestamp, filters.until));
+  }
+  return and(...conditions);
+}
+
+interface HitColumns {
+  sessionId: string;
+  channel: string;
+  messageId: string | null;
+  role: string;
+  authorName: string | null;
+  content: string;
+  timestamp: number | null;
+}
+
+function toHit(row: HitColumns): MessageHit {
+  return {
+    author: row.authorName ?? undefined,
+    channel: row.channel,
+    content: row.content,
+    messageId: row.messageId ?? undefined,
+    role: row.role,
+    sessionId: row.sessionId,
+    timestamp: row.timestamp ?? undefined,
+  };
+}
+
+// Messages matching the filters, in time order. For the modes that match in
+// JS rather than through the index; `contains` narrows the rows in SQL first.
+function listMessages(
+  agentSlug: string,
+  filters: MessageFilters,
+  options: { order: "asc" | "desc"; contains?: string },
+): MessageHit[] {
+  const db = getDb(agentSlug);
+  const order = options.order === "asc" ? asc : desc;
+  return db
+    .select({
+      authorName: messages.authorName,
+      channel: sessions.channel,
+      content: messages.content,
+      messageId: messages.messageId,
+      role: messages.role,
+      sessionId: messages.sessionId,
+      timestamp: messages.timestamp,
+    })
+    .from(messages)
+    .innerJoin(sessions, eq(sessions.id, messages.sessionId))
+    .where(
+      and(
+        filterCondition(filters),
+        options.contains === undefined
+          ? undefined
+          : like(messages.content, `%${options.contains}%`),
+      ),
+    )
+    .orderBy(order(messages.timestamp), order(messages.position))
+    .all()
+    .map((row) => toHit(row));
+}
+
+// Full-text search in FTS5 query syntax: words, "exact phrases", AND/OR/NOT,
+// prefix* and NEAR(...). Ranked best first unless a time order is asked for.
+// Throws SqliteError on a malformed query.
+function searchMessages(
+  agentSlug: string,
+  query: string,
+  filters: MessageFilters,
+  options: { order: "relevance" | "asc" | "desc"; limit: number; offset: number },
+): { hits: RankedMessageHit[]; total: number } {
+  const db = getDb(agentSlug);
+  const where = sql`messages_fts MATCH ${query} AND ${filterCondition(filters)}`;
+  const orderBy =
+    options.order === "relevance"
+      ? sql`bm25(messages_fts)`
+      : sql`${messages.timestamp} ${sql.raw(options.order)}`;
+
+  const { total } = db.get<{ total: number }>(
+    sql`SELECT count(*) AS total
+        FROM messages_fts JOIN ${messages} ON ${messages.id} = messages_fts.rowid
+        WHERE ${where}`,
+  );
+
+  const rows = db.all<HitColumns & { snippet: string }>(
+    sql`SELECT ${messages.sessionId} AS sessionId, ${sessions.channel} AS channel,
+               ${messages.messageId} AS messageId, ${messages.role} AS role,
+               ${messages.authorName} AS authorName, ${messages.content} AS content,
+               ${messages.timestamp} AS timestamp,
+               snippet(messages_fts, 0, '**', '**', '…', 32) AS snippet
+        FROM messages_fts
+        JOIN ${messages} ON ${messages.id} = messages_fts.rowid
+        JOIN ${sessions} ON ${sessions.id} = ${messages.sessionId}
+        WHERE ${where}
+        ORDER BY ${orderBy}
+        LIMIT ${options.limit} OFFSET ${options.offset}`,
+  );
+
+  return {
+    hits: rows.map((row) => Object.assign(toHit(row), { snippet: row.snippet })),
+    total,
+  };
+}
+
+// FTS5 rejects a malformed MATCH expression with an ordinary SQLite error; the
+// query is the only part of the statement callers control.
+function isInvalidSearchQuery(error: unknown): boolean {
+  return error instanceof BetterSqlite3.SqliteError;
+}
+
+export {
+  deleteMessages,
+  isInvalidSearchQuery,
+  listMessages,
+  messageRows,
+  messageText,
+  searchMessages,
+  syncMessages,
+};
+export type { MessageFilters, MessageHit, RankedMessageHit };
@@ -0,0 +1,139 @@
+import { eq, sql } from "drizzle-orm";
+import type { SQL } from "drizzle-orm";
+
+import { getDb } from "./index.js";
+import { messages, recallSources } from "./schema.js";
+
+// Where a hit came from. Memory files are `/memories/**` and the long-term
+// block; workspace notes are text files under `/workspace`. Both live in
+// `recall_index`. Session messages are searched through `messages_fts`.
+type RecallKind = "memory" | "workspace" | "session";
+
+interface RecallDocument {
+  kind: Exclude<RecallKind, "session">;
+  body: string;
+}
+
+interface RecallHit {
+  source: string;
+  kind: RecallKind;
+  timestamp: number | undefined;
+  snippet: string;
+}
+
+function recallStamps(agentSlug: string): Map<string, string> {
+  const db = getDb(agentSlug);
+  const rows = db.select().from(recallSources).all();
+  return new Map(rows.map((row) => [row.source, row.stamp]));
+}
+
+// Replaces everything indexed for `source` with `documents` in one transaction,
+// so a search never sees a half-indexed source.
+function indexRecallSource(
+  agentSlug: string,
+  source: string,
+  stamp: string,
+  documents: RecallDocument[],
+): void {
+  const db = getDb(agentSlug);
+  db.transaction((tx) => {
+    tx.run(sql`DELETE FROM recall_index WHERE source = ${source}`);
+    for (const doc of documents) {
+      tx.run(
+        sql`INSERT INTO recall_index (source, kind, body) VALUES (${source}, ${doc.kind}, ${doc.body})`,
+      );
+    }
+    tx.insert(recallSources)
+      .values({ source, stamp })
+      .onConflictDoUpdate({ set: { stamp }, target: recallSources.source })
+      .run();
+  });
+}
+
+function removeRecallSource(agentSlug: string, source: string): void {
+  const db = getDb(agentSlug);
+  db.transaction((tx) => {
+    tx.run(sql`DELETE FROM recall_index WHERE source = ${source}`);
+    tx.delete(recallSources).where(eq(recallSources.source, source)).run();
+  });
+}
+
+// Turns free text into an FTS5 query that matches documents containing every
+// word. Each word is quoted, so FTS5 operators and punctuation in the input
+// can't produce a syntax error.
+function toMatchQuery(text: string): string | undefined {
+  const words = text
+    .split(/\s+/u)
+    .map((word) => word.replaceAll('"', ""))
+    .filter((word) => word.length > 0);
+  if (words.length === 0) {
+    return undefined;
+  }
+  return words.map((word) => `"${word}"`).join(" ");
+}
+
+// Best matches first across files and session messages, with the matched
+// words wrapped in ** in the snippet. Scores from the two FTS tables are both
+// bm25, so one ORDER BY ranks them together.
+function searchRecall(
+  agentSlug: string,
+  text: string,
+  options: { kinds: RecallKind[]; limit: number; offset: number },
+): RecallHit[] {
+  const match = toMatchQuery(text);
+  if (match === undefined) {
+    return [];
+  }
+
+  const branches: SQL[] = [];
+  const fileKinds = options.kinds.filter((kind) => kind !== "session");
+  if (fileKinds.length > 0) {
+    const kinds = sql.join(
+      fileKinds.map((kind) => sql`${kind}`),
+      sql`, `,
+    );
+    branches.push(
+      sql`SELECT source, kind, NULL AS timestamp,
+                 snippet(recall_index, 3, '**', '**', '…', 24) AS snippet,
+                 bm25(recall_index) AS score
+          FROM recall_index
+          WHERE recall_index MATCH ${match} AND kind IN (${kinds})`,
+    );
+  }
+  if (options.kinds.includes("session")) {
+    branches.push(
+      sql`SELECT 'session:' || ${messages.sessionId} AS source, 'session' AS kind,
+                 ${messages.timestamp} AS timestamp,
+                 snippet(messages_fts, 0, '**', '**', '…', 24) AS snippet,
+                 bm25(messages_fts) AS score
+          FROM messages_fts JOIN ${messages} ON ${messages.id} = messages_fts.rowid
+          WHERE messages_fts MATCH ${match} AND ${messages.sessionId} NOT LIKE 'cron:%'`,
+    );
+  }
+  if (branches.length === 0) {
+    return [];
+  }
+
+  const db = getDb(agentSlug);
+  const rows = db.all<{
+    source: string;
+    kind: RecallKind;
+    timestamp: number | null;
+    snippet: string;
+  }>(
+    sql`SELECT source, kind, timestamp, snippet
+        FROM (${sql.join(branches, sql` UNION ALL `)})
+        ORDER BY score
+        LIMIT ${options.limit} OFFSET ${options.offset}`,
+  );
+
+  return rows.map((row) => ({
+    kind: row.kind,
+    snippet: row.snippet,
+    source: row.source,
+    timestamp: row.timestamp ?? undefined,
+  }));
+}
+
+export { indexRecallSource, recallStamps, removeRecallSource, searchRecall, toMatchQuery };
+export type { RecallDocument, RecallHit, RecallKind };
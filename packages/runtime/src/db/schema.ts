@@ -1,5 +1,13 @@
 // oxlint-disable sort-keys
-import { integer, primaryKey, sqliteTable, text, uniqueIndex } from "drizzle-orm/sqlite-core";
+import {
+  index,
+  integer,
+  primaryKey,
+  real,
+  sqliteTable,
+  text,
+  uniqueIndex,
+} from "drizzle-orm/sqlite-core";
 
 // One row per session. History and opened-files are stored as JSON blobs —
 // we don't need to query inside them, only load/save whole sessions.
@@ -50,6 +58,33 @@ const summaries = sqliteTable(
   (tb) => [uniqueIndex("summaries_session_slug_idx").on(tb.sessionId, tb.slug)],
 );
 
+// The chat messages of each session, one row per user or assistant message
+// that has text, kept in step with `sessions.history` on every flush. The
+// `messages_fts` FTS5 table indexes `content` and is maintained by triggers;
+// like `recall_index`, it's created by hand in the migration.
+// `position` is the message's index in the persisted history.
+const messages = sqliteTable(
+  "messages",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    sessionId: text("session_id")
+      .notNull()
+      .references(() => sessions.id, { onDelete: "cascade" }),
+    position: integer("position").notNull(),
+    messageId: text("message_id"),
+    role: text("role").notNull(),
+    authorId: text("author_id"),
+    authorName: text("author_name"),
+    content: text("content").notNull(),
+    // Unix timestamp (ms)
+    timestamp: integer("timestamp"),
+  },
+  (tb) => [
+    uniqueIndex("messages_session_position_idx").on(tb.sessionId, tb.position),
+    index("messages_timestamp_idx").on(tb.timestamp),
+  ],
+);
+
 // Note: Each agent has its own database, so job_id is unique within agent.
 const cronJobs = sqliteTable("cron_jobs", {
   jobId: text("job_id").primaryKey(),
@@ -62,4 +97,98 @@ const cronJobs = sqliteTable("cron_jobs", {
   createdAt: text("created_at").notNull(),
 });
 
-export { sessions, images, summaries, cronJobs };
+// One row per generation. Deliberately not tied to `sessions` by a foreign
+// key: clearing a session must not erase what it cost. `cost_usd` is priced
+// when the row is written and stays null for models without a price table.
+const usage = sqliteTable(
+  "usage",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    sessionId: text("session_id").notNull(),
+    provider: text("provider").notNull(),
+    model: text("model").notNull(),
+    origin: text("origin").notNull(),
+    promptTokens: integer("prompt_tokens").notNull(),
+    completionTokens: integer("completion_tokens").notNull(),
+    cachedTokens: integer("cached_tokens").notNull().default(0),
+    reasoningTokens: integer("reasoning_tokens").notNull().default(0),
+    costUsd: real("cost_usd"),
+    createdAt: integer("created_at").notNull(),
+  },
+  (tb) => [index("usage_created_at_idx").on(tb.createdAt)],
+);
+
+// Exhausted budgets the owner has already been told about, so neither later
+// turns nor a restart inside the same window notify again.
+const budgetNotices = sqliteTable("budget_notices", {
+  budget: text("budget").primaryKey(),
+  notifiedUntil: integer("notified_until").notNull(),
+});
+
+// What the recall index has ingested, so a sync only re-reads sources that
+// changed. `source` is a sandbox path or `session:<id>`; `stamp` is whatever
+// changes with the source (mtime and size, or last activity). The indexed
+// text itself lives in the `recall_index` FTS5 table, which drizzle can't
+// model and is created by hand in the migration.
+const recallSources = sqliteTable("recall_sources", {
+  source: text("source").primaryKey(),
+  stamp: text("stamp").notNull(),
+});
+
+// One row per "ask" rule the agent ran into: what it wanted to do and what
+// the owner decided. Kept after sessions are cleared, like `usage`.
+// `decision` is approved, denied, timeout or unavailable (no channel could
+// ask); `decided_by` is who answered, when someone did.
+const approvals = sqliteTable(
+  "approvals",
+  {
+    id: text("id").primaryKey(),
+    sessionId: text("session_id").notNull(),
+    kind: text("kind").notNull(),
+    subject: text("subject").notNull(),
+    decision: text("decision").notNull(),
+    decidedBy: text("decided_by"),
+    requestedAt: integer("requested_at").notNull(),
+    decidedAt: integer("decided_at").notNull(),
+  },
+  (tb) => [index("approvals_requested_at_idx").on(tb.requestedAt)],
+);
+
+// Append-only record of every tool call, kept after sessions are cleared.
+// `input` is the sanitized call input as JSON. `affected` is a JSON array of
+// `{ target, before, after }` for mutating tools, where `target` is a sandbox
+// path (or `cron:<id>` for schedule) and the hashes are sha256 of its content,
+// missing when it didn't exist. Triggers in the migration reject updates and
+// deletes.
+const auditLog = sqliteTable(
+  "audit_log",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    sessionId: text("session_id").notNull(),
+    origin: text("origin").notNull(),
+    tool: text("tool").notNull(),
+    input: text("input").notNull(),
+    success: integer("success", { mode: "boolean" }).notNull(),
+    error: text("error"),
+    durationMs: integer("duration_ms").notNull(),
+    affected: text("affected"),
+    createdAt: integer("created_at").notNull(),
+  },
+  (tb) => [
+    index("audit_log_created_at_idx").on(tb.createdAt),
+    index("audit_log_tool_idx").on(tb.tool),
+  ],
+);
+
+export {
+  sessions,
+  images,
+  summaries,
+  messages,
+  cronJobs,
+  usage,
+  budgetNotices,
+  recallSources,
+  approvals,
+  auditLog,
+};
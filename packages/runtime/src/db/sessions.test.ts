@@ -17,7 +17,7 @@ import {
   saveSession,
   updateSessionImages,
 } from "#db/sessions.js";
-import { NamedInternalSession } from "#harness/session.js";
+import { MatrixSession, NamedInternalSession, PluginSession } from "#harness/session.js";
 
 afterEach(() => {
   vi.unstubAllEnvs();
@@ -333,6 +333,58 @@ describe("session persistence", () => {
     vi.unstubAllGlobals();
   });
 
+  it("round-trips Matrix session metadata", async () => {
+    const { slug } = initTestDb();
+    const session = new MatrixSession({
+      isDirect: true,
+      roomId: "!room:example.org",
+      selectedModel: "model-a",
+      selectedProvider: "provider-a",
+    });
+    session.history.push({ content: { content: "hello", type: "text" }, role: "user" });
+
+    saveSession(slug, session);
+    flushAllSessions();
+
+    const loadedSessions = await loadSessions(slug);
+    const loaded = loadedSessions.get("matrix:!room:example.org");
+    expect(loaded).toBeInstanceOf(MatrixSession);
+    if (!(loaded instanceof MatrixSession)) {
+      return;
+    }
+    expect(loaded.roomId).toBe("!room:example.org");
+    expect(loaded.isDirect).toBe(true);
+    expect(loaded.selectedModel).toBe("model-a");
+    expect(loaded.selectedProvider).toBe("provider-a");
+    expect(loaded.history).toHaveLength(1);
+  });
+
+  it("round-trips plugin channel session metadata", async () => {
+    const { slug } = initTestDb();
+    const session = new PluginSession({
+      conversationId: "C0123",
+      isDirect: true,
+      pluginChannel: "slack",
+      selectedModel: "model-a",
+    });
+    session.history.push({ content: { content: "hello", type: "text" }, role: "user" });
+
+    saveSession(slug, session);
+    flushAllSessions();
+
+    const loadedSessions = await loadSessions(slug);
+    const loaded = loadedSessions.get("slack:C0123");
+    expect(loaded).toBeInstanceOf(PluginSession);
+    if (!(loaded instanceof PluginSession)) {
+      return;
+    }
+    expect(loaded.pluginChannel).toBe("slack");
+    expect(loaded.conversationId).toBe("C0123");
+    expect(loaded.isDirect).toBe(true);
+    expect(loaded.selectedModel).toBe("model-a");
+    expect(loaded.history).toHaveLength(1);
+  });
+
   it("canonicalizes legacy internal session IDs during load", async () => {
     const { slug } = initTestDb();
     insertSession(slug, {
@@ -7,6 +7,7 @@ import * as vb from "valibot";
 
 import { nonEmptyString } from "#config/schemas/shared.js";
 import { getDb } from "#db/index.js";
+import { deleteMessages, syncMessages } from "#db/messages.js";
 import { images, sessions, summaries as summariesTable } from "#db/schema.js";
 import type {
   Content,
@@ -23,8 +24,10 @@ import { isMessage } from "#engine/message.js";
 import type { AssistantContent, Message, UserContent } from "#engine/message.js";
 import type { Session, Summary } from "#harness/session.js";
 import {
+  ApiSession,
   DiscordSession,
   MatrixSession,
+  PluginSession,
   NamedInternalSession,
   TuiSession,
 } from "#harness/session.js";
@@ -68,7 +71,7 @@ function serializeHistory(
   history: Message[],
   historyCursor: number,
   agentSlug: string,
-): { historyCursor: number; json: string; pendingImages: PendingImage[] } {
+): { historyCursor: number; json: string; pendingImages: PendingImage[]; persisted: Message[] } {
   const pendingImages: PendingImage[] = [];
 
   function serializeContent(ct: unknown): unknown {
@@ -112,6 +115,7 @@ function serializeHistory(
     .slice(0, Math.min(historyCursor, history.length))
     .filter((msg) => msg.role === "toolResponse" || msg.persist !== false).length;
   const validated = validateHistory(persistable);
+  const result = { historyCursor: persistedCursor, pendingImages, persisted: validated };
 
   // oxlint-disable-next-line oxc/no-map-spread -- must NOT mutate session.history (Object.assign is the bug)
   const serialized = validated.map((msg) => {
@@ -121,7 +125,7 @@ function serializeHistory(
     return { ...msg, content };
   });
 
-  return { historyCursor: persistedCursor, json: JSON.stringify(serialized), pendingImages };
+  return { ...result, json: JSON.stringify(serialized) };
 }
 
 function convertLegacyText(content: TextContent): TextContent {
@@ -308,7 +312,10 @@ async function deserializeHistory(json: string, agentSlug: string): Promise<Mess
 
 const LastContextWarningCursorSchema = vb.pipe(vb.number(), vb.integer(), vb.minValue(0));
 
+const AnsweredBySchema = vb.object({ model: nonEmptyString, provider: nonEmptyString });
+
 const DiscordMetaSchema = vb.object({
+  answeredBy: vb.exactOptional(AnsweredBySchema),
   channelId: nonEmptyString,
   guildId: vb.exactOptional(nonEmptyString),
   historyBarrier: vb.exactOptional(vb.number()),
@@ -322,7 +329,9 @@ const DiscordMetaSchema = vb.object({
 type DiscordMeta = vb.InferOutput<typeof DiscordMetaSchema>;
 
 const MatrixMetaSchema = vb.object({
+  answeredBy: vb.exactOptional(AnsweredBySchema),
   historyBarrier: vb.exactOptional(vb.number()),
+  isDirect: vb.exactOptional(vb.boolean()),
   lastContextWarningCursor: vb.exactOptional(LastContextWarningCursorSchema),
   roomId: nonEmptyString,
   selectedModel: vb.exactOptional(nonEmptyString),
@@ -331,6 +340,30 @@ const MatrixMetaSchema = vb.object({
 
 type MatrixMeta = vb.InferOutput<typeof MatrixMetaSchema>;
 
+const ApiMetaSchema = vb.object({
+  answeredBy: vb.exactOptional(AnsweredBySchema),
+  historyBarrier: vb.exactOptional(vb.number()),
+  lastContextWarningCursor: vb.exactOptional(LastContextWarningCursorSchema),
+  name: nonEmptyString,
+  selectedModel: vb.exactOptional(nonEmptyString),
+  selectedProvider: vb.exactOptional(nonEmptyString),
+});
+
+type ApiMeta = vb.InferOutput<typeof ApiMetaSchema>;
+
+const PluginMetaSchema = vb.object({
+  answeredBy: vb.exactOptional(AnsweredBySchema),
+  conversationId: nonEmptyString,
+  historyBarrier: vb.exactOptional(vb.number()),
+  isDirect: vb.exactOptional(vb.boolean()),
+  lastContextWarningCursor: vb.exactOptional(LastContextWarningCursorSchema),
+  pluginChannel: nonEmptyString,
+  selectedModel: vb.exactOptional(nonEmptyString),
+  selectedProvider: vb.exactOptional(nonEmptyString),
+});
+
+type PluginMeta = vb.InferOutput<typeof PluginMetaSchema>;
+
 const DEBOUNCE_MS = 2000;
 
 // Store the flush callback so flushAllSessions() can drain without needing
@@ -363,11 +396,13 @@ function flushSession(agentSlug: string, session: Session): void {
     historyCursor,
     json: historyJson,
     pendingImages,
+    persisted,
   } = serializeHistory(session.history, session.historyCursor, agentSlug);
 
   let meta: object | undefined = undefined;
   if (session.channel === "discord") {
     meta = {
+      answeredBy: session.answeredBy,
       channelId: session.channelId,
       guildId: session.guildId,
       historyBarrier: session.historyBarrier,
@@ -379,14 +414,37 @@ function flushSession(agentSlug: string, session: Session): void {
     } satisfies DiscordMeta;
   } else if (session.channel === "matrix") {
     meta = {
+      answeredBy: session.answeredBy,
       historyBarrier: session.historyBarrier,
+      isDirect: session.isDirect,
       lastContextWarningCursor: session.lastContextWarningCursor,
       roomId: session.roomId,
       selectedModel: session.selectedModel,
       selectedProvider: session.selectedProvider,
-    };
+    } satisfies MatrixMeta;
+  } else if (session.channel === "api") {
+    meta = {
+      answeredBy: session.answeredBy,
+      historyBarrier: session.historyBarrier,
+      lastContextWarningCursor: session.lastContextWarningCursor,
+      name: session.name,
+      selectedModel: session.selectedModel,
+      selectedProvider: session.selectedProvider,
+    } satisfies ApiMeta;
+  } else if (session.channel === "plugin") {
+    meta = {
+      answeredBy: session.answeredBy,
+      conversationId: session.conversationId,
+      historyBarrier: session.historyBarrier,
+      isDirect: session.isDirect,
+      lastContextWarningCursor: session.lastContextWarningCursor,
+      pluginChannel: session.pluginChannel,
+      selectedModel: session.selectedModel,
+      selectedProvider: session.selectedProvider,
+    } satisfies PluginMeta;
   } else {
     meta = {
+      answeredBy: session.answeredBy,
       historyBarrier: session.historyBarrier,
       lastContextWarningCursor: session.lastContextWarningCursor,
       selectedModel: session.selectedModel,
@@ -427,6 +485,8 @@ function flushSession(agentSlug: string, session: Session): void {
     })
     .run();
 
+  syncMessages(db, sessionId, persisted);
+
   // Write image files and index them after the session row exists.
   if (pendingImages.length > 0) {
     mkdirSync(imageDir(agentSlug), { recursive: true });
@@ -480,9 +540,30 @@ async function loadSessions(agentSlug: string): Promise<Map<string, Session>> {
         });
       } else if (row.channel === "matrix") {
         const meta = vb.parse(MatrixMetaSchema, metaJson);
-        session = new MatrixSession(meta.roomId);
-        session.selectedModel = meta.selectedModel;
-        session.selectedProvider = meta.selectedProvider;
+        session = new MatrixSession({
+          isDirect: meta.isDirect,
+          roomId: meta.roomId,
+          selectedModel: meta.selectedModel,
+          selectedProvider: meta.selectedProvider,
+        });
+      } else if (row.channel === "api") {
+        const meta = vb.parse(ApiMetaSchema, metaJson);
+        session = new ApiSession({
+          name: meta.name,
+          selectedModel: meta.selectedModel,
+          selectedProvider: meta.selectedProvider,
+        });
+      } else if (row.channel === "plugin") {
+        // Kept even when the plugin is gone, so its history survives until
+        // the plugin is back.
+        const meta = vb.parse(PluginMetaSchema, metaJson);
+        session = new PluginSession({
+          conversationId: meta.conversationId,
+          isDirect: meta.isDirect,
+          pluginChannel: meta.pluginChannel,
+          selectedModel: meta.selectedModel,
+          selectedProvider: meta.selectedProvider,
+        });
       } else if (row.channel === "internal") {
         const legacyInternalId = !row.id.startsWith("internal:");
         const name = legacyInternalId ? row.id : row.id.slice("internal:".length);
@@ -533,6 +614,7 @@ async function loadSessions(agentSlug: string): Promise<Map<string, Session>> {
 
       const common = vb.safeParse(
         vb.looseObject({
+          answeredBy: vb.exactOptional(AnsweredBySchema),
           historyBarrier: vb.exactOptional(vb.number()),
           lastContextWarningCursor: vb.exactOptional(LastContextWarningCursorSchema),
           selectedModel: vb.exactOptional(nonEmptyString),
@@ -541,6 +623,7 @@ async function loadSessions(agentSlug: string): Promise<Map<string, Session>> {
         metaJson,
       );
       if (common.success) {
+        session.answeredBy = common.output.answeredBy;
         session.historyBarrier = common.output.historyBarrier;
         session.lastContextWarningCursor = common.output.lastContextWarningCursor;
         session.selectedModel ??= common.output.selectedModel;
@@ -618,6 +701,7 @@ function deleteSession(agentSlug: string, sessionId: string): void {
 
   db.delete(images).where(eq(images.sessionId, sessionId)).run();
   db.delete(summariesTable).where(eq(summariesTable.sessionId, sessionId)).run();
+  deleteMessages(db, sessionId);
   db.delete(sessions).where(eq(sessions.id, sessionId)).run();
 }
 
@@ -658,6 +742,7 @@ function resetSession(agentSlug: string, sessionId: string, historyBarrier?: num
 
   db.delete(images).where(eq(images.sessionId, sessionId)).run();
   db.delete(summariesTable).where(eq(summariesTable.sessionId, sessionId)).run();
+  deleteMessages(db, sessionId);
   const row = db
     .select({ meta: sessions.meta })
     .from(sessions)
@@ -899,8 +984,10 @@ function deleteSummary(agentSlug: string, sessionId: string, slug: string): void
 }
 
 export {
+  ApiMetaSchema,
   DiscordMetaSchema,
   MatrixMetaSchema,
+  PluginMetaSchema,
   flushAllSessions,
   hashImage,
   loadSessions,
@@ -912,4 +999,4 @@ export {
   updateSessionImages,
   updateSessionVideoRefs,
 };
-export type { DiscordMeta, MatrixMeta };
+export type { ApiMeta, DiscordMeta, MatrixMeta, PluginMeta };
@@ -0,0 +1,125 @@
+import { randomUUID } from "node:crypto";
+import { mkdirSync, mkdtempSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { initDb } from "#db/index.js";
+import { costOf, recordUsage, summarizeUsage } from "#db/usage.js";
+import { formatUsageReport, parseWindow } from "#util/usage-report.js";
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllEnvs();
+});
+
+function initTestDb(): string {
+  const home = mkdtempSync(path.join(tmpdir(), "cireilclaw-usage-test-"));
+  vi.stubEnv("HOME", home);
+
+  const slug = `agent-${randomUUID()}`;
+  mkdirSync(path.join(home, ".cireilclaw", "agents", slug), { recursive: true });
+  initDb(slug);
+  return slug;
+}
+
+const PRICE = { cachedInput: 0.5, input: 2, output: 10 };
+
+describe("usage ledger", () => {
+  it("prices cached input separately and falls back to the input price", () => {
+    const usage = {
+      cachedTokens: 400_000,
+      completionTokens: 100_000,
+      promptTokens: 1_000_000,
+      systemPromptTokensEst: 0,
+    };
+    expect(costOf(usage, PRICE)).toBeCloseTo(0.6 * 2 + 0.4 * 0.5 + 0.1 * 10);
+    expect(costOf(usage, { input: 2, output: 10 })).toBeCloseTo(2 + 1);
+  });
+
+  it("sums generations per group and counts the unpriced ones", () => {
+    const slug = initTestDb();
+    const usage = { completionTokens: 1000, promptTokens: 4000, systemPromptTokensEst: 0 };
+
+    recordUsage(slug, {
+      model: "big",
+      origin: "user",
+      price: PRICE,
+      provider: "main",
+      sessionId: "internal:a",
+      usage: { ...usage, cachedTokens: 1000, reasoningTokens: 200 },
+    });
+    recordUsage(slug, {
+      model: "big",
+      origin: "heartbeat",
+      price: PRICE,
+      provider: "main",
+      sessionId: "internal:b",
+      usage,
+    });
+    recordUsage(slug, {
+      model: "local",
+      origin: "cron",
+      provider: "ollama",
+      sessionId: "internal:a",
+      usage,
+    });
+
+    const byModel = summarizeUsage(slug, { groupBy: "model" });
+    expect(byModel).toEqual([
+      {
+        cachedTokens: 1000,
+        completionTokens: 2000,
+        costUsd: expect.closeTo(0.0345, 6) as unknown,
+        generations: 2,
+        key: "big",
+        promptTokens: 8000,
+        reasoningTokens: 200,
+        unpriced: 0,
+      },
+      {
+        cachedTokens: 0,
+        completionTokens: 1000,
+        costUsd: 0,
+        generations: 1,
+        key: "local",
+        promptTokens: 4000,
+        reasoningTokens: 0,
+        unpriced: 1,
+      },
+    ]);
+
+    const bySession = summarizeUsage(slug, { groupBy: "session" });
+    expect(bySession.map((row) => [row.key, row.generations])).toEqual([
+      ["internal:b", 1],
+      ["internal:a", 2],
+    ]);
+
+    const report = formatUsageReport(byModel, "heading");
+    expect(report).toContain("Total: $0.0345");
+    expect(report).toContain("1 generation(s) have no price");
+  });
+
+  it("only sums generations inside the window", () => {
+    const slug = initTestDb();
+    const record = {
+      model: "big",
+      origin: "user" as const,
+      provider: "main",
+      sessionId: "internal:a",
+      usage: { completionTokens: 1, promptTokens: 1, systemPromptTokensEst: 0 },
+    };
+
+    vi.useFakeTimers({ now: new Date("2026-01-01T00:00:00Z"), toFake: ["Date"] });
+    recordUsage(slug, record);
+    vi.setSystemTime(new Date("2026-01-10T00:00:00Z"));
+    recordUsage(slug, record);
+
+    const [all] = summarizeUsage(slug, { groupBy: "model", since: parseWindow("all") });
+    const [recent] = summarizeUsage(slug, { groupBy: "model", since: parseWindow("7d") });
+    expect(all?.generations).toBe(2);
+    expect(recent?.generations).toBe(1);
+    expect(() => parseWindow("soon")).toThrow("Invalid window");
+  });
+});
@@ -0,0 +1,133 @@
+import { and, count, desc, eq, gte, min, sql } from "drizzle-orm";
+
+import type { ModelConfig } from "#config/schemas/engine.js";
+import type { UsageInfo } from "#engine/context.js";
+
+import { getDb } from "./index.js";
+import { usage } from "./schema.js";
+
+// What started the turn a generation belongs to.
+type TurnOrigin = "user" | "heartbeat" | "cron" | "summarizer";
+
+type ModelPrice = NonNullable<ModelConfig[string]["price"]>;
+
+interface UsageRecord {
+  sessionId: string;
+  provider: string;
+  model: string;
+  origin: TurnOrigin;
+  usage: UsageInfo;
+  price?: ModelPrice;
+}
+
+type UsageGrouping = "model" | "provider" | "session" | "origin";
+
+interface UsageTotals {
+  key: string;
+  generations: number;
+  promptTokens: number;
+  completionTokens: number;
+  cachedTokens: number;
+  reasoningTokens: number;
+  costUsd: number;
+  // Generations recorded without a price; their tokens are missing from costUsd.
+  unpriced: number;
+}
+
+function costOf(info: UsageInfo, price: ModelPrice): number {
+  const cached = info.cachedTokens ?? 0;
+  const uncached = Math.max(0, info.promptTokens - cached);
+  return (
+    (uncached * price.input +
+      cached * (price.cachedInput ?? price.input) +
+      info.completionTokens * price.output) /
+    1_000_000
+  );
+}
+
+function recordUsage(agentSlug: string, record: UsageRecord): void {
+  const db = getDb(agentSlug);
+  db.insert(usage)
+    .values({
+      cachedTokens: record.usage.cachedTokens ?? 0,
+      completionTokens: record.usage.completionTokens,
+      costUsd: record.price === undefined ? undefined : costOf(record.usage, record.price),
+      createdAt: Math.floor(Date.now() / 1000),
+      model: record.model,
+      origin: record.origin,
+      promptTokens: record.usage.promptTokens,
+      provider: record.provider,
+      reasoningTokens: record.usage.reasoningTokens ?? 0,
+      sessionId: record.sessionId,
+    })
+    .run();
+}
+
+const GROUP_COLUMNS = {
+  model: usage.model,
+  origin: usage.origin,
+  provider: usage.provider,
+  session: usage.sessionId,
+} as const;
+
+// Totals per group, most expensive first. `since` is a unix timestamp in
+// seconds; without it the whole ledger is summed.
+function summarizeUsage(
+  agentSlug: string,
+  options: { groupBy: UsageGrouping; since?: number },
+): UsageTotals[] {
+  const db = getDb(agentSlug);
+  const column = GROUP_COLUMNS[options.groupBy];
+  const costUsd = sql<number>`coalesce(sum(${usage.costUsd}), 0)`;
+  return db
+    .select({
+      cachedTokens: sql<number>`sum(${usage.cachedTokens})`,
+      completionTokens: sql<number>`sum(${usage.completionTokens})`,
+      costUsd,
+      generations: count(),
+      key: column,
+      promptTokens: sql<number>`sum(${usage.promptTokens})`,
+      reasoningTokens: sql<number>`sum(${usage.reasoningTokens})`,
+      unpriced: sql<number>`sum(${usage.costUsd} is null)`,
+    })
+    .from(usage)
+    .where(options.since === undefined ? undefined : gte(usage.createdAt, options.since))
+    .groupBy(column)
+    .orderBy(desc(costUsd), desc(sql`sum(${usage.promptTokens})`))
+    .all();
+}
+
+interface WindowUsage {
+  requests: number;
+  tokens: number;
+  // When the oldest generation in the window was recorded (unix seconds).
+  oldest: number | undefined;
+}
+
+// Generations and tokens recorded since `since`, for every provider or just
+// one. Feeds the rolling-window budget checks.
+function usageSince(agentSlug: string, since: number, provider?: string): WindowUsage {
+  const db = getDb(agentSlug);
+  const row = db
+    .select({
+      oldest: min(usage.createdAt),
+      requests: count(),
+      tokens: sql<number>`coalesce(sum(${usage.promptTokens} + ${usage.completionTokens}), 0)`,
+    })
+    .from(usage)
+    .where(
+      and(
+        gte(usage.createdAt, since),
+        provider === undefined ? undefined : eq(usage.provider, provider),
+      ),
+    )
+    .get();
+  return {
+    oldest: row?.oldest ?? undefined,
+    requests: row?.requests ?? 0,
+    tokens: row?.tokens ?? 0,
+  };
+}
+
+export { costOf, recordUsage, summarizeUsage, usageSince };
+export type { ModelPrice, TurnOrigin, UsageGrouping, UsageRecord, UsageTotals, WindowUsage };
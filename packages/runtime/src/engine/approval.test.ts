@@ -0,0 +1,107 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { requireApproval } from "#engine/approval.js";
+import type { Approver } from "#engine/approval.js";
+import { TuiSession } from "#harness/session.js";
+
+const mockRecordApproval = vi.fn();
+
+vi.mock("#db/approvals.js", () => ({
+  recordApproval: (...args: unknown[]): unknown => mockRecordApproval(...args),
+}));
+
+vi.mock("#output/log.js", () => ({
+  debug: vi.fn(),
+  warning: vi.fn(),
+}));
+
+function options(): Parameters<typeof requireApproval>[1] {
+  return {
+    agentSlug: "agent",
+    kind: "write",
+    session: new TuiSession(),
+    subject: "/workspace/deploy/prod.env",
+    timeoutSeconds: 1,
+  };
+}
+
+describe("requireApproval", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("returns once the owner approves and records who did", async () => {
+    const approver: Approver = vi.fn().mockResolvedValue({ approved: true, by: "tui" });
+
+    await requireApproval(approver, options());
+
+    expect(approver).toHaveBeenCalledWith(
+      expect.objectContaining({ kind: "write", subject: "/workspace/deploy/prod.env" }),
+      expect.any(AbortSignal),
+    );
+    expect(mockRecordApproval).toHaveBeenCalledWith(
+      "agent",
+      expect.objectContaining({ decidedBy: "tui", decision: "approved", sessionId: "tui" }),
+    );
+  });
+
+  it("keys the record with a full UUID", async () => {
+    const approver: Approver = vi.fn().mockResolvedValue({ approved: true, by: "tui" });
+
+    await requireApproval(approver, options());
+
+    const record: unknown = mockRecordApproval.mock.lastCall?.[1];
+    expect(record).toHaveProperty(
+      "id",
+      expect.stringMatching(/^[\da-f]{8}-[\da-f]{4}-[\da-f]{4}-[\da-f]{4}-[\da-f]{12}$/u),
+    );
+  });
+
+  it("throws when the owner denies", async () => {
+    const approver: Approver = vi.fn().mockResolvedValue({ approved: false, by: "tui" });
+
+    await expect(requireApproval(approver, options())).rejects.toThrow(
+      "The owner denied writing to /workspace/deploy/prod.env.",
+    );
+    expect(mockRecordApproval).toHaveBeenCalledWith(
+      "agent",
+      expect.objectContaining({ decision: "denied" }),
+    );
+  });
+
+  it("gives up when the owner doesn't answer in time", async () => {
+    const approver: Approver = vi.fn(
+      // oxlint-disable-next-line typescript/promise-function-async
+      () =>
+        new Promise<never>(() => {
+          // Never answers.
+        }),
+    );
+
+    await expect(requireApproval(approver, options())).rejects.toThrow("within 1 seconds");
+    expect(mockRecordApproval).toHaveBeenCalledWith(
+      "agent",
+      expect.objectContaining({ decision: "timeout" }),
+    );
+  });
+
+  it("describes plugin capability requests", async () => {
+    const approver: Approver = vi.fn().mockResolvedValue({ approved: false, by: "tui" });
+
+    await expect(
+      requireApproval(approver, {
+        ...options(),
+        kind: "plugin",
+        subject: "brave-search: net api.search.brave.com",
+      }),
+    ).rejects.toThrow("The owner denied plugin access (brave-search: net api.search.brave.com).");
+  });
+
+  it("throws without asking when no channel can reach the owner", async () => {
+    await expect(requireApproval(undefined, options())).rejects.toThrow("no channel could ask");
+    expect(mockRecordApproval).toHaveBeenCalledWith(
+      "agent",
+      expect.objectContaining({ decision: "unavailable" }),
+    );
+  });
+});
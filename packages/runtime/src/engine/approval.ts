@@ -0,0 +1,138 @@
+import { randomUUID } from "node:crypto";
+
+import { recordApproval } from "#db/approvals.js";
+import type { ApprovalDecision, ApprovalKind } from "#db/approvals.js";
+import { ToolError } from "#engine/errors.js";
+import type { ApprovalAnswer, ApprovalRequest } from "#harness/channel-handler.js";
+import type { Session } from "#harness/session.js";
+import colors from "#output/colors.js";
+import { debug, warning } from "#output/log.js";
+
+// How long an "ask" rule waits for the owner when conditions.toml doesn't say.
+const DEFAULT_APPROVAL_TIMEOUT_SECONDS = 300;
+
+type Approver = (request: ApprovalRequest, signal: AbortSignal) => Promise<ApprovalAnswer>;
+
+interface ApprovalOptions {
+  agentSlug: string;
+  session: Session;
+  kind: ApprovalKind;
+  subject: string;
+  timeoutSeconds: number;
+}
+
+function describe(kind: ApprovalKind, subject: string): string {
+  switch (kind) {
+    case "exec":
+      return `running \`${subject}\``;
+    case "plugin":
+      return `plugin access (${subject})`;
+    case "write":
+      return `writing to ${subject}`;
+    default: {
+      const exhaustive: never = kind;
+      throw new Error(`Unknown approval kind: ${String(exhaustive)}`);
+    }
+  }
+}
+
+async function ask(
+  approver: Approver,
+  request: ApprovalRequest,
+  timeoutSeconds: number,
+): Promise<{ decision: ApprovalDecision; decidedBy?: string }> {
+  const signal = AbortSignal.timeout(timeoutSeconds * 1000);
+  // The approver should reject on abort, but the turn must not hang on one
+  // that doesn't.
+  const timedOut = new Promise<never>((_resolve, reject) => {
+    signal.addEventListener("abort", () => {
+      reject(new Error("The approval request timed out"));
+    });
+  });
+  try {
+    const answer = await Promise.race([approver(request, signal), timedOut]);
+    return { decidedBy: answer.by, decision: answer.approved ? "approved" : "denied" };
+  } catch (error) {
+    if (signal.aborted) {
+      return { decision: "timeout" };
+    }
+    warning(
+      "Failed to ask the owner for approval",
+      colors.keyword(request.agentSlug),
+      error instanceof Error ? error.message : String(error),
+    );
+    return { decision: "unavailable" };
+  }
+}
+
+/**
+ * Waits for the owner to approve a write, command or plugin capability that
+ * an "ask" rule or grant stopped, records the decision, and throws a
+ * ToolError unless it was approved.
+ */
+async function requireApproval(
+  approver: Approver | undefined,
+  opts: ApprovalOptions,
+): Promise<void> {
+  const request: ApprovalRequest = {
+    agentSlug: opts.agentSlug,
+    // The approvals table's key, so the whole UUID; logs show a prefix.
+    id: randomUUID(),
+    kind: opts.kind,
+    session: opts.session,
+    subject: opts.subject,
+  };
+  const requestedAt = Math.floor(Date.now() / 1000);
+  const { decision, decidedBy } =
+    approver === undefined
+      ? { decidedBy: undefined, decision: "unavailable" as const }
+      : await ask(approver, request, opts.timeoutSeconds);
+
+  recordApproval(opts.agentSlug, {
+    decidedAt: Math.floor(Date.now() / 1000),
+    decidedBy,
+    decision,
+    id: request.id,
+    kind: opts.kind,
+    requestedAt,
+    sessionId: opts.session.id(),
+    subject: opts.subject,
+  });
+  debug(
+    "Approval",
+    colors.keyword(request.id.slice(0, 8)),
+    describe(opts.kind, opts.subject),
+    decision,
+  );
+
+  const action = describe(opts.kind, opts.subject);
+  switch (decision) {
+    case "approved": {
+      return;
+    }
+    case "denied": {
+      throw new ToolError(
+        `The owner denied ${action}.`,
+        "Don't retry it. Ask the user how they want to proceed.",
+      );
+    }
+    case "timeout": {
+      throw new ToolError(
+        `The owner didn't approve ${action} within ${opts.timeoutSeconds} seconds.`,
+        "Ask the user to watch for the approval request before trying again.",
+      );
+    }
+    case "unavailable": {
+      throw new ToolError(
+        `${action.charAt(0).toUpperCase()}${action.slice(1)} needs the owner's approval, but no channel could ask them.`,
+      );
+    }
+    default: {
+      const exhaustive: never = decision;
+      throw new Error(`Unknown approval decision: ${String(exhaustive)}`);
+    }
+  }
+}
+
+export { DEFAULT_APPROVAL_TIMEOUT_SECONDS, requireApproval };
+export type { Approver };
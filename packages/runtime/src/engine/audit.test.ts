@@ -0,0 +1,162 @@
+import { createHash } from "node:crypto";
+import { mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { beginToolAudit, finishToolAudit, sanitizeInput } from "#engine/audit.js";
+import type { ToolContext } from "#engine/tools/tool-def.js";
+import { TuiSession } from "#harness/session.js";
+import { agentRoot } from "#util/paths.js";
+
+const mockRecordAudit = vi.fn();
+const mockRunGit = vi.fn();
+
+vi.mock("#db/audit.js", () => ({
+  recordAudit: (...args: unknown[]): unknown => mockRecordAudit(...args),
+}));
+
+vi.mock("#engine/git.js", () => ({
+  runGit: (...args: unknown[]): unknown => mockRunGit(...args),
+}));
+
+vi.mock("#output/log.js", () => ({
+  debug: vi.fn(),
+  warning: vi.fn(),
+}));
+
+function sha256(content: string): string {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+describe("sanitizeInput", () => {
+  it("redacts secret-looking keys at any depth", () => {
+    expect(
+      sanitizeInput({ env: { API_KEY: "sk-123", HOME: "/workspace" }, token: 42 }, "agent"),
+    ).toEqual({ env: { API_KEY: "<redacted>", HOME: "/workspace" }, token: "<redacted>" });
+  });
+
+  it("hides host paths and shortens long strings to a hash", () => {
+    const long = "x".repeat(600);
+    expect(
+      sanitizeInput({ args: [`${agentRoot("agent")}/workspace/a`], content: long }, "agent"),
+    ).toEqual({
+      args: ["<sandbox>/workspace/a"],
+      content: `<600 chars, sha256:${sha256(long)}>`,
+    });
+  });
+});
+
+describe("tool audit", () => {
+  let dir = "";
+  // oxlint-disable-next-line typescript/no-unsafe-type-assertion -- The audit only reads these fields.
+  const ctx = {
+    agentSlug: "agent",
+    paths: {
+      // oxlint-disable-next-line typescript/require-await
+      resolve: async (sandboxPath: string): Promise<string> => path.join(dir, sandboxPath),
+    },
+    session: new TuiSession(),
+  } as unknown as ToolContext;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    dir = mkdtempSync(path.join(tmpdir(), "cireilclaw-audit-test-"));
+  });
+
+  it("records the hashes of a written file before and after the call", async () => {
+    const file = path.join(dir, "a.txt");
+    writeFileSync(file, "old");
+    const call = { input: { content: "new", path: "/a.txt" }, name: "write" };
+
+    const audit = await beginToolAudit(call.name, call.input, ctx);
+    writeFileSync(file, "new");
+    await finishToolAudit(audit, call, { success: true }, ctx, "user");
+
+    expect(mockRecordAudit).toHaveBeenCalledWith(
+      "agent",
+      expect.objectContaining({
+        affected: [{ after: sha256("new"), before: sha256("old"), target: "/a.txt" }],
+        origin: "user",
+        sessionId: "tui",
+        success: true,
+        tool: "write",
+      }),
+    );
+  });
+
+  it("records exec output files and failures", async () => {
+    writeFileSync(path.join(dir, "out.txt"), "output");
+    const call = { input: { command: "false" }, name: "exec" };
+
+    const audit = await beginToolAudit(call.name, call.input, ctx);
+    await finishToolAudit(
+      audit,
+      call,
+      { error: "exit 1", stdoutPath: "/out.txt", success: false },
+      ctx,
+      "heartbeat",
+    );
+
+    expect(mockRecordAudit).toHaveBeenCalledWith(
+      "agent",
+      expect.objectContaining({
+        affected: [{ after: sha256("output"), before: undefined, target: "/out.txt" }],
+        error: "exit 1",
+        success: false,
+      }),
+    );
+  });
+
+  it("records the output files run-code saves", async () => {
+    writeFileSync(path.join(dir, "cell.out"), "printed");
+    const call = { input: { code: "print(1)", language: "python" }, name: "run-code" };
+
+    const audit = await beginToolAudit(call.name, call.input, ctx);
+    await finishToolAudit(audit, call, { stdoutPath: "/cell.out", success: true }, ctx, "user");
+
+    expect(mockRecordAudit).toHaveBeenCalledWith(
+      "agent",
+      expect.objectContaining({
+        affected: [{ after: sha256("printed"), before: undefined, target: "/cell.out" }],
+        tool: "run-code",
+      }),
+    );
+  });
+
+  it("records the commit a git-commit moved the repository from and to", async () => {
+    mockRunGit
+      .mockResolvedValueOnce({ exitCode: 0, stdout: "aaa111\n" })
+      .mockResolvedValueOnce({ exitCode: 0, stdout: "bbb222\n" });
+    const call = { input: { message: "Fix", path: "/workspace/repo" }, name: "git-commit" };
+
+    const audit = await beginToolAudit(call.name, call.input, ctx);
+    await finishToolAudit(audit, call, { commit: "bbb222", success: true }, ctx, "user");
+
+    expect(mockRunGit).toHaveBeenCalledWith(
+      ctx,
+      "/workspace/repo",
+      ["rev-parse", "--verify", "--quiet", "HEAD"],
+      { allowedExitCodes: [1] },
+    );
+    expect(mockRecordAudit).toHaveBeenCalledWith(
+      "agent",
+      expect.objectContaining({
+        affected: [{ after: "bbb222", before: "aaa111", target: "git:/workspace/repo" }],
+        tool: "git-commit",
+      }),
+    );
+  });
+
+  it("leaves out affected paths for read-only tools", async () => {
+    const call = { input: { path: "/a.txt" }, name: "read" };
+
+    await finishToolAudit(await beginToolAudit(call.name, call.input, ctx), call, {}, ctx, "user");
+
+    expect(mockRecordAudit).toHaveBeenCalledWith(
+      "agent",
+      expect.objectContaining({ affected: undefined, success: true, tool: "read" }),
+    );
+  });
+});
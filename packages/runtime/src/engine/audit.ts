@@ -0,0 +1,177 @@
+import { createHash } from "node:crypto";
+import { readFile } from "node:fs/promises";
+
+import * as vb from "valibot";
+
+import { recordAudit } from "#db/audit.js";
+import type { AuditTarget } from "#db/audit.js";
+import { getCronJob } from "#db/cron.js";
+import type { TurnOrigin } from "#db/usage.js";
+import { runGit } from "#engine/git.js";
+import type { ToolContext } from "#engine/tools/tool-def.js";
+import colors from "#output/colors.js";
+import { warning } from "#output/log.js";
+import { agentRoot } from "#util/paths.js";
+
+// Strings longer than this are replaced by their length and hash, so file
+// contents passed to write or edit don't bloat the log.
+const MAX_INPUT_STRING_CHARS = 500;
+
+const SECRET_KEY_PATTERN = /token|secret|password|passphrase|api[-_]?key|authorization|cookie/iu;
+
+type ToolInput = Record<string, unknown>;
+
+function stringFields(value: ToolInput, ...keys: string[]): string[] {
+  return keys.flatMap((key) => {
+    const field = value[key];
+    return typeof field === "string" && field !== "" ? [field] : [];
+  });
+}
+
+// What each mutating tool may change, as sandbox paths, `cron:<id>`, or
+// `git:<dir>` for the commit checked out in the repository at <dir>. Exec
+// and run-code changes inside the sandbox aren't tracked file by file
+// (snapshots cover those), only the output files they write for the agent.
+const MUTATING_TOOLS: Record<
+  string,
+  { before?(input: ToolInput): string[]; after?(result: ToolInput): string[] }
+> = {
+  edit: { before: (input) => stringFields(input, "path") },
+  exec: { after: (result) => stringFields(result, "stdoutPath", "stderrPath") },
+  "git-commit": { before: (input) => stringFields(input, "path").map((dir) => `git:${dir}`) },
+  "run-code": { after: (result) => stringFields(result, "stdoutPath", "stderrPath") },
+  schedule: {
+    before: (input) => stringFields(input, "id").map((id) => `cron:${id}`),
+  },
+  "str-replace": { before: (input) => stringFields(input, "path") },
+  write: { before: (input) => stringFields(input, "path") },
+};
+
+interface ToolAudit {
+  startedAt: number;
+  before: Map<string, string | undefined>;
+}
+
+function asRecord(value: unknown): ToolInput {
+  const parsed = vb.safeParse(vb.record(vb.string(), vb.unknown()), value);
+  return parsed.success ? parsed.output : {};
+}
+
+function sha256(content: string | Buffer): string {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+/**
+ * Copies a tool input for the audit log: secret-looking keys are redacted,
+ * host paths are hidden, and long strings are reduced to their length and
+ * hash.
+ */
+function sanitizeInput(value: unknown, agentSlug: string): unknown {
+  if (typeof value === "string") {
+    if (value.length > MAX_INPUT_STRING_CHARS) {
+      return `<${value.length} chars, sha256:${sha256(value)}>`;
+    }
+    return value.replaceAll(agentRoot(agentSlug), "<sandbox>");
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => sanitizeInput(item, agentSlug));
+  }
+  if (typeof value === "object" && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        SECRET_KEY_PATTERN.test(key) && typeof item !== "object"
+          ? "<redacted>"
+          : sanitizeInput(item, agentSlug),
+      ]),
+    );
+  }
+  return value;
+}
+
+// Undefined when the target doesn't exist (or can't be read).
+async function hashTarget(target: string, ctx: ToolContext): Promise<string | undefined> {
+  if (target.startsWith("cron:")) {
+    const config = getCronJob(ctx.agentSlug, target.slice("cron:".length))?.config;
+    return typeof config === "string" ? sha256(config) : undefined;
+  }
+  if (target.startsWith("git:")) {
+    try {
+      const { stdout } = await runGit(
+        ctx,
+        target.slice("git:".length),
+        ["rev-parse", "--verify", "--quiet", "HEAD"],
+        { allowedExitCodes: [1] },
+      );
+      // The commit ID already is a hash of everything in it.
+      return stdout.trim() === "" ? undefined : stdout.trim();
+    } catch {
+      return undefined;
+    }
+  }
+  try {
+    return sha256(await readFile(await ctx.paths.resolve(target)));
+  } catch {
+    return undefined;
+  }
+}
+
+/** Notes the start time and, for mutating tools, what their targets hold. */
+async function beginToolAudit(tool: string, input: unknown, ctx: ToolContext): Promise<ToolAudit> {
+  const before = new Map<string, string | undefined>();
+  for (const target of MUTATING_TOOLS[tool]?.before?.(asRecord(input)) ?? []) {
+    before.set(target, await hashTarget(target, ctx));
+  }
+  return { before, startedAt: performance.now() };
+}
+
+/**
+ * Appends the finished call to the agent's audit log. Failing to record it
+ * only logs a warning; the turn goes on.
+ */
+async function finishToolAudit(
+  audit: ToolAudit,
+  call: { name: string; input: unknown },
+  result: Record<string, unknown>,
+  ctx: ToolContext,
+  origin: TurnOrigin,
+): Promise<void> {
+  const durationMs = performance.now() - audit.startedAt;
+  try {
+    const mutation = MUTATING_TOOLS[call.name];
+    let affected: AuditTarget[] | undefined = undefined;
+    if (mutation !== undefined) {
+      const targets = [...audit.before.keys(), ...(mutation.after?.(result) ?? [])];
+      affected = [];
+      for (const target of new Set(targets)) {
+        affected.push({
+          after: await hashTarget(target, ctx),
+          before: audit.before.get(target),
+          target,
+        });
+      }
+    }
+
+    const success = result["success"] !== false;
+    recordAudit(ctx.agentSlug, {
+      affected,
+      durationMs,
+      error: !success && typeof result["error"] === "string" ? result["error"] : undefined,
+      input: sanitizeInput(call.input, ctx.agentSlug),
+      origin,
+      sessionId: ctx.session.id(),
+      success,
+      tool: call.name,
+    });
+  } catch (error) {
+    warning(
+      "Failed to record a tool call in the audit log",
+      colors.keyword(ctx.agentSlug),
+      colors.keyword(call.name),
+      error instanceof Error ? error.message : String(error),
+    );
+  }
+}
+
+export { beginToolAudit, finishToolAudit, sanitizeInput };
+export type { ToolAudit };
@@ -0,0 +1,101 @@
+import { randomUUID } from "node:crypto";
+import { mkdirSync, mkdtempSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+
+import * as vb from "valibot";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { BudgetsConfigSchema } from "#config/schemas/budgets.js";
+import { claimBudgetNotice } from "#db/budgets.js";
+import { initDb } from "#db/index.js";
+import { recordUsage } from "#db/usage.js";
+import { checkBudgets } from "#engine/budget.js";
+import { BudgetExceededError } from "#engine/errors.js";
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllEnvs();
+});
+
+function initTestDb(): string {
+  const home = mkdtempSync(path.join(tmpdir(), "cireilclaw-budget-test-"));
+  vi.stubEnv("HOME", home);
+
+  const slug = `agent-${randomUUID()}`;
+  mkdirSync(path.join(home, ".cireilclaw", "agents", slug), { recursive: true });
+  initDb(slug);
+  return slug;
+}
+
+function record(slug: string, provider: string, tokens: number): void {
+  recordUsage(slug, {
+    model: "model",
+    origin: "user",
+    provider,
+    sessionId: "internal:test",
+    usage: { completionTokens: 0, promptTokens: tokens, systemPromptTokensEst: 0 },
+  });
+}
+
+// The budget checkBudgets refuses with, if any.
+function exhausted(...args: Parameters<typeof checkBudgets>): BudgetExceededError | undefined {
+  try {
+    checkBudgets(...args);
+  } catch (error) {
+    if (error instanceof BudgetExceededError) {
+      return error;
+    }
+    throw error;
+  }
+  return undefined;
+}
+
+describe("checkBudgets", () => {
+  it("stops a turn after its generation budget", () => {
+    const slug = initTestDb();
+    const config = vb.parse(BudgetsConfigSchema, { generationsPerTurn: 3 });
+
+    expect(exhausted(slug, config, "main", 2)).toBeUndefined();
+    expect(exhausted(slug, config, "main", 3)?.budget).toBe("turn:generationsPerTurn");
+  });
+
+  it("counts rolling windows from the ledger, per agent and per provider", () => {
+    const slug = initTestDb();
+    const config = vb.parse(BudgetsConfigSchema, {
+      providers: { cheap: { requestsPerHour: 2 } },
+      tokensPerDay: 1000,
+    });
+
+    vi.useFakeTimers({ now: new Date("2026-01-01T00:00:00Z"), toFake: ["Date"] });
+    record(slug, "cheap", 10);
+    record(slug, "main", 10);
+    record(slug, "cheap", 10);
+
+    expect(exhausted(slug, config, "main", 0)).toBeUndefined();
+    const refused = exhausted(slug, config, "cheap", 0);
+    expect(refused?.budget).toBe("provider:cheap:requestsPerHour");
+    expect(refused?.until).toBe(Date.parse("2026-01-01T01:00:00Z") / 1000);
+
+    // An hour later the requests have aged out, but the day's tokens haven't.
+    vi.setSystemTime(new Date("2026-01-01T01:00:01Z"));
+    expect(exhausted(slug, config, "cheap", 0)).toBeUndefined();
+    record(slug, "main", 970);
+    expect(exhausted(slug, config, "cheap", 0)?.budget).toBe("agent:tokensPerDay");
+  });
+});
+
+describe("claimBudgetNotice", () => {
+  it("claims each exhausted window once", () => {
+    const slug = initTestDb();
+    vi.useFakeTimers({ now: new Date("2026-01-01T00:00:00Z"), toFake: ["Date"] });
+    const until = Date.parse("2026-01-01T01:00:00Z") / 1000;
+
+    expect(claimBudgetNotice(slug, "agent:tokensPerHour", until)).toBe(true);
+    expect(claimBudgetNotice(slug, "agent:tokensPerHour", until)).toBe(false);
+    expect(claimBudgetNotice(slug, "agent:tokensPerDay", until)).toBe(true);
+
+    vi.setSystemTime(new Date("2026-01-01T01:00:00Z"));
+    expect(claimBudgetNotice(slug, "agent:tokensPerHour", until + 3600)).toBe(true);
+  });
+});
@@ -0,0 +1,74 @@
+import type { BudgetLimits, BudgetsConfig } from "#config/schemas/budgets.js";
+import { usageSince } from "#db/usage.js";
+import { BudgetExceededError } from "#engine/errors.js";
+
+const HOUR = 3600;
+const DAY = 24 * HOUR;
+
+// Every rolling-window limit, with its length and what it counts.
+const WINDOWS = [
+  { limit: "tokensPerHour", metric: "tokens", seconds: HOUR },
+  { limit: "tokensPerDay", metric: "tokens", seconds: DAY },
+  { limit: "requestsPerHour", metric: "requests", seconds: HOUR },
+  { limit: "requestsPerDay", metric: "requests", seconds: DAY },
+] as const;
+
+function checkLimits(
+  agentSlug: string,
+  limits: BudgetLimits,
+  scope: { key: string; label: string; provider?: string },
+  now: number,
+): void {
+  for (const { limit, metric, seconds } of WINDOWS) {
+    const max = limits[limit];
+    if (max === undefined) {
+      continue;
+    }
+    const used = usageSince(agentSlug, now - seconds, scope.provider);
+    if (used[metric] < max) {
+      continue;
+    }
+    // A rolling window frees up as its oldest generations age out.
+    const until = (used.oldest ?? now) + seconds;
+    throw new BudgetExceededError(
+      `${scope.key}:${limit}`,
+      `${scope.label} budget ${limit} exhausted (${used[metric]}/${max} ${metric})`,
+      until,
+    );
+  }
+}
+
+// Throws BudgetExceededError when the next generation would exceed one of
+// the agent's budgets. Windows are read from the usage ledger, so spend from
+// before a restart still counts.
+function checkBudgets(
+  agentSlug: string,
+  config: BudgetsConfig,
+  provider: string,
+  generationsThisTurn: number,
+): void {
+  const now = Math.floor(Date.now() / 1000);
+
+  if (config.generationsPerTurn !== undefined && generationsThisTurn >= config.generationsPerTurn) {
+    throw new BudgetExceededError(
+      "turn:generationsPerTurn",
+      `Turn budget generationsPerTurn exhausted (${generationsThisTurn}/${config.generationsPerTurn} generations)`,
+      // Per turn, so nothing to wait for; remind the owner at most hourly.
+      now + HOUR,
+    );
+  }
+
+  checkLimits(agentSlug, config, { key: "agent", label: "Agent" }, now);
+
+  const providerLimits = config.providers[provider];
+  if (providerLimits !== undefined) {
+    checkLimits(
+      agentSlug,
+      providerLimits,
+      { key: `provider:${provider}`, label: `Provider '${provider}'`, provider },
+      now,
+    );
+  }
+}
+
+export { checkBudgets };
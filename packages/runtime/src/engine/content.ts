@@ -90,6 +90,9 @@ interface ToolCallContent {
   input: unknown;
   name: string;
   id: string;
+  // Gemini-issued signature of the reasoning behind this call; must be echoed
+  // back on the same call. Other providers ignore it.
+  thoughtSignature?: string;
 }
 
 interface ToolResponseContent {
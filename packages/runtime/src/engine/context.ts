@@ -10,9 +10,24 @@ interface Context {
 }
 
 interface UsageInfo {
+  // Every input token, including the ones served from the prompt cache.
   promptTokens: number;
   completionTokens: number;
+  // Subsets of the two counts above, for providers that report them.
+  cachedTokens?: number;
+  reasoningTokens?: number;
   systemPromptTokensEst: number;
 }
 
-export type { Context, UsageInfo };
+// Streaming providers report each tool call's arguments as they accumulate,
+// so callers can act on a call before generation finishes. `arguments` is the
+// raw JSON text received so far and is usually incomplete.
+interface ToolCallDelta {
+  index: number;
+  name: string;
+  arguments: string;
+}
+
+type ToolCallDeltaHandler = (delta: ToolCallDelta) => void;
+
+export type { Context, ToolCallDelta, ToolCallDeltaHandler, UsageInfo };
@@ -0,0 +1,58 @@
+import * as vb from "valibot";
+import { describe, expect, it } from "vitest";
+
+import { ProvidersConfigSchema } from "#config/schemas/engine.js";
+import {
+  classifyHttpFailure,
+  failoverReason,
+  GenerationNoToolCallsError,
+  ProviderError,
+} from "#engine/errors.js";
+
+describe("classifyHttpFailure", () => {
+  it.each([
+    [401, "", "auth"],
+    [403, "", "auth"],
+    [429, "", "rate-limit"],
+    [503, "", "server"],
+    [400, '{"error":{"code":"context_length_exceeded"}}', "context-length"],
+    [400, "prompt is too long: 210000 tokens > 200000 maximum", "context-length"],
+    [400, "invalid tool schema", "request"],
+    [404, "model not found", "request"],
+  ])("classifies %i %s as %s", (status, body, failure) => {
+    expect(classifyHttpFailure(status, body)).toBe(failure);
+  });
+});
+
+describe("failoverReason", () => {
+  it("only fails over on errors another provider might not repeat", () => {
+    expect(failoverReason(new ProviderError("down", "server", 502))).toBe("server");
+    expect(failoverReason(new ProviderError("bad", "request", 400))).toBeUndefined();
+    expect(failoverReason(new TypeError("fetch failed"))).toBe("unavailable");
+    expect(failoverReason(new GenerationNoToolCallsError("text", "stop"))).toBeUndefined();
+  });
+});
+
+describe("fallback config", () => {
+  const provider = { apiBase: "https://example.com/v1", defaultModel: "model" };
+
+  it("requires fallbacks to name known providers", () => {
+    const valid = {
+      local: provider,
+      main: {
+        ...provider,
+        fallbacks: [{ provider: "local" }],
+        isGlobalDefault: true,
+        models: { model: { fallbacks: [{ model: "other", provider: "local" }] } },
+      },
+    };
+    expect(vb.safeParse(ProvidersConfigSchema, valid).success).toBe(true);
+
+    const invalid = { main: { ...provider, fallbacks: [{ provider: "missing" }] } };
+    const result = vb.safeParse(ProvidersConfigSchema, invalid);
+    expect(result.success).toBe(false);
+    expect(result.issues?.[0]?.message).toBe(
+      "Provider 'main' falls back to 'missing', which isn't defined in engine.toml",
+    );
+  });
+});
@@ -11,6 +11,81 @@ class GenerationNoToolCallsError extends Error {
   }
 }
 
+// Why a provider request failed, as far as choosing what to do next goes.
+// Everything but "request" may succeed against another provider.
+type ProviderFailure =
+  | "auth"
+  | "context-length"
+  | "rate-limit"
+  | "request"
+  | "server"
+  | "unavailable";
+
+const CONTEXT_LENGTH_PATTERN =
+  /context[_ ]length|context window|prompt is too long|maximum context|too many tokens|input token count/iu;
+
+function classifyHttpFailure(status: number, body: string): ProviderFailure {
+  if (status === 401 || status === 403) {
+    return "auth";
+  }
+  if (status === 429) {
+    return "rate-limit";
+  }
+  if (status >= 500) {
+    return "server";
+  }
+  if ((status === 400 || status === 413) && CONTEXT_LENGTH_PATTERN.test(body)) {
+    return "context-length";
+  }
+  return "request";
+}
+
+// A provider request that failed before producing a generation.
+class ProviderError extends Error {
+  public readonly failure: ProviderFailure;
+  public readonly status: number | undefined;
+
+  public constructor(
+    message: string,
+    failure: ProviderFailure,
+    status?: number,
+    options?: ErrorOptions,
+  ) {
+    super(message, options);
+    this.name = "ProviderError";
+    this.failure = failure;
+    this.status = status;
+  }
+}
+
+// The reason to try the next provider in a fallback chain, or undefined when
+// the error would most likely repeat there too.
+function failoverReason(error: unknown): ProviderFailure | undefined {
+  if (error instanceof ProviderError) {
+    return error.failure === "request" ? undefined : error.failure;
+  }
+  // fetch() rejects with a bare TypeError when the endpoint can't be reached.
+  if (error instanceof TypeError && error.message === "fetch failed") {
+    return "unavailable";
+  }
+  return undefined;
+}
+
+// Thrown instead of calling the provider once a configured budget is spent.
+class BudgetExceededError extends Error {
+  // Stable identifier of the exhausted budget, e.g. "provider:openrouter:tokensPerDay".
+  public readonly budget: string;
+  // Unix seconds after which the budget has room again, as far as it can be known.
+  public readonly until: number;
+
+  public constructor(budget: string, message: string, until: number) {
+    super(message);
+    this.name = "BudgetExceededError";
+    this.budget = budget;
+    this.until = until;
+  }
+}
+
 class ParseError extends ToolError {
   public issues: [vb.BaseIssue<unknown>, ...vb.BaseIssue<unknown>[]];
 
@@ -21,4 +96,13 @@ class ParseError extends ToolError {
   }
 }
 
-export { GenerationNoToolCallsError, ParseError, ToolError };
+export {
+  BudgetExceededError,
+  classifyHttpFailure,
+  failoverReason,
+  GenerationNoToolCallsError,
+  ParseError,
+  ProviderError,
+  ToolError,
+};
+export type { ProviderFailure };
@@ -0,0 +1,149 @@
+import type { Dirent } from "node:fs";
+import { readdir, stat } from "node:fs/promises";
+import path from "node:path";
+
+import { ToolError } from "#engine/errors.js";
+import type { ToolContext } from "#engine/tools/tool-def.js";
+import { getMountEntriesAtPath } from "#util/paths.js";
+
+const SEARCH_ROOTS = ["/workspace", "/memories", "/blocks", "/skills"] as const;
+
+// Directories that are never worth searching and can be huge.
+const SKIPPED_DIRECTORIES = new Set([".git", "node_modules"]);
+
+// Entries looked at in one search before it gives up and reports a partial
+// result.
+const MAX_VISITED_ENTRIES = 20_000;
+
+interface SearchedFile {
+  // Sandbox path, like /workspace/src/index.ts.
+  path: string;
+  // Relative to the directory the search started in.
+  relativePath: string;
+  realPath: string;
+}
+
+interface WalkState {
+  visited: number;
+  // Set when the walk stopped at MAX_VISITED_ENTRIES.
+  truncated: boolean;
+}
+
+/** Normalizes `sandboxPath` and checks that it is a directory a search may start in. */
+function searchRoot(sandboxPath: string): string {
+  const normalized = path.posix.normalize(sandboxPath).replace(/(?<=.)\/$/u, "");
+  const allowed = SEARCH_ROOTS.some(
+    (root) => normalized === root || normalized.startsWith(`${root}/`),
+  );
+  if (!allowed) {
+    throw new ToolError(
+      `Cannot search '${sandboxPath}'. Search roots are ${SEARCH_ROOTS.join(", ")}.`,
+    );
+  }
+  return normalized;
+}
+
+async function listDirectory(
+  ctx: ToolContext,
+  dir: string,
+): Promise<{ name: string; entry?: Dirent; realDir: string }[]> {
+  const realDir = await ctx.paths.resolve(dir);
+  let entries: Dirent[] = [];
+  try {
+    entries = await readdir(realDir, { withFileTypes: true });
+  } catch (error) {
+    // A directory that only exists to hold mounts has no host counterpart.
+    if (!(error instanceof Error && "code" in error && error.code === "ENOENT")) {
+      throw error;
+    }
+  }
+
+  // Mounts shadow whatever is at their target, like in list-dir.
+  const mountNames = new Set(
+    getMountEntriesAtPath(dir, ctx.mounts ?? []).map((mount) => mount.name),
+  );
+  const listed: { name: string; entry?: Dirent; realDir: string }[] = entries
+    .filter((entry) => !mountNames.has(entry.name))
+    .map((entry) => ({ entry, name: entry.name, realDir }));
+  for (const name of mountNames) {
+    listed.push({ name, realDir });
+  }
+  return listed.toSorted((left, right) => (left.name < right.name ? -1 : 1));
+}
+
+// The real path of a symlink that leads to a regular file inside the
+// sandbox. Links that lead outside it fail to resolve; links to directories
+// aren't followed.
+async function linkedFile(ctx: ToolContext, sandboxPath: string): Promise<string | undefined> {
+  try {
+    const realPath = await ctx.paths.resolve(sandboxPath);
+    const stats = await stat(realPath);
+    return stats.isFile() ? realPath : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+async function isReadable(ctx: ToolContext, sandboxPath: string): Promise<boolean> {
+  try {
+    await ctx.paths.checkConditionalAccess(sandboxPath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function* walkDirectory(
+  ctx: ToolContext,
+  dir: string,
+  root: string,
+  state: WalkState,
+): AsyncGenerator<SearchedFile> {
+  let listed: Awaited<ReturnType<typeof listDirectory>> = [];
+  try {
+    listed = await listDirectory(ctx, dir);
+  } catch {
+    return;
+  }
+
+  for (const { name, entry, realDir } of listed) {
+    state.visited++;
+    if (state.visited > MAX_VISITED_ENTRIES) {
+      state.truncated = true;
+      return;
+    }
+
+    const sandboxPath = `${dir}/${name}`;
+    let realPath: string | undefined = undefined;
+    if (entry === undefined || entry.isDirectory()) {
+      if (!SKIPPED_DIRECTORIES.has(name)) {
+        yield* walkDirectory(ctx, sandboxPath, root, state);
+      }
+    } else if (entry.isFile()) {
+      realPath = path.join(realDir, name);
+    } else if (entry.isSymbolicLink()) {
+      realPath = await linkedFile(ctx, sandboxPath);
+    }
+
+    if (realPath !== undefined && (await isReadable(ctx, sandboxPath))) {
+      yield { path: sandboxPath, realPath, relativePath: sandboxPath.slice(root.length + 1) };
+    }
+  }
+}
+
+/**
+ * Yields the files under `root` sorted by path, skipping the ones the
+ * conditions.toml rules keep `read` from, and without following symlinked
+ * directories. Stops early, setting `state.truncated`, after
+ * MAX_VISITED_ENTRIES entries.
+ */
+async function* walkFiles(
+  ctx: ToolContext,
+  root: string,
+  state: WalkState,
+): AsyncGenerator<SearchedFile> {
+  yield* walkDirectory(ctx, root, root, state);
+}
+
+export { searchRoot, walkFiles };
+export type { SearchedFile, WalkState };
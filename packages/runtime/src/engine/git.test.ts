@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+
+import { parseLog, parseNameStatus, parseNumstat, parseStatus } from "#engine/git.js";
+
+describe("parseStatus", () => {
+  it("reads the branch, upstream and each kind of entry", () => {
+    const output = [
+      "# branch.oid 1234abcd",
+      "# branch.head main",
+      "# branch.upstream origin/main",
+      "# branch.ab +2 -1",
+      "1 M. N... 100644 100644 100644 aaaa bbbb src/index.ts",
+      "1 .D N... 100644 100644 000000 aaaa aaaa old file.txt",
+      "1 AM N... 000000 100644 100644 0000 cccc new.ts",
+      "2 R. N... 100644 100644 100644 aaaa aaaa R100 renamed.ts",
+      "original.ts",
+      "u UU N... 100644 100644 100644 100644 aaaa bbbb cccc conflict.ts",
+      "? notes/todo.md",
+      "",
+    ].join("\0");
+
+    expect(parseStatus(output)).toStrictEqual({
+      ahead: 2,
+      behind: 1,
+      branch: "main",
+      conflicted: ["conflict.ts"],
+      detached: false,
+      head: "1234abcd",
+      staged: [
+        { change: "modified", path: "src/index.ts" },
+        { change: "added", path: "new.ts" },
+        { change: "renamed", from: "original.ts", path: "renamed.ts" },
+      ],
+      unstaged: [
+        { change: "deleted", path: "old file.txt" },
+        { change: "modified", path: "new.ts" },
+      ],
+      untracked: ["notes/todo.md"],
+      upstream: "origin/main",
+    });
+  });
+
+  it("handles a detached HEAD and an empty repository", () => {
+    const detached = parseStatus("# branch.oid abcd\0# branch.head (detached)\0");
+
+    expect(detached).toMatchObject({ detached: true, head: "abcd" });
+    expect(detached.branch).toBeUndefined();
+    expect(parseStatus("# branch.oid (initial)\0# branch.head main\0").head).toBeUndefined();
+  });
+});
+
+describe("parseNameStatus and parseNumstat", () => {
+  it("pairs status letters with paths and spots binary files", () => {
+    expect(parseNameStatus("M\0a.ts\0D\0b c.ts\0A\0img.png\0")).toStrictEqual([
+      { change: "modified", path: "a.ts" },
+      { change: "deleted", path: "b c.ts" },
+      { change: "added", path: "img.png" },
+    ]);
+
+    const stats = parseNumstat(["3\t1\ta.ts", "0\t4\tb c.ts", "-\t-\timg.png", ""].join("\0"));
+
+    expect(stats.get("a.ts")).toStrictEqual({ added: 3, binary: false, removed: 1 });
+    expect(stats.get("b c.ts")).toStrictEqual({ added: 0, binary: false, removed: 4 });
+    expect(stats.get("img.png")).toStrictEqual({ added: 0, binary: true, removed: 0 });
+  });
+});
+
+describe("parseLog", () => {
+  it("splits commits and their fields", () => {
+    const output = [
+      "h1\u001FAda\u001Fada@example.com\u001F2026-10-01T10:00:00+00:00\u001FAdd parser\u001FLonger\nbody\n\u001E",
+      "\nh2\u001FBob\u001Fbob@example.com\u001F2026-09-30T09:00:00+00:00\u001FInitial commit\u001F\u001E",
+      "\n",
+    ].join("");
+
+    expect(parseLog(output)).toStrictEqual([
+      {
+        author: "Ada",
+        body: "Longer\nbody",
+        date: "2026-10-01T10:00:00+00:00",
+        email: "ada@example.com",
+        hash: "h1",
+        subject: "Add parser",
+      },
+      {
+        author: "Bob",
+        body: "",
+        date: "2026-09-30T09:00:00+00:00",
+        email: "bob@example.com",
+        hash: "h2",
+        subject: "Initial commit",
+      },
+    ]);
+  });
+});
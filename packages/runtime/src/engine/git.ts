@@ -0,0 +1,284 @@
+import { ToolError } from "#engine/errors.js";
+import type { ToolContext } from "#engine/tools/tool-def.js";
+import { resolveExecAccess } from "#util/conditions.js";
+import { exec } from "#util/sandbox.js";
+
+// Git runs inside the sandbox like any exec command, so hooks, filters and
+// repository config the agent controls never run on the host. The git tools
+// add the binary themselves; it doesn't need to be in the exec allowlist.
+const GIT_BINARY = "git";
+const GIT_TIMEOUT_MS = 30_000;
+
+// Options every call gets: no pager or colors, and paths printed as-is.
+const GIT_BASE_ARGS = ["--no-pager", "-c", "color.ui=false", "-c", "core.quotepath=false"];
+
+type GitChange =
+  | "added"
+  | "copied"
+  | "deleted"
+  | "modified"
+  | "renamed"
+  | "typechange"
+  | "unmerged";
+
+interface GitFileChange {
+  path: string;
+  change: GitChange;
+  // The old path of a rename or copy.
+  from?: string;
+}
+
+interface GitStatus {
+  branch?: string;
+  // The checked-out commit, when there is one; unset in an empty repository.
+  head?: string;
+  detached: boolean;
+  upstream?: string;
+  ahead?: number;
+  behind?: number;
+  staged: GitFileChange[];
+  unstaged: GitFileChange[];
+  conflicted: string[];
+  untracked: string[];
+}
+
+interface GitNumstat {
+  added: number;
+  removed: number;
+  binary: boolean;
+}
+
+interface GitCommit {
+  hash: string;
+  author: string;
+  email: string;
+  date: string;
+  subject: string;
+  body: string;
+}
+
+const CHANGE_CODES = new Map<string, GitChange>([
+  ["A", "added"],
+  ["C", "copied"],
+  ["D", "deleted"],
+  ["M", "modified"],
+  ["R", "renamed"],
+  ["T", "typechange"],
+  ["U", "unmerged"],
+]);
+
+// Separators for `git log --format`; they can't occur in commit metadata.
+const FIELD_SEPARATOR = "\u001F";
+const RECORD_SEPARATOR = "\u001E";
+const LOG_FORMAT = `${["%H", "%an", "%ae", "%aI", "%s", "%b"].join("%x1f")}%x1e`;
+
+function changeFor(code: string): GitChange {
+  return CHANGE_CODES.get(code) ?? "modified";
+}
+
+// `git status --porcelain=v2 --branch -z`. Entry fields are separated by
+// spaces and the path comes last, so it is everything after the fixed fields.
+function parseStatus(output: string): GitStatus {
+  const status: GitStatus = {
+    conflicted: [],
+    detached: false,
+    staged: [],
+    unstaged: [],
+    untracked: [],
+  };
+  const records = output.split("\0");
+
+  for (let idx = 0; idx < records.length; idx++) {
+    const record = records[idx] ?? "";
+    const fields = record.split(" ");
+    const [kind = "", xy = ".."] = fields;
+
+    if (kind === "#") {
+      const value = fields.slice(2).join(" ");
+      switch (fields[1] ?? "") {
+        case "branch.oid":
+          if (value !== "(initial)") {
+            status.head = value;
+          }
+          break;
+        case "branch.head":
+          if (value === "(detached)") {
+            status.detached = true;
+          } else {
+            status.branch = value;
+          }
+          break;
+        case "branch.upstream":
+          status.upstream = value;
+          break;
+        case "branch.ab":
+          status.ahead = Math.abs(Number(fields[2] ?? "0"));
+          status.behind = Math.abs(Number(fields[3] ?? "0"));
+          break;
+        default:
+          break;
+      }
+    } else if (kind === "1" || kind === "2") {
+      const path = fields.slice(kind === "1" ? 8 : 9).join(" ");
+      // A rename's old path follows as a record of its own.
+      const from = kind === "2" ? records[++idx] : undefined;
+      const [staged = ".", unstaged = "."] = xy;
+      if (staged !== ".") {
+        status.staged.push({
+          change: changeFor(staged),
+          path,
+          ...(from === undefined ? {} : { from }),
+        });
+      }
+      if (unstaged !== ".") {
+        status.unstaged.push({ change: changeFor(unstaged), path });
+      }
+    } else if (kind === "u") {
+      status.conflicted.push(fields.slice(10).join(" "));
+    } else if (kind === "?") {
+      status.untracked.push(record.slice(2));
+    }
+  }
+
+  return status;
+}
+
+// `git diff --name-status --no-renames -z`: a status letter and a path per
+// change.
+function parseNameStatus(output: string): GitFileChange[] {
+  const records = output.split("\0");
+  const changes: GitFileChange[] = [];
+  for (let idx = 0; idx + 1 < records.length; idx += 2) {
+    const code = records[idx] ?? "";
+    const path = records[idx + 1] ?? "";
+    if (code !== "" && path !== "") {
+      changes.push({ change: changeFor(code.charAt(0)), path });
+    }
+  }
+  return changes;
+}
+
+// `git diff --numstat --no-renames -z`: binary files count as "-".
+function parseNumstat(output: string): Map<string, GitNumstat> {
+  const stats = new Map<string, GitNumstat>();
+  for (const record of output.split("\0")) {
+    const [added = "", removed = "", ...rest] = record.split("\t");
+    const path = rest.join("\t");
+    if (path === "") {
+      continue;
+    }
+    const binary = added === "-" && removed === "-";
+    stats.set(path, {
+      added: binary ? 0 : Number(added),
+      binary,
+      removed: binary ? 0 : Number(removed),
+    });
+  }
+  return stats;
+}
+
+// `git log --format=<LOG_FORMAT>`.
+function parseLog(output: string): GitCommit[] {
+  const commits: GitCommit[] = [];
+  for (const record of output.split(RECORD_SEPARATOR)) {
+    const [hash = "", author = "", email = "", date = "", subject = "", body = ""] = record
+      .replace(/^\n/u, "")
+      .split(FIELD_SEPARATOR);
+    if (hash === "") {
+      continue;
+    }
+    commits.push({ author, body: body.trim(), date, email, hash, subject });
+  }
+  return commits;
+}
+
+interface RunGitOptions {
+  // Exit codes besides 0 that aren't failures, like 1 from `diff --quiet`.
+  allowedExitCodes?: number[];
+  // `-c` settings for this call, as "key=value".
+  config?: string[];
+}
+
+/**
+ * Runs git in the sandbox with `dir` as its working directory and returns its
+ * stdout. Unexpected exit codes throw a ToolError carrying git's message.
+ */
+async function runGit(
+  ctx: ToolContext,
+  dir: string,
+  args: string[],
+  options: RunGitOptions = {},
+): Promise<{ exitCode: number; stdout: string }> {
+  const bwrapBinaries = ctx.cfg.sandbox.bwrap?.binaries ?? [];
+  const config = (options.config ?? []).flatMap((setting) => ["-c", setting]);
+  const result = await exec({
+    agentSlug: ctx.agentSlug,
+    args: ["-C", dir, ...GIT_BASE_ARGS, ...config, ...args],
+    backend: ctx.cfg.sandbox.backend,
+    binaries: bwrapBinaries.includes(GIT_BINARY) ? bwrapBinaries : [...bwrapBinaries, GIT_BINARY],
+    command: GIT_BINARY,
+    devices: ctx.cfg.sandbox.devices,
+    hostEnvPassthrough: [],
+    incus: ctx.cfg.sandbox.incus,
+    limits: ctx.cfg.sandbox.limits,
+    mounts: ctx.cfg.sandbox.mounts,
+    network: ctx.cfg.sandbox.network,
+    timeout: GIT_TIMEOUT_MS,
+  });
+
+  if (result.type === "error") {
+    throw new ToolError(result.error);
+  }
+  if (result.limit !== undefined) {
+    throw new ToolError(result.limit.message);
+  }
+  if (result.exitCode !== 0 && !(options.allowedExitCodes ?? []).includes(result.exitCode)) {
+    const message = result.stderr.trim() === "" ? result.stdout.trim() : result.stderr.trim();
+    throw new ToolError(`git ${args[0] ?? ""} failed: ${message}`);
+  }
+  return { exitCode: result.exitCode, stdout: result.stdout };
+}
+
+/**
+ * Checks that `sandboxPath` may be read and that conditions.toml allows git
+ * here, then returns the root of the repository it is in. `ask` rules for git
+ * only apply to changes, so callers that commit check `needsApproval`.
+ */
+async function resolveRepo(
+  ctx: ToolContext,
+  sandboxPath: string,
+): Promise<{ root: string; needsApproval: boolean }> {
+  if (sandboxPath !== "/workspace" && !sandboxPath.startsWith("/workspace/")) {
+    throw new ToolError(
+      `Git tools only work on repositories under /workspace, not '${sandboxPath}'.`,
+    );
+  }
+  await ctx.paths.checkConditionalAccess(sandboxPath);
+
+  const access = resolveExecAccess(GIT_BINARY, ctx.conditions?.exec, ctx.session);
+  if (access === "deny") {
+    throw new ToolError("Git is not allowed in the current context.");
+  }
+
+  const { stdout } = await runGit(ctx, sandboxPath, ["rev-parse", "--show-toplevel"]);
+  return { needsApproval: access === "ask", root: stdout.trim() };
+}
+
+// Refs come from the model; one starting with "-" would be read as an option.
+function checkRef(ref: string): void {
+  if (ref.startsWith("-") || ref.includes("\0")) {
+    throw new ToolError(`Invalid git ref '${ref}'.`);
+  }
+}
+
+export {
+  checkRef,
+  LOG_FORMAT,
+  parseLog,
+  parseNameStatus,
+  parseNumstat,
+  parseStatus,
+  resolveRepo,
+  runGit,
+};
+export type { GitChange, GitCommit, GitFileChange, GitNumstat, GitStatus };
@@ -3,19 +3,30 @@ import { readFile, writeFile, mkdir, stat, readdir } from "node:fs/promises";
 import path from "node:path";
 
 import { KeyPoolManager } from "@cireilclaw/sdk";
+import type { ToolCallHookEvent, TurnHookEvent } from "@cireilclaw/sdk";
 import * as vb from "valibot";
 
 import {
   loadAgentPluginConfig,
+  loadBudgets,
   loadEngine,
   loadGlobalPluginConfig,
   loadSandboxConfig,
+  loadSnapshots,
   loadTools,
 } from "#config/index.js";
 import type { ConditionsConfig } from "#config/schemas/conditions.js";
 import { DefaultReasoningBudget, DefaultToolFailThreshold } from "#config/schemas/engine.js";
+import type { ModelConfig, ProviderConfig } from "#config/schemas/engine.js";
+import type { ApprovalKind } from "#db/approvals.js";
 import { getDb } from "#db/index.js";
 import { hashImage } from "#db/sessions.js";
+import type { TurnOrigin } from "#db/usage.js";
+import { recordUsage } from "#db/usage.js";
+import { DEFAULT_APPROVAL_TIMEOUT_SECONDS, requireApproval } from "#engine/approval.js";
+import type { Approver } from "#engine/approval.js";
+import { beginToolAudit, finishToolAudit } from "#engine/audit.js";
+import { checkBudgets } from "#engine/budget.js";
 import type { ToolCallContent } from "#engine/content.js";
 import {
   computeContextUsageSnapshot,
@@ -23,8 +34,15 @@ import {
   formatPromptMetadata,
 } from "#engine/context-usage.js";
 import type { Context, UsageInfo } from "#engine/context.js";
-import { GenerationNoToolCallsError, ToolError, ParseError } from "#engine/errors.js";
+import {
+  failoverReason,
+  GenerationNoToolCallsError,
+  ToolError,
+  ParseError,
+} from "#engine/errors.js";
+import { createPartialRespondStreamer } from "#engine/partial-respond.js";
 import { generate as generateAnthropic } from "#engine/provider/anthropic.js";
+import { generate as generateGemini } from "#engine/provider/gemini.js";
 import { resolveModelContextWindow } from "#engine/provider/model-metadata.js";
 import { generate as generateOai } from "#engine/provider/oai.js";
 import { generate as generateOpenAiCodex } from "#engine/provider/openai-codex.js";
@@ -45,15 +63,23 @@ import type { Session } from "#harness/session.js";
 import colors from "#output/colors.js";
 import { debug, warning } from "#output/log.js";
 import { hostCrypto, hostIds } from "#plugin/crypto.js";
+import {
+  runToolCallHooks,
+  runToolResultHooks,
+  runTurnEndHooks,
+  runTurnStartHooks,
+} from "#plugin/hooks.js";
 import type { Scheduler } from "#scheduler/index.js";
 import { formatDate } from "#util/date.js";
 import { getDefaultProviderAndModel } from "#util/default-provider-and-model.js";
 import {
   checkConditionalAccess,
   checkMountWriteAccess,
+  resolveConditionalAccess,
   sanitizeError,
   sandboxToReal,
 } from "#util/paths.js";
+import { takeSnapshot } from "#util/snapshots.js";
 import { stripMediaForModel } from "#util/strip.js";
 
 import { validateHistory } from "./history-validate.js";
@@ -66,6 +92,27 @@ import {
 } from "./prune.js";
 import { buildTools } from "./tools.js";
 
+type EngineDefaults = ReturnType<typeof getDefaultProviderAndModel>;
+
+function modelConfigFor(
+  provider: ProviderConfig,
+  model: string,
+  engineDefaults: EngineDefaults,
+): ModelConfig[string] {
+  return (
+    provider.models?.[model] ??
+    engineDefaults.model.config ?? {
+      contextBudget: 0.6,
+      contextHardBudget: 0.85,
+      reasoning: true,
+      reasoningBudget: DefaultReasoningBudget,
+      supportsVideo: false,
+      supportsVision: true,
+      toolFailThreshold: DefaultToolFailThreshold,
+    }
+  );
+}
+
 function logUsage(
   agentSlug: string,
   sessionId: string,
@@ -153,9 +200,20 @@ function restoreSession(session: Session, snapshot: TurnSnapshot): void {
   session.summaries = snapshot.summaries;
 }
 
+// What a turn takes beyond the channel callbacks, by name.
+interface TurnOptions {
+  // Streams the reply to the channel as it is generated.
+  sendPartial?(this: void, content: string): Promise<void>;
+  // What started the turn. Default: "user".
+  origin?: TurnOrigin;
+  // Asks the owner when an "ask" rule stops a tool.
+  approver?: Approver;
+}
+
 async function runTurnImpl(
   session: Session,
   agentSlug: string,
+  options: TurnOptions,
   override: {
     provider?: string;
     model?: string;
@@ -174,11 +232,31 @@ async function runTurnImpl(
   conditions?: ConditionsConfig,
   scheduler?: Scheduler,
 ): Promise<void> {
+  const { approver, origin = "user", sendPartial } = options;
   const engineCfg = await loadEngine(agentSlug);
   const engineDefaults = getDefaultProviderAndModel(engineCfg);
   const toolsConfig = await loadTools(agentSlug);
   const tools = await buildTools(agentSlug, session, toolsConfig);
   const sandboxConfig = await loadSandboxConfig(agentSlug);
+  const budgets = await loadBudgets(agentSlug);
+
+  // Snapshot the writable roots before the agent gets to change them, so
+  // /rollback can undo whatever this turn does.
+  const snapshotsConfig = await loadSnapshots(agentSlug);
+  if (snapshotsConfig.enabled) {
+    try {
+      await takeSnapshot(agentSlug, snapshotsConfig, {
+        label: `before ${origin} turn`,
+        sessionId: session.id(),
+      });
+    } catch (error) {
+      warning(
+        "Failed to snapshot the workspace",
+        colors.keyword(agentSlug),
+        sanitizeError(error, agentSlug),
+      );
+    }
+  }
 
   // Buffer for addToolMessage calls during tool execution. Like
   // disableNotifications, these must be pushed AFTER all tool responses
@@ -191,6 +269,32 @@ async function runTurnImpl(
   // history.
   let toolMessagesCommitted = false;
 
+  // Once the owner approves a write or command, the rest of the turn doesn't
+  // ask about it again.
+  const approved = new Set<string>();
+  async function requestApproval(kind: ApprovalKind, subject: string): Promise<void> {
+    const key = `${kind}:${subject}`;
+    if (approved.has(key)) {
+      return;
+    }
+    await requireApproval(approver, {
+      agentSlug,
+      kind,
+      session,
+      subject,
+      timeoutSeconds: conditions?.approvalTimeoutSeconds ?? DEFAULT_APPROVAL_TIMEOUT_SECONDS,
+    });
+    approved.add(key);
+  }
+  async function checkWriteApproval(sandboxPath: string): Promise<void> {
+    if (
+      conditions !== undefined &&
+      resolveConditionalAccess(sandboxPath, conditions, session) === "ask"
+    ) {
+      await requestApproval("write", sandboxPath);
+    }
+  }
+
   const ctx: ToolContext = {
     addImage: (data: Uint8Array, mediaType: string): void => {
       session.pendingImages.push({ data, mediaType, type: "image" });
@@ -227,6 +331,7 @@ async function runTurnImpl(
       agentPlugin: async (name) => await loadAgentPluginConfig(agentSlug, name),
       exec: toolsConfig.exec,
       globalPlugin: async (name) => await loadGlobalPluginConfig(name),
+      runCode: toolsConfig["run-code"],
       sandbox: sandboxConfig,
     },
     channel: {
@@ -320,6 +425,7 @@ async function runTurnImpl(
         if (conditions !== undefined) {
           checkConditionalAccess(sandboxPath, agentSlug, conditions, session);
         }
+        await checkWriteApproval(sandboxPath);
         await mkdir(path.dirname(realPath), { recursive: true });
         await writeFile(realPath, content, "utf8");
       },
@@ -336,9 +442,9 @@ async function runTurnImpl(
           checkConditionalAccess(sandboxPath, agentSlug, conditions, session);
         }
       },
-      // oxlint-disable-next-line typescript/require-await
       checkWriteAccess: async (sandboxPath: string): Promise<void> => {
         checkMountWriteAccess(sandboxPath, sandboxConfig.mounts);
+        await checkWriteApproval(sandboxPath);
       },
       // oxlint-disable-next-line typescript/require-await
       resolve: async (sandboxPath: string): Promise<string> =>
@@ -354,6 +460,7 @@ async function runTurnImpl(
       send,
       sendTo,
     },
+    requestApproval,
     scheduler,
     session,
   };
@@ -363,6 +470,7 @@ async function runTurnImpl(
   const providerName = override.provider ?? session.selectedProvider;
   let selectedProvider =
     providerName === undefined ? engineDefaults.provider.config : engineCfg[providerName];
+  let selectedProviderName = providerName ?? engineDefaults.provider.name;
 
   if (selectedProvider === undefined) {
     warning(
@@ -371,35 +479,30 @@ async function runTurnImpl(
       colors.keyword(session.id()),
     );
     selectedProvider = engineDefaults.provider.config;
+    selectedProviderName = engineDefaults.provider.name;
   }
 
-  const selectedModel = override.model ?? session.selectedModel ?? engineDefaults.model.name;
-
-  const modelCfg = selectedProvider.models?.[selectedModel] ??
-    engineDefaults.model.config ?? {
-      contextBudget: 0.6,
-      contextHardBudget: 0.85,
-      reasoning: true,
-      reasoningBudget: DefaultReasoningBudget,
-      supportsVideo: false,
-      supportsVision: true,
-      toolFailThreshold: DefaultToolFailThreshold,
-    };
-
-  const contextBudget = modelCfg.contextBudget ?? 0.6;
-  const contextHardBudget = modelCfg.contextHardBudget ?? 0.85;
-  const effectiveContextWindow = await resolveModelContextWindow(
+  let selectedModel = override.model ?? session.selectedModel ?? engineDefaults.model.name;
+  let modelCfg = modelConfigFor(selectedProvider, selectedModel, engineDefaults);
+  let contextBudget = modelCfg.contextBudget ?? 0.6;
+  let contextHardBudget = modelCfg.contextHardBudget ?? 0.85;
+  let effectiveContextWindow = await resolveModelContextWindow(
     selectedProvider,
     selectedModel,
     modelCfg,
   );
 
+  // Where the turn may fail over to: the model's own fallbacks, or else the
+  // provider's. Fallbacks of fallbacks are not followed.
+  const fallbacks = [
+    ...(selectedProvider.models?.[selectedModel]?.fallbacks ?? selectedProvider.fallbacks ?? []),
+  ];
+
   let generationRetries = 0;
+  let generations = 0;
   const toolConsecutiveFailures = new Map<string, number>();
   const disabledTools = new Set<string>();
 
-  const { toolFailThreshold } = modelCfg;
-
   for (;;) {
     // If tools or Discord queued images/videos, inject them as a user message
     // AFTER pending tool responses. The OAI API only allows images/video in
@@ -598,7 +701,13 @@ async function runTurnImpl(
     let assistantMsg: AssistantMessage;
     let usage: UsageInfo | undefined = undefined;
 
+    checkBudgets(agentSlug, budgets, selectedProviderName, generations);
+    generations++;
+
     const keyPool = KeyPoolManager.getPool(selectedProvider.apiKey);
+    const partialRespond =
+      sendPartial === undefined ? undefined : createPartialRespondStreamer(sendPartial);
+    const onToolCallDelta = partialRespond?.onToolCallDelta;
 
     try {
       switch (selectedProvider.kind) {
@@ -611,6 +720,7 @@ async function runTurnImpl(
             {
               customHeaders: selectedProvider.customHeaders,
               forceJpeg: selectedProvider.useJpegForImages,
+              onToolCallDelta,
               reasoning: modelCfg.reasoning,
               useFilesApi: selectedProvider.useFilesApi,
               useToolChoiceAuto: selectedProvider.useToolChoiceAuto,
@@ -627,6 +737,7 @@ async function runTurnImpl(
             selectedModel,
             {
               customHeaders: selectedProvider.customHeaders,
+              onToolCallDelta,
               reasoning: modelCfg.reasoning,
               reasoningBudget: modelCfg.reasoningBudget,
             },
@@ -649,12 +760,61 @@ async function runTurnImpl(
           break;
         }
 
+        case "gemini": {
+          ({ message: assistantMsg, usage } = await generateGemini(
+            context,
+            selectedProvider.apiBase,
+            keyPool,
+            selectedModel,
+            {
+              customHeaders: selectedProvider.customHeaders,
+              onToolCallDelta,
+              reasoning: modelCfg.reasoning,
+              reasoningBudget: modelCfg.reasoningBudget,
+            },
+          ));
+          break;
+        }
+
         default: {
           const exhaustive: never = selectedProvider.kind;
           throw new Error(`Unsupported provider type: ${String(exhaustive)}`);
         }
       }
     } catch (error) {
+      const failure = failoverReason(error);
+      const fallback = failure === undefined ? undefined : fallbacks.shift();
+      const fallbackProvider = fallback === undefined ? undefined : engineCfg[fallback.provider];
+      if (fallback !== undefined && fallbackProvider === undefined) {
+        warning(
+          `Fallback provider '${fallback.provider}' isn't defined in engine.toml; not falling back`,
+          colors.keyword(agentSlug),
+        );
+      }
+      if (fallback !== undefined && fallbackProvider !== undefined) {
+        const fallbackModel = fallback.model ?? fallbackProvider.defaultModel;
+        warning(
+          `Generation failed (${failure}) on '${selectedProviderName}/${selectedModel}', falling back to '${fallback.provider}/${fallbackModel}'`,
+          colors.keyword(agentSlug),
+          colors.keyword(session.id()),
+        );
+        // Nothing from the failed attempt reached the history, and the next
+        // iteration rebuilds the context (through validateHistory) for the
+        // new provider's limits and capabilities.
+        selectedProvider = fallbackProvider;
+        selectedProviderName = fallback.provider;
+        selectedModel = fallbackModel;
+        modelCfg = modelConfigFor(selectedProvider, selectedModel, engineDefaults);
+        contextBudget = modelCfg.contextBudget ?? 0.6;
+        contextHardBudget = modelCfg.contextHardBudget ?? 0.85;
+        effectiveContextWindow = await resolveModelContextWindow(
+          selectedProvider,
+          selectedModel,
+          modelCfg,
+        );
+        generationRetries = 0;
+        continue;
+      }
       if (generationRetries < selectedProvider.maxGenerationRetries) {
         generationRetries++;
         if (error instanceof GenerationNoToolCallsError) {
@@ -681,9 +841,35 @@ async function runTurnImpl(
         continue;
       }
       throw error;
+    } finally {
+      // Let the last preview land before tools run, so respond's real send
+      // can't be overtaken by a stale partial.
+      await partialRespond?.flush();
     }
 
     logUsage(agentSlug, session.id(), context.systemPrompt.length, usage);
+    session.answeredBy = { model: selectedModel, provider: selectedProviderName };
+    try {
+      // Generations without usage info are still recorded, with zero tokens,
+      // so request budgets count them.
+      recordUsage(agentSlug, {
+        model: selectedModel,
+        origin,
+        // Looked up directly: the fallback to the default model's config
+        // above would otherwise bill this model at another model's price.
+        price: selectedProvider.models?.[selectedModel]?.price,
+        provider: selectedProviderName,
+        sessionId: session.id(),
+        usage: usage ?? { completionTokens: 0, promptTokens: 0, systemPromptTokensEst: 0 },
+      });
+    } catch (error) {
+      warning(
+        "Failed to record usage",
+        colors.keyword(agentSlug),
+        colors.keyword(session.id()),
+        error,
+      );
+    }
 
     for (const msg of session.pendingToolMessages) {
       msg.timestamp ??= Date.now();
@@ -746,6 +932,7 @@ async function runTurnImpl(
         const def = getToolRegistry()[call.name];
 
         debug("Tool call", colors.keyword(call.name), call);
+        const audit = await beginToolAudit(call.name, call.input, ctx);
         let result: Record<string, unknown> = {};
         if (disabledTools.has(call.name) || !tools.some((tool) => tool.name === call.name)) {
           result = {
@@ -758,29 +945,48 @@ async function runTurnImpl(
             success: false,
           };
         } else {
-          try {
-            result = await def.execute(call.input, ctx);
-          } catch (error: unknown) {
-            if (error instanceof vb.ValiError) {
-              result = {
-                error: error.message,
-                issues: error.issues,
-                success: false,
-              };
-            } else if (error instanceof ParseError) {
-              result = {
-                error: error.message,
-                issues: error.issues,
-                success: false,
-              };
-            } else if (error instanceof ToolError) {
-              result = { error: error.message, hint: error.hint, success: false };
-            } else {
-              result = { error: sanitizeError(error, agentSlug), success: false };
+          const hookEvent: ToolCallHookEvent = {
+            agentSlug,
+            callId: call.id,
+            channel: session.channel,
+            input: call.input,
+            origin,
+            sessionId: session.id(),
+            toolName: call.name,
+          };
+          const veto = await runToolCallHooks(hookEvent);
+          if (veto === undefined) {
+            try {
+              result = await def.execute(call.input, ctx);
+            } catch (error: unknown) {
+              if (error instanceof vb.ValiError) {
+                result = {
+                  error: error.message,
+                  issues: error.issues,
+                  success: false,
+                };
+              } else if (error instanceof ParseError) {
+                result = {
+                  error: error.message,
+                  issues: error.issues,
+                  success: false,
+                };
+              } else if (error instanceof ToolError) {
+                result = { error: error.message, hint: error.hint, success: false };
+              } else {
+                result = { error: sanitizeError(error, agentSlug), success: false };
+              }
             }
+            result = await runToolResultHooks(hookEvent, result);
+          } else {
+            result = {
+              error: `Blocked by plugin ${veto.pluginId}: ${veto.reason}`,
+              success: false,
+            };
           }
         }
         debug("Tool result", colors.keyword(call.name), result);
+        await finishToolAudit(audit, call, result, ctx, origin);
 
         // Assign Discord message IDs to the assistant history entry immediately
         // after respond sends, so agentic-loop entries carry proper snowflakes
@@ -807,14 +1013,14 @@ async function runTurnImpl(
           const fails = (toolConsecutiveFailures.get(call.name) ?? 0) + 1;
           toolConsecutiveFailures.set(call.name, fails);
           if (
-            fails >= toolFailThreshold &&
+            fails >= modelCfg.toolFailThreshold &&
             !disabledTools.has(call.name) &&
             call.name !== "respond" &&
             call.name !== "no-response"
           ) {
             disabledTools.add(call.name);
             warning(
-              `Disabling tool '${call.name}' after ${fails} consecutive failures (threshold: ${toolFailThreshold})`,
+              `Disabling tool '${call.name}' after ${fails} consecutive failures (threshold: ${modelCfg.toolFailThreshold})`,
               colors.keyword(agentSlug),
               colors.keyword(session.id()),
             );
@@ -904,13 +1110,27 @@ async function runTurnImpl(
 type RunTurnArgs = Parameters<typeof runTurnImpl>;
 
 export async function runTurn(...args: RunTurnArgs): Promise<void> {
-  const [session] = args;
+  const [session, agentSlug, options] = args;
   const snapshot = snapshotSession(session);
+  // Plugin hooks only observe the turn; their failures are logged, not thrown.
+  const hookEvent: TurnHookEvent = {
+    agentSlug,
+    channel: session.channel,
+    origin: options.origin ?? "user",
+    sessionId: session.id(),
+  };
+  await runTurnStartHooks(hookEvent);
 
   try {
     await runTurnImpl(...args);
   } catch (error) {
     restoreSession(session, snapshot);
+    await runTurnEndHooks({
+      ...hookEvent,
+      error: sanitizeError(error, agentSlug),
+      outcome: "failed",
+    });
     throw error;
   }
+  await runTurnEndHooks({ ...hookEvent, outcome: "completed" });
 }
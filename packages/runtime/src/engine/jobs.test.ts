@@ -0,0 +1,122 @@
+import { mkdtempSync, readFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { killAllJobs, startJob } from "#engine/jobs.js";
+import { InternalSession } from "#harness/session.js";
+
+vi.mock("#output/log.js", () => ({
+  debug: vi.fn(),
+  warning: vi.fn(),
+}));
+
+let outputDirHost = "";
+
+function jobConfig(command: string, args: string[] = []): Parameters<typeof startJob>[1] {
+  return {
+    baseName: `job-${command}`,
+    exec: {
+      agentSlug: "agent",
+      args,
+      binaries: [command],
+      command,
+      hostEnvPassthrough: [],
+      timeout: 1000,
+    },
+    outputDir: "/workspace/.exec-output",
+    outputDirHost,
+  };
+}
+
+beforeEach(() => {
+  vi.stubEnv("HOME", mkdtempSync(path.join(tmpdir(), "cireilclaw-jobs-test-")));
+  vi.stubEnv(
+    "CIREILCLAW_RUNTIME_INSECURE_DISABLE_SANDBOX_I_AM_100_PERCENT_SURE",
+    "i-am-in-a-container",
+  );
+  outputDirHost = mkdtempSync(path.join(tmpdir(), "cireilclaw-jobs-output-"));
+});
+
+afterEach(async () => {
+  await killAllJobs();
+  vi.unstubAllEnvs();
+});
+
+describe("startJob", () => {
+  it("streams output to the output directory and reads it incrementally", async () => {
+    const session = new InternalSession("test");
+    const job = await startJob(session, jobConfig("cat"));
+
+    expect(session.jobs.get(job.id)).toBe(job);
+    expect(job.outputPath("stdout")).toBe(`/workspace/.exec-output/job-cat-${job.id}.out`);
+
+    job.writeStdin("hello world\n", true);
+    await job.wait();
+
+    expect(job.state).toBe("exited");
+    expect(job.exitCode).toBe(0);
+    expect(readFileSync(path.join(outputDirHost, `job-cat-${job.id}.out`), "utf8")).toBe(
+      "hello world\n",
+    );
+    expect(await job.readNew("stdout", 5)).toEqual({ more: true, text: "hello" });
+    expect(await job.readNew("stdout", 100)).toEqual({ more: false, text: " world\n" });
+    expect(await job.readNew("stdout", 100)).toEqual({ more: false, text: "" });
+  });
+
+  it("keeps a multi-byte character split across reads whole", async () => {
+    const session = new InternalSession("test");
+    const job = await startJob(session, jobConfig("cat"));
+    job.writeStdin("né", true);
+    await job.wait();
+
+    expect(await job.readNew("stdout", 2)).toEqual({ more: true, text: "n" });
+    expect(await job.readNew("stdout", 2)).toEqual({ more: false, text: "é" });
+  });
+
+  it("doesn't wait for a job that isn't reading its stdin", async () => {
+    const session = new InternalSession("test");
+    const job = await startJob(session, jobConfig("sleep", ["30"]));
+    const chunk = "x".repeat(64 * 1024);
+
+    // The pipe takes the first 64 KiB or so; the rest stays queued.
+    expect(() => {
+      for (let written = 0; written < 16; written++) {
+        job.writeStdin(chunk, false);
+      }
+    }).toThrow("hasn't read");
+  });
+
+  it("reports a killed job as killed", async () => {
+    const session = new InternalSession("test");
+    const job = await startJob(session, jobConfig("sleep", ["30"]));
+
+    await job.kill();
+
+    expect(job.state).toBe("killed");
+    expect(job.exitCode).toBe(143);
+  });
+
+  it("kills a session's jobs when the session is reset", async () => {
+    const session = new InternalSession("test");
+    const job = await startJob(session, jobConfig("sleep", ["30"]));
+
+    session.reset();
+    await job.wait();
+
+    expect(session.jobs.size).toBe(0);
+    expect(job.state).toBe("killed");
+  });
+
+  it("refuses to start more than eight jobs at once", async () => {
+    const session = new InternalSession("test");
+    for (let started = 0; started < 8; started++) {
+      await startJob(session, jobConfig("sleep", ["30"]));
+    }
+
+    await expect(startJob(session, jobConfig("sleep", ["30"]))).rejects.toThrow(
+      "already has 8 background jobs running",
+    );
+  });
+});
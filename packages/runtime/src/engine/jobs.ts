@@ -0,0 +1,274 @@
+import { Buffer } from "node:buffer";
+import { randomUUID } from "node:crypto";
+import { createWriteStream } from "node:fs";
+import { open } from "node:fs/promises";
+import { constants } from "node:os";
+import path from "node:path";
+import { StringDecoder } from "node:string_decoder";
+
+import { ToolError } from "#engine/errors.js";
+import type { Session } from "#harness/session.js";
+import { debug, warning } from "#output/log.js";
+import type { LimitExceeded } from "#util/limits.js";
+import { startDetached } from "#util/sandbox.js";
+import type { DetachedCommand, ExecConfig } from "#util/sandbox.js";
+import { onShutdown } from "#util/shutdown.js";
+
+type JobState = "running" | "exited" | "killed";
+type JobStream = "stdout" | "stderr";
+
+interface JobConfig {
+  exec: ExecConfig;
+  // Output directory as the agent sees it, and the same directory on the host.
+  outputDir: string;
+  outputDirHost: string;
+  // Start of the output file names; the job ID and .out/.err are appended.
+  baseName: string;
+}
+
+interface JobOutput {
+  text: string;
+  // Whether more output was already written than `maxBytes` allowed.
+  more: boolean;
+}
+
+interface OutputFile {
+  path: string;
+  hostPath: string;
+  // How far the agent has read, in bytes.
+  offset: number;
+  // Carries a UTF-8 sequence split across two reads over to the next one.
+  decoder: StringDecoder;
+}
+
+// A session can run this many jobs at once.
+const MAX_RUNNING_JOBS = 8;
+// Finished jobs stay available for polling until a session has more than this
+// many; the oldest are forgotten first. Their output files remain.
+const MAX_FINISHED_JOBS = 16;
+// Time a job gets to exit after SIGTERM before it is sent SIGKILL.
+const KILL_GRACE_MS = 5000;
+// Enough of the end of stderr to recognize a fork failure under a process
+// limit; the full stream is in the output file.
+const STDERR_TAIL_CHARS = 4096;
+// Most stdin a job may have left unread before further writes are refused.
+const MAX_STDIN_BACKLOG_BYTES = 256 * 1024;
+
+const liveJobs = new Set<BackgroundJob>();
+let shutdownHookRegistered = false;
+
+class BackgroundJob {
+  public readonly id = randomUUID().slice(0, 8);
+  public readonly command: string;
+  public readonly args: string[];
+  public readonly startedAt = Date.now();
+  public state: JobState = "running";
+  public exitCode?: number;
+  public endedAt?: number;
+  public limit?: LimitExceeded;
+
+  private readonly proc: DetachedCommand["proc"];
+  private readonly files: Record<JobStream, OutputFile>;
+  private readonly exited: Promise<void>;
+  private stderrTail = "";
+  private killRequested = false;
+
+  public constructor(detached: DetachedCommand, cfg: JobConfig) {
+    this.command = cfg.exec.command;
+    this.args = cfg.exec.args ?? [];
+    this.proc = detached.proc;
+    this.files = {
+      stderr: this.outputFile(cfg, "err"),
+      stdout: this.outputFile(cfg, "out"),
+    };
+
+    const stdoutFile = createWriteStream(this.files.stdout.hostPath);
+    const stderrFile = createWriteStream(this.files.stderr.hostPath);
+    const flushed = Promise.all([
+      new Promise((resolve) => {
+        stdoutFile.on("close", resolve);
+      }),
+      new Promise((resolve) => {
+        stderrFile.on("close", resolve);
+      }),
+    ]);
+    for (const file of [stdoutFile, stderrFile]) {
+      file.on("error", (error) => {
+        warning({ error: error.message, job: this.id }, "Failed to write background job output");
+      });
+    }
+    this.proc.stdout.pipe(stdoutFile);
+    this.proc.stderr.pipe(stderrFile);
+    this.proc.stderr.on("data", (data: Buffer) => {
+      this.stderrTail = (this.stderrTail + data.toString("utf8")).slice(-STDERR_TAIL_CHARS);
+    });
+    // A command that exits or closes its stdin makes writes fail with EPIPE;
+    // that must not take the runtime down with it.
+    this.proc.stdin.on("error", (error) => {
+      debug({ error: error.message, job: this.id }, "Background job stdin closed");
+    });
+
+    this.exited = this.settle(detached, flushed);
+  }
+
+  public get stdinOpen(): boolean {
+    return this.state === "running" && this.proc.stdin.writable;
+  }
+
+  public outputPath(stream: JobStream): string {
+    return this.files[stream].path;
+  }
+
+  /**
+   * Reads up to `maxBytes` of `stream` that the agent hasn't seen yet. Output
+   * still buffered in the pipe shows up on a later read.
+   */
+  public async readNew(stream: JobStream, maxBytes: number): Promise<JobOutput> {
+    const file = this.files[stream];
+    // oxlint-disable-next-line init-declarations
+    let handle: Awaited<ReturnType<typeof open>>;
+    try {
+      handle = await open(file.hostPath, "r");
+    } catch {
+      // The write stream hasn't created the file yet.
+      return { more: false, text: "" };
+    }
+    try {
+      const { size } = await handle.stat();
+      const length = Math.min(maxBytes, Math.max(0, size - file.offset));
+      const buffer = Buffer.alloc(length);
+      const { bytesRead } = await handle.read(buffer, 0, length, file.offset);
+      file.offset += bytesRead;
+      return { more: file.offset < size, text: file.decoder.write(buffer.subarray(0, bytesRead)) };
+    } finally {
+      await handle.close();
+    }
+  }
+
+  /**
+   * Queues `input` for the job's stdin and returns how many bytes the job
+   * hasn't taken yet. The write isn't waited for: a job that doesn't read its
+   * stdin would otherwise hold up the turn as soon as the pipe is full.
+   */
+  public writeStdin(input: string, close: boolean): number {
+    const { stdin } = this.proc;
+    if (stdin.writableLength > MAX_STDIN_BACKLOG_BYTES) {
+      throw new ToolError(
+        `Job '${this.id}' hasn't read the ${stdin.writableLength} bytes already written to its stdin.`,
+        "Poll the job to see what it is doing, or kill it if it is stuck.",
+      );
+    }
+    stdin.write(input);
+    if (close) {
+      stdin.end();
+    }
+    return stdin.writableLength;
+  }
+
+  /** Sends SIGTERM, then SIGKILL if the job is still running after a grace period. */
+  public async kill(): Promise<void> {
+    if (this.state !== "running") {
+      return;
+    }
+    this.killRequested = true;
+    this.proc.kill("SIGTERM");
+    const timer = setTimeout(() => {
+      this.proc.kill("SIGKILL");
+    }, KILL_GRACE_MS);
+    timer.unref();
+    await this.exited;
+    clearTimeout(timer);
+  }
+
+  public async wait(): Promise<void> {
+    await this.exited;
+  }
+
+  private async settle(detached: DetachedCommand, flushed: Promise<unknown>): Promise<void> {
+    const exitCode = await new Promise<number>((resolve) => {
+      // Spawning failed; "close" may follow, but without an exit status.
+      this.proc.once("error", (error) => {
+        this.stderrTail += error.message;
+        resolve(1);
+      });
+      this.proc.once("close", (code, signal) => {
+        resolve(code ?? 128 + (signal === null ? 0 : constants.signals[signal]));
+      });
+    });
+    await flushed;
+    const output = await detached.finish({
+      exitCode,
+      stderr: this.stderrTail,
+      stdout: "",
+      type: "output",
+    });
+    this.exitCode = exitCode;
+    this.limit = output.limit;
+    this.endedAt = Date.now();
+    this.state = this.killRequested ? "killed" : "exited";
+    liveJobs.delete(this);
+    debug({ exitCode, job: this.id, state: this.state }, "Background job finished");
+  }
+
+  private outputFile(cfg: JobConfig, extension: string): OutputFile {
+    const name = `${cfg.baseName}-${this.id}.${extension}`;
+    return {
+      decoder: new StringDecoder("utf8"),
+      hostPath: path.join(cfg.outputDirHost, name),
+      offset: 0,
+      path: `${cfg.outputDir}/${name}`,
+    };
+  }
+}
+
+async function killAllJobs(): Promise<void> {
+  await Promise.allSettled(
+    [...liveJobs].map(async (job) => {
+      await job.kill();
+    }),
+  );
+}
+
+function registerShutdownHook(): void {
+  if (shutdownHookRegistered) {
+    return;
+  }
+  shutdownHookRegistered = true;
+  onShutdown(killAllJobs);
+}
+
+// Drops the oldest finished jobs beyond MAX_FINISHED_JOBS. Maps iterate in
+// insertion order, so the first finished jobs found are the oldest.
+function forgetFinishedJobs(session: Session): void {
+  const finished = [...session.jobs.values()].filter((job) => job.state !== "running");
+  for (const job of finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_JOBS))) {
+    session.jobs.delete(job.id);
+  }
+}
+
+/** Starts `cfg.exec` in the background and tracks it on `session`. */
+async function startJob(session: Session, cfg: JobConfig): Promise<BackgroundJob> {
+  const running = [...session.jobs.values()].filter((job) => job.state === "running").length;
+  if (running >= MAX_RUNNING_JOBS) {
+    throw new ToolError(
+      `This session already has ${running} background jobs running.`,
+      "Wait for one to finish or kill one with exec-job before starting another.",
+    );
+  }
+
+  const detached = await startDetached(cfg.exec);
+  if (detached.type === "error") {
+    throw new ToolError(detached.error);
+  }
+
+  const job = new BackgroundJob(detached, cfg);
+  session.jobs.set(job.id, job);
+  liveJobs.add(job);
+  registerShutdownHook();
+  forgetFinishedJobs(session);
+  debug({ command: job.command, job: job.id }, "Background job started");
+  return job;
+}
+
+export { BackgroundJob, killAllJobs, startJob };
+export type { JobState, JobStream };
@@ -0,0 +1,121 @@
+// Kernel driver for the run-code tool. Reads one JSON request per line from
+// stdin, runs its code in this process's global scope so declarations persist
+// between cells, and answers with one JSON line prefixed by the marker passed
+// as the first argument. Anything else written to stdout is attributed to the
+// running cell by the host.
+import { Console } from "node:console";
+import { createRequire } from "node:module";
+import path from "node:path";
+import readline from "node:readline";
+import { Writable } from "node:stream";
+import { inspect } from "node:util";
+import vm from "node:vm";
+
+const [, marker = ""] = process.argv;
+const MAX_STREAM_CHARS = 1_000_000;
+const MAX_TEXT_CHARS = 100_000;
+const protocol = process.stdout.write.bind(process.stdout);
+
+/** @typedef {{ data: string, mediaType: string }} Image */
+
+/** @type {string[]} */
+let displayedText = [];
+/** @type {Image[]} */
+let displayedImages = [];
+
+function collector() {
+  /** @type {string[]} */
+  const chunks = [];
+  const writable = new Writable({
+    write(chunk, _encoding, callback) {
+      chunks.push(String(chunk));
+      callback();
+    },
+  });
+  return { chunks, writable };
+}
+
+/** @param {string[]} chunks */
+function collected(chunks) {
+  return chunks.join("").slice(-MAX_STREAM_CHARS);
+}
+
+/** @param {unknown} value */
+function show(value) {
+  return inspect(value, { depth: 4, maxStringLength: MAX_TEXT_CHARS }).slice(0, MAX_TEXT_CHARS);
+}
+
+// The error's stack without the frames of this driver, which start where vm
+// called into the cell.
+/** @param {Error} error */
+function cellStack(error) {
+  const lines = (error.stack ?? String(error)).split("\n");
+  const driverFrame = lines.findIndex((line) => line.includes("(node:vm:"));
+  return (driverFrame === -1 ? lines : lines.slice(0, driverFrame)).join("\n");
+}
+
+// Shows a value as rich output, the way a cell's last expression is. Bytes are
+// taken to be an image of `mediaType`.
+/**
+ * @param {unknown} value
+ * @param {string} mediaType
+ */
+function display(value, mediaType = "image/png") {
+  if (value instanceof Uint8Array) {
+    displayedImages.push({ data: Buffer.from(value).toString("base64"), mediaType });
+  } else {
+    displayedText.push(show(value));
+  }
+}
+
+Object.assign(globalThis, {
+  display,
+  require: createRequire(path.join(process.cwd(), "cell.js")),
+});
+
+/**
+ * @param {number} cell
+ * @param {string} code
+ */
+async function run(cell, code) {
+  const stdout = collector();
+  const stderr = collector();
+  /** @type {{ result?: { text: string }, error?: string }} */
+  const reply = {};
+  const originalConsole = globalThis.console;
+  displayedText = [];
+  displayedImages = [];
+  globalThis.console = new Console({ stderr: stderr.writable, stdout: stdout.writable });
+  try {
+    /** @type {unknown} */
+    let value = vm.runInThisContext(code, { filename: `<cell ${cell}>` });
+    if (value instanceof Promise) {
+      /** @type {unknown} */
+      const settled = await value;
+      value = settled;
+    }
+    if (value !== undefined) {
+      reply.result = { text: show(value) };
+    }
+  } catch (error) {
+    reply.error = error instanceof Error ? cellStack(error) : show(error);
+  } finally {
+    globalThis.console = originalConsole;
+  }
+  return {
+    ...reply,
+    displayed: displayedText,
+    images: displayedImages,
+    stderr: collected(stderr.chunks),
+    stdout: collected(stdout.chunks),
+  };
+}
+
+// Cells run one at a time, in the order they arrive.
+for await (const line of readline.createInterface({ input: process.stdin })) {
+  /** @type {{ id: number, code: string }} */
+  // oxlint-disable-next-line typescript/no-unsafe-assignment -- the host only sends this shape.
+  const request = JSON.parse(line);
+  const reply = await run(request.id, request.code);
+  protocol(`${marker}${JSON.stringify({ ...reply, id: request.id })}\n`);
+}
@@ -0,0 +1,114 @@
+# Kernel driver for the run-code tool. Reads one JSON request per line from
+# stdin, runs its code in a namespace that persists between cells, and answers
+# with one JSON line prefixed by the marker passed as the first argument.
+# Anything else on stdout (output from subprocesses or C extensions) is
+# attributed to the running cell by the host.
+import ast
+import base64
+import io
+import json
+import linecache
+import os
+import sys
+import traceback
+
+os.environ.setdefault("MPLBACKEND", "Agg")
+
+MARKER = sys.argv[1]
+MAX_STREAM_CHARS = 1_000_000
+MAX_TEXT_CHARS = 100_000
+
+protocol = sys.stdout
+requests = sys.stdin
+# Cells that read stdin get end of input instead of the next request.
+sys.stdin = io.StringIO()
+namespace = {"__name__": "__main__", "__builtins__": __builtins__}
+displayed = []
+
+
+def rich(value):
+    """The representations of a value the host understands."""
+    out = {}
+    for method, media_type in (("_repr_png_", "image/png"), ("_repr_jpeg_", "image/jpeg")):
+        render = getattr(value, method, None)
+        if callable(render):
+            try:
+                data = render()
+            except Exception:
+                continue
+            if isinstance(data, bytes):
+                out["image"] = {"data": base64.b64encode(data).decode(), "mediaType": media_type}
+                break
+    text = repr(value)
+    out["text"] = text[:MAX_TEXT_CHARS]
+    return out
+
+
+def display(*values):
+    """Shows values as rich output, the way the last expression of a cell is."""
+    for value in values:
+        displayed.append(rich(value))
+
+
+namespace["display"] = display
+
+
+def figures():
+    pyplot = sys.modules.get("matplotlib.pyplot")
+    if pyplot is None:
+        return []
+    images = []
+    for number in pyplot.get_fignums():
+        buffer = io.BytesIO()
+        pyplot.figure(number).savefig(buffer, format="png", bbox_inches="tight")
+        images.append({"data": base64.b64encode(buffer.getvalue()).decode(), "mediaType": "image/png"})
+    pyplot.close("all")
+    return images
+
+
+def run(cell, code):
+    # A file name of its own per cell keeps tracebacks through functions
+    # defined in earlier cells pointing at the right source.
+    filename = f"<cell {cell}>"
+    linecache.cache[filename] = (len(code), None, code.splitlines(True), filename)
+    stdout, stderr = io.StringIO(), io.StringIO()
+    reply = {}
+    displayed.clear()
+    sys.stdout, sys.stderr = stdout, stderr
+    try:
+        tree = ast.parse(code, filename, "exec")
+        last = None
+        if tree.body and isinstance(tree.body[-1], ast.Expr):
+            last = ast.Expression(tree.body.pop().value)
+        exec(compile(tree, filename, "exec"), namespace)
+        if last is not None:
+            value = eval(compile(last, filename, "eval"), namespace)
+            if value is not None:
+                namespace["_"] = value
+                reply["result"] = rich(value)
+    except BaseException as error:
+        # Leave out this driver's own frame.
+        reply["error"] = "".join(
+            traceback.format_exception(type(error), error, error.__traceback__.tb_next)
+        )
+    finally:
+        sys.stdout, sys.stderr = protocol, sys.__stderr__
+    try:
+        images = figures()
+    except Exception as error:
+        images = []
+        stderr.write(f"Failed to capture figures: {error}\n")
+    images.extend(item["image"] for item in displayed if "image" in item)
+    reply["displayed"] = [item["text"] for item in displayed if "image" not in item]
+    reply["images"] = images
+    reply["stdout"] = stdout.getvalue()[-MAX_STREAM_CHARS:]
+    reply["stderr"] = stderr.getvalue()[-MAX_STREAM_CHARS:]
+    return reply
+
+
+while line := requests.readline():
+    request = json.loads(line)
+    reply = run(request["id"], request["code"])
+    reply["id"] = request["id"]
+    protocol.write(MARKER + json.dumps(reply) + "\n")
+    protocol.flush()
@@ -0,0 +1,143 @@
+import { mkdtempSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { ToolError } from "#engine/errors.js";
+import { getKernel, killAllKernels } from "#engine/kernels/index.js";
+import type { KernelLanguage } from "#engine/kernels/index.js";
+import { InternalSession } from "#harness/session.js";
+
+vi.mock("#output/log.js", () => ({
+  debug: vi.fn(),
+  warning: vi.fn(),
+}));
+
+function kernelConfig(
+  language: KernelLanguage,
+  idleTimeout = 60_000,
+): Parameters<typeof getKernel>[2] {
+  const command = language === "python" ? "python3" : "node";
+  return {
+    exec: {
+      agentSlug: "agent",
+      binaries: [command],
+      command,
+      hostEnvPassthrough: [],
+      timeout: 10_000,
+    },
+    idleTimeout,
+  };
+}
+
+beforeEach(() => {
+  vi.stubEnv("HOME", mkdtempSync(path.join(tmpdir(), "cireilclaw-kernels-test-")));
+  vi.stubEnv(
+    "CIREILCLAW_RUNTIME_INSECURE_DISABLE_SANDBOX_I_AM_100_PERCENT_SURE",
+    "i-am-in-a-container",
+  );
+});
+
+afterEach(async () => {
+  await killAllKernels();
+  vi.unstubAllEnvs();
+});
+
+describe("getKernel", () => {
+  it("keeps Python state between cells and captures output", async () => {
+    const session = new InternalSession("test");
+    const { kernel, started } = await getKernel(session, "python", kernelConfig("python"));
+
+    expect(started).toBe(true);
+    expect(session.kernels.get("python")).toBe(kernel);
+
+    const first = await kernel.run(
+      "import sys\nx = 20\nprint('hi')\nprint('oops', file=sys.stderr)",
+      10_000,
+    );
+
+    expect(first).toMatchObject({ stderr: "oops\n", stdout: "hi\n" });
+    expect(first.result).toBeUndefined();
+
+    const second = await kernel.run("display('shown')\nx + 22", 10_000);
+
+    expect(second.result).toBe("42");
+    expect(second.displayed).toStrictEqual(["'shown'"]);
+
+    const again = await getKernel(session, "python", kernelConfig("python"));
+
+    expect(again).toStrictEqual({ kernel, started: false });
+  });
+
+  it("reports a Python exception without losing the kernel", async () => {
+    const session = new InternalSession("test");
+    const { kernel } = await getKernel(session, "python", kernelConfig("python"));
+
+    const failed = await kernel.run("def boom():\n    raise ValueError('bad')\nboom()", 10_000);
+
+    expect(failed.error).toContain("ValueError: bad");
+    expect(failed.error).toContain('File "<cell 1>", line 2, in boom');
+
+    const after = await kernel.run("1 + 1", 10_000);
+
+    expect(after.result).toBe("2");
+  });
+
+  it("keeps JavaScript state between cells and awaits a final promise", async () => {
+    const session = new InternalSession("test");
+    const { kernel } = await getKernel(session, "javascript", kernelConfig("javascript"));
+
+    await kernel.run("var total = 40; console.log('start')", 10_000);
+    const cell = await kernel.run("Promise.resolve(total + 2)", 10_000);
+
+    expect(cell.result).toBe("42");
+
+    const image = await kernel.run("display(new Uint8Array([1, 2, 3]), 'image/png')", 10_000);
+
+    expect(image.images).toHaveLength(1);
+    expect(image.images[0]?.mediaType).toBe("image/png");
+    expect([...(image.images[0]?.data ?? [])]).toStrictEqual([1, 2, 3]);
+  });
+
+  it("stops the kernel when a cell runs past its timeout", async () => {
+    const session = new InternalSession("test");
+    const { kernel } = await getKernel(session, "python", kernelConfig("python"));
+    await kernel.run("x = 1", 10_000);
+
+    await expect(kernel.run("import time\ntime.sleep(30)", 500)).rejects.toThrow(ToolError);
+    expect(kernel.state).toBe("exited");
+
+    const fresh = await getKernel(session, "python", kernelConfig("python"));
+
+    expect(fresh.started).toBe(true);
+    expect(fresh.kernel).not.toBe(kernel);
+  });
+
+  it("shuts an idle kernel down", async () => {
+    const session = new InternalSession("test");
+    const { kernel } = await getKernel(session, "python", kernelConfig("python", 200));
+
+    await vi.waitFor(
+      () => {
+        expect(kernel.state).toBe("exited");
+      },
+      { timeout: 5000 },
+    );
+  });
+
+  it("kills kernels when the session is reset", async () => {
+    const session = new InternalSession("test");
+    const { kernel } = await getKernel(session, "javascript", kernelConfig("javascript"));
+
+    session.reset();
+
+    expect(session.kernels.size).toBe(0);
+    await vi.waitFor(
+      () => {
+        expect(kernel.state).toBe("exited");
+      },
+      { timeout: 5000 },
+    );
+  });
+});
@@ -0,0 +1,331 @@
+import { Buffer } from "node:buffer";
+import { randomUUID } from "node:crypto";
+import { readFile } from "node:fs/promises";
+import { StringDecoder } from "node:string_decoder";
+
+import * as vb from "valibot";
+
+import { ToolError } from "#engine/errors.js";
+import type { Session } from "#harness/session.js";
+import { debug } from "#output/log.js";
+import { startDetached } from "#util/sandbox.js";
+import type { DetachedCommand, ExecConfig } from "#util/sandbox.js";
+import { onShutdown } from "#util/shutdown.js";
+
+type KernelLanguage = "python" | "javascript";
+type KernelState = "running" | "exited";
+
+interface KernelConfig {
+  // The interpreter binary and sandbox settings; the driver supplies the args.
+  exec: Omit<ExecConfig, "args">;
+  // Shut the kernel down after this long without a cell, in ms.
+  idleTimeout: number;
+}
+
+interface CellImage {
+  data: Buffer;
+  mediaType: string;
+}
+
+interface CellResult {
+  stdout: string;
+  stderr: string;
+  // repr()/util.inspect() of the cell's last expression, when it had a value.
+  result?: string;
+  // Values passed to display() that weren't images.
+  displayed: string[];
+  images: CellImage[];
+  // The traceback or stack when the cell raised.
+  error?: string;
+}
+
+interface PendingCell {
+  id: number;
+  stdout: string[];
+  stderr: string[];
+  resolve(result: CellResult): void;
+  reject(error: Error): void;
+}
+
+// Each driver is a small program the interpreter runs as its main script. It
+// answers every request with one JSON line starting with a marker the host
+// picks per kernel, so output the cell writes straight to stdout can't be
+// mistaken for a reply.
+const DRIVERS: Record<
+  KernelLanguage,
+  { file: string; args(source: string, marker: string): string[] }
+> = {
+  javascript: {
+    args: (source, marker) => ["--input-type=module", "-e", source, marker],
+    file: "driver.mjs",
+  },
+  python: {
+    args: (source, marker) => ["-u", "-c", source, marker],
+    file: "driver.py",
+  },
+};
+
+const ImageSchema = vb.object({ data: vb.string(), mediaType: vb.string() });
+
+const ReplySchema = vb.object({
+  displayed: vb.array(vb.string()),
+  error: vb.exactOptional(vb.string()),
+  id: vb.number(),
+  images: vb.array(ImageSchema),
+  result: vb.exactOptional(vb.object({ image: vb.exactOptional(ImageSchema), text: vb.string() })),
+  stderr: vb.string(),
+  stdout: vb.string(),
+});
+
+// Time a kernel gets to exit after SIGTERM before it is sent SIGKILL.
+const KILL_GRACE_MS = 5000;
+// Enough of the end of the kernel's own stderr to explain why it died.
+const STDERR_TAIL_CHARS = 4096;
+
+const driverSources = new Map<KernelLanguage, string>();
+const liveKernels = new Set<CodeKernel>();
+let shutdownHookRegistered = false;
+
+function decodeImage(image: vb.InferOutput<typeof ImageSchema>): CellImage {
+  return { data: Buffer.from(image.data, "base64"), mediaType: image.mediaType };
+}
+
+class CodeKernel {
+  public readonly language: KernelLanguage;
+  public readonly startedAt = Date.now();
+  public state: KernelState = "running";
+  public cells = 0;
+
+  private readonly proc: DetachedCommand["proc"];
+  private readonly marker: string;
+  private readonly idleTimeout: number;
+  private readonly decoder = new StringDecoder("utf8");
+  private readonly exited: Promise<void>;
+  private partialLine = "";
+  private stderrTail = "";
+  private pending?: PendingCell;
+  private idleTimer?: NodeJS.Timeout;
+  private exitReason?: string;
+
+  public constructor(
+    language: KernelLanguage,
+    detached: DetachedCommand,
+    idleTimeout: number,
+    marker: string,
+  ) {
+    this.language = language;
+    this.proc = detached.proc;
+    this.idleTimeout = idleTimeout;
+    this.marker = marker;
+
+    this.proc.stdout.on("data", (data: Buffer) => {
+      this.receive(this.decoder.write(data));
+    });
+    this.proc.stderr.on("data", (data: Buffer) => {
+      const text = data.toString("utf8");
+      this.stderrTail = (this.stderrTail + text).slice(-STDERR_TAIL_CHARS);
+      this.pending?.stderr.push(text);
+    });
+    // A kernel that died makes writes fail with EPIPE; the exit handler
+    // reports it.
+    this.proc.stdin.on("error", (error) => {
+      debug({ error: error.message, kernel: language }, "Kernel stdin closed");
+    });
+
+    this.exited = this.settle(detached);
+    this.armIdleTimer();
+  }
+
+  /** Runs one cell and waits for its reply, killing the kernel if it takes longer than `timeout` ms. */
+  public async run(code: string, timeout: number): Promise<CellResult> {
+    if (this.state !== "running") {
+      throw new ToolError(`The ${this.language} kernel has exited.`);
+    }
+    if (this.pending !== undefined) {
+      throw new ToolError(`The ${this.language} kernel is still running another cell.`);
+    }
+
+    clearTimeout(this.idleTimer);
+    this.cells++;
+    const id = this.cells;
+    const reply = new Promise<CellResult>((resolve, reject) => {
+      this.pending = { id, reject, resolve, stderr: [], stdout: [] };
+    });
+    const timer = setTimeout(() => {
+      this.exitReason = `The cell ran longer than ${timeout / 1000} seconds, so the ${this.language} kernel was stopped and its state is gone.`;
+      // oxlint-disable-next-line promise/prefer-await-to-then -- the timer can't await; settle() reports the exit.
+      this.kill().catch(() => undefined);
+    }, timeout);
+
+    try {
+      this.proc.stdin.write(`${JSON.stringify({ code, id })}\n`);
+      return await reply;
+    } finally {
+      clearTimeout(timer);
+      this.pending = undefined;
+      this.armIdleTimer();
+    }
+  }
+
+  /** Sends SIGTERM, then SIGKILL if the kernel is still running after a grace period. */
+  public async kill(): Promise<void> {
+    if (this.state !== "running") {
+      return;
+    }
+    clearTimeout(this.idleTimer);
+    this.proc.kill("SIGTERM");
+    const timer = setTimeout(() => {
+      this.proc.kill("SIGKILL");
+    }, KILL_GRACE_MS);
+    timer.unref();
+    await this.exited;
+    clearTimeout(timer);
+  }
+
+  private armIdleTimer(): void {
+    clearTimeout(this.idleTimer);
+    if (this.state !== "running") {
+      return;
+    }
+    this.idleTimer = setTimeout(() => {
+      debug({ kernel: this.language }, "Shutting down idle kernel");
+      // oxlint-disable-next-line promise/prefer-await-to-then -- the timer can't await; the kill finishes on its own.
+      this.kill().catch(() => undefined);
+    }, this.idleTimeout);
+    this.idleTimer.unref();
+  }
+
+  private receive(text: string): void {
+    const lines = (this.partialLine + text).split("\n");
+    this.partialLine = lines.pop() ?? "";
+    for (const line of lines) {
+      const at = line.indexOf(this.marker);
+      if (at === -1) {
+        this.pending?.stdout.push(`${line}\n`);
+        continue;
+      }
+      // Output the cell wrote without a trailing newline ends up in front of
+      // the marker.
+      if (at > 0) {
+        this.pending?.stdout.push(line.slice(0, at));
+      }
+      this.answer(line.slice(at + this.marker.length));
+    }
+  }
+
+  private answer(json: string): void {
+    const { pending } = this;
+    let parsed: vb.SafeParseResult<typeof ReplySchema> | undefined = undefined;
+    try {
+      parsed = vb.safeParse(ReplySchema, JSON.parse(json));
+    } catch {
+      // Handled below like any other malformed reply.
+    }
+    if (pending === undefined || parsed?.success !== true || parsed.output.id !== pending.id) {
+      debug({ kernel: this.language }, "Ignoring an unexpected kernel reply");
+      return;
+    }
+    const reply = parsed.output;
+    const images = reply.images.map((image) => decodeImage(image));
+    if (reply.result?.image !== undefined) {
+      images.unshift(decodeImage(reply.result.image));
+    }
+    pending.resolve({
+      displayed: reply.displayed,
+      error: reply.error,
+      images,
+      result: reply.result?.text,
+      stderr: pending.stderr.join("") + reply.stderr,
+      stdout: pending.stdout.join("") + reply.stdout,
+    });
+  }
+
+  private async settle(detached: DetachedCommand): Promise<void> {
+    const exitCode = await new Promise<number>((resolve) => {
+      // Spawning failed; "close" may follow, but without an exit status.
+      this.proc.once("error", (error) => {
+        this.stderrTail += error.message;
+        resolve(1);
+      });
+      this.proc.once("close", (code) => {
+        resolve(code ?? 1);
+      });
+    });
+    const output = await detached.finish({
+      exitCode,
+      stderr: this.stderrTail,
+      stdout: "",
+      type: "output",
+    });
+    this.state = "exited";
+    clearTimeout(this.idleTimer);
+    liveKernels.delete(this);
+    debug({ exitCode, kernel: this.language }, "Kernel exited");
+
+    const reason =
+      this.exitReason ??
+      output.limit?.message ??
+      `The ${this.language} kernel exited with code ${exitCode} and its state is gone.${this.stderrTail.trim() === "" ? "" : `\n${this.stderrTail.trim()}`}`;
+    this.pending?.reject(new ToolError(reason, "Run the cell again to start a fresh kernel."));
+  }
+}
+
+async function loadDriver(language: KernelLanguage): Promise<string> {
+  let source = driverSources.get(language);
+  if (source === undefined) {
+    source = await readFile(new URL(DRIVERS[language].file, import.meta.url), "utf8");
+    driverSources.set(language, source);
+  }
+  return source;
+}
+
+async function killAllKernels(): Promise<void> {
+  await Promise.allSettled(
+    [...liveKernels].map(async (kernel) => {
+      await kernel.kill();
+    }),
+  );
+}
+
+function registerShutdownHook(): void {
+  if (shutdownHookRegistered) {
+    return;
+  }
+  shutdownHookRegistered = true;
+  onShutdown(killAllKernels);
+}
+
+/**
+ * Returns the session's kernel for `language`, starting one inside the
+ * sandbox when there is none or the last one exited. `started` tells whether
+ * the state is fresh.
+ */
+async function getKernel(
+  session: Session,
+  language: KernelLanguage,
+  cfg: KernelConfig,
+): Promise<{ kernel: CodeKernel; started: boolean }> {
+  const existing = session.kernels.get(language);
+  if (existing?.state === "running") {
+    return { kernel: existing, started: false };
+  }
+
+  const marker = randomUUID();
+  const detached = await startDetached({
+    ...cfg.exec,
+    args: DRIVERS[language].args(await loadDriver(language), marker),
+  });
+  if (detached.type === "error") {
+    throw new ToolError(detached.error);
+  }
+
+  const kernel = new CodeKernel(language, detached, cfg.idleTimeout, marker);
+  session.kernels.set(language, kernel);
+  liveKernels.add(kernel);
+  registerShutdownHook();
+  debug({ command: cfg.exec.command, kernel: language }, "Kernel started");
+  return { kernel, started: true };
+}
+
+export { CodeKernel, getKernel, killAllKernels };
+export type { CellImage, CellResult, KernelLanguage, KernelState };
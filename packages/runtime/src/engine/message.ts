@@ -27,6 +27,9 @@ type UserContent = TextContent | ImageContent | ImageRef | VideoContent | VideoR
 interface UserMessage extends BaseMessage {
   role: "user";
   content: UserContent | UserContent[];
+  // The platform user who sent it, where the channel records it. Matrix lets
+  // any room member send an edit, so edits are only applied from this user.
+  authorId?: string;
   // If false, this message is included in context but not persisted to DB.
   // Used for reply chain context that shouldn't pollute long-term history.
   persist?: boolean;
@@ -1,6 +1,12 @@
 import { describe, expect, test } from "vitest";
 
-import { generateOutlineFromContent, registerExtractor, getExtractors } from "#engine/outline.js";
+import {
+  generateOutlineFromContent,
+  registerExtractor,
+  getExtractors,
+  unregisterExtractor,
+} from "#engine/outline.js";
+import type { Extractor } from "#engine/outline.js";
 
 // Mock sandboxToReal for testing — outline generation needs a real path,
 // but we inject content directly to avoid filesystem dependency.
@@ -134,5 +140,14 @@ line 9\n${"padding\n".repeat(1200)}`;
       // Highest priority extractor should be first
       expect(extractors[0]?.priority).toBe(100);
     });
+
+    test("unregisters an extractor", () => {
+      const extractor: Extractor = { extract: () => [], glob: "*.gone", priority: 5 };
+      registerExtractor(extractor);
+
+      unregisterExtractor(extractor);
+
+      expect(getExtractors()).not.toContain(extractor);
+    });
   });
 });
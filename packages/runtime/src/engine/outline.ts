@@ -159,6 +159,13 @@ function registerExtractor(extractor: Extractor): void {
   }
 }
 
+function unregisterExtractor(extractor: Extractor): void {
+  const idx = extractors.indexOf(extractor);
+  if (idx !== -1) {
+    extractors.splice(idx, 1);
+  }
+}
+
 function getExtractors(): readonly Extractor[] {
   return extractors;
 }
@@ -225,6 +232,7 @@ export {
   generateOutline,
   generateOutlineFromContent,
   registerExtractor,
+  unregisterExtractor,
   getExtractors,
   DEFAULT_OUTLINE_THRESHOLD_TOKENS as OUTLINE_TOKEN_THRESHOLD,
   CHARS_PER_TOKEN,
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+
+import { createPartialRespondStreamer } from "./partial-respond.js";
+
+describe("createPartialRespondStreamer", () => {
+  it("coalesces deltas that arrive while a send is in flight", async () => {
+    const sent: string[] = [];
+    // oxlint-disable-next-line typescript/require-await
+    const streamer = createPartialRespondStreamer(async (content) => {
+      sent.push(content);
+    });
+
+    // Deltas land synchronously, so the second and third arrive while the
+    // first send is still pending.
+    streamer.onToolCallDelta({ arguments: '{"content": "He', index: 0, name: "respond" });
+    streamer.onToolCallDelta({ arguments: '{"content": "Hel', index: 0, name: "respond" });
+    streamer.onToolCallDelta({ arguments: '{"content": "Hello', index: 0, name: "respond" });
+    await streamer.flush();
+
+    expect(sent).toEqual(["He", "Hello"]);
+  });
+
+  it("only previews the first respond call", async () => {
+    const sent: string[] = [];
+    // oxlint-disable-next-line typescript/require-await
+    const streamer = createPartialRespondStreamer(async (content) => {
+      sent.push(content);
+    });
+
+    streamer.onToolCallDelta({ arguments: '{"content": "one"', index: 0, name: "exec" });
+    streamer.onToolCallDelta({ arguments: '{"content": "two"', index: 1, name: "respond" });
+    await streamer.flush();
+    streamer.onToolCallDelta({ arguments: '{"content": "three"', index: 2, name: "respond" });
+    await streamer.flush();
+
+    expect(sent).toEqual(["two"]);
+  });
+
+  it("abandons the preview once the call targets another channel", async () => {
+    const sent: string[] = [];
+    // oxlint-disable-next-line typescript/require-await
+    const streamer = createPartialRespondStreamer(async (content) => {
+      sent.push(content);
+    });
+
+    streamer.onToolCallDelta({
+      arguments: '{"content": "hi", "channel": "cur',
+      index: 0,
+      name: "respond",
+    });
+    await streamer.flush();
+    streamer.onToolCallDelta({
+      arguments: '{"content": "hi", "channel": "owner"',
+      index: 0,
+      name: "respond",
+    });
+    streamer.onToolCallDelta({ arguments: '{"content": "hi there"', index: 0, name: "respond" });
+    await streamer.flush();
+
+    expect(sent).toEqual(["hi"]);
+  });
+});
@@ -0,0 +1,75 @@
+import type { ToolCallDelta } from "#engine/context.js";
+import { debug } from "#output/log.js";
+import { readPartialStringField } from "#util/json.js";
+
+interface PartialRespondStreamer {
+  // Resolves once every partial accepted so far has been handed to the channel.
+  flush(this: void): Promise<void>;
+  onToolCallDelta(this: void, delta: ToolCallDelta): void;
+}
+
+/**
+ * Forwards the growing `content` of the first `respond` call in a generation
+ * to the channel's partial hook. Only one send is ever in flight: deltas that
+ * arrive while the channel is busy collapse into the latest text, so a slow
+ * channel (Discord edits) sees fewer, larger updates instead of a backlog.
+ *
+ * Calls aimed at another channel are never previewed here. The `channel`
+ * argument may be missing or still arriving when `content` starts, so the
+ * preview is abandoned as soon as it turns out to point elsewhere.
+ */
+function createPartialRespondStreamer(
+  sendPartial: (content: string) => Promise<void>,
+): PartialRespondStreamer {
+  let streamIndex: number | undefined = undefined;
+  let abandoned = false;
+  let latest = "";
+  let sent = "";
+  let inFlight: Promise<void> | undefined = undefined;
+
+  async function drain(): Promise<void> {
+    while (latest !== sent) {
+      const content = latest;
+      sent = content;
+      try {
+        await sendPartial(content);
+      } catch (error: unknown) {
+        // A failed preview is cosmetic; the final respond still delivers the message.
+        debug("Partial respond update failed", error);
+      }
+    }
+    inFlight = undefined;
+  }
+
+  return {
+    flush: async (): Promise<void> => {
+      await inFlight;
+    },
+    onToolCallDelta: (delta): void => {
+      if (abandoned || delta.name !== "respond") {
+        return;
+      }
+      streamIndex ??= delta.index;
+      if (delta.index !== streamIndex) {
+        return;
+      }
+
+      const channel = readPartialStringField(delta.arguments, "channel");
+      if (channel !== undefined && !"current".startsWith(channel)) {
+        abandoned = true;
+        return;
+      }
+
+      const content = readPartialStringField(delta.arguments, "content");
+      if (content === undefined || content.length === 0) {
+        return;
+      }
+
+      latest = content;
+      inFlight ??= drain();
+    },
+  };
+}
+
+export { createPartialRespondStreamer };
+export type { PartialRespondStreamer };
@@ -0,0 +1,136 @@
+import { KeyPool } from "@cireilclaw/sdk";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import type { Context } from "#engine/context.js";
+
+import { generate } from "./anthropic.js";
+
+const context: Context = {
+  messages: [{ content: { content: "hi", type: "text" }, role: "user" }],
+  sessionId: "internal:test",
+  systemPrompt: "Use tools.",
+  tools: [],
+};
+
+// Serves the events as SSE, cut into awkward pieces so lines straddle chunk
+// boundaries the way they do on a real connection.
+function sseResponse(events: Record<string, unknown>[], chunkSize = 7): Response {
+  const text = events
+    .map((event) => `event: ${String(event["type"])}\ndata: ${JSON.stringify(event)}\n\n`)
+    .join("");
+  const bytes = new TextEncoder().encode(text);
+  const body = new ReadableStream<Uint8Array>({
+    start(controller): void {
+      for (let offset = 0; offset < bytes.length; offset += chunkSize) {
+        controller.enqueue(bytes.slice(offset, offset + chunkSize));
+      }
+      controller.close();
+    },
+  });
+  return new Response(body, { headers: { "Content-Type": "text/event-stream" } });
+}
+
+function toolUseStream(partials: string[]): Record<string, unknown>[] {
+  return [
+    { message: { usage: { input_tokens: 20, output_tokens: 1 } }, type: "message_start" },
+    {
+      content_block: { signature: "", thinking: "", type: "thinking" },
+      index: 0,
+      type: "content_block_start",
+    },
+    {
+      delta: { thinking: "Let me ", type: "thinking_delta" },
+      index: 0,
+      type: "content_block_delta",
+    },
+    {
+      delta: { thinking: "answer.", type: "thinking_delta" },
+      index: 0,
+      type: "content_block_delta",
+    },
+    { delta: { signature: "sig", type: "signature_delta" }, index: 0, type: "content_block_delta" },
+    { index: 0, type: "content_block_stop" },
+    {
+      content_block: { id: "toolu_1", input: {}, name: "respond", type: "tool_use" },
+      index: 1,
+      type: "content_block_start",
+    },
+    ...partials.map((partial) => ({
+      delta: { partial_json: partial, type: "input_json_delta" },
+      index: 1,
+      type: "content_block_delta",
+    })),
+    { index: 1, type: "content_block_stop" },
+    { delta: { stop_reason: "tool_use" }, type: "message_delta", usage: { output_tokens: 42 } },
+    { type: "message_stop" },
+  ];
+}
+
+describe("generate", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("requests a stream and rebuilds thinking and tool_use blocks from it", async () => {
+    let requestBody = "";
+    vi.stubGlobal(
+      "fetch",
+      vi.fn((_url: string | URL, init?: RequestInit) => {
+        requestBody = typeof init?.body === "string" ? init.body : "";
+        return sseResponse(toolUseStream(['{"content": "Hel', 'lo"}']));
+      }),
+    );
+
+    const deltas: string[] = [];
+    const { message, usage } = await generate(
+      context,
+      "https://api.example/v1",
+      new KeyPool("k"),
+      "claude-test",
+      { onToolCallDelta: (delta) => deltas.push(`${delta.name}:${delta.arguments}`) },
+    );
+
+    expect(requestBody).toContain('"stream":true');
+    expect(message.content).toEqual([
+      { signature: "sig", thinking: "Let me answer.", type: "thinking" },
+      { id: "toolu_1", input: { content: "Hello" }, name: "respond", type: "toolCall" },
+    ]);
+    expect(deltas).toEqual(['respond:{"content": "Hel', 'respond:{"content": "Hello"}']);
+    expect(usage).toMatchObject({ completionTokens: 42, promptTokens: 20 });
+  });
+
+  it("reports streamed text without tool use as a no-tool-calls failure", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(() =>
+        sseResponse([
+          { message: { usage: { input_tokens: 1, output_tokens: 1 } }, type: "message_start" },
+          { content_block: { text: "", type: "text" }, index: 0, type: "content_block_start" },
+          { delta: { text: "plain", type: "text_delta" }, index: 0, type: "content_block_delta" },
+          { index: 0, type: "content_block_stop" },
+          { delta: { stop_reason: "end_turn" }, type: "message_delta" },
+        ]),
+      ),
+    );
+
+    await expect(
+      generate(context, "https://api.example/v1", new KeyPool("k"), "claude-test", {}),
+    ).rejects.toMatchObject({ text: "plain" });
+  });
+
+  it("throws on an in-stream error event", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(() =>
+        sseResponse([
+          { message: { usage: { input_tokens: 1, output_tokens: 1 } }, type: "message_start" },
+          { error: { message: "Overloaded", type: "overloaded_error" }, type: "error" },
+        ]),
+      ),
+    );
+
+    await expect(
+      generate(context, "https://api.example/v1", new KeyPool("k"), "claude-test", {}),
+    ).rejects.toThrow(/overloaded_error/u);
+  });
+});
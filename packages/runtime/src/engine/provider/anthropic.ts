@@ -4,16 +4,20 @@ import * as vb from "valibot";
 import { DefaultReasoningBudget } from "#config/schemas/engine.js";
 import { renderTextContent } from "#engine/content.js";
 import type { ImageContent, TextContent, ToolResponseContent } from "#engine/content.js";
-import type { Context, UsageInfo } from "#engine/context.js";
-import { GenerationNoToolCallsError } from "#engine/errors.js";
+import type { Context, ToolCallDeltaHandler, UsageInfo } from "#engine/context.js";
+import { classifyHttpFailure, GenerationNoToolCallsError, ProviderError } from "#engine/errors.js";
+import type { ProviderFailure } from "#engine/errors.js";
 import type { AssistantMessage, Message, UserContent } from "#engine/message.js";
 import type { Tool } from "#engine/tool.js";
 import { debug, warning } from "#output/log.js";
 import { encode } from "#util/base64.js";
 import { scaleForAnthropic } from "#util/image.js";
-import { SINGLE_REQUEST_TIMEOUT_MS } from "#util/network.js";
+import { parseRepairedJSON } from "#util/json.js";
+import { fetchWithTimeout, STREAM_IDLE_TIMEOUT_MS } from "#util/network.js";
 import { toJsonSchemaSafe } from "#util/schema.js";
 
+import { readSseData } from "./sse.js";
+
 interface AnthropicTextBlock {
   cache_control?: { type: "ephemeral" };
   type: "text";
@@ -265,10 +269,186 @@ function translateTool(tool: Tool): Record<string, unknown> {
   };
 }
 
+const ResponseBlockSchema = vb.object({
+  data: vb.exactOptional(vb.string()),
+  id: vb.exactOptional(vb.string()),
+  input: vb.exactOptional(vb.unknown()),
+  name: vb.exactOptional(vb.string()),
+  signature: vb.exactOptional(vb.string()),
+  text: vb.exactOptional(vb.string()),
+  thinking: vb.exactOptional(vb.string()),
+  type: vb.string(),
+});
+
+type ResponseBlock = vb.InferOutput<typeof ResponseBlockSchema>;
+
+const StreamEventSchema = vb.variant("type", [
+  vb.looseObject({
+    message: vb.looseObject({
+      usage: vb.looseObject({
+        cache_creation_input_tokens: vb.nullish(vb.number()),
+        cache_read_input_tokens: vb.nullish(vb.number()),
+        input_tokens: vb.number(),
+        output_tokens: vb.number(),
+      }),
+    }),
+    type: vb.literal("message_start"),
+  }),
+  vb.looseObject({
+    content_block: vb.looseObject(ResponseBlockSchema.entries),
+    index: vb.number(),
+    type: vb.literal("content_block_start"),
+  }),
+  vb.looseObject({
+    delta: vb.looseObject({
+      partial_json: vb.exactOptional(vb.string()),
+      signature: vb.exactOptional(vb.string()),
+      text: vb.exactOptional(vb.string()),
+      thinking: vb.exactOptional(vb.string()),
+      type: vb.string(),
+    }),
+    index: vb.number(),
+    type: vb.literal("content_block_delta"),
+  }),
+  vb.looseObject({ index: vb.number(), type: vb.literal("content_block_stop") }),
+  vb.looseObject({
+    delta: vb.looseObject({ stop_reason: vb.nullish(vb.string()) }),
+    type: vb.literal("message_delta"),
+    usage: vb.exactOptional(vb.looseObject({ output_tokens: vb.number() })),
+  }),
+  vb.looseObject({
+    error: vb.looseObject({ message: vb.string(), type: vb.string() }),
+    type: vb.literal("error"),
+  }),
+]);
+
+interface CollectedUsage {
+  cache_creation_input_tokens: number;
+  cache_read_input_tokens: number;
+  input_tokens: number;
+  output_tokens: number;
+}
+
+interface CollectedMessage {
+  content: ResponseBlock[];
+  stop_reason: string;
+  usage: CollectedUsage;
+}
+
+// Error types Anthropic can send mid-stream, after the HTTP status was 200.
+const STREAM_ERROR_FAILURES: Partial<Record<string, ProviderFailure>> = {
+  api_error: "server",
+  overloaded_error: "server",
+  rate_limit_error: "rate-limit",
+};
+
+// Rebuilds the message a non-streaming request would have returned from the
+// event stream. Tool input arrives as JSON fragments and is only parsed once
+// its block closes. Unknown events (`ping`, `message_stop`) are skipped.
+async function collectStream(
+  response: Response,
+  onToolCallDelta?: ToolCallDeltaHandler,
+): Promise<CollectedMessage> {
+  // Indexed by the stream's block index, which can skip numbers.
+  const blocks: (ResponseBlock | undefined)[] = [];
+  const partialJson = new Map<number, string>();
+  let stopReason: string | undefined = undefined;
+  const usage: CollectedUsage = {
+    cache_creation_input_tokens: 0,
+    cache_read_input_tokens: 0,
+    input_tokens: 0,
+    output_tokens: 0,
+  };
+
+  for await (const data of readSseData(response)) {
+    const parsed = vb.safeParse(StreamEventSchema, data);
+    if (!parsed.success) {
+      continue;
+    }
+    const event = parsed.output;
+
+    switch (event.type) {
+      case "message_start": {
+        usage.input_tokens = event.message.usage.input_tokens;
+        usage.output_tokens = event.message.usage.output_tokens;
+        usage.cache_creation_input_tokens = event.message.usage.cache_creation_input_tokens ?? 0;
+        usage.cache_read_input_tokens = event.message.usage.cache_read_input_tokens ?? 0;
+        break;
+      }
+      case "content_block_start": {
+        // tool_use opens with an empty `input`; content_block_stop replaces it.
+        blocks[event.index] = vb.parse(ResponseBlockSchema, event.content_block);
+        if (event.content_block.type === "tool_use") {
+          partialJson.set(event.index, "");
+        }
+        break;
+      }
+      case "content_block_delta": {
+        const block = blocks[event.index];
+        if (block === undefined) {
+          break;
+        }
+        const { delta } = event;
+        if (delta.text !== undefined) {
+          block.text = (block.text ?? "") + delta.text;
+        }
+        if (delta.thinking !== undefined) {
+          block.thinking = (block.thinking ?? "") + delta.thinking;
+        }
+        if (delta.signature !== undefined) {
+          block.signature = delta.signature;
+        }
+        if (delta.partial_json !== undefined) {
+          const json = (partialJson.get(event.index) ?? "") + delta.partial_json;
+          partialJson.set(event.index, json);
+          onToolCallDelta?.({ arguments: json, index: event.index, name: block.name ?? "" });
+        }
+        break;
+      }
+      case "content_block_stop": {
+        const block = blocks[event.index];
+        const json = partialJson.get(event.index);
+        if (block !== undefined && json !== undefined) {
+          block.input = json.trim() === "" ? {} : parseRepairedJSON(json);
+        }
+        break;
+      }
+      case "message_delta": {
+        stopReason = event.delta.stop_reason ?? stopReason;
+        if (event.usage !== undefined) {
+          usage.output_tokens = event.usage.output_tokens;
+        }
+        break;
+      }
+      case "error": {
+        throw new ProviderError(
+          `Anthropic stream error (${event.error.type}): ${event.error.message}`,
+          STREAM_ERROR_FAILURES[event.error.type] ?? "request",
+        );
+      }
+      default: {
+        const exhaustive: never = event;
+        throw new Error(`Unhandled stream event: ${JSON.stringify(exhaustive)}`);
+      }
+    }
+  }
+
+  if (stopReason === undefined) {
+    throw new Error("Anthropic response stream ended without a stop reason");
+  }
+
+  return {
+    content: blocks.filter((block) => block !== undefined),
+    stop_reason: stopReason,
+    usage,
+  };
+}
+
 interface Options {
   reasoning?: boolean | string;
   reasoningBudget?: number;
   customHeaders?: Record<string, string | string[]>;
+  onToolCallDelta?: ToolCallDeltaHandler;
 }
 
 export async function generate(
@@ -276,7 +456,12 @@ export async function generate(
   apiBase: string,
   keyPool: KeyPool,
   model: string,
-  { reasoning = true, reasoningBudget = DefaultReasoningBudget, customHeaders }: Options,
+  {
+    reasoning = true,
+    reasoningBudget = DefaultReasoningBudget,
+    customHeaders,
+    onToolCallDelta,
+  }: Options,
 ): Promise<{ message: AssistantMessage; usage?: UsageInfo }> {
   const cacheBreakpoints = context.cacheBreakpoints
     ? new Set(context.cacheBreakpoints)
@@ -286,6 +471,7 @@ export async function generate(
     max_tokens: 64_000,
     messages: await translateMessages(context.messages, cacheBreakpoints),
     model,
+    stream: true,
     system: [{ cache_control: { type: "ephemeral" }, text: context.systemPrompt, type: "text" }],
     tool_choice: { type: "any" },
     tools: context.tools.map((tool, idx, arr) => {
@@ -310,30 +496,36 @@ export async function generate(
     const token = keyPool.getNextKey();
 
     if (attemptedKeys.has(token)) {
-      throw new Error(
+      throw new ProviderError(
         `All API keys have been rate-limited. Please try again later.\n` +
           `Request info:\n` +
           `  - Model: ${model}\n` +
           `  - Keys in pool: ${keyPool.totalCount}\n` +
           `  - Keys available: ${keyPool.availableCount}`,
+        "rate-limit",
+        429,
       );
     }
     attemptedKeys.add(token);
 
     debug("Starting Anthropic message generation...");
-    const resp = await fetch(`${apiBase}/messages`, {
-      body: JSON.stringify(body),
-      headers: {
-        Authorization: `Bearer ${token}`,
-        "Content-Type": "application/json",
-        "anthropic-beta": "oauth-2025-04-20,interleaved-thinking-2025-05-14",
-        "anthropic-version": "2023-06-01",
-        ...customHeaders,
+    // Headers arrive before the first token, so the idle timeout doubles as
+    // the connect timeout; readSseData applies it again between chunks.
+    const resp = await fetchWithTimeout(
+      `${apiBase}/messages`,
+      {
+        body: JSON.stringify(body),
+        headers: {
+          Authorization: `Bearer ${token}`,
+          "Content-Type": "application/json",
+          "anthropic-beta": "oauth-2025-04-20,interleaved-thinking-2025-05-14",
+          "anthropic-version": "2023-06-01",
+          ...customHeaders,
+        },
+        method: "POST",
       },
-      method: "POST",
-      signal: AbortSignal.timeout(SINGLE_REQUEST_TIMEOUT_MS),
-    });
-    debug("Finished Anthropic message generation...");
+      STREAM_IDLE_TIMEOUT_MS,
+    );
 
     if (!resp.ok) {
       if (resp.status === 429) {
@@ -344,36 +536,19 @@ export async function generate(
       }
 
       const errorText = await resp.text();
-      throw new Error(
+      throw new ProviderError(
         `Anthropic API error (${resp.status}): ${errorText}\n` +
           `  - Model: ${model}\n` +
           `  - Tools: ${context.tools.map((tool) => tool.name).join(", ")}\n` +
           `  - Messages: ${context.messages.length}`,
+        classifyHttpFailure(resp.status, errorText),
+        resp.status,
       );
     }
 
     try {
-      const AnthropicResponseSchema = vb.object({
-        content: vb.array(
-          vb.object({
-            data: vb.exactOptional(vb.string()),
-            id: vb.exactOptional(vb.string()),
-            input: vb.exactOptional(vb.unknown()),
-            name: vb.exactOptional(vb.string()),
-            signature: vb.exactOptional(vb.string()),
-            text: vb.exactOptional(vb.string()),
-            thinking: vb.exactOptional(vb.string()),
-            type: vb.string(),
-          }),
-        ),
-        stop_reason: vb.string(),
-        usage: vb.object({
-          input_tokens: vb.number(),
-          output_tokens: vb.number(),
-        }),
-      });
-
-      const data = vb.parse(AnthropicResponseSchema, await resp.json());
+      const data = await collectStream(resp, onToolCallDelta);
+      debug("Finished Anthropic message generation...");
 
       if (data.stop_reason !== "tool_use") {
         const textBlock = data.content.find((block) => block.type === "text");
@@ -430,9 +605,14 @@ export async function generate(
         role: "assistant",
       };
 
+      // Anthropic leaves cache reads and writes out of input_tokens.
       const usage: UsageInfo = {
+        cachedTokens: data.usage.cache_read_input_tokens,
         completionTokens: data.usage.output_tokens,
-        promptTokens: data.usage.input_tokens,
+        promptTokens:
+          data.usage.input_tokens +
+          data.usage.cache_read_input_tokens +
+          data.usage.cache_creation_input_tokens,
         systemPromptTokensEst: Math.round(context.systemPrompt.length / 4),
       };
 
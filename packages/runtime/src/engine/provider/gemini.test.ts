@@ -0,0 +1,223 @@
+import { KeyPool } from "@cireilclaw/sdk";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import type { Context } from "#engine/context.js";
+
+import { generate, toGeminiSchema, translateMessages } from "./gemini.js";
+
+const context: Context = {
+  messages: [{ content: { content: "hi", type: "text" }, role: "user" }],
+  sessionId: "internal:test",
+  systemPrompt: "Use tools.",
+  tools: [],
+};
+
+// Serves the chunks as SSE, cut into awkward pieces so lines straddle chunk
+// boundaries the way they do on a real connection.
+function sseResponse(chunks: Record<string, unknown>[], chunkSize = 7): Response {
+  const text = chunks.map((chunk) => `data: ${JSON.stringify(chunk)}\n\n`).join("");
+  const bytes = new TextEncoder().encode(text);
+  const body = new ReadableStream<Uint8Array>({
+    start(controller): void {
+      for (let offset = 0; offset < bytes.length; offset += chunkSize) {
+        controller.enqueue(bytes.slice(offset, offset + chunkSize));
+      }
+      controller.close();
+    },
+  });
+  return new Response(body, { headers: { "Content-Type": "text/event-stream" } });
+}
+
+function candidate(
+  parts: Record<string, unknown>[],
+  finishReason?: string,
+): Record<string, unknown> {
+  return { candidates: [{ content: { parts, role: "model" }, finishReason }] };
+}
+
+describe("translateMessages", () => {
+  it("echoes thought signatures and merges tool responses into one user turn", () => {
+    const contents = translateMessages([
+      { content: { content: "hi", type: "text" }, role: "user" },
+      {
+        content: [
+          { thinking: "Two lookups.", type: "thinking" },
+          {
+            id: "call_1",
+            input: { query: "a" },
+            name: "search",
+            thoughtSignature: "sig",
+            type: "toolCall",
+          },
+          { id: "gemini-local-x", input: { query: "b" }, name: "search", type: "toolCall" },
+        ],
+        role: "assistant",
+      },
+      {
+        content: { id: "call_1", name: "search", output: { hits: 1 }, type: "toolResponse" },
+        role: "toolResponse",
+      },
+      {
+        content: { id: "gemini-local-x", name: "search", output: "none", type: "toolResponse" },
+        role: "toolResponse",
+      },
+    ]);
+
+    expect(contents).toEqual([
+      { parts: [{ text: "hi" }], role: "user" },
+      {
+        parts: [
+          { text: "Two lookups.", thought: true },
+          {
+            functionCall: { args: { query: "a" }, id: "call_1", name: "search" },
+            thoughtSignature: "sig",
+          },
+          { functionCall: { args: { query: "b" }, name: "search" } },
+        ],
+        role: "model",
+      },
+      {
+        parts: [
+          { functionResponse: { id: "call_1", name: "search", response: { hits: 1 } } },
+          { functionResponse: { name: "search", response: { output: "none" } } },
+        ],
+        role: "user",
+      },
+    ]);
+  });
+
+  it("sends video inline", () => {
+    const [content] = translateMessages([
+      {
+        content: {
+          attachmentId: "1",
+          data: new Uint8Array([1, 2, 3]),
+          mediaType: "video/mp4",
+          type: "video",
+          url: "https://cdn.example/v.mp4",
+        },
+        role: "user",
+      },
+    ]);
+
+    expect(content?.parts).toEqual([{ inlineData: { data: "AQID", mimeType: "video/mp4" } }]);
+  });
+});
+
+describe("toGeminiSchema", () => {
+  it("drops unsupported keywords and rewrites the ones Gemini spells differently", () => {
+    const schema = toGeminiSchema({
+      $schema: "http://json-schema.org/draft-07/schema#",
+      additionalProperties: false,
+      properties: {
+        level: { enum: [1, 2] },
+        mode: { const: "fast" },
+        note: { type: ["string", "null"] },
+        target: { oneOf: [{ type: "string" }, { additionalProperties: false, type: "object" }] },
+      },
+      required: ["mode"],
+      type: "object",
+    });
+
+    expect(schema).toEqual({
+      properties: {
+        level: { enum: ["1", "2"], type: "string" },
+        mode: { enum: ["fast"], type: "string" },
+        note: { nullable: true, type: "string" },
+        target: { anyOf: [{ type: "string" }, { type: "object" }] },
+      },
+      required: ["mode"],
+      type: "object",
+    });
+  });
+});
+
+describe("generate", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("streams thoughts and function calls into thinking and toolCall blocks", async () => {
+    let requestUrl = "";
+    let requestHeaders = new Headers();
+    vi.stubGlobal(
+      "fetch",
+      vi.fn((url: string | URL, init?: RequestInit) => {
+        requestUrl = String(url);
+        requestHeaders = new Headers(init?.headers);
+        return sseResponse([
+          candidate([{ text: "Let me ", thought: true }]),
+          candidate([{ text: "answer.", thought: true }]),
+          candidate([
+            {
+              functionCall: { args: { content: "Hello" }, name: "respond" },
+              thoughtSignature: "sig",
+            },
+          ]),
+          {
+            ...candidate([], "STOP"),
+            usageMetadata: {
+              candidatesTokenCount: 12,
+              promptTokenCount: 20,
+              thoughtsTokenCount: 30,
+            },
+          },
+        ]);
+      }),
+    );
+
+    const deltas: string[] = [];
+    const { message, usage } = await generate(
+      context,
+      "https://api.example/v1beta",
+      new KeyPool("k"),
+      "gemini-test",
+      { onToolCallDelta: (delta) => deltas.push(`${delta.name}:${delta.arguments}`) },
+    );
+
+    expect(requestUrl).toBe(
+      "https://api.example/v1beta/models/gemini-test:streamGenerateContent?alt=sse",
+    );
+    expect(requestHeaders.get("x-goog-api-key")).toBe("k");
+    const [thinking, call] = Array.isArray(message.content) ? message.content : [];
+    expect(thinking).toEqual({ thinking: "Let me answer.", type: "thinking" });
+    expect(call).toMatchObject({
+      input: { content: "Hello" },
+      name: "respond",
+      thoughtSignature: "sig",
+      type: "toolCall",
+    });
+    // Gemini sent no call ID, so one is minted locally and kept off the wire.
+    expect(call?.type === "toolCall" && call.id).toMatch(/^gemini-local-/u);
+    expect(deltas).toEqual(['respond:{"content":"Hello"}']);
+    expect(usage).toMatchObject({ completionTokens: 42, promptTokens: 20, reasoningTokens: 30 });
+  });
+
+  it("reports streamed text without function calls as a no-tool-calls failure", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(() => sseResponse([candidate([{ text: "pla" }]), candidate([{ text: "in" }], "STOP")])),
+    );
+
+    await expect(
+      generate(context, "https://api.example/v1beta", new KeyPool("k"), "gemini-test", {}),
+    ).rejects.toMatchObject({ text: "plain" });
+  });
+
+  it("classifies HTTP failures for failover", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(
+        () =>
+          new Response(
+            "The input token count (1200000) exceeds the maximum number of tokens allowed (1048576).",
+            { status: 400 },
+          ),
+      ),
+    );
+
+    await expect(
+      generate(context, "https://api.example/v1beta", new KeyPool("k"), "gemini-test", {}),
+    ).rejects.toMatchObject({ failure: "context-length", status: 400 });
+  });
+});
@@ -0,0 +1,472 @@
+import { randomUUID } from "node:crypto";
+
+import type { KeyPool } from "@cireilclaw/sdk";
+import * as vb from "valibot";
+
+import { DefaultReasoningBudget } from "#config/schemas/engine.js";
+import { renderTextContent } from "#engine/content.js";
+import type { ImageContent, ToolResponseContent, VideoContent } from "#engine/content.js";
+import type { Context, ToolCallDeltaHandler, UsageInfo } from "#engine/context.js";
+import { classifyHttpFailure, GenerationNoToolCallsError, ProviderError } from "#engine/errors.js";
+import type { AssistantMessage, Message, UserContent } from "#engine/message.js";
+import type { Tool } from "#engine/tool.js";
+import { debug, warning } from "#output/log.js";
+import { encode } from "#util/base64.js";
+import { fetchWithTimeout, STREAM_IDLE_TIMEOUT_MS } from "#util/network.js";
+import { toJsonSchemaSafe } from "#util/schema.js";
+
+import { readSseData } from "./sse.js";
+
+interface GeminiPart {
+  text?: string;
+  thought?: boolean;
+  thoughtSignature?: string;
+  inlineData?: { mimeType: string; data: string };
+  functionCall?: { id?: string; name: string; args: unknown };
+  functionResponse?: { id?: string; name: string; response: Record<string, unknown> };
+}
+
+interface GeminiContent {
+  role: "user" | "model";
+  parts: GeminiPart[];
+}
+
+// Gemini only sometimes assigns call IDs. The engine needs one to pair calls
+// with responses, so missing ones are minted locally and never sent back.
+const LOCAL_CALL_ID_PREFIX = "gemini-local-";
+
+function remoteCallId(id: string): string | undefined {
+  return id.startsWith(LOCAL_CALL_ID_PREFIX) ? undefined : id;
+}
+
+function translateImage(content: ImageContent): GeminiPart {
+  if (content.memoized?.kind !== "webp") {
+    content.memoized = { data: encode(content.data), kind: "webp" };
+  }
+  return { inlineData: { data: content.memoized.data, mimeType: content.mediaType } };
+}
+
+function translateVideo(content: VideoContent): GeminiPart {
+  content.memoized ??= { data: encode(content.data) };
+  return { inlineData: { data: content.memoized.data, mimeType: content.mediaType } };
+}
+
+function translateUserParts(content: UserContent | UserContent[]): GeminiPart[] {
+  const userContent = Array.isArray(content) ? content : [content];
+  return userContent.map((block): GeminiPart => {
+    switch (block.type) {
+      case "text":
+        return { text: renderTextContent(block) };
+      case "image":
+        return translateImage(block);
+      case "video":
+        return translateVideo(block);
+      case "image_ref":
+        throw new Error("A block of type image_ref should not exist here.");
+      case "video_ref":
+        // Only the Discord CDN URL survives a restart, and Gemini can't fetch it.
+        return { text: `[video no longer available: ${block.url}]` };
+      default: {
+        const exhaustive: never = block;
+        throw new Error(`Unsupported user content: ${JSON.stringify(exhaustive)}`);
+      }
+    }
+  });
+}
+
+function translateToolResponse(content: ToolResponseContent): GeminiPart {
+  const response =
+    typeof content.output === "object" && content.output !== null && !Array.isArray(content.output)
+      ? vb.parse(vb.record(vb.string(), vb.unknown()), content.output)
+      : { output: content.output };
+  return {
+    functionResponse: { id: remoteCallId(content.id), name: content.name, response },
+  };
+}
+
+// Translates internal messages to Gemini contents. Like Anthropic, tool
+// responses travel in a user turn, so consecutive ones (and the pending-media
+// user message that follows them) merge into a single turn. Consecutive turns
+// of the same role are merged too, which Gemini requires.
+function translateMessages(messages: Message[]): GeminiContent[] {
+  const result: GeminiContent[] = [];
+
+  function push(role: GeminiContent["role"], parts: GeminiPart[]): void {
+    if (parts.length === 0) {
+      return;
+    }
+    const last = result.at(-1);
+    if (last?.role === role) {
+      last.parts.push(...parts);
+    } else {
+      result.push({ parts, role });
+    }
+  }
+
+  for (const msg of messages) {
+    switch (msg.role) {
+      case "user":
+        push("user", translateUserParts(msg.content));
+        break;
+      case "toolResponse":
+        push("user", [translateToolResponse(msg.content)]);
+        break;
+      case "assistant": {
+        const blocks = Array.isArray(msg.content) ? msg.content : [msg.content];
+        const parts: GeminiPart[] = [];
+        for (const block of blocks) {
+          if (block.type === "text") {
+            parts.push({ text: renderTextContent(block) });
+          } else if (block.type === "thinking") {
+            parts.push({ text: block.thinking, thought: true });
+          } else if (block.type === "toolCall") {
+            parts.push({
+              functionCall: { args: block.input, id: remoteCallId(block.id), name: block.name },
+              // Gemini rejects a follow-up whose function calls lost their signatures.
+              thoughtSignature: block.thoughtSignature,
+            });
+          }
+        }
+        push("model", parts);
+        break;
+      }
+      case "system":
+        // Mid-conversation system messages have no Gemini role; they are
+        // instructions from the harness, so they go in as user text.
+        push("user", [{ text: renderTextContent(msg.content) }]);
+        break;
+      default: {
+        const exhaustive: never = msg;
+        throw new Error(`Unsupported message role: ${JSON.stringify(exhaustive)}`);
+      }
+    }
+  }
+
+  return result;
+}
+
+// The OpenAPI subset Gemini accepts for function parameters. Anything else
+// (`additionalProperties`, `$schema`, `const`, ...) fails the whole request.
+const SCHEMA_KEYS = new Set([
+  "anyOf",
+  "description",
+  "enum",
+  "format",
+  "items",
+  "maxItems",
+  "maxLength",
+  "maximum",
+  "minItems",
+  "minLength",
+  "minimum",
+  "nullable",
+  "pattern",
+  "properties",
+  "required",
+  "title",
+  "type",
+]);
+
+function toGeminiSchema(schema: unknown): unknown {
+  if (typeof schema !== "object" || schema === null || Array.isArray(schema)) {
+    return schema;
+  }
+
+  const source = vb.parse(vb.record(vb.string(), vb.unknown()), schema);
+  const result: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(source)) {
+    if (key === "properties" && typeof value === "object" && value !== null) {
+      result[key] = Object.fromEntries(
+        Object.entries(value).map(([name, property]) => [name, toGeminiSchema(property)]),
+      );
+    } else if (key === "items") {
+      result[key] = toGeminiSchema(value);
+    } else if (key === "anyOf" || key === "oneOf") {
+      result["anyOf"] = Array.isArray(value) ? value.map((it) => toGeminiSchema(it)) : value;
+    } else if (key === "const") {
+      result["enum"] = [value];
+    } else if (key === "type" && Array.isArray(value)) {
+      // JSON Schema's ["string", "null"] is { type: "string", nullable: true }.
+      const types = value.filter((it) => it !== "null");
+      result["type"] = types.length === 1 ? types[0] : types;
+      if (types.length < value.length) {
+        result["nullable"] = true;
+      }
+    } else if (SCHEMA_KEYS.has(key)) {
+      result[key] = value;
+    }
+  }
+
+  // Enums must be strings.
+  if (Array.isArray(result["enum"])) {
+    result["enum"] = result["enum"].map(String);
+    result["type"] ??= "string";
+  }
+
+  return result;
+}
+
+function translateTool(tool: Tool): Record<string, unknown> {
+  const parameters =
+    tool.jsonSchema ??
+    toJsonSchemaSafe(tool.parameters, {
+      target: "openapi-3.0",
+      typeMode: "input",
+    });
+
+  return {
+    description: tool.description,
+    name: tool.name,
+    parameters: toGeminiSchema(parameters),
+  };
+}
+
+function thinkingConfig(
+  reasoning: boolean | string,
+  reasoningBudget: number,
+): Record<string, unknown> {
+  if (reasoning === false || reasoning === "none" || reasoningBudget === 0) {
+    return { thinkingBudget: 0 };
+  }
+  return { includeThoughts: true, thinkingBudget: reasoningBudget };
+}
+
+const ResponsePartSchema = vb.looseObject({
+  functionCall: vb.exactOptional(
+    vb.looseObject({
+      args: vb.exactOptional(vb.unknown()),
+      id: vb.exactOptional(vb.string()),
+      name: vb.string(),
+    }),
+  ),
+  text: vb.exactOptional(vb.string()),
+  thought: vb.exactOptional(vb.boolean()),
+  thoughtSignature: vb.exactOptional(vb.string()),
+});
+
+type ResponsePart = vb.InferOutput<typeof ResponsePartSchema>;
+
+const StreamChunkSchema = vb.looseObject({
+  candidates: vb.exactOptional(
+    vb.array(
+      vb.looseObject({
+        content: vb.exactOptional(
+          vb.looseObject({ parts: vb.exactOptional(vb.array(ResponsePartSchema), []) }),
+        ),
+        finishReason: vb.exactOptional(vb.string()),
+      }),
+    ),
+  ),
+  error: vb.exactOptional(vb.looseObject({ code: vb.number(), message: vb.string() })),
+  usageMetadata: vb.exactOptional(
+    vb.looseObject({
+      cachedContentTokenCount: vb.exactOptional(vb.number()),
+      candidatesTokenCount: vb.exactOptional(vb.number()),
+      promptTokenCount: vb.exactOptional(vb.number()),
+      thoughtsTokenCount: vb.exactOptional(vb.number()),
+    }),
+  ),
+});
+
+type UsageMetadata = NonNullable<vb.InferOutput<typeof StreamChunkSchema>["usageMetadata"]>;
+
+interface CollectedResponse {
+  parts: ResponsePart[];
+  finishReason: string;
+  usage: UsageMetadata;
+}
+
+// Gemini streams whole parts rather than deltas of one. Text and thought
+// parts arrive in pieces and are joined; each function call arrives complete.
+async function collectStream(
+  response: Response,
+  onToolCallDelta?: ToolCallDeltaHandler,
+): Promise<CollectedResponse> {
+  const parts: ResponsePart[] = [];
+  let finishReason: string | undefined = undefined;
+  let usage: UsageMetadata = {};
+  let callIndex = 0;
+
+  for await (const data of readSseData(response)) {
+    const parsed = vb.safeParse(StreamChunkSchema, data);
+    if (!parsed.success) {
+      continue;
+    }
+    const chunk = parsed.output;
+
+    if (chunk.error !== undefined) {
+      throw new ProviderError(
+        `Gemini stream error (${chunk.error.code}): ${chunk.error.message}`,
+        classifyHttpFailure(chunk.error.code, chunk.error.message),
+        chunk.error.code,
+      );
+    }
+
+    usage = chunk.usageMetadata ?? usage;
+    const [candidate] = chunk.candidates ?? [];
+    finishReason = candidate?.finishReason ?? finishReason;
+
+    for (const part of candidate?.content?.parts ?? []) {
+      const last = parts.at(-1);
+      if (part.functionCall !== undefined) {
+        onToolCallDelta?.({
+          arguments: JSON.stringify(part.functionCall.args ?? {}),
+          index: callIndex,
+          name: part.functionCall.name,
+        });
+        callIndex++;
+        parts.push(part);
+      } else if (
+        part.text !== undefined &&
+        last?.text !== undefined &&
+        last.functionCall === undefined &&
+        last.thought === part.thought
+      ) {
+        last.text += part.text;
+        last.thoughtSignature = part.thoughtSignature ?? last.thoughtSignature;
+      } else {
+        parts.push({ ...part });
+      }
+    }
+  }
+
+  if (finishReason === undefined) {
+    throw new Error("Gemini response stream ended without a finish reason");
+  }
+
+  return { finishReason, parts, usage };
+}
+
+interface Options {
+  reasoning?: boolean | string;
+  reasoningBudget?: number;
+  customHeaders?: Record<string, string | string[]>;
+  onToolCallDelta?: ToolCallDeltaHandler;
+}
+
+async function generate(
+  context: Context,
+  apiBase: string,
+  keyPool: KeyPool,
+  model: string,
+  {
+    reasoning = true,
+    reasoningBudget = DefaultReasoningBudget,
+    customHeaders,
+    onToolCallDelta,
+  }: Options,
+): Promise<{ message: AssistantMessage; usage?: UsageInfo }> {
+  const body = {
+    contents: translateMessages(context.messages),
+    generationConfig: { thinkingConfig: thinkingConfig(reasoning, reasoningBudget) },
+    systemInstruction: { parts: [{ text: context.systemPrompt }] },
+    toolConfig: { functionCallingConfig: { mode: "ANY" } },
+    tools: [{ functionDeclarations: context.tools.map((tool) => translateTool(tool)) }],
+  };
+
+  // Track attempted keys to avoid infinite loops
+  const attemptedKeys = new Set<string>();
+
+  for (;;) {
+    const key = keyPool.getNextKey();
+
+    if (attemptedKeys.has(key)) {
+      throw new ProviderError(
+        `All API keys have been rate-limited. Please try again later.\n` +
+          `Request info:\n` +
+          `  - Model: ${model}\n` +
+          `  - Keys in pool: ${keyPool.totalCount}\n` +
+          `  - Keys available: ${keyPool.availableCount}`,
+        "rate-limit",
+        429,
+      );
+    }
+    attemptedKeys.add(key);
+
+    debug("Starting Gemini content generation...");
+    const resp = await fetchWithTimeout(
+      `${apiBase}/models/${encodeURIComponent(model)}:streamGenerateContent?alt=sse`,
+      {
+        body: JSON.stringify(body),
+        headers: {
+          "Content-Type": "application/json",
+          "x-goog-api-key": key,
+          ...customHeaders,
+        },
+        method: "POST",
+      },
+      STREAM_IDLE_TIMEOUT_MS,
+    );
+
+    if (!resp.ok) {
+      if (resp.status === 429) {
+        const errorText = await resp.text();
+        warning(`Rate limited (429) on API key: ${errorText}`);
+        keyPool.reportFailure(key);
+        continue;
+      }
+
+      const errorText = await resp.text();
+      throw new ProviderError(
+        `Gemini API error (${resp.status}): ${errorText}\n` +
+          `  - Model: ${model}\n` +
+          `  - Tools: ${context.tools.map((tool) => tool.name).join(", ")}\n` +
+          `  - Messages: ${context.messages.length}`,
+        classifyHttpFailure(resp.status, errorText),
+        resp.status,
+      );
+    }
+
+    try {
+      const data = await collectStream(resp, onToolCallDelta);
+      debug("Finished Gemini content generation...");
+
+      const calls = data.parts.filter((part) => part.functionCall !== undefined);
+      if (calls.length === 0) {
+        const text = data.parts
+          .filter((part) => part.thought !== true && part.text !== undefined)
+          .map((part) => part.text)
+          .join("");
+        throw new GenerationNoToolCallsError(text.length > 0 ? text : undefined, data.finishReason);
+      }
+
+      const contentBlocks: AssistantMessage["content"] = [];
+      for (const part of data.parts) {
+        if (part.functionCall !== undefined) {
+          contentBlocks.push({
+            id: part.functionCall.id ?? `${LOCAL_CALL_ID_PREFIX}${randomUUID()}`,
+            input: part.functionCall.args ?? {},
+            name: part.functionCall.name,
+            thoughtSignature: part.thoughtSignature,
+            type: "toolCall",
+          });
+        } else if (part.thought === true && part.text !== undefined) {
+          contentBlocks.push({ thinking: part.text, type: "thinking" });
+        }
+      }
+
+      const message: AssistantMessage = {
+        content: contentBlocks,
+        role: "assistant",
+      };
+
+      // Gemini bills thoughts as output but counts them apart from candidates.
+      const thoughts = data.usage.thoughtsTokenCount ?? 0;
+      const usage: UsageInfo = {
+        cachedTokens: data.usage.cachedContentTokenCount,
+        completionTokens: (data.usage.candidatesTokenCount ?? 0) + thoughts,
+        promptTokens: data.usage.promptTokenCount ?? 0,
+        reasoningTokens: thoughts,
+        systemPromptTokensEst: Math.round(context.systemPrompt.length / 4),
+      };
+
+      return { message, usage };
+    } catch (error) {
+      keyPool.reuseLastKey();
+      throw error;
+    }
+  }
+}
+
+export { generate, toGeminiSchema, translateMessages };
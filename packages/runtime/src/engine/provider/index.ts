@@ -1,6 +1,6 @@
 import * as vb from "valibot";
 
-const ProviderKindSchema = vb.picklist(["openai", "anthropic", "openai-codex"]);
+const ProviderKindSchema = vb.picklist(["openai", "anthropic", "openai-codex", "gemini"]);
 type ProviderKind = vb.InferOutput<typeof ProviderKindSchema>;
 
 export { ProviderKindSchema };
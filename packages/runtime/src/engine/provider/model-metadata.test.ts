@@ -1,6 +1,10 @@
 import { describe, expect, it } from "vitest";
 
-import { parseAnthropicModelMetadata, parseOpenAIModelMetadata } from "./model-metadata.js";
+import {
+  parseAnthropicModelMetadata,
+  parseGeminiModelMetadata,
+  parseOpenAIModelMetadata,
+} from "./model-metadata.js";
 
 describe("parseOpenAIModelMetadata", () => {
   it("extracts OpenRouter context_length before provider fallback", () => {
@@ -88,3 +92,21 @@ describe("parseAnthropicModelMetadata", () => {
     ]);
   });
 });
+
+describe("parseGeminiModelMetadata", () => {
+  it("strips the models/ prefix and extracts inputTokenLimit", () => {
+    const models = parseGeminiModelMetadata({
+      models: [
+        {
+          displayName: "Gemini Example",
+          inputTokenLimit: 1_048_576,
+          name: "models/gemini-example",
+        },
+      ],
+    });
+
+    expect(models).toEqual([
+      { contextWindow: 1_048_576, id: "gemini-example", name: "Gemini Example" },
+    ]);
+  });
+});
@@ -42,8 +42,24 @@ const AnthropicModelListSchema = vb.object({
   ),
 });
 
+const GeminiModelListSchema = vb.object({
+  models: vb.exactOptional(
+    vb.array(
+      vb.looseObject({
+        displayName: vb.exactOptional(nonEmptyString),
+        inputTokenLimit: vb.optional(vb.nullable(PositiveIntegerSchema)),
+        // "models/gemini-2.5-pro"
+        name: nonEmptyString,
+      }),
+    ),
+    [],
+  ),
+  nextPageToken: vb.exactOptional(vb.string()),
+});
+
 type OpenAIModelList = vb.InferOutput<typeof OpenAIModelListSchema>;
 type AnthropicModelList = vb.InferOutput<typeof AnthropicModelListSchema>;
+type GeminiModelList = vb.InferOutput<typeof GeminiModelListSchema>;
 
 const metadataCache = new Map<string, Promise<ModelMetadata[]>>();
 
@@ -97,6 +113,14 @@ function parseAnthropicModelMetadata(json: unknown): ModelMetadata[] {
   }));
 }
 
+function parseGeminiModelMetadata(json: unknown): ModelMetadata[] {
+  const list: GeminiModelList = vb.parse(GeminiModelListSchema, json);
+  return list.models.map((it) => {
+    const id = it.name.replace(/^models\//u, "");
+    return { contextWindow: it.inputTokenLimit ?? undefined, id, name: it.displayName ?? id };
+  });
+}
+
 async function fetchOpenAIModelMetadata(provider: ProviderConfig): Promise<ModelMetadata[]> {
   const headers = new Headers({ Authorization: `Bearer ${firstApiKey(provider)}` });
   applyCustomHeaders(headers, provider);
@@ -132,6 +156,33 @@ async function fetchAnthropicModelMetadata(provider: ProviderConfig): Promise<Mo
   return parseAnthropicModelMetadata(await response.json());
 }
 
+async function fetchGeminiModelMetadata(provider: ProviderConfig): Promise<ModelMetadata[]> {
+  const headers = new Headers({ "x-goog-api-key": firstApiKey(provider) });
+  applyCustomHeaders(headers, provider);
+
+  const models: ModelMetadata[] = [];
+  let pageToken: string | undefined = undefined;
+  do {
+    const url = new URL(modelsUrl(provider.apiBase));
+    url.searchParams.set("pageSize", "1000");
+    if (pageToken !== undefined) {
+      url.searchParams.set("pageToken", pageToken);
+    }
+    const response = await fetch(url, {
+      headers,
+      signal: AbortSignal.timeout(INITIAL_RESPONSE_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      throw new Error(`model metadata request failed with HTTP ${response.status}`);
+    }
+    const json: unknown = await response.json();
+    models.push(...parseGeminiModelMetadata(json));
+    pageToken = vb.parse(GeminiModelListSchema, json).nextPageToken;
+  } while (pageToken !== undefined && pageToken.length > 0);
+
+  return models;
+}
+
 async function fetchModelMetadataUncached(provider: ProviderConfig): Promise<ModelMetadata[]> {
   switch (provider.kind) {
     case "openai":
@@ -140,6 +191,8 @@ async function fetchModelMetadataUncached(provider: ProviderConfig): Promise<Mod
       return await fetchAnthropicModelMetadata(provider);
     case "openai-codex":
       return OPENAI_CODEX_MODELS.map((id) => ({ id, name: id }));
+    case "gemini":
+      return await fetchGeminiModelMetadata(provider);
     default: {
       const exhaustive: never = provider.kind;
       throw new Error(`Unsupported provider type: ${String(exhaustive)}`);
@@ -195,6 +248,7 @@ export {
   clearModelMetadataCache,
   fetchModelMetadataFor,
   parseAnthropicModelMetadata,
+  parseGeminiModelMetadata,
   parseOpenAIModelMetadata,
   resolveModelContextWindow,
 };
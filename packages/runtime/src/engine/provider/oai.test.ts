@@ -170,6 +170,32 @@ describe("translateMsg", () => {
   });
 });
 
+function sseResponse(chunks: unknown[]): Response {
+  const body = chunks.map((data) => `data: ${JSON.stringify(data)}\n\n`).join("");
+  return new Response(`${body}data: [DONE]\n\n`, {
+    headers: { "Content-Type": "text/event-stream" },
+  });
+}
+
+// Mid-stream chunks carry an explicit null finish_reason, as the API sends them.
+// oxlint-disable-next-line unicorn/no-null
+function chunk(delta: Record<string, unknown>, finishReason: string | null = null): unknown {
+  return {
+    choices: [{ delta, finish_reason: finishReason, index: 0 }],
+    created: 0,
+    id: "chatcmpl-1",
+    model: "test-model",
+    object: "chat.completion.chunk",
+  };
+}
+
+const emptyContext: Context = {
+  messages: [],
+  sessionId: "internal:test",
+  systemPrompt: "Use tools.",
+  tools: [],
+};
+
 describe("generate", () => {
   afterEach(() => {
     vi.unstubAllGlobals();
@@ -179,22 +205,19 @@ describe("generate", () => {
     let requestBody: string | undefined = undefined;
     const fetchMock = vi.fn((_url: string | URL, init?: RequestInit) => {
       requestBody = typeof init?.body === "string" ? init.body : undefined;
-      return Response.json({
-        choices: [
-          {
-            finish_reason: "tool_calls",
-            message: {
-              tool_calls: [
-                {
-                  function: { arguments: "{}", name: "respond" },
-                  id: "call-1",
-                  type: "function",
-                },
-              ],
+      return sseResponse([
+        chunk({
+          tool_calls: [
+            {
+              function: { arguments: "{}", name: "respond" },
+              id: "call-1",
+              index: 0,
+              type: "function",
             },
-          },
-        ],
-      });
+          ],
+        }),
+        chunk({}, "tool_calls"),
+      ]);
     });
     vi.stubGlobal("fetch", fetchMock);
 
@@ -210,4 +233,63 @@ describe("generate", () => {
     expect(fetchMock).toHaveBeenCalledOnce();
     expect(requestBody).toContain('"prompt_cache_key":"discord:channel-1|guild-1"');
   });
+
+  it("reassembles streamed tool calls and reports their arguments as they grow", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(() =>
+        sseResponse([
+          chunk({ reasoning_content: "thinking" }),
+          chunk({
+            tool_calls: [
+              {
+                function: { arguments: "", name: "respond" },
+                id: "call-1",
+                index: 0,
+                type: "function",
+              },
+            ],
+          }),
+          chunk({ tool_calls: [{ function: { arguments: '{"content":' }, index: 0 }] }),
+          chunk({ tool_calls: [{ function: { arguments: '"Hi"}' }, index: 0 }] }),
+          chunk({}, "tool_calls"),
+          {
+            choices: [],
+            created: 0,
+            id: "chatcmpl-1",
+            model: "test-model",
+            object: "chat.completion.chunk",
+            usage: { completion_tokens: 5, prompt_tokens: 12, total_tokens: 17 },
+          },
+        ]),
+      ),
+    );
+
+    const deltas: string[] = [];
+    const { message, usage } = await generate(
+      emptyContext,
+      "https://api.example/v1",
+      new KeyPool("test-key"),
+      "test-model",
+      { onToolCallDelta: (delta) => deltas.push(delta.arguments) },
+    );
+
+    expect(message.content).toEqual([
+      { thinking: "thinking", type: "thinking" },
+      { id: "call-1", input: { content: "Hi" }, name: "respond", type: "toolCall" },
+    ]);
+    expect(deltas).toEqual(["", '{"content":', '{"content":"Hi"}']);
+    expect(usage).toMatchObject({ completionTokens: 5, promptTokens: 12 });
+  });
+
+  it("surfaces streamed plain text as a no-tool-calls failure", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(() => sseResponse([chunk({ content: "Hello " }), chunk({ content: "there" }, "stop")])),
+    );
+
+    await expect(
+      generate(emptyContext, "https://api.example/v1", new KeyPool("test-key"), "test-model", {}),
+    ).rejects.toMatchObject({ text: "Hello there" });
+  });
 });
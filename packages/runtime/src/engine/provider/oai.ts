@@ -2,9 +2,10 @@ import type { KeyPool } from "@cireilclaw/sdk";
 import { OpenAI } from "openai/client.js";
 import { APIError } from "openai/error.js";
 import type {
+  ChatCompletionChunk,
   ChatCompletionContentPartImage,
   ChatCompletionContentPartText,
-  ChatCompletionCreateParamsNonStreaming,
+  ChatCompletionCreateParamsStreaming,
   ChatCompletionMessageParam,
   ChatCompletionMessageToolCall,
   ChatCompletionTool,
@@ -15,15 +16,19 @@ import * as vb from "valibot";
 import { renderTextContent } from "#engine/content.js";
 import type { Content, ThinkingContent, ToolCallContent } from "#engine/content.js";
 import { toolResponseMedia } from "#engine/content.js";
-import type { Context, UsageInfo } from "#engine/context.js";
-import { GenerationNoToolCallsError } from "#engine/errors.js";
+import type { Context, ToolCallDeltaHandler, UsageInfo } from "#engine/context.js";
+import { classifyHttpFailure, GenerationNoToolCallsError, ProviderError } from "#engine/errors.js";
 import type { AssistantMessage, Message } from "#engine/message.js";
 import type { Tool } from "#engine/tool.js";
 import { debug, warning } from "#output/log.js";
 import { encode } from "#util/base64.js";
 import { toJpeg } from "#util/image.js";
 import { fingerprintArguments, parseRepairedJSON } from "#util/json.js";
-import { SINGLE_REQUEST_TIMEOUT_MS } from "#util/network.js";
+import {
+  createIdleTimeout,
+  SINGLE_REQUEST_TIMEOUT_MS,
+  STREAM_IDLE_TIMEOUT_MS,
+} from "#util/network.js";
 import { toJsonSchemaSafe } from "#util/schema.js";
 
 // Per-apiBase JPEG requirement flag. Set on first WebP rejection so subsequent
@@ -362,12 +367,83 @@ function translateTool(tool: Tool): ChatCompletionTool {
   };
 }
 
+interface StreamedCompletion {
+  content: string;
+  finishReason: string | undefined;
+  reasoningContent: string;
+  refusal: string;
+  sawChoices: boolean;
+  toolCalls: ({ arguments: string; id: string; name: string } | undefined)[];
+  usage: ChatCompletionChunk["usage"];
+}
+
+// Folds the chunk stream back into one completion. Tool-call fragments are
+// keyed by `index`; the ID and name arrive on the first fragment only.
+async function collectStream(
+  stream: AsyncIterable<ChatCompletionChunk>,
+  onChunk: () => void,
+  onToolCallDelta?: ToolCallDeltaHandler,
+): Promise<StreamedCompletion> {
+  const result: StreamedCompletion = {
+    content: "",
+    finishReason: undefined,
+    reasoningContent: "",
+    refusal: "",
+    sawChoices: false,
+    toolCalls: [],
+    usage: undefined,
+  };
+
+  for await (const chunk of stream) {
+    onChunk();
+    if (chunk.usage !== undefined && chunk.usage !== null) {
+      result.usage = chunk.usage;
+    }
+
+    // Usage-only chunks (and some providers' keep-alives) carry no choices.
+    // oxlint-disable-next-line typescript/no-unnecessary-condition
+    const [choice] = chunk.choices ?? [];
+    if (choice === undefined) {
+      continue;
+    }
+    result.sawChoices = true;
+
+    const { delta } = choice;
+    result.content += delta.content ?? "";
+    result.refusal += delta.refusal ?? "";
+    // reasoning_content is not in the SDK types; see translateMsg.
+    const reasoning = (delta as typeof delta & { reasoning_content?: unknown }).reasoning_content;
+    if (typeof reasoning === "string") {
+      result.reasoningContent += reasoning;
+    }
+
+    for (const fragment of delta.tool_calls ?? []) {
+      const entry = (result.toolCalls[fragment.index] ??= { arguments: "", id: "", name: "" });
+      if (fragment.id !== undefined && fragment.id.length > 0) {
+        entry.id = fragment.id;
+      }
+      if (entry.name.length === 0 && fragment.function?.name !== undefined) {
+        entry.name = fragment.function.name;
+      }
+      entry.arguments += fragment.function?.arguments ?? "";
+      onToolCallDelta?.({ arguments: entry.arguments, index: fragment.index, name: entry.name });
+    }
+
+    if (choice.finish_reason !== null) {
+      result.finishReason = choice.finish_reason;
+    }
+  }
+
+  return result;
+}
+
 interface Options {
   forceJpeg?: boolean;
   customHeaders?: Record<string, string | string[]>;
   reasoning?: boolean | string;
   useToolChoiceAuto?: boolean;
   useFilesApi?: "kimi" | false;
+  onToolCallDelta?: ToolCallDeltaHandler;
 }
 
 const knownKimiOffenders = ["2.5", "-for-code"];
@@ -383,6 +459,7 @@ async function generate(
     reasoning,
     useToolChoiceAuto = false,
     useFilesApi = false,
+    onToolCallDelta,
   }: Options,
 ): Promise<{ message: AssistantMessage; usage?: UsageInfo }> {
   let useJpeg = forceJpeg || jpegRequiredEndpoints.has(apiBase);
@@ -418,13 +495,15 @@ async function generate(
   await prepareMedia(context.messages, useJpeg);
   await uploadMedia(context.messages, apiBase, keyPool, useFilesApi);
 
-  const params: ChatCompletionCreateParamsNonStreaming = {
+  const params: ChatCompletionCreateParamsStreaming = {
     messages: [
       { content: context.systemPrompt, role: "system" },
       ...context.messages.map(translateMsg),
     ],
     model,
     prompt_cache_key: context.sessionId,
+    stream: true,
+    stream_options: { include_usage: true },
     tool_choice: "required",
     tools: context.tools.map(translateTool),
   };
@@ -459,13 +538,15 @@ async function generate(
     const apiKey = keyPool.getNextKey();
 
     if (attemptedKeys.has(apiKey)) {
-      throw new Error(
+      throw new ProviderError(
         `All API keys have been rate-limited. Please try again later.\n` +
           `Request info:\n` +
           `  - Model: ${model}\n` +
           `  - API Base: ${apiBase}\n` +
           `  - Keys in pool: ${keyPool.totalCount}\n` +
           `  - Keys available: ${keyPool.availableCount}`,
+        "rate-limit",
+        429,
       );
     }
     attemptedKeys.add(apiKey);
@@ -479,15 +560,24 @@ async function generate(
         "X-OpenRouter-Title": "CireilClaw",
         ...customHeaders,
       },
-      timeout: SINGLE_REQUEST_TIMEOUT_MS,
+      timeout: STREAM_IDLE_TIMEOUT_MS,
     });
 
-    let resp: Awaited<ReturnType<typeof client.chat.completions.create>> | undefined = undefined;
+    // The SDK timeout only covers waiting for headers; once tokens flow, the
+    // idle timer is what notices a stalled stream.
+    const idle = createIdleTimeout(STREAM_IDLE_TIMEOUT_MS);
+    let resp: StreamedCompletion | undefined = undefined;
     try {
       debug("Starting chat completion generation...");
-      resp = await client.chat.completions.create(params);
+      const stream = await client.chat.completions.create(params, { signal: idle.signal });
+      resp = await collectStream(stream, idle.touch, onToolCallDelta);
       debug("Finished chat completion generation...");
     } catch (error) {
+      if (idle.timedOut) {
+        throw new Error(`Chat completion stream idle for ${STREAM_IDLE_TIMEOUT_MS}ms`, {
+          cause: error,
+        });
+      }
       if (error instanceof APIError) {
         if (error.status === 429) {
           debug(`Rate limited (429) on API key, trying next key...`);
@@ -532,6 +622,7 @@ async function generate(
           continue;
         }
 
+        const status = typeof error.status === "number" ? error.status : undefined;
         const apiErrorDetails: Record<string, unknown> = {
           code: error.code,
           error: error.error,
@@ -541,7 +632,7 @@ async function generate(
           status: error.status,
           type: error.type,
         };
-        throw new Error(
+        throw new ProviderError(
           `API Error (${error.status}): ${error.message}\n` +
             `Details: ${JSON.stringify(apiErrorDetails, undefined, 2)}\n` +
             `Request info:\n` +
@@ -550,87 +641,76 @@ async function generate(
             `  - Tools: ${context.tools.map((tool) => tool.name).join(", ")}\n` +
             `  - Messages: ${context.messages.length}\n` +
             `  - System prompt length: ${context.systemPrompt.length}`,
+          // The SDK reports connection failures as APIErrors without a status.
+          status === undefined ? "unavailable" : classifyHttpFailure(status, error.message),
+          status,
           { cause: error },
         );
       }
       throw error;
+    } finally {
+      idle.clear();
     }
 
     try {
-      if (!Array.isArray(resp.choices)) {
+      if (!resp.sawChoices) {
         debug("Got unexpected response", resp);
         throw new TypeError(
-          `Unexpected API response: 'choices' is ${String(resp.choices)} — the model may not support vision, or the request was rejected`,
+          "Unexpected API response: the stream carried no choices — the model may not support vision, or the request was rejected",
         );
       }
-      const [choice] = resp.choices;
-
-      if (choice === undefined) {
-        throw new Error("Could not generate response: unknown reason");
-      }
 
-      const reason = choice.finish_reason;
+      const reason = resp.finishReason;
+      const rawText = resp.content.length > 0 ? resp.content : undefined;
 
       if (reason === "content_filter") {
         throw new Error("Hit `content_filter`", {
-          cause: choice.message.refusal,
+          cause: resp.refusal.length > 0 ? resp.refusal : undefined,
         });
       }
 
       if (reason !== "tool_calls") {
         debug("Failing due to wrong end reason.");
-        debug("Message object:", choice.message);
+        debug("Streamed completion:", resp);
 
-        if (choice.message.tool_calls !== undefined && choice.message.tool_calls.length > 0) {
+        if (resp.toolCalls.length > 0) {
           debug("Had at least one tool call.");
         }
 
-        const rawText =
-          typeof choice.message.content === "string" ? choice.message.content : undefined;
-        throw new GenerationNoToolCallsError(rawText, reason);
-      }
-
-      if (choice.message.tool_calls === undefined) {
-        const rawText =
-          typeof choice.message.content === "string" ? choice.message.content : undefined;
-        throw new GenerationNoToolCallsError(rawText, "undefined tool_calls");
+        throw new GenerationNoToolCallsError(
+          rawText,
+          reason ?? "stream ended without finish_reason",
+        );
       }
 
-      if (choice.message.tool_calls.length === 0) {
-        const rawText =
-          typeof choice.message.content === "string" ? choice.message.content : undefined;
+      // Sparse indices would leave holes; only count calls that actually arrived.
+      const streamedCalls = resp.toolCalls.filter((it) => it !== undefined);
+      if (streamedCalls.length === 0) {
         throw new GenerationNoToolCallsError(rawText, "empty tool_calls");
       }
 
-      const toolCallBlocks: ToolCallContent[] = choice.message.tool_calls.map((it) => {
-        if (it.type === "function") {
-          try {
-            return {
-              id: it.id,
-              input:
-                it.function.arguments.trim() === "" ? {} : parseRepairedJSON(it.function.arguments),
-              name: it.function.name,
-              type: "toolCall",
-            };
-          } catch (error: unknown) {
-            const hash = fingerprintArguments(it.function.arguments);
-            throw new Error(
-              `Failed to parse tool-call arguments: length=${it.function.arguments.length} hash=${hash}`,
-              { cause: error },
-            );
-          }
+      const toolCallBlocks: ToolCallContent[] = streamedCalls.map((it) => {
+        try {
+          return {
+            id: it.id,
+            input: it.arguments.trim() === "" ? {} : parseRepairedJSON(it.arguments),
+            name: it.name,
+            type: "toolCall",
+          };
+        } catch (error: unknown) {
+          const hash = fingerprintArguments(it.arguments);
+          throw new Error(
+            `Failed to parse tool-call arguments: length=${it.arguments.length} hash=${hash}`,
+            { cause: error },
+          );
         }
-        throw new Error("custom not supported");
       });
 
       // Some OAI-compatible providers (DeepSeek R1, QwQ, etc.) expose their
       // chain-of-thought as reasoning_content on the message object.
-      const rawMsg = choice.message as typeof choice.message & {
-        reasoning_content?: string;
-      };
       const messageContent: AssistantMessage["content"] =
-        typeof rawMsg.reasoning_content === "string" && rawMsg.reasoning_content.length > 0
-          ? [{ thinking: rawMsg.reasoning_content, type: "thinking" }, ...toolCallBlocks]
+        resp.reasoningContent.length > 0
+          ? [{ thinking: resp.reasoningContent, type: "thinking" }, ...toolCallBlocks]
           : toolCallBlocks;
 
       const message: AssistantMessage = {
@@ -639,10 +719,12 @@ async function generate(
       };
 
       let usage: UsageInfo | undefined = undefined;
-      if (resp.usage !== undefined) {
+      if (resp.usage !== undefined && resp.usage !== null) {
         usage = {
+          cachedTokens: resp.usage.prompt_tokens_details?.cached_tokens,
           completionTokens: resp.usage.completion_tokens,
           promptTokens: resp.usage.prompt_tokens,
+          reasoningTokens: resp.usage.completion_tokens_details?.reasoning_tokens,
           systemPromptTokensEst: Math.round(context.systemPrompt.length / 4),
         };
       }
@@ -3,7 +3,7 @@ import * as vb from "valibot";
 import { renderTextContent } from "#engine/content.js";
 import type { ImageContent, RedactedThinkingContent, ToolCallContent } from "#engine/content.js";
 import type { Context, UsageInfo } from "#engine/context.js";
-import { GenerationNoToolCallsError } from "#engine/errors.js";
+import { classifyHttpFailure, GenerationNoToolCallsError, ProviderError } from "#engine/errors.js";
 import type { AssistantMessage, Message, UserContent } from "#engine/message.js";
 import type { Tool } from "#engine/tool.js";
 import { debug, warning } from "#output/log.js";
@@ -14,15 +14,14 @@ import {
   fetchWithTimeout,
   INITIAL_RESPONSE_TIMEOUT_MS,
   SINGLE_REQUEST_TIMEOUT_MS,
-  STREAM_IDLE_TIMEOUT_MS,
 } from "#util/network.js";
 import { toJsonSchemaSafe } from "#util/schema.js";
 
 import { getChatGptAccountId, getValidCodexAuth } from "./openai-codex-auth.js";
+import { parseSseEventData, readChunkWithTimeout } from "./sse.js";
 
 const OPENAI_BETA_RESPONSES = "responses=experimental";
 const ORIGINATOR_CODEX = "codex_cli_rs";
-type StreamReadResult = Awaited<ReturnType<ReadableStreamDefaultReader<Uint8Array>["read"]>>;
 
 const GPT5_MINOR_VERSIONS = ["5.1", "5.2", "5.3", "5.4", "5.5"] as const;
 const GENERAL_REASONING_VARIANTS = ["none", "low", "medium", "high", "xhigh"] as const;
@@ -81,7 +80,9 @@ const CodexResponseSchema = vb.looseObject({
   usage: vb.exactOptional(
     vb.looseObject({
       input_tokens: vb.number(),
+      input_tokens_details: vb.nullish(vb.looseObject({ cached_tokens: vb.number() })),
       output_tokens: vb.number(),
+      output_tokens_details: vb.nullish(vb.looseObject({ reasoning_tokens: vb.number() })),
     }),
   ),
 });
@@ -387,25 +388,6 @@ function unwrapCodexResponse(raw: unknown): unknown {
   return raw;
 }
 
-function parseSseEventData(line: string): unknown {
-  const trimmed = line.trimEnd();
-  if (!trimmed.startsWith("data:")) {
-    return undefined;
-  }
-
-  const data = trimmed.slice("data:".length).trim();
-  if (data.length === 0 || data === "[DONE]") {
-    return undefined;
-  }
-
-  try {
-    return JSON.parse(data);
-  } catch {
-    // Malformed SSE data — ignore this line
-    return undefined;
-  }
-}
-
 async function parseCodexResponse(response: Response): Promise<unknown> {
   const contentType = response.headers.get("content-type") ?? "";
   if (contentType.includes("application/json")) {
@@ -516,7 +498,6 @@ async function readStreamText(response: Response): Promise<string> {
 
   try {
     for (;;) {
-      // oxlint-disable-next-line eslint/no-use-before-define
       const { done, value } = await readChunkWithTimeout(reader);
       if (done) {
         break;
@@ -533,24 +514,6 @@ async function readStreamText(response: Response): Promise<string> {
   }
 }
 
-async function readChunkWithTimeout(
-  reader: ReadableStreamDefaultReader<Uint8Array>,
-): Promise<StreamReadResult> {
-  let rejectTimeout: ((reason: Error) => void) | undefined = undefined;
-  const timeout = new Promise<StreamReadResult>((_resolve, reject) => {
-    rejectTimeout = reject;
-  });
-  const timer = setTimeout(() => {
-    rejectTimeout?.(new Error(`Stream idle timeout after ${STREAM_IDLE_TIMEOUT_MS}ms`));
-  }, STREAM_IDLE_TIMEOUT_MS);
-
-  try {
-    return await Promise.race([reader.read(), timeout]);
-  } finally {
-    clearTimeout(timer);
-  }
-}
-
 async function fetchCodexResponse(
   apiBase: string,
   authId: string,
@@ -594,9 +557,13 @@ async function fetchCodexResponse(
         response.status === 404 &&
         /usage_limit_reached|usage_not_included|rate_limit_exceeded|usage limit/iu.test(text)
       ) {
-        throw new Error(`OpenAI Codex usage limit reached: ${text}`);
+        throw new ProviderError(`OpenAI Codex usage limit reached: ${text}`, "rate-limit", 429);
       }
-      throw new Error(`OpenAI Codex API error (${response.status}): ${text}`);
+      throw new ProviderError(
+        `OpenAI Codex API error (${response.status}): ${text}`,
+        classifyHttpFailure(response.status, text),
+        response.status,
+      );
     }
 
     return await parseCodexResponse(response);
@@ -693,8 +660,10 @@ function translateCodexOutput(
     response.usage === undefined
       ? undefined
       : {
+          cachedTokens: response.usage.input_tokens_details?.cached_tokens,
           completionTokens: response.usage.output_tokens,
           promptTokens: response.usage.input_tokens,
+          reasoningTokens: response.usage.output_tokens_details?.reasoning_tokens,
           systemPromptTokensEst: Math.round(systemPromptLength / 4),
         };
 
@@ -0,0 +1,91 @@
+import { STREAM_IDLE_TIMEOUT_MS } from "#util/network.js";
+
+type StreamReadResult = Awaited<ReturnType<ReadableStreamDefaultReader<Uint8Array>["read"]>>;
+
+function parseSseEventData(line: string): unknown {
+  const trimmed = line.trimEnd();
+  if (!trimmed.startsWith("data:")) {
+    return undefined;
+  }
+
+  const data = trimmed.slice("data:".length).trim();
+  if (data.length === 0 || data === "[DONE]") {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(data);
+  } catch {
+    // Malformed SSE data — ignore this line
+    return undefined;
+  }
+}
+
+async function readChunkWithTimeout(
+  reader: ReadableStreamDefaultReader<Uint8Array>,
+): Promise<StreamReadResult> {
+  let rejectTimeout: ((reason: Error) => void) | undefined = undefined;
+  const timeout = new Promise<StreamReadResult>((_resolve, reject) => {
+    rejectTimeout = reject;
+  });
+  const timer = setTimeout(() => {
+    rejectTimeout?.(new Error(`Stream idle timeout after ${STREAM_IDLE_TIMEOUT_MS}ms`));
+  }, STREAM_IDLE_TIMEOUT_MS);
+
+  try {
+    return await Promise.race([reader.read(), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Yields the parsed JSON `data:` payload of each server-sent event as it
+ * arrives. Lines are only parsed once complete, so a payload split across
+ * chunks is never seen half-written. The idle timeout applies per chunk: a
+ * generation may run as long as it likes as long as it keeps producing.
+ */
+async function* readSseData(response: Response): AsyncGenerator {
+  if (response.body === null) {
+    const text = await response.text();
+    for (const line of text.split("\n")) {
+      const data = parseSseEventData(line);
+      if (data !== undefined) {
+        yield data;
+      }
+    }
+    return;
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffered = "";
+
+  try {
+    for (;;) {
+      const { done, value } = await readChunkWithTimeout(reader);
+      buffered += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+      const lines = buffered.split("\n");
+      // The last element is either empty or an incomplete line; keep it for the next chunk.
+      buffered = done ? "" : (lines.pop() ?? "");
+      for (const line of lines) {
+        const data = parseSseEventData(line);
+        if (data !== undefined) {
+          yield data;
+        }
+      }
+
+      if (done) {
+        return;
+      }
+    }
+  } catch (error) {
+    await reader.cancel(error).catch(() => undefined);
+    throw error;
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+export { parseSseEventData, readChunkWithTimeout, readSseData };
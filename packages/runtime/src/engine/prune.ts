@@ -150,12 +150,14 @@ function evictToolResponses(messages: Message[], budget: number): Message[] {
   const evictable = new Set([
     "read",
     "exec",
+    "exec-job",
     "list-dir",
     "brave-search",
     "session-info",
     "query-sessions",
     "list-sessions",
     "read-session",
+    "recall",
     "read-history",
     "read-skill",
     "read-sections",
@@ -0,0 +1,102 @@
+import type { Dirent } from "node:fs";
+import { readdir, readFile, stat } from "node:fs/promises";
+import path from "node:path";
+
+import { indexRecallSource, recallStamps, removeRecallSource } from "#db/recall.js";
+import type { RecallDocument } from "#db/recall.js";
+import { agentRoot } from "#util/paths.js";
+
+// Workspace files worth indexing as notes. Everything else there is build
+// output, downloads and exec captures.
+const NOTE_EXTENSIONS = new Set([".md", ".markdown", ".txt", ".org", ".rst"]);
+const MAX_FILE_BYTES = 256 * 1024;
+
+interface FileSource {
+  kind: RecallDocument["kind"];
+  realPath: string;
+  stamp: string;
+}
+
+// Regular files under `dir`, keyed by sandbox path. Symlinks are skipped so
+// the index can't be pointed outside the sandbox, and so are dot-directories
+// like `.exec-output`.
+async function walkFiles(
+  dir: string,
+  sandboxDir: string,
+  kind: RecallDocument["kind"],
+  accept: (name: string) => boolean,
+  into: Map<string, FileSource>,
+): Promise<void> {
+  let entries: Dirent[] = [];
+  try {
+    entries = await readdir(dir, { withFileTypes: true });
+  } catch {
+    return;
+  }
+
+  for (const entry of entries) {
+    if (entry.name.startsWith(".")) {
+      continue;
+    }
+    const realPath = path.join(dir, entry.name);
+    const sandboxPath = `${sandboxDir}/${entry.name}`;
+    if (entry.isDirectory()) {
+      await walkFiles(realPath, sandboxPath, kind, accept, into);
+    } else if (entry.isFile() && accept(entry.name)) {
+      const info = await stat(realPath);
+      if (info.size <= MAX_FILE_BYTES) {
+        into.set(sandboxPath, { kind, realPath, stamp: `${info.mtimeMs}:${info.size}` });
+      }
+    }
+  }
+}
+
+async function collectFileSources(agentSlug: string): Promise<Map<string, FileSource>> {
+  const base = agentRoot(agentSlug);
+  const files = new Map<string, FileSource>();
+
+  await walkFiles(path.join(base, "memories"), "/memories", "memory", () => true, files);
+  await walkFiles(
+    path.join(base, "blocks"),
+    "/blocks",
+    "memory",
+    (name) => name === "long-term.md",
+    files,
+  );
+  await walkFiles(
+    path.join(base, "workspace"),
+    "/workspace",
+    "workspace",
+    (name) => NOTE_EXTENSIONS.has(path.extname(name).toLowerCase()),
+    files,
+  );
+
+  return files;
+}
+
+// Brings the file side of the recall index up to date; session messages are
+// indexed as they're saved. Only files whose stamp moved since the last sync
+// are re-read, so this runs before every search rather than from a
+// file watcher: edits made by any means, even while the agent was stopped, are
+// picked up the next time anyone recalls.
+async function syncRecallIndex(agentSlug: string): Promise<void> {
+  const stamps = recallStamps(agentSlug);
+  const seen = new Set<string>();
+
+  for (const [source, file] of await collectFileSources(agentSlug)) {
+    seen.add(source);
+    if (stamps.get(source) === file.stamp) {
+      continue;
+    }
+    const body = await readFile(file.realPath, "utf8");
+    indexRecallSource(agentSlug, source, file.stamp, [{ body, kind: file.kind }]);
+  }
+
+  for (const source of stamps.keys()) {
+    if (!seen.has(source)) {
+      removeRecallSource(agentSlug, source);
+    }
+  }
+}
+
+export { syncRecallIndex };
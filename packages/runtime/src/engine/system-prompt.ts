@@ -250,14 +250,35 @@ async function buildSystemPrompt(
     } else {
       lines.push(`This is considered a ${session.isNsfw ? "NSFW" : "SFW"} session`);
     }
+  } else if (session.channel === "matrix") {
+    lines.push(`The room id is: ${session.roomId}`);
+    if (session.isDirect) {
+      lines.push("This is a direct message room. SFW/NSFW depending on the user");
+    } else {
+      lines.push("This is a group room, considered a SFW session");
+    }
+  } else if (session.channel === "api") {
+    lines.push(
+      `This is a session named "${session.name}" on the local API; messages come from programs or people using it directly`,
+    );
+  } else if (session.channel === "plugin") {
+    lines.push(
+      `This is conversation ${session.conversationId} on ${session.pluginChannel}, a chat platform bridged by a plugin`,
+    );
+    if (session.isDirect) {
+      lines.push("This is a direct conversation. SFW/NSFW depending on the user");
+    } else {
+      lines.push("This is a group conversation, considered a SFW session");
+    }
   } else if (session instanceof InternalSession) {
     lines.push(`This is an internal cron session (job ID: ${session.jobId})`);
   } else if (session.channel === "internal") {
     lines.push("This is a persistent internal session");
+    // oxlint-disable-next-line typescript/no-unnecessary-condition -- keeps new channel types from silently falling through
   } else if (session.channel === "tui") {
     lines.push("This is a TUI session with your person. SFW/NSFW depending on their preferences.");
   } else {
-    throw new Error(`Unimplemented channel: ${session.channel}`);
+    throw new Error(`Unimplemented channel: ${(session as Session).channel}`);
   }
 
   lines.push(
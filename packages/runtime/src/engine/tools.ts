@@ -1,11 +1,11 @@
 import { loadTools } from "#config/index.js";
-import type { ExecToolConfig, ToolsConfig } from "#config/schemas/tools.js";
+import type { ExecToolConfig, RunCodeToolConfig, ToolsConfig } from "#config/schemas/tools.js";
 import type { Tool } from "#engine/tool.js";
 import { getToolRegistry } from "#engine/tools/index.js";
 import type { Session } from "#harness/session.js";
 import colors from "#output/colors.js";
 
-type ToolSetting = boolean | ExecToolConfig;
+type ToolSetting = boolean | ExecToolConfig | RunCodeToolConfig;
 
 function isToolEnabled(setting: ToolSetting): boolean {
   const enabledByValue = typeof setting === "boolean" && setting;
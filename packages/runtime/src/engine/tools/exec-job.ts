@@ -0,0 +1,130 @@
+import * as vb from "valibot";
+
+import { ToolError } from "#engine/errors.js";
+import type { BackgroundJob } from "#engine/jobs.js";
+import type { ToolContext, ToolDef } from "#engine/tools/tool-def.js";
+
+// Larger inputs belong in a file the job reads.
+const MAX_INPUT_BYTES = 64 * 1024;
+
+const Schema = vb.strictObject({
+  action: vb.pipe(
+    vb.picklist(["list", "poll", "stdin", "kill"]),
+    vb.description(
+      '"list" shows this session\'s jobs; "poll" returns a job\'s status and the output written since the last poll; "stdin" writes `input` to the job; "kill" stops it.',
+    ),
+  ),
+  closeStdin: vb.pipe(
+    vb.optional(vb.nullable(vb.boolean())),
+    vb.transform((val) => val ?? false),
+    vb.description('With "stdin": close the job\'s stdin after writing, signalling end of input.'),
+  ),
+  id: vb.pipe(
+    vb.optional(vb.nullable(vb.pipe(vb.string(), vb.nonEmpty()))),
+    vb.transform((val) => val ?? undefined),
+    vb.description('Job ID returned by `exec` with `background`. Required except for "list".'),
+  ),
+  input: vb.pipe(
+    vb.optional(vb.nullable(vb.pipe(vb.string(), vb.maxBytes(MAX_INPUT_BYTES)))),
+    vb.transform((val) => val ?? ""),
+    vb.description(
+      'With "stdin": text to write, at most 64 KiB. Include a trailing newline for line-based input.',
+    ),
+  ),
+  maxBytes: vb.pipe(
+    vb.optional(vb.nullable(vb.pipe(vb.number(), vb.integer(), vb.minValue(1)))),
+    vb.transform((val) => val ?? undefined),
+    vb.description(
+      'With "poll": most bytes of new stdout and of new stderr to return. Defaults to the [exec] inlineThresholdBytes setting.',
+    ),
+  ),
+});
+
+function summarize(job: BackgroundJob): Record<string, unknown> {
+  const summary: Record<string, unknown> = {
+    args: job.args,
+    command: job.command,
+    id: job.id,
+    runningForMs: (job.endedAt ?? Date.now()) - job.startedAt,
+    state: job.state,
+    stderrPath: job.outputPath("stderr"),
+    stdoutPath: job.outputPath("stdout"),
+  };
+  if (job.exitCode !== undefined) {
+    summary["exitCode"] = job.exitCode;
+  }
+  if (job.limit !== undefined) {
+    summary["error"] = job.limit.message;
+    summary["limitExceeded"] = job.limit.limit;
+  }
+  return summary;
+}
+
+export const execJob: ToolDef = {
+  description:
+    "Check on and control background jobs started with `exec` and `background: true`.\n\n" +
+    "Jobs belong to the current session and keep running between turns until they exit or are killed. Resetting the session or stopping the runtime kills them.\n\n" +
+    "Polling returns only output written since the previous poll, so poll repeatedly to follow a job. The full output stays in the files at `stdoutPath` and `stderrPath`.\n\n" +
+    "Killing sends SIGTERM, then SIGKILL if the job hasn't exited after a few seconds.",
+  async execute(input: unknown, ctx: ToolContext): Promise<Record<string, unknown>> {
+    const data = vb.parse(Schema, input);
+    const execConfig = ctx.cfg.exec;
+
+    if (execConfig === false || !execConfig.enabled) {
+      throw new ToolError("Exec tool is disabled in configuration.");
+    }
+
+    if (data.action === "list") {
+      return { jobs: [...ctx.session.jobs.values()].map((job) => summarize(job)) };
+    }
+
+    if (data.id === undefined) {
+      throw new ToolError(`Action "${data.action}" needs a job \`id\`.`);
+    }
+    const job = ctx.session.jobs.get(data.id);
+    if (job === undefined) {
+      throw new ToolError(
+        `No background job '${data.id}' in this session.`,
+        'Use action "list" to see the jobs this session knows about.',
+      );
+    }
+
+    switch (data.action) {
+      case "poll": {
+        const maxBytes = data.maxBytes ?? execConfig.inlineThresholdBytes;
+        const stdout = await job.readNew("stdout", maxBytes);
+        const stderr = await job.readNew("stderr", maxBytes);
+        return {
+          ...summarize(job),
+          moreStderr: stderr.more,
+          moreStdout: stdout.more,
+          stderr: stderr.text,
+          stdout: stdout.text,
+        };
+      }
+      case "stdin": {
+        if (!job.stdinOpen) {
+          throw new ToolError(`Job '${job.id}' is no longer reading stdin.`);
+        }
+        const text = data.input ?? "";
+        const closeStdin = data.closeStdin ?? false;
+        const unread = job.writeStdin(text, closeStdin);
+        return {
+          ...summarize(job),
+          stdinClosed: closeStdin,
+          unreadBytes: unread,
+          written: text.length,
+        };
+      }
+      case "kill": {
+        await job.kill();
+        return summarize(job);
+      }
+      default: {
+        throw new ToolError(`Unknown action "${String(data.action)}".`);
+      }
+    }
+  },
+  name: "exec-job",
+  parameters: Schema,
+};
@@ -9,6 +9,7 @@ const mockFsPromises = {
 };
 
 const mockSandboxExec = vi.fn();
+const mockStartJob = vi.fn();
 
 vi.mock("node:fs/promises", () => ({
   mkdir: (...args: unknown[]): unknown => mockFsPromises.mkdir(...args),
@@ -17,7 +18,12 @@ vi.mock("node:fs/promises", () => ({
 
 vi.mock("#util/sandbox.js", () => ({
   SHELL_METACHAR_PATTERN: /\s/u,
-  exec: (...args: unknown[]): unknown => mockSandboxExec(...args),
+  execPipeline: (...args: unknown[]): unknown => mockSandboxExec(...args),
+  isMountedInSandbox: (sandboxPath: string): boolean => !sandboxPath.startsWith("/blocks"),
+}));
+
+vi.mock("#engine/jobs.js", () => ({
+  startJob: (...args: unknown[]): unknown => mockStartJob(...args),
 }));
 
 vi.stubEnv("HOME", "/home/test");
@@ -302,6 +308,80 @@ describe("exec tool output spilling", () => {
     expect(mockFsPromises.writeFile).not.toHaveBeenCalled();
   });
 
+  it("starts a background job and returns its ID instead of waiting", async () => {
+    mockStartJob.mockResolvedValueOnce({
+      id: "abcd1234",
+      outputPath: (stream: string) => `/workspace/.exec-output/job.${stream}`,
+    });
+
+    const ctx = makeToolContext();
+    const result = await exec.execute({ background: true, command: "grep" }, ctx);
+
+    expect(result).toEqual({
+      background: true,
+      jobId: "abcd1234",
+      stderrPath: "/workspace/.exec-output/job.stderr",
+      stdoutPath: "/workspace/.exec-output/job.stdout",
+      success: true,
+    });
+    expect(mockSandboxExec).not.toHaveBeenCalled();
+    expect(mockStartJob).toHaveBeenCalledWith(
+      ctx.session,
+      expect.objectContaining({
+        // oxlint-disable-next-line typescript/no-unsafe-assignment -- Vitest matchers return any.
+        baseName: expect.stringMatching(/-job-grep$/u),
+        outputDirHost: "/home/test/.cireilclaw/agents/testagent/workspace/.exec-output",
+      }),
+    );
+  });
+
+  it("runs a pipeline and reports each stage's exit code", async () => {
+    mockSandboxExec.mockResolvedValueOnce({
+      exitCode: 0,
+      stageExitCodes: [1, 0],
+      stderr: "",
+      stdout: "",
+      type: "output",
+    });
+
+    const ctx = makeToolContext();
+    const result = await exec.execute(
+      {
+        pipeline: [
+          { args: ["-r", "TODO"], command: "grep" },
+          { args: ["-l"], command: "ls" },
+        ],
+        stdin: "input",
+      },
+      ctx,
+    );
+
+    expect(mockSandboxExec).toHaveBeenCalledWith(
+      expect.objectContaining({ stdin: { text: "input" } }),
+      [
+        { args: ["-r", "TODO"], command: "grep" },
+        { args: ["-l"], command: "ls" },
+      ],
+    );
+    expect(result["stageExitCodes"]).toEqual([1, 0]);
+  });
+
+  it("rejects a pipeline stage outside the Bubblewrap binary list", async () => {
+    const ctx = makeToolContext();
+    await expect(
+      exec.execute({ pipeline: [{ command: "grep" }, { command: "rm" }] }, ctx),
+    ).rejects.toThrow("Command 'rm' is not in sandbox.toml [bwrap] binaries.");
+    expect(mockSandboxExec).not.toHaveBeenCalled();
+  });
+
+  it("requires exactly one of command or pipeline", async () => {
+    const ctx = makeToolContext();
+    await expect(
+      exec.execute({ command: "grep", pipeline: [{ command: "grep" }, { command: "ls" }] }, ctx),
+    ).rejects.toThrow("exactly one of `command` or `pipeline`");
+    await expect(exec.execute({}, ctx)).rejects.toThrow("exactly one of `command` or `pipeline`");
+  });
+
   it("rejects commands outside the Bubblewrap binary list", async () => {
     const ctx = makeToolContext();
     await expect(exec.execute({ command: "rm" }, ctx)).rejects.toThrow(
@@ -310,6 +390,15 @@ describe("exec tool output spilling", () => {
     expect(mockSandboxExec).not.toHaveBeenCalled();
   });
 
+  it("refuses a stdinPath the sandbox doesn't mount", async () => {
+    const ctx = makeToolContext();
+    await expect(
+      exec.execute({ command: "grep", stdinPath: "/blocks/persona.md" }, ctx),
+    ).rejects.toThrow("isn't mounted in the sandbox");
+    expect(ctx.paths.resolve).not.toHaveBeenCalled();
+    expect(mockSandboxExec).not.toHaveBeenCalled();
+  });
+
   it("rejects shell metacharacters in the command name", async () => {
     const ctx = makeToolContext();
     await expect(exec.execute({ command: "grep; rm" }, ctx)).rejects.toThrow();
@@ -333,6 +422,53 @@ describe("exec tool output spilling", () => {
     );
   });
 
+  it("asks the owner before running a command under an ask rule", async () => {
+    setSandboxResult("ok", "");
+    const ctx = makeToolContext();
+    const requestApproval = vi.fn().mockResolvedValue(undefined);
+    ctx.requestApproval = requestApproval;
+    ctx.conditions = {
+      blocks: {},
+      exec: { grep: { action: "ask", mode: "or", when: "!tui" } },
+      memories: {},
+      workspace: {},
+    };
+
+    await exec.execute({ args: ["-r", "x"], command: "grep" }, ctx);
+
+    expect(requestApproval).toHaveBeenCalledWith("exec", "grep -r x");
+    expect(mockSandboxExec).toHaveBeenCalled();
+  });
+
+  it("does not run a command the owner turns down", async () => {
+    const ctx = makeToolContext();
+    ctx.requestApproval = vi.fn().mockRejectedValue(new Error("The owner denied running `grep`."));
+    ctx.conditions = {
+      blocks: {},
+      exec: { grep: { action: "ask", mode: "or", when: "!tui" } },
+      memories: {},
+      workspace: {},
+    };
+
+    await expect(exec.execute({ command: "grep" }, ctx)).rejects.toThrow("denied");
+    expect(mockSandboxExec).not.toHaveBeenCalled();
+  });
+
+  it("rejects commands a deny rule covers", async () => {
+    const ctx = makeToolContext();
+    ctx.conditions = {
+      blocks: {},
+      exec: { ls: { action: "deny", mode: "or", when: "!tui" } },
+      memories: {},
+      workspace: {},
+    };
+
+    await expect(
+      exec.execute({ pipeline: [{ command: "grep" }, { command: "ls" }] }, ctx),
+    ).rejects.toThrow("Command 'ls' is not allowed");
+    expect(mockSandboxExec).not.toHaveBeenCalled();
+  });
+
   it("reports UTF-8 byte length, not UTF-16 code units", async () => {
     setSandboxResult("héllo wörld 🎉", "");
 
@@ -1,30 +1,76 @@
 import { Buffer } from "node:buffer";
-import { mkdir, writeFile } from "node:fs/promises";
+import { mkdir, stat, writeFile } from "node:fs/promises";
 import path from "node:path";
 
 import * as vb from "valibot";
 
 import { ToolError } from "#engine/errors.js";
+import { startJob } from "#engine/jobs.js";
 import type { ToolContext, ToolDef } from "#engine/tools/tool-def.js";
 import { warning } from "#output/log.js";
-import { exec as sandboxExec, SHELL_METACHAR_PATTERN } from "#util/sandbox.js";
+import { resolveExecAccess } from "#util/conditions.js";
+import { execPipeline, isMountedInSandbox, SHELL_METACHAR_PATTERN } from "#util/sandbox.js";
+import type { ExecStdin } from "#util/sandbox.js";
+
+const CommandSchema = vb.pipe(
+  vb.string(),
+  vb.nonEmpty(),
+  vb.custom(
+    (value) => typeof value === "string" && !SHELL_METACHAR_PATTERN.test(value),
+    "Command must be a single binary name without spaces or shell metacharacters. Use 'args' for arguments.",
+  ),
+  vb.description("Binary name to run. No spaces or shell metacharacters."),
+);
+
+const ArgsSchema = vb.pipe(
+  vb.optional(vb.nullable(vb.array(vb.pipe(vb.string(), vb.nonEmpty())))),
+  vb.transform((val) => val ?? []),
+  vb.description(
+    "Arguments to pass to the command (each a separate string, no shell quoting needed).",
+  ),
+);
 
 const Schema = vb.strictObject({
-  args: vb.pipe(
-    vb.optional(vb.nullable(vb.array(vb.pipe(vb.string(), vb.nonEmpty())))),
-    vb.transform((val) => val ?? []),
+  args: ArgsSchema,
+  background: vb.pipe(
+    vb.optional(vb.nullable(vb.boolean())),
+    vb.transform((val) => val ?? false),
     vb.description(
-      "Arguments to pass to the command (each a separate string, no shell quoting needed).",
+      "Start the command in the background and return a job ID at once instead of waiting for it. Use exec-job to poll its output, send it input, or kill it.",
     ),
   ),
   command: vb.pipe(
-    vb.string(),
-    vb.nonEmpty(),
-    vb.custom(
-      (value) => typeof value === "string" && !SHELL_METACHAR_PATTERN.test(value),
-      "Command must be a single binary name without spaces or shell metacharacters. Use 'args' for arguments.",
+    vb.optional(vb.nullable(CommandSchema)),
+    vb.transform((val) => val ?? undefined),
+    vb.description(
+      "Binary name to run. No spaces or shell metacharacters. Give either this or `pipeline`.",
+    ),
+  ),
+  pipeline: vb.pipe(
+    vb.optional(
+      vb.nullable(
+        vb.pipe(
+          vb.array(vb.strictObject({ args: ArgsSchema, command: CommandSchema })),
+          vb.minLength(2, "A pipeline needs at least two stages."),
+        ),
+      ),
+    ),
+    vb.transform((val) => val ?? undefined),
+    vb.description(
+      "Commands to chain like a shell pipeline (`a | b | c`): each stage's stdout feeds the next one's stdin. No shell is involved. Give either this or `command`.",
+    ),
+  ),
+  stdin: vb.pipe(
+    vb.optional(vb.nullable(vb.string())),
+    vb.transform((val) => val ?? undefined),
+    vb.description("Text to feed to the command's stdin (the first stage's, for a pipeline)."),
+  ),
+  stdinPath: vb.pipe(
+    vb.optional(vb.nullable(vb.pipe(vb.string(), vb.nonEmpty()))),
+    vb.transform((val) => val ?? undefined),
+    vb.description(
+      "Sandbox path of a file to feed to stdin instead of `stdin` text (e.g. /workspace/data.csv).",
     ),
-    vb.description("Binary name to run. No spaces or shell metacharacters."),
   ),
 });
 
@@ -68,8 +114,12 @@ export const exec: ToolDef = {
     "- Performing operations that cannot be expressed with the other file tools (e.g., grep, git, compilation).\n\n" +
     "Constraints:\n" +
     "- Filesystem access outside the sandbox is restricted.\n" +
+    "- Network access follows sandbox.toml [network]: it may be off entirely, or limited to allowlisted hosts through an HTTP(S) proxy that is already set in the environment.\n" +
     "- With the default Bubblewrap backend, `/blocks` cannot be accessed using `exec`; the Incus backend mounts it read-only.\n" +
-    "- Commands that exceed the configured timeout are killed automatically.\n\n" +
+    "- Commands that exceed the configured timeout are killed automatically.\n" +
+    "- sandbox.toml [limits] may cap memory, CPU, processes, file size and workspace disk use; a command stopped by one returns `limitExceeded` naming it.\n\n" +
+    "Input and pipelines: `stdin` feeds text to the command and `stdinPath` feeds a sandbox file. Instead of `command`, `pipeline` takes a list of `{command, args}` stages and connects each one's stdout to the next one's stdin, like `grep … | sort | head` without a shell. Every stage must be an allowed binary; the exit code is the last stage's and `stageExitCodes` lists them all.\n\n" +
+    "Background jobs: with `background: true` the command starts detached and the result is a job ID plus the paths its stdout and stderr stream to. The timeout doesn't apply; the job runs until it exits, is killed with exec-job, or the session is reset. Use this for dev servers, file watchers and long builds.\n\n" +
     "Tip: Use list-dir with path /bin to see which binaries are available in the sandbox.\n" +
     "Tip: The `/workspace/.env` file *is* sourced and can affect your $PATH and other environment variables.",
   async execute(input: unknown, ctx: ToolContext): Promise<Record<string, unknown>> {
@@ -80,29 +130,113 @@ export const exec: ToolDef = {
       throw new ToolError("Exec tool is disabled in configuration.");
     }
 
-    const bwrapBinaries = ctx.cfg.sandbox.bwrap?.binaries ?? [];
-    if (ctx.cfg.sandbox.backend === "bwrap" && !bwrapBinaries.includes(data.command)) {
-      const bashAvailable = bwrapBinaries.includes("bash");
+    if ((data.command === undefined) === (data.pipeline === undefined)) {
+      throw new ToolError("Give exactly one of `command` or `pipeline`.");
+    }
+    if (data.pipeline !== undefined && (data.args ?? []).length > 0) {
+      throw new ToolError("Give each pipeline stage its own `args`.");
+    }
+    if (data.stdin !== undefined && data.stdinPath !== undefined) {
+      throw new ToolError("Give at most one of `stdin` or `stdinPath`.");
+    }
+    if (
+      data.background === true &&
+      (data.pipeline !== undefined || data.stdin !== undefined || data.stdinPath !== undefined)
+    ) {
       throw new ToolError(
-        `Command '${data.command}' is not in sandbox.toml [bwrap] binaries.`,
-        bashAvailable
-          ? "Use `bash -c 'command'` if you think the binary is in your $PATH (e.g., from .env)."
-          : undefined,
+        "Background jobs run a single command and take their input through exec-job.",
+        "Drop `pipeline`, `stdin` and `stdinPath`, then send input with exec-job's stdin action.",
       );
     }
 
-    const result = await sandboxExec({
+    const stages = data.pipeline ?? [{ args: data.args ?? [], command: data.command ?? "" }];
+    const commandName = stages.map((stage) => stage.command).join("_");
+
+    const bwrapBinaries = ctx.cfg.sandbox.bwrap?.binaries ?? [];
+    for (const stage of stages) {
+      if (ctx.cfg.sandbox.backend === "bwrap" && !bwrapBinaries.includes(stage.command)) {
+        const bashAvailable = bwrapBinaries.includes("bash");
+        throw new ToolError(
+          `Command '${stage.command}' is not in sandbox.toml [bwrap] binaries.`,
+          bashAvailable
+            ? "Use `bash -c 'command'` if you think the binary is in your $PATH (e.g., from .env)."
+            : undefined,
+        );
+      }
+    }
+
+    let stdin: ExecStdin | undefined = undefined;
+    if (data.stdin !== undefined) {
+      stdin = { text: data.stdin };
+    } else if (data.stdinPath !== undefined) {
+      // The file is read on the host, so hold it to what the command could read.
+      if (!isMountedInSandbox(data.stdinPath, ctx.cfg.sandbox.backend)) {
+        throw new ToolError(
+          `stdinPath '${data.stdinPath}' isn't mounted in the sandbox.`,
+          "Give a file the command could read itself, e.g. under /workspace.",
+        );
+      }
+      const file = await ctx.paths.resolve(data.stdinPath);
+      await ctx.paths.checkConditionalAccess(data.stdinPath);
+      const stats = await stat(file);
+      if (!stats.isFile()) {
+        throw new ToolError(`stdinPath '${data.stdinPath}' is not a file.`);
+      }
+      stdin = { file };
+    }
+
+    // conditions.toml can deny commands or hold them for the owner's approval.
+    for (const stage of stages) {
+      const access = resolveExecAccess(stage.command, ctx.conditions?.exec, ctx.session);
+      if (access === "deny") {
+        throw new ToolError(`Command '${stage.command}' is not allowed in the current context.`);
+      }
+      if (access === "ask") {
+        await ctx.requestApproval("exec", [stage.command, ...(stage.args ?? [])].join(" "));
+      }
+    }
+
+    const sandboxConfig = {
       agentSlug: ctx.agentSlug,
-      args: data.args,
       backend: ctx.cfg.sandbox.backend,
       binaries: bwrapBinaries,
-      command: data.command,
       devices: ctx.cfg.sandbox.devices,
       hostEnvPassthrough: execConfig.hostEnvPassthrough,
       incus: ctx.cfg.sandbox.incus,
+      limits: ctx.cfg.sandbox.limits,
       mounts: ctx.cfg.sandbox.mounts,
+      network: ctx.cfg.sandbox.network,
+      stdin,
       timeout: execConfig.timeout,
-    });
+    };
+
+    if (data.background === true) {
+      // oxlint-disable-next-line init-declarations
+      let outputDirHost: string;
+      try {
+        outputDirHost = await ctx.paths.resolve(execConfig.outputDir);
+        await mkdir(outputDirHost, { recursive: true });
+      } catch (error) {
+        throw new ToolError(
+          `Failed to prepare exec output directory for a background job: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+      const job = await startJob(ctx.session, {
+        baseName: `${timestampSlug()}-job-${sanitizeForFilename(commandName)}`,
+        exec: { ...sandboxConfig, args: data.args ?? [], command: data.command ?? "" },
+        outputDir: execConfig.outputDir,
+        outputDirHost,
+      });
+      return {
+        background: true,
+        jobId: job.id,
+        stderrPath: job.outputPath("stderr"),
+        stdoutPath: job.outputPath("stdout"),
+        success: true,
+      };
+    }
+
+    const result = await execPipeline(sandboxConfig, stages);
 
     if (result.type === "error") {
       throw new ToolError(result.error);
@@ -116,8 +250,15 @@ export const exec: ToolDef = {
       exitCode: result.exitCode,
       stderrLength,
       stdoutLength,
-      success: result.exitCode === 0,
+      success: result.exitCode === 0 && result.limit === undefined,
     };
+    if (result.stageExitCodes !== undefined) {
+      baseResponse["stageExitCodes"] = result.stageExitCodes;
+    }
+    if (result.limit !== undefined) {
+      baseResponse["error"] = result.limit.message;
+      baseResponse["limitExceeded"] = result.limit.limit;
+    }
 
     if (execConfig.inline && combinedBytes <= execConfig.inlineThresholdBytes) {
       return {
@@ -133,7 +274,7 @@ export const exec: ToolDef = {
     const seq = (perTurnSeq.get(turnKey) ?? 0) + 1;
     perTurnSeq.set(turnKey, seq);
 
-    const baseName = `${timestampSlug()}-${String(seq).padStart(3, "0")}-${sanitizeForFilename(data.command)}`;
+    const baseName = `${timestampSlug()}-${String(seq).padStart(3, "0")}-${sanitizeForFilename(commandName)}`;
 
     // oxlint-disable-next-line init-declarations
     let outputDirHost: string;
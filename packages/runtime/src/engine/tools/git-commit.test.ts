@@ -0,0 +1,148 @@
+import { spawnSync } from "node:child_process";
+import { mkdtempSync, readFileSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { gitCommit } from "#engine/tools/git-commit.js";
+import { gitDiff } from "#engine/tools/git-diff.js";
+import { gitLog } from "#engine/tools/git-log.js";
+import { gitStatus } from "#engine/tools/git-status.js";
+import type { ToolContext } from "#engine/tools/tool-def.js";
+import type { ExecConfig, ExecResult } from "#util/sandbox.js";
+
+let workspace = "";
+
+// Runs git on the host, with /workspace standing for a temporary directory.
+function hostGit(cfg: ExecConfig): ExecResult {
+  const args = (cfg.args ?? []).map((arg) => arg.replace(/^\/workspace/u, workspace));
+  const result = spawnSync(cfg.command, args, {
+    encoding: "utf8",
+    env: { ...process.env, GIT_CONFIG_GLOBAL: "/dev/null", GIT_CONFIG_NOSYSTEM: "1" },
+  });
+  return {
+    exitCode: result.status ?? 1,
+    stderr: result.stderr,
+    stdout: result.stdout.replaceAll(workspace, "/workspace"),
+    type: "output",
+  };
+}
+
+vi.mock("#util/sandbox.js", () => ({
+  // oxlint-disable-next-line typescript/require-await
+  exec: async (cfg: ExecConfig): Promise<ExecResult> => hostGit(cfg),
+}));
+
+function makeToolContext(mode: "rw" | "ro" = "rw"): ToolContext {
+  function hostPath(sandboxPath: string): string {
+    return sandboxPath.replace(/^\/workspace/u, workspace);
+  }
+  // oxlint-disable-next-line typescript/no-unsafe-type-assertion -- only what the git tools use
+  return {
+    agentSlug: "agent",
+    cfg: { sandbox: { backend: "bwrap", mounts: [] } },
+    fs: {
+      readTextFile: vi.fn(
+        async (sandboxPath: string): Promise<string> =>
+          await Promise.resolve(readFileSync(hostPath(sandboxPath), "utf8")),
+      ),
+    },
+    paths: {
+      checkConditionalAccess: vi.fn().mockResolvedValue(undefined),
+      checkWriteAccess: vi.fn(async (sandboxPath: string): Promise<void> => {
+        if (mode === "ro") {
+          await Promise.reject(
+            new Error(`Access denied: path '${sandboxPath}' is on a read-only mount (repo).`),
+          );
+        }
+      }),
+    },
+    requestApproval: vi.fn(),
+    session: {},
+  } as unknown as ToolContext;
+}
+
+function git(...args: string[]): string {
+  return spawnSync("git", ["-C", path.join(workspace, "repo"), ...args], {
+    encoding: "utf8",
+    env: { ...process.env, GIT_CONFIG_GLOBAL: "/dev/null", GIT_CONFIG_NOSYSTEM: "1" },
+  }).stdout;
+}
+
+beforeEach(() => {
+  workspace = mkdtempSync(path.join(tmpdir(), "cireilclaw-git-test-"));
+  spawnSync("git", ["init", "--quiet", "--initial-branch=main", path.join(workspace, "repo")]);
+  writeFileSync(path.join(workspace, "repo", "notes.txt"), "one\ntwo\nthree\n");
+});
+
+describe("git tools", () => {
+  it("commits staged files as the agent when no identity is configured", async () => {
+    const ctx = makeToolContext();
+    const status = await gitStatus.execute({ path: "/workspace/repo" }, ctx);
+
+    expect(status).toMatchObject({
+      branch: "main",
+      clean: false,
+      repo: "/workspace/repo",
+      untracked: ["notes.txt"],
+    });
+
+    const result = await gitCommit.execute(
+      { message: "Add notes", path: "/workspace/repo", paths: ["notes.txt"] },
+      ctx,
+    );
+
+    expect(result).toMatchObject({
+      branch: "main",
+      files: [{ change: "added", path: "notes.txt" }],
+      success: true,
+    });
+    expect(git("log", "--format=%an <%ae> %s").trim()).toBe(
+      "agent <agent@cireilclaw.invalid> Add notes",
+    );
+    expect(ctx.paths.checkWriteAccess).toHaveBeenCalledWith("/workspace/repo");
+
+    const log = await gitLog.execute({ path: "/workspace/repo" }, ctx);
+
+    expect(log["commits"]).toMatchObject([{ author: "agent", subject: "Add notes" }]);
+  });
+
+  it("refuses to commit with nothing staged or on a read-only mount", async () => {
+    await expect(
+      gitCommit.execute({ message: "Empty", path: "/workspace/repo" }, makeToolContext()),
+    ).rejects.toThrow("Nothing is staged");
+    await expect(
+      gitCommit.execute(
+        { all: true, message: "Add", path: "/workspace/repo" },
+        makeToolContext("ro"),
+      ),
+    ).rejects.toThrow("read-only mount");
+    expect(git("status", "--porcelain")).toBe("?? notes.txt\n");
+  });
+
+  it("renders working tree and staged diffs with line numbers", async () => {
+    const ctx = makeToolContext();
+    await gitCommit.execute({ all: true, message: "Add notes", path: "/workspace/repo" }, ctx);
+    writeFileSync(path.join(workspace, "repo", "notes.txt"), "one\n2\nthree\n");
+
+    const unstaged = await gitDiff.execute({ path: "/workspace/repo" }, ctx);
+
+    expect(unstaged["files"]).toStrictEqual([
+      {
+        added: 1,
+        change: "modified",
+        diff: " 1 one\n-2 two\n+2 2\n 3 three",
+        path: "notes.txt",
+        removed: 1,
+      },
+    ]);
+
+    const staged = await gitDiff.execute({ path: "/workspace/repo", staged: true }, ctx);
+
+    expect(staged["files"]).toStrictEqual([]);
+    await expect(
+      gitDiff.execute({ path: "/workspace/repo", ref: "--output=x" }, ctx),
+    ).rejects.toThrow("Invalid git ref");
+  });
+});
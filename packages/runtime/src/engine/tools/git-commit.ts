@@ -0,0 +1,103 @@
+import * as vb from "valibot";
+
+import { ToolError } from "#engine/errors.js";
+import { parseNameStatus, resolveRepo, runGit } from "#engine/git.js";
+import type { ToolContext, ToolDef } from "#engine/tools/tool-def.js";
+
+// Files listed in the result; the rest are counted.
+const MAX_FILES = 200;
+
+const Schema = vb.strictObject({
+  all: vb.pipe(
+    vb.optional(vb.nullable(vb.boolean())),
+    vb.transform((val) => val ?? false),
+    vb.description("Stage every change first, including new and deleted files."),
+  ),
+  message: vb.pipe(
+    vb.string(),
+    vb.nonEmpty(),
+    vb.description("The commit message: a short subject line, optionally a blank line and a body."),
+  ),
+  path: vb.pipe(
+    vb.string(),
+    vb.nonEmpty(),
+    vb.description("A directory inside the repository, e.g. /workspace/project."),
+  ),
+  paths: vb.pipe(
+    vb.optional(vb.nullable(vb.array(vb.pipe(vb.string(), vb.nonEmpty())))),
+    vb.transform((val) => val ?? []),
+    vb.description("Stage these files or directories first, relative to the repository root."),
+  ),
+});
+
+export const gitCommit: ToolDef = {
+  description:
+    "Commit to a git repository under /workspace. Stages `paths` (or everything, with `all: true`) and commits what is staged with the given message.\n\n" +
+    "Fails when nothing is staged, and on repositories in read-only mounts. When the repository has no user.name/user.email configured, the commit is authored as the agent.\n\n" +
+    "Check `git-status` and `git-diff` with `staged: true` first to see what will be committed.",
+  async execute(input: unknown, ctx: ToolContext): Promise<Record<string, unknown>> {
+    const data = vb.parse(Schema, input);
+    const paths = data.paths ?? [];
+    const { root, needsApproval } = await resolveRepo(ctx, data.path);
+
+    for (const file of paths) {
+      await ctx.paths.checkConditionalAccess(`${root}/${file}`);
+    }
+    await ctx.paths.checkWriteAccess(root);
+    if (needsApproval) {
+      await ctx.requestApproval(
+        "exec",
+        `git commit in ${root}: ${data.message.split("\n")[0] ?? ""}`,
+      );
+    }
+
+    if (data.all === true) {
+      await runGit(ctx, root, ["add", "--all"]);
+    } else if (paths.length > 0) {
+      await runGit(ctx, root, ["add", "--", ...paths]);
+    }
+
+    // Exits 1 when something is staged.
+    const staged = await runGit(ctx, root, ["diff", "--cached", "--quiet"], {
+      allowedExitCodes: [1],
+    });
+    if (staged.exitCode === 0) {
+      throw new ToolError("Nothing is staged to commit.");
+    }
+
+    const identity = await runGit(ctx, root, ["config", "user.email"], {
+      allowedExitCodes: [1],
+    });
+    const config =
+      identity.stdout.trim() === ""
+        ? [`user.name=${ctx.agentSlug}`, `user.email=${ctx.agentSlug}@cireilclaw.invalid`]
+        : [];
+    await runGit(ctx, root, ["commit", "--quiet", "--message", data.message], { config });
+
+    const head = await runGit(ctx, root, ["rev-parse", "HEAD"]);
+    const current = await runGit(ctx, root, ["branch", "--show-current"]);
+    const changed = await runGit(ctx, root, [
+      "diff-tree",
+      "--root",
+      "-r",
+      "--no-commit-id",
+      "--no-renames",
+      "--name-status",
+      "-z",
+      "HEAD",
+    ]);
+    const branch = current.stdout.trim();
+    const files = parseNameStatus(changed.stdout);
+
+    return {
+      ...(branch === "" ? {} : { branch }),
+      commit: head.stdout.trim(),
+      files: files.slice(0, MAX_FILES),
+      ...(files.length > MAX_FILES ? { omittedFiles: files.length - MAX_FILES } : {}),
+      repo: root,
+      success: true,
+    };
+  },
+  name: "git-commit",
+  parameters: Schema,
+};
@@ -0,0 +1,144 @@
+import * as vb from "valibot";
+
+import { checkRef, parseNameStatus, parseNumstat, resolveRepo, runGit } from "#engine/git.js";
+import { generateDisplayDiff } from "#engine/tools/edit/diff.js";
+import type { ToolContext, ToolDef } from "#engine/tools/tool-def.js";
+
+// Files listed in one result; further changed files are only counted.
+const MAX_FILES = 50;
+// Rendered diff text across all files; later files are listed without one.
+const MAX_DIFF_CHARS = 40_000;
+// Files bigger than this on either side are listed without a diff.
+const MAX_FILE_CHARS = 256 * 1024;
+const DEFAULT_CONTEXT_LINES = 3;
+
+const Schema = vb.strictObject({
+  contextLines: vb.pipe(
+    vb.optional(vb.nullable(vb.pipe(vb.number(), vb.integer(), vb.minValue(0), vb.maxValue(20)))),
+    vb.transform((val) => val ?? DEFAULT_CONTEXT_LINES),
+    vb.description(`Unchanged lines shown around each change. Default: ${DEFAULT_CONTEXT_LINES}.`),
+  ),
+  path: vb.pipe(
+    vb.string(),
+    vb.nonEmpty(),
+    vb.description("A directory inside the repository, e.g. /workspace/project."),
+  ),
+  paths: vb.pipe(
+    vb.optional(vb.nullable(vb.array(vb.pipe(vb.string(), vb.nonEmpty())))),
+    vb.transform((val) => val ?? []),
+    vb.description("Only diff these files or directories, relative to the repository root."),
+  ),
+  ref: vb.pipe(
+    vb.optional(vb.nullable(vb.pipe(vb.string(), vb.nonEmpty()))),
+    vb.transform((val) => val ?? undefined),
+    vb.description(
+      "Commit, branch or tag to compare against, e.g. HEAD~3 or main. Without it, unstaged changes are compared against the index and staged ones against HEAD.",
+    ),
+  ),
+  staged: vb.pipe(
+    vb.optional(vb.nullable(vb.boolean())),
+    vb.transform((val) => val ?? false),
+    vb.description("Diff the staged changes (the index) instead of the working tree."),
+  ),
+});
+
+type Input = vb.InferOutput<typeof Schema>;
+
+// The contents of a file on one side of the diff. `base` is a revision, "" for
+// the index, or undefined for the working tree.
+async function readSide(
+  ctx: ToolContext,
+  root: string,
+  file: string,
+  base: string | undefined,
+): Promise<string> {
+  if (base === undefined) {
+    return await ctx.fs.readTextFile(`${root}/${file}`);
+  }
+  const { stdout } = await runGit(ctx, root, ["cat-file", "blob", `${base}:${file}`]);
+  return stdout;
+}
+
+function sides(data: Input): { before: string; after: string | undefined } {
+  if (data.staged === true) {
+    return { after: "", before: data.ref ?? "HEAD" };
+  }
+  return { after: undefined, before: data.ref ?? "" };
+}
+
+export const gitDiff: ToolDef = {
+  description:
+    "Show the changes in a git repository under /workspace, file by file, with a line-numbered diff of each (`+` added, `-` removed) and counts of added and removed lines.\n\n" +
+    "By default this shows unstaged changes in the working tree. Use `staged: true` for what the next commit will contain, and `ref` to compare against a commit or branch.\n\n" +
+    `Results are bounded: at most ${MAX_FILES} files, and once the diffs reach about ${MAX_DIFF_CHARS} characters the remaining files are listed with counts only (\`diffOmitted\`). Narrow with \`paths\` to see those.`,
+  async execute(input: unknown, ctx: ToolContext): Promise<Record<string, unknown>> {
+    const data = vb.parse(Schema, input);
+    const paths = data.paths ?? [];
+    if (data.ref !== undefined) {
+      checkRef(data.ref);
+    }
+    const { root } = await resolveRepo(ctx, data.path);
+
+    const selection = [
+      "--no-ext-diff",
+      "--no-renames",
+      "-z",
+      ...(data.staged === true ? ["--cached"] : []),
+      ...(data.ref === undefined ? [] : [data.ref]),
+      "--",
+      ...paths,
+    ];
+    const nameStatus = await runGit(ctx, root, ["diff", "--name-status", ...selection]);
+    const numstat = await runGit(ctx, root, ["diff", "--numstat", ...selection]);
+    const names = parseNameStatus(nameStatus.stdout);
+    const stats = parseNumstat(numstat.stdout);
+    const { before, after } = sides(data);
+
+    let budget = MAX_DIFF_CHARS;
+    const files: Record<string, unknown>[] = [];
+    for (const { change, path } of names.slice(0, MAX_FILES)) {
+      const stat = stats.get(path);
+      const file: Record<string, unknown> = {
+        added: stat?.added ?? 0,
+        change,
+        path,
+        removed: stat?.removed ?? 0,
+      };
+      files.push(file);
+
+      if (stat?.binary === true) {
+        file["binary"] = true;
+        continue;
+      }
+      if (change === "unmerged" || budget <= 0) {
+        file["diffOmitted"] = true;
+        continue;
+      }
+
+      const oldContent = change === "added" ? "" : await readSide(ctx, root, path, before);
+      const newContent = change === "deleted" ? "" : await readSide(ctx, root, path, after);
+      if (oldContent.length > MAX_FILE_CHARS || newContent.length > MAX_FILE_CHARS) {
+        file["diffOmitted"] = true;
+        file["tooLarge"] = true;
+        continue;
+      }
+
+      const { diff } = generateDisplayDiff(
+        oldContent,
+        newContent,
+        data.contextLines ?? DEFAULT_CONTEXT_LINES,
+      );
+      file["diff"] = diff;
+      budget -= diff.length;
+    }
+
+    return {
+      files,
+      ...(names.length > MAX_FILES ? { omittedFiles: names.length - MAX_FILES } : {}),
+      repo: root,
+      success: true,
+    };
+  },
+  name: "git-diff",
+  parameters: Schema,
+};
@@ -0,0 +1,71 @@
+import * as vb from "valibot";
+
+import { checkRef, LOG_FORMAT, parseLog, resolveRepo, runGit } from "#engine/git.js";
+import type { ToolContext, ToolDef } from "#engine/tools/tool-def.js";
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+// Commit message bodies are cut to this many characters.
+const MAX_BODY_CHARS = 1000;
+
+const Schema = vb.strictObject({
+  limit: vb.pipe(
+    vb.optional(
+      vb.nullable(vb.pipe(vb.number(), vb.integer(), vb.minValue(1), vb.maxValue(MAX_LIMIT))),
+    ),
+    vb.transform((val) => val ?? DEFAULT_LIMIT),
+    vb.description(
+      `How many commits to show, newest first. Default: ${DEFAULT_LIMIT}, maximum: ${MAX_LIMIT}.`,
+    ),
+  ),
+  path: vb.pipe(
+    vb.string(),
+    vb.nonEmpty(),
+    vb.description("A directory inside the repository, e.g. /workspace/project."),
+  ),
+  paths: vb.pipe(
+    vb.optional(vb.nullable(vb.array(vb.pipe(vb.string(), vb.nonEmpty())))),
+    vb.transform((val) => val ?? []),
+    vb.description(
+      "Only show commits touching these files or directories, relative to the repository root.",
+    ),
+  ),
+  ref: vb.pipe(
+    vb.optional(vb.nullable(vb.pipe(vb.string(), vb.nonEmpty()))),
+    vb.transform((val) => val ?? undefined),
+    vb.description("Branch, tag or range to list, e.g. main or main..feature. Default: HEAD."),
+  ),
+});
+
+export const gitLog: ToolDef = {
+  description:
+    "List recent commits of a git repository under /workspace, newest first, with hash, author, ISO date, subject and message body.\n\n" +
+    "Use `paths` for the history of particular files and `git-diff` with `ref` to see what a commit range changed.",
+  async execute(input: unknown, ctx: ToolContext): Promise<Record<string, unknown>> {
+    const data = vb.parse(Schema, input);
+    const paths = data.paths ?? [];
+    if (data.ref !== undefined) {
+      checkRef(data.ref);
+    }
+    const { root } = await resolveRepo(ctx, data.path);
+
+    const { stdout } = await runGit(ctx, root, [
+      "log",
+      `--format=${LOG_FORMAT}`,
+      `--max-count=${data.limit ?? DEFAULT_LIMIT}`,
+      ...(data.ref === undefined ? [] : [data.ref]),
+      "--",
+      ...paths,
+    ]);
+    const commits = parseLog(stdout);
+    for (const commit of commits) {
+      if (commit.body.length > MAX_BODY_CHARS) {
+        commit.body = `${commit.body.slice(0, MAX_BODY_CHARS)}…`;
+      }
+    }
+
+    return { commits, repo: root, success: true };
+  },
+  name: "git-log",
+  parameters: Schema,
+};
@@ -0,0 +1,72 @@
+import * as vb from "valibot";
+
+import { parseStatus, resolveRepo, runGit } from "#engine/git.js";
+import type { ToolContext, ToolDef } from "#engine/tools/tool-def.js";
+
+// Each list of files is cut to this many entries; the rest are counted.
+const MAX_ENTRIES = 200;
+
+const Schema = vb.strictObject({
+  path: vb.pipe(
+    vb.string(),
+    vb.nonEmpty(),
+    vb.description("A directory inside the repository, e.g. /workspace/project."),
+  ),
+});
+
+function bounded<Item>(items: Item[]): { items: Item[]; omitted: number } {
+  return { items: items.slice(0, MAX_ENTRIES), omitted: Math.max(0, items.length - MAX_ENTRIES) };
+}
+
+export const gitStatus: ToolDef = {
+  description:
+    "Show the state of a git repository under /workspace: the current branch, how far it is ahead of or behind its upstream, and which files are staged, changed but unstaged, conflicted or untracked.\n\n" +
+    `Paths are relative to the repository root (\`repo\`). Each list holds at most ${MAX_ENTRIES} files; \`omitted\` counts the rest.`,
+  async execute(input: unknown, ctx: ToolContext): Promise<Record<string, unknown>> {
+    const data = vb.parse(Schema, input);
+    const { root } = await resolveRepo(ctx, data.path);
+    const { stdout } = await runGit(ctx, root, [
+      "status",
+      "--porcelain=v2",
+      "--branch",
+      "--no-renames",
+      "--untracked-files=normal",
+      "-z",
+    ]);
+    const status = parseStatus(stdout);
+
+    const staged = bounded(status.staged);
+    const unstaged = bounded(status.unstaged);
+    const conflicted = bounded(status.conflicted);
+    const untracked = bounded(status.untracked);
+    const omitted: Record<string, number> = {};
+    for (const [key, list] of Object.entries({ conflicted, staged, unstaged, untracked })) {
+      if (list.omitted > 0) {
+        omitted[key] = list.omitted;
+      }
+    }
+
+    return {
+      ahead: status.ahead,
+      behind: status.behind,
+      branch: status.branch,
+      clean:
+        status.staged.length === 0 &&
+        status.unstaged.length === 0 &&
+        status.conflicted.length === 0 &&
+        status.untracked.length === 0,
+      conflicted: conflicted.items,
+      detached: status.detached,
+      head: status.head,
+      ...(Object.keys(omitted).length > 0 ? { omitted } : {}),
+      repo: root,
+      staged: staged.items,
+      success: true,
+      unstaged: unstaged.items,
+      untracked: untracked.items,
+      upstream: status.upstream,
+    };
+  },
+  name: "git-status",
+  parameters: Schema,
+};
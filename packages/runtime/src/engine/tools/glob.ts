@@ -0,0 +1,77 @@
+import * as vb from "valibot";
+
+import { searchRoot, walkFiles } from "#engine/file-search.js";
+import type { WalkState } from "#engine/file-search.js";
+import type { ToolContext, ToolDef } from "#engine/tools/tool-def.js";
+import { globToRegExp } from "#util/glob.js";
+
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 500;
+
+const Schema = vb.strictObject({
+  limit: vb.pipe(
+    vb.optional(
+      vb.nullable(vb.pipe(vb.number(), vb.integer(), vb.minValue(1), vb.maxValue(MAX_LIMIT))),
+    ),
+    vb.transform((val) => val ?? DEFAULT_LIMIT),
+    vb.description(`How many paths to return. Default: ${DEFAULT_LIMIT}, maximum: ${MAX_LIMIT}.`),
+  ),
+  offset: vb.pipe(
+    vb.optional(vb.nullable(vb.pipe(vb.number(), vb.integer(), vb.minValue(0)))),
+    vb.transform((val) => val ?? 0),
+    vb.description("How many matching paths to skip, for the next page. Default: 0."),
+  ),
+  path: vb.pipe(
+    vb.optional(vb.nullable(vb.pipe(vb.string(), vb.nonEmpty()))),
+    vb.transform((val) => val ?? "/workspace"),
+    vb.description("Directory to search in. Default: /workspace."),
+  ),
+  pattern: vb.pipe(
+    vb.string(),
+    vb.nonEmpty(),
+    vb.description(
+      "Glob matched against paths relative to `path`, e.g. `**/*.ts`, `src/*.{js,json}` or `notes/2026-??-*.md`.",
+    ),
+  ),
+});
+
+export const glob: ToolDef = {
+  description:
+    "Find files by name. Returns the sandbox paths of files under `path` that match a glob, sorted by path.\n\n" +
+    "Glob syntax: `*` matches within one directory level, `**` across any number of them, `?` one character, `{a,b}` either alternative, `[abc]` one of a set. Patterns are relative to `path`, so `*.md` only matches files directly in it; use `**/*.md` to search all the way down.\n\n" +
+    "Searches /workspace (including mounts), /memories, /blocks and /skills. `.git` and `node_modules` directories are skipped, and files hidden from `read` in this context never show up. Use `offset` to page through long results; `nextOffset` is set when there are more.\n\n" +
+    "Use `grep` to search file contents instead.",
+  async execute(input: unknown, ctx: ToolContext): Promise<Record<string, unknown>> {
+    const data = vb.parse(Schema, input);
+    const root = searchRoot(data.path ?? "/workspace");
+    const offset = data.offset ?? 0;
+    const limit = data.limit ?? DEFAULT_LIMIT;
+    const matcher = globToRegExp(data.pattern);
+
+    const state: WalkState = { truncated: false, visited: 0 };
+    const files: string[] = [];
+    let matched = 0;
+    for await (const file of walkFiles(ctx, root, state)) {
+      if (!matcher.test(file.relativePath)) {
+        continue;
+      }
+      matched++;
+      if (matched > offset + limit) {
+        break;
+      }
+      if (matched > offset) {
+        files.push(file.path);
+      }
+    }
+
+    return {
+      files,
+      ...(matched > offset + limit ? { nextOffset: offset + limit } : {}),
+      path: root,
+      success: true,
+      ...(state.truncated ? { truncated: true } : {}),
+    };
+  },
+  name: "glob",
+  parameters: Schema,
+};
@@ -0,0 +1,144 @@
+import { mkdirSync, mkdtempSync, symlinkSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { ToolError } from "#engine/errors.js";
+import { glob } from "#engine/tools/glob.js";
+import { grep } from "#engine/tools/grep.js";
+import type { ToolContext } from "#engine/tools/tool-def.js";
+import { sandboxToReal } from "#util/paths.js";
+
+let home = "";
+
+function write(relative: string, content: string): void {
+  const file = path.join(home, ".cireilclaw", "agents", "agent", relative);
+  mkdirSync(path.dirname(file), { recursive: true });
+  writeFileSync(file, content);
+}
+
+// /workspace/private is denied, like a conditions.toml deny rule would.
+function makeToolContext(): ToolContext {
+  // oxlint-disable-next-line typescript/no-unsafe-type-assertion -- only what the search tools use
+  return {
+    mounts: [],
+    paths: {
+      checkConditionalAccess: vi.fn(async (sandboxPath: string): Promise<void> => {
+        if (sandboxPath.startsWith("/workspace/private/")) {
+          await Promise.reject(new Error(`Access denied: path '${sandboxPath}'`));
+        }
+      }),
+      resolve: vi.fn(async (sandboxPath: string): Promise<string> => {
+        await Promise.resolve();
+        return sandboxToReal(sandboxPath, "agent", []);
+      }),
+    },
+  } as unknown as ToolContext;
+}
+
+beforeEach(() => {
+  home = mkdtempSync(path.join(tmpdir(), "cireilclaw-search-test-"));
+  vi.stubEnv("HOME", home);
+  write("workspace/README.md", "# Project\nTODO: write docs\n");
+  write("workspace/src/index.ts", "const a = 1;\n// TODO fix\nconst b = 2;\nexport { a, b };\n");
+  write("workspace/src/util.ts", "export const todo = 'no';\n");
+  write("workspace/private/secret.md", "TODO: hidden\n");
+  write("workspace/node_modules/pkg/index.js", "// TODO vendored\n");
+  write("workspace/image.bin", "TODO\0binary");
+  write("memories/outside.txt", "TODO: outside\n");
+  // A symlink out of /workspace fails to resolve, as it does for read.
+  symlinkSync(
+    path.join(home, ".cireilclaw", "agents", "agent", "memories", "outside.txt"),
+    path.join(home, ".cireilclaw", "agents", "agent", "workspace", "escape.txt"),
+  );
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("glob", () => {
+  it("lists matching files in path order, leaving out denied and skipped ones", async () => {
+    const result = await glob.execute({ pattern: "**/*.{md,ts}" }, makeToolContext());
+
+    expect(result).toStrictEqual({
+      files: ["/workspace/README.md", "/workspace/src/index.ts", "/workspace/src/util.ts"],
+      path: "/workspace",
+      success: true,
+    });
+  });
+
+  it("pages through results", async () => {
+    const ctx = makeToolContext();
+    const first = await glob.execute({ limit: 2, pattern: "**" }, ctx);
+
+    expect(first).toMatchObject({
+      files: ["/workspace/README.md", "/workspace/image.bin"],
+      nextOffset: 2,
+    });
+
+    const second = await glob.execute({ limit: 2, offset: 2, pattern: "**" }, ctx);
+
+    expect(second["files"]).toStrictEqual(["/workspace/src/index.ts", "/workspace/src/util.ts"]);
+    expect(second["nextOffset"]).toBeUndefined();
+  });
+
+  it("rejects paths outside the search roots", async () => {
+    await expect(glob.execute({ path: "/etc", pattern: "*" }, makeToolContext())).rejects.toThrow(
+      "Cannot search '/etc'",
+    );
+  });
+});
+
+describe("grep", () => {
+  it("returns matching lines with context from readable text files", async () => {
+    const result = await grep.execute({ context: 1, pattern: "TODO" }, makeToolContext());
+
+    expect(result).toStrictEqual({
+      matches: [
+        {
+          after: [""],
+          before: ["# Project"],
+          line: 2,
+          path: "/workspace/README.md",
+          text: "TODO: write docs",
+        },
+        {
+          after: ["const b = 2;"],
+          before: ["const a = 1;"],
+          line: 2,
+          path: "/workspace/src/index.ts",
+          text: "// TODO fix",
+        },
+      ],
+      path: "/workspace",
+      skippedFiles: 1,
+      success: true,
+    });
+  });
+
+  it("filters files by glob and honors ignoreCase, literal and paging", async () => {
+    const ctx = makeToolContext();
+    const result = await grep.execute(
+      { glob: "src/*.ts", ignoreCase: true, limit: 1, pattern: "todo" },
+      ctx,
+    );
+
+    expect(result["matches"]).toMatchObject([{ line: 2, path: "/workspace/src/index.ts" }]);
+    expect(result["nextOffset"]).toBe(1);
+
+    const literal = await grep.execute({ literal: true, pattern: "a, b }" }, ctx);
+
+    expect(literal["matches"]).toMatchObject([{ line: 4, path: "/workspace/src/index.ts" }]);
+    await expect(grep.execute({ pattern: "(" }, ctx)).rejects.toThrow("Invalid regular expression");
+  });
+
+  it("gives up on a pattern that backtracks catastrophically", async () => {
+    write("workspace/slow.txt", `${"a".repeat(40)}b\n`);
+
+    await expect(
+      grep.execute({ glob: "slow.txt", pattern: "(a+)+$" }, makeToolContext()),
+    ).rejects.toThrow(ToolError);
+  });
+});
@@ -0,0 +1,230 @@
+import { readFile, stat } from "node:fs/promises";
+import { createContext, Script } from "node:vm";
+import type { Context } from "node:vm";
+
+import * as vb from "valibot";
+
+import { ToolError } from "#engine/errors.js";
+import { searchRoot, walkFiles } from "#engine/file-search.js";
+import type { WalkState } from "#engine/file-search.js";
+import type { ToolContext, ToolDef } from "#engine/tools/tool-def.js";
+import { escapeRegExp, globToRegExp } from "#util/glob.js";
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+const MAX_CONTEXT_LINES = 10;
+// Larger files are skipped rather than read into memory.
+const MAX_FILE_BYTES = 1024 * 1024;
+// Matched and context lines are cut to this many characters.
+const MAX_LINE_CHARS = 300;
+// How long matching may take across one search. A pattern like `(a+)+$` can
+// backtrack for ages on a single line, and it runs on the event loop.
+const MATCH_BUDGET_MS = 1000;
+
+// Run in a vm context, whose timeout can interrupt a regex mid-match.
+const MATCH_SCRIPT = new Script(
+  "for (const [index, line] of lines.entries()) { if (matcher.test(line)) { found.push(index); } }",
+);
+
+const Schema = vb.strictObject({
+  context: vb.pipe(
+    vb.optional(
+      vb.nullable(
+        vb.pipe(vb.number(), vb.integer(), vb.minValue(0), vb.maxValue(MAX_CONTEXT_LINES)),
+      ),
+    ),
+    vb.transform((val) => val ?? 0),
+    vb.description(
+      `Lines to show before and after each match. Default: 0, maximum: ${MAX_CONTEXT_LINES}.`,
+    ),
+  ),
+  glob: vb.pipe(
+    vb.optional(vb.nullable(vb.pipe(vb.string(), vb.nonEmpty()))),
+    vb.transform((val) => val ?? undefined),
+    vb.description(
+      "Only search files whose path relative to `path` matches this glob, e.g. `**/*.ts`.",
+    ),
+  ),
+  ignoreCase: vb.pipe(
+    vb.optional(vb.nullable(vb.boolean())),
+    vb.transform((val) => val ?? false),
+    vb.description("Match regardless of case."),
+  ),
+  limit: vb.pipe(
+    vb.optional(
+      vb.nullable(vb.pipe(vb.number(), vb.integer(), vb.minValue(1), vb.maxValue(MAX_LIMIT))),
+    ),
+    vb.transform((val) => val ?? DEFAULT_LIMIT),
+    vb.description(
+      `How many matching lines to return. Default: ${DEFAULT_LIMIT}, maximum: ${MAX_LIMIT}.`,
+    ),
+  ),
+  literal: vb.pipe(
+    vb.optional(vb.nullable(vb.boolean())),
+    vb.transform((val) => val ?? false),
+    vb.description("Treat `pattern` as plain text instead of a regular expression."),
+  ),
+  offset: vb.pipe(
+    vb.optional(vb.nullable(vb.pipe(vb.number(), vb.integer(), vb.minValue(0)))),
+    vb.transform((val) => val ?? 0),
+    vb.description("How many matching lines to skip, for the next page. Default: 0."),
+  ),
+  path: vb.pipe(
+    vb.optional(vb.nullable(vb.pipe(vb.string(), vb.nonEmpty()))),
+    vb.transform((val) => val ?? "/workspace"),
+    vb.description("Directory to search in. Default: /workspace."),
+  ),
+  pattern: vb.pipe(
+    vb.string(),
+    vb.nonEmpty(),
+    vb.description("JavaScript regular expression to look for in each line, e.g. `TODO|FIXME`."),
+  ),
+});
+
+interface GrepMatch {
+  path: string;
+  line: number;
+  text: string;
+  before?: string[];
+  after?: string[];
+}
+
+// The compiled pattern, in the vm context that runs it, and how much of the
+// search's matching time is left.
+interface LineMatcher {
+  context: Context;
+  budgetMs: number;
+}
+
+function clip(line: string): string {
+  return line.length > MAX_LINE_CHARS ? `${line.slice(0, MAX_LINE_CHARS)}…` : line;
+}
+
+function compile(pattern: string, literal: boolean, ignoreCase: boolean): RegExp {
+  try {
+    return new RegExp(literal ? escapeRegExp(pattern) : pattern, ignoreCase ? "iu" : "u");
+  } catch (error) {
+    throw new ToolError(
+      `Invalid regular expression: ${error instanceof Error ? error.message : String(error)}`,
+      "Escape special characters, or pass `literal: true` to search for the text as is.",
+    );
+  }
+}
+
+// The file's text, or undefined for files too big to search or that look
+// binary.
+async function searchableText(realPath: string): Promise<string | undefined> {
+  const stats = await stat(realPath);
+  if (stats.size > MAX_FILE_BYTES) {
+    return undefined;
+  }
+  const content = await readFile(realPath, "utf8");
+  return content.includes("\0") ? undefined : content;
+}
+
+// Indices of the lines that match, charged against the search's budget.
+function matchingLines(matcher: LineMatcher, lines: string[]): number[] {
+  const found: number[] = [];
+  Object.assign(matcher.context, { found, lines });
+  const started = Date.now();
+  try {
+    MATCH_SCRIPT.runInContext(matcher.context, { timeout: Math.max(1, matcher.budgetMs) });
+  } catch (error) {
+    // The timeout's error comes from the context's realm, so it is recognized
+    // by the time spent rather than with instanceof.
+    if (Date.now() - started < matcher.budgetMs) {
+      throw error;
+    }
+    throw new ToolError(
+      "The regular expression took too long to match.",
+      "Nested quantifiers like `(a+)+` can backtrack endlessly; simplify the pattern, or pass `literal: true` to search for plain text.",
+    );
+  } finally {
+    matcher.budgetMs -= Date.now() - started;
+  }
+  return found;
+}
+
+function findMatches(
+  path: string,
+  text: string,
+  matcher: LineMatcher,
+  context: number,
+): GrepMatch[] {
+  const lines = text.split(/\r?\n/u);
+  const matches: GrepMatch[] = [];
+  for (const idx of matchingLines(matcher, lines)) {
+    const line = lines[idx] ?? "";
+    const match: GrepMatch = { line: idx + 1, path, text: clip(line) };
+    if (context > 0) {
+      match.before = lines.slice(Math.max(0, idx - context), idx).map((ctxLine) => clip(ctxLine));
+      match.after = lines.slice(idx + 1, idx + 1 + context).map((ctxLine) => clip(ctxLine));
+    }
+    matches.push(match);
+  }
+  return matches;
+}
+
+export const grep: ToolDef = {
+  description:
+    "Search file contents. Returns each line that matches a regular expression, with its file's sandbox path and line number, in path order.\n\n" +
+    "Narrow the files with `glob` (relative to `path`), and add lines around each match with `context`. Lines are cut to a few hundred characters.\n\n" +
+    "Searches /workspace (including mounts), /memories, /blocks and /skills. `.git` and `node_modules` directories, binary files and files over 1 MiB are skipped, and files hidden from `read` in this context are never searched. A pattern that takes over a second to match fails the search. Use `offset` to page through long results; `nextOffset` is set when there are more.\n\n" +
+    "Use `glob` to find files by name instead.",
+  async execute(input: unknown, ctx: ToolContext): Promise<Record<string, unknown>> {
+    const data = vb.parse(Schema, input);
+    const root = searchRoot(data.path ?? "/workspace");
+    const offset = data.offset ?? 0;
+    const limit = data.limit ?? DEFAULT_LIMIT;
+    const context = data.context ?? 0;
+    const matcher: LineMatcher = {
+      budgetMs: MATCH_BUDGET_MS,
+      context: createContext({
+        matcher: compile(data.pattern, data.literal === true, data.ignoreCase === true),
+      }),
+    };
+    const fileMatcher = data.glob === undefined ? undefined : globToRegExp(data.glob);
+
+    const state: WalkState = { truncated: false, visited: 0 };
+    const matches: GrepMatch[] = [];
+    let matched = 0;
+    let skipped = 0;
+    for await (const file of walkFiles(ctx, root, state)) {
+      if (fileMatcher !== undefined && !fileMatcher.test(file.relativePath)) {
+        continue;
+      }
+      let text: string | undefined = undefined;
+      try {
+        text = await searchableText(file.realPath);
+      } catch {
+        // Vanished or unreadable since the walk listed it.
+      }
+      if (text === undefined) {
+        skipped++;
+        continue;
+      }
+
+      for (const match of findMatches(file.path, text, matcher, context)) {
+        matched++;
+        if (matched > offset && matched <= offset + limit) {
+          matches.push(match);
+        }
+      }
+      // One match past the page is enough to know there is another page.
+      if (matched > offset + limit) {
+        break;
+      }
+    }
+
+    return {
+      matches,
+      ...(matched > offset + limit ? { nextOffset: offset + limit } : {}),
+      path: root,
+      ...(skipped > 0 ? { skippedFiles: skipped } : {}),
+      success: true,
+      ...(state.truncated ? { truncated: true } : {}),
+    };
+  },
+  name: "grep",
+  parameters: Schema,
+};
@@ -1,7 +1,14 @@
 import { closeFile } from "#engine/tools/close-file.js";
 import { downloadAttachments } from "#engine/tools/download-attachments.js";
 import { edit } from "#engine/tools/edit/index.js";
+import { execJob } from "#engine/tools/exec-job.js";
 import { exec } from "#engine/tools/exec.js";
+import { gitCommit } from "#engine/tools/git-commit.js";
+import { gitDiff } from "#engine/tools/git-diff.js";
+import { gitLog } from "#engine/tools/git-log.js";
+import { gitStatus } from "#engine/tools/git-status.js";
+import { glob } from "#engine/tools/glob.js";
+import { grep } from "#engine/tools/grep.js";
 import { listDir } from "#engine/tools/list-dir.js";
 import { listSessions } from "#engine/tools/list-sessions.js";
 import { noResponse } from "#engine/tools/no-response.js";
@@ -14,7 +21,9 @@ import { readSections } from "#engine/tools/read-sections.js";
 import { readSession } from "#engine/tools/read-session.js";
 import { skill as readSkill } from "#engine/tools/read-skill.js";
 import { read } from "#engine/tools/read.js";
+import { recall } from "#engine/tools/recall.js";
 import { respond } from "#engine/tools/respond.js";
+import { runCode } from "#engine/tools/run-code.js";
 import { schedule } from "#engine/tools/schedule.js";
 import { sessionInfo } from "#engine/tools/session-info.js";
 import { strReplace } from "#engine/tools/str-replace.js";
@@ -26,6 +35,13 @@ const builtinToolRegistry: Record<string, ToolDef> = {
   "download-attachments": downloadAttachments,
   edit,
   exec,
+  "exec-job": execJob,
+  "git-commit": gitCommit,
+  "git-diff": gitDiff,
+  "git-log": gitLog,
+  "git-status": gitStatus,
+  glob,
+  grep,
   "list-dir": listDir,
   "list-sessions": listSessions,
   "no-response": noResponse,
@@ -38,7 +54,9 @@ const builtinToolRegistry: Record<string, ToolDef> = {
   "read-sections": readSections,
   "read-session": readSession,
   "read-skill": readSkill,
+  recall,
   respond,
+  "run-code": runCode,
   schedule,
   "session-info": sessionInfo,
   "str-replace": strReplace,
@@ -1,12 +1,25 @@
-import { and, gte, like, notLike, or } from "drizzle-orm";
 import * as vb from "valibot";
 
-import { sessions } from "#db/schema.js";
-import { isMessage } from "#engine/message.js";
+import { isInvalidSearchQuery, listMessages, searchMessages } from "#db/messages.js";
+import type { MessageFilters, MessageHit, RankedMessageHit } from "#db/messages.js";
+import { ToolError } from "#engine/errors.js";
 import type { ToolContext, ToolDef } from "#engine/tools/tool-def.js";
 import { formatDate } from "#util/date.js";
 
+const TimestampSchema = vb.pipe(
+  vb.string(),
+  vb.check((value) => !Number.isNaN(Date.parse(value)), "Expected an ISO-8601 date or timestamp."),
+  vb.transform((value) => Date.parse(value)),
+);
+
 const Schema = vb.strictObject({
+  author: vb.optional(
+    vb.pipe(
+      vb.string(),
+      vb.nonEmpty(),
+      vb.description("Only messages from this user (username or user ID)."),
+    ),
+  ),
   limit: vb.optional(
     vb.pipe(
       vb.number(),
@@ -18,18 +31,26 @@ const Schema = vb.strictObject({
   ),
   mode: vb.optional(
     vb.pipe(
-      vb.picklist(["raw", "glob", "regex"]),
-      vb.description("Search mode (raw, glob, regex)."),
+      vb.picklist(["search", "raw", "glob", "regex"]),
+      vb.description(
+        'Search mode. "search" (default) is ranked full-text search: words match in any order and by stem, ' +
+          '"exact phrases" in quotes, AND/OR/NOT, prefix* and NEAR(a b). ' +
+          '"raw" is a substring match; "glob" and "regex" match the whole message text.',
+      ),
     ),
-    "glob",
+    "search",
   ),
   offset: vb.optional(
     vb.pipe(vb.number(), vb.minValue(0), vb.description("Offset for pagination.")),
     0,
   ),
   order: vb.optional(
-    vb.pipe(vb.picklist(["asc", "desc"]), vb.description("Sort order (asc or desc).")),
-    "desc",
+    vb.pipe(
+      vb.picklist(["relevance", "asc", "desc"]),
+      vb.description(
+        'Sort order: "relevance" (search mode only, the default there) or by time, "asc" or "desc" (the default otherwise).',
+      ),
+    ),
   ),
   origin: vb.optional(
     vb.pipe(
@@ -38,8 +59,23 @@ const Schema = vb.strictObject({
     ),
   ),
   query: vb.pipe(vb.string(), vb.nonEmpty(), vb.description("The search query.")),
+  role: vb.optional(
+    vb.pipe(
+      vb.picklist(["user", "assistant"]),
+      vb.description("Only messages from users, or only your own."),
+    ),
+  ),
   since: vb.optional(
-    vb.pipe(vb.string(), vb.description("ISO-8601 timestamp; filter by lastActivity >= since.")),
+    vb.pipe(
+      TimestampSchema,
+      vb.description("ISO-8601 timestamp; only messages sent at or after it."),
+    ),
+  ),
+  until: vb.optional(
+    vb.pipe(
+      TimestampSchema,
+      vb.description("ISO-8601 timestamp; only messages sent at or before it."),
+    ),
   ),
 });
 
@@ -66,84 +102,60 @@ export const querySessions: ToolDef = {
   description:
     "Search message contents across multiple sessions.\n\n" +
     "Use this to find specific information or past discussions by keyword.\n" +
-    "Returns matched messages with their session ID and timestamp.",
+    "By default results are ranked by relevance, with the matched terms wrapped in ** in each snippet.\n" +
+    "Returns matched messages with their session ID, author and timestamp.",
   async execute(input: unknown, ctx: ToolContext): Promise<Record<string, unknown>> {
     const data = vb.parse(Schema, input);
 
-    const filters = [notLike(sessions.id, "cron:%")];
-
-    if (data.since !== undefined) {
-      filters.push(gte(sessions.lastActivity, data.since));
-    }
-
-    if (data.origin !== undefined) {
-      const origins = Array.isArray(data.origin) ? data.origin : [data.origin];
-      const originFilters = origins.map((org) => like(sessions.id, `${org}%`));
-      const combined = or(...originFilters);
-      if (combined !== undefined) {
-        filters.push(combined);
-      }
-    }
-
-    if (data.mode === "raw") {
-      filters.push(like(sessions.history, `%${data.query}%`));
-    }
-
-    const rows = ctx.db
-      .select()
-      .from(sessions)
-      .where(and(...filters))
-      .all();
-
-    const matchFn = getMatchFn(data.query, data.mode);
-    const results: {
-      channel: string;
-      content: string;
-      role: string;
-      sessionId: string;
-      timestamp?: number;
-    }[] = [];
-
-    for (const row of rows) {
-      const rawHistory = vb.parse(vb.array(vb.unknown()), JSON.parse(row.history));
-      const history = rawHistory.filter((it) => isMessage(it));
-
-      const chatMessages = history.filter((msg) => msg.role === "user" || msg.role === "assistant");
-
-      for (const msg of chatMessages) {
-        const contents = Array.isArray(msg.content) ? msg.content : [msg.content];
-        const fullText = contents
-          .filter((part) => "content" in part)
-          .map((part) => part.content)
-          .join("\n");
+    const filters: MessageFilters = {
+      author: data.author,
+      origins: typeof data.origin === "string" ? [data.origin] : data.origin,
+      role: data.role,
+      since: data.since,
+      until: data.until,
+    };
+    const { offset, limit } = data;
 
-        if (matchFn(fullText)) {
-          results.push({
-            channel: row.channel,
-            content: fullText,
-            role: msg.role,
-            sessionId: row.id,
-            timestamp: msg.timestamp,
-          });
+    let page: (MessageHit | RankedMessageHit)[] = [];
+    let totalMatches = 0;
+
+    if (data.mode === "search") {
+      try {
+        const found = searchMessages(ctx.agentSlug, data.query, filters, {
+          limit,
+          offset,
+          order: data.order ?? "relevance",
+        });
+        page = found.hits;
+        totalMatches = found.total;
+      } catch (error) {
+        if (isInvalidSearchQuery(error)) {
+          throw new ToolError(
+            `Invalid search query: ${error instanceof Error ? error.message : String(error)}. ` +
+              'Quote terms containing punctuation, e.g. "C++".',
+          );
         }
+        throw error;
       }
+    } else {
+      const matchFn = getMatchFn(data.query, data.mode);
+      const results = listMessages(ctx.agentSlug, filters, {
+        contains: data.mode === "raw" ? data.query : undefined,
+        order: data.order === "asc" ? "asc" : "desc",
+      }).filter((msg) => matchFn(msg.content));
+      page = results.slice(offset, offset + limit);
+      totalMatches = results.length;
     }
 
-    results.sort((first, second) => {
-      const tsA = first.timestamp ?? 0;
-      const tsB = second.timestamp ?? 0;
-      return data.order === "asc" ? tsA - tsB : tsB - tsA;
-    });
-
-    const { offset, limit } = data;
-    const paginated = results.slice(offset, offset + limit);
-
     const matches = await Promise.all(
-      paginated.map(async (match) => ({
+      page.map(async (match) => ({
+        author: match.author,
         channel: match.channel,
-        content: match.content,
+        content: "snippet" in match ? undefined : match.content,
+        messageId: match.messageId,
         role: match.role,
         sessionId: match.sessionId,
+        snippet: "snippet" in match ? match.snippet : undefined,
         timestamp:
           match.timestamp === undefined
             ? undefined
@@ -154,7 +166,7 @@ export const querySessions: ToolDef = {
     return {
       matches,
       success: true,
-      totalMatches: results.length,
+      totalMatches,
     };
   },
   name: "query-sessions",
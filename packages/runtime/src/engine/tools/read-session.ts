@@ -1,6 +1,7 @@
 import { eq } from "drizzle-orm";
 import * as vb from "valibot";
 
+import { isInvalidSearchQuery, searchMessages } from "#db/messages.js";
 import { sessions } from "#db/schema.js";
 import { ToolError } from "#engine/errors.js";
 import { isMessage } from "#engine/message.js";
@@ -8,6 +9,13 @@ import type { ToolContext, ToolDef } from "#engine/tools/tool-def.js";
 import { formatDate } from "#util/date.js";
 
 const Schema = vb.strictObject({
+  author: vb.optional(
+    vb.pipe(
+      vb.string(),
+      vb.nonEmpty(),
+      vb.description("Only messages from this user (username or user ID)."),
+    ),
+  ),
   id: vb.pipe(vb.string(), vb.nonEmpty(), vb.description("The session ID to read.")),
   limit: vb.optional(
     vb.pipe(
@@ -23,8 +31,22 @@ const Schema = vb.strictObject({
     0,
   ),
   order: vb.optional(
-    vb.pipe(vb.picklist(["asc", "desc"]), vb.description("Sort order (asc or desc).")),
-    "desc",
+    vb.pipe(
+      vb.picklist(["asc", "desc", "relevance"]),
+      vb.description(
+        'Sort order: "asc" or "desc" by time (default), or "relevance" when a query is given.',
+      ),
+    ),
+  ),
+  query: vb.optional(
+    vb.pipe(
+      vb.string(),
+      vb.nonEmpty(),
+      vb.description(
+        'Only messages matching this full-text query (words, "exact phrases", AND/OR/NOT, prefix*). ' +
+          "Matches are ranked by relevance and returned as snippets with the matched terms wrapped in **.",
+      ),
+    ),
   ),
   since: vb.optional(
     vb.pipe(
@@ -34,11 +56,50 @@ const Schema = vb.strictObject({
   ),
 });
 
+type Input = vb.InferOutput<typeof Schema>;
+
+async function searchSession(data: Input, ctx: ToolContext): Promise<Record<string, unknown>> {
+  const sinceTs = data.since === undefined ? Number.NaN : Date.parse(data.since);
+  try {
+    const { hits, total } = searchMessages(
+      ctx.agentSlug,
+      data.query ?? "",
+      {
+        author: data.author,
+        sessionId: data.id,
+        since: Number.isNaN(sinceTs) ? undefined : sinceTs,
+      },
+      { limit: data.limit, offset: data.offset, order: data.order ?? "relevance" },
+    );
+    const results = await Promise.all(
+      hits.map(async (hit) => ({
+        author: hit.author,
+        messageId: hit.messageId,
+        role: hit.role,
+        snippet: hit.snippet,
+        timestamp:
+          hit.timestamp === undefined
+            ? undefined
+            : await formatDate(new Date(hit.timestamp), undefined, false),
+      })),
+    );
+    return { id: data.id, messages: results, success: true, totalMessages: total };
+  } catch (error) {
+    if (isInvalidSearchQuery(error)) {
+      throw new ToolError(
+        `Invalid search query: ${error instanceof Error ? error.message : String(error)}. ` +
+          'Quote terms containing punctuation, e.g. "C++".',
+      );
+    }
+    throw error;
+  }
+}
+
 export const readSession: ToolDef = {
   description:
     "Read the full message history of a specific session.\n\n" +
     "Use this to get detailed context on a past conversation found via `list-sessions` or `query-sessions`.\n" +
-    "Returns only user and assistant messages.",
+    "Returns only user and assistant messages. Pass `query` to search within the session instead.",
   async execute(input: unknown, ctx: ToolContext): Promise<Record<string, unknown>> {
     const data = vb.parse(Schema, input);
 
@@ -48,6 +109,10 @@ export const readSession: ToolDef = {
       throw new ToolError(`Session not found: ${data.id}`);
     }
 
+    if (data.query !== undefined) {
+      return await searchSession(data, ctx);
+    }
+
     const rawHistory = vb.parse(vb.array(vb.unknown()), JSON.parse(row.history));
     const history = rawHistory.filter((it) => isMessage(it));
     let chatMessages = history.filter((msg) => msg.role === "user" || msg.role === "assistant");
@@ -61,7 +126,16 @@ export const readSession: ToolDef = {
       }
     }
 
-    if (data.order === "desc") {
+    if (data.author !== undefined) {
+      const author = data.author.toLowerCase();
+      chatMessages = chatMessages.filter((msg) => {
+        const first = Array.isArray(msg.content) ? msg.content.at(0) : msg.content;
+        const from = first?.type === "text" ? first.discord?.author : undefined;
+        return from?.id === data.author || from?.username.toLowerCase() === author;
+      });
+    }
+
+    if (data.order !== "asc") {
       chatMessages.reverse();
     }
 
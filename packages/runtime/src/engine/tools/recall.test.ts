@@ -0,0 +1,139 @@
+import { randomUUID } from "node:crypto";
+import { mkdirSync, mkdtempSync, rmSync, utimesSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { initDb } from "#db/index.js";
+import { flushAllSessions, saveSession } from "#db/sessions.js";
+import { recall } from "#engine/tools/recall.js";
+import type { ToolContext } from "#engine/tools/tool-def.js";
+import { NamedInternalSession } from "#harness/session.js";
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+function initAgent(): { slug: string; base: string } {
+  const home = mkdtempSync(path.join(tmpdir(), "cireilclaw-recall-test-"));
+  vi.stubEnv("HOME", home);
+
+  const slug = `agent-${randomUUID()}`;
+  const base = path.join(home, ".cireilclaw", "agents", slug);
+  for (const dir of ["blocks", "memories/dm", "workspace/.exec-output"]) {
+    mkdirSync(path.join(base, dir), { recursive: true });
+  }
+  initDb(slug);
+  return { base, slug };
+}
+
+// Denies everything under /memories/dm, like a conditions.toml rule that only
+// allows it in DMs would from a guild session.
+function makeToolContext(slug: string): ToolContext {
+  // oxlint-disable-next-line typescript/no-unsafe-type-assertion
+  return {
+    agentSlug: slug,
+    paths: {
+      // oxlint-disable-next-line eslint/require-await, typescript/require-await
+      checkConditionalAccess: vi.fn(async (sandboxPath: string) => {
+        if (sandboxPath.startsWith("/memories/dm/")) {
+          throw new Error(`Access denied: path '${sandboxPath}'`);
+        }
+      }),
+    },
+  } as unknown as ToolContext;
+}
+
+interface RecallResult {
+  kind: string;
+  path?: string;
+  sessionId?: string;
+  snippet: string;
+}
+
+async function search(ctx: ToolContext, input: Record<string, unknown>): Promise<RecallResult[]> {
+  const result = await recall.execute(input, ctx);
+  // oxlint-disable-next-line typescript/no-unsafe-type-assertion
+  return result["results"] as RecallResult[];
+}
+
+describe("recall tool", () => {
+  it("finds memories, notes and session messages with highlighted snippets", async () => {
+    const { base, slug } = initAgent();
+    writeFileSync(path.join(base, "blocks", "long-term.md"), "Alex is allergic to peanuts.");
+    writeFileSync(path.join(base, "memories", "pets.md"), "Alex adopted a cat named Miso.");
+    writeFileSync(path.join(base, "workspace", "plan.md"), "Buy cat food on Friday.");
+    writeFileSync(path.join(base, "workspace", "photo.png"), "cat");
+    writeFileSync(path.join(base, "workspace", ".exec-output", "out.txt"), "cat");
+    const session = new NamedInternalSession("chat");
+    session.history.push(
+      { content: { content: "How is the cat doing?", type: "text" }, role: "user" },
+      {
+        content: {
+          id: "1",
+          input: { content: "Miso is fine." },
+          name: "respond",
+          type: "toolCall",
+        },
+        role: "assistant",
+      },
+    );
+    saveSession(slug, session);
+    flushAllSessions();
+
+    const results = await search(makeToolContext(slug), { query: "cat" });
+
+    expect(
+      results
+        .map((hit) => hit.path ?? hit.sessionId)
+        .toSorted((left, right) => String(left).localeCompare(String(right))),
+    ).toEqual(["/memories/pets.md", "/workspace/plan.md", "internal:chat"]);
+    expect(results.find((hit) => hit.path === "/memories/pets.md")?.snippet).toContain("**cat**");
+
+    const peanuts = await search(makeToolContext(slug), { query: "peanut", scope: "memories" });
+    expect(peanuts).toEqual([
+      expect.objectContaining({ kind: "memory", path: "/blocks/long-term.md" }),
+    ]);
+  });
+
+  it("skips memories the current context may not read", async () => {
+    const { base, slug } = initAgent();
+    writeFileSync(path.join(base, "memories", "dm", "secret.md"), "The vault code is 1234.");
+    writeFileSync(path.join(base, "memories", "public.md"), "The vault is in the basement.");
+
+    const results = await search(makeToolContext(slug), { query: "vault" });
+
+    expect(results.map((hit) => hit.path)).toEqual(["/memories/public.md"]);
+  });
+
+  it("re-indexes changed files and forgets deleted ones", async () => {
+    const { base, slug } = initAgent();
+    const notes = path.join(base, "memories", "notes.md");
+    const old = path.join(base, "memories", "old.md");
+    writeFileSync(notes, "Favourite colour: green.");
+    writeFileSync(old, "Favourite colour: purple.");
+    const ctx = makeToolContext(slug);
+
+    expect(await search(ctx, { query: "green" })).toHaveLength(1);
+
+    writeFileSync(notes, "Favourite colour: blue.");
+    // Make sure the stamp moves even on filesystems with coarse mtimes.
+    utimesSync(notes, new Date(), new Date(Date.now() + 5000));
+    rmSync(old);
+
+    expect(await search(ctx, { query: "green" })).toEqual([]);
+    expect(await search(ctx, { query: "purple" })).toEqual([]);
+    const blue = await search(ctx, { query: "blue" });
+    expect(blue.map((hit) => hit.path)).toEqual(["/memories/notes.md"]);
+  });
+
+  it("treats FTS5 syntax in the query as plain words", async () => {
+    const { base, slug } = initAgent();
+    writeFileSync(path.join(base, "memories", "a.md"), "Meeting NOT cancelled (moved).");
+
+    const results = await search(makeToolContext(slug), { query: '"moved) NOT' });
+
+    expect(results.map((hit) => hit.path)).toEqual(["/memories/a.md"]);
+  });
+});
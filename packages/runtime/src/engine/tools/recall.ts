@@ -0,0 +1,108 @@
+import * as vb from "valibot";
+
+import { searchRecall } from "#db/recall.js";
+import type { RecallHit, RecallKind } from "#db/recall.js";
+import { syncRecallIndex } from "#engine/recall.js";
+import type { ToolContext, ToolDef } from "#engine/tools/tool-def.js";
+import { formatDate } from "#util/date.js";
+
+const SCOPES: Record<"all" | "memories" | "workspace" | "sessions", RecallKind[]> = {
+  all: ["memory", "workspace", "session"],
+  memories: ["memory"],
+  sessions: ["session"],
+  workspace: ["workspace"],
+};
+
+// Hits are fetched in pages and filtered for access, so a run of hidden
+// memories can't starve the visible ones.
+const PAGE_SIZE = 50;
+
+const Schema = vb.strictObject({
+  limit: vb.optional(
+    vb.pipe(
+      vb.number(),
+      vb.integer(),
+      vb.minValue(1),
+      vb.maxValue(20),
+      vb.description("Max results to return (1-20)."),
+    ),
+    8,
+  ),
+  query: vb.pipe(
+    vb.string(),
+    vb.nonEmpty(),
+    vb.description("Words to look for. Results contain every word; word stems also match."),
+  ),
+  scope: vb.optional(
+    vb.pipe(
+      vb.picklist(["all", "memories", "workspace", "sessions"]),
+      vb.description(
+        "Where to search: memory files (/memories and the long-term block), workspace notes, past session messages, or all of them.",
+      ),
+    ),
+    "all",
+  ),
+});
+
+async function isVisible(hit: RecallHit, ctx: ToolContext): Promise<boolean> {
+  if (hit.kind === "session") {
+    return true;
+  }
+  try {
+    await ctx.paths.checkConditionalAccess(hit.source);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export const recall: ToolDef = {
+  description:
+    "Search long-term memory by keyword: memory files, workspace notes and past session messages.\n\n" +
+    "Returns the best matches first, each with a snippet where matched words are wrapped in **.\n" +
+    "Use `read` on a returned path, or `read-session` on a returned session, for the full text.\n" +
+    "Files hidden from the current context are never returned.",
+  async execute(input: unknown, ctx: ToolContext): Promise<Record<string, unknown>> {
+    const data = vb.parse(Schema, input);
+
+    await syncRecallIndex(ctx.agentSlug);
+
+    const hits: RecallHit[] = [];
+    for (let offset = 0; hits.length < data.limit; offset += PAGE_SIZE) {
+      const page = searchRecall(ctx.agentSlug, data.query, {
+        kinds: SCOPES[data.scope],
+        limit: PAGE_SIZE,
+        offset,
+      });
+      for (const hit of page) {
+        if (hits.length < data.limit && (await isVisible(hit, ctx))) {
+          hits.push(hit);
+        }
+      }
+      if (page.length < PAGE_SIZE) {
+        break;
+      }
+    }
+
+    const results = await Promise.all(
+      hits.map(async (hit) => {
+        if (hit.kind === "session") {
+          return {
+            kind: hit.kind,
+            sessionId: hit.source.slice("session:".length),
+            snippet: hit.snippet,
+            timestamp:
+              hit.timestamp === undefined
+                ? undefined
+                : await formatDate(new Date(hit.timestamp), undefined, false),
+          };
+        }
+        return { kind: hit.kind, path: hit.source, snippet: hit.snippet };
+      }),
+    );
+
+    return { results, success: true };
+  },
+  name: "recall",
+  parameters: Schema,
+};
@@ -0,0 +1,185 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+import * as vb from "valibot";
+
+import { DefaultExecOutputDir } from "#config/schemas/tools.js";
+import { ToolError } from "#engine/errors.js";
+import { getKernel } from "#engine/kernels/index.js";
+import type { ToolContext, ToolDef } from "#engine/tools/tool-def.js";
+import { warning } from "#output/log.js";
+import { resolveExecAccess } from "#util/conditions.js";
+import { toWebp } from "#util/image.js";
+
+// Each of stdout and stderr is cut to its last this many characters.
+const MAX_OUTPUT_CHARS = 16_384;
+// Figures beyond this many in one cell are dropped with a note.
+const MAX_IMAGES_PER_CELL = 4;
+
+const Schema = vb.strictObject({
+  code: vb.pipe(
+    vb.string(),
+    vb.description(
+      "Code to run as one cell. Variables, imports and functions persist for later cells.",
+    ),
+  ),
+  language: vb.pipe(
+    vb.picklist(["python", "javascript"]),
+    vb.description("Which kernel runs the cell. Each language has its own kernel per session."),
+  ),
+  restart: vb.pipe(
+    vb.optional(vb.nullable(vb.boolean())),
+    vb.transform((val) => val ?? false),
+    vb.description("Shut the kernel down and start a fresh one before running the cell."),
+  ),
+});
+
+function tail(text: string): { text: string; truncated: boolean } {
+  if (text.length <= MAX_OUTPUT_CHARS) {
+    return { text, truncated: false };
+  }
+  return { text: text.slice(-MAX_OUTPUT_CHARS), truncated: true };
+}
+
+// Saves the whole of a stream that was cut, next to exec's output files, and
+// returns its sandbox path; undefined if it couldn't be written.
+async function saveOutput(
+  ctx: ToolContext,
+  fileName: string,
+  text: string,
+): Promise<string | undefined> {
+  const outputDir = ctx.cfg.exec === false ? DefaultExecOutputDir : ctx.cfg.exec.outputDir;
+  try {
+    const hostDir = await ctx.paths.resolve(outputDir);
+    await mkdir(hostDir, { recursive: true });
+    await writeFile(path.join(hostDir, fileName), text, "utf8");
+  } catch (error) {
+    warning(
+      { error: error instanceof Error ? error.message : String(error), outputDir },
+      "Failed to save run-code output",
+    );
+    return undefined;
+  }
+  return `${outputDir}/${fileName}`;
+}
+
+export const runCode: ToolDef = {
+  description:
+    "Run Python or JavaScript in a kernel that stays alive inside the sandbox, like a notebook. State carries over between calls in the same session, so load data once and keep working with it.\n\n" +
+    "Each call runs one cell and returns its stdout, stderr, the value of its last expression (`result`), and the traceback if it raised (`error`). `display(value)` shows extra values mid-cell. Long stdout or stderr is cut to its end; the whole of it is saved to the file at `stdoutPath` or `stderrPath`.\n\n" +
+    "Images: matplotlib figures left open at the end of a Python cell are attached as images and closed, as are objects with `_repr_png_` passed to `display()` or ending a cell. In JavaScript, `display(bytes, mediaType)` attaches an image from a Uint8Array.\n\n" +
+    "Constraints:\n" +
+    "- The kernel runs with the same sandbox, working directory (/workspace), network policy and limits as `exec`; only preinstalled packages are available.\n" +
+    "- A cell that runs past the timeout kills its kernel, and the state is lost. So does an idle kernel after a while, and resetting the session.\n" +
+    "- JavaScript cells are scripts, not modules: use `require()`, and end a cell with a promise (not top-level `await`) to have it awaited.\n" +
+    "- Re-running `const`/`let` declarations in JavaScript fails; use `var` or assign to `globalThis` for values you redefine.\n\n" +
+    "When NOT to use:\n" +
+    "- Running CLI programs or build tools — use `exec`.",
+  async execute(input: unknown, ctx: ToolContext): Promise<Record<string, unknown>> {
+    const data = vb.parse(Schema, input);
+    const runConfig = ctx.cfg.runCode;
+
+    if (runConfig === false || !runConfig.enabled) {
+      throw new ToolError("run-code tool is disabled in configuration.");
+    }
+
+    const command = runConfig[data.language];
+    const bwrapBinaries = ctx.cfg.sandbox.bwrap?.binaries ?? [];
+    if (ctx.cfg.sandbox.backend === "bwrap" && !bwrapBinaries.includes(command)) {
+      throw new ToolError(
+        `The ${data.language} interpreter '${command}' is not in sandbox.toml [bwrap] binaries.`,
+      );
+    }
+
+    // The interpreter is subject to the same conditions.toml [exec] rules as
+    // any other command.
+    const access = resolveExecAccess(command, ctx.conditions?.exec, ctx.session);
+    if (access === "deny") {
+      throw new ToolError(`Command '${command}' is not allowed in the current context.`);
+    }
+    if (access === "ask") {
+      await ctx.requestApproval("exec", `${command} (run-code kernel)`);
+    }
+
+    if (data.restart === true) {
+      await ctx.session.kernels.get(data.language)?.kill();
+    }
+
+    const { kernel, started } = await getKernel(ctx.session, data.language, {
+      exec: {
+        agentSlug: ctx.agentSlug,
+        backend: ctx.cfg.sandbox.backend,
+        binaries: bwrapBinaries,
+        command,
+        devices: ctx.cfg.sandbox.devices,
+        hostEnvPassthrough: runConfig.hostEnvPassthrough,
+        incus: ctx.cfg.sandbox.incus,
+        limits: ctx.cfg.sandbox.limits,
+        mounts: ctx.cfg.sandbox.mounts,
+        network: ctx.cfg.sandbox.network,
+        timeout: runConfig.timeout,
+      },
+      idleTimeout: runConfig.idleTimeout,
+    });
+    const cell = await kernel.run(data.code, runConfig.timeout);
+
+    let attached = 0;
+    for (const image of cell.images.slice(0, MAX_IMAGES_PER_CELL)) {
+      try {
+        // Copy out of Node's pooled Buffer so toWebp gets a standalone ArrayBuffer.
+        const webp = await toWebp(new Uint8Array(image.data).buffer, image.mediaType);
+        ctx.addImage(webp, "image/webp");
+        attached++;
+      } catch (error) {
+        warning(
+          { error: error instanceof Error ? error.message : String(error) },
+          "Failed to attach a run-code image",
+        );
+      }
+    }
+
+    const stdout = tail(cell.stdout);
+    const stderr = tail(cell.stderr);
+    const response: Record<string, unknown> = {
+      cell: kernel.cells,
+      kernelStarted: started,
+      stderr: stderr.text,
+      stdout: stdout.text,
+      success: cell.error === undefined,
+    };
+    if (stdout.truncated || stderr.truncated) {
+      response["truncated"] = true;
+      const baseName = `${new Date().toISOString().replaceAll(/[:.]/gu, "-")}-${data.language}-cell${kernel.cells}`;
+      const stdoutPath = stdout.truncated
+        ? await saveOutput(ctx, `${baseName}.out`, cell.stdout)
+        : undefined;
+      const stderrPath = stderr.truncated
+        ? await saveOutput(ctx, `${baseName}.err`, cell.stderr)
+        : undefined;
+      if (stdoutPath !== undefined) {
+        response["stdoutPath"] = stdoutPath;
+      }
+      if (stderrPath !== undefined) {
+        response["stderrPath"] = stderrPath;
+      }
+    }
+    if (cell.result !== undefined) {
+      response["result"] = cell.result;
+    }
+    if (cell.displayed.length > 0) {
+      response["displayed"] = cell.displayed;
+    }
+    if (cell.error !== undefined) {
+      response["error"] = cell.error;
+    }
+    if (cell.images.length > 0) {
+      response["images"] = attached;
+      if (cell.images.length > MAX_IMAGES_PER_CELL) {
+        response["imagesDropped"] = cell.images.length - MAX_IMAGES_PER_CELL;
+      }
+    }
+    return response;
+  },
+  name: "run-code",
+  parameters: Schema,
+};
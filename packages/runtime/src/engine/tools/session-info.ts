@@ -2,7 +2,15 @@ import * as vb from "valibot";
 
 import { ToolError } from "#engine/errors.js";
 import type { ToolContext, ToolDef } from "#engine/tools/tool-def.js";
-import { DiscordSession, InternalSession, MatrixSession, TuiSession } from "#harness/session.js";
+import { queueDepth } from "#harness/queue.js";
+import {
+  ApiSession,
+  DiscordSession,
+  InternalSession,
+  MatrixSession,
+  PluginSession,
+  TuiSession,
+} from "#harness/session.js";
 
 // No input parameters needed — this just returns session context.
 const Schema = vb.strictObject({});
@@ -11,15 +19,23 @@ export const sessionInfo: ToolDef = {
   description:
     "Get information about the current session context.\n\n" +
     "Returns:\n" +
-    '- `platform`: The platform type ("discord", "tui", or "internal")\n' +
+    '- `platform`: The platform type ("discord", "matrix", "api", "plugin", "tui", or "internal")\n' +
     "- `channel_id` (Discord only): The Discord channel ID\n" +
     "- `guild_id` (Discord only, optional): The Discord guild/server ID (undefined for DMs)\n" +
     "- `parent_channel_id` (Discord only, optional): The parent channel ID for threads/forum posts\n" +
-    "- `is_nsfw` (Discord only): Whether the channel is marked NSFW\n\n" +
+    "- `is_nsfw` (Discord only): Whether the channel is marked NSFW\n" +
+    "- `room_id` (Matrix only): The Matrix room ID\n" +
+    "- `session_name` (API only): The name clients use to address this session\n" +
+    "- `channel_name` (plugin only): The plugin channel, e.g. `slack`\n" +
+    "- `conversation_id` (plugin only): The conversation's ID on that channel\n" +
+    "- `is_direct` (Matrix and plugin only): Whether the conversation is one-on-one\n" +
+    "- `queued`: Work waiting for this session after the current turn, counted by kind " +
+    "(`message`, `heartbeat`, `cron`). Messages queued together are answered in one turn\n\n" +
     "Use this to get the IDs needed for other platform-specific operations.",
   // oxlint-disable-next-line typescript/require-await
   async execute(_input: unknown, ctx: ToolContext): Promise<Record<string, unknown>> {
     const { session } = ctx;
+    const queued = queueDepth(session);
 
     if (session instanceof DiscordSession) {
       return {
@@ -28,6 +44,7 @@ export const sessionInfo: ToolDef = {
         is_nsfw: session.isNsfw,
         parent_channel_id: session.parentChannelId,
         platform: "discord",
+        queued,
         session_id: session.id(),
         success: true,
       };
@@ -35,16 +52,41 @@ export const sessionInfo: ToolDef = {
 
     if (session instanceof MatrixSession) {
       return {
+        is_direct: session.isDirect,
         platform: "matrix",
+        queued,
         room_id: session.roomId,
         session_id: session.id(),
         success: true,
       };
     }
 
+    if (session instanceof ApiSession) {
+      return {
+        platform: "api",
+        queued,
+        session_id: session.id(),
+        session_name: session.name,
+        success: true,
+      };
+    }
+
+    if (session instanceof PluginSession) {
+      return {
+        channel_name: session.pluginChannel,
+        conversation_id: session.conversationId,
+        is_direct: session.isDirect,
+        platform: "plugin",
+        queued,
+        session_id: session.id(),
+        success: true,
+      };
+    }
+
     if (session instanceof TuiSession) {
       return {
         platform: "tui",
+        queued,
         session_id: session.id(),
         success: true,
       };
@@ -53,6 +95,7 @@ export const sessionInfo: ToolDef = {
     if (session instanceof InternalSession) {
       return {
         platform: "internal",
+        queued,
         session_id: session.id(),
         success: true,
       };
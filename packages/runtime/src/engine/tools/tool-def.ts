@@ -2,7 +2,8 @@ import type { PluginToolContext, Tool } from "@cireilclaw/sdk";
 
 import type { ConditionsConfig } from "#config/schemas/conditions.js";
 import type { SandboxConfig } from "#config/schemas/sandbox.js";
-import type { ExecToolConfig } from "#config/schemas/tools.js";
+import type { ExecToolConfig, RunCodeToolConfig } from "#config/schemas/tools.js";
+import type { ApprovalKind } from "#db/approvals.js";
 import type { Database } from "#db/index.js";
 import type { HistoryDirection, HistoryMessage } from "#harness/channel-handler.js";
 import type { Session } from "#harness/session.js";
@@ -14,6 +15,7 @@ interface InternalToolContext extends PluginToolContext {
   conditions?: ConditionsConfig;
   cfg: PluginToolContext["cfg"] & {
     exec: ExecToolConfig | false;
+    runCode: RunCodeToolConfig | false;
     sandbox: SandboxConfig;
   };
   reply: PluginToolContext["reply"] & {
@@ -37,6 +39,9 @@ interface InternalToolContext extends PluginToolContext {
     ): Promise<HistoryMessage[]>;
   };
   scheduler?: Scheduler;
+  // Asks the owner before something an "ask" rule covers, and throws a
+  // ToolError unless they approve. Callers check the rules first.
+  requestApproval(this: void, kind: ApprovalKind, subject: string): Promise<void>;
 }
 
 interface ToolDef extends Tool {
@@ -1,3 +1,4 @@
+import type { ApprovalKind } from "#db/approvals.js";
 import type { Session } from "#harness/session.js";
 
 interface ChannelCapabilities {
@@ -20,6 +21,22 @@ interface HistoryMessage {
 
 type HistoryDirection = "after" | "around" | "before";
 
+// Something an "ask" rule stopped, waiting for the owner's answer.
+interface ApprovalRequest {
+  id: string;
+  agentSlug: string;
+  session: Session;
+  kind: ApprovalKind;
+  // The sandbox path to be written, or the command line to be run.
+  subject: string;
+}
+
+interface ApprovalAnswer {
+  approved: boolean;
+  // Who answered, for the audit record.
+  by: string;
+}
+
 interface ChannelHandler {
   readonly capabilities: ChannelCapabilities;
   downloadAttachments?(
@@ -33,6 +50,13 @@ interface ChannelHandler {
     limit?: number,
   ): Promise<HistoryMessage[]>;
   react?(session: Session, emoji: string, messageId?: string): Promise<void>;
+  // Asks the owner to approve `request`. Rejects, and withdraws the question,
+  // once `signal` aborts.
+  requestApproval?(request: ApprovalRequest, signal: AbortSignal): Promise<ApprovalAnswer>;
+  // Live preview of a `respond` still being generated, called with the full
+  // text so far (not a delta). The eventual `send` for that respond is the
+  // real message; handlers that show previews should replace it there.
+  sendPartial?(session: Session, content: string): Promise<void>;
   send(session: Session, content: string, attachments?: string[], flags?: number): Promise<void>;
   resolveChannel?(
     spec: string,
@@ -53,6 +77,8 @@ const MINIMAL_HANDLER: ChannelHandler = {
 };
 
 export {
+  type ApprovalAnswer,
+  type ApprovalRequest,
   type ChannelCapabilities,
   type ChannelHandler,
   type ChannelResolution,
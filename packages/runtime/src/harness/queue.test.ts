@@ -0,0 +1,135 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { enqueue, queueDepth } from "#harness/queue.js";
+import type { QueuedMessage } from "#harness/queue.js";
+import { InternalSession } from "#harness/session.js";
+
+// A message whose stage pushes `text` into history and whose turn records the
+// whole history it saw, so tests can tell which messages shared a turn.
+function message(
+  session: InternalSession,
+  text: string,
+  turns: { rollback: number; seen: string[] }[],
+): QueuedMessage {
+  return {
+    kind: "message",
+    // oxlint-disable-next-line typescript/require-await
+    stage: async (): Promise<number> => {
+      const before = session.history.length;
+      session.history.push({ content: { content: text, type: "text" }, role: "user" });
+      return before;
+    },
+    // oxlint-disable-next-line typescript/require-await
+    turn: async (historyLengthBeforeTurn): Promise<void> => {
+      turns.push({
+        rollback: historyLengthBeforeTurn,
+        seen: session.history.map((entry) =>
+          !Array.isArray(entry.content) && entry.content.type === "text"
+            ? entry.content.content
+            : "?",
+        ),
+      });
+    },
+  };
+}
+
+function noop(): () => Promise<void> {
+  return vi.fn<() => Promise<void>>().mockResolvedValue(undefined);
+}
+
+describe("enqueue", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("answers messages that arrive during a turn together in the next turn", async () => {
+    const session = new InternalSession("queue");
+    const turns: { rollback: number; seen: string[] }[] = [];
+    const order: string[] = [];
+
+    const heartbeat = enqueue(session, {
+      kind: "heartbeat",
+      // oxlint-disable-next-line typescript/require-await
+      run: async (): Promise<void> => {
+        order.push("heartbeat");
+        expect(session.busy).toBe(true);
+      },
+    });
+    const first = enqueue(session, message(session, "one", turns));
+    const second = enqueue(session, message(session, "two", turns));
+    expect(queueDepth(session)).toEqual({ cron: 0, heartbeat: 0, message: 2 });
+
+    await Promise.all([heartbeat, first, second]);
+
+    expect(order).toEqual(["heartbeat"]);
+    expect(turns).toEqual([{ rollback: 0, seen: ["one", "two"] }]);
+    expect(session.busy).toBe(false);
+  });
+
+  it("keeps messages on either side of scheduled work in separate turns", async () => {
+    const session = new InternalSession("queue");
+    const turns: { rollback: number; seen: string[] }[] = [];
+
+    await Promise.all([
+      enqueue(session, message(session, "one", turns)),
+      enqueue(session, { kind: "cron", run: noop() }),
+      enqueue(session, message(session, "two", turns)),
+    ]);
+
+    expect(turns).toEqual([
+      { rollback: 0, seen: ["one"] },
+      { rollback: 1, seen: ["one", "two"] },
+    ]);
+  });
+
+  it("waits for a session held busy outside the queue", async () => {
+    vi.useFakeTimers();
+    const session = new InternalSession("queue");
+    session.busy = true;
+    const run = noop();
+
+    const done = enqueue(session, { kind: "cron", run });
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(run).not.toHaveBeenCalled();
+    expect(queueDepth(session).cron).toBe(1);
+
+    session.busy = false;
+    await vi.advanceTimersByTimeAsync(1000);
+    await done;
+    expect(run).toHaveBeenCalledOnce();
+  });
+
+  it("rejects only the message that failed to stage", async () => {
+    const session = new InternalSession("queue");
+    const turns: { rollback: number; seen: string[] }[] = [];
+
+    const broken = enqueue(session, {
+      kind: "message",
+      stage: vi.fn<() => Promise<number>>().mockRejectedValue(new Error("bad attachment")),
+      turn: noop(),
+    });
+    const fine = enqueue(session, message(session, "ok", turns));
+
+    await expect(broken).rejects.toThrow("bad attachment");
+    await expect(fine).resolves.toBeUndefined();
+    expect(turns).toEqual([{ rollback: 0, seen: ["ok"] }]);
+  });
+
+  it("surfaces turn failures to every message in the batch", async () => {
+    const session = new InternalSession("queue");
+    const failing: QueuedMessage = {
+      ...message(session, "two", []),
+      turn: vi.fn<() => Promise<void>>().mockRejectedValue(new Error("provider down")),
+    };
+
+    // The cron job holds the session so both messages queue up behind it.
+    const results = await Promise.allSettled([
+      enqueue(session, { kind: "cron", run: noop() }),
+      enqueue(session, message(session, "one", [])),
+      enqueue(session, failing),
+    ]);
+
+    expect(results.map((result) => result.status)).toEqual(["fulfilled", "rejected", "rejected"]);
+    expect(session.busy).toBe(false);
+  });
+});
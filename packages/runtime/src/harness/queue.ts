@@ -0,0 +1,173 @@
+import { setTimeout as sleep } from "node:timers/promises";
+
+import type { Session } from "#harness/session.js";
+import colors from "#output/colors.js";
+import { warning } from "#output/log.js";
+
+// How often a non-empty queue re-checks a session that something outside the
+// queue (a slash command like /reroll) has marked busy.
+const BUSY_POLL_MS = 250;
+
+interface QueuedMessage {
+  readonly kind: "message";
+  /**
+   * Adds the message to session history. Runs just before the turn that
+   * answers it, never while another turn is running. Resolves with the history
+   * length right before the message was pushed, the rollback point if the
+   * turn fails.
+   */
+  stage(this: void): Promise<number>;
+  /**
+   * Runs one turn. Consecutive queued messages share a turn: all of them are
+   * staged, then only the last one's `turn` runs, with the rollback point of
+   * the first.
+   */
+  turn(this: void, historyLengthBeforeTurn: number): Promise<void>;
+}
+
+interface QueuedScheduledTurn {
+  readonly kind: "cron" | "heartbeat";
+  run(this: void): Promise<void>;
+}
+
+type QueuedWork = QueuedMessage | QueuedScheduledTurn;
+type QueuedKind = QueuedWork["kind"];
+
+interface PendingEntry<Work extends QueuedWork = QueuedWork> {
+  reject(this: void, reason: unknown): void;
+  resolve(this: void): void;
+  work: Work;
+}
+
+interface SessionQueue {
+  draining: boolean;
+  pending: PendingEntry[];
+}
+
+// Keyed by session object so the queue never outlives the session it orders
+// and test doubles need no extra fields.
+const queues = new WeakMap<Session, SessionQueue>();
+
+function isMessageEntry(entry: PendingEntry): entry is PendingEntry<QueuedMessage> {
+  return entry.work.kind === "message";
+}
+
+// Removes the run of message entries at the head of the queue.
+function takeMessages(pending: PendingEntry[]): PendingEntry<QueuedMessage>[] {
+  const batch: PendingEntry<QueuedMessage>[] = [];
+  let [head] = pending;
+  while (head !== undefined && isMessageEntry(head)) {
+    batch.push(head);
+    pending.shift();
+    [head] = pending;
+  }
+  return batch;
+}
+
+async function runMessages(session: Session, batch: PendingEntry<QueuedMessage>[]): Promise<void> {
+  const staged: PendingEntry<QueuedMessage>[] = [];
+  let historyLengthBeforeTurn: number | undefined = undefined;
+
+  for (const entry of batch) {
+    try {
+      const rollbackPoint = await entry.work.stage();
+      historyLengthBeforeTurn ??= rollbackPoint;
+      staged.push(entry);
+    } catch (error: unknown) {
+      warning(
+        "Queue: failed to stage a message for",
+        colors.keyword(session.id()),
+        error instanceof Error ? error.message : String(error),
+      );
+      entry.reject(error);
+    }
+  }
+
+  const last = staged.at(-1);
+  if (last === undefined || historyLengthBeforeTurn === undefined) {
+    return;
+  }
+
+  try {
+    await last.work.turn(historyLengthBeforeTurn);
+    for (const entry of staged) {
+      entry.resolve();
+    }
+  } catch (error: unknown) {
+    for (const entry of staged) {
+      entry.reject(error);
+    }
+  }
+}
+
+async function drain(session: Session, queue: SessionQueue): Promise<void> {
+  while (queue.pending.length > 0) {
+    while (session.busy) {
+      await sleep(BUSY_POLL_MS);
+    }
+
+    // Everything from here to the first await is synchronous, so no other
+    // writer can slip in between the busy check and claiming the session.
+    const [head] = queue.pending;
+    if (head === undefined) {
+      break;
+    }
+    session.busy = true;
+    try {
+      const { work } = head;
+      if (work.kind === "message") {
+        await runMessages(session, takeMessages(queue.pending));
+      } else {
+        queue.pending.shift();
+        try {
+          await work.run();
+          head.resolve();
+        } catch (error: unknown) {
+          head.reject(error);
+        }
+      }
+    } finally {
+      session.busy = false;
+    }
+  }
+  queue.draining = false;
+}
+
+/**
+ * Queues work for a session and resolves once it has run (for a message, once
+ * the turn it was coalesced into has finished). Work runs one item at a time
+ * in arrival order; nothing is dropped because the session happened to be
+ * busy when it arrived.
+ */
+async function enqueue(session: Session, work: QueuedWork): Promise<void> {
+  let queue = queues.get(session);
+  if (queue === undefined) {
+    queue = { draining: false, pending: [] };
+    queues.set(session, queue);
+  }
+
+  const done = new Promise<void>((resolve, reject) => {
+    queue.pending.push({ reject, resolve, work });
+  });
+
+  if (!queue.draining) {
+    queue.draining = true;
+    // drain() settles every entry itself; callers observe results through `done`.
+    // oxlint-disable-next-line typescript/no-floating-promises
+    drain(session, queue);
+  }
+
+  await done;
+}
+
+// Pending work per kind, not counting whatever is running right now.
+function queueDepth(session: Session): Record<QueuedKind, number> {
+  const depth: Record<QueuedKind, number> = { cron: 0, heartbeat: 0, message: 0 };
+  for (const entry of queues.get(session)?.pending ?? []) {
+    depth[entry.work.kind]++;
+  }
+  return depth;
+}
+
+export { enqueue, queueDepth };
+export type { QueuedMessage, QueuedScheduledTurn, QueuedWork };
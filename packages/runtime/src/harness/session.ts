@@ -1,6 +1,10 @@
+import type { ApiEvent } from "#channels/api/protocol.js";
 import type { TuiBridge } from "#channels/tui/bridge.js";
 import type { ImageContent, VideoContent } from "#engine/content.js";
+import type { BackgroundJob } from "#engine/jobs.js";
+import type { CodeKernel, KernelLanguage } from "#engine/kernels/index.js";
 import type { Message } from "#engine/message.js";
+import type { HistoryMessage } from "#harness/channel-handler.js";
 
 interface Summary {
   id: number;
@@ -13,8 +17,8 @@ interface Summary {
   createdAt: number;
 }
 
-const channelTypes = ["discord", "internal", "tui"] as const;
-type ChannelType = (typeof channelTypes)[number] | "matrix";
+const channelTypes = ["api", "discord", "internal", "matrix", "plugin", "tui"] as const;
+type ChannelType = (typeof channelTypes)[number];
 
 // Canonical session ID for a Discord channel. Must match the format parsed by
 // Agent.resolveTarget ("discord:{channelId}|{guildId}"). Normalizes null so
@@ -24,12 +28,33 @@ function discordSessionId(channelId: string, guildId?: string | null): string {
   return gid === undefined ? `discord:${channelId}` : `discord:${channelId}|${gid}`;
 }
 
+// Canonical session ID for a Matrix room. Room IDs already contain a colon
+// ("!opaque:server"), so Agent.resolveTarget only strips the "matrix:" prefix.
+function matrixSessionId(roomId: string): string {
+  return `matrix:${roomId}`;
+}
+
+// Canonical session ID for a named API session. Names are restricted to
+// [A-Za-z0-9._-], so the ID never needs escaping in URLs or conditions.
+function apiSessionId(name: string): string {
+  return `api:${name}`;
+}
+
+// Canonical session ID for a conversation on a plugin channel, like
+// "slack:C0123". Channel names never collide with the builtin prefixes.
+function pluginSessionId(pluginChannel: string, conversationId: string): string {
+  return `${pluginChannel}:${conversationId}`;
+}
+
 abstract class BaseSession {
   public abstract readonly channel: ChannelType;
   public readonly ephemeral: boolean = false;
 
   public selectedModel?: string;
   public selectedProvider?: string;
+  // The provider and model that produced the latest generation. Differs from
+  // the selection when the turn failed over to a fallback.
+  public answeredBy?: { provider: string; model: string };
 
   public history: Message[] = new Array<Message>();
   // Pruning advances the cursor instead of mutating history, so tools like
@@ -41,6 +66,10 @@ abstract class BaseSession {
   public pendingToolMessages: Message[] = new Array<Message>();
   public pendingImages: ImageContent[] = new Array<ImageContent>();
   public pendingVideos: VideoContent[] = new Array<VideoContent>();
+  // Background exec jobs by ID, including finished ones the agent may still poll.
+  public jobs = new Map<string, BackgroundJob>();
+  // run-code interpreters, one per language, kept alive between calls.
+  public kernels = new Map<KernelLanguage, CodeKernel>();
 
   public busy = false;
   public stopRequested = false;
@@ -72,6 +101,16 @@ abstract class BaseSession {
     this.lastContextWarningCursor = undefined;
     this.stopRequested = false;
     this.lastSentMessageIds = undefined;
+    for (const job of this.jobs.values()) {
+      // oxlint-disable-next-line promise/prefer-await-to-then -- reset() is synchronous; the kill finishes on its own.
+      job.kill().catch(() => undefined);
+    }
+    this.jobs = new Map();
+    for (const kernel of this.kernels.values()) {
+      // oxlint-disable-next-line promise/prefer-await-to-then -- reset() is synchronous; the kill finishes on its own.
+      kernel.kill().catch(() => undefined);
+    }
+    this.kernels = new Map();
   }
 }
 
@@ -85,6 +124,8 @@ class DiscordSession extends BaseSession {
 
   public typingInterval?: NodeJS.Timeout = undefined;
   public lastMessageId?: string = undefined;
+  // The in-progress preview of a streamed reply; the final send edits it in place.
+  public partialMessageId?: string = undefined;
 
   public constructor(opts: {
     channelId: string;
@@ -113,14 +154,84 @@ class MatrixSession extends BaseSession {
   public override readonly channel = "matrix";
 
   public readonly roomId: string;
+  // Two-member rooms are treated like Discord DMs for access and conditions.
+  public isDirect: boolean;
 
-  public constructor(roomId: string) {
+  public typingInterval?: NodeJS.Timeout = undefined;
+  public lastEventId?: string = undefined;
+
+  public constructor(opts: {
+    roomId: string;
+    isDirect?: boolean;
+    selectedProvider?: string;
+    selectedModel?: string;
+  }) {
     super();
-    this.roomId = roomId;
+    this.roomId = opts.roomId;
+    this.isDirect = opts.isDirect ?? false;
+    this.selectedProvider = opts.selectedProvider;
+    this.selectedModel = opts.selectedModel;
+  }
+
+  public override id(): string {
+    return matrixSessionId(this.roomId);
+  }
+}
+
+class ApiSession extends BaseSession {
+  public override readonly channel = "api";
+
+  public readonly name: string;
+
+  // Runtime-only state backing the API's event replay, history lookups and
+  // attachment downloads. None of it is persisted; a restart starts it fresh.
+  public readonly events: ApiEvent[] = [];
+  public nextEventSeq = 1;
+  public readonly transcript: HistoryMessage[] = [];
+  public readonly attachments = new Map<string, { filename: string; data: Buffer }[]>();
+  // IDs of the user messages staged for the turn that is about to run.
+  public stagedMessageIds: string[] = [];
+  public lastMessageId?: string = undefined;
+
+  public constructor(opts: { name: string; selectedProvider?: string; selectedModel?: string }) {
+    super();
+    this.name = opts.name;
+    this.selectedProvider = opts.selectedProvider;
+    this.selectedModel = opts.selectedModel;
+  }
+
+  public override id(): string {
+    return apiSessionId(this.name);
+  }
+}
+
+class PluginSession extends BaseSession {
+  public override readonly channel = "plugin";
+
+  // The channel's name, as the plugin registered it.
+  public readonly pluginChannel: string;
+  public readonly conversationId: string;
+  public isDirect: boolean;
+
+  public lastMessageId?: string = undefined;
+
+  public constructor(opts: {
+    pluginChannel: string;
+    conversationId: string;
+    isDirect?: boolean;
+    selectedProvider?: string;
+    selectedModel?: string;
+  }) {
+    super();
+    this.pluginChannel = opts.pluginChannel;
+    this.conversationId = opts.conversationId;
+    this.isDirect = opts.isDirect ?? false;
+    this.selectedProvider = opts.selectedProvider;
+    this.selectedModel = opts.selectedModel;
   }
 
   public override id(): string {
-    return `matrix:${this.roomId}`;
+    return pluginSessionId(this.pluginChannel, this.conversationId);
   }
 }
 
@@ -171,15 +282,27 @@ class TuiSession extends BaseSession {
   }
 }
 
-type Session = DiscordSession | MatrixSession | InternalSession | NamedInternalSession | TuiSession;
+type Session =
+  | ApiSession
+  | DiscordSession
+  | MatrixSession
+  | PluginSession
+  | InternalSession
+  | NamedInternalSession
+  | TuiSession;
 
 export {
+  ApiSession,
   DiscordSession,
   MatrixSession,
   InternalSession,
   NamedInternalSession,
+  PluginSession,
   TuiSession,
   channelTypes as channelTypeList,
+  apiSessionId,
   discordSessionId,
+  matrixSessionId,
+  pluginSessionId,
 };
 export type { Session, ChannelType, Summary };
@@ -0,0 +1,166 @@
+import { ToolError } from "@cireilclaw/sdk";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { isHostDeclared, mediatedFetch, resolveAccess } from "#plugin/capabilities.js";
+
+// Answers each request with the next of `responses`; the last repeats.
+function stubFetch(...responses: Response[]): ReturnType<typeof vi.fn> {
+  const fetchMock = vi.fn(
+    async (_request: Request) =>
+      await Promise.resolve(responses.shift() ?? new Response("ok", { status: 200 })),
+  );
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+}
+
+function redirectTo(location: string, status = 302): Response {
+  return new Response(undefined, { headers: { location }, status });
+}
+
+// `<method> <url>` of each request made.
+function requestsMade(fetchMock: ReturnType<typeof vi.fn>): string[] {
+  return fetchMock.mock.calls.map(([request]) =>
+    request instanceof Request ? `${request.method} ${request.url}` : "",
+  );
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("resolveAccess", () => {
+  it("keeps only capabilities that are both declared and granted", () => {
+    expect(
+      resolveAccess(
+        { fsRead: true, hostKeys: true, net: ["api.example.com"], send: true },
+        { fsRead: "ask", fsWrite: true, hostKeys: false, net: true },
+      ),
+    ).toStrictEqual({ fsRead: "ask", net: "allow" });
+  });
+
+  it("denies everything without a grant for the agent", () => {
+    expect(resolveAccess({ fsRead: true, net: ["api.example.com"] }, undefined)).toStrictEqual({});
+  });
+
+  it("treats an empty host list as no net capability", () => {
+    expect(resolveAccess({ net: [] }, { net: true })).toStrictEqual({});
+  });
+});
+
+describe("isHostDeclared", () => {
+  it("matches exact hosts and wildcard subdomains, ignoring case", () => {
+    const hosts = ["api.example.com", "*.cdn.example.org"];
+
+    expect(isHostDeclared(hosts, "API.example.com")).toBe(true);
+    expect(isHostDeclared(hosts, "cdn.example.org")).toBe(true);
+    expect(isHostDeclared(hosts, "img.cdn.example.org")).toBe(true);
+    expect(isHostDeclared(hosts, "example.com")).toBe(false);
+    expect(isHostDeclared(hosts, "evilcdn.example.org")).toBe(false);
+  });
+});
+
+describe("mediatedFetch", () => {
+  const declared = { net: ["api.example.com"] };
+  const ask = vi.fn(async () => {
+    await Promise.resolve();
+  });
+
+  it("fetches from declared hosts once granted", async () => {
+    const fetchMock = stubFetch();
+    const fetcher = mediatedFetch({ access: { net: "allow" }, ask, declared, pluginId: "p" });
+
+    await fetcher("https://api.example.com/search?q=1");
+
+    expect(fetchMock).toHaveBeenCalledOnce();
+    expect(ask).not.toHaveBeenCalled();
+  });
+
+  it("refuses undeclared hosts and ungranted access with a ToolError", async () => {
+    const fetchMock = stubFetch();
+    const granted = mediatedFetch({ access: { net: "allow" }, ask, declared, pluginId: "p" });
+    const ungranted = mediatedFetch({ access: {}, ask, declared, pluginId: "p" });
+
+    await expect(granted("https://other.example.com/")).rejects.toThrow(
+      "Plugin p didn't declare network access to other.example.com.",
+    );
+    await expect(ungranted("https://api.example.com/")).rejects.toBeInstanceOf(ToolError);
+    await expect(ungranted("https://api.example.com/")).rejects.toThrow(
+      "hasn't been granted the net capability",
+    );
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("asks before fetching when the grant is ask", async () => {
+    const fetchMock = stubFetch();
+    const denying = vi.fn(async () => await Promise.reject(new ToolError("The owner denied it.")));
+    const fetcher = mediatedFetch({
+      access: { net: "ask" },
+      ask: denying,
+      declared,
+      pluginId: "p",
+    });
+
+    await expect(fetcher(new URL("https://api.example.com/"))).rejects.toThrow("denied");
+    expect(denying).toHaveBeenCalledWith("api.example.com");
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("refuses a redirect off the declared hosts before following it", async () => {
+    const fetchMock = stubFetch(redirectTo("https://elsewhere.example.net/"));
+    const fetcher = mediatedFetch({ access: { net: "allow" }, ask, declared, pluginId: "p" });
+
+    await expect(fetcher("https://api.example.com/")).rejects.toThrow(
+      "didn't declare network access to elsewhere.example.net",
+    );
+    expect(requestsMade(fetchMock)).toStrictEqual(["GET https://api.example.com/"]);
+  });
+
+  it("follows redirects between declared hosts, asking for each", async () => {
+    const fetchMock = stubFetch(
+      redirectTo("/v2/search", 307),
+      redirectTo("https://cdn.example.com/result", 303),
+    );
+    const asked = vi.fn(async () => {
+      await Promise.resolve();
+    });
+    const fetcher = mediatedFetch({
+      access: { net: "ask" },
+      ask: asked,
+      declared: { net: ["api.example.com", "cdn.example.com"] },
+      pluginId: "p",
+    });
+
+    const response = await fetcher("https://api.example.com/search", {
+      body: "q=1",
+      headers: { authorization: "Bearer key" },
+      method: "POST",
+    });
+
+    expect(response.status).toBe(200);
+    // The 307 keeps the POST, the 303 turns it into a GET.
+    expect(requestsMade(fetchMock)).toStrictEqual([
+      "POST https://api.example.com/search",
+      "POST https://api.example.com/v2/search",
+      "GET https://cdn.example.com/result",
+    ]);
+    expect(asked.mock.calls).toStrictEqual([
+      ["api.example.com"],
+      ["api.example.com"],
+      ["cdn.example.com"],
+    ]);
+    const [first, second, last] = fetchMock.mock.calls.map(([request]): unknown => request);
+    expect(first instanceof Request && first.headers.has("authorization")).toBe(true);
+    await expect(second instanceof Request ? second.text() : undefined).resolves.toBe("q=1");
+    expect(last instanceof Request && last.headers.has("authorization")).toBe(false);
+  });
+
+  it("gives up after too many redirects", async () => {
+    const fetchMock = stubFetch(
+      ...Array.from({ length: 25 }, () => redirectTo("https://api.example.com/again")),
+    );
+    const fetcher = mediatedFetch({ access: { net: "allow" }, ask, declared, pluginId: "p" });
+
+    await expect(fetcher("https://api.example.com/")).rejects.toThrow("redirected too many times");
+    expect(fetchMock).toHaveBeenCalledTimes(21);
+  });
+});
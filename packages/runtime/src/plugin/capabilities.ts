@@ -0,0 +1,179 @@
+import { ToolError } from "@cireilclaw/sdk";
+import type { PluginCapabilities } from "@cireilclaw/sdk";
+
+import type { PluginGrant } from "#config/schemas/plugins.js";
+
+// Shared by worker-main.ts and the loader, so it depends on nothing but the
+// SDK.
+
+type CapabilityName = keyof PluginCapabilities;
+
+const CAPABILITY_NAMES: readonly CapabilityName[] = [
+  "fsRead",
+  "fsWrite",
+  "hostKeys",
+  "net",
+  "send",
+];
+
+// What a tool invocation may use: "allow" outright, "ask" the owner first.
+// Capabilities that aren't both declared and granted are left out.
+type CapabilityAccess = Partial<Record<CapabilityName, "allow" | "ask">>;
+
+function isDeclared(declared: PluginCapabilities, name: CapabilityName): boolean {
+  return name === "net" ? (declared.net ?? []).length > 0 : declared[name] === true;
+}
+
+function resolveAccess(
+  declared: PluginCapabilities,
+  grant: PluginGrant | undefined,
+): CapabilityAccess {
+  const access: CapabilityAccess = {};
+  for (const name of CAPABILITY_NAMES) {
+    const granted = grant?.[name];
+    if (!isDeclared(declared, name) || granted === undefined || granted === false) {
+      continue;
+    }
+    access[name] = granted === "ask" ? "ask" : "allow";
+  }
+  return access;
+}
+
+// Whether `hostname` is one of the declared hosts. "*.example.com" matches
+// example.com and its subdomains; hostnames compare case-insensitively.
+function isHostDeclared(patterns: readonly string[], hostname: string): boolean {
+  const host = hostname.toLowerCase();
+  return patterns.some((pattern) => {
+    const lower = pattern.toLowerCase();
+    if (!lower.startsWith("*.")) {
+      return host === lower;
+    }
+    const base = lower.slice(2);
+    return host === base || host.endsWith(`.${base}`);
+  });
+}
+
+// The error a plugin's tool gets for using a capability it can't.
+function deniedError(
+  pluginId: string,
+  declared: PluginCapabilities,
+  name: CapabilityName,
+): ToolError {
+  if (!isDeclared(declared, name)) {
+    return new ToolError(
+      `Plugin ${pluginId} didn't declare the ${name} capability.`,
+      "The plugin needs an update to declare it. Tell the user; retrying won't help.",
+    );
+  }
+  return new ToolError(
+    `Plugin ${pluginId} hasn't been granted the ${name} capability for this agent.`,
+    "The operator can grant it under [plugins.grants.<agent>] in plugins.toml. Tell the user; retrying won't help.",
+  );
+}
+
+// Same cap as fetch's own.
+const MAX_REDIRECTS = 20;
+
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+
+// Headers fetch drops when a redirect leaves the origin.
+const CROSS_ORIGIN_HEADERS = ["authorization", "cookie", "proxy-authorization"];
+
+// The request fetch would make for a redirect to `location`: 303s, and 301s
+// and 302s of a POST, become a bodyless GET. `replay` is the original request
+// with its body still unread.
+function redirectRequest(replay: Request, status: number, location: URL): Request {
+  const headers = new Headers(replay.headers);
+  if (location.origin !== new URL(replay.url).origin) {
+    for (const name of CROSS_ORIGIN_HEADERS) {
+      headers.delete(name);
+    }
+  }
+  const toGet =
+    (status === 303 && replay.method !== "HEAD") ||
+    ((status === 301 || status === 302) && replay.method === "POST");
+  if (!toGet) {
+    return new Request(location, {
+      body: replay.body,
+      duplex: "half",
+      headers,
+      method: replay.method,
+      redirect: "manual",
+      signal: replay.signal,
+    });
+  }
+  for (const name of ["content-encoding", "content-language", "content-location", "content-type"]) {
+    headers.delete(name);
+  }
+  return new Request(location, {
+    headers,
+    method: "GET",
+    redirect: "manual",
+    signal: replay.signal,
+  });
+}
+
+/**
+ * The `ctx.net.fetch` a plugin's tool gets: requests to hosts the plugin
+ * didn't declare are refused, and `ask` runs before the first request to
+ * each host when the grant is "ask". Redirects are followed here, one hop at
+ * a time, so every hop is checked before it's requested.
+ */
+function mediatedFetch(opts: {
+  pluginId: string;
+  declared: PluginCapabilities;
+  access: CapabilityAccess;
+  ask(this: void, hostname: string): Promise<void>;
+}): typeof fetch {
+  const { access, ask, declared, pluginId } = opts;
+  const hosts = declared.net ?? [];
+
+  function checkHost(hostname: string): void {
+    if (!isHostDeclared(hosts, hostname)) {
+      throw new ToolError(
+        `Plugin ${pluginId} didn't declare network access to ${hostname}.`,
+        "The plugin needs an update to declare the host. Tell the user; retrying won't help.",
+      );
+    }
+  }
+
+  return async (input, init): Promise<Response> => {
+    const grant = access.net;
+    if (grant === undefined) {
+      throw deniedError(pluginId, declared, "net");
+    }
+    async function checkHop(url: URL): Promise<void> {
+      checkHost(url.hostname);
+      if (grant === "ask") {
+        await ask(url.hostname);
+      }
+    }
+
+    let request = new Request(input, init);
+    await checkHop(new URL(request.url));
+    // "manual" and "error" never leave the first host.
+    if (request.redirect !== "follow") {
+      return await globalThis.fetch(request);
+    }
+    request = new Request(request, { redirect: "manual" });
+    for (let hops = 0; ; hops++) {
+      // A 307 or 308 sends the body again, so keep an unread copy.
+      const replay = request.body === null ? request : request.clone();
+      const response = await globalThis.fetch(request);
+      const location = response.headers.get("location");
+      if (!REDIRECT_STATUSES.has(response.status) || location === null) {
+        return response;
+      }
+      await response.body?.cancel();
+      if (hops >= MAX_REDIRECTS) {
+        throw new ToolError(`Plugin ${pluginId}'s request was redirected too many times.`);
+      }
+      const next = new URL(location, request.url);
+      await checkHop(next);
+      request = redirectRequest(replay, response.status, next);
+    }
+  };
+}
+
+export { CAPABILITY_NAMES, deniedError, isDeclared, isHostDeclared, mediatedFetch, resolveAccess };
+export type { CapabilityAccess, CapabilityName };
@@ -0,0 +1,183 @@
+import type { ToolCallHookEvent } from "@cireilclaw/sdk";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { warning } from "#output/log.js";
+import {
+  isHookName,
+  registerHookTarget,
+  runToolCallHooks,
+  runToolResultHooks,
+  runTurnEndHooks,
+  runTurnStartHooks,
+  runUnloadHook,
+  unregisterHookTarget,
+} from "#plugin/hooks.js";
+import type { HookName, HookTarget } from "#plugin/hooks.js";
+
+vi.mock("#output/log.js", () => ({ warning: vi.fn() }));
+
+const targets: HookTarget[] = [];
+
+function makeTarget(
+  id: string,
+  hooks: Partial<Record<HookName, (event: unknown) => Promise<unknown>>>,
+): HookTarget & { callHook: ReturnType<typeof vi.fn> } {
+  const target = {
+    callHook: vi.fn(async (name: HookName, event: unknown): Promise<unknown> => {
+      const hook = hooks[name];
+      return hook === undefined ? undefined : await hook(event);
+    }),
+    hooks: new Set(Object.keys(hooks).filter((name) => isHookName(name))),
+    id,
+  };
+  targets.push(target);
+  registerHookTarget(target);
+  return target;
+}
+
+const TOOL_CALL: ToolCallHookEvent = {
+  agentSlug: "agent",
+  callId: "call-1",
+  channel: "tui",
+  input: { command: "rm" },
+  origin: "user",
+  sessionId: "tui",
+  toolName: "exec",
+};
+
+afterEach(() => {
+  for (const target of targets.splice(0)) {
+    unregisterHookTarget(target);
+  }
+});
+
+describe("plugin hooks", () => {
+  it("calls only the plugins that define a hook, in load order", async () => {
+    const calls: string[] = [];
+    makeTarget("first", {
+      onTurnStart: async () => {
+        calls.push("first");
+        await Promise.resolve();
+      },
+    });
+    const quiet = makeTarget("quiet", {});
+    makeTarget("second", {
+      onTurnStart: async () => {
+        calls.push("second");
+        await Promise.resolve();
+      },
+    });
+
+    await runTurnStartHooks({ agentSlug: "agent", channel: "tui", origin: "cron", sessionId: "s" });
+
+    expect(calls).toStrictEqual(["first", "second"]);
+    expect(quiet.callHook).not.toHaveBeenCalled();
+  });
+
+  it("isolates failing hooks from the turn and from other plugins", async () => {
+    const seen = vi.fn(async () => {
+      await Promise.resolve();
+    });
+    makeTarget("broken", {
+      onTurnEnd: async () =>
+        await Promise.reject(new Error("RPC call hook timed out after 10000ms")),
+    });
+    makeTarget("working", { onTurnEnd: seen });
+
+    await expect(
+      runTurnEndHooks({
+        agentSlug: "agent",
+        channel: "tui",
+        origin: "user",
+        outcome: "completed",
+        sessionId: "s",
+      }),
+    ).resolves.toBeUndefined();
+    expect(seen).toHaveBeenCalledOnce();
+  });
+
+  it("stops calling a hook that keeps failing", async () => {
+    let failing = true;
+    const flaky = makeTarget("flaky", {
+      onToolCall: async () => {
+        await Promise.resolve();
+        if (failing) {
+          throw new Error("timed out");
+        }
+      },
+    });
+
+    await runToolCallHooks(TOOL_CALL);
+    await runToolCallHooks(TOOL_CALL);
+    failing = false;
+    await runToolCallHooks(TOOL_CALL);
+    failing = true;
+    for (let attempt = 0; attempt < 4; attempt++) {
+      await runToolCallHooks(TOOL_CALL);
+    }
+
+    // Two failures, a success that resets the count, then three failures.
+    expect(flaky.callHook).toHaveBeenCalledTimes(6);
+    expect(warning).toHaveBeenCalledWith(
+      expect.stringContaining("won't be called until the plugin is reloaded"),
+    );
+  });
+
+  it("stops at the first veto and ignores malformed answers", async () => {
+    makeTarget("confused", { onToolCall: async () => await Promise.resolve("no") });
+    makeTarget("guard", {
+      onToolCall: async (event) =>
+        await Promise.resolve(
+          typeof event === "object" && event !== null && "toolName" in event
+            ? { veto: `no ${String(event.toolName)} today` }
+            : undefined,
+        ),
+    });
+    const after = makeTarget("after", {
+      onToolCall: async () => {
+        await Promise.resolve();
+      },
+    });
+
+    await expect(runToolCallHooks(TOOL_CALL)).resolves.toStrictEqual({
+      pluginId: "guard",
+      reason: "no exec today",
+    });
+    expect(after.callHook).not.toHaveBeenCalled();
+  });
+
+  it("chains tool results through onToolResult hooks", async () => {
+    makeTarget("redact", {
+      onToolResult: async () => await Promise.resolve({ redacted: true, success: true }),
+    });
+    makeTarget("invalid", { onToolResult: async () => await Promise.resolve({ ok: 1 }) });
+    const last = makeTarget("observe", {
+      onToolResult: async () => {
+        await Promise.resolve();
+      },
+    });
+
+    const result = await runToolResultHooks(TOOL_CALL, { stdout: "secret", success: true });
+
+    expect(result).toStrictEqual({ redacted: true, success: true });
+    expect(last.callHook).toHaveBeenCalledWith(
+      "onToolResult",
+      { ...TOOL_CALL, result: { redacted: true, success: true } },
+      expect.any(Number),
+    );
+  });
+
+  it("runs onUnload only for plugins that define it", async () => {
+    const unload = vi.fn(async () => {
+      await Promise.resolve();
+    });
+    const withHook = makeTarget("with", { onUnload: unload });
+    const without = makeTarget("without", {});
+
+    await runUnloadHook(withHook);
+    await runUnloadHook(without);
+
+    expect(unload).toHaveBeenCalledOnce();
+    expect(without.callHook).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,189 @@
+import type {
+  PluginHooks,
+  ToolCallHookEvent,
+  TurnEndHookEvent,
+  TurnHookEvent,
+} from "@cireilclaw/sdk";
+import * as vb from "valibot";
+
+import colors from "#output/colors.js";
+import { warning } from "#output/log.js";
+
+// A hook that hasn't settled by then is given up on, so a wedged plugin
+// can't hold up the turn. The worker is left running.
+const HOOK_TIMEOUT_MS = 10 * 1000;
+
+// A hook that fails or times out this many times in a row is no longer
+// called, so one broken plugin doesn't slow every tool call and turn. It's
+// called again once the plugin is reloaded.
+const MAX_CONSECUTIVE_HOOK_FAILURES = 3;
+
+// Hooks the runtime calls over RPC. onLoad runs inside the worker before its
+// manifest is sent.
+type HookName = Exclude<keyof PluginHooks, "onLoad">;
+
+const HOOK_NAMES: ReadonlySet<string> = new Set<HookName>([
+  "onToolCall",
+  "onToolResult",
+  "onTurnEnd",
+  "onTurnStart",
+  "onUnload",
+]);
+
+interface HookTarget {
+  readonly id: string;
+  // The hooks the plugin defines; the others are never called.
+  readonly hooks: ReadonlySet<HookName>;
+  callHook(name: HookName, event: unknown, timeoutMs: number): Promise<unknown>;
+}
+
+interface ToolCallVetoResult {
+  pluginId: string;
+  reason: string;
+}
+
+const ToolCallVetoSchema = vb.object({ veto: vb.pipe(vb.string(), vb.nonEmpty()) });
+const ToolResultSchema = vb.looseObject({ success: vb.boolean() });
+
+// Plugins with hooks, in load order.
+const hookTargets: HookTarget[] = [];
+// Consecutive failures of each plugin's hooks; a hook at the limit is off.
+const hookFailures = new WeakMap<HookTarget, Map<HookName, number>>();
+
+function isHookName(name: string): name is HookName {
+  return HOOK_NAMES.has(name);
+}
+
+function registerHookTarget(target: HookTarget): void {
+  if (!hookTargets.includes(target)) {
+    hookTargets.push(target);
+  }
+}
+
+function unregisterHookTarget(target: HookTarget): void {
+  const idx = hookTargets.indexOf(target);
+  if (idx !== -1) {
+    hookTargets.splice(idx, 1);
+  }
+}
+
+function isHookEnabled(target: HookTarget, name: HookName): boolean {
+  return (
+    target.hooks.has(name) &&
+    (hookFailures.get(target)?.get(name) ?? 0) < MAX_CONSECUTIVE_HOOK_FAILURES
+  );
+}
+
+// The plugins whose `name` hook should be called, in load order.
+function targetsFor(name: HookName): HookTarget[] {
+  return hookTargets.filter((candidate) => isHookEnabled(candidate, name));
+}
+
+// Calls one plugin's hook. Failures and timeouts are logged and come back as
+// undefined.
+async function callHook(target: HookTarget, name: HookName, event?: unknown): Promise<unknown> {
+  let failures = hookFailures.get(target);
+  if (failures === undefined) {
+    failures = new Map();
+    hookFailures.set(target, failures);
+  }
+  try {
+    const value = await target.callHook(name, event, HOOK_TIMEOUT_MS);
+    failures.delete(name);
+    return value;
+  } catch (error) {
+    const count = (failures.get(name) ?? 0) + 1;
+    failures.set(name, count);
+    warning(`Plugin ${colors.keyword(target.id)} ${name} hook failed:`, String(error));
+    if (count >= MAX_CONSECUTIVE_HOOK_FAILURES) {
+      warning(
+        `Plugin ${colors.keyword(target.id)} ${name} hook failed ${count} times in a row; it won't be called until the plugin is reloaded`,
+      );
+    }
+    return undefined;
+  }
+}
+
+async function callEachHook(
+  name: HookName,
+  event: TurnHookEvent | TurnEndHookEvent,
+): Promise<void> {
+  for (const target of targetsFor(name)) {
+    await callHook(target, name, event);
+  }
+}
+
+async function runTurnStartHooks(event: TurnHookEvent): Promise<void> {
+  await callEachHook("onTurnStart", event);
+}
+
+async function runTurnEndHooks(event: TurnEndHookEvent): Promise<void> {
+  await callEachHook("onTurnEnd", event);
+}
+
+/**
+ * Asks each plugin's onToolCall hook about a tool call before it runs. The
+ * first veto wins and the remaining plugins aren't asked.
+ */
+async function runToolCallHooks(event: ToolCallHookEvent): Promise<ToolCallVetoResult | undefined> {
+  for (const target of targetsFor("onToolCall")) {
+    const value = await callHook(target, "onToolCall", event);
+    if (value === undefined) {
+      continue;
+    }
+    const parsed = vb.safeParse(ToolCallVetoSchema, value);
+    if (!parsed.success) {
+      warning(
+        `Plugin ${colors.keyword(target.id)} onToolCall hook returned something other than a veto; ignoring it`,
+      );
+      continue;
+    }
+    return { pluginId: target.id, reason: parsed.output.veto };
+  }
+  return undefined;
+}
+
+/**
+ * Passes a tool result through each plugin's onToolResult hook in load
+ * order. A hook returning a result replaces it for the hooks after it and
+ * for the model.
+ */
+async function runToolResultHooks(
+  event: ToolCallHookEvent,
+  result: Record<string, unknown>,
+): Promise<Record<string, unknown>> {
+  let current = result;
+  for (const target of targetsFor("onToolResult")) {
+    const value = await callHook(target, "onToolResult", { ...event, result: current });
+    if (value === undefined) {
+      continue;
+    }
+    const parsed = vb.safeParse(ToolResultSchema, value);
+    if (!parsed.success) {
+      warning(
+        `Plugin ${colors.keyword(target.id)} onToolResult hook must return an object with a boolean success field; ignoring it`,
+      );
+      continue;
+    }
+    current = parsed.output;
+  }
+  return current;
+}
+
+async function runUnloadHook(target: HookTarget): Promise<void> {
+  if (isHookEnabled(target, "onUnload")) {
+    await callHook(target, "onUnload");
+  }
+}
+
+export {
+  isHookName,
+  registerHookTarget,
+  runToolCallHooks,
+  runToolResultHooks,
+  runTurnEndHooks,
+  runTurnStartHooks,
+  runUnloadHook,
+  unregisterHookTarget,
+};
+export type { HookName, HookTarget, ToolCallVetoResult };
@@ -1,9 +1,34 @@
+import { EventEmitter } from "node:events";
+import { MessageChannel } from "node:worker_threads";
+
 import * as vb from "valibot";
-import { describe, it, expect } from "vitest";
+import { describe, it, expect, vi } from "vitest";
 
 import { builtinToolRegistry, setToolRegistry } from "#engine/tools/index.js";
-import type { ToolDef } from "#engine/tools/tool-def.js";
-import { mergeToolRegistries } from "#plugin/loader.js";
+import type { ToolContext, ToolDef } from "#engine/tools/tool-def.js";
+import { checkPluginChannels, mergeToolRegistries, PluginProcess } from "#plugin/loader.js";
+import { RpcChannel } from "#plugin/rpc.js";
+import type { PluginRunner } from "#plugin/subprocess.js";
+
+vi.mock("#output/log.js", () => ({
+  debug: vi.fn(),
+  info: vi.fn(),
+  warning: vi.fn(),
+}));
+
+// Stands in for the worker; the test talks to PluginProcess over its RPC port.
+class FakeRunner extends EventEmitter implements PluginRunner {
+  public readonly posted: unknown[] = [];
+
+  public postMessage(message: unknown): void {
+    this.posted.push(message);
+  }
+
+  public async terminate(): Promise<void> {
+    this.emit("exit", 0);
+    await Promise.resolve();
+  }
+}
 
 function makeTool(name: string): ToolDef {
   return {
@@ -17,6 +42,60 @@ function makeTool(name: string): ToolDef {
   };
 }
 
+function makeCtx(addToolMessage: (content: string) => void): ToolContext {
+  // oxlint-disable-next-line typescript/no-unsafe-type-assertion -- The stub only reads these.
+  return {
+    addToolMessage,
+    agentSlug: "agent",
+    requestApproval: vi.fn(),
+    session: { channel: "tui", id: () => "tui" },
+  } as unknown as ToolContext;
+}
+
+// A plugin process with one tool, "demo-tool", whose worker records the
+// invocationIds it's called with.
+function toolPlugin(send: boolean): {
+  proc: PluginProcess;
+  worker: RpcChannel;
+  invocations: string[];
+  tool: ToolDef;
+  close(this: void): void;
+} {
+  const { port1, port2 } = new MessageChannel();
+  const worker = new RpcChannel(port2);
+  const invocations: string[] = [];
+  // oxlint-disable-next-line typescript/require-await
+  worker.handle("invoke-tool", async (args) => {
+    const [call] = args;
+    if (typeof call === "object" && call !== null && "invocationId" in call) {
+      invocations.push(String(call.invocationId));
+    }
+    return { success: true };
+  });
+  const proc = new PluginProcess("demo", new FakeRunner(), new RpcChannel(port1), undefined, {
+    agent: { send },
+  });
+  proc.capabilities = { send: true };
+  const { tools } = proc.buildStubs(
+    { pluginName: "demo", tools: [{ description: "", jsonSchema: {}, name: "demo-tool" }] },
+    false,
+  );
+  const tool = tools["demo-tool"];
+  if (tool === undefined) {
+    throw new Error("demo-tool wasn't built");
+  }
+  return {
+    close: () => {
+      worker.close();
+      port1.close();
+    },
+    invocations,
+    proc,
+    tool,
+    worker,
+  };
+}
+
 describe("mergeToolRegistries", () => {
   it("returns a copy of the builtin registry when no plugins provided", () => {
     const result = mergeToolRegistries(builtinToolRegistry, []);
@@ -77,6 +156,38 @@ describe("mergeToolRegistries", () => {
   });
 });
 
+describe("checkPluginChannels", () => {
+  it("accepts distinct lowercase channel names", () => {
+    expect(() => {
+      checkPluginChannels([
+        { channels: ["slack", "irc-libera"], name: "plugin-a" },
+        { channels: ["xmpp"], name: "plugin-b" },
+      ]);
+    }).not.toThrow();
+  });
+
+  it("rejects malformed and reserved names", () => {
+    expect(() => {
+      checkPluginChannels([{ channels: ["Slack"], name: "plugin-a" }]);
+    }).toThrow("invalid name");
+    expect(() => {
+      checkPluginChannels([{ channels: ["discord"], name: "plugin-a" }]);
+    }).toThrow("invalid name");
+    expect(() => {
+      checkPluginChannels([{ channels: ["owner"], name: "plugin-a" }]);
+    }).toThrow("invalid name");
+  });
+
+  it("throws on plugin-plugin collision", () => {
+    expect(() => {
+      checkPluginChannels([
+        { channels: ["slack"], name: "plugin-a" },
+        { channels: ["slack"], name: "plugin-b" },
+      ]);
+    }).toThrow("collides with plugin");
+  });
+});
+
 describe("setToolRegistry", () => {
   it("replaces the active tool registry", () => {
     const customRegistry: Record<string, ToolDef> = {
@@ -93,3 +204,85 @@ describe("setToolRegistry", () => {
     setToolRegistry(builtinToolRegistry);
   });
 });
+
+describe("PluginProcess.drain", () => {
+  it("waits for in-flight calls into the worker to settle", async () => {
+    const { port1, port2 } = new MessageChannel();
+    const worker = new RpcChannel(port2);
+    const pending: ((value: unknown) => void)[] = [];
+    worker.handle(
+      "hook",
+      async () =>
+        await new Promise((resolve) => {
+          pending.push(resolve);
+        }),
+    );
+    const proc = new PluginProcess("demo", new FakeRunner(), new RpcChannel(port1));
+
+    const hook = proc.callHook("onTurnEnd", {}, 5000);
+    let drained = false;
+    const drain = (async (): Promise<void> => {
+      await proc.drain();
+      drained = true;
+    })();
+    await new Promise((resolve) => {
+      setTimeout(resolve, 20);
+    });
+
+    expect(drained).toBe(false);
+
+    for (const resolve of pending) {
+      resolve("done");
+    }
+    await drain;
+
+    expect(drained).toBe(true);
+    await expect(hook).resolves.toBe("done");
+    await proc.destroy();
+    worker.close();
+    port1.close();
+  });
+});
+
+describe("PluginProcess late addToolMessage", () => {
+  it("delivers it to the agent's next invocation", async () => {
+    const { close, invocations, proc, tool, worker } = toolPlugin(true);
+    const addToolMessage = vi.fn();
+
+    await tool.execute({}, makeCtx(addToolMessage));
+    await worker.call("addToolMessage", [invocations[0], "late"]);
+    await tool.execute({}, makeCtx(addToolMessage));
+
+    expect(addToolMessage).toHaveBeenCalledTimes(1);
+    expect(addToolMessage).toHaveBeenCalledWith("late");
+    await proc.destroy();
+    close();
+  });
+
+  it("rejects invocationIds that never ran", async () => {
+    const { close, proc, tool, worker } = toolPlugin(true);
+    const addToolMessage = vi.fn();
+
+    await expect(worker.call("addToolMessage", ["demo#999", "forged"])).rejects.toThrow(
+      "Unknown invocationId",
+    );
+    await tool.execute({}, makeCtx(addToolMessage));
+
+    expect(addToolMessage).not.toHaveBeenCalled();
+    await proc.destroy();
+    close();
+  });
+
+  it("drops it when the agent hasn't granted send", async () => {
+    const { close, invocations, proc, tool, worker } = toolPlugin(false);
+    const addToolMessage = vi.fn();
+
+    await tool.execute({}, makeCtx(addToolMessage));
+    await worker.call("addToolMessage", [invocations[0], "late"]);
+    await tool.execute({}, makeCtx(addToolMessage));
+
+    expect(addToolMessage).not.toHaveBeenCalled();
+    await proc.destroy();
+    close();
+  });
+});
@@ -6,24 +6,38 @@ import { existsSync, realpathSync } from "node:fs";
 import { mkdir, readFile, readdir, stat, writeFile } from "node:fs/promises";
 import { createRequire } from "node:module";
 import path from "node:path";
-import { pathToFileURL } from "node:url";
+import { fileURLToPath, pathToFileURL } from "node:url";
+import { isDeepStrictEqual } from "node:util";
 import { Worker } from "node:worker_threads";
 
-import type { Section } from "@cireilclaw/sdk";
+import type { ChannelTarget, PluginCapabilities, Section } from "@cireilclaw/sdk";
 import { parse } from "smol-toml";
 import * as vb from "valibot";
 
-import type { PluginEntry } from "#config/schemas/plugins.js";
+import type { PluginEntry, PluginGrant } from "#config/schemas/plugins.js";
 import { PluginsConfigSchema } from "#config/schemas/plugins.js";
 import { ToolError } from "#engine/errors.js";
-import { registerExtractor } from "#engine/outline.js";
+import { registerExtractor, unregisterExtractor } from "#engine/outline.js";
+import type { Extractor } from "#engine/outline.js";
 import { builtinToolRegistry, setToolRegistry } from "#engine/tools/index.js";
 import type { ToolContext, ToolDef } from "#engine/tools/tool-def.js";
+import type { HistoryDirection } from "#harness/channel-handler.js";
+import { channelTypeList } from "#harness/session.js";
 import colors from "#output/colors.js";
-import { info, warning } from "#output/log.js";
-import { checkConditionalAccess, checkMountWriteAccess, root, sandboxToReal } from "#util/paths.js";
+import { debug, info, warning } from "#output/log.js";
+import {
+  checkConditionalAccess,
+  checkMountWriteAccess,
+  resolveConditionalAccess,
+  root,
+  sandboxToReal,
+} from "#util/paths.js";
 
+import { CAPABILITY_NAMES, deniedError, isDeclared, resolveAccess } from "./capabilities.js";
+import type { CapabilityAccess, CapabilityName } from "./capabilities.js";
 import { hostCrypto, hostIds } from "./crypto.js";
+import { isHookName, registerHookTarget, runUnloadHook, unregisterHookTarget } from "./hooks.js";
+import type { HookName, HookTarget } from "./hooks.js";
 import { RpcChannel } from "./rpc.js";
 import {
   DEFAULT_PLUGIN_STATE_QUOTA_BYTES,
@@ -31,12 +45,24 @@ import {
   removePluginStateFile,
   writePluginStateFile,
 } from "./state.js";
-import type { CtxData, InvokeArgs, ManifestPayload } from "./worker-main.js";
+import { spawnPluginSubprocess } from "./subprocess.js";
+import type { PluginRunner } from "./subprocess.js";
+import type {
+  ChannelManifestEntry,
+  CtxData,
+  InvokeArgs,
+  ManifestPayload,
+  WorkerInit,
+} from "./worker-main.js";
 
 // Safety net for wedged plugins: a single tool invocation cannot hang the engine turn forever.
 // Generous to accommodate long scrapes / network work; worker crashes already reject immediately.
 const INVOKE_TIMEOUT_MS = 10 * 60 * 1000;
 
+// How many finished invocations a late addToolMessage may still name, and
+// how many late messages are held for the next invocation.
+const MAX_LATE_INVOCATIONS = 32;
+
 function isRpcTimeout(error: unknown): boolean {
   return (
     error instanceof Error &&
@@ -45,6 +71,19 @@ function isRpcTimeout(error: unknown): boolean {
   );
 }
 
+// Channel names prefix session IDs and appear in conditions, so they're kept
+// to lowercase letters, digits and dashes.
+const CHANNEL_NAME_PATTERN = /^[a-z][a-z0-9-]*$/u;
+// Names that already mean something as a session ID prefix or send target.
+const RESERVED_CHANNEL_NAMES: ReadonlySet<string> = new Set([
+  ...channelTypeList,
+  "cron",
+  "current",
+  "last",
+  "none",
+  "owner",
+]);
+
 const runtimeRequire = createRequire(import.meta.url);
 const RUNTIME_SDK_PKG = realpathSync(runtimeRequire.resolve("@cireilclaw/sdk/package.json"));
 const WORKER_URL = new URL("worker.ts", import.meta.url);
@@ -100,6 +139,16 @@ function requireToolResult(value: unknown): Record<string, unknown> {
   return value as Record<string, unknown>;
 }
 
+// Plugin writes go through the same "ask" rules as the built-in tools.
+async function checkWriteApproval(ctx: ToolContext, sandboxPath: string): Promise<void> {
+  if (
+    ctx.conditions !== undefined &&
+    resolveConditionalAccess(sandboxPath, ctx.conditions, ctx.session) === "ask"
+  ) {
+    await ctx.requestApproval("write", sandboxPath);
+  }
+}
+
 function readSdkVersion(pkgPath: string): string {
   const pkg: unknown = runtimeRequire(pkgPath);
   return vb.parse(SdkPackageJsonSchema, pkg).version;
@@ -158,9 +207,11 @@ function assertSdkMatches(id: string, pluginPkgPath: string): void {
   );
 }
 
+// `packagePaths` are what a plugin running with process isolation is allowed
+// to read.
 async function resolveEntryUrl(
   entry: PluginEntry,
-): Promise<{ id: string; pluginPkgPath: string; url: URL }> {
+): Promise<{ id: string; packagePaths: string[]; pluginPkgPath: string; url: URL }> {
   if (entry.name !== undefined) {
     const dir = path.join(root(), "plugins", entry.name);
     const pkgPath = path.join(dir, "package.json");
@@ -177,7 +228,12 @@ async function resolveEntryUrl(
       );
     }
     const req = createRequire(pkgPath);
-    return { id: entry.name, pluginPkgPath: pkgPath, url: pathToFileURL(req.resolve(".")) };
+    return {
+      id: entry.name,
+      packagePaths: [dir],
+      pluginPkgPath: pkgPath,
+      url: pathToFileURL(req.resolve(".")),
+    };
   }
 
   const pkgPath = await ensureLocalPackageJson();
@@ -187,7 +243,12 @@ async function resolveEntryUrl(
     throw new Error("Plugin entry has neither name nor package");
   }
   try {
-    return { id: pkgName, pluginPkgPath: pkgPath, url: pathToFileURL(req.resolve(pkgName)) };
+    return {
+      id: pkgName,
+      packagePaths: [pkgPath, path.join(root(), "node_modules")],
+      pluginPkgPath: pkgPath,
+      url: pathToFileURL(req.resolve(pkgName)),
+    };
   } catch {
     throw new Error(
       `Plugin package ${colors.keyword(pkgName)} is not installed. ` +
@@ -202,30 +263,68 @@ interface PluginLoadResult {
   tools: Record<string, ToolDef>;
 }
 
-class PluginProcess {
+/**
+ * A chat channel implemented in a plugin's worker. Values coming back from
+ * the plugin are unchecked; channels/plugin.ts validates them.
+ */
+interface PluginChannel {
+  readonly name: string;
+  readonly pluginId: string;
+  readonly supportsFetchHistory: boolean;
+  readonly supportsReactions: boolean;
+  connect(
+    agentSlug: string,
+    config: Record<string, unknown>,
+    receive: (message: unknown) => void,
+  ): Promise<void>;
+  send(target: ChannelTarget, content: string): Promise<unknown>;
+  react(target: ChannelTarget, emoji: string, messageId: string): Promise<void>;
+  fetchHistory(
+    target: ChannelTarget,
+    messageId: string,
+    direction: HistoryDirection,
+    limit: number,
+  ): Promise<unknown>;
+}
+
+class PluginProcess implements HookTarget {
   public readonly id: string;
   public readonly ready: Promise<ManifestPayload>;
   public extractorEntries: { glob: string; priority?: number }[] = [];
-  private readonly worker: Worker;
+  public hooks: ReadonlySet<HookName> = new Set();
+  public channelEntries: ChannelManifestEntry[] = [];
+  public capabilities: PluginCapabilities = {};
+  private readonly worker: PluginRunner;
   private readonly rpc: RpcChannel;
   private readonly pending = new Map<string, ToolContext>();
   private readonly stateQuotaBytes: number;
+  private readonly grants: Record<string, PluginGrant>;
   private nextInvocation = 1;
+  // Agents of recently finished invocations, by invocationId, so a late
+  // addToolMessage can only name an invocation that really ran.
+  private readonly finishedInvocations = new Map<string, string>();
   // Buffer for addToolMessage RPCs that arrive after the invocation
   // context has already been cleaned up (fire-and-forget from async
-  // plugin callbacks). Drained into the next invocation's ctx.
-  private readonly orphanedAddToolMessages: string[] = [];
+  // plugin callbacks). Drained into the agent's next invocation, once the
+  // send grant is checked for it.
+  private readonly orphanedAddToolMessages: { agentSlug: string; content: string }[] = [];
+  // Inbound message handlers of connected channels, by `<channel>:<agent>`.
+  private readonly channelReceivers = new Map<string, (message: unknown) => void>();
+  // Calls into the worker that haven't settled, so a reload can wait them out.
+  private readonly inFlight = new Set<Promise<unknown>>();
 
   public constructor(
     id: string,
-    worker: Worker,
+    worker: PluginRunner,
     rpc: RpcChannel,
     stateQuotaBytes: number = DEFAULT_PLUGIN_STATE_QUOTA_BYTES,
+    grants: Record<string, PluginGrant> = {},
   ) {
     this.id = id;
     this.worker = worker;
     this.rpc = rpc;
     this.stateQuotaBytes = stateQuotaBytes;
+    this.grants = grants;
 
     this.ready = new Promise<ManifestPayload>((resolve, reject) => {
       this.rpc.handle("manifest", (args) => {
@@ -252,9 +351,11 @@ class PluginProcess {
     // the engine's tool loop doesn't hang forever. RpcChannel.close() is idempotent.
     worker.on("exit", () => {
       this.rpc.close();
+      unregisterHookTarget(this);
     });
     worker.on("error", () => {
       this.rpc.close();
+      unregisterHookTarget(this);
     });
 
     this.registerCallbackHandlers();
@@ -267,15 +368,12 @@ class PluginProcess {
       tools[toolName] = {
         description: entry.description,
         execute: async (input, ctx): Promise<Record<string, unknown>> => {
-          // Drain any addToolMessage calls that arrived too late for
-          // the previous invocation before starting this one.
-          for (const msg of this.orphanedAddToolMessages.splice(0)) {
-            ctx.addToolMessage(msg);
-          }
+          await this.drainOrphanedToolMessages(ctx);
           const invocationId = `${this.id}#${this.nextInvocation++}`;
           this.pending.set(invocationId, ctx);
           try {
             const ctxData: CtxData = {
+              access: this.accessFor(ctx.agentSlug),
               agentSlug: ctx.agentSlug,
               mounts: ctx.mounts,
               session: { channel: ctx.session.channel, id: ctx.session.id() },
@@ -295,6 +393,13 @@ class PluginProcess {
             }
           } finally {
             this.pending.delete(invocationId);
+            this.finishedInvocations.set(invocationId, ctx.agentSlug);
+            for (const oldest of this.finishedInvocations.keys()) {
+              if (this.finishedInvocations.size <= MAX_LATE_INVOCATIONS) {
+                break;
+              }
+              this.finishedInvocations.delete(oldest);
+            }
           }
         },
         jsonSchema: entry.jsonSchema,
@@ -305,18 +410,91 @@ class PluginProcess {
     return { allowOverride, name: manifest.pluginName, tools };
   }
 
+  public buildChannels(): PluginChannel[] {
+    return this.channelEntries.map((entry) => ({
+      connect: async (agentSlug, config, receive): Promise<void> => {
+        this.channelReceivers.set(`${entry.name}:${agentSlug}`, receive);
+        await this.callWithTimeout("channel.connect", [entry.name, agentSlug, config]);
+      },
+      fetchHistory: async (target, messageId, direction, limit): Promise<unknown> =>
+        await this.callWithTimeout("channel.fetchHistory", [
+          entry.name,
+          target,
+          messageId,
+          direction,
+          limit,
+        ]),
+      name: entry.name,
+      pluginId: this.id,
+      react: async (target, emoji, messageId): Promise<void> => {
+        await this.callWithTimeout("channel.react", [entry.name, target, emoji, messageId]);
+      },
+      send: async (target, content): Promise<unknown> =>
+        await this.callWithTimeout("channel.send", [entry.name, target, content]),
+      supportsFetchHistory: entry.fetchHistory,
+      supportsReactions: entry.react,
+    }));
+  }
+
+  public accessFor(agentSlug: string): CapabilityAccess {
+    return resolveAccess(this.capabilities, this.grants[agentSlug]);
+  }
+
+  // Warns about grants that have no effect because the plugin doesn't
+  // declare the capability, usually a typo or an outdated plugin.
+  public checkGrants(): void {
+    for (const [agentSlug, grant] of Object.entries(this.grants)) {
+      for (const name of CAPABILITY_NAMES) {
+        const granted = grant[name];
+        if (granted !== undefined && granted !== false && !isDeclared(this.capabilities, name)) {
+          warning(
+            `Plugin ${colors.keyword(this.id)} doesn't declare ${colors.keyword(name)}; its grant for agent ${colors.keyword(agentSlug)} has no effect`,
+          );
+        }
+      }
+    }
+  }
+
   public async extract(filePath: string, content: string): Promise<Section[]> {
     return await this.callWithTimeout<Section[]>("extract", [filePath, content]);
   }
 
+  public async callHook(name: HookName, event: unknown, timeoutMs: number): Promise<unknown> {
+    return await this.track(this.rpc.call("hook", [name, event], timeoutMs));
+  }
+
+  // Settles once every call into the worker has, including ones that start
+  // while waiting.
+  public async drain(): Promise<void> {
+    while (this.inFlight.size > 0) {
+      await Promise.allSettled(this.inFlight);
+    }
+  }
+
+  // Lets the plugin run its onUnload hook before terminating the worker.
+  public async destroy(): Promise<void> {
+    await runUnloadHook(this);
+    await this.terminate();
+  }
+
   public async terminate(): Promise<void> {
+    unregisterHookTarget(this);
     this.rpc.close();
     await this.worker.terminate();
   }
 
+  private async track<Result>(call: Promise<Result>): Promise<Result> {
+    this.inFlight.add(call);
+    try {
+      return await call;
+    } finally {
+      this.inFlight.delete(call);
+    }
+  }
+
   private async callWithTimeout<Result>(method: string, args: unknown[]): Promise<Result> {
     try {
-      return await this.rpc.call<Result>(method, args, INVOKE_TIMEOUT_MS);
+      return await this.track(this.rpc.call<Result>(method, args, INVOKE_TIMEOUT_MS));
     } catch (error: unknown) {
       if (isRpcTimeout(error)) {
         await this.terminate();
@@ -325,6 +503,46 @@ class PluginProcess {
     }
   }
 
+  // The worker stubs out what the plugin can't use; this is the runtime's own
+  // check, and where "ask" grants ask the owner.
+  private async requireCapability(
+    ctx: ToolContext,
+    name: CapabilityName,
+    detail?: string,
+  ): Promise<void> {
+    const access = this.accessFor(ctx.agentSlug)[name];
+    if (access === undefined) {
+      throw deniedError(this.id, this.capabilities, name);
+    }
+    if (access === "ask") {
+      const subject = detail === undefined ? name : `${name} ${detail}`;
+      await ctx.requestApproval("plugin", `${this.id}: ${subject}`);
+    }
+  }
+
+  // Delivers the addToolMessage calls that arrived too late for earlier
+  // invocations of the same agent, if the plugin may still send there.
+  private async drainOrphanedToolMessages(ctx: ToolContext): Promise<void> {
+    const mine = this.orphanedAddToolMessages.filter((msg) => msg.agentSlug === ctx.agentSlug);
+    if (mine.length === 0) {
+      return;
+    }
+    const others = this.orphanedAddToolMessages.filter((msg) => msg.agentSlug !== ctx.agentSlug);
+    this.orphanedAddToolMessages.splice(0, this.orphanedAddToolMessages.length, ...others);
+    try {
+      await this.requireCapability(ctx, "send");
+    } catch (error) {
+      warning(
+        `Plugin ${this.id} dropped ${mine.length} late tool messages:`,
+        error instanceof Error ? error.message : String(error),
+      );
+      return;
+    }
+    for (const msg of mine) {
+      ctx.addToolMessage(msg.content);
+    }
+  }
+
   private requireCtx(invocationId: unknown): ToolContext {
     if (typeof invocationId !== "string") {
       throw new TypeError("invocationId must be a string");
@@ -337,9 +555,34 @@ class PluginProcess {
   }
 
   private registerCallbackHandlers(): void {
+    this.rpc.handle("channel.receive", (args) => {
+      const [name, agentSlug, message] = args;
+      const key = `${requireString(name, "name")}:${requireString(agentSlug, "agentSlug")}`;
+      const receive = this.channelReceivers.get(key);
+      if (receive === undefined) {
+        throw new Error(`Channel ${String(name)} is not connected for agent ${String(agentSlug)}`);
+      }
+      receive(message);
+      return Promise.resolve(undefined);
+    });
+    this.rpc.handle("capabilities.ask", async (args) => {
+      const [invocationId, name, detail] = args;
+      const nameValue = requireString(name, "name");
+      if (!CAPABILITY_NAMES.some((candidate) => candidate === nameValue)) {
+        throw new TypeError(`Unknown capability: ${nameValue}`);
+      }
+      await this.requireCapability(
+        this.requireCtx(invocationId),
+        nameValue as CapabilityName,
+        optionalString(detail, "detail"),
+      );
+      return undefined;
+    });
     this.rpc.handle("reply.send", async (args) => {
       const [invocationId, content, attachments] = args;
-      await this.requireCtx(invocationId).reply.send(
+      const ctx = this.requireCtx(invocationId);
+      await this.requireCapability(ctx, "send");
+      await ctx.reply.send(
         requireString(content, "content"),
         attachments === undefined ? undefined : requireStringArray(attachments, "attachments"),
       );
@@ -347,7 +590,9 @@ class PluginProcess {
     });
     this.rpc.handle("reply.react", async (args) => {
       const [invocationId, emoji, messageId] = args;
-      const { react } = this.requireCtx(invocationId).reply;
+      const ctx = this.requireCtx(invocationId);
+      await this.requireCapability(ctx, "send");
+      const { react } = ctx.reply;
       if (react === undefined) {
         throw new Error("react not supported on this channel");
       }
@@ -356,9 +601,9 @@ class PluginProcess {
     });
     this.rpc.handle("channel.resolveChannel", async (args) => {
       const [invocationId, spec] = args;
-      const resolved = await this.requireCtx(invocationId).channel.resolveChannel(
-        requireString(spec, "spec"),
-      );
+      const ctx = this.requireCtx(invocationId);
+      await this.requireCapability(ctx, "send");
+      const resolved = await ctx.channel.resolveChannel(requireString(spec, "spec"));
       if ("error" in resolved) {
         return { error: resolved.error };
       }
@@ -388,43 +633,48 @@ class PluginProcess {
       );
       return Promise.resolve(undefined);
     });
-    this.rpc.handle("addToolMessage", (args) => {
+    this.rpc.handle("addToolMessage", async (args) => {
       const [invocationId, content] = args;
-      try {
-        this.requireCtx(invocationId).addToolMessage(requireString(content, "content"));
-      } catch (error: unknown) {
-        // Only buffer when the invocationId is a valid string with no
-        // matching pending context (late arrival after cleanup).
-        // TypeError from malformed IDs and errors from addToolMessage
-        // itself must propagate.
-        if (
-          typeof invocationId === "string" &&
-          error instanceof Error &&
-          error.message.startsWith("Unknown invocationId")
-        ) {
-          this.orphanedAddToolMessages.push(requireString(content, "content"));
-        } else {
-          throw error;
-        }
+      // Only buffer when the invocationId names one that has finished
+      // (late arrival after cleanup). Malformed and unknown IDs, and errors
+      // from addToolMessage itself, must propagate.
+      const lateAgent =
+        typeof invocationId === "string" ? this.finishedInvocations.get(invocationId) : undefined;
+      if (lateAgent !== undefined) {
+        this.orphanedAddToolMessages.push({
+          agentSlug: lateAgent,
+          content: requireString(content, "content"),
+        });
+        this.orphanedAddToolMessages.splice(
+          0,
+          this.orphanedAddToolMessages.length - MAX_LATE_INVOCATIONS,
+        );
+        return undefined;
       }
-      return Promise.resolve(undefined);
+      const ctx = this.requireCtx(invocationId);
+      await this.requireCapability(ctx, "send");
+      ctx.addToolMessage(requireString(content, "content"));
+      return undefined;
     });
-    this.rpc.handle("paths.resolve", (args) => {
+    this.rpc.handle("paths.resolve", async (args) => {
       const [invocationId, sandboxPath] = args;
       const ctx = this.requireCtx(invocationId);
-      return Promise.resolve(
-        sandboxToReal(requireString(sandboxPath, "sandboxPath"), ctx.agentSlug, ctx.mounts),
-      );
+      await this.requireCapability(ctx, "fsRead");
+      return sandboxToReal(requireString(sandboxPath, "sandboxPath"), ctx.agentSlug, ctx.mounts);
     });
-    this.rpc.handle("paths.checkWriteAccess", (args) => {
+    this.rpc.handle("paths.checkWriteAccess", async (args) => {
       const [invocationId, sandboxPath] = args;
       const ctx = this.requireCtx(invocationId);
-      checkMountWriteAccess(requireString(sandboxPath, "sandboxPath"), ctx.mounts ?? []);
-      return Promise.resolve(undefined);
+      await this.requireCapability(ctx, "fsWrite");
+      const sandboxPathValue = requireString(sandboxPath, "sandboxPath");
+      checkMountWriteAccess(sandboxPathValue, ctx.mounts ?? []);
+      await checkWriteApproval(ctx, sandboxPathValue);
+      return undefined;
     });
-    this.rpc.handle("paths.checkConditionalAccess", (args) => {
+    this.rpc.handle("paths.checkConditionalAccess", async (args) => {
       const [invocationId, sandboxPath] = args;
       const ctx = this.requireCtx(invocationId);
+      await this.requireCapability(ctx, "fsRead");
       if (ctx.conditions !== undefined) {
         checkConditionalAccess(
           requireString(sandboxPath, "sandboxPath"),
@@ -433,11 +683,12 @@ class PluginProcess {
           ctx.session,
         );
       }
-      return Promise.resolve(undefined);
+      return undefined;
     });
     this.rpc.handle("fs.readTextFile", async (args) => {
       const [invocationId, sandboxPath] = args;
       const ctx = this.requireCtx(invocationId);
+      await this.requireCapability(ctx, "fsRead");
       const sandboxPathValue = requireString(sandboxPath, "sandboxPath");
       const realPath = sandboxToReal(sandboxPathValue, ctx.agentSlug, ctx.mounts);
       if (ctx.conditions !== undefined) {
@@ -448,12 +699,14 @@ class PluginProcess {
     this.rpc.handle("fs.writeTextFile", async (args) => {
       const [invocationId, sandboxPath, content] = args;
       const ctx = this.requireCtx(invocationId);
+      await this.requireCapability(ctx, "fsWrite");
       const sandboxPathValue = requireString(sandboxPath, "sandboxPath");
       const realPath = sandboxToReal(sandboxPathValue, ctx.agentSlug, ctx.mounts);
       checkMountWriteAccess(sandboxPathValue, ctx.mounts ?? []);
       if (ctx.conditions !== undefined) {
         checkConditionalAccess(sandboxPathValue, ctx.agentSlug, ctx.conditions, ctx.session);
       }
+      await checkWriteApproval(ctx, sandboxPathValue);
       await mkdir(path.dirname(realPath), { recursive: true });
       await writeFile(realPath, requireString(content, "content"), "utf8");
       return undefined;
@@ -461,6 +714,7 @@ class PluginProcess {
     this.rpc.handle("fs.stat", async (args) => {
       const [invocationId, sandboxPath] = args;
       const ctx = this.requireCtx(invocationId);
+      await this.requireCapability(ctx, "fsRead");
       const sandboxPathValue = requireString(sandboxPath, "sandboxPath");
       const realPath = sandboxToReal(sandboxPathValue, ctx.agentSlug, ctx.mounts);
       if (ctx.conditions !== undefined) {
@@ -478,6 +732,7 @@ class PluginProcess {
     this.rpc.handle("fs.listDir", async (args) => {
       const [invocationId, sandboxPath] = args;
       const ctx = this.requireCtx(invocationId);
+      await this.requireCapability(ctx, "fsRead");
       const sandboxPathValue = requireString(sandboxPath, "sandboxPath");
       const realPath = sandboxToReal(sandboxPathValue, ctx.agentSlug, ctx.mounts);
       if (ctx.conditions !== undefined) {
@@ -501,6 +756,11 @@ class PluginProcess {
       let rawKey = "";
       if (typeof raw["path"] === "string") {
         const keyPath = raw["path"];
+        await this.requireCapability(
+          ctx,
+          raw["kind"] === "host" ? "hostKeys" : "fsRead",
+          raw["kind"] === "host" ? path.normalize(keyPath) : undefined,
+        );
         const realPath =
           raw["kind"] === "host"
             ? path.normalize(keyPath)
@@ -629,47 +889,112 @@ class PluginProcess {
   }
 }
 
-const activePlugins: PluginProcess[] = [];
+// A running plugin, with the plugins.toml entry it was loaded from and the
+// extractors registered for it.
+interface LoadedPlugin {
+  entry: PluginEntry;
+  proc: PluginProcess;
+  result: PluginLoadResult;
+  extractors: Extractor[];
+}
+
+interface PluginSet {
+  plugins: LoadedPlugin[];
+  // The plugins in `plugins` that were spawned rather than kept running.
+  spawned: LoadedPlugin[];
+  registry: Record<string, ToolDef>;
+}
+
+interface PluginReloadResult {
+  loaded: string[];
+  unloaded: string[];
+}
+
+// A plugin channel connected for an agent, kept so that a reload can connect
+// the respawned plugin the same way.
+interface ChannelConnection {
+  pluginId: string;
+  name: string;
+  agentSlug: string;
+  config: Record<string, unknown>;
+  receive(this: void, message: unknown): void;
+}
+
+const activePlugins: LoadedPlugin[] = [];
+// By `<channel>:<agent>`.
+const channelConnections = new Map<string, ChannelConnection>();
+// Reloads run one at a time, in the order they were asked for.
+let reloadTail: Promise<unknown> = Promise.resolve();
 
 async function spawnPluginProcess(entry: PluginEntry): Promise<PluginProcess> {
-  const { id, pluginPkgPath, url } = await resolveEntryUrl(entry);
+  const { id, packagePaths, pluginPkgPath, url } = await resolveEntryUrl(entry);
   assertSdkMatches(id, pluginPkgPath);
-  const worker = new Worker(WORKER_URL, {
-    execArgv: process.execArgv,
-    workerData: { entryUrl: url.href, pluginId: id },
-  });
+  const init: WorkerInit = { entryUrl: url.href, pluginId: id };
+  const worker =
+    entry.isolation === "process"
+      ? await spawnPluginSubprocess(
+          fileURLToPath(WORKER_URL),
+          init,
+          packagePaths,
+          // The process can only be given the network as a whole, so it gets
+          // it when any agent may let the plugin fetch.
+          Object.values(entry.grants).some(
+            (grant) => grant.net !== undefined && grant.net !== false,
+          ),
+        )
+      : new Worker(WORKER_URL, { execArgv: process.execArgv, workerData: init });
   const rpc = new RpcChannel(worker);
   return new PluginProcess(
     id,
     worker,
     rpc,
     entry.stateQuotaBytes ?? DEFAULT_PLUGIN_STATE_QUOTA_BYTES,
+    entry.grants,
   );
 }
 
-async function loadPlugins(): Promise<PluginLoadResult[]> {
-  const config = await loadPluginsConfig();
-  const results: PluginLoadResult[] = [];
-  const loaded: PluginProcess[] = [];
-  try {
-    for (const entry of config.plugins) {
-      const proc = await spawnPluginProcess(entry);
-      loaded.push(proc);
-      const manifest = await proc.ready;
-      if (manifest.extractors !== undefined) {
-        proc.extractorEntries = manifest.extractors.map((ext) => ({
-          glob: ext.glob,
-          priority: ext.priority ?? 0,
-        }));
+// Throws for channel names that are malformed, taken by the runtime, or
+// registered by two plugins.
+function checkPluginChannels(plugins: { name: string; channels: string[] }[]): void {
+  const owners = new Map<string, string>();
+  for (const { channels, name: pluginName } of plugins) {
+    for (const channel of channels) {
+      if (!CHANNEL_NAME_PATTERN.test(channel) || RESERVED_CHANNEL_NAMES.has(channel)) {
+        throw new Error(
+          `Plugin ${colors.keyword(pluginName)} channel ${colors.keyword(channel)} has an invalid name. ` +
+            `Use lowercase letters, digits and dashes, and none of: ${[...RESERVED_CHANNEL_NAMES].join(", ")}.`,
+        );
       }
-      results.push(proc.buildStubs(manifest, entry.allowOverride));
+      const owner = owners.get(channel);
+      if (owner !== undefined) {
+        throw new Error(
+          `Plugin ${colors.keyword(pluginName)} channel ${colors.keyword(channel)} collides with plugin ${colors.keyword(owner)}.`,
+        );
+      }
+      owners.set(channel, pluginName);
     }
+  }
+}
+
+async function loadPlugin(entry: PluginEntry): Promise<LoadedPlugin> {
+  const proc = await spawnPluginProcess(entry);
+  try {
+    const manifest = await proc.ready;
+    if (manifest.extractors !== undefined) {
+      proc.extractorEntries = manifest.extractors.map((ext) => ({
+        glob: ext.glob,
+        priority: ext.priority ?? 0,
+      }));
+    }
+    proc.hooks = new Set((manifest.hooks ?? []).filter((name) => isHookName(name)));
+    proc.channelEntries = manifest.channels ?? [];
+    proc.capabilities = manifest.capabilities ?? {};
+    proc.checkGrants();
+    return { entry, extractors: [], proc, result: proc.buildStubs(manifest, entry.allowOverride) };
   } catch (error) {
-    await Promise.all(loaded.map((proc) => proc.terminate().catch(() => undefined)));
+    await proc.destroy().catch(() => undefined);
     throw error;
   }
-  activePlugins.push(...loaded);
-  return results;
 }
 
 function mergeToolRegistries(
@@ -700,33 +1025,167 @@ function mergeToolRegistries(
   return merged;
 }
 
+// Loads a plugin for each of `entries`, keeping the running one where `keep`
+// returns it, and merges their tools into a registry. If a plugin fails to
+// load or they collide, the ones spawned here are destroyed again.
+async function loadPluginSet(
+  entries: readonly PluginEntry[],
+  keep: (entry: PluginEntry) => LoadedPlugin | undefined,
+): Promise<PluginSet> {
+  const plugins: LoadedPlugin[] = [];
+  const spawned: LoadedPlugin[] = [];
+  try {
+    for (const entry of entries) {
+      const kept = keep(entry);
+      if (kept !== undefined) {
+        plugins.push(kept);
+        continue;
+      }
+      const loaded = await loadPlugin(entry);
+      spawned.push(loaded);
+      plugins.push(loaded);
+    }
+    checkPluginChannels(
+      plugins.map(({ proc, result }) => ({
+        channels: proc.channelEntries.map((channel) => channel.name),
+        name: result.name,
+      })),
+    );
+    const registry = mergeToolRegistries(
+      builtinToolRegistry,
+      plugins.map((plugin) => plugin.result),
+    );
+    return { plugins, registry, spawned };
+  } catch (error) {
+    await Promise.all(spawned.map(async ({ proc }) => await proc.destroy().catch(() => undefined)));
+    throw error;
+  }
+}
+
+function deactivatePlugin(plugin: LoadedPlugin): void {
+  unregisterHookTarget(plugin.proc);
+  for (const extractor of plugin.extractors.splice(0)) {
+    unregisterExtractor(extractor);
+  }
+}
+
+// Makes `set` the running plugins: the tool registry switches over in one
+// step, and the plugins it replaces stop receiving hooks and extractions.
+function activatePluginSet(set: PluginSet): LoadedPlugin[] {
+  const retired = activePlugins.filter((plugin) => !set.plugins.includes(plugin));
+  setToolRegistry(set.registry);
+  for (const plugin of retired) {
+    deactivatePlugin(plugin);
+  }
+  for (const plugin of set.spawned) {
+    const { proc } = plugin;
+    registerHookTarget(proc);
+    // Extraction calls are forwarded to the worker over RPC.
+    for (const entry of proc.extractorEntries) {
+      const extractor: Extractor = {
+        extract: async (filePath: string, content: string) => await proc.extract(filePath, content),
+        glob: entry.glob,
+        priority: entry.priority ?? 0,
+      };
+      registerExtractor(extractor);
+      plugin.extractors.push(extractor);
+    }
+  }
+  activePlugins.splice(0, activePlugins.length, ...set.plugins);
+  return retired;
+}
+
+// A plugin channel that calls whichever process currently runs the plugin, so
+// agents keep the same channel across reloads.
+function liveChannel(pluginId: string, entry: ChannelManifestEntry): PluginChannel {
+  function current(): PluginChannel {
+    const plugin = activePlugins.find(({ proc }) => proc.id === pluginId);
+    const channel = plugin?.proc.buildChannels().find(({ name }) => name === entry.name);
+    if (channel === undefined) {
+      throw new Error(`Plugin ${pluginId} no longer provides channel ${entry.name}`);
+    }
+    return channel;
+  }
+
+  return {
+    connect: async (agentSlug, config, receive): Promise<void> => {
+      channelConnections.set(`${entry.name}:${agentSlug}`, {
+        agentSlug,
+        config,
+        name: entry.name,
+        pluginId,
+        receive,
+      });
+      await current().connect(agentSlug, config, receive);
+    },
+    fetchHistory: async (target, messageId, direction, limit): Promise<unknown> =>
+      await current().fetchHistory(target, messageId, direction, limit),
+    name: entry.name,
+    pluginId,
+    react: async (target, emoji, messageId): Promise<void> => {
+      await current().react(target, emoji, messageId);
+    },
+    send: async (target, content): Promise<unknown> => await current().send(target, content),
+    supportsFetchHistory: entry.fetchHistory,
+    supportsReactions: entry.react,
+  };
+}
+
+// The channels of every loaded plugin.
+function pluginChannels(): PluginChannel[] {
+  return activePlugins.flatMap(({ proc }) =>
+    proc.channelEntries.map((entry) => liveChannel(proc.id, entry)),
+  );
+}
+
+// Connects the channels that were connected before a reload on the plugins
+// that replaced them. Channels whose plugin is gone, or no longer provides
+// them, are forgotten.
+async function reconnectChannels(spawned: LoadedPlugin[]): Promise<void> {
+  for (const [key, connection] of channelConnections) {
+    const label = colors.keyword(`${connection.agentSlug}:${connection.name}`);
+    const plugin = activePlugins.find(({ proc }) => proc.id === connection.pluginId);
+    const hasChannel = plugin?.proc.channelEntries.some(({ name }) => name === connection.name);
+    if (plugin === undefined || hasChannel !== true) {
+      channelConnections.delete(key);
+      warning("Plugin channel", label, "is gone after the reload; it stays disconnected");
+      continue;
+    }
+    if (!spawned.includes(plugin)) {
+      continue;
+    }
+    try {
+      await liveChannel(connection.pluginId, {
+        fetchHistory: false,
+        name: connection.name,
+        react: false,
+      }).connect(connection.agentSlug, connection.config, connection.receive);
+      info("Channel", label, "is connected again through plugin", colors.keyword(plugin.proc.id));
+    } catch (error) {
+      warning(
+        "Failed to reconnect plugin channel",
+        label,
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+  }
+}
+
 async function initializePlugins(): Promise<void> {
   try {
-    const pluginResults = await loadPlugins();
-    if (pluginResults.length > 0) {
-      const merged = mergeToolRegistries(builtinToolRegistry, pluginResults);
-      setToolRegistry(merged);
-      const toolNames = pluginResults.flatMap((plugin) => Object.keys(plugin.tools));
+    const config = await loadPluginsConfig();
+    const set = await loadPluginSet(config.plugins, () => undefined);
+    activatePluginSet(set);
+    if (set.plugins.length > 0) {
+      const toolNames = set.plugins.flatMap((plugin) => Object.keys(plugin.result.tools));
       info(
         "Loaded",
-        colors.number(pluginResults.length),
+        colors.number(set.plugins.length),
         "plugins with",
         colors.number(toolNames.length),
         "tools:",
         toolNames.join(", "),
       );
-
-      // Register plugin extractors — forward extraction calls to the worker via RPC.
-      for (const proc of activePlugins) {
-        for (const extractor of proc.extractorEntries) {
-          registerExtractor({
-            extract: async (filePath: string, content: string) =>
-              await proc.extract(filePath, content),
-            glob: extractor.glob,
-            priority: extractor.priority ?? 0,
-          });
-        }
-      }
     }
   } catch (error) {
     // oxlint-disable-next-line eslint/no-use-before-define
@@ -735,17 +1194,84 @@ async function initializePlugins(): Promise<void> {
   }
 }
 
-async function destroyPlugins(): Promise<void> {
-  const procs = activePlugins.splice(0);
+async function reloadNow(ids: ReadonlySet<string> | undefined): Promise<PluginReloadResult> {
+  const config = await loadPluginsConfig();
+  const set = await loadPluginSet(config.plugins, (entry) =>
+    activePlugins.find(
+      (plugin) => isDeepStrictEqual(plugin.entry, entry) && ids?.has(plugin.proc.id) === false,
+    ),
+  );
+  const retired = activatePluginSet(set);
+
+  // Nothing new reaches the replaced plugins now; let them finish what they
+  // were doing before they go.
   await Promise.all(
-    procs.map(async (proc) => {
+    retired.map(async ({ proc }) => {
+      await proc.drain();
       try {
-        await proc.terminate();
+        await proc.destroy();
       } catch (error) {
         warning(`Plugin ${proc.id} terminate failed:`, String(error));
       }
     }),
   );
+  await reconnectChannels(set.spawned);
+
+  const loaded = set.spawned.map(({ proc }) => proc.id);
+  const unloaded = retired.map(({ proc }) => proc.id).filter((id) => !loaded.includes(id));
+  if (loaded.length === 0 && unloaded.length === 0) {
+    debug("Plugin reload changed nothing");
+    return { loaded, unloaded };
+  }
+  const summary = [
+    ...(loaded.length > 0 ? [`loaded ${loaded.join(", ")}`] : []),
+    ...(unloaded.length > 0 ? [`unloaded ${unloaded.join(", ")}`] : []),
+  ];
+  info("Reloaded plugins:", summary.join("; "));
+  return { loaded, unloaded };
+}
+
+/**
+ * Respawns the plugins in `ids`, or all of them when it's undefined, along
+ * with any whose plugins.toml entry changed; entries added to or removed from
+ * plugins.toml are loaded or unloaded. The replaced plugins finish their
+ * in-flight calls before they're destroyed, and their channels are then
+ * connected again. If anything fails to load, the running plugins are left
+ * as they were and the error is thrown.
+ */
+async function reloadPlugins(ids?: ReadonlySet<string>): Promise<PluginReloadResult> {
+  const previous = reloadTail;
+  const reload = (async (): Promise<PluginReloadResult> => {
+    // The previous reload's caller has its error.
+    await previous.catch(() => undefined);
+    return await reloadNow(ids);
+  })();
+  reloadTail = reload;
+  return await reload;
+}
+
+async function destroyPlugins(): Promise<void> {
+  const plugins = activePlugins.splice(0);
+  channelConnections.clear();
+  await Promise.all(
+    plugins.map(async (plugin) => {
+      deactivatePlugin(plugin);
+      try {
+        await plugin.proc.destroy();
+      } catch (error) {
+        warning(`Plugin ${plugin.proc.id} terminate failed:`, String(error));
+      }
+    }),
+  );
 }
 
-export { destroyPlugins, initializePlugins, loadPlugins, mergeToolRegistries, PluginProcess };
+export {
+  checkPluginChannels,
+  destroyPlugins,
+  initializePlugins,
+  mergeToolRegistries,
+  pluginChannels,
+  PluginProcess,
+  reloadPlugins,
+};
+export type { PluginChannel, PluginReloadResult };
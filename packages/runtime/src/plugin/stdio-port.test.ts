@@ -0,0 +1,100 @@
+/* oxlint-disable eslint-plugin-unicorn/require-post-message-target-origin
+   -- StdioPort.postMessage has no targetOrigin; this rule is for browser window.postMessage */
+
+import { PassThrough } from "node:stream";
+
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { RpcChannel } from "./rpc.js";
+import { MAX_FRAME_BYTES, StdioPort } from "./stdio-port.js";
+
+const channels: RpcChannel[] = [];
+
+function ignore(): void {
+  // Nothing to do.
+}
+
+function pair(): [RpcChannel, RpcChannel] {
+  const toServer = new PassThrough();
+  const toClient = new PassThrough();
+  const client = new RpcChannel(new StdioPort(toClient, (frame) => toServer.write(frame), ignore));
+  const server = new RpcChannel(new StdioPort(toServer, (frame) => toClient.write(frame), ignore));
+  channels.push(client, server);
+  return [client, server];
+}
+
+async function nextMessage(port: StdioPort): Promise<unknown> {
+  return await new Promise((resolve) => {
+    port.on("message", resolve);
+  });
+}
+
+afterEach(() => {
+  for (const chan of channels.splice(0)) {
+    chan.close();
+  }
+});
+
+describe("StdioPort", () => {
+  it("carries RPC calls, keeping bytes and errors intact", async () => {
+    const [client, server] = pair();
+    server.handle("echo", async (args) => await Promise.resolve(args));
+    server.handle("boom", async () => {
+      const err = new Error("kaboom");
+      err.name = "ToolError";
+      Object.assign(err, { hint: "try again" });
+      return await Promise.reject(err);
+    });
+
+    const echoed = await client.call("echo", [new Uint8Array([1, 2, 3]), undefined]);
+
+    expect(echoed).toStrictEqual([new Uint8Array([1, 2, 3]), undefined]);
+    await expect(client.call("boom")).rejects.toMatchObject({
+      hint: "try again",
+      message: "kaboom",
+      name: "ToolError",
+    });
+  });
+
+  it("reassembles frames split across chunks and skips corrupt ones", async () => {
+    const input = new PassThrough();
+    const frames: Buffer[] = [];
+    const sender = new StdioPort(new PassThrough(), (frame) => frames.push(frame), ignore);
+    sender.postMessage({ hello: "world" });
+    const [frame = Buffer.alloc(0)] = frames;
+    const corrupt = Buffer.from([0, 0, 0, 2, 255, 255]);
+    const receiver = new StdioPort(input, ignore, ignore);
+    const received = nextMessage(receiver);
+
+    input.write(Buffer.concat([corrupt, frame.subarray(0, 3)]));
+    input.write(frame.subarray(3));
+
+    await expect(received).resolves.toStrictEqual({ hello: "world" });
+  });
+
+  it("stops reading at a frame over the size limit", async () => {
+    const input = new PassThrough();
+    const onOversized = vi.fn();
+    const receiver = new StdioPort(input, ignore, onOversized);
+    const onMessage = vi.fn();
+    receiver.on("message", onMessage);
+    const header = Buffer.alloc(4);
+    header.writeUInt32BE(MAX_FRAME_BYTES + 1);
+
+    input.write(header);
+    await new Promise((resolve) => {
+      setImmediate(resolve);
+    });
+
+    expect(onOversized).toHaveBeenCalledWith(MAX_FRAME_BYTES + 1);
+
+    const frames: Buffer[] = [];
+    new StdioPort(new PassThrough(), (frame) => frames.push(frame), ignore).postMessage("after");
+    input.write(Buffer.concat(frames));
+    await new Promise((resolve) => {
+      setImmediate(resolve);
+    });
+
+    expect(onMessage).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,115 @@
+import { EventEmitter } from "node:events";
+import { deserialize, serialize } from "node:v8";
+
+import type { PortLike } from "./rpc.js";
+
+// Frames are a 4-byte big-endian length followed by a V8-serialized message,
+// the same structured clone a worker's postMessage uses, so Uint8Arrays and
+// undefined survive the trip.
+const LENGTH_BYTES = 4;
+
+// Well above any image or video a plugin sends; a longer length prefix means
+// the stream is garbage or hostile, and buffering it would exhaust memory.
+const MAX_FRAME_BYTES = 64 * 1024 * 1024;
+
+// Where worker-main.ts finds its WorkerInit, as JSON, when it runs as a
+// subprocess instead of a worker thread.
+const INIT_ENV = "CIREILCLAW_PLUGIN_INIT";
+
+/**
+ * A PortLike over a pair of byte streams, for plugins running as a
+ * subprocess: the runtime writes to the child's stdin and reads its stdout,
+ * and the child does the reverse. Unparseable frames are dropped, like
+ * malformed RPC messages are. A frame over MAX_FRAME_BYTES can't be skipped,
+ * so the port stops reading and reports it to `onOversized`.
+ */
+class StdioPort implements PortLike {
+  private readonly events = new EventEmitter();
+  private readonly write: (frame: Buffer) => unknown;
+  private readonly onOversized: (length: number) => void;
+  // Unparsed input, concatenated only once a whole frame is in.
+  private chunks: Buffer[] = [];
+  private bufferedBytes = 0;
+  private stopped = false;
+
+  public constructor(
+    input: NodeJS.ReadableStream,
+    write: (frame: Buffer) => unknown,
+    onOversized: (length: number) => void,
+  ) {
+    this.write = write;
+    this.onOversized = onOversized;
+    input.on("data", (chunk: Buffer) => {
+      this.onData(chunk);
+    });
+  }
+
+  public postMessage(message: unknown): void {
+    const payload = serialize(message);
+    const header = Buffer.alloc(LENGTH_BYTES);
+    header.writeUInt32BE(payload.length);
+    this.write(Buffer.concat([header, payload]));
+  }
+
+  public on(event: "message", handler: (message: unknown) => void): this {
+    this.events.on(event, handler);
+    return this;
+  }
+
+  public off(event: "message", handler: (message: unknown) => void): this {
+    this.events.off(event, handler);
+    return this;
+  }
+
+  private onData(chunk: Buffer): void {
+    if (this.stopped) {
+      return;
+    }
+    this.chunks.push(chunk);
+    this.bufferedBytes += chunk.length;
+    while (this.bufferedBytes >= LENGTH_BYTES) {
+      const length = this.frameLength();
+      if (length > MAX_FRAME_BYTES) {
+        this.stopped = true;
+        this.chunks = [];
+        this.bufferedBytes = 0;
+        this.onOversized(length);
+        return;
+      }
+      const end = LENGTH_BYTES + length;
+      if (this.bufferedBytes < end) {
+        return;
+      }
+      const buffered = this.coalesce();
+      const payload = buffered.subarray(LENGTH_BYTES, end);
+      const rest = buffered.subarray(end);
+      this.chunks = rest.length > 0 ? [rest] : [];
+      this.bufferedBytes = rest.length;
+      let message: unknown = undefined;
+      try {
+        message = deserialize(payload);
+      } catch {
+        continue;
+      }
+      this.events.emit("message", message);
+    }
+  }
+
+  // The length prefix of the next frame; needs LENGTH_BYTES buffered.
+  private frameLength(): number {
+    const [first] = this.chunks;
+    const head = first !== undefined && first.length >= LENGTH_BYTES ? first : this.coalesce();
+    return head.readUInt32BE(0);
+  }
+
+  private coalesce(): Buffer {
+    const buffered =
+      this.chunks.length === 1 && this.chunks[0] !== undefined
+        ? this.chunks[0]
+        : Buffer.concat(this.chunks, this.bufferedBytes);
+    this.chunks = [buffered];
+    return buffered;
+  }
+}
+
+export { INIT_ENV, MAX_FRAME_BYTES, StdioPort };
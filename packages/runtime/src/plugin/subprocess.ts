@@ -0,0 +1,183 @@
+/* oxlint-disable eslint-plugin-unicorn/require-post-message-target-origin
+   -- PluginSubprocess.postMessage mirrors node:worker_threads, which has no targetOrigin */
+
+import { spawn } from "node:child_process";
+import type { ChildProcessByStdio } from "node:child_process";
+import { EventEmitter, once } from "node:events";
+import { existsSync, realpathSync } from "node:fs";
+import { mkdir } from "node:fs/promises";
+import path from "node:path";
+import type { Readable, Writable } from "node:stream";
+import { fileURLToPath } from "node:url";
+import type { Worker } from "node:worker_threads";
+
+import { warning } from "#output/log.js";
+import { root } from "#util/paths.js";
+import { buildPluginBwrap, isSandboxBypassed } from "#util/sandbox.js";
+
+import type { PortLike } from "./rpc.js";
+import { pluginStateFolderSlug } from "./state.js";
+import { INIT_ENV, StdioPort } from "./stdio-port.js";
+import type { WorkerInit } from "./worker-main.js";
+
+// What PluginProcess needs of whatever runs the plugin, a worker thread or a
+// subprocess.
+interface PluginRunner extends PortLike {
+  once(event: "exit", listener: (code: number) => void): unknown;
+  once(event: "error", listener: (error: Error) => void): unknown;
+  on(event: "exit", listener: (code: number) => void): unknown;
+  on(event: "error", listener: (error: Error) => void): unknown;
+  on(event: "message", handler: (message: unknown) => void): unknown;
+  terminate(): Promise<unknown>;
+}
+
+/**
+ * A plugin running in its own Node process, with the same surface as the
+ * Worker it replaces: RPC messages travel over the child's stdin and stdout,
+ * and its stderr is the runtime's.
+ */
+class PluginSubprocess extends EventEmitter implements PluginRunner {
+  private readonly child: ChildProcessByStdio<Writable, Readable, null>;
+  private readonly port: StdioPort;
+  private exited = false;
+
+  public constructor(child: ChildProcessByStdio<Writable, Readable, null>) {
+    super();
+    this.child = child;
+    this.port = new StdioPort(
+      child.stdout,
+      (frame) => child.stdin.write(frame),
+      (length) => {
+        // The exit that follows rejects the calls still waiting on it.
+        warning(`Plugin subprocess sent a ${length}-byte frame, over the limit; killing it`);
+        child.kill("SIGKILL");
+      },
+    );
+    this.port.on("message", (message) => {
+      this.emit("message", message);
+    });
+    // Writes after the child is gone fail with EPIPE; the exit handler has
+    // already closed the RPC channel by then.
+    child.stdin.on("error", () => undefined);
+    child.on("exit", (code) => {
+      this.exited = true;
+      // Killed by a signal, as terminate() does; a Worker reports 1 then too.
+      this.emit("exit", code ?? 1);
+    });
+    child.on("error", (error) => {
+      // A child that never started won't exit either.
+      if (child.pid === undefined) {
+        this.exited = true;
+      }
+      this.emit("error", error);
+    });
+  }
+
+  public postMessage(message: unknown): void {
+    this.port.postMessage(message);
+  }
+
+  public async terminate(): Promise<void> {
+    if (this.exited) {
+      return;
+    }
+    const exited = once(this, "exit");
+    this.child.kill("SIGKILL");
+    await exited;
+  }
+}
+
+// The plugin's writable directory, shared by all agents and also its HOME.
+// ctx.pluginState stays in the per-agent state directories the runtime serves.
+function processStateDir(pluginId: string): string {
+  return path.join(root(), "plugin-state", pluginStateFolderSlug(pluginId));
+}
+
+// What of a package the subprocess loads: its manifest (for `imports` and
+// `type`), tsconfig for tsx, its sources and its dependency links.
+const PACKAGE_READ_ENTRIES = ["package.json", "tsconfig.json", "src", "node_modules"];
+
+function packageReadPaths(packageDir: string): string[] {
+  return PACKAGE_READ_ENTRIES.map((entry) => path.join(packageDir, entry)).filter((pth) =>
+    existsSync(pth),
+  );
+}
+
+// The runtime runs from its pnpm workspace checkout, and the subprocess needs
+// the runtime's own modules, the SDK, and tsx and the other dependencies,
+// which pnpm keeps in the workspace's node_modules. Nothing else of the
+// checkout is mounted: not the other packages, .git or local env files.
+function runtimeReadPaths(): string[] {
+  const packageDir = fileURLToPath(new URL("../../", import.meta.url));
+  const sdkDir = realpathSync(path.join(packageDir, "node_modules", "@cireilclaw", "sdk"));
+  const paths = [...packageReadPaths(packageDir), ...packageReadPaths(sdkDir)];
+  let dir = packageDir;
+  while (!existsSync(path.join(dir, "pnpm-workspace.yaml"))) {
+    const parent = path.dirname(dir);
+    if (parent === dir) {
+      return paths;
+    }
+    dir = parent;
+  }
+  return [...paths, path.join(dir, "node_modules")].filter((pth) => existsSync(pth));
+}
+
+/**
+ * Starts `entryPath` (the plugin worker's entry point) as a subprocess inside
+ * bwrap. It can read what it needs of the runtime and `packagePaths`, write only its own state
+ * directory, and talks to the runtime over stdio. It reaches the network only
+ * with `network`.
+ */
+async function spawnPluginSubprocess(
+  entryPath: string,
+  init: WorkerInit,
+  packagePaths: readonly string[],
+  network: boolean,
+): Promise<PluginSubprocess> {
+  const stateDir = processStateDir(init.pluginId);
+  await mkdir(stateDir, { recursive: true });
+  const nodePath = realpathSync(process.execPath);
+  const nodeArgs = [...process.execArgv, entryPath];
+  const initJson = JSON.stringify(init);
+
+  if (isSandboxBypassed()) {
+    warning(`Plugin ${init.pluginId} runs as a subprocess without bwrap; the sandbox is bypassed`);
+    const child = spawn(nodePath, nodeArgs, {
+      cwd: stateDir,
+      env: { [INIT_ENV]: initJson, HOME: stateDir, PATH: process.env["PATH"] ?? "" },
+      stdio: ["pipe", "pipe", "inherit"],
+    });
+    return new PluginSubprocess(child);
+  }
+
+  const bwrap = await buildPluginBwrap({
+    network,
+    nodePath,
+    readPaths: [
+      ...new Set([...runtimeReadPaths(), ...packagePaths].map((pth) => realpathSync(pth))),
+    ],
+    stateDir: realpathSync(stateDir),
+  });
+  if (bwrap.type === "error") {
+    throw new Error(`Plugin ${init.pluginId} could not be sandboxed: ${bwrap.message}`);
+  }
+  const [file = "bwrap", ...args] = [
+    ...bwrap.args,
+    "--setenv",
+    INIT_ENV,
+    initJson,
+    nodePath,
+    ...nodeArgs,
+  ];
+  const child = spawn(file, args, { stdio: ["pipe", "pipe", "inherit"] });
+  return new PluginSubprocess(child);
+}
+
+// Structural compatibility check — fail at type-check time if Node's Worker drifts.
+type _WorkerCompat = Worker extends PluginRunner ? true : false;
+const compatCheck: _WorkerCompat = true;
+// oxlint-disable-next-line eslint/no-void -- sink unused type-level marker
+void compatCheck;
+
+export { PluginSubprocess, spawnPluginSubprocess };
+export type { PluginRunner };
@@ -1,25 +1,36 @@
-/* oxlint-disable eslint-plugin-unicorn/require-post-message-target-origin,
-   eslint-plugin-promise/prefer-await-to-then
-   -- node:worker_threads has no targetOrigin; fire-and-forget RPCs are intentional */
+/* oxlint-disable eslint-plugin-promise/prefer-await-to-then
+   -- fire-and-forget RPCs are intentional */
 
 import { parentPort, workerData } from "node:worker_threads";
 
 import { KeyPoolManager } from "@cireilclaw/sdk";
 import type {
   BasicSession,
+  ChannelDef,
   ChannelResolution,
+  ChannelTarget,
   CryptoKeyPairBytes,
   KeyPool,
   Mount,
   Plugin,
+  PluginCapabilities,
   PluginFactory,
+  PluginHooks,
   PluginToolContext,
+  ToolCallHookEvent,
+  ToolResultHookEvent,
+  TurnEndHookEvent,
+  TurnHookEvent,
 } from "@cireilclaw/sdk";
 
 import { toJsonSchemaSafe } from "#util/schema.js";
 import { matchesGlob } from "#util/string.js";
 
+import { deniedError, mediatedFetch } from "./capabilities.js";
+import type { CapabilityAccess, CapabilityName } from "./capabilities.js";
 import { RpcChannel } from "./rpc.js";
+import type { PortLike } from "./rpc.js";
+import { INIT_ENV, StdioPort } from "./stdio-port.js";
 
 interface WorkerInit {
   entryUrl: string;
@@ -30,6 +41,8 @@ interface CtxData {
   agentSlug: string;
   session: { channel: BasicSession["channel"]; id: string };
   mounts?: readonly Mount[];
+  // The plugin's capabilities for this agent, from its grants.
+  access: CapabilityAccess;
 }
 
 interface ToolManifestEntry {
@@ -43,10 +56,20 @@ interface ExtractorManifestEntry {
   priority?: number;
 }
 
+interface ChannelManifestEntry {
+  name: string;
+  fetchHistory: boolean;
+  react: boolean;
+}
+
 interface ManifestPayload {
   pluginName: string;
   tools: ToolManifestEntry[];
   extractors?: ExtractorManifestEntry[];
+  // Names of the hooks the plugin defines, other than onLoad.
+  hooks?: string[];
+  channels?: ChannelManifestEntry[];
+  capabilities?: PluginCapabilities;
 }
 
 interface InvokeArgs {
@@ -68,13 +91,28 @@ function isPlugin(value: unknown): value is Plugin {
   if (typeof value !== "object" || value === null) {
     return false;
   }
-  const { name, tools } = value as { name?: unknown; tools?: unknown };
+  const { capabilities, channels, hooks, name, tools } = value as {
+    capabilities?: unknown;
+    channels?: unknown;
+    hooks?: unknown;
+    name?: unknown;
+    tools?: unknown;
+  };
   if (typeof name !== "string" || name.length === 0) {
     return false;
   }
   if (tools !== undefined && (typeof tools !== "object" || tools === null)) {
     return false;
   }
+  if (hooks !== undefined && (typeof hooks !== "object" || hooks === null)) {
+    return false;
+  }
+  if (channels !== undefined && (typeof channels !== "object" || channels === null)) {
+    return false;
+  }
+  if (capabilities !== undefined && (typeof capabilities !== "object" || capabilities === null)) {
+    return false;
+  }
   return true;
 }
 
@@ -95,19 +133,123 @@ function isInvokeArgs(value: unknown): value is InvokeArgs {
   );
 }
 
-function buildCtx(rpc: RpcChannel, invocationId: string, data: CtxData): PluginToolContext {
+// Calls the hook the runtime asked for. Events are built by the runtime's
+// plugin/hooks.ts; trust the channel contract like invoke-tool does.
+async function dispatchHook(hooks: PluginHooks, name: unknown, event: unknown): Promise<unknown> {
+  /* oxlint-disable typescript/no-unsafe-type-assertion -- internal RPC contract */
+  switch (name) {
+    case "onToolCall":
+      return await hooks.onToolCall?.(event as ToolCallHookEvent);
+    case "onToolResult":
+      return await hooks.onToolResult?.(event as ToolResultHookEvent);
+    case "onTurnEnd":
+      return await hooks.onTurnEnd?.(event as TurnEndHookEvent);
+    case "onTurnStart":
+      return await hooks.onTurnStart?.(event as TurnHookEvent);
+    case "onUnload":
+      return await hooks.onUnload?.();
+    default:
+      throw new Error(`Unknown hook: ${String(name)}`);
+  }
+  /* oxlint-enable typescript/no-unsafe-type-assertion */
+}
+
+// Channel calls from the runtime. Arguments are built by PluginProcess's
+// channel stubs; trust the channel contract like invoke-tool does.
+function handleChannels(rpc: RpcChannel, channels: Record<string, ChannelDef>): void {
+  function requireChannel(name: unknown): ChannelDef {
+    const def = typeof name === "string" ? channels[name] : undefined;
+    if (def === undefined) {
+      throw new Error(`Unknown channel: ${String(name)}`);
+    }
+    return def;
+  }
+
+  /* oxlint-disable typescript/no-unsafe-type-assertion -- internal RPC contract */
+  rpc.handle("channel.connect", async (args) => {
+    const [name, agentSlug, config] = args;
+    const def = requireChannel(name);
+    await def.connect({
+      agentSlug: agentSlug as string,
+      config: config as Record<string, unknown>,
+      receive: (message) => {
+        rpc.call("channel.receive", [name, agentSlug, message]).catch(() => undefined);
+      },
+    });
+    return undefined;
+  });
+  rpc.handle("channel.send", async (args) => {
+    const [name, target, content] = args;
+    return await requireChannel(name).send(target as ChannelTarget, content as string);
+  });
+  rpc.handle("channel.react", async (args) => {
+    const [name, target, emoji, messageId] = args;
+    const def = requireChannel(name);
+    if (def.react === undefined) {
+      throw new Error(`Channel ${String(name)} does not support reactions`);
+    }
+    await def.react(target as ChannelTarget, emoji as string, messageId as string);
+    return undefined;
+  });
+  rpc.handle("channel.fetchHistory", async (args) => {
+    const [name, target, messageId, direction, limit] = args;
+    const def = requireChannel(name);
+    if (def.fetchHistory === undefined) {
+      throw new Error(`Channel ${String(name)} does not support fetching history`);
+    }
+    return await def.fetchHistory(
+      target as ChannelTarget,
+      messageId as string,
+      direction as "after" | "around" | "before",
+      limit as number,
+    );
+  });
+  /* oxlint-enable typescript/no-unsafe-type-assertion */
+}
+
+function buildCtx(
+  rpc: RpcChannel,
+  invocationId: string,
+  data: CtxData,
+  plugin: Plugin,
+): PluginToolContext {
   const session: BasicSession = {
     channel: data.session.channel,
     id: (): string => data.session.id,
   };
+  const declared = plugin.capabilities ?? {};
+
+  // Capabilities the plugin can't use become stubs that throw. The runtime
+  // checks again on its side and asks the owner about "ask" grants.
+  function gate<Args extends unknown[], Result>(
+    name: CapabilityName,
+    fn: (...args: Args) => Result,
+  ): (...args: Args) => Result {
+    if (data.access[name] !== undefined) {
+      return fn;
+    }
+    return (): never => {
+      throw deniedError(plugin.name, declared, name);
+    };
+  }
+  function gateAsync<Args extends unknown[], Result>(
+    name: CapabilityName,
+    fn: (...args: Args) => Promise<Result>,
+  ): (...args: Args) => Promise<Result> {
+    if (data.access[name] !== undefined) {
+      return fn;
+    }
+    return async (): Promise<never> =>
+      await Promise.reject(deniedError(plugin.name, declared, name));
+  }
 
   return {
     addImage: (imageData: Uint8Array, mediaType: string): void => {
       rpc.call("addImage", [invocationId, imageData, mediaType]).catch(() => undefined);
     },
-    addToolMessage: (content: string): void => {
+    addToolMessage: gate("send", (content: string): void => {
       rpc.call("addToolMessage", [invocationId, content]).catch(() => undefined);
-    },
+    }),
     addVideo: (videoData: Uint8Array, mediaType: string): void => {
       rpc.call("addVideo", [invocationId, videoData, mediaType]).catch(() => undefined);
     },
@@ -125,7 +267,7 @@ function buildCtx(rpc: RpcChannel, invocationId: string, data: CtxData): PluginT
         ]),
     },
     channel: {
-      resolveChannel: async (spec): Promise<ChannelResolution> => {
+      resolveChannel: gateAsync("send", async (spec: string): Promise<ChannelResolution> => {
         const resolved = await rpc.call<
           { channel: BasicSession["channel"]; id: string } | { error: string }
         >("channel.resolveChannel", [invocationId, spec]);
@@ -136,7 +278,7 @@ function buildCtx(rpc: RpcChannel, invocationId: string, data: CtxData): PluginT
           channel: resolved.channel,
           id: (): string => resolved.id,
         };
-      },
+      }),
     },
     // KeyPool lives in the worker's process, not the runtime's. Each worker has its own
     // KeyPoolManager singleton, so rate-limit state does not cross workers or reach back
@@ -154,8 +296,15 @@ function buildCtx(rpc: RpcChannel, invocationId: string, data: CtxData): PluginT
       },
       hkdf: async (ikm, salt, info, length): Promise<Uint8Array> =>
         await rpc.call("crypto.hkdf", [invocationId, ikm, salt, info, length]),
-      loadNormalizedKey: async (opts): Promise<{ format: "pkcs8" | "spki"; data: string }> =>
-        await rpc.call("crypto.loadNormalizedKey", [invocationId, opts]),
+      loadNormalizedKey: async (opts): Promise<{ format: "pkcs8" | "spki"; data: string }> => {
+        if ("path" in opts) {
+          const name = opts.kind === "host" ? "hostKeys" : "fsRead";
+          if (data.access[name] === undefined) {
+            throw deniedError(plugin.name, declared, name);
+          }
+        }
+        return await rpc.call("crypto.loadNormalizedKey", [invocationId, opts]);
+      },
       randomBytes: async (length): Promise<Uint8Array> =>
         await rpc.call("crypto.randomBytes", [invocationId, length]),
       x25519: {
@@ -186,42 +335,63 @@ function buildCtx(rpc: RpcChannel, invocationId: string, data: CtxData): PluginT
       }),
     },
     fs: {
-      listDir: async (
-        sandboxPath,
-      ): Promise<{ name: string; isDirectory: boolean; isFile: boolean }[]> =>
-        await rpc.call("fs.listDir", [invocationId, sandboxPath]),
-      readTextFile: async (sandboxPath): Promise<string> =>
-        await rpc.call("fs.readTextFile", [invocationId, sandboxPath]),
-      stat: async (
-        sandboxPath,
-      ): Promise<{
-        ctimeMs: number;
-        isDirectory: boolean;
-        isFile: boolean;
-        mtimeMs: number;
-        size: number;
-      }> => await rpc.call("fs.stat", [invocationId, sandboxPath]),
-      writeTextFile: async (sandboxPath, content): Promise<void> => {
-        await rpc.call("fs.writeTextFile", [invocationId, sandboxPath, content]);
-      },
+      listDir: gateAsync(
+        "fsRead",
+        async (
+          sandboxPath: string,
+        ): Promise<{ name: string; isDirectory: boolean; isFile: boolean }[]> =>
+          await rpc.call("fs.listDir", [invocationId, sandboxPath]),
+      ),
+      readTextFile: gateAsync(
+        "fsRead",
+        async (sandboxPath: string): Promise<string> =>
+          await rpc.call("fs.readTextFile", [invocationId, sandboxPath]),
+      ),
+      stat: gateAsync(
+        "fsRead",
+        async (
+          sandboxPath: string,
+        ): Promise<{
+          ctimeMs: number;
+          isDirectory: boolean;
+          isFile: boolean;
+          mtimeMs: number;
+          size: number;
+        }> => await rpc.call("fs.stat", [invocationId, sandboxPath]),
+      ),
+      writeTextFile: gateAsync(
+        "fsWrite",
+        async (sandboxPath: string, content: string): Promise<void> => {
+          await rpc.call("fs.writeTextFile", [invocationId, sandboxPath, content]);
+        },
+      ),
     },
     ids: {
       ulid: async (): Promise<string> => await rpc.call("ids.ulid", [invocationId]),
     },
     mounts: data.mounts,
     net: {
-      fetch: globalThis.fetch.bind(globalThis),
+      fetch: mediatedFetch({
+        access: data.access,
+        ask: async (hostname): Promise<void> => {
+          await rpc.call("capabilities.ask", [invocationId, "net", hostname]);
+        },
+        declared,
+        pluginId: plugin.name,
+      }),
     },
     paths: {
-      checkConditionalAccess: async (sandboxPath: string): Promise<void> => {
+      checkConditionalAccess: gateAsync("fsRead", async (sandboxPath: string): Promise<void> => {
         await rpc.call("paths.checkConditionalAccess", [invocationId, sandboxPath]);
-      },
-      checkWriteAccess: async (sandboxPath: string): Promise<void> => {
+      }),
+      checkWriteAccess: gateAsync("fsWrite", async (sandboxPath: string): Promise<void> => {
         await rpc.call("paths.checkWriteAccess", [invocationId, sandboxPath]);
-      },
-      // oxlint-disable-next-line typescript/require-await
-      resolve: async (sandboxPath: string): Promise<string> =>
-        rpc.call<string>("paths.resolve", [invocationId, sandboxPath]),
+      }),
+      resolve: gateAsync(
+        "fsRead",
+        async (sandboxPath: string): Promise<string> =>
+          await rpc.call<string>("paths.resolve", [invocationId, sandboxPath]),
+      ),
     },
     pluginState: {
       readText: async (name: string): Promise<string | undefined> =>
@@ -234,18 +404,18 @@ function buildCtx(rpc: RpcChannel, invocationId: string, data: CtxData): PluginT
       },
     },
     reply: {
-      react: async (emoji, messageId) => {
+      react: gateAsync("send", async (emoji: string, messageId?: string): Promise<void> => {
         await rpc.call("reply.react", [invocationId, emoji, messageId]);
-      },
-      send: async (content, attachments) => {
+      }),
+      send: gateAsync("send", async (content: string, attachments?: string[]): Promise<void> => {
         await rpc.call("reply.send", [invocationId, content, attachments]);
-      },
+      }),
     },
     session,
   };
 }
 
-async function main(parent: NonNullable<typeof parentPort>, init: WorkerInit): Promise<void> {
+async function main(parent: PortLike, init: WorkerInit): Promise<void> {
   const rpc = new RpcChannel(parent);
 
   const mod: unknown = await import(init.entryUrl);
@@ -260,9 +430,12 @@ async function main(parent: NonNullable<typeof parentPort>, init: WorkerInit): P
   const plugin: unknown = await factory();
   if (!isPlugin(plugin)) {
     throw new TypeError(
-      `Plugin ${init.pluginId} factory must return an object with a non-empty string 'name' and optional 'tools' object`,
+      `Plugin ${init.pluginId} factory must return an object with a non-empty string 'name' and optional 'tools' and 'hooks' objects`,
     );
   }
+  const hooks = plugin.hooks ?? {};
+  await hooks.onLoad?.();
+
   const toolMap = plugin.tools ?? {};
   const manifestEntries: ToolManifestEntry[] = [];
   for (const [registeredName, def] of Object.entries(toolMap)) {
@@ -286,7 +459,7 @@ async function main(parent: NonNullable<typeof parentPort>, init: WorkerInit): P
     if (def === undefined) {
       throw new Error(`Plugin ${plugin.name} has no tool ${raw.toolName}`);
     }
-    const ctx = buildCtx(rpc, raw.invocationId, raw.ctx);
+    const ctx = buildCtx(rpc, raw.invocationId, raw.ctx, plugin);
     // Plugin tools accept PluginToolContext; ctx built above matches that shape exactly.
     return await def.execute(raw.input, ctx);
   });
@@ -308,26 +481,65 @@ async function main(parent: NonNullable<typeof parentPort>, init: WorkerInit): P
     return [];
   });
 
+  handleChannels(rpc, plugin.channels ?? {});
+
+  rpc.handle("hook", async (args) => {
+    const [name, event] = args;
+    return await dispatchHook(hooks, name, event);
+  });
+
   const manifest: ManifestPayload = {
+    capabilities: plugin.capabilities ?? {},
+    channels: Object.entries(plugin.channels ?? {}).map(([name, def]) => ({
+      fetchHistory: def.fetchHistory !== undefined,
+      name,
+      react: def.react !== undefined,
+    })),
     extractors: plugin.extractors?.map((ext) => ({ glob: ext.glob, priority: ext.priority })),
+    hooks: Object.entries(hooks)
+      .filter(([name, fn]) => name !== "onLoad" && typeof fn === "function")
+      .map(([name]) => name),
     pluginName: plugin.name,
     tools: manifestEntries,
   };
   await rpc.call("manifest", [manifest]);
 }
 
-if (parentPort === null) {
-  throw new Error("plugin worker must be spawned with a parentPort");
+// As a worker thread, the plugin talks to the runtime over parentPort. As a
+// subprocess, it gets its init in the environment and talks over stdio; stdout
+// then carries nothing but RPC frames, so whatever the plugin prints goes to
+// stderr.
+function connect(): { init: WorkerInit; port: PortLike } {
+  if (parentPort !== null) {
+    // oxlint-disable-next-line typescript/no-unsafe-type-assertion -- workerData is any-typed
+    return { init: workerData as WorkerInit, port: parentPort };
+  }
+  const raw = process.env[INIT_ENV];
+  if (raw === undefined) {
+    throw new Error("plugin worker must be spawned with a parentPort or as a plugin subprocess");
+  }
+  // oxlint-disable-next-line typescript/no-unsafe-type-assertion -- written by spawnPluginSubprocess
+  const init = JSON.parse(raw) as WorkerInit;
+  const writeFrame = process.stdout.write.bind(process.stdout);
+  process.stdout.write = process.stderr.write.bind(process.stderr);
+  // The runtime closing our stdin means it's gone.
+  process.stdin.on("end", () => {
+    process.exit(0);
+  });
+  // Only a broken runtime sends oversized frames; nothing to recover.
+  const port = new StdioPort(process.stdin, writeFrame, () => {
+    process.exit(1);
+  });
+  return { init, port };
 }
 
-// oxlint-disable-next-line typescript/no-unsafe-type-assertion -- workerData is any-typed
-const init = workerData as WorkerInit;
+const { init, port } = connect();
 
 try {
-  await main(parentPort, init);
+  await main(port, init);
 } catch (error: unknown) {
   const message = error instanceof Error ? error.message : String(error);
-  parentPort.postMessage({
+  port.postMessage({
     args: [message],
     id: -1,
     kind: "req",
@@ -337,6 +549,7 @@ try {
 }
 
 export type {
+  ChannelManifestEntry,
   CtxData,
   ExtractorManifestEntry,
   InvokeArgs,
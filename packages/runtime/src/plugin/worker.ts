@@ -1,5 +1,6 @@
 // Bootstrap: register tsx's default ESM loader hook before importing the real worker.
-// Without this, plugin worker threads can't resolve .ts files or workspace TS packages.
+// Without this, plugin worker threads and subprocesses can't resolve .ts files or workspace
+// TS packages.
 // Static imports hoist, so we must dynamic-import the implementation after register().
 import { register } from "tsx/esm/api";
 
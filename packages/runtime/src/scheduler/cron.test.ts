@@ -1,4 +1,4 @@
-import { describe, expect, it, vi } from "vitest";
+import { afterEach, describe, expect, it, vi } from "vitest";
 
 import type { Agent } from "#agent/index.js";
 import type { CronJobConfig } from "#config/cron.js";
@@ -23,15 +23,29 @@ const job: CronJobConfig = {
 };
 
 describe("runCronJob", () => {
-  it("keeps a one-shot pending when its target is busy", async () => {
+  afterEach(() => {
+    vi.clearAllMocks();
+    vi.useRealTimers();
+  });
+
+  it("runs a one-shot once its busy target frees up instead of skipping it", async () => {
+    vi.useFakeTimers();
+    const session = { busy: true, history: [], id: (): string => "session" };
     const agent = {
-      resolveTarget: vi.fn().mockResolvedValue({ busy: true, id: (): string => "session" }),
+      resolveTarget: vi.fn().mockResolvedValue(session),
+      runScheduledTurn: vi.fn().mockResolvedValue(undefined),
       slug: "test",
     };
 
-    // oxlint-disable-next-line typescript/no-unsafe-type-assertion -- this path only resolves a target.
-    await expect(runCronJob(agent as unknown as Agent, job)).resolves.toBe(false);
-    expect(deleteCronJob).not.toHaveBeenCalled();
+    // oxlint-disable-next-line typescript/no-unsafe-type-assertion -- mocked agent exposes this execution path.
+    const ran = runCronJob(agent as unknown as Agent, job);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(agent.runScheduledTurn).not.toHaveBeenCalled();
+
+    session.busy = false;
+    await vi.advanceTimersByTimeAsync(1000);
+    await expect(ran).resolves.toBe(true);
+    expect(deleteCronJob).toHaveBeenCalledWith("test", "report");
   });
 
   it("keeps a one-shot pending when the target is missing", async () => {
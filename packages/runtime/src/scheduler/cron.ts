@@ -4,6 +4,7 @@ import type { Agent } from "#agent/index.js";
 import type { CronJobConfig } from "#config/cron.js";
 import { deleteCronJob, updateLastRun } from "#db/cron.js";
 import { saveSession } from "#db/sessions.js";
+import { enqueue } from "#harness/queue.js";
 import { InternalSession } from "#harness/session.js";
 import colors from "#output/colors.js";
 import { debug, warning } from "#output/log.js";
@@ -83,41 +84,41 @@ async function runMainSession(agent: Agent, job: CronJobConfig): Promise<boolean
     return false;
   }
 
-  if (session.busy) {
-    debug(
-      "Cron: session",
-      colors.keyword(session.id()),
-      "busy — skipping job",
-      colors.keyword(job.id),
-    );
-    return false;
-  }
-
-  session.busy = true;
-  const historyLengthBefore = session.history.length;
-  session.history.push({
-    content: { content: job.prompt, type: "text" },
-    role: "user",
-    timestamp: Date.now(),
+  // Queued behind whatever the session is doing; a busy session delays the job
+  // instead of skipping it.
+  let ran = false;
+  await enqueue(session, {
+    kind: "cron",
+    run: async (): Promise<void> => {
+      const historyLengthBefore = session.history.length;
+      session.history.push({
+        content: { content: job.prompt, type: "text" },
+        role: "user",
+        timestamp: Date.now(),
+      });
+
+      try {
+        await agent.runScheduledTurn(
+          session,
+          {
+            model: job.model,
+            provider: job.provider,
+          },
+          "cron",
+        );
+        debug("Cron: main-session job", colors.keyword(job.id), "completed");
+        ran = true;
+      } catch (error) {
+        session.history.length = historyLengthBefore;
+        const reason = sanitizeError(error, agent.slug);
+        warning("Cron: error in main-session job", colors.keyword(job.id), reason);
+        await deliverOutput(agent, job, `⚠️ Engine error: ${reason}`, MessageFlags.EPHEMERAL);
+      } finally {
+        saveSession(agent.slug, session);
+      }
+    },
   });
-
-  try {
-    await agent.runScheduledTurn(session, {
-      model: job.model,
-      provider: job.provider,
-    });
-    debug("Cron: main-session job", colors.keyword(job.id), "completed");
-    return true;
-  } catch (error) {
-    session.history.length = historyLengthBefore;
-    const reason = sanitizeError(error, agent.slug);
-    warning("Cron: error in main-session job", colors.keyword(job.id), reason);
-    await deliverOutput(agent, job, `⚠️ Engine error: ${reason}`, MessageFlags.EPHEMERAL);
-    return false;
-  } finally {
-    session.busy = false;
-    saveSession(agent.slug, session);
-  }
+  return ran;
 }
 
 async function runIsolatedSession(agent: Agent, job: CronJobConfig): Promise<boolean> {
@@ -137,10 +138,14 @@ async function runIsolatedSession(agent: Agent, job: CronJobConfig): Promise<boo
   });
 
   try {
-    await agent.runScheduledTurn(session, {
-      model: job.model,
-      provider: job.provider,
-    });
+    await agent.runScheduledTurn(
+      session,
+      {
+        model: job.model,
+        provider: job.provider,
+      },
+      "cron",
+    );
     debug("Cron: isolated job", colors.keyword(job.id), "completed");
   } catch (error) {
     const reason = sanitizeError(error, agent.slug);
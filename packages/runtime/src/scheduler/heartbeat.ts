@@ -5,6 +5,7 @@ import path from "node:path";
 import type { Agent } from "#agent/index.js";
 import type { HeartbeatConfig } from "#config/heartbeat.js";
 import { saveSession } from "#db/sessions.js";
+import { enqueue, queueDepth } from "#harness/queue.js";
 import colors from "#output/colors.js";
 import { debug, warning } from "#output/log.js";
 import { formatRelativeTime } from "#util/date.js";
@@ -98,71 +99,78 @@ async function runHeartbeat(agent: Agent, cfg: HeartbeatConfig): Promise<void> {
     return;
   }
 
-  if (session.busy) {
-    debug("Heartbeat: session", colors.keyword(session.id()), "is busy — skipping");
+  // One pending heartbeat is enough; a second would only re-check the same list.
+  if (queueDepth(session).heartbeat > 0) {
+    debug("Heartbeat: one is already queued for", colors.keyword(session.id()), "— skipping");
     return;
   }
 
-  session.busy = true;
-
-  let capturedContent: string | undefined = undefined;
-  const previousFilter = session.sendFilter;
-  session.sendFilter = (content: string): boolean => {
-    capturedContent = content;
-    const isOk = content.trim() === HEARTBEAT_OK;
-
-    if (isOk) {
-      return cfg.visibility.showOk;
-    }
-    return cfg.visibility.showAlerts;
-  };
-
-  const historyLengthBefore = session.history.length;
-  const now = Date.now();
-
-  let prompt = "[HEARTBEAT] Evaluate your heartbeat checklist.\n\n";
-  if (session.lastHeartbeatAt !== undefined) {
-    prompt += `It has been ${formatRelativeTime(now - session.lastHeartbeatAt)} since the previous heartbeat.\n`;
-  }
-  prompt += `Next heartbeat will likely happen in ${formatRelativeTime(cfg.interval * 1000)}.\n\n`;
-  prompt += checklist;
-
-  session.history.push({
-    content: {
-      content: prompt,
-      type: "text",
+  await enqueue(session, {
+    kind: "heartbeat",
+    run: async (): Promise<void> => {
+      let capturedContent: string | undefined = undefined;
+      const previousFilter = session.sendFilter;
+      session.sendFilter = (content: string): boolean => {
+        capturedContent = content;
+        const isOk = content.trim() === HEARTBEAT_OK;
+
+        if (isOk) {
+          return cfg.visibility.showOk;
+        }
+        return cfg.visibility.showAlerts;
+      };
+
+      const historyLengthBefore = session.history.length;
+      const now = Date.now();
+
+      let prompt = "[HEARTBEAT] Evaluate your heartbeat checklist.\n\n";
+      if (session.lastHeartbeatAt !== undefined) {
+        prompt += `It has been ${formatRelativeTime(now - session.lastHeartbeatAt)} since the previous heartbeat.\n`;
+      }
+      prompt += `Next heartbeat will likely happen in ${formatRelativeTime(cfg.interval * 1000)}.\n\n`;
+      prompt += checklist;
+
+      session.history.push({
+        content: {
+          content: prompt,
+          type: "text",
+        },
+        persist: false,
+        role: "user",
+        timestamp: now,
+      });
+      session.lastHeartbeatAt = now;
+
+      try {
+        await agent.runScheduledTurn(
+          session,
+          {
+            model: cfg.model,
+            provider: cfg.provider,
+          },
+          "heartbeat",
+        );
+
+        const cc = capturedContent as string | undefined;
+        debug(
+          "Heartbeat: completed for agent",
+          colors.keyword(agent.slug),
+          cc?.trim() === HEARTBEAT_OK ? "(OK)" : "(alert)",
+        );
+      } catch (error) {
+        // Roll back history on failure to avoid a stranded heartbeat message.
+        session.history.length = historyLengthBefore;
+        warning(
+          "Heartbeat: error during turn for agent",
+          colors.keyword(agent.slug),
+          error instanceof Error ? error.message : String(error),
+        );
+      } finally {
+        session.sendFilter = previousFilter;
+        saveSession(agent.slug, session);
+      }
     },
-    persist: false,
-    role: "user",
-    timestamp: now,
   });
-  session.lastHeartbeatAt = now;
-
-  try {
-    await agent.runScheduledTurn(session, {
-      model: cfg.model,
-      provider: cfg.provider,
-    });
-
-    const cc = capturedContent as string | undefined;
-    debug(
-      "Heartbeat: completed for agent",
-      colors.keyword(agent.slug),
-      cc?.trim() === HEARTBEAT_OK ? "(OK)" : "(alert)",
-    );
-  } catch (error) {
-    // Roll back history on failure to avoid a stranded heartbeat message.
-    session.history.length = historyLengthBefore;
-    warning(
-      "Heartbeat: error during turn for agent",
-      colors.keyword(agent.slug),
-      error instanceof Error ? error.message : String(error),
-    );
-  } finally {
-    session.sendFilter = previousFilter;
-    session.busy = false;
-    saveSession(agent.slug, session);
-  }
 }
 
 export { isWithinActiveHours, runHeartbeat };
@@ -2,9 +2,12 @@ import { describe, expect, it } from "vitest";
 
 import type { BlockRule, Condition, PathRule } from "#config/schemas/conditions.js";
 import {
+  ApiSession,
   DiscordSession,
   InternalSession,
+  MatrixSession,
   NamedInternalSession,
+  PluginSession,
   TuiSession,
 } from "#harness/session.js";
 import {
@@ -12,6 +15,8 @@ import {
   evaluate,
   evaluateRule,
   getMatchingBlockNames,
+  resolveExecAccess,
+  resolvePathAccess,
 } from "#util/conditions.js";
 
 function makeDiscord(opts: {
@@ -144,6 +149,77 @@ describe("evaluate", () => {
     });
   });
 
+  describe("matrix:dm", () => {
+    it("matches a direct Matrix room", () => {
+      expect(
+        evaluate("matrix:dm", new MatrixSession({ isDirect: true, roomId: "!a:example.org" })),
+      ).toBe(true);
+    });
+
+    it("does not match a group Matrix room", () => {
+      expect(evaluate("matrix:dm", new MatrixSession({ roomId: "!a:example.org" }))).toBe(false);
+    });
+
+    it("does not match a Discord DM", () => {
+      expect(evaluate("matrix:dm", makeDiscord({}))).toBe(false);
+    });
+  });
+
+  describe("matrix:room:<roomId>", () => {
+    it("matches the room ID even though it contains colons", () => {
+      expect(
+        evaluate("matrix:room:!a:example.org", new MatrixSession({ roomId: "!a:example.org" })),
+      ).toBe(true);
+    });
+
+    it("does not match a different room", () => {
+      expect(
+        evaluate("matrix:room:!a:example.org", new MatrixSession({ roomId: "!b:example.org" })),
+      ).toBe(false);
+    });
+  });
+
+  describe("api", () => {
+    it("matches any API session", () => {
+      expect(evaluate("api", new ApiSession({ name: "main" }))).toBe(true);
+    });
+
+    it("does not match other channels", () => {
+      expect(evaluate("api", new TuiSession())).toBe(false);
+    });
+  });
+
+  describe("api:session:<name>", () => {
+    it("matches the named session only", () => {
+      expect(evaluate("api:session:main", new ApiSession({ name: "main" }))).toBe(true);
+      expect(evaluate("api:session:main", new ApiSession({ name: "ci" }))).toBe(false);
+    });
+  });
+
+  describe("plugin:<channel>", () => {
+    it("matches sessions on that plugin channel only", () => {
+      const session = new PluginSession({ conversationId: "C1", pluginChannel: "slack" });
+      expect(evaluate("plugin:slack", session)).toBe(true);
+      expect(evaluate("plugin:irc", session)).toBe(false);
+      expect(evaluate("plugin:slack", new TuiSession())).toBe(false);
+    });
+
+    it("matches direct conversations with :dm", () => {
+      expect(
+        evaluate(
+          "plugin:slack:dm",
+          new PluginSession({ conversationId: "D1", isDirect: true, pluginChannel: "slack" }),
+        ),
+      ).toBe(true);
+      expect(
+        evaluate(
+          "plugin:slack:dm",
+          new PluginSession({ conversationId: "C1", pluginChannel: "slack" }),
+        ),
+      ).toBe(false);
+    });
+  });
+
   it("returns false for unknown conditions", () => {
     expect(evaluate("unknown:thing", makeDiscord({}))).toBe(false);
   });
@@ -387,3 +463,63 @@ describe("checkPathAccess", () => {
     expect(checkPathAccess("/nsfw", rules, makeDiscord({ isNsfw: true }))).toBe(false);
   });
 });
+
+describe("resolvePathAccess", () => {
+  it("asks when an ask rule matches conditions", () => {
+    const rules: Record<string, PathRule> = {
+      "/deploy/": { action: "ask", mode: "or", when: "discord:dm" },
+    };
+    expect(resolvePathAccess("/deploy/prod.env", rules, makeDiscord({}))).toBe("ask");
+  });
+
+  it("lets a deny rule win over an ask rule", () => {
+    const rules: Record<string, PathRule> = {
+      "/deploy/": { action: "ask", mode: "or", when: "discord:dm" },
+      "/deploy/prod.env": { action: "deny", mode: "or", when: "discord:dm" },
+    };
+    expect(resolvePathAccess("/deploy/prod.env", rules, makeDiscord({}))).toBe("deny");
+  });
+
+  it("lets an ask rule win over an allow rule", () => {
+    const rules: Record<string, PathRule> = {
+      "/": { action: "allow", mode: "or", when: "tui" },
+      "/deploy/": { action: "ask", mode: "or", when: "tui" },
+    };
+    expect(resolvePathAccess("/deploy/prod.env", rules, new TuiSession())).toBe("ask");
+  });
+
+  it("keeps paths under an ask rule readable for checkPathAccess", () => {
+    const rules: Record<string, PathRule> = {
+      "/deploy/": { action: "ask", mode: "or", when: "tui" },
+    };
+    expect(checkPathAccess("/deploy/prod.env", rules, new TuiSession())).toBe(true);
+  });
+});
+
+describe("resolveExecAccess", () => {
+  it("allows commands without a rule", () => {
+    expect(
+      resolveExecAccess("ls", { rm: { action: "ask", mode: "or", when: "tui" } }, new TuiSession()),
+    ).toBe("allow");
+  });
+
+  it("matches a rule by command name when given a full path", () => {
+    expect(
+      resolveExecAccess(
+        "/usr/bin/rm",
+        { rm: { action: "ask", mode: "or", when: "tui" } },
+        new TuiSession(),
+      ),
+    ).toBe("ask");
+  });
+
+  it("denies a command whose only rule's conditions don't hold", () => {
+    expect(
+      resolveExecAccess(
+        "git",
+        { git: { action: "allow", mode: "or", when: "discord:dm" } },
+        new TuiSession(),
+      ),
+    ).toBe("deny");
+  });
+});
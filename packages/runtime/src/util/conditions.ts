@@ -1,4 +1,4 @@
-import type { BlockRule, Condition, PathRule } from "#config/schemas/conditions.js";
+import type { BlockRule, Condition, PathAction, PathRule } from "#config/schemas/conditions.js";
 import type { Session } from "#harness/session.js";
 
 function evaluate(condition: Condition, session: Session): boolean {
@@ -11,6 +11,10 @@ function evaluate(condition: Condition, session: Session): boolean {
     result = session.channel === "tui";
   } else if (base === "internal") {
     result = session.channel === "internal";
+  } else if (base === "api") {
+    result = session.channel === "api";
+  } else if (base.startsWith("api:session:")) {
+    result = session.channel === "api" && session.name === base.slice("api:session:".length);
   } else if (base.startsWith("discord:")) {
     // All discord conditions require a discord session
     if (session.channel === "discord") {
@@ -41,6 +45,25 @@ function evaluate(condition: Condition, session: Session): boolean {
     } else {
       result = false;
     }
+  } else if (base.startsWith("matrix:")) {
+    // Room IDs contain colons themselves, so match on prefixes instead of splitting.
+    if (session.channel === "matrix") {
+      if (base === "matrix:dm") {
+        result = session.isDirect;
+      } else if (base.startsWith("matrix:room:")) {
+        result = session.roomId === base.slice("matrix:room:".length);
+      } else {
+        result = false;
+      }
+    } else {
+      result = false;
+    }
+  } else if (base.startsWith("plugin:")) {
+    const [, pluginChannel, part2] = base.split(":");
+    result =
+      session.channel === "plugin" &&
+      session.pluginChannel === pluginChannel &&
+      (part2 === undefined || (part2 === "dm" && session.isDirect));
   } else {
     result = false;
   }
@@ -85,16 +108,32 @@ function getMatchingBlockNames(
   return matching;
 }
 
-function checkPathAccess(
+// Deny wins over ask, and ask over allow. Once any rule names the path or
+// command, it is only allowed when one of them says so.
+function resolveAction(rules: readonly PathRule[], session: Session): PathAction {
+  if (rules.length === 0) {
+    return "allow";
+  }
+
+  for (const action of ["deny", "ask", "allow"] as const) {
+    if (rules.some((rule) => rule.action === action && evaluateRule(rule, session))) {
+      return action;
+    }
+  }
+
+  return "deny";
+}
+
+function resolvePathAccess(
   sandboxPath: string,
   rules: Record<string, PathRule> | undefined,
   session: Session,
-): boolean {
+): PathAction {
   if (rules === undefined) {
-    return true;
+    return "allow";
   }
 
-  const matchingRules: { path: string; rule: PathRule }[] = [];
+  const matchingRules: PathRule[] = [];
 
   for (const [rulePath, rule] of Object.entries(rules)) {
     const normalizedRulePath = rulePath.startsWith("/") ? rulePath : `/${rulePath}`;
@@ -104,30 +143,46 @@ function checkPathAccess(
         sandboxPath.startsWith(normalizedRulePath) ||
         sandboxPath === normalizedRulePath.slice(0, -1)
       ) {
-        matchingRules.push({ path: normalizedRulePath, rule });
+        matchingRules.push(rule);
       }
     } else if (sandboxPath === normalizedRulePath) {
-      matchingRules.push({ path: normalizedRulePath, rule });
+      matchingRules.push(rule);
     }
   }
 
-  if (matchingRules.length === 0) {
-    return true;
-  }
+  return resolveAction(matchingRules, session);
+}
 
-  for (const { rule } of matchingRules) {
-    if (rule.action === "deny" && evaluateRule(rule, session)) {
-      return false;
-    }
-  }
+// Paths under an "ask" rule stay readable; writing to them needs approval,
+// which callers handle separately.
+function checkPathAccess(
+  sandboxPath: string,
+  rules: Record<string, PathRule> | undefined,
+  session: Session,
+): boolean {
+  return resolvePathAccess(sandboxPath, rules, session) !== "deny";
+}
 
-  for (const { rule } of matchingRules) {
-    if (rule.action === "allow" && evaluateRule(rule, session)) {
-      return true;
-    }
+// `command` is what the agent passed to exec; a rule for "git" also covers
+// "/usr/bin/git".
+function resolveExecAccess(
+  command: string,
+  rules: Record<string, PathRule> | undefined,
+  session: Session,
+): PathAction {
+  if (rules === undefined) {
+    return "allow";
   }
-
-  return false;
+  const name = command.slice(command.lastIndexOf("/") + 1);
+  const matchingRules = [rules[command], rules[name]].filter((rule) => rule !== undefined);
+  return resolveAction(matchingRules, session);
 }
 
-export { checkPathAccess, evaluate, evaluateRule, getMatchingBlockNames };
+export {
+  checkPathAccess,
+  evaluate,
+  evaluateRule,
+  getMatchingBlockNames,
+  resolveExecAccess,
+  resolvePathAccess,
+};
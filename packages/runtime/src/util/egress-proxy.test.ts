@@ -0,0 +1,142 @@
+import { mkdtempSync, readFileSync } from "node:fs";
+import { createServer, request } from "node:http";
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import path from "node:path";
+
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { debug } from "#output/log.js";
+import {
+  egressLogPath,
+  ensureEgressProxy,
+  isEgressAllowed,
+  stopEgressProxies,
+} from "#util/egress-proxy.js";
+
+vi.mock("#output/log.js", () => ({
+  debug: vi.fn(),
+  warning: vi.fn(),
+}));
+
+afterEach(async () => {
+  await stopEgressProxies();
+  vi.unstubAllEnvs();
+});
+
+async function startOrigin(): Promise<{ port: number; server: Server }> {
+  const server = createServer((req, res) => {
+    res.end(`origin saw ${req.url}`);
+  });
+  await new Promise<void>((resolve) => {
+    server.listen(0, "127.0.0.1", resolve);
+  });
+  // oxlint-disable-next-line typescript/no-unsafe-type-assertion
+  return { port: (server.address() as AddressInfo).port, server };
+}
+
+async function proxiedGet(
+  socketPath: string,
+  url: string,
+): Promise<{ body: string; status: number }> {
+  return await new Promise((resolve, reject) => {
+    const req = request({ path: url, socketPath }, (res) => {
+      let body = "";
+      res.on("data", (chunk: Buffer) => {
+        body += chunk.toString("utf8");
+      });
+      res.on("end", () => {
+        resolve({ body, status: res.statusCode ?? 0 });
+      });
+    });
+    req.on("error", reject);
+    req.end();
+  });
+}
+
+async function connectStatus(socketPath: string, authority: string): Promise<number> {
+  return await new Promise((resolve, reject) => {
+    const req = request({ method: "CONNECT", path: authority, socketPath });
+    req.on("connect", (res, socket) => {
+      socket.destroy();
+      resolve(res.statusCode ?? 0);
+    });
+    req.on("error", reject);
+    req.end();
+  });
+}
+
+describe("isEgressAllowed", () => {
+  const rules = [
+    { host: "example.com", ports: [443] },
+    { host: "*.github.com", ports: [80, 443] },
+  ];
+
+  it("matches exact hosts on their ports only", () => {
+    expect(isEgressAllowed(rules, "example.com", 443)).toBe(true);
+    expect(isEgressAllowed(rules, "EXAMPLE.com.", 443)).toBe(true);
+    expect(isEgressAllowed(rules, "example.com", 80)).toBe(false);
+    expect(isEgressAllowed(rules, "api.example.com", 443)).toBe(false);
+  });
+
+  it("matches wildcard rules against subdomains but not the bare domain", () => {
+    expect(isEgressAllowed(rules, "api.github.com", 443)).toBe(true);
+    expect(isEgressAllowed(rules, "github.com", 443)).toBe(false);
+    expect(isEgressAllowed(rules, "evilgithub.com", 443)).toBe(false);
+  });
+});
+
+describe("ensureEgressProxy", () => {
+  it("forwards allowed requests, refuses others and logs both", async () => {
+    vi.stubEnv("HOME", mkdtempSync(path.join(tmpdir(), "egress-")));
+    const origin = await startOrigin();
+    try {
+      const socketPath = await ensureEgressProxy("agent", [
+        { host: "127.0.0.1", ports: [origin.port] },
+      ]);
+
+      expect(await proxiedGet(socketPath, `http://127.0.0.1:${origin.port}/ping?x=1`)).toEqual({
+        body: "origin saw /ping?x=1",
+        status: 200,
+      });
+      expect(await connectStatus(socketPath, `127.0.0.1:${origin.port}`)).toBe(200);
+      const blocked = await proxiedGet(socketPath, "http://localhost:1/");
+      expect(blocked.status).toBe(403);
+      expect(await connectStatus(socketPath, "example.com:443")).toBe(403);
+
+      // Rules are swapped in place for the running proxy.
+      expect(await ensureEgressProxy("agent", [])).toBe(socketPath);
+      expect(await connectStatus(socketPath, `127.0.0.1:${origin.port}`)).toBe(403);
+
+      const entries = readFileSync(egressLogPath("agent"), "utf8")
+        .trim()
+        .split("\n")
+        // oxlint-disable-next-line typescript/no-unsafe-type-assertion
+        .map((line) => JSON.parse(line) as Record<string, unknown>);
+      expect(entries.map(({ allowed, host, method }) => [method, host, allowed])).toEqual([
+        ["GET", "127.0.0.1", true],
+        ["CONNECT", "127.0.0.1", true],
+        ["GET", "localhost", false],
+        ["CONNECT", "example.com", false],
+        ["CONNECT", "127.0.0.1", false],
+      ]);
+    } finally {
+      origin.server.close();
+    }
+  });
+
+  it("starts one proxy for concurrent callers", async () => {
+    vi.stubEnv("HOME", mkdtempSync(path.join(tmpdir(), "egress-")));
+    vi.mocked(debug).mockClear();
+
+    const [first, second] = await Promise.all([
+      ensureEgressProxy("agent", []),
+      ensureEgressProxy("agent", []),
+    ]);
+
+    expect(second).toBe(first);
+    expect(debug).toHaveBeenCalledOnce();
+    expect(await connectStatus(first, "example.com:443")).toBe(403);
+  });
+});
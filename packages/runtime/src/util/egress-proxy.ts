@@ -0,0 +1,284 @@
+import { appendFileSync, chmodSync, mkdirSync, rmSync } from "node:fs";
+import { createServer, request } from "node:http";
+import type { IncomingHttpHeaders, Server } from "node:http";
+import { connect } from "node:net";
+import type { Socket } from "node:net";
+import path from "node:path";
+
+import type { EgressRule } from "#config/schemas/sandbox.js";
+import { debug, warning } from "#output/log.js";
+import { onShutdown } from "#util/shutdown.js";
+
+import { root } from "./paths.js";
+
+// Where the proxy listens inside the sandbox. Both backends forward this
+// loopback port to the runtime's per-agent Unix socket.
+const EGRESS_PROXY_PORT = 3128;
+
+interface EgressProxy {
+  rules: readonly EgressRule[];
+  server: Server;
+  socketPath: string;
+}
+
+interface EgressEntry {
+  agent: string;
+  allowed: boolean;
+  host: string;
+  method: string;
+  port: number;
+  ts: string;
+}
+
+const proxies = new Map<string, EgressProxy>();
+// Proxies still starting, so concurrent commands of an agent share one.
+const startups = new Map<string, Promise<EgressProxy>>();
+let shutdownHookRegistered = false;
+
+function egressSocketPath(agentSlug: string): string {
+  return path.join(root(), "agents", agentSlug, "run", "egress.sock");
+}
+
+function egressLogPath(agentSlug: string): string {
+  return path.join(root(), "agents", agentSlug, "logs", "egress.jsonl");
+}
+
+// Proxy settings for commands in the sandbox. Most HTTP clients read one
+// spelling or the other, so both are set.
+function egressEnvironment(): { key: string; value: string }[] {
+  const url = `http://127.0.0.1:${EGRESS_PROXY_PORT}`;
+  return [
+    ...["HTTP_PROXY", "HTTPS_PROXY", "ALL_PROXY", "http_proxy", "https_proxy", "all_proxy"].map(
+      (key) => ({ key, value: url }),
+    ),
+    { key: "NO_PROXY", value: "localhost,127.0.0.1" },
+    { key: "no_proxy", value: "localhost,127.0.0.1" },
+  ];
+}
+
+function normalizeHost(host: string): string {
+  const bare = host.startsWith("[") && host.endsWith("]") ? host.slice(1, -1) : host;
+  return bare.toLowerCase().replace(/\.$/u, "");
+}
+
+function isEgressAllowed(rules: readonly EgressRule[], host: string, port: number): boolean {
+  const name = normalizeHost(host);
+  return rules.some((rule) => {
+    if (!rule.ports.includes(port)) {
+      return false;
+    }
+    if (rule.host.startsWith("*.")) {
+      return name.endsWith(rule.host.slice(1));
+    }
+    return name === rule.host;
+  });
+}
+
+function logConnection(agentSlug: string, entry: Omit<EgressEntry, "agent" | "ts">): void {
+  const line: EgressEntry = { agent: agentSlug, ts: new Date().toISOString(), ...entry };
+  debug(line, "Sandbox egress");
+  try {
+    appendFileSync(egressLogPath(agentSlug), `${JSON.stringify(line)}\n`, { encoding: "utf8" });
+  } catch (error) {
+    warning({ agent: agentSlug, error }, "Failed to write sandbox egress log");
+  }
+}
+
+// Hop-by-hop and proxy headers are for this proxy, not for the origin server.
+function forwardHeaders(headers: IncomingHttpHeaders): IncomingHttpHeaders {
+  const forwarded: IncomingHttpHeaders = {};
+  for (const [key, value] of Object.entries(headers)) {
+    if (key.startsWith("proxy-") || key === "connection" || key === "keep-alive") {
+      continue;
+    }
+    forwarded[key] = value;
+  }
+  return forwarded;
+}
+
+function parseAuthority(authority: string): { host: string; port: number } | undefined {
+  try {
+    const url = new URL(`http://${authority}`);
+    const port = Number(url.port);
+    if (url.hostname.length === 0 || !Number.isInteger(port) || port < 1) {
+      return undefined;
+    }
+    return { host: normalizeHost(url.hostname), port };
+  } catch {
+    return undefined;
+  }
+}
+
+function createEgressServer(agentSlug: string, proxy: () => EgressProxy): Server {
+  const server = createServer((req, res) => {
+    // oxlint-disable-next-line init-declarations
+    let target: URL;
+    try {
+      target = new URL(req.url ?? "");
+    } catch {
+      res.writeHead(400).end("Only absolute http:// URLs can be proxied\n");
+      return;
+    }
+    if (target.protocol !== "http:") {
+      res.writeHead(400).end("Only absolute http:// URLs can be proxied\n");
+      return;
+    }
+
+    const host = normalizeHost(target.hostname);
+    const port = target.port === "" ? 80 : Number(target.port);
+    const allowed = isEgressAllowed(proxy().rules, host, port);
+    logConnection(agentSlug, { allowed, host, method: req.method ?? "GET", port });
+    if (!allowed) {
+      res.writeHead(403).end(`Blocked by the sandbox network policy: ${host}:${port}\n`);
+      return;
+    }
+
+    const upstream = request(
+      {
+        headers: forwardHeaders(req.headers),
+        host,
+        method: req.method,
+        path: `${target.pathname}${target.search}`,
+        port,
+      },
+      (upstreamRes) => {
+        res.writeHead(upstreamRes.statusCode ?? 502, upstreamRes.headers);
+        upstreamRes.pipe(res);
+      },
+    );
+    upstream.on("error", (error) => {
+      if (res.headersSent) {
+        res.destroy();
+        return;
+      }
+      res.writeHead(502).end(`Upstream connection failed: ${error.message}\n`);
+    });
+    req.pipe(upstream);
+  });
+
+  server.on("connect", (req, clientSocket: Socket, head: Buffer) => {
+    const authority = parseAuthority(req.url ?? "");
+    if (authority === undefined) {
+      clientSocket.end("HTTP/1.1 400 Bad Request\r\n\r\n");
+      return;
+    }
+
+    const { host, port } = authority;
+    const allowed = isEgressAllowed(proxy().rules, host, port);
+    logConnection(agentSlug, { allowed, host, method: "CONNECT", port });
+    if (!allowed) {
+      clientSocket.end(
+        `HTTP/1.1 403 Forbidden\r\n\r\nBlocked by the sandbox network policy: ${host}:${port}\n`,
+      );
+      return;
+    }
+
+    const upstream = connect(port, host, () => {
+      clientSocket.write("HTTP/1.1 200 Connection Established\r\n\r\n");
+      upstream.write(head);
+      upstream.pipe(clientSocket);
+      clientSocket.pipe(upstream);
+    });
+    upstream.on("error", () => {
+      if (clientSocket.writable && upstream.connecting) {
+        clientSocket.end("HTTP/1.1 502 Bad Gateway\r\n\r\n");
+      } else {
+        clientSocket.destroy();
+      }
+    });
+    clientSocket.on("error", () => {
+      upstream.destroy();
+    });
+  });
+
+  return server;
+}
+
+async function stopEgressProxies(): Promise<void> {
+  const running = [...proxies.values()];
+  proxies.clear();
+  await Promise.all(
+    running.map(async ({ server, socketPath }) => {
+      await new Promise<void>((resolve) => {
+        server.close(() => {
+          rmSync(socketPath, { force: true });
+          resolve();
+        });
+        server.closeAllConnections();
+      });
+    }),
+  );
+}
+
+function registerShutdownHook(): void {
+  if (shutdownHookRegistered) {
+    return;
+  }
+  shutdownHookRegistered = true;
+  onShutdown(stopEgressProxies);
+}
+
+async function startEgressProxy(
+  agentSlug: string,
+  rules: readonly EgressRule[],
+): Promise<EgressProxy> {
+  const socketPath = egressSocketPath(agentSlug);
+  mkdirSync(path.dirname(socketPath), { recursive: true });
+  mkdirSync(path.dirname(egressLogPath(agentSlug)), { recursive: true });
+  // A socket left behind by a previous run would make listen() fail.
+  rmSync(socketPath, { force: true });
+
+  const proxy: EgressProxy = {
+    rules,
+    server: createEgressServer(agentSlug, () => proxy),
+    socketPath,
+  };
+  await new Promise<void>((resolve, reject) => {
+    proxy.server.once("error", reject);
+    proxy.server.listen(socketPath, () => {
+      proxy.server.off("error", reject);
+      resolve();
+    });
+  });
+  chmodSync(socketPath, 0o600);
+  proxies.set(agentSlug, proxy);
+  registerShutdownHook();
+  debug({ agent: agentSlug, socketPath }, "Started sandbox egress proxy");
+  return proxy;
+}
+
+/**
+ * Starts the agent's egress proxy if it isn't running yet, and returns the
+ * host path of its Unix socket. The rules are replaced on every call, so
+ * sandbox.toml edits apply from the next command on.
+ */
+async function ensureEgressProxy(agentSlug: string, rules: readonly EgressRule[]): Promise<string> {
+  const existing = proxies.get(agentSlug);
+  if (existing !== undefined) {
+    existing.rules = rules;
+    return existing.socketPath;
+  }
+
+  let startup = startups.get(agentSlug);
+  if (startup === undefined) {
+    startup = startEgressProxy(agentSlug, rules);
+    startups.set(agentSlug, startup);
+  }
+  try {
+    const proxy = await startup;
+    proxy.rules = rules;
+    return proxy.socketPath;
+  } finally {
+    // Started or failed, the next call looks again; a failed start is retried.
+    startups.delete(agentSlug);
+  }
+}
+
+export {
+  EGRESS_PROXY_PORT,
+  egressEnvironment,
+  egressLogPath,
+  ensureEgressProxy,
+  isEgressAllowed,
+  stopEgressProxies,
+};
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+
+import { escapeRegExp, globToRegExp } from "#util/glob.js";
+
+function matches(glob: string, paths: string[]): string[] {
+  const matcher = globToRegExp(glob);
+  return paths.filter((pth) => matcher.test(pth));
+}
+
+const PATHS = [
+  "README.md",
+  "notes/today.md",
+  "notes/2026/jan.md",
+  "src/index.ts",
+  "src/index.test.ts",
+  "src/util/paths.ts",
+  "data.json",
+  "a+b (1).txt",
+];
+
+describe("globToRegExp", () => {
+  it("keeps * and ? within one directory level", () => {
+    expect(matches("*.md", PATHS)).toStrictEqual(["README.md"]);
+    expect(matches("notes/*.md", PATHS)).toStrictEqual(["notes/today.md"]);
+    expect(matches("src/index.??.ts", PATHS)).toStrictEqual([]);
+    expect(matches("src/index.????.ts", PATHS)).toStrictEqual(["src/index.test.ts"]);
+  });
+
+  it("lets ** span any number of levels, including none", () => {
+    expect(matches("**/*.md", PATHS)).toStrictEqual([
+      "README.md",
+      "notes/today.md",
+      "notes/2026/jan.md",
+    ]);
+    expect(matches("src/**", PATHS)).toStrictEqual([
+      "src/index.ts",
+      "src/index.test.ts",
+      "src/util/paths.ts",
+    ]);
+    expect(matches("src/**/paths.ts", PATHS)).toStrictEqual(["src/util/paths.ts"]);
+  });
+
+  it("supports alternatives and character sets", () => {
+    expect(matches("*.{json,md}", PATHS)).toStrictEqual(["README.md", "data.json"]);
+    expect(matches("src/{index.{ts,js},util/*}", PATHS)).toStrictEqual([
+      "src/index.ts",
+      "src/util/paths.ts",
+    ]);
+    expect(matches("[a-d]*", PATHS)).toStrictEqual(["data.json", "a+b (1).txt"]);
+    expect(matches("[!a-d]*.md", PATHS)).toStrictEqual(["README.md"]);
+  });
+
+  it("matches regular expression characters literally", () => {
+    expect(matches("a+b (1).txt", PATHS)).toStrictEqual(["a+b (1).txt"]);
+    expect(new RegExp(escapeRegExp("1.5*(x)"), "u").test("v1.5*(x)")).toBe(true);
+  });
+});
@@ -0,0 +1,66 @@
+// Characters with a meaning in regular expressions.
+const REGEXP_SPECIAL = /[$()*+.?[\\\]^{|}]/gu;
+
+function escapeRegExp(value: string): string {
+  return value.replaceAll(REGEXP_SPECIAL, String.raw`\$&`);
+}
+
+/**
+ * Compiles a glob over "/"-separated relative paths into an anchored RegExp.
+ * `*` and `?` stay within one path segment, `**` spans any number of them,
+ * `{a,b}` picks one alternative (nesting allowed) and `[abc]`/`[!abc]` match
+ * one character from a set.
+ */
+function globToRegExp(glob: string): RegExp {
+  let source = "";
+  let braceDepth = 0;
+
+  for (let idx = 0; idx < glob.length; idx++) {
+    const char = glob.charAt(idx);
+
+    if (char === "*") {
+      if (glob.charAt(idx + 1) === "*") {
+        const atSegmentStart = idx === 0 || glob.charAt(idx - 1) === "/";
+        idx++;
+        if (atSegmentStart && glob.charAt(idx + 1) === "/") {
+          // "**/" also matches no directories at all.
+          source += "(?:.*/)?";
+          idx++;
+        } else {
+          source += ".*";
+        }
+      } else {
+        source += "[^/]*";
+      }
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "[") {
+      const end = glob.indexOf("]", idx + 2);
+      if (end === -1) {
+        source += String.raw`\[`;
+      } else {
+        const body = glob.slice(idx + 1, end);
+        const negated = body.startsWith("!");
+        const members = (negated ? body.slice(1) : body).replaceAll("\\", String.raw`\\`);
+        source += negated ? `[^/${members}]` : `[${members}]`;
+        idx = end;
+      }
+    } else if (char === "{") {
+      braceDepth++;
+      source += "(?:";
+    } else if (char === "," && braceDepth > 0) {
+      source += "|";
+    } else if (char === "}" && braceDepth > 0) {
+      braceDepth--;
+      source += ")";
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+
+  // An unclosed brace matches its alternatives up to the end.
+  source += ")".repeat(braceDepth);
+  return new RegExp(`^${source}$`, "u");
+}
+
+export { escapeRegExp, globToRegExp };
@@ -344,4 +344,324 @@ describe("execIncus", (): void => {
       ),
     ).toBe(true);
   });
+
+  it("masks profile NICs and adds the egress proxy device in allowlist mode", async () => {
+    mockedSpawn.mockImplementation((_command, args) => {
+      const argsList = Array.isArray(args) ? args : [];
+      if (argsList.includes("list")) {
+        return fakeChildProcess('[{"status":"Running"}]');
+      }
+      if (argsList.includes("get")) {
+        const uid = process.getuid?.() ?? 1000;
+        const gid = process.getgid?.() ?? 1000;
+        return fakeChildProcess(`uid ${uid} ${uid}\ngid ${gid} ${gid}`);
+      }
+      if (argsList.includes("--expanded")) {
+        return fakeChildProcess(
+          "config: {}\ndevices:\n  eth0:\n    network: incusbr0\n    type: nic\n  root:\n    path: /\n    type: disk\n",
+        );
+      }
+      if (argsList.includes("show")) {
+        return fakeChildProcess("{}");
+      }
+      if (argsList.includes("exec")) {
+        return fakeChildProcess("hello\n");
+      }
+      return fakeChildProcess();
+    });
+
+    const result = await execIncus({
+      agentSlug: "test-agent",
+      args: [],
+      command: "curl",
+      egressSocket: "/home/test/.cireilclaw/agents/test-agent/run/egress.sock",
+      envVars: [],
+      incus: { image: "images:fedora/43", profiles: [] },
+      mounts: [],
+      network: { allow: [{ host: "example.com", ports: [443] }], mode: "allowlist" },
+      timeout: 5000,
+    });
+
+    expect(result.type).toBe("output");
+    const calls = mockedSpawn.mock.calls.map(([, args]) => args);
+    expect(calls).toContainEqual([
+      "config",
+      "device",
+      "add",
+      "cireilclaw-test-agent",
+      "eth0",
+      "none",
+    ]);
+    expect(calls).toContainEqual([
+      "config",
+      "set",
+      "cireilclaw-test-agent",
+      "user.cireilclaw.masked-nics",
+      "eth0",
+    ]);
+    expect(calls).toContainEqual([
+      "config",
+      "device",
+      "add",
+      "cireilclaw-test-agent",
+      "cireilclaw-egress",
+      "proxy",
+      "bind=instance",
+      "listen=tcp:127.0.0.1:3128",
+      "connect=unix:/home/test/.cireilclaw/agents/test-agent/run/egress.sock",
+    ]);
+    expect(calls).toContainEqual(
+      expect.arrayContaining(["exec", "--env", "HTTPS_PROXY=http://127.0.0.1:3128", "curl"]),
+    );
+  });
+
+  it("restores masked NICs and drops the proxy device in host mode", async () => {
+    mockedSpawn.mockImplementation((_command, args) => {
+      const argsList = Array.isArray(args) ? args : [];
+      if (argsList.includes("list")) {
+        return fakeChildProcess('[{"status":"Running"}]');
+      }
+      if (argsList.includes("get")) {
+        const uid = process.getuid?.() ?? 1000;
+        const gid = process.getgid?.() ?? 1000;
+        return fakeChildProcess(`uid ${uid} ${uid}\ngid ${gid} ${gid}`);
+      }
+      if (argsList.includes("--expanded")) {
+        return fakeChildProcess(
+          "config:\n  user.cireilclaw.masked-nics: eth0\ndevices:\n  cireilclaw-egress:\n    type: proxy\n  eth0:\n    type: none\n",
+        );
+      }
+      if (argsList.includes("show")) {
+        return fakeChildProcess("{}");
+      }
+      if (argsList.includes("exec")) {
+        return fakeChildProcess("hello\n");
+      }
+      return fakeChildProcess();
+    });
+
+    await execIncus({
+      agentSlug: "test-agent",
+      args: [],
+      command: "hostname",
+      envVars: [],
+      incus: { image: "images:fedora/43", profiles: [] },
+      mounts: [],
+      network: { allow: [], mode: "host" },
+      timeout: 5000,
+    });
+
+    const calls = mockedSpawn.mock.calls.map(([, args]) => args);
+    expect(calls).toContainEqual(["config", "device", "remove", "cireilclaw-test-agent", "eth0"]);
+    expect(calls).toContainEqual([
+      "config",
+      "unset",
+      "cireilclaw-test-agent",
+      "user.cireilclaw.masked-nics",
+    ]);
+    expect(calls).toContainEqual([
+      "config",
+      "device",
+      "remove",
+      "cireilclaw-test-agent",
+      "cireilclaw-egress",
+    ]);
+  });
+
+  it("sets and unsets instance limits to match sandbox.toml", async () => {
+    mockedSpawn.mockImplementation((_command, args) => {
+      const argsList = Array.isArray(args) ? args : [];
+      if (argsList.includes("list")) {
+        return fakeChildProcess('[{"status":"Running"}]');
+      }
+      if (argsList.includes("get")) {
+        const uid = process.getuid?.() ?? 1000;
+        const gid = process.getgid?.() ?? 1000;
+        return fakeChildProcess(`uid ${uid} ${uid}\ngid ${gid} ${gid}`);
+      }
+      if (argsList.includes("show")) {
+        return fakeChildProcess(
+          'config:\n  limits.memory: 1024B\n  limits.memory.swap: "false"\n  limits.processes: "10"\n',
+        );
+      }
+      if (argsList.includes("exec")) {
+        return fakeChildProcess("hello\n");
+      }
+      return fakeChildProcess();
+    });
+
+    await execIncus({
+      agentSlug: "test-agent",
+      args: [],
+      command: "hostname",
+      envVars: [],
+      incus: { image: "images:fedora/43", profiles: [] },
+      limits: { cpus: 0.5, memoryBytes: 1024 },
+      mounts: [],
+      timeout: 5000,
+    });
+
+    const calls = mockedSpawn.mock.calls
+      .map(([, args]) => args)
+      .filter((args) => Array.isArray(args) && (args.includes("set") || args.includes("unset")));
+    expect(calls).toEqual([
+      ["config", "set", "cireilclaw-test-agent", "limits.cpu.allowance", "50ms/100ms"],
+      ["config", "unset", "cireilclaw-test-agent", "limits.processes"],
+    ]);
+  });
+
+  it("replaces the instance's own NICs, saving them for host mode", async () => {
+    mockedSpawn.mockImplementation((_command, args) => {
+      const argsList = Array.isArray(args) ? args : [];
+      if (argsList.includes("list")) {
+        return fakeChildProcess('[{"status":"Running"}]');
+      }
+      if (argsList.includes("get")) {
+        const uid = process.getuid?.() ?? 1000;
+        const gid = process.getgid?.() ?? 1000;
+        return fakeChildProcess(`uid ${uid} ${uid}\ngid ${gid} ${gid}`);
+      }
+      if (argsList.includes("show")) {
+        return fakeChildProcess(
+          "config: {}\ndevices:\n  eth0:\n    network: incusbr0\n    type: nic\n",
+        );
+      }
+      if (argsList.includes("exec")) {
+        return fakeChildProcess("hello\n");
+      }
+      return fakeChildProcess();
+    });
+
+    await execIncus({
+      agentSlug: "local-nic-agent",
+      args: [],
+      command: "hostname",
+      envVars: [],
+      incus: { image: "images:fedora/43", profiles: [] },
+      mounts: [],
+      network: { allow: [], mode: "none" },
+      timeout: 5000,
+    });
+
+    const calls = mockedSpawn.mock.calls
+      .map(([, args]) => args)
+      .filter((args) => Array.isArray(args) && args.includes("config") && !args.includes("show"))
+      .filter((args) => Array.isArray(args) && !args.includes("get"));
+    expect(calls).toEqual([
+      ["config", "device", "remove", "cireilclaw-local-nic-agent", "eth0"],
+      ["config", "device", "add", "cireilclaw-local-nic-agent", "eth0", "none"],
+      ["config", "set", "cireilclaw-local-nic-agent", "user.cireilclaw.masked-nics", "eth0"],
+      [
+        "config",
+        "set",
+        "cireilclaw-local-nic-agent",
+        "user.cireilclaw.saved-nics",
+        '{"eth0":{"network":"incusbr0","type":"nic"}}',
+      ],
+    ]);
+  });
+
+  it("adds saved NICs back in host mode", async () => {
+    mockedSpawn.mockImplementation((_command, args) => {
+      const argsList = Array.isArray(args) ? args : [];
+      if (argsList.includes("list")) {
+        return fakeChildProcess('[{"status":"Running"}]');
+      }
+      if (argsList.includes("get")) {
+        const uid = process.getuid?.() ?? 1000;
+        const gid = process.getgid?.() ?? 1000;
+        return fakeChildProcess(`uid ${uid} ${uid}\ngid ${gid} ${gid}`);
+      }
+      if (argsList.includes("--expanded")) {
+        return fakeChildProcess(
+          `config:\n  user.cireilclaw.masked-nics: eth0\n  user.cireilclaw.saved-nics: '{"eth0":{"network":"incusbr0","type":"nic"}}'\ndevices:\n  eth0:\n    type: none\n`,
+        );
+      }
+      if (argsList.includes("show")) {
+        return fakeChildProcess("{}");
+      }
+      if (argsList.includes("exec")) {
+        return fakeChildProcess("hello\n");
+      }
+      return fakeChildProcess();
+    });
+
+    await execIncus({
+      agentSlug: "saved-nic-agent",
+      args: [],
+      command: "hostname",
+      envVars: [],
+      incus: { image: "images:fedora/43", profiles: [] },
+      mounts: [],
+      network: { allow: [], mode: "host" },
+      timeout: 5000,
+    });
+
+    const calls = mockedSpawn.mock.calls.map(([, args]) => args);
+    expect(calls).toContainEqual([
+      "config",
+      "device",
+      "remove",
+      "cireilclaw-saved-nic-agent",
+      "eth0",
+    ]);
+    expect(calls).toContainEqual([
+      "config",
+      "device",
+      "add",
+      "cireilclaw-saved-nic-agent",
+      "eth0",
+      "nic",
+      "network=incusbr0",
+    ]);
+    expect(calls).toContainEqual([
+      "config",
+      "unset",
+      "cireilclaw-saved-nic-agent",
+      "user.cireilclaw.saved-nics",
+    ]);
+  });
+
+  it("queries the configuration of a running instance once", async () => {
+    mockedSpawn.mockImplementation((_command, args) => {
+      const argsList = Array.isArray(args) ? args : [];
+      if (argsList.includes("list")) {
+        return fakeChildProcess('[{"status":"Running"}]');
+      }
+      if (argsList.includes("get")) {
+        const uid = process.getuid?.() ?? 1000;
+        const gid = process.getgid?.() ?? 1000;
+        return fakeChildProcess(`uid ${uid} ${uid}\ngid ${gid} ${gid}`);
+      }
+      if (argsList.includes("show")) {
+        return fakeChildProcess("{}");
+      }
+      if (argsList.includes("exec")) {
+        return fakeChildProcess("hello\n");
+      }
+      return fakeChildProcess();
+    });
+    const cfg = {
+      agentSlug: "cached-agent",
+      args: [],
+      command: "hostname",
+      envVars: [],
+      incus: { image: "images:fedora/43", profiles: [] },
+      limits: {},
+      mounts: [],
+      network: { allow: [], mode: "none" as const },
+      timeout: 5000,
+    };
+
+    await execIncus(cfg);
+    await execIncus(cfg);
+
+    const shows = mockedSpawn.mock.calls
+      .map(([, args]) => args)
+      .filter((args) => Array.isArray(args) && args.includes("show") && !args.includes("device"));
+    expect(shows).toEqual([
+      ["config", "show", "cireilclaw-cached-agent", "--expanded"],
+      ["config", "show", "cireilclaw-cached-agent"],
+    ]);
+  });
 });
@@ -3,9 +3,11 @@ import { createHash } from "node:crypto";
 
 import { parse as parseYaml } from "yaml";
 
-import type { IncusConfig, Mount } from "#config/schemas/sandbox.js";
+import type { IncusConfig, LimitsConfig, Mount, NetworkConfig } from "#config/schemas/sandbox.js";
 import { onShutdown } from "#util/shutdown.js";
 
+import { EGRESS_PROXY_PORT, egressEnvironment } from "./egress-proxy.js";
+import { incusLimitKeys } from "./limits.js";
 import { root } from "./paths.js";
 
 interface EnvVar {
@@ -17,9 +19,13 @@ interface IncusExecConfig {
   agentSlug: string;
   args: string[];
   command: string;
+  // Host path of the egress proxy socket; set in allowlist mode.
+  egressSocket?: string;
   envVars: EnvVar[];
   incus: IncusConfig;
+  limits?: LimitsConfig;
   mounts: readonly Mount[];
+  network?: NetworkConfig;
   timeout: number;
 }
 
@@ -37,6 +43,14 @@ interface ExecError {
 
 type ExecResult = ExecOutput | ExecError;
 
+const EGRESS_DEVICE = "cireilclaw-egress";
+// Profile NICs masked by a `none` device of the same name, so that switching
+// back to host mode knows which ones to restore.
+const MASKED_NICS_KEY = "user.cireilclaw.masked-nics";
+// The instance's own NICs, as JSON, which masking had to remove; host mode
+// adds them back.
+const SAVED_NICS_KEY = "user.cireilclaw.saved-nics";
+
 const activeInstances = new Map<string, { incus: IncusConfig; name: string }>();
 let shutdownHookRegistered = false;
 
@@ -47,6 +61,18 @@ interface DiskDevice {
   target: string;
 }
 
+interface InstanceConfig {
+  config: Record<string, unknown>;
+  devices: Record<string, unknown>;
+}
+
+// `incus config show` of each instance, as defined on the instance itself and
+// expanded with its profiles, by activeInstanceKey. The network and limit
+// reconcilers drop the entry when they change the instance, and it's
+// refetched whenever the instance isn't running yet; profile edits made
+// outside the runtime show up after a restart.
+const instanceConfigs = new Map<string, { local: InstanceConfig; expanded: InstanceConfig }>();
+
 interface IncusDevice {
   path?: unknown;
   readonly?: unknown;
@@ -127,6 +153,10 @@ function projectArgs(incus: IncusConfig): string[] {
   return incus.project === undefined ? [] : ["--project", incus.project];
 }
 
+function activeInstanceKey(incus: IncusConfig, name: string): string {
+  return `${incus.project ?? "default"}:${name}`;
+}
+
 function customDeviceName(target: string): string {
   return `workspace-${createHash("sha256").update(target).digest("hex").slice(0, 12)}`;
 }
@@ -275,6 +305,213 @@ async function reconcileMounts(
   await addDiskDevices(incus, name, [...desired.values()]);
 }
 
+async function showConfig(
+  incus: IncusConfig,
+  name: string,
+  extraArgs: string[],
+): Promise<InstanceConfig> {
+  const result = await capture(
+    [...projectArgs(incus), "config", "show", name, ...extraArgs],
+    30_000,
+  );
+  if (result.exitCode !== 0) {
+    throw new Error(`Failed to query Incus configuration for '${name}': ${result.stderr}`);
+  }
+  const parsed: unknown = parseYaml(result.stdout);
+  if (!isRecord(parsed)) {
+    throw new Error("Incus returned an invalid configuration response");
+  }
+  return {
+    config: isRecord(parsed["config"]) ? parsed["config"] : {},
+    devices: isRecord(parsed["devices"]) ? parsed["devices"] : {},
+  };
+}
+
+async function instanceConfig(
+  incus: IncusConfig,
+  name: string,
+): Promise<{ local: InstanceConfig; expanded: InstanceConfig }> {
+  const key = activeInstanceKey(incus, name);
+  const cached = instanceConfigs.get(key);
+  if (cached !== undefined) {
+    return cached;
+  }
+  const shown = {
+    expanded: await showConfig(incus, name, ["--expanded"]),
+    local: await showConfig(incus, name, []),
+  };
+  instanceConfigs.set(key, shown);
+  return shown;
+}
+
+function forgetInstanceConfig(incus: IncusConfig, name: string): void {
+  instanceConfigs.delete(activeInstanceKey(incus, name));
+}
+
+async function setConfigKey(
+  incus: IncusConfig,
+  name: string,
+  key: string,
+  value: string | undefined,
+): Promise<void> {
+  const args = value === undefined ? ["unset", name, key] : ["set", name, key, value];
+  const result = await capture([...projectArgs(incus), "config", ...args], 30_000);
+  if (result.exitCode !== 0) {
+    throw new Error(`Failed to update Incus configuration for '${name}': ${result.stderr}`);
+  }
+}
+
+async function configureDevice(incus: IncusConfig, name: string, args: string[]): Promise<void> {
+  const result = await capture([...projectArgs(incus), "config", "device", ...args], 30_000);
+  if (result.exitCode !== 0) {
+    throw new Error(`Failed to update Incus network devices for '${name}': ${result.stderr}`);
+  }
+}
+
+function parseSavedNics(value: unknown): Record<string, Record<string, string>> {
+  if (typeof value !== "string" || value.length === 0) {
+    return {};
+  }
+  const parsed: unknown = JSON.parse(value);
+  if (!isRecord(parsed)) {
+    return {};
+  }
+  const saved: Record<string, Record<string, string>> = {};
+  for (const [nic, device] of Object.entries(parsed)) {
+    if (isRecord(device)) {
+      saved[nic] = Object.fromEntries(
+        Object.entries(device).map(([key, setting]) => [key, String(setting)]),
+      );
+    }
+  }
+  return saved;
+}
+
+// Applies the sandbox network mode. "none" and "allowlist" mask every NIC the
+// profiles provide, and remove the instance's own, saving them; "allowlist"
+// then adds a proxy device that forwards the in-container proxy port to the
+// runtime's egress proxy socket.
+async function reconcileNetwork(
+  incus: IncusConfig,
+  name: string,
+  network: NetworkConfig,
+  egressSocket: string | undefined,
+): Promise<void> {
+  const { expanded, local } = await instanceConfig(incus, name);
+  const maskedValue = expanded.config[MASKED_NICS_KEY];
+  const masked =
+    typeof maskedValue === "string" && maskedValue.length > 0 ? maskedValue.split(",") : [];
+  const saved = parseSavedNics(expanded.config[SAVED_NICS_KEY]);
+  let changed = false;
+
+  if (network.mode === "host") {
+    for (const nic of masked) {
+      await configureDevice(incus, name, ["remove", name, nic]);
+    }
+    for (const [nic, { type = "nic", ...settings }] of Object.entries(saved)) {
+      await configureDevice(incus, name, [
+        "add",
+        name,
+        nic,
+        type,
+        ...Object.entries(settings).map(([key, value]) => `${key}=${value}`),
+      ]);
+    }
+    if (masked.length > 0) {
+      await setConfigKey(incus, name, MASKED_NICS_KEY, undefined);
+    }
+    if (Object.keys(saved).length > 0) {
+      await setConfigKey(incus, name, SAVED_NICS_KEY, undefined);
+    }
+    changed = masked.length > 0 || Object.keys(saved).length > 0;
+  } else {
+    const nics = Object.entries(expanded.devices)
+      .filter(([, device]) => isRecord(device) && device["type"] === "nic")
+      .map(([deviceName]) => deviceName);
+    for (const nic of nics) {
+      // A device of the instance's own can't be masked, only replaced.
+      const own = local.devices[nic];
+      if (isRecord(own)) {
+        saved[nic] = Object.fromEntries(
+          Object.entries(own).map(([key, value]) => [key, String(value)]),
+        );
+        await configureDevice(incus, name, ["remove", name, nic]);
+      }
+      await configureDevice(incus, name, ["add", name, nic, "none"]);
+    }
+    if (nics.length > 0) {
+      await setConfigKey(incus, name, MASKED_NICS_KEY, [...masked, ...nics].join(","));
+      if (Object.keys(saved).length > 0) {
+        await setConfigKey(incus, name, SAVED_NICS_KEY, JSON.stringify(saved));
+      }
+      changed = true;
+    }
+  }
+
+  const egress = expanded.devices[EGRESS_DEVICE];
+  if (network.mode === "allowlist" && egressSocket !== undefined) {
+    const connect = `connect=unix:${egressSocket}`;
+    if (!isRecord(egress)) {
+      await configureDevice(incus, name, [
+        "add",
+        name,
+        EGRESS_DEVICE,
+        "proxy",
+        "bind=instance",
+        `listen=tcp:127.0.0.1:${EGRESS_PROXY_PORT}`,
+        connect,
+      ]);
+      changed = true;
+    } else if (`connect=${String(egress["connect"])}` !== connect) {
+      await configureDevice(incus, name, ["set", name, EGRESS_DEVICE, connect]);
+      changed = true;
+    }
+  } else if (egress !== undefined) {
+    await configureDevice(incus, name, ["remove", name, EGRESS_DEVICE]);
+    changed = true;
+  }
+
+  if (changed) {
+    forgetInstanceConfig(incus, name);
+  }
+}
+
+// Sets the instance limit keys sandbox.toml asks for and unsets the ones it
+// no longer does. Only the instance's own keys are touched; profile values
+// show through again once unset.
+async function reconcileLimits(
+  incus: IncusConfig,
+  name: string,
+  limits: LimitsConfig,
+): Promise<void> {
+  const { local } = await instanceConfig(incus, name);
+  const { config } = local;
+  let changed = false;
+
+  for (const [key, value] of Object.entries(incusLimitKeys(limits))) {
+    const current = config[key];
+    if (value === undefined) {
+      if (current !== undefined) {
+        const unset = await capture([...projectArgs(incus), "config", "unset", name, key], 30_000);
+        if (unset.exitCode !== 0) {
+          throw new Error(`Failed to unset Incus limit '${key}' on '${name}': ${unset.stderr}`);
+        }
+        changed = true;
+      }
+    } else if (String(current) !== value) {
+      const set = await capture([...projectArgs(incus), "config", "set", name, key, value], 30_000);
+      if (set.exitCode !== 0) {
+        throw new Error(`Failed to set Incus limit '${key}' on '${name}': ${set.stderr}`);
+      }
+      changed = true;
+    }
+  }
+
+  if (changed) {
+    forgetInstanceConfig(incus, name);
+  }
+}
+
 async function disableShiftOnExistingDevices(
   incus: IncusConfig,
   name: string,
@@ -466,9 +703,15 @@ async function ensureRunning(
   agentSlug: string,
   mounts: readonly Mount[],
   identity: HostIdentity,
+  network: NetworkConfig | undefined,
+  egressSocket: string | undefined,
+  limits: LimitsConfig | undefined,
 ): Promise<void> {
   const name = instanceName(agentSlug);
   let state = await instanceState(incus, name);
+  if (state !== "running") {
+    forgetInstanceConfig(incus, name);
+  }
   let created = false;
   let startedByUs = false;
   let stoppedForIdentity = false;
@@ -513,6 +756,13 @@ async function ensureRunning(
     if (state !== "missing") {
       await reconcileMounts(incus, name, mounts);
     }
+    // Without a [network] table the instance keeps whatever it has.
+    if (network !== undefined) {
+      await reconcileNetwork(incus, name, network, egressSocket);
+    }
+    if (limits !== undefined) {
+      await reconcileLimits(incus, name, limits);
+    }
     if (state !== "running") {
       await startInstance(incus, name);
       startedByUs = true;
@@ -542,10 +792,6 @@ async function ensureRunning(
   }
 }
 
-function activeInstanceKey(incus: IncusConfig, name: string): string {
-  return `${incus.project ?? "default"}:${name}`;
-}
-
 async function stopActiveIncusInstances(): Promise<void> {
   const instances = [...activeInstances.values()];
   await Promise.all(
@@ -564,7 +810,11 @@ function registerShutdownHook(): void {
   onShutdown(stopActiveIncusInstances);
 }
 
-async function execIncus(cfg: IncusExecConfig): Promise<ExecResult> {
+/**
+ * Starts the agent's instance if it isn't running and returns the `incus`
+ * arguments that run `cfg.command` in it.
+ */
+async function incusExecArgs(cfg: IncusExecConfig): Promise<string[] | ExecError> {
   const name = instanceName(cfg.agentSlug);
   const uid = process.getuid?.();
   const gid = process.getgid?.();
@@ -573,7 +823,15 @@ async function execIncus(cfg: IncusExecConfig): Promise<ExecResult> {
   }
   const identity = { gid, uid };
   try {
-    await ensureRunning(cfg.incus, cfg.agentSlug, cfg.mounts, identity);
+    await ensureRunning(
+      cfg.incus,
+      cfg.agentSlug,
+      cfg.mounts,
+      identity,
+      cfg.network,
+      cfg.egressSocket,
+      cfg.limits,
+    );
   } catch (error) {
     return { error: error instanceof Error ? error.message : String(error), type: "error" };
   }
@@ -585,27 +843,33 @@ async function execIncus(cfg: IncusExecConfig): Promise<ExecResult> {
     { key: "LANG", value: "C.UTF-8" },
     { key: "LC_ALL", value: "C.UTF-8" },
     ...cfg.envVars,
+    ...(cfg.network?.mode === "allowlist" ? egressEnvironment() : []),
   ];
   const envArgs = environment.flatMap(({ key, value }) => ["--env", `${key}=${value}`]);
-  return await capture(
-    [
-      ...projectArgs(cfg.incus),
-      "exec",
-      name,
-      "--cwd",
-      "/workspace",
-      "--force-noninteractive",
-      "--user",
-      String(uid),
-      "--group",
-      String(gid),
-      ...envArgs,
-      "--",
-      cfg.command,
-      ...cfg.args,
-    ],
-    cfg.timeout,
-  );
+  return [
+    ...projectArgs(cfg.incus),
+    "exec",
+    name,
+    "--cwd",
+    "/workspace",
+    "--force-noninteractive",
+    "--user",
+    String(uid),
+    "--group",
+    String(gid),
+    ...envArgs,
+    "--",
+    cfg.command,
+    ...cfg.args,
+  ];
+}
+
+async function execIncus(cfg: IncusExecConfig): Promise<ExecResult> {
+  const args = await incusExecArgs(cfg);
+  if (!Array.isArray(args)) {
+    return args;
+  }
+  return await capture(args, cfg.timeout);
 }
 
 async function stopIncus(incus: IncusConfig, agentSlug: string, timeout = 30_000): Promise<void> {
@@ -640,5 +904,12 @@ async function destroyIncus(incus: IncusConfig, agentSlug: string): Promise<void
   activeInstances.delete(activeInstanceKey(incus, instanceName(agentSlug)));
 }
 
-export { destroyIncus, execIncus, restartIncus, stopActiveIncusInstances, stopIncus };
+export {
+  destroyIncus,
+  execIncus,
+  incusExecArgs,
+  restartIncus,
+  stopActiveIncusInstances,
+  stopIncus,
+};
 export type { IncusExecConfig };
@@ -1,6 +1,6 @@
 import { describe, expect, it } from "vitest";
 
-import { parseRepairedJSON, repairJsonEscapes } from "#util/json.js";
+import { parseRepairedJSON, readPartialStringField, repairJsonEscapes } from "#util/json.js";
 
 describe("repairJsonEscapes", () => {
   it("passes valid JSON through unchanged", () => {
@@ -164,3 +164,31 @@ describe("parseRepairedJSON", () => {
     expect(parseRepairedJSON(raw)).toEqual({ key: 'he"llo \\| world' });
   });
 });
+
+describe("readPartialStringField", () => {
+  it("returns the value received so far", () => {
+    expect(readPartialStringField('{"content": "Hel', "content")).toBe("Hel");
+    expect(readPartialStringField('{"content":"Hello"}', "content")).toBe("Hello");
+  });
+
+  it("returns undefined before the key or value has arrived", () => {
+    expect(readPartialStringField('{"conte', "content")).toBeUndefined();
+    expect(readPartialStringField('{"content":', "content")).toBeUndefined();
+    expect(readPartialStringField('{"final": true', "content")).toBeUndefined();
+  });
+
+  it("decodes escapes and holds back a truncated one", () => {
+    expect(readPartialStringField(String.raw`{"content": "a\nb\"c`, "content")).toBe('a\nb"c');
+    expect(readPartialStringField(String.raw`{"content": "a\u00E9\u00`, "content")).toBe("a\u00E9");
+    expect(readPartialStringField('{"content": "a\\', "content")).toBe("a");
+  });
+
+  it("ignores same-named keys in nested objects and string values", () => {
+    const json = String.raw`{"meta": {"content": "nested"}, "note": "\"content\": x", "content": "top`;
+    expect(readPartialStringField(json, "content")).toBe("top");
+  });
+
+  it("returns undefined for non-string values", () => {
+    expect(readPartialStringField('{"channel": null, "content": "x"}', "channel")).toBeUndefined();
+  });
+});
@@ -108,4 +108,115 @@ function fingerprintArguments(args: string): string {
   return createHash("sha256").update(args).digest("hex").slice(0, 8);
 }
 
-export { fingerprintArguments, parseRepairedJSON, repairJsonEscapes };
+// oxlint-disable id-length
+const JSON_ESCAPE_VALUES: Record<string, string> = {
+  '"': '"',
+  "/": "/",
+  "\\": "\\",
+  b: "\b",
+  f: "\f",
+  n: "\n",
+  r: "\r",
+  t: "\t",
+};
+// oxlint-enable id-length
+
+/**
+ * Decode the JSON string starting at the opening quote `start`. Stops early
+ * if the input ends mid-string (or mid-escape), reporting `complete: false`.
+ */
+function readJsonString(
+  json: string,
+  start: number,
+): { complete: boolean; end: number; value: string } {
+  let value = "";
+  let pos = start + 1;
+
+  while (pos < json.length) {
+    const ch = json.charAt(pos);
+    if (ch === '"') {
+      return { complete: true, end: pos + 1, value };
+    }
+    if (ch !== "\\") {
+      value += ch;
+      pos += 1;
+      continue;
+    }
+
+    const next = json[pos + 1];
+    if (next === undefined) {
+      break;
+    }
+    if (next === "u") {
+      const hex = json.slice(pos + 2, pos + 6);
+      if (hex.length < 4) {
+        break;
+      }
+      // Surrogate pairs arrive as two escapes; each half decodes on its own and
+      // they recombine once concatenated.
+      value += /^[0-9A-Fa-f]{4}$/u.test(hex) ? String.fromCodePoint(Number.parseInt(hex, 16)) : hex;
+      pos += 6;
+    } else {
+      value += JSON_ESCAPE_VALUES[next] ?? next;
+      pos += 2;
+    }
+  }
+
+  return { complete: false, end: json.length, value };
+}
+
+/**
+ * Read a top-level string field from a JSON object that is still being
+ * streamed in. Returns the prefix of the value received so far, or undefined
+ * if the key hasn't arrived yet or its value isn't a string. Nested objects
+ * are skipped, so a same-named key deeper down is never mistaken for it.
+ */
+function readPartialStringField(json: string, field: string): string | undefined {
+  let depth = 0;
+  let expectKey = false;
+  let pos = 0;
+
+  while (pos < json.length) {
+    const ch = json.charAt(pos);
+
+    if (ch === '"') {
+      const str = readJsonString(json, pos);
+      if (!str.complete) {
+        return undefined;
+      }
+      pos = str.end;
+
+      if (depth === 1 && expectKey) {
+        expectKey = false;
+        while (/\s/u.test(json.charAt(pos))) {
+          pos += 1;
+        }
+        if (json.charAt(pos) !== ":") {
+          return undefined;
+        }
+        pos += 1;
+        while (/\s/u.test(json.charAt(pos))) {
+          pos += 1;
+        }
+        if (str.value === field) {
+          return json.charAt(pos) === '"' ? readJsonString(json, pos).value : undefined;
+        }
+      }
+      continue;
+    }
+
+    if (ch === "{" || ch === "[") {
+      depth += 1;
+      expectKey = ch === "{" && depth === 1;
+    } else if (ch === "}" || ch === "]") {
+      depth -= 1;
+    } else if (ch === "," && depth === 1) {
+      expectKey = true;
+    }
+    pos += 1;
+  }
+
+  return undefined;
+}
+
+export { fingerprintArguments, parseRepairedJSON, readPartialStringField, repairJsonEscapes };
@@ -0,0 +1,177 @@
+import type { ChildProcess } from "node:child_process";
+import { mkdirSync, mkdtempSync, symlinkSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("node:child_process", { spy: true });
+vi.mock("#output/log.js", () => ({
+  debug: vi.fn(),
+  warning: vi.fn(),
+}));
+
+const mockedSpawn = vi.mocked(await import("node:child_process").then((mod) => mod.spawn));
+const { attributeLimit, bwrapLimitWrapper, directoryUsage, sampledDirectoryUsage } =
+  await import("./limits.js");
+
+function fakeChildProcess(stdout = "", exitCode = 0): ChildProcess {
+  // oxlint-disable-next-line typescript/no-unsafe-type-assertion -- The test only models what `run` reads.
+  return {
+    kill: vi.fn(),
+    on: vi.fn((event: string, callback: (code?: number) => void) => {
+      if (event === "close") {
+        callback(exitCode);
+      }
+    }),
+    stdout: {
+      on: vi.fn((_event: string, callback: (data: Buffer) => void) => {
+        callback(Buffer.from(stdout));
+      }),
+    },
+  } as unknown as ChildProcess;
+}
+
+function found(): string {
+  return "/usr/bin/prlimit";
+}
+
+function missing(): string | undefined {
+  return undefined;
+}
+
+describe("bwrapLimitWrapper", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockedSpawn.mockImplementation(() => fakeChildProcess());
+  });
+
+  it("runs the command in a systemd scope with prlimit for the file size", async () => {
+    const wrapper = await bwrapLimitWrapper(
+      { cpus: 1.5, fileSizeBytes: 1000, memoryBytes: 512, pids: 64 },
+      "agent",
+      undefined,
+      found,
+    );
+
+    expect("prefix" in wrapper && wrapper.prefix).toEqual([
+      "systemd-run",
+      "--user",
+      "--scope",
+      "--quiet",
+      expect.stringMatching(/^--unit=cireilclaw-exec-agent-/u),
+      "-p",
+      "MemoryMax=512",
+      "-p",
+      "MemorySwapMax=0",
+      "-p",
+      "CPUQuota=150%",
+      "-p",
+      "TasksMax=64",
+      "--",
+      "prlimit",
+      "--fsize=1000",
+    ]);
+  });
+
+  it("tightens the file size limit to what is left of the disk quota", async () => {
+    const wrapper = await bwrapLimitWrapper(
+      { diskQuotaBytes: 5000, fileSizeBytes: 1000 },
+      "agent",
+      400,
+      found,
+    );
+
+    expect(wrapper).toEqual({
+      fileSize: { bytes: 400, limit: "diskQuotaBytes" },
+      prefix: ["prlimit", "--fsize=400"],
+    });
+  });
+
+  it("refuses a file size limit without prlimit", async () => {
+    const wrapper = await bwrapLimitWrapper({ fileSizeBytes: 1000 }, "agent", undefined, missing);
+
+    expect("error" in wrapper && wrapper.error).toContain("prlimit");
+  });
+});
+
+describe("attributeLimit", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("blames the file size limit for SIGXFSZ", async () => {
+    const limit = await attributeLimit({ fileSizeBytes: 1000 }, 153, "", {
+      fileSize: { bytes: 1000, limit: "fileSizeBytes" },
+      prefix: [],
+    });
+
+    expect(limit?.limit).toBe("fileSizeBytes");
+  });
+
+  it("asks systemd whether a killed command ran out of memory", async () => {
+    mockedSpawn.mockImplementation((_command, args) =>
+      fakeChildProcess(Array.isArray(args) && args.includes("show") ? "oom-kill\n" : ""),
+    );
+    const wrapper = { prefix: [], unit: "cireilclaw-exec-agent-1" };
+
+    const limit = await attributeLimit({ memoryBytes: 512 }, 137, "", wrapper);
+
+    expect(limit?.limit).toBe("memoryBytes");
+    const calls = mockedSpawn.mock.calls.map(([, args]) => args);
+    expect(calls).toContainEqual(["--user", "reset-failed", "cireilclaw-exec-agent-1.scope"]);
+  });
+
+  it("does not blame memory for a kill systemd didn't make", async () => {
+    mockedSpawn.mockImplementation(() => fakeChildProcess("success\n"));
+
+    const limit = await attributeLimit({ memoryBytes: 512 }, 137, "", {
+      prefix: [],
+      unit: "cireilclaw-exec-agent-2",
+    });
+
+    expect(limit).toBeUndefined();
+  });
+
+  it("recognizes fork failures under a process limit", async () => {
+    const limit = await attributeLimit(
+      { pids: 8 },
+      254,
+      "bash: fork: retry: Resource temporarily unavailable",
+    );
+
+    expect(limit?.limit).toBe("pids");
+  });
+});
+
+describe("directoryUsage", () => {
+  it("adds up regular files without following symlinks", async () => {
+    const dir = mkdtempSync(path.join(tmpdir(), "cireilclaw-limits-test-"));
+    mkdirSync(path.join(dir, "nested"));
+    writeFileSync(path.join(dir, "a.txt"), "12345");
+    writeFileSync(path.join(dir, "nested", "b.txt"), "123");
+    symlinkSync("/usr", path.join(dir, "link"));
+
+    expect(await directoryUsage(dir)).toBe(8);
+  });
+});
+
+describe("sampledDirectoryUsage", () => {
+  it("reuses a measurement for 30 seconds", async () => {
+    const dir = mkdtempSync(path.join(tmpdir(), "cireilclaw-limits-test-"));
+    writeFileSync(path.join(dir, "a.txt"), "12345");
+    vi.useFakeTimers({ toFake: ["Date"] });
+    try {
+      expect(await sampledDirectoryUsage(dir)).toBe(5);
+
+      writeFileSync(path.join(dir, "b.txt"), "123");
+      vi.advanceTimersByTime(29_000);
+      expect(await sampledDirectoryUsage(dir)).toBe(5);
+
+      vi.advanceTimersByTime(1000);
+      expect(await sampledDirectoryUsage(dir)).toBe(8);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,301 @@
+import { spawn } from "node:child_process";
+import { randomUUID } from "node:crypto";
+import { lstat, readdir } from "node:fs/promises";
+import path from "node:path";
+
+import type { LimitsConfig } from "#config/schemas/sandbox.js";
+import { debug } from "#output/log.js";
+
+type LimitName = keyof LimitsConfig;
+
+interface LimitExceeded {
+  limit: LimitName;
+  message: string;
+}
+
+interface LimitError {
+  type: "error";
+  error: string;
+}
+
+interface LimitWrapper {
+  // Prepended to the sandbox command line.
+  prefix: string[];
+  // The systemd scope the command runs in, when there is one.
+  unit?: string;
+  // The file size limit in effect and the setting it came from; the disk
+  // quota tightens it to what is left of the quota.
+  fileSize?: { bytes: number; limit: LimitName };
+}
+
+// Exit statuses for a command killed by a signal, as bwrap and `incus exec`
+// report them.
+const SIGKILL_STATUS = 128 + 9;
+const SIGXFSZ_STATUS = 128 + 25;
+
+// Reaching the process limit makes fork() fail with EAGAIN rather than kill
+// anything; shells and language runtimes report it in these words.
+const FORK_FAILURE_PATTERN =
+  /Resource temporarily unavailable|fork: retry|Cannot fork|can't fork/iu;
+
+let systemdRunProbe: Promise<{ exitCode: number }> | undefined = undefined;
+
+// oxlint-disable promise/no-multiple-resolved
+async function run(
+  command: string,
+  args: string[],
+  timeout: number,
+): Promise<{ exitCode: number; stdout: string }> {
+  return await new Promise((resolve) => {
+    const proc = spawn(command, args, { stdio: ["ignore", "pipe", "ignore"] });
+    let stdout = "";
+    let settled = false;
+    proc.stdout.on("data", (data: Buffer) => {
+      stdout += data.toString("utf8");
+    });
+    const timeoutId = setTimeout(() => {
+      proc.kill("SIGKILL");
+    }, timeout);
+    proc.on("close", (code) => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      clearTimeout(timeoutId);
+      resolve({ exitCode: code ?? -1, stdout });
+    });
+    proc.on("error", () => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      clearTimeout(timeoutId);
+      resolve({ exitCode: 1, stdout });
+    });
+  });
+}
+
+// Memory, CPU and process limits need a cgroup, which an unprivileged runtime
+// gets from the systemd user manager. Probed once per process.
+async function systemdRunAvailable(): Promise<boolean> {
+  systemdRunProbe ??= run(
+    "systemd-run",
+    ["--user", "--scope", "--quiet", "--collect", "true"],
+    10_000,
+  );
+  const { exitCode } = await systemdRunProbe;
+  return exitCode === 0;
+}
+
+/**
+ * Sums the sizes of regular files below `dir`. Symlinks are not followed, so
+ * a link to somewhere large doesn't count against the quota.
+ */
+async function directoryUsage(dir: string): Promise<number> {
+  let total = 0;
+  const pending = [dir];
+  for (let current = pending.pop(); current !== undefined; current = pending.pop()) {
+    // oxlint-disable-next-line init-declarations
+    let entries: string[];
+    try {
+      entries = await readdir(current);
+    } catch {
+      continue;
+    }
+    for (const entry of entries) {
+      const entryPath = path.join(current, entry);
+      try {
+        const stats = await lstat(entryPath);
+        if (stats.isDirectory()) {
+          pending.push(entryPath);
+        } else if (stats.isFile()) {
+          total += stats.size;
+        }
+      } catch {
+        // Removed while we were looking; it no longer takes up space.
+      }
+    }
+  }
+  return total;
+}
+
+// How long a measured workspace size is reused. Walking a large workspace
+// before and after every command is slow, and the quota is best-effort anyway.
+const USAGE_MAX_AGE_MS = 30_000;
+
+const usageSamples = new Map<string, { bytes: number; measuredAt: number }>();
+
+/**
+ * directoryUsage, walking `dir` at most once every USAGE_MAX_AGE_MS; in
+ * between, the last measurement stands in.
+ */
+async function sampledDirectoryUsage(dir: string): Promise<number> {
+  const sample = usageSamples.get(dir);
+  if (sample !== undefined && Date.now() - sample.measuredAt < USAGE_MAX_AGE_MS) {
+    return sample.bytes;
+  }
+  const bytes = await directoryUsage(dir);
+  usageSamples.set(dir, { bytes, measuredAt: Date.now() });
+  return bytes;
+}
+
+function diskQuotaExceeded(limits: LimitsConfig, used: number): LimitExceeded {
+  return {
+    limit: "diskQuotaBytes",
+    message: `The workspace holds ${used} bytes, over its ${limits.diskQuotaBytes ?? 0}-byte disk quota. Free up space before running more commands.`,
+  };
+}
+
+/**
+ * Builds the command prefix that applies `limits` to a Bubblewrap command:
+ * a systemd scope for memory, CPU and processes, and prlimit for file size.
+ * `quotaLeft` is how much of the disk quota remains, if one is set.
+ */
+async function bwrapLimitWrapper(
+  limits: LimitsConfig,
+  agentSlug: string,
+  quotaLeft: number | undefined,
+  locate: (command: string) => string | undefined,
+): Promise<LimitWrapper | LimitError> {
+  const wrapper: LimitWrapper = { prefix: [] };
+
+  const properties: string[] = [];
+  if (limits.memoryBytes !== undefined) {
+    properties.push(`MemoryMax=${limits.memoryBytes}`, "MemorySwapMax=0");
+  }
+  if (limits.cpus !== undefined) {
+    properties.push(`CPUQuota=${Math.round(limits.cpus * 100)}%`);
+  }
+  if (limits.pids !== undefined) {
+    properties.push(`TasksMax=${limits.pids}`);
+  }
+  if (properties.length > 0) {
+    if (!(await systemdRunAvailable())) {
+      return {
+        error:
+          "sandbox.toml [limits] sets memory, CPU or process limits, which need a systemd user session (`systemd-run --user`) on the host.",
+        type: "error",
+      };
+    }
+    wrapper.unit = `cireilclaw-exec-${agentSlug}-${randomUUID().slice(0, 8)}`;
+    wrapper.prefix.push(
+      "systemd-run",
+      "--user",
+      "--scope",
+      "--quiet",
+      `--unit=${wrapper.unit}`,
+      ...properties.flatMap((property) => ["-p", property]),
+      "--",
+    );
+  }
+
+  if (limits.fileSizeBytes !== undefined) {
+    wrapper.fileSize = { bytes: limits.fileSizeBytes, limit: "fileSizeBytes" };
+  }
+  if (
+    quotaLeft !== undefined &&
+    (wrapper.fileSize === undefined || quotaLeft < wrapper.fileSize.bytes)
+  ) {
+    wrapper.fileSize = { bytes: quotaLeft, limit: "diskQuotaBytes" };
+  }
+  if (wrapper.fileSize !== undefined) {
+    if (locate("prlimit") === undefined) {
+      return {
+        error:
+          "sandbox.toml [limits] sets a file size limit or disk quota, which needs prlimit (util-linux) on the host.",
+        type: "error",
+      };
+    }
+    wrapper.prefix.push("prlimit", `--fsize=${wrapper.fileSize.bytes}`);
+  }
+
+  return wrapper;
+}
+
+async function scopeResult(unit: string): Promise<string | undefined> {
+  const show = await run(
+    "systemctl",
+    ["--user", "show", `${unit}.scope`, "--property=Result", "--value"],
+    10_000,
+  );
+  // A scope that failed stays loaded until reset, which is what lets us read
+  // its result at all; clear it so failed units don't pile up.
+  await run("systemctl", ["--user", "reset-failed", `${unit}.scope`], 10_000);
+  return show.exitCode === 0 ? show.stdout.trim() : undefined;
+}
+
+/**
+ * Works out which limit, if any, ended a command that exited with
+ * `exitCode`. `wrapper` is undefined for Incus, where the container's own
+ * limits apply and the exit status is all there is to go on.
+ */
+async function attributeLimit(
+  limits: LimitsConfig,
+  exitCode: number,
+  stderr: string,
+  wrapper?: LimitWrapper,
+): Promise<LimitExceeded | undefined> {
+  if (exitCode === 0) {
+    return undefined;
+  }
+
+  let fileSize = wrapper?.fileSize;
+  if (wrapper === undefined && limits.fileSizeBytes !== undefined) {
+    fileSize = { bytes: limits.fileSizeBytes, limit: "fileSizeBytes" };
+  }
+  if (exitCode === SIGXFSZ_STATUS && fileSize !== undefined) {
+    return {
+      limit: fileSize.limit,
+      message:
+        fileSize.limit === "diskQuotaBytes"
+          ? `Killed for writing past the workspace disk quota (${fileSize.bytes} bytes were left).`
+          : `Killed for writing a file larger than the ${fileSize.bytes}-byte file size limit.`,
+    };
+  }
+
+  // Only an OOM kill leaves the scope failed, and so readable, afterwards.
+  if (exitCode === SIGKILL_STATUS && limits.memoryBytes !== undefined) {
+    const oom = wrapper?.unit === undefined || (await scopeResult(wrapper.unit)) === "oom-kill";
+    if (oom) {
+      return {
+        limit: "memoryBytes",
+        message: `Killed for using more than the ${limits.memoryBytes}-byte memory limit.`,
+      };
+    }
+  }
+
+  if (limits.pids !== undefined && FORK_FAILURE_PATTERN.test(stderr)) {
+    return {
+      limit: "pids",
+      message: `Could not start more processes; the limit is ${limits.pids} processes and threads.`,
+    };
+  }
+
+  debug({ exitCode }, "Command failure not attributed to a sandbox limit");
+  return undefined;
+}
+
+// Instance configuration keys for each limit on the Incus backend. The disk
+// quota has no instance key; the workspace is a host directory and is checked
+// from the host.
+function incusLimitKeys(limits: LimitsConfig): Record<string, string | undefined> {
+  return {
+    "limits.cpu.allowance":
+      limits.cpus === undefined ? undefined : `${Math.round(limits.cpus * 100)}ms/100ms`,
+    "limits.kernel.fsize":
+      limits.fileSizeBytes === undefined ? undefined : String(limits.fileSizeBytes),
+    "limits.memory": limits.memoryBytes === undefined ? undefined : `${limits.memoryBytes}B`,
+    "limits.memory.swap": limits.memoryBytes === undefined ? undefined : "false",
+    "limits.processes": limits.pids === undefined ? undefined : String(limits.pids),
+  };
+}
+
+export {
+  attributeLimit,
+  bwrapLimitWrapper,
+  directoryUsage,
+  diskQuotaExceeded,
+  incusLimitKeys,
+  sampledDirectoryUsage,
+};
+export type { LimitExceeded, LimitWrapper };
@@ -26,7 +26,45 @@ async function fetchWithTimeout(
   }
 }
 
+/**
+ * An abort signal that fires once `touch()` hasn't been called for `idleMs`.
+ * For streamed responses, where a wall-clock limit would cut off a long but
+ * healthy generation and only silence means the connection is dead.
+ */
+function createIdleTimeout(idleMs: number): {
+  clear(this: void): void;
+  readonly signal: AbortSignal;
+  readonly timedOut: boolean;
+  touch(this: void): void;
+} {
+  const controller = new AbortController();
+  let timedOut = false;
+  let timer: NodeJS.Timeout | undefined = undefined;
+
+  function touch(): void {
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort(new Error(`Stream idle timeout after ${idleMs}ms`));
+    }, idleMs);
+  }
+
+  touch();
+
+  return {
+    clear: (): void => {
+      clearTimeout(timer);
+    },
+    signal: controller.signal,
+    get timedOut(): boolean {
+      return timedOut;
+    },
+    touch,
+  };
+}
+
 export {
+  createIdleTimeout,
   fetchWithTimeout,
   INITIAL_RESPONSE_TIMEOUT_MS,
   SINGLE_REQUEST_TIMEOUT_MS,
@@ -2,10 +2,10 @@ import { existsSync, realpathSync } from "node:fs";
 import path from "node:path";
 import { env } from "node:process";
 
-import type { ConditionsConfig, PathRule } from "#config/schemas/conditions.js";
+import type { ConditionsConfig, PathAction, PathRule } from "#config/schemas/conditions.js";
 import type { Mount } from "#config/schemas/sandbox.js";
 import type { Session } from "#harness/session.js";
-import { checkPathAccess } from "#util/conditions.js";
+import { resolvePathAccess } from "#util/conditions.js";
 
 function root(): string {
   const home = env["HOME"];
@@ -203,12 +203,13 @@ function sanitizeError(err: unknown, agentSlug: string): string {
   return msg.replaceAll(agentRoot(agentSlug), "<sandbox>");
 }
 
-function checkConditionalAccess(
+// What the memories/workspace rules say about `sandboxPath` in `session`.
+// Paths outside /memories and /workspace have no rules.
+function resolveConditionalAccess(
   sandboxPath: string,
-  _agentSlug: string,
   conditions: ConditionsConfig,
   session: Session,
-): void {
+): PathAction {
   let rules: Record<string, PathRule> | undefined = undefined;
   let relativePath = sandboxPath;
 
@@ -221,17 +222,32 @@ function checkConditionalAccess(
   }
 
   if (rules === undefined) {
-    return;
+    return "allow";
   }
 
-  if (!checkPathAccess(relativePath, rules, session)) {
+  return resolvePathAccess(relativePath, rules, session);
+}
+
+// Throws for denied paths. Paths under an "ask" rule pass: they stay
+// readable, and writers ask the owner on top of this check.
+function checkConditionalAccess(
+  sandboxPath: string,
+  _agentSlug: string,
+  conditions: ConditionsConfig,
+  session: Session,
+): void {
+  if (resolveConditionalAccess(sandboxPath, conditions, session) === "deny") {
     const guildInfo =
       session.channel === "discord" && session.guildId !== undefined
         ? `, guild: ${session.guildId}`
         : "";
     const nsfwInfo = session.channel === "discord" ? `, nsfw: ${session.isNsfw}` : "";
+    const roomInfo = session.channel === "matrix" ? `, room: ${session.roomId}` : "";
+    const nameInfo = session.channel === "api" ? `, session: ${session.name}` : "";
+    const pluginInfo =
+      session.channel === "plugin" ? `, ${session.pluginChannel}: ${session.conversationId}` : "";
     throw new Error(
-      `Access denied: path '${sandboxPath}' is not accessible in the current context (channel: ${session.channel}${guildInfo}${nsfwInfo})`,
+      `Access denied: path '${sandboxPath}' is not accessible in the current context (channel: ${session.channel}${guildInfo}${nsfwInfo}${roomInfo}${nameInfo}${pluginInfo})`,
     );
   }
 }
@@ -277,5 +293,6 @@ export {
   agentRoot,
   root,
   checkConditionalAccess,
+  resolveConditionalAccess,
   validateSystemPath,
 };
@@ -1,9 +1,20 @@
 import type { ChildProcess } from "node:child_process";
+import { mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
 
 import { beforeEach, describe, expect, it, vi } from "vitest";
 
 // oxlint-disable no-template-curly-in-string
-import { buildBwrap, exec, locate, parseEnvFile, SHELL_METACHAR_PATTERN } from "#util/sandbox.js";
+import {
+  buildBwrap,
+  buildPluginBwrap,
+  exec,
+  execPipeline,
+  isMountedInSandbox,
+  locate,
+  parseEnvFile,
+  SHELL_METACHAR_PATTERN,
+} from "#util/sandbox.js";
 
 vi.mock("node:fs", {
   spy: true,
@@ -198,6 +209,15 @@ function fakeChildProcess(stdout = "", stderr = "", exitCode = 0): ChildProcess
   } as unknown as ChildProcess;
 }
 
+describe("isMountedInSandbox", () => {
+  it("leaves /blocks out of Bubblewrap only", () => {
+    expect(isMountedInSandbox("/workspace/data.csv", "bwrap")).toBe(true);
+    expect(isMountedInSandbox("/blocks/persona.md", "bwrap")).toBe(false);
+    expect(isMountedInSandbox("/workspace/../blocks/persona.md", "bwrap")).toBe(false);
+    expect(isMountedInSandbox("/blocks/persona.md", "incus")).toBe(true);
+  });
+});
+
 describe("exec", () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -335,6 +355,63 @@ describe("exec", () => {
   });
 });
 
+describe("execPipeline", () => {
+  const pipelineConfig = {
+    agentSlug: "test",
+    binaries: ["cat", "head", "sort"],
+    hostEnvPassthrough: [],
+    timeout: 5000,
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.unstubAllEnvs();
+    // Run the real commands, without the sandbox.
+    mockedSpawn.mockReset();
+    mockedExistsSync.mockReset();
+    mockedReadFileSync.mockReset();
+    vi.stubEnv("PATH", "/usr/bin:/bin");
+    vi.stubEnv(
+      "CIREILCLAW_RUNTIME_INSECURE_DISABLE_SANDBOX_I_AM_100_PERCENT_SURE",
+      "i-am-in-a-container",
+    );
+  });
+
+  it("feeds stdin to the first stage and chains the stages without a shell", async () => {
+    const result = await execPipeline({ ...pipelineConfig, stdin: { text: "b\nc\na\n" } }, [
+      { command: "sort" },
+      { args: ["-n", "2"], command: "head" },
+    ]);
+
+    expect(result).toEqual({
+      exitCode: 0,
+      stageExitCodes: [0, 0],
+      stderr: "",
+      stdout: "a\nb\n",
+      type: "output",
+    });
+  });
+
+  it("feeds a file to stdin", async () => {
+    const file = `${mkdtempSync(`${tmpdir()}/cireilclaw-pipeline-test-`)}/input.txt`;
+    writeFileSync(file, "from a file\n");
+
+    const result = await exec({ ...pipelineConfig, command: "cat", stdin: { file } });
+
+    expect(result).toEqual({ exitCode: 0, stderr: "", stdout: "from a file\n", type: "output" });
+  });
+
+  it("names the stage that cannot run", async () => {
+    const result = await execPipeline(pipelineConfig, [{ command: "cat" }, { command: "rm" }]);
+
+    expect(result).toEqual({
+      error: "Stage 2 (rm): Command 'rm' is not in the allowed binaries list.",
+      type: "error",
+    });
+    expect(mockedSpawn).not.toHaveBeenCalled();
+  });
+});
+
 describe("buildBwrap", () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -457,6 +534,101 @@ describe("buildBwrap", () => {
     }
   });
 
+  it("isolates the network and bridges the egress proxy in allowlist mode", async () => {
+    vi.stubEnv("HOME", "/home/test");
+    mockedExistsSync.mockImplementation((path) =>
+      [
+        "/home/test",
+        "/usr",
+        "/bin",
+        "/lib",
+        "/usr/bin/echo",
+        "/usr/bin/sh",
+        "/usr/bin/socat",
+      ].includes(String(path)),
+    );
+
+    const none = await buildBwrap(["echo"], [], "test-agent", [], undefined, {
+      allow: [],
+      mode: "none",
+    });
+    const host = await buildBwrap(["echo"], [], "test-agent", [], undefined, {
+      allow: [],
+      mode: "host",
+    });
+    const allowlist = await buildBwrap(
+      ["echo"],
+      [],
+      "test-agent",
+      [],
+      undefined,
+      { allow: [{ host: "example.com", ports: [443] }], mode: "allowlist" },
+      "/home/test/.cireilclaw/agents/test-agent/run/egress.sock",
+    );
+
+    expect(none.type === "success" && none.args).toContain("--unshare-net");
+    expect(host.type === "success" && host.args).not.toContain("--unshare-net");
+    expect(allowlist.type).toBe("success");
+    if (allowlist.type === "success") {
+      const { args } = allowlist;
+      expect(args).toContain("--unshare-net");
+      const idx = args.indexOf("/home/test/.cireilclaw/agents/test-agent/run/egress.sock");
+      expect(args.slice(idx - 1, idx + 2)).toEqual([
+        "--bind",
+        "/home/test/.cireilclaw/agents/test-agent/run/egress.sock",
+        "/run/cireilclaw/egress.sock",
+      ]);
+      const proxy = args.indexOf("HTTPS_PROXY");
+      expect(args.slice(proxy - 1, proxy + 2)).toEqual([
+        "--setenv",
+        "HTTPS_PROXY",
+        "http://127.0.0.1:3128",
+      ]);
+    }
+  });
+
+  it("keeps the egress bridge's binaries out of /bin on NixOS", async () => {
+    vi.stubEnv("HOME", "/home/test");
+    mockedExistsSync.mockImplementation((path) =>
+      [
+        "/home/test",
+        "/nix/store",
+        "/run/current-system/sw/bin/echo",
+        "/run/current-system/sw/bin/sh",
+        "/run/current-system/sw/bin/socat",
+      ].includes(String(path)),
+    );
+    mockedRealpathSync.mockImplementation((path) =>
+      String(path).replace("/run/current-system/sw/bin/", "/nix/store/pkg/bin/"),
+    );
+    mockedSpawn.mockReturnValue(fakeChildProcess("/nix/store/pkg\n"));
+
+    const result = await buildBwrap(
+      ["echo"],
+      [],
+      "test-agent",
+      [],
+      undefined,
+      { allow: [], mode: "allowlist" },
+      "/home/test/.cireilclaw/agents/test-agent/run/egress.sock",
+    );
+
+    expect(result.type).toBe("success");
+    if (result.type !== "success") {
+      return;
+    }
+    const links = result.args
+      .map((arg, index) => ({ arg, index }))
+      .filter(({ arg }) => arg === "--symlink")
+      .map(({ index }) => result.args[index + 2]);
+    expect(links).toEqual(["/bin/echo"]);
+    expect(mockedSpawn).toHaveBeenCalledWith(
+      "nix-store",
+      ["--query", "--requisites", "/nix/store/pkg/bin/socat"],
+      expect.anything(),
+    );
+  });
+
   it("includes --dev-bind /dev when devices.all is true", async () => {
     vi.stubEnv("HOME", "/home/test");
     mockedExistsSync.mockImplementation((path) => {
@@ -509,3 +681,58 @@ describe("buildBwrap", () => {
     }
   });
 });
+
+describe("buildPluginBwrap", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockedExistsSync.mockImplementation((path) =>
+      ["/usr", "/bin", "/lib", "/etc/resolv.conf"].includes(String(path)),
+    );
+  });
+
+  it("mounts only the runtime, the plugin package and its state dir", async () => {
+    const stateDir = "/home/test/.cireilclaw/plugin-state/foo";
+    const result = await buildPluginBwrap({
+      network: true,
+      nodePath: "/opt/node/bin/node",
+      readPaths: ["/srv/cireilclaw", "/home/test/.cireilclaw/plugins/foo"],
+      stateDir,
+    });
+
+    expect(result.type).toBe("success");
+    if (result.type !== "success") {
+      return;
+    }
+    const binds = result.args
+      .map((arg, index) => ({ arg, index }))
+      .filter(({ arg }) => arg === "--bind" || arg === "--ro-bind")
+      .map(({ arg, index }) => [arg, result.args[index + 1]]);
+    expect(binds).toEqual([
+      ["--ro-bind", "/srv/cireilclaw"],
+      ["--ro-bind", "/home/test/.cireilclaw/plugins/foo"],
+      ["--bind", stateDir],
+      ["--ro-bind", "/etc/resolv.conf"],
+      ["--ro-bind", "/usr"],
+      ["--ro-bind", "/bin"],
+      ["--ro-bind", "/lib"],
+      ["--ro-bind", "/opt/node/bin/node"],
+    ]);
+    expect(result.args).not.toContain("--unshare-net");
+    expect(result.args.slice(-4)).toEqual(["HOME", stateDir, "--chdir", stateDir]);
+  });
+
+  it("cuts the plugin off the network unless it may fetch", async () => {
+    const result = await buildPluginBwrap({
+      network: false,
+      nodePath: "/opt/node/bin/node",
+      readPaths: [],
+      stateDir: "/home/test/.cireilclaw/plugin-state/foo",
+    });
+
+    expect(result.type).toBe("success");
+    if (result.type !== "success") {
+      return;
+    }
+    expect(result.args).toContain("--unshare-net");
+  });
+});
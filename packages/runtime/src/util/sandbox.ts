@@ -1,12 +1,24 @@
 // oxlint-disable promise/no-multiple-resolved
 import { spawn } from "node:child_process";
+import type { ChildProcessWithoutNullStreams } from "node:child_process";
 import { existsSync, readFileSync, realpathSync } from "node:fs";
+import { open } from "node:fs/promises";
+import { constants } from "node:os";
 import path from "node:path";
+import { pipeline, Readable } from "node:stream";
 
 import type { Mount, SandboxConfig } from "#config/schemas/sandbox.js";
 import { debug, warning } from "#output/log.js";
 
-import { execIncus } from "./incus.js";
+import { EGRESS_PROXY_PORT, egressEnvironment, ensureEgressProxy } from "./egress-proxy.js";
+import { incusExecArgs } from "./incus.js";
+import {
+  attributeLimit,
+  bwrapLimitWrapper,
+  diskQuotaExceeded,
+  sampledDirectoryUsage,
+} from "./limits.js";
+import type { LimitExceeded, LimitWrapper } from "./limits.js";
 import { root } from "./paths.js";
 
 function locate(command: string, pathEnvOverride?: string[]): string | undefined {
@@ -50,7 +62,19 @@ interface ExecConfig {
   backend?: SandboxConfig["backend"];
   devices?: SandboxConfig["devices"];
   incus?: SandboxConfig["incus"];
+  limits?: SandboxConfig["limits"];
   mounts?: readonly Mount[];
+  network?: SandboxConfig["network"];
+  // Fed to the command's stdin; a `file` is a host path. Without it, stdin is
+  // closed.
+  stdin?: ExecStdin;
+}
+
+type ExecStdin = { text: string } | { file: string };
+
+interface PipelineStage {
+  command: string;
+  args?: string[];
 }
 
 interface ExecOutput {
@@ -58,6 +82,10 @@ interface ExecOutput {
   exitCode: number;
   stderr: string;
   stdout: string;
+  // Set when a sandbox.toml [limits] setting ended the command.
+  limit?: LimitExceeded;
+  // Each stage's exit code, for pipelines of more than one stage.
+  stageExitCodes?: number[];
 }
 
 interface ExecError {
@@ -67,11 +95,53 @@ interface ExecError {
 
 type ExecResult = ExecOutput | ExecError;
 
+interface PreparedCommand {
+  type: "command";
+  file: string;
+  args: string[];
+  // Replaces the runtime's environment when set.
+  env?: Record<string, string>;
+  finish(output: ExecOutput): Promise<ExecOutput>;
+}
+
+interface DetachedCommand {
+  type: "detached";
+  proc: ChildProcessWithoutNullStreams;
+  finish(output: ExecOutput): Promise<ExecOutput>;
+}
+
 // Keeps `/tmp` small inside the sandbox; 64MiB should be enough for anything
 // that occurs in a one-shot command.
 const TMPFS_SIZE_BYTES = 64 * 1024 * 1024;
 
-function buildCommonArgs(home: string, agentSlug: string): string[] {
+// Where the runtime's egress proxy socket appears in allowlist mode.
+const EGRESS_SOCKET_TARGET = "/run/cireilclaw/egress.sock";
+
+// The sandbox has no network of its own in allowlist mode, so socat bridges a
+// loopback port to the proxy socket. The command only starts once the listener
+// shows up in /proc/net/tcp (checked with shell builtins, to need no extra
+// binaries), or after a bounded number of tries.
+const EGRESS_LISTEN_ENTRY = `0100007F:${EGRESS_PROXY_PORT.toString(16).toUpperCase().padStart(4, "0")} 0A`;
+
+// The bridge's own binaries. They are run by their real paths and never get a
+// /bin entry, so they don't join the agent's binary allowlist.
+const EGRESS_BRIDGE_BINARIES = ["sh", "socat"] as const;
+
+function egressBridgeScript(socatPath: string): string {
+  return [
+    `${socatPath} TCP-LISTEN:${EGRESS_PROXY_PORT},bind=127.0.0.1,fork,reuseaddr UNIX-CONNECT:${EGRESS_SOCKET_TARGET} &`,
+    "tries=0",
+    `until (while read -r _ addr _ state _; do [ "$addr $state" = "${EGRESS_LISTEN_ENTRY}" ] && exit 0; done; exit 1) </proc/net/tcp || [ "$tries" -ge 2000 ]; do tries=$((tries + 1)); done`,
+    'exec "$@"',
+  ].join("\n");
+}
+
+function locateBridgeBinary(name: string, isNixOS: boolean): string | undefined {
+  const found = isNixOS ? locate(name, ["/run/current-system/sw/bin"]) : locate(name);
+  return found === undefined ? undefined : realpathSync(found);
+}
+
+function buildNamespaceArgs(hostname: string): string[] {
   return [
     "bwrap",
     "--die-with-parent",
@@ -80,7 +150,24 @@ function buildCommonArgs(home: string, agentSlug: string): string[] {
     "--unshare-uts",
     "--new-session",
     "--hostname",
-    `${agentSlug}-sandbox`,
+    hostname,
+  ];
+}
+
+const SCRATCH_ARGS = [
+  "--size",
+  String(TMPFS_SIZE_BYTES),
+  "--tmpfs",
+  "/tmp",
+  "--proc",
+  "/proc",
+  "--dev",
+  "/dev",
+];
+
+function buildCommonArgs(home: string, agentSlug: string): string[] {
+  return [
+    ...buildNamespaceArgs(`${agentSlug}-sandbox`),
     "--bind",
     path.join(home, ".cireilclaw", "agents", agentSlug, "workspace"),
     "/workspace",
@@ -93,17 +180,20 @@ function buildCommonArgs(home: string, agentSlug: string): string[] {
     "--bind",
     path.join(home, ".cireilclaw", "agents", agentSlug, "tasks"),
     "/tasks",
-    "--size",
-    String(TMPFS_SIZE_BYTES),
-    "--tmpfs",
-    "/tmp",
-    "--proc",
-    "/proc",
-    "--dev",
-    "/dev",
+    ...SCRATCH_ARGS,
   ];
 }
 
+/**
+ * Whether a command in the sandbox sees `sandboxPath`, an agent path that
+ * sandboxToReal accepts. Incus mounts /blocks read-only; Bubblewrap leaves it
+ * out, so only the file tools reach it there.
+ */
+function isMountedInSandbox(sandboxPath: string, backend: SandboxConfig["backend"]): boolean {
+  const normalized = path.posix.normalize(sandboxPath);
+  return backend === "incus" || (normalized !== "/blocks" && !normalized.startsWith("/blocks/"));
+}
+
 function addEtcBindings(args: string[]): void {
   const etcFiles = ["/etc/passwd", "/etc/group", "/etc/nsswitch.conf", "/etc/resolv.conf"];
 
@@ -494,6 +584,8 @@ async function buildBwrap(
   agentSlug: string,
   mounts?: readonly Mount[],
   devices?: SandboxConfig["devices"],
+  network?: SandboxConfig["network"],
+  egressSocket?: string,
 ): Promise<BwrapResult> {
   const home = process.env["HOME"];
 
@@ -516,6 +608,17 @@ async function buildBwrap(
 
   const args = buildCommonArgs(realHome, agentSlug);
 
+  const mode = network?.mode ?? "host";
+  if (mode !== "host") {
+    args.push("--unshare-net");
+  }
+  if (mode === "allowlist") {
+    if (egressSocket === undefined) {
+      return { message: "Allowlist network mode requires the egress proxy socket", type: "error" };
+    }
+    args.push("--bind", egressSocket, EGRESS_SOCKET_TARGET);
+  }
+
   if (devices?.usb === true && existsSync("/dev/bus/usb")) {
     args.push("--dev-bind", "/dev/bus/usb", "/dev/bus/usb");
   }
@@ -549,15 +652,40 @@ async function buildBwrap(
     debug({ count: envResult.length, envPath }, "Loaded environment variables from .env file");
   }
 
+  // The proxy settings come last so a stray .env entry can't point clients
+  // somewhere they can't reach.
+  const envVars = mode === "allowlist" ? [...envResult, ...egressEnvironment()] : envResult;
+
   const isNixOS = detectNixOS();
   let success = false;
 
   if (isNixOS) {
     success = await buildNixBindings(args, binaries);
-    addEnvironmentVars(args, "/bin", envResult, hostEnvPassthrough);
+    addEnvironmentVars(args, "/bin", envVars, hostEnvPassthrough);
   } else {
     success = buildGenericLinuxBindings(args, binaries);
-    addEnvironmentVars(args, "/usr/bin:/bin:/usr/local/bin", envResult, hostEnvPassthrough);
+    addEnvironmentVars(args, "/usr/bin:/bin:/usr/local/bin", envVars, hostEnvPassthrough);
+  }
+
+  if (success && mode === "allowlist") {
+    for (const name of EGRESS_BRIDGE_BINARIES) {
+      const binary = locateBridgeBinary(name, isNixOS);
+      if (binary === undefined) {
+        warning({ tool: name }, "Couldn't locate egress bridge tool");
+        success = false;
+        break;
+      }
+      // On NixOS only the store paths of /bin entries are mounted; elsewhere
+      // the system directories already hold the bridge.
+      if (isNixOS) {
+        const result = await queryNixStore(binary);
+        if (!result.success) {
+          success = false;
+          break;
+        }
+        args.push(...result.requisites.flatMap((pth) => ["--ro-bind", pth, pth]));
+      }
+    }
   }
 
   if (!success) {
@@ -570,32 +698,93 @@ async function buildBwrap(
   return { args, type: "success" };
 }
 
-async function captureExec(proc: ReturnType<typeof spawn>, timeout: number): Promise<ExecOutput> {
+interface PluginBwrapConfig {
+  // Host paths the plugin process may read: the runtime's own install, the
+  // plugin's package and whatever it resolves modules from.
+  readPaths: readonly string[];
+  // The only host path it may write, which is also its HOME.
+  stateDir: string;
+  // The Node binary to run, as a real path.
+  nodePath: string;
+  // Whether it keeps the host network. Without it, the plugin gets a network
+  // namespace of its own with nothing but loopback.
+  network: boolean;
+}
+
+/**
+ * Builds the bwrap arguments for a plugin subprocess. Unlike an agent's
+ * sandbox, nothing of the agents' directories is mounted: the plugin reaches
+ * those only through the runtime's RPC callbacks.
+ */
+async function buildPluginBwrap(cfg: PluginBwrapConfig): Promise<BwrapResult> {
+  const { network, nodePath, readPaths, stateDir } = cfg;
+  // The scratch mounts go first so that binds under /tmp aren't hidden.
+  const args = [...buildNamespaceArgs("plugin-sandbox"), ...SCRATCH_ARGS];
+  if (!network) {
+    args.push("--unshare-net");
+  }
+
+  for (const readPath of readPaths) {
+    args.push("--ro-bind", readPath, readPath);
+  }
+  args.push("--bind", stateDir, stateDir);
+
+  addEtcBindings(args);
+  addSslCertificates(args);
+
+  if (detectNixOS()) {
+    const result = await queryNixStore(nodePath);
+    if (!result.success) {
+      return { message: "Failed to build plugin sandbox bindings", type: "error" };
+    }
+    args.push(...result.requisites.flatMap((pth) => ["--ro-bind", pth, pth]));
+    addEnvironmentVars(args, "/bin", [{ key: "HOME", value: stateDir }]);
+  } else {
+    buildGenericLinuxBindings(args, []);
+    args.push("--ro-bind", nodePath, nodePath);
+    addEnvironmentVars(args, "/usr/bin:/bin:/usr/local/bin", [{ key: "HOME", value: stateDir }]);
+  }
+
+  args.push("--chdir", stateDir);
+
+  return { args, type: "success" };
+}
+
+// `collectStdout` is false for pipeline stages whose stdout feeds the next one.
+async function captureExec(
+  proc: ReturnType<typeof spawn>,
+  timeout: number,
+  collectStdout = true,
+): Promise<ExecOutput> {
   return await new Promise<ExecOutput>((resolve) => {
     let stdout = "";
     let stderr = "";
     let settled = false;
 
-    proc.stdout?.on("data", (data: Buffer) => {
-      stdout += data.toString("utf8");
-    });
+    if (collectStdout) {
+      proc.stdout?.on("data", (data: Buffer) => {
+        stdout += data.toString("utf8");
+      });
+    }
 
     proc.stderr?.on("data", (data: Buffer) => {
       stderr += data.toString("utf8");
     });
 
+    let timedOut = false;
     const timeoutId = setTimeout(() => {
+      timedOut = true;
       proc.kill("SIGKILL");
     }, timeout);
 
-    proc.on("close", (code) => {
+    proc.on("close", (code, signal) => {
       if (settled) {
         return;
       }
       settled = true;
       clearTimeout(timeoutId);
 
-      if (code === null) {
+      if (timedOut) {
         resolve({
           exitCode: -1,
           stderr: `Command timed out after ${timeout}ms`,
@@ -605,6 +794,18 @@ async function captureExec(proc: ReturnType<typeof spawn>, timeout: number): Pro
         return;
       }
 
+      if (code === null) {
+        // Killed from outside, e.g. by the OOM killer; report it the way a
+        // shell would.
+        resolve({
+          exitCode: 128 + (signal === null ? 0 : constants.signals[signal]),
+          stderr,
+          stdout,
+          type: "output",
+        });
+        return;
+      }
+
       resolve({
         exitCode: code,
         stderr,
@@ -630,44 +831,45 @@ async function captureExec(proc: ReturnType<typeof spawn>, timeout: number): Pro
   });
 }
 
-// oxlint-disable-next-line eslint/require-await
-async function runInSandbox(
-  bwrapArgs: string[],
-  commandPath: string,
-  cmdArgs: string[],
-  timeout: number,
-): Promise<ExecOutput> {
-  const proc = spawn("bwrap", [...bwrapArgs.slice(1), commandPath, ...cmdArgs], {
-    stdio: ["ignore", "pipe", "pipe"],
-  });
-  return captureExec(proc, timeout);
+const SHELL_METACHAR_PATTERN = /[\s"'|&;$`\\]/u;
+
+function isSandboxBypassed(): boolean {
+  const bypassValue =
+    process.env["CIREILCLAW_RUNTIME_INSECURE_DISABLE_SANDBOX_I_AM_100_PERCENT_SURE"];
+  return (
+    bypassValue === "i-am-in-a-container" ||
+    bypassValue === "babe-i-brought-protection" ||
+    bypassValue === "we-are-literally-transbians-what"
+  );
 }
 
-// oxlint-disable-next-line eslint/require-await
-async function runRaw(
-  commandPath: string,
-  cmdArgs: string[],
-  timeout: number,
-  envVars?: EnvVar[],
+// Finds the limit that ended the command, if any; failing that, a command that
+// filled the workspace past its quota is reported as having done so, if the
+// workspace is due to be measured again.
+async function checkLimits(
+  result: ExecOutput,
+  limits: SandboxConfig["limits"],
+  workspace: string,
+  wrapper?: LimitWrapper,
 ): Promise<ExecOutput> {
-  // Keep the explicit bypass subject to the same environment allowlist as the
-  // sandboxed backend. The bypass removes filesystem isolation, not secret
-  // isolation.
-  const env: Record<string, string> = { PATH: process.env["PATH"] ?? "" };
-  for (const { key, value } of envVars ?? []) {
-    env[key] = value;
+  if (limits === undefined) {
+    return result;
   }
-
-  const proc = spawn(commandPath, cmdArgs, {
-    env,
-    stdio: ["ignore", "pipe", "pipe"],
-  });
-  return captureExec(proc, timeout);
+  let limit = await attributeLimit(limits, result.exitCode, result.stderr, wrapper);
+  if (limit === undefined && limits.diskQuotaBytes !== undefined) {
+    const used = await sampledDirectoryUsage(workspace);
+    if (used > limits.diskQuotaBytes) {
+      limit = diskQuotaExceeded(limits, used);
+    }
+  }
+  return limit === undefined ? result : Object.assign(result, { limit });
 }
 
-const SHELL_METACHAR_PATTERN = /[\s"'|&;$`\\]/u;
-
-async function exec(cfg: ExecConfig): Promise<ExecResult> {
+/**
+ * Resolves `cfg` to the process that runs the command in its sandbox, without
+ * starting it. Starting the Incus instance and the egress proxy happen here.
+ */
+async function prepareCommand(cfg: ExecConfig): Promise<PreparedCommand | ExecError> {
   const {
     binaries,
     command,
@@ -677,7 +879,9 @@ async function exec(cfg: ExecConfig): Promise<ExecResult> {
     agentSlug,
     devices,
     incus,
+    limits,
     mounts,
+    network,
   } = cfg;
 
   // Reject any command with shell metacharacters or spaces
@@ -695,6 +899,37 @@ async function exec(cfg: ExecConfig): Promise<ExecResult> {
     };
   }
 
+  let egressSocket: string | undefined = undefined;
+  // The bypass only applies to Bubblewrap; it drops the network policy along
+  // with everything else.
+  if (network?.mode === "allowlist" && (cfg.backend === "incus" || !isSandboxBypassed())) {
+    if (cfg.backend !== "incus" && locate("socat") === undefined) {
+      return {
+        error:
+          "Sandbox network mode 'allowlist' needs socat on the host to connect the sandbox to the egress proxy.",
+        type: "error",
+      };
+    }
+    try {
+      egressSocket = await ensureEgressProxy(agentSlug, network.allow);
+    } catch (error) {
+      return {
+        error: `Failed to start the sandbox egress proxy: ${error instanceof Error ? error.message : String(error)}`,
+        type: "error",
+      };
+    }
+  }
+
+  const workspace = path.join(root(), "agents", agentSlug, "workspace");
+  let quotaLeft: number | undefined = undefined;
+  if (limits?.diskQuotaBytes !== undefined) {
+    const used = await sampledDirectoryUsage(workspace);
+    if (used >= limits.diskQuotaBytes) {
+      return { error: diskQuotaExceeded(limits, used).message, type: "error" };
+    }
+    quotaLeft = limits.diskQuotaBytes - used;
+  }
+
   if (cfg.backend === "incus") {
     if (incus === undefined) {
       return {
@@ -721,29 +956,40 @@ async function exec(cfg: ExecConfig): Promise<ExecResult> {
       }
     }
     envVars.push(...envResult);
-    return await execIncus({
+    const incusArgs = await incusExecArgs({
       agentSlug,
       args: args ?? [],
       command,
+      egressSocket,
       envVars,
       incus,
+      limits,
       mounts: mounts ?? [],
+      network,
       timeout,
     });
+    if (!Array.isArray(incusArgs)) {
+      return incusArgs;
+    }
+    return {
+      args: incusArgs,
+      file: "incus",
+      finish: async (output) => await checkLimits(output, limits, workspace),
+      type: "command",
+    };
   }
 
-  const bypassValue =
-    process.env["CIREILCLAW_RUNTIME_INSECURE_DISABLE_SANDBOX_I_AM_100_PERCENT_SURE"];
-  const bypassSandbox =
-    bypassValue === "i-am-in-a-container" ||
-    bypassValue === "babe-i-brought-protection" ||
-    bypassValue === "we-are-literally-transbians-what";
-
-  if (bypassSandbox) {
+  if (isSandboxBypassed()) {
     warning(
       { command },
       "CIREILCLAW_RUNTIME_INSECURE_DISABLE_SANDBOX_I_AM_100_PERCENT_SURE is set; running raw without sandbox",
     );
+    if (network !== undefined && network.mode !== "host") {
+      warning({ mode: network.mode }, "Sandbox network policy is not enforced without the sandbox");
+    }
+    if (limits !== undefined) {
+      warning("Sandbox resource limits are not enforced without the sandbox");
+    }
 
     const commandPath = locate(command);
     if (commandPath === undefined || !existsSync(commandPath)) {
@@ -766,18 +1012,39 @@ async function exec(cfg: ExecConfig): Promise<ExecResult> {
       };
     }
 
-    const envVars: EnvVar[] = [...envResult];
+    // Keep the explicit bypass subject to the same environment allowlist as
+    // the sandboxed backend. The bypass removes filesystem isolation, not
+    // secret isolation.
+    const env: Record<string, string> = { PATH: process.env["PATH"] ?? "" };
+    for (const { key, value } of envResult) {
+      env[key] = value;
+    }
     for (const key of hostEnvPassthrough) {
       const value = process.env[key];
       if (value !== undefined) {
-        envVars.push({ key, value });
+        env[key] = value;
       }
     }
 
-    return runRaw(commandPath, args ?? [], timeout, envVars);
+    return {
+      args: args ?? [],
+      env,
+      file: commandPath,
+      // oxlint-disable-next-line eslint/require-await
+      finish: async (output) => output,
+      type: "command",
+    };
   }
 
-  const bwrap = await buildBwrap(binaries, hostEnvPassthrough, agentSlug, mounts, devices);
+  const bwrap = await buildBwrap(
+    binaries,
+    hostEnvPassthrough,
+    agentSlug,
+    mounts,
+    devices,
+    network,
+    egressSocket,
+  );
 
   if (bwrap.type === "error") {
     const error =
@@ -796,8 +1063,180 @@ async function exec(cfg: ExecConfig): Promise<ExecResult> {
       type: "error",
     };
   }
-  return runInSandbox(bwrap.args, `/bin/${command}`, args ?? [], timeout);
+
+  let wrapper: LimitWrapper | undefined = undefined;
+  if (limits !== undefined) {
+    const built = await bwrapLimitWrapper(limits, agentSlug, quotaLeft, (name) => locate(name));
+    if ("type" in built) {
+      return built;
+    }
+    wrapper = built;
+  }
+
+  const commandLine = [`/bin/${command}`, ...(args ?? [])];
+  if (network?.mode === "allowlist") {
+    const shPath = locateBridgeBinary("sh", isNixOS);
+    const socatPath = locateBridgeBinary("socat", isNixOS);
+    if (shPath === undefined || socatPath === undefined) {
+      return { error: "The egress bridge's sh or socat could not be located.", type: "error" };
+    }
+    commandLine.unshift(shPath, "-c", egressBridgeScript(socatPath), "sh");
+  }
+  const [file = "bwrap", ...rest] = [...(wrapper?.prefix ?? []), ...bwrap.args, ...commandLine];
+  return {
+    args: rest,
+    file,
+    finish: async (output) => await checkLimits(output, limits, workspace, wrapper),
+    type: "command",
+  };
+}
+
+// A stage that exits before reading all of its input, like `head`, breaks the
+// pipe into it; that is how pipelines normally end, not a failure.
+function ignorePipeError(): void {
+  // Nothing to do; pipeline() has already torn both streams down.
+}
+
+/**
+ * Runs `stages` with each one's stdout connected to the next one's stdin, the
+ * way a shell pipeline would but without a shell: every stage is its own
+ * sandboxed command, and the runtime moves the data between them. The exit
+ * code is the last stage's.
+ */
+async function execPipeline(
+  cfg: Omit<ExecConfig, "args" | "command">,
+  stages: PipelineStage[],
+): Promise<ExecResult> {
+  const prepared: PreparedCommand[] = [];
+  for (const [index, stage] of stages.entries()) {
+    const command = await prepareCommand({ ...cfg, ...stage });
+    if (command.type === "error") {
+      return stages.length === 1
+        ? command
+        : { error: `Stage ${index + 1} (${stage.command}): ${command.error}`, type: "error" };
+    }
+    prepared.push(command);
+  }
+
+  let stdinSource: Readable | undefined = undefined;
+  if (cfg.stdin !== undefined) {
+    try {
+      if ("text" in cfg.stdin) {
+        stdinSource = Readable.from([cfg.stdin.text]);
+      } else {
+        const handle = await open(cfg.stdin.file, "r");
+        stdinSource = handle.createReadStream();
+      }
+    } catch (error) {
+      return {
+        error: `Failed to open stdin file: ${error instanceof Error ? error.message : String(error)}`,
+        type: "error",
+      };
+    }
+  }
+
+  const procs = prepared.map((command, index) =>
+    spawn(command.file, command.args, {
+      env: command.env,
+      stdio: [index === 0 && cfg.stdin === undefined ? "ignore" : "pipe", "pipe", "pipe"],
+    }),
+  );
+
+  const stdinErrors: string[] = [];
+  const [first] = procs;
+  if (stdinSource !== undefined && first?.stdin) {
+    stdinSource.on("error", (error) => {
+      stdinErrors.push(`Failed to read stdin: ${error.message}\n`);
+    });
+    pipeline(stdinSource, first.stdin, ignorePipeError);
+  }
+  for (const [index, proc] of procs.entries()) {
+    const next = procs[index + 1];
+    if (proc.stdout && next?.stdin) {
+      pipeline(proc.stdout, next.stdin, ignorePipeError);
+    }
+  }
+
+  const outputs = await Promise.all(
+    procs.map(
+      async (proc, index) => await captureExec(proc, cfg.timeout, index === procs.length - 1),
+    ),
+  );
+  const finished = await Promise.all(
+    outputs.map(async (output, index) => (await prepared[index]?.finish(output)) ?? output),
+  );
+
+  const last = finished.at(-1);
+  if (last === undefined) {
+    return { error: "A pipeline needs at least one stage.", type: "error" };
+  }
+  const stderr =
+    finished.length === 1
+      ? last.stderr
+      : finished
+          .map((output, index) =>
+            output.stderr.length > 0
+              ? `[stage ${index + 1}: ${stages[index]?.command ?? ""}]\n${output.stderr}`
+              : "",
+          )
+          .filter((text) => text.length > 0)
+          .join("\n");
+  const result: ExecOutput = {
+    exitCode: last.exitCode,
+    stderr: [...stdinErrors, stderr].join(""),
+    stdout: last.stdout,
+    type: "output",
+  };
+  const limit = finished.find((output) => output.limit !== undefined)?.limit;
+  if (limit !== undefined) {
+    result.limit = limit;
+  }
+  if (finished.length > 1) {
+    result.stageExitCodes = finished.map((output) => output.exitCode);
+  }
+  return result;
+}
+
+async function exec(cfg: ExecConfig): Promise<ExecResult> {
+  return await execPipeline(cfg, [{ args: cfg.args, command: cfg.command }]);
+}
+
+/**
+ * Starts the command without waiting for it, with all three standard streams
+ * piped. The caller owns the process; `finish` attributes a failure to a
+ * sandbox limit once it has exited.
+ */
+async function startDetached(cfg: ExecConfig): Promise<DetachedCommand | ExecError> {
+  const prepared = await prepareCommand(cfg);
+  if (prepared.type === "error") {
+    return prepared;
+  }
+  const proc = spawn(prepared.file, prepared.args, {
+    env: prepared.env,
+    stdio: ["pipe", "pipe", "pipe"],
+  });
+  return { finish: async (output) => await prepared.finish(output), proc, type: "detached" };
 }
 
-export { buildBwrap, exec, locate, parseEnvFile, SHELL_METACHAR_PATTERN };
-export type { ExecConfig, ExecError, ExecOutput, ExecResult };
+export {
+  buildBwrap,
+  buildPluginBwrap,
+  exec,
+  execPipeline,
+  isMountedInSandbox,
+  isSandboxBypassed,
+  locate,
+  parseEnvFile,
+  SHELL_METACHAR_PATTERN,
+  startDetached,
+};
+export type {
+  DetachedCommand,
+  ExecConfig,
+  ExecError,
+  ExecOutput,
+  ExecResult,
+  ExecStdin,
+  PipelineStage,
+  PluginBwrapConfig,
+};
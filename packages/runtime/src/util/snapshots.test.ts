@@ -0,0 +1,202 @@
+import {
+  existsSync,
+  mkdirSync,
+  mkdtempSync,
+  readdirSync,
+  readFileSync,
+  rmSync,
+  symlinkSync,
+  writeFileSync,
+} from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+
+import * as vb from "valibot";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { SnapshotsConfigSchema } from "#config/schemas/snapshots.js";
+import { diffSnapshot, listSnapshots, restoreSnapshot, takeSnapshot } from "#util/snapshots.js";
+
+vi.mock("#output/log.js", () => ({
+  debug: vi.fn(),
+  warning: vi.fn(),
+}));
+
+const cfg = vb.parse(SnapshotsConfigSchema, {});
+let agentDir = "";
+
+function write(sandboxPath: string, content: string): void {
+  const file = path.join(agentDir, sandboxPath);
+  mkdirSync(path.dirname(file), { recursive: true });
+  writeFileSync(file, content);
+}
+
+function read(sandboxPath: string): string {
+  return readFileSync(path.join(agentDir, sandboxPath), "utf8");
+}
+
+async function snapshot(label = "test"): Promise<string> {
+  const taken = await takeSnapshot("agent", cfg, { label });
+  if (taken === undefined) {
+    throw new Error("Expected a snapshot to be taken");
+  }
+  return taken.id;
+}
+
+beforeEach(() => {
+  const home = mkdtempSync(path.join(tmpdir(), "cireilclaw-snapshots-test-"));
+  vi.stubEnv("HOME", home);
+  agentDir = path.join(home, ".cireilclaw", "agents", "agent");
+  for (const dir of ["workspace", "memories", "tasks"]) {
+    mkdirSync(path.join(agentDir, dir), { recursive: true });
+  }
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("takeSnapshot", () => {
+  it("skips the snapshot when nothing changed", async () => {
+    write("/workspace/a.txt", "one");
+    await snapshot();
+
+    expect(await takeSnapshot("agent", cfg, { label: "again" })).toBeUndefined();
+    expect(await listSnapshots("agent")).toHaveLength(1);
+  });
+
+  it("stores identical contents once", async () => {
+    write("/workspace/a.txt", "same");
+    write("/memories/b.md", "same");
+    await snapshot();
+
+    const objects = path.join(agentDir, "snapshots", "objects");
+    const stored = readdirSync(objects).flatMap((prefix) =>
+      readdirSync(path.join(objects, prefix)),
+    );
+    expect(stored).toHaveLength(1);
+  });
+
+  it("leaves out excluded paths and files over the size limit", async () => {
+    write("/workspace/.exec-output/out.txt", "output");
+    write("/workspace/big.bin", "x".repeat(100));
+    const taken = await takeSnapshot("agent", { ...cfg, maxFileBytes: 10 }, { label: "test" });
+
+    expect(taken?.files).toBe(0);
+  });
+
+  it("keeps only the newest snapshots and drops their unreferenced objects", async () => {
+    const small = { ...cfg, keep: 2 };
+    for (const content of ["one", "two", "three"]) {
+      write("/workspace/a.txt", content);
+      await takeSnapshot("agent", small, { label: content });
+    }
+
+    const snapshots = await listSnapshots("agent");
+    expect(snapshots.map((entry) => entry.label)).toEqual(["three", "two"]);
+    const objects = path.join(agentDir, "snapshots", "objects");
+    const stored = readdirSync(objects).flatMap((prefix) =>
+      readdirSync(path.join(objects, prefix)),
+    );
+    expect(stored).toHaveLength(2);
+  });
+});
+
+describe("diffSnapshot", () => {
+  it("lists what changed since a snapshot", async () => {
+    write("/workspace/kept.txt", "kept");
+    write("/workspace/changed.txt", "before");
+    write("/tasks/removed.md", "gone soon");
+    const id = await snapshot();
+
+    write("/workspace/changed.txt", "after");
+    write("/workspace/added.txt", "new");
+    rmSync(path.join(agentDir, "tasks", "removed.md"));
+
+    expect(await diffSnapshot("agent", cfg, id)).toEqual([
+      { change: "removed", path: "/tasks/removed.md" },
+      { change: "added", path: "/workspace/added.txt" },
+      { change: "modified", path: "/workspace/changed.txt" },
+    ]);
+  });
+
+  it("finds a snapshot by a unique prefix of its ID", async () => {
+    write("/workspace/a.txt", "one");
+    const id = await snapshot();
+
+    expect(await diffSnapshot("agent", cfg, id.slice(0, -2))).toEqual([]);
+    await expect(diffSnapshot("agent", cfg, "nope")).rejects.toThrow("No snapshot matches");
+  });
+});
+
+describe("restoreSnapshot", () => {
+  it("puts files back and removes ones the snapshot didn't have", async () => {
+    write("/workspace/src/main.ts", "original");
+    const id = await snapshot();
+
+    write("/workspace/src/main.ts", "broken");
+    write("/workspace/new/file.txt", "stray");
+    const result = await restoreSnapshot("agent", cfg, id);
+
+    expect(read("/workspace/src/main.ts")).toBe("original");
+    expect(existsSync(path.join(agentDir, "workspace", "new"))).toBe(false);
+    expect(result.removed).toEqual(["/workspace/new/file.txt", "/workspace/new"]);
+    expect(result.restored).toEqual(["/workspace/src/main.ts"]);
+  });
+
+  it("can undo a restore with the safety snapshot", async () => {
+    write("/workspace/a.txt", "old");
+    const id = await snapshot();
+    write("/workspace/a.txt", "new");
+
+    const { safetySnapshot } = await restoreSnapshot("agent", cfg, id);
+    expect(read("/workspace/a.txt")).toBe("old");
+
+    await restoreSnapshot("agent", cfg, safetySnapshot);
+    expect(read("/workspace/a.txt")).toBe("new");
+  });
+
+  it("only touches the given path", async () => {
+    write("/workspace/a.txt", "a1");
+    write("/memories/b.md", "b1");
+    const id = await snapshot();
+    write("/workspace/a.txt", "a2");
+    write("/memories/b.md", "b2");
+
+    await restoreSnapshot("agent", cfg, id, "/memories");
+
+    expect(read("/workspace/a.txt")).toBe("a2");
+    expect(read("/memories/b.md")).toBe("b1");
+  });
+
+  it("leaves excluded paths alone", async () => {
+    write("/workspace/a.txt", "a");
+    const id = await snapshot();
+    write("/workspace/.exec-output/out.txt", "output");
+
+    await restoreSnapshot("agent", cfg, id);
+
+    expect(read("/workspace/.exec-output/out.txt")).toBe("output");
+  });
+
+  it("doesn't follow a parent directory swapped for a symlink", async () => {
+    write("/workspace/a/secret.txt", "snapshotted");
+    const id = await snapshot();
+    const outside = mkdtempSync(path.join(tmpdir(), "cireilclaw-snapshots-outside-"));
+    writeFileSync(path.join(outside, "secret.txt"), "host file");
+    rmSync(path.join(agentDir, "workspace", "a"), { recursive: true });
+    symlinkSync(outside, path.join(agentDir, "workspace", "a"));
+
+    await expect(restoreSnapshot("agent", cfg, id, "/workspace/a/secret.txt")).rejects.toThrow(
+      "'/workspace/a' is a symlink",
+    );
+    expect(readFileSync(path.join(outside, "secret.txt"), "utf8")).toBe("host file");
+  });
+
+  it("refuses paths outside the writable roots", async () => {
+    write("/workspace/a.txt", "a");
+    const id = await snapshot();
+
+    await expect(restoreSnapshot("agent", cfg, id, "/skills")).rejects.toThrow("is not under");
+  });
+});
@@ -0,0 +1,638 @@
+import { createHash, randomBytes } from "node:crypto";
+import { constants, createReadStream, existsSync } from "node:fs";
+import type { Stats } from "node:fs";
+import {
+  chmod,
+  copyFile,
+  lstat,
+  mkdir,
+  readdir,
+  readFile,
+  readlink,
+  rename,
+  rm,
+  rmdir,
+  symlink,
+  unlink,
+  writeFile,
+} from "node:fs/promises";
+import path from "node:path";
+
+import type { SnapshotsConfig } from "#config/schemas/snapshots.js";
+import { debug } from "#output/log.js";
+
+import { agentRoot } from "./paths.js";
+
+// The agent's writable roots, as the sandbox names them.
+const SNAPSHOT_ROOTS = ["/workspace", "/memories", "/tasks"] as const;
+
+// Sorts by creation time: 20261019T052200123-ab12.
+const SNAPSHOT_ID_PATTERN = /^\d{8}T\d{9}-[0-9a-f]{4}$/u;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// A file modified this close to the last scan may have changed again within
+// the filesystem's mtime granularity, so its cached hash isn't trusted.
+const RACY_MTIME_MS = 2000;
+
+type SnapshotEntry =
+  | { type: "dir"; mode: number }
+  | { type: "file"; hash: string; size: number; mode: number }
+  | { type: "symlink"; target: string };
+
+interface Snapshot {
+  id: string;
+  createdAt: number;
+  label: string;
+  sessionId?: string;
+  // Keyed by sandbox path, e.g. /workspace/src/main.ts.
+  entries: Record<string, SnapshotEntry>;
+  // Files over maxFileBytes, which the snapshot doesn't hold.
+  skipped: string[];
+}
+
+interface SnapshotSummary {
+  id: string;
+  createdAt: number;
+  label: string;
+  sessionId?: string;
+  files: number;
+  bytes: number;
+}
+
+interface SnapshotChange {
+  path: string;
+  change: "added" | "modified" | "removed";
+}
+
+interface RestoreResult {
+  id: string;
+  // The snapshot of the state the restore replaced, to undo it with.
+  safetySnapshot: string;
+  restored: string[];
+  removed: string[];
+}
+
+// What a file looked like when it was last hashed. A file whose size, mtime
+// and inode all match is not read again, the way git's index works.
+interface IndexEntry {
+  hash: string;
+  ino: number;
+  mtimeMs: number;
+  size: number;
+}
+
+interface SnapshotIndex {
+  // When the scan that wrote the index started.
+  scannedAt: number;
+  files: Record<string, IndexEntry>;
+}
+
+// Snapshots of one agent are taken and restored one at a time.
+const queues = new Map<string, Promise<unknown>>();
+
+async function serialized<Result>(agentSlug: string, task: () => Promise<Result>): Promise<Result> {
+  const previous = queues.get(agentSlug) ?? Promise.resolve();
+  const next = (async (): Promise<Result> => {
+    try {
+      await previous;
+    } catch {
+      // The previous task reported its own failure.
+    }
+    return await task();
+  })();
+  queues.set(agentSlug, next);
+  return await next;
+}
+
+function snapshotsDir(agentSlug: string): string {
+  return path.join(agentRoot(agentSlug), "snapshots");
+}
+
+function manifestPath(agentSlug: string, id: string): string {
+  return path.join(snapshotsDir(agentSlug), "manifests", `${id}.json`);
+}
+
+function objectPath(agentSlug: string, hash: string): string {
+  return path.join(snapshotsDir(agentSlug), "objects", hash.slice(0, 2), hash.slice(2));
+}
+
+function indexPath(agentSlug: string): string {
+  return path.join(snapshotsDir(agentSlug), "index.json");
+}
+
+function hostPath(agentSlug: string, sandboxPath: string): string {
+  return path.join(agentRoot(agentSlug), sandboxPath.slice(1));
+}
+
+function newSnapshotId(now: number): string {
+  const stamp = new Date(now).toISOString().replaceAll(/[-:.]/gu, "").slice(0, 18);
+  return `${stamp}-${randomBytes(2).toString("hex")}`;
+}
+
+function isExcluded(sandboxPath: string, exclude: readonly string[]): boolean {
+  return exclude.some(
+    (excluded) => sandboxPath === excluded || sandboxPath.startsWith(`${excluded}/`),
+  );
+}
+
+function isUnder(sandboxPath: string, prefix: string | undefined): boolean {
+  return prefix === undefined || sandboxPath === prefix || sandboxPath.startsWith(`${prefix}/`);
+}
+
+async function hashFile(file: string): Promise<string> {
+  const hash = createHash("sha256");
+  for await (const chunk of createReadStream(file)) {
+    // oxlint-disable-next-line typescript/no-unsafe-argument -- Streams without an encoding yield Buffers.
+    hash.update(chunk);
+  }
+  return hash.digest("hex");
+}
+
+/**
+ * Copies `file` into the object store and returns its hash. The copy is made
+ * first and hashed afterwards, so a file that changes while we read it can't
+ * be stored under the wrong hash. Reflinks make the copy free where the
+ * filesystem supports them.
+ */
+async function storeObject(agentSlug: string, file: string): Promise<string> {
+  const tmpDir = path.join(snapshotsDir(agentSlug), "tmp");
+  await mkdir(tmpDir, { recursive: true });
+  const tmp = path.join(tmpDir, randomBytes(8).toString("hex"));
+  await copyFile(file, tmp, constants.COPYFILE_FICLONE);
+  const hash = await hashFile(tmp);
+  const dest = objectPath(agentSlug, hash);
+  if (existsSync(dest)) {
+    await unlink(tmp);
+  } else {
+    await mkdir(path.dirname(dest), { recursive: true });
+    await rename(tmp, dest);
+  }
+  return hash;
+}
+
+async function readIndex(agentSlug: string): Promise<SnapshotIndex> {
+  try {
+    // oxlint-disable-next-line typescript/no-unsafe-type-assertion -- written by scan below.
+    return JSON.parse(await readFile(indexPath(agentSlug), "utf8")) as SnapshotIndex;
+  } catch {
+    return { files: {}, scannedAt: 0 };
+  }
+}
+
+/**
+ * Walks the agent's writable roots. With `store`, new file contents are copied
+ * into the object store; without it, they are only hashed.
+ */
+async function scan(
+  agentSlug: string,
+  cfg: SnapshotsConfig,
+  store: boolean,
+): Promise<Pick<Snapshot, "entries" | "skipped">> {
+  const previousIndex = await readIndex(agentSlug);
+  const index: SnapshotIndex = { files: {}, scannedAt: Date.now() };
+  const entries: Record<string, SnapshotEntry> = {};
+  const skipped: string[] = [];
+
+  const pending: string[] = [...SNAPSHOT_ROOTS];
+  for (let dir = pending.pop(); dir !== undefined; dir = pending.pop()) {
+    // oxlint-disable-next-line init-declarations
+    let names: string[];
+    try {
+      names = await readdir(hostPath(agentSlug, dir));
+    } catch {
+      continue;
+    }
+    for (const name of names) {
+      const sandboxPath = `${dir}/${name}`;
+      if (isExcluded(sandboxPath, cfg.exclude)) {
+        continue;
+      }
+      const file = hostPath(agentSlug, sandboxPath);
+      try {
+        const stats = await lstat(file);
+        if (stats.isDirectory()) {
+          entries[sandboxPath] = { mode: stats.mode & 0o7777, type: "dir" };
+          pending.push(sandboxPath);
+        } else if (stats.isSymbolicLink()) {
+          entries[sandboxPath] = { target: await readlink(file), type: "symlink" };
+        } else if (stats.isFile()) {
+          if (stats.size > cfg.maxFileBytes) {
+            skipped.push(sandboxPath);
+            continue;
+          }
+          const known = previousIndex.files[sandboxPath];
+          let hash = known?.hash;
+          const unchanged =
+            known !== undefined &&
+            known.mtimeMs < previousIndex.scannedAt - RACY_MTIME_MS &&
+            known.size === stats.size &&
+            known.mtimeMs === stats.mtimeMs &&
+            known.ino === stats.ino &&
+            (!store || existsSync(objectPath(agentSlug, known.hash)));
+          if (!unchanged) {
+            hash = store ? await storeObject(agentSlug, file) : await hashFile(file);
+          }
+          if (hash === undefined) {
+            continue;
+          }
+          index.files[sandboxPath] = {
+            hash,
+            ino: stats.ino,
+            mtimeMs: stats.mtimeMs,
+            size: stats.size,
+          };
+          entries[sandboxPath] = {
+            hash,
+            mode: stats.mode & 0o7777,
+            size: stats.size,
+            type: "file",
+          };
+        }
+      } catch {
+        // Removed while we were walking; it isn't part of the snapshot.
+      }
+    }
+  }
+
+  if (store) {
+    await mkdir(snapshotsDir(agentSlug), { recursive: true });
+    await writeFile(indexPath(agentSlug), JSON.stringify(index));
+  }
+  return { entries, skipped: skipped.toSorted() };
+}
+
+function sortEntries(entries: Record<string, SnapshotEntry>): Record<string, SnapshotEntry> {
+  return Object.fromEntries(
+    Object.entries(entries).toSorted(([left], [right]) => left.localeCompare(right)),
+  );
+}
+
+async function snapshotIds(agentSlug: string): Promise<string[]> {
+  try {
+    const names = await readdir(path.join(snapshotsDir(agentSlug), "manifests"));
+    return names
+      .filter((name) => name.endsWith(".json"))
+      .map((name) => name.slice(0, -".json".length))
+      .filter((id) => SNAPSHOT_ID_PATTERN.test(id))
+      .toSorted((left, right) => right.localeCompare(left));
+  } catch {
+    return [];
+  }
+}
+
+async function readSnapshot(agentSlug: string, id: string): Promise<Snapshot> {
+  // oxlint-disable-next-line typescript/no-unsafe-type-assertion -- written by writeSnapshot below.
+  return JSON.parse(await readFile(manifestPath(agentSlug, id), "utf8")) as Snapshot;
+}
+
+/** Finds a snapshot by its ID or a prefix of it that only one snapshot has. */
+async function loadSnapshot(agentSlug: string, idOrPrefix: string): Promise<Snapshot> {
+  const ids = await snapshotIds(agentSlug);
+  const matches = ids.filter((id) => id.startsWith(idOrPrefix));
+  const [id] = matches;
+  if (idOrPrefix.length === 0 || id === undefined) {
+    throw new Error(`No snapshot matches '${idOrPrefix}'.`);
+  }
+  if (matches.length > 1 && id !== idOrPrefix) {
+    throw new Error(`'${idOrPrefix}' matches ${matches.length} snapshots; give more of the ID.`);
+  }
+  return await readSnapshot(agentSlug, id);
+}
+
+function summarize(snapshot: Snapshot): SnapshotSummary {
+  const files = Object.values(snapshot.entries).filter((entry) => entry.type === "file");
+  const summary: SnapshotSummary = {
+    bytes: files.reduce((total, entry) => total + entry.size, 0),
+    createdAt: snapshot.createdAt,
+    files: files.length,
+    id: snapshot.id,
+    label: snapshot.label,
+  };
+  if (snapshot.sessionId !== undefined) {
+    summary.sessionId = snapshot.sessionId;
+  }
+  return summary;
+}
+
+/** Lists the agent's snapshots, newest first. */
+async function listSnapshots(agentSlug: string): Promise<SnapshotSummary[]> {
+  const summaries: SnapshotSummary[] = [];
+  for (const id of await snapshotIds(agentSlug)) {
+    summaries.push(summarize(await readSnapshot(agentSlug, id)));
+  }
+  return summaries;
+}
+
+function sameState(
+  left: Pick<Snapshot, "entries" | "skipped">,
+  right: Pick<Snapshot, "entries" | "skipped">,
+): boolean {
+  return (
+    JSON.stringify(sortEntries(left.entries)) === JSON.stringify(sortEntries(right.entries)) &&
+    JSON.stringify(left.skipped) === JSON.stringify(right.skipped)
+  );
+}
+
+// Deletes snapshots beyond `keep` or older than `maxAgeDays`, always keeping
+// the newest, then the objects no remaining snapshot refers to.
+async function prune(agentSlug: string, cfg: SnapshotsConfig, now: number): Promise<void> {
+  const ids = await snapshotIds(agentSlug);
+  const referenced = new Set<string>();
+  for (const [position, id] of ids.entries()) {
+    const snapshot = await readSnapshot(agentSlug, id);
+    const expired =
+      position >= cfg.keep ||
+      (position > 0 &&
+        cfg.maxAgeDays !== undefined &&
+        now - snapshot.createdAt > cfg.maxAgeDays * DAY_MS);
+    if (expired) {
+      await unlink(manifestPath(agentSlug, id));
+      debug({ agent: agentSlug, snapshot: id }, "Deleted expired snapshot");
+      continue;
+    }
+    for (const entry of Object.values(snapshot.entries)) {
+      if (entry.type === "file") {
+        referenced.add(entry.hash);
+      }
+    }
+  }
+
+  const objectsDir = path.join(snapshotsDir(agentSlug), "objects");
+  const prefixes = existsSync(objectsDir) ? await readdir(objectsDir) : [];
+  for (const prefix of prefixes) {
+    for (const rest of await readdir(path.join(objectsDir, prefix))) {
+      if (!referenced.has(`${prefix}${rest}`)) {
+        await unlink(path.join(objectsDir, prefix, rest));
+      }
+    }
+  }
+  await rm(path.join(snapshotsDir(agentSlug), "tmp"), { force: true, recursive: true });
+}
+
+async function takeSnapshotNow(
+  agentSlug: string,
+  cfg: SnapshotsConfig,
+  meta: { label: string; sessionId?: string },
+): Promise<{ id: string; created: boolean }> {
+  const state = await scan(agentSlug, cfg, true);
+  const [latestId] = await snapshotIds(agentSlug);
+  const latest = latestId === undefined ? undefined : await readSnapshot(agentSlug, latestId);
+  if (latest !== undefined && sameState(state, latest)) {
+    return { created: false, id: latest.id };
+  }
+
+  // IDs sort by creation time, so they must not go backwards or repeat.
+  const now = Math.max(Date.now(), (latest?.createdAt ?? 0) + 1);
+  const snapshot: Snapshot = {
+    createdAt: now,
+    entries: sortEntries(state.entries),
+    id: newSnapshotId(now),
+    label: meta.label,
+    skipped: state.skipped,
+  };
+  if (meta.sessionId !== undefined) {
+    snapshot.sessionId = meta.sessionId;
+  }
+  await mkdir(path.dirname(manifestPath(agentSlug, snapshot.id)), { recursive: true });
+  await writeFile(manifestPath(agentSlug, snapshot.id), JSON.stringify(snapshot));
+  debug({ agent: agentSlug, snapshot: snapshot.id }, "Took workspace snapshot");
+  await prune(agentSlug, cfg, now);
+  return { created: true, id: snapshot.id };
+}
+
+/**
+ * Snapshots /workspace, /memories and /tasks. Returns undefined when nothing
+ * changed since the latest snapshot, in which case none is taken.
+ */
+async function takeSnapshot(
+  agentSlug: string,
+  cfg: SnapshotsConfig,
+  meta: { label: string; sessionId?: string },
+): Promise<SnapshotSummary | undefined> {
+  return await serialized(agentSlug, async () => {
+    const { created, id } = await takeSnapshotNow(agentSlug, cfg, meta);
+    return created ? summarize(await readSnapshot(agentSlug, id)) : undefined;
+  });
+}
+
+function compare(
+  from: Record<string, SnapshotEntry>,
+  to: Record<string, SnapshotEntry>,
+): SnapshotChange[] {
+  const changes: SnapshotChange[] = [];
+  const paths = new Set([...Object.keys(from), ...Object.keys(to)]);
+  for (const sandboxPath of [...paths].toSorted((left, right) => left.localeCompare(right))) {
+    const before = from[sandboxPath];
+    const after = to[sandboxPath];
+    if (before === undefined) {
+      changes.push({ change: "added", path: sandboxPath });
+    } else if (after === undefined) {
+      changes.push({ change: "removed", path: sandboxPath });
+    } else if (
+      (before.type !== "dir" || after.type !== "dir") &&
+      JSON.stringify(before) !== JSON.stringify(after)
+    ) {
+      changes.push({ change: "modified", path: sandboxPath });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Lists what changed from snapshot `id` to snapshot `against`, or to the
+ * current files when `against` is not given.
+ */
+async function diffSnapshot(
+  agentSlug: string,
+  cfg: SnapshotsConfig,
+  id: string,
+  against?: string,
+): Promise<SnapshotChange[]> {
+  const from = await loadSnapshot(agentSlug, id);
+  const to =
+    against === undefined
+      ? await serialized(agentSlug, async () => await scan(agentSlug, cfg, false))
+      : await loadSnapshot(agentSlug, against);
+  return compare(from.entries, to.entries);
+}
+
+/**
+ * Throws if a directory between `sandboxPath` and its snapshot root is a
+ * symlink. Restores run with the host's privileges inside directories the
+ * agent can write, so following one could touch files outside the agent's.
+ * Parents that don't exist yet are fine; mkdir creates real directories.
+ */
+async function checkParents(agentSlug: string, sandboxPath: string): Promise<void> {
+  const snapshotRoot = SNAPSHOT_ROOTS.find((rootPath) => isUnder(sandboxPath, rootPath));
+  if (snapshotRoot === undefined) {
+    return;
+  }
+  // "/workspace/a/b/c.txt" under "/workspace" checks "/workspace/a", then "/workspace/a/b".
+  const segments = path.posix.relative(snapshotRoot, sandboxPath).split("/").slice(0, -1);
+  const parents = segments.map((_segment, index) =>
+    path.posix.join(snapshotRoot, ...segments.slice(0, index + 1)),
+  );
+  for (const parent of parents) {
+    // oxlint-disable-next-line init-declarations
+    let stats: Stats;
+    try {
+      stats = await lstat(hostPath(agentSlug, parent));
+    } catch {
+      return;
+    }
+    if (stats.isSymbolicLink()) {
+      throw new Error(`Refusing to restore '${sandboxPath}': '${parent}' is a symlink.`);
+    }
+  }
+}
+
+async function removePath(file: string): Promise<void> {
+  await rm(file, { force: true, recursive: true });
+}
+
+/**
+ * Puts the files under `only` (a sandbox path; everything when undefined) back
+ * the way snapshot `id` has them. The current state is snapshotted first, so a
+ * restore can itself be undone. Excluded paths and files too large to
+ * snapshot are left alone.
+ */
+async function restoreSnapshot(
+  agentSlug: string,
+  cfg: SnapshotsConfig,
+  id: string,
+  only?: string,
+): Promise<RestoreResult> {
+  const prefix = only?.replace(/\/+$/u, "");
+  if (
+    prefix !== undefined &&
+    !SNAPSHOT_ROOTS.some((snapshotRoot) => isUnder(prefix, snapshotRoot))
+  ) {
+    throw new Error(`'${only}' is not under ${SNAPSHOT_ROOTS.join(", ")}.`);
+  }
+
+  return await serialized(agentSlug, async () => {
+    const target = await loadSnapshot(agentSlug, id);
+    const safety = await takeSnapshotNow(agentSlug, cfg, {
+      label: `before restoring ${target.id}`,
+    });
+    const { entries: current } = await readSnapshot(agentSlug, safety.id);
+    const keep = new Set(target.skipped);
+
+    const removed: string[] = [];
+    const stale = Object.keys(current)
+      .filter(
+        (sandboxPath) =>
+          isUnder(sandboxPath, prefix) &&
+          target.entries[sandboxPath] === undefined &&
+          !keep.has(sandboxPath) &&
+          !isExcluded(sandboxPath, cfg.exclude),
+      )
+      // Children before their directories.
+      .toSorted((left, right) => right.localeCompare(left));
+    for (const sandboxPath of stale) {
+      const file = hostPath(agentSlug, sandboxPath);
+      await checkParents(agentSlug, sandboxPath);
+      if (current[sandboxPath]?.type === "dir") {
+        try {
+          await rmdir(file);
+        } catch {
+          // Still holds files the restore leaves alone.
+          continue;
+        }
+      } else {
+        await unlink(file);
+      }
+      removed.push(sandboxPath);
+    }
+
+    const restored: string[] = [];
+    for (const [sandboxPath, entry] of Object.entries(target.entries)) {
+      if (!isUnder(sandboxPath, prefix) || isExcluded(sandboxPath, cfg.exclude)) {
+        continue;
+      }
+      const existing = current[sandboxPath];
+      const file = hostPath(agentSlug, sandboxPath);
+      if (JSON.stringify(existing) === JSON.stringify(entry)) {
+        continue;
+      }
+      await checkParents(agentSlug, sandboxPath);
+      if (existing !== undefined && existing.type !== entry.type) {
+        await removePath(file);
+      }
+      await mkdir(path.dirname(file), { recursive: true });
+      // Again, in case something running in the sandbox swapped one meanwhile.
+      await checkParents(agentSlug, sandboxPath);
+      if (entry.type === "dir") {
+        await mkdir(file, { recursive: true });
+        await chmod(file, entry.mode);
+      } else if (entry.type === "symlink") {
+        await removePath(file);
+        await symlink(entry.target, file);
+      } else if (existing?.type === "file" && existing.hash === entry.hash) {
+        await chmod(file, entry.mode);
+      } else {
+        await removePath(file);
+        await copyFile(objectPath(agentSlug, entry.hash), file, constants.COPYFILE_FICLONE);
+        await chmod(file, entry.mode);
+      }
+      restored.push(sandboxPath);
+    }
+
+    debug(
+      { agent: agentSlug, removed: removed.length, restored: restored.length, snapshot: target.id },
+      "Restored workspace snapshot",
+    );
+    return { id: target.id, removed, restored, safetySnapshot: safety.id };
+  });
+}
+
+function formatTimestamp(ms: number): string {
+  return new Date(ms).toISOString().slice(0, 16).replace("T", " ");
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KiB`;
+  }
+  return `${(bytes / 1024 / 1024).toFixed(1)} MiB`;
+}
+
+// Plain-text listing shared by `cireilclaw snapshot list` and `/rollback list`.
+function formatSnapshotList(snapshots: SnapshotSummary[]): string {
+  if (snapshots.length === 0) {
+    return "No snapshots yet.";
+  }
+  return snapshots
+    .map(
+      (snapshot) =>
+        `${snapshot.id}  ${formatTimestamp(snapshot.createdAt)} UTC  ${snapshot.files} files, ${formatBytes(snapshot.bytes)}  ${snapshot.label}${snapshot.sessionId === undefined ? "" : ` (${snapshot.sessionId})`}`,
+    )
+    .join("\n");
+}
+
+const CHANGE_MARKERS: Record<SnapshotChange["change"], string> = {
+  added: "+",
+  modified: "~",
+  removed: "-",
+};
+
+function formatSnapshotChanges(changes: SnapshotChange[]): string {
+  if (changes.length === 0) {
+    return "No changes.";
+  }
+  return changes.map((change) => `${CHANGE_MARKERS[change.change]} ${change.path}`).join("\n");
+}
+
+export {
+  diffSnapshot,
+  formatSnapshotChanges,
+  formatSnapshotList,
+  listSnapshots,
+  loadSnapshot,
+  restoreSnapshot,
+  takeSnapshot,
+};
+export type { RestoreResult, Snapshot, SnapshotChange, SnapshotSummary };
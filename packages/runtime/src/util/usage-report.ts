@@ -0,0 +1,66 @@
+import type { UsageTotals } from "#db/usage.js";
+
+const WINDOW_PATTERN = /^(?<amount>\d+)(?<unit>[hd])$/u;
+const SECONDS_PER_HOUR = 3600;
+
+// Turns a window like "24h" or "7d" into a unix timestamp (seconds) to sum
+// from. "all" yields undefined, meaning no lower bound.
+function parseWindow(window: string, now = Date.now()): number | undefined {
+  if (window === "all") {
+    return undefined;
+  }
+  const match = WINDOW_PATTERN.exec(window);
+  const amount = Number(match?.groups?.["amount"]);
+  const unit = match?.groups?.["unit"];
+  if (unit !== "h" && unit !== "d") {
+    throw new Error(`Invalid window '${window}': use e.g. 24h, 7d or all`);
+  }
+  const hours = unit === "d" ? amount * 24 : amount;
+  return Math.floor(now / 1000) - hours * SECONDS_PER_HOUR;
+}
+
+function formatCost(costUsd: number): string {
+  return `$${costUsd.toFixed(costUsd < 1 ? 4 : 2)}`;
+}
+
+// Plain-text table shared by `cireilclaw usage` and `/usage`.
+function formatUsageReport(rows: UsageTotals[], heading: string): string {
+  if (rows.length === 0) {
+    return `${heading}\nNo usage recorded.`;
+  }
+
+  const header = ["", "gens", "prompt", "cached", "completion", "reasoning", "cost"];
+  const body = rows.map((row) => [
+    row.key,
+    String(row.generations),
+    String(row.promptTokens),
+    String(row.cachedTokens),
+    String(row.completionTokens),
+    String(row.reasoningTokens),
+    row.unpriced === row.generations ? "-" : formatCost(row.costUsd),
+  ]);
+
+  const total = rows.reduce((sum, row) => sum + row.costUsd, 0);
+  const unpriced = rows.reduce((sum, row) => sum + row.unpriced, 0);
+
+  const table = [header, ...body];
+  const widths = header.map((title, col) =>
+    Math.max(title.length, ...body.map((line) => line[col]?.length ?? 0)),
+  );
+  const lines = table.map((line) =>
+    line
+      .map((cell, col) =>
+        col === 0 ? cell.padEnd(widths[col] ?? 0) : cell.padStart(widths[col] ?? 0),
+      )
+      .join("  "),
+  );
+
+  lines.unshift(heading);
+  lines.push(`Total: ${formatCost(total)}`);
+  if (unpriced > 0) {
+    lines.push(`${unpriced} generation(s) have no price in engine.toml and are not in the total.`);
+  }
+  return lines.join("\n");
+}
+
+export { formatUsageReport, parseWindow };
@@ -0,0 +1,66 @@
+/** Where a plugin channel message goes: one conversation, for one agent. */
+interface ChannelTarget {
+  agentSlug: string;
+  // The plugin's own ID for the conversation: a room, a DM, a mail thread.
+  conversationId: string;
+}
+
+/** A message from the platform that the agent should answer. */
+interface ChannelInboundMessage {
+  conversationId: string;
+  // The platform's message ID; used for reactions and history lookups.
+  id: string;
+  authorId: string;
+  authorName: string;
+  content: string;
+  // Milliseconds since the epoch. Defaults to when the runtime received it.
+  timestamp?: number;
+  // One-on-one conversations, matched by the `plugin:<channel>:dm` condition.
+  isDirect?: boolean;
+}
+
+/** A message returned from `fetchHistory`. */
+interface ChannelHistoryMessage {
+  id: string;
+  authorId: string;
+  authorName: string;
+  content: string;
+  // Milliseconds since the epoch.
+  timestamp: number;
+}
+
+interface ChannelConnectContext {
+  agentSlug: string;
+  // The agent's `config/channels/<channel>.toml`.
+  config: Record<string, unknown>;
+  // Hands a message to the runtime, which queues a turn for it.
+  receive(this: void, message: ChannelInboundMessage): void;
+}
+
+/**
+ * A chat platform bridge. `connect` is called once for every agent with a
+ * `config/channels/<channel>.toml`; the other methods are called with the
+ * agent and conversation they're for.
+ */
+interface ChannelDef {
+  connect(ctx: ChannelConnectContext): void | Promise<void>;
+  // Resolves with the IDs of the messages sent, if the platform has them.
+  send(target: ChannelTarget, content: string): Promise<string[] | undefined>;
+  // The runtime passes the latest inbound message when the agent doesn't
+  // name one.
+  react?(target: ChannelTarget, emoji: string, messageId: string): Promise<void>;
+  fetchHistory?(
+    target: ChannelTarget,
+    messageId: string,
+    direction: "after" | "around" | "before",
+    limit: number,
+  ): Promise<ChannelHistoryMessage[]>;
+}
+
+export type {
+  ChannelConnectContext,
+  ChannelDef,
+  ChannelHistoryMessage,
+  ChannelInboundMessage,
+  ChannelTarget,
+};
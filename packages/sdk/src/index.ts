@@ -1,5 +1,17 @@
 export { definePlugin } from "#plugin.js";
-export type { Plugin, PluginFactory, Section } from "#plugin.js";
+export type {
+  Plugin,
+  PluginCapabilities,
+  PluginFactory,
+  PluginHooks,
+  Section,
+  ToolCallHookEvent,
+  ToolCallVeto,
+  ToolResultHookEvent,
+  TurnEndHookEvent,
+  TurnHookEvent,
+  TurnOrigin,
+} from "#plugin.js";
 export { KeyPool, KeyPoolManager } from "#key-pool.js";
 export type {
   BasicSession,
@@ -16,6 +28,13 @@ export type {
   ToolResult,
 } from "#tool.js";
 export type { PluginSession } from "#session.js";
+export type {
+  ChannelConnectContext,
+  ChannelDef,
+  ChannelHistoryMessage,
+  ChannelInboundMessage,
+  ChannelTarget,
+} from "#channel.js";
 export type {
   CryptoKeyPairBytes,
   Ed25519Api,
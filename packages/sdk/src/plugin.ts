@@ -1,5 +1,6 @@
+import type { ChannelDef } from "#channel.js";
 import type { Section } from "#outline.js";
-import type { ToolDef } from "#tool.js";
+import type { BasicSession, ToolDef, ToolResult } from "#tool.js";
 
 interface ExtractorDef {
   glob: string;
@@ -7,10 +8,91 @@ interface ExtractorDef {
   extract(filePath: string, content: string): Section[] | Promise<Section[]>;
 }
 
+// What started the turn: a user message, a heartbeat, a cron job or a
+// summarization.
+type TurnOrigin = "user" | "heartbeat" | "cron" | "summarizer";
+
+interface TurnHookEvent {
+  agentSlug: string;
+  channel: BasicSession["channel"];
+  origin: TurnOrigin;
+  sessionId: string;
+}
+
+interface TurnEndHookEvent extends TurnHookEvent {
+  outcome: "completed" | "failed";
+  // Set when the outcome is "failed".
+  error?: string;
+}
+
+interface ToolCallHookEvent extends TurnHookEvent {
+  callId: string;
+  toolName: string;
+  input: unknown;
+}
+
+interface ToolResultHookEvent extends ToolCallHookEvent {
+  result: ToolResult;
+}
+
+// Returned from onToolCall to stop the call. The reason is shown to the
+// model as the tool's error.
+interface ToolCallVeto {
+  veto: string;
+}
+
+/**
+ * Optional callbacks the runtime makes into the plugin's worker. Hooks are
+ * awaited, but a hook that throws or runs past its deadline is logged and
+ * skipped; it never fails the turn.
+ */
+interface PluginHooks {
+  // Runs once in the worker before the plugin's tools are registered.
+  // Throwing fails the plugin's load.
+  onLoad?(): void | Promise<void>;
+  onTurnStart?(event: TurnHookEvent): void | Promise<void>;
+  // Runs before every tool call, including other plugins' and builtin tools.
+  onToolCall?(
+    event: ToolCallHookEvent,
+  ): ToolCallVeto | undefined | Promise<ToolCallVeto | undefined>;
+  // Runs after every executed tool call. Returning a result replaces the one
+  // the model sees.
+  onToolResult?(
+    event: ToolResultHookEvent,
+  ): ToolResult | undefined | Promise<ToolResult | undefined>;
+  onTurnEnd?(event: TurnEndHookEvent): void | Promise<void>;
+  // Runs before the worker is destroyed at shutdown.
+  onUnload?(): void | Promise<void>;
+}
+
+/**
+ * The host access a plugin's tools need. Operators grant each capability per
+ * agent in plugins.toml; the parts of `PluginToolContext` behind anything not
+ * both declared and granted throw `ToolError`.
+ */
+interface PluginCapabilities {
+  // Hosts `ctx.net.fetch` may reach. "*.example.com" also matches subdomains.
+  net?: string[];
+  // `ctx.fs` reads, `ctx.paths`, and `ctx.crypto.loadNormalizedKey` of
+  // sandbox paths.
+  fsRead?: boolean;
+  // `ctx.fs.writeTextFile` and `ctx.paths.checkWriteAccess`.
+  fsWrite?: boolean;
+  // `ctx.crypto.loadNormalizedKey` of host paths.
+  hostKeys?: boolean;
+  // `ctx.reply`, `ctx.channel.resolveChannel` and `ctx.addToolMessage`.
+  send?: boolean;
+}
+
 interface Plugin {
   name: string;
+  capabilities?: PluginCapabilities;
   tools?: Record<string, ToolDef>;
   extractors?: ExtractorDef[];
+  hooks?: PluginHooks;
+  // Chat platforms, by channel name. Names are lowercase and can't be a
+  // builtin channel's.
+  channels?: Record<string, ChannelDef>;
 }
 
 type PluginFactory = () => Plugin | Promise<Plugin>;
@@ -20,5 +102,17 @@ function definePlugin(factory: PluginFactory): PluginFactory {
 }
 
 export { definePlugin };
-export type { Plugin, PluginFactory, ExtractorDef };
+export type {
+  ExtractorDef,
+  Plugin,
+  PluginCapabilities,
+  PluginFactory,
+  PluginHooks,
+  ToolCallHookEvent,
+  ToolCallVeto,
+  ToolResultHookEvent,
+  TurnEndHookEvent,
+  TurnHookEvent,
+  TurnOrigin,
+};
 export type { Section } from "#outline.js";
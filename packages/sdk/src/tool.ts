@@ -24,7 +24,7 @@ interface ToolErrorResult {
 }
 
 type ChannelResolution =
-  | { readonly channel: "discord" | "matrix" | "tui" | "internal"; id(): string }
+  | { readonly channel: "api" | "discord" | "matrix" | "plugin" | "tui" | "internal"; id(): string }
   | { error: string };
 
 interface Mount {
@@ -34,7 +34,7 @@ interface Mount {
 }
 
 interface BasicSession {
-  readonly channel: "discord" | "matrix" | "tui" | "internal";
+  readonly channel: "api" | "discord" | "matrix" | "plugin" | "tui" | "internal";
   id(): string;
 }
 
@@ -96,8 +96,8 @@ interface PluginToolContext {
   createKeyPool(this: void, keys: string | string[], cooldownMs?: number): KeyPool;
   crypto: PluginCryptoApi;
   ids: PluginIdsApi;
-  // Plugins should use ctx.net.fetch instead of the global fetch. This is the mediation point
-  // for future isolation (worker/subprocess); today it's a passthrough.
+  // Only reaches the hosts in the plugin's `net` capability. The global fetch isn't mediated,
+  // so plugins should always use this one.
   net: {
     fetch: typeof fetch;
   };